@@ -973,7 +973,9 @@ BEGIN
   -- 15. Dashboard Charts
   -- =====================================================
   INSERT INTO public.user_dashboard_charts (user_id, chart_type, title, time_period, display_order, grid_width, grid_height)
-  VALUES (v_user_id, 'donut', 'Spending by Category', 'this-month', 0, 6, 3);
+  VALUES
+    (v_user_id, 'category-trend', 'Spending this month', 'this-month', 0, 8, 3),
+    (v_user_id, 'upcoming-bills', 'Bills due soon', 'next-14-days', 1, 4, 3);
 
   RAISE NOTICE 'Demo data seeded successfully! % transactions created.', v_up_txn_counter - 1;
 END $$;
@@ -4,6 +4,7 @@ import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 import { CategoryProvider } from "@/contexts/category-context";
 import { CategoryBudgetDetail } from "@/components/budget/category-budget-detail";
+import { findSplitTransactionIds, scopeToCategories } from "@/lib/transaction-splits";
 
 export default async function SubcategoryBudgetPage({
   params,
@@ -85,7 +86,8 @@ export default async function SubcategoryBudgetPage({
       *,
       category:categories!category_id(id, name),
       parent_category:categories!parent_category_id(id, name),
-      transaction_tags(tag_name)
+      transaction_tags(tag_name),
+      transaction_splits(position, amount_cents, category_id, parent_category_id, is_shared)
     `)
     .in("account_id", accountIds)
     .order("settled_at", { ascending: false });
@@ -104,10 +106,20 @@ export default async function SubcategoryBudgetPage({
       // No mappings exist — all transactions are effectively uncategorized
     }
   } else {
-    query = query.eq("category_id", subcategoryMapping!.upCategoryId);
+    // Also pick up split transactions with a line in this subcategory
+    const upCategoryId = subcategoryMapping!.upCategoryId;
+    const splitIds = await findSplitTransactionIds(supabase, [upCategoryId]);
+    query = splitIds.length > 0
+      ? query.or(`category_id.eq.${upCategoryId},id.in.(${splitIds.join(',')})`)
+      : query.eq("category_id", upCategoryId);
   }
 
-  const { data: allTransactions } = await query;
+  const { data: fetchedTransactions } = await query;
+
+  // Split transactions only count their lines in this subcategory
+  const allTransactions = isMiscellaneous
+    ? fetchedTransactions
+    : scopeToCategories(fetchedTransactions ?? [], [subcategoryMapping!.upCategoryId]);
 
   if (!allTransactions || allTransactions.length === 0) {
     notFound();
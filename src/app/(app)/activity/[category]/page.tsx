@@ -4,6 +4,7 @@ import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 import { CategoryProvider } from "@/contexts/category-context";
 import { CategoryBudgetDetail } from "@/components/budget/category-budget-detail";
+import { findSplitTransactionIds, scopeToCategories } from "@/lib/transaction-splits";
 
 export default async function CategoryBudgetPage({
   params,
@@ -69,7 +70,8 @@ export default async function CategoryBudgetPage({
       *,
       category:categories!category_id(id, name),
       parent_category:categories!parent_category_id(id, name),
-      transaction_tags(tag_name)
+      transaction_tags(tag_name),
+      transaction_splits(position, amount_cents, category_id, parent_category_id, is_shared)
     `)
     .in("account_id", accountIds)
     .order("settled_at", { ascending: false });
@@ -87,10 +89,19 @@ export default async function CategoryBudgetPage({
       query = query.or(`category_id.is.null,category_id.not.in.(${allMappedIds.join(',')})`);
     }
   } else {
-    query = query.in("category_id", upCategoryIds);
+    // Also pick up split transactions with a line in this category
+    const splitIds = await findSplitTransactionIds(supabase, upCategoryIds);
+    query = splitIds.length > 0
+      ? query.or(`category_id.in.(${upCategoryIds.join(',')}),id.in.(${splitIds.join(',')})`)
+      : query.in("category_id", upCategoryIds);
   }
 
-  const { data: allTransactions } = await query;
+  const { data: fetchedTransactions } = await query;
+
+  // Split transactions only count their lines in this category
+  const allTransactions = isMiscellaneous
+    ? fetchedTransactions
+    : scopeToCategories(fetchedTransactions ?? [], upCategoryIds);
 
   if (!allTransactions || allTransactions.length === 0) {
     notFound();
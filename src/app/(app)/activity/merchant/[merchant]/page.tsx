@@ -48,7 +48,8 @@ export default async function MerchantPage({
       *,
       category:categories!category_id(id, name),
       parent_category:categories!parent_category_id(id, name),
-      transaction_tags(tag_name)
+      transaction_tags(tag_name),
+      transaction_splits(position, amount_cents, category_id, parent_category_id, is_shared)
     `)
     .in("account_id", accountIds)
     .eq("description", merchantName)
@@ -0,0 +1,66 @@
+"use client";
+
+import { Skeleton } from "@/components/ui/skeleton";
+import { EmptyStateSkeleton } from "@/components/ui/empty-state-skeleton";
+import { useConnectionStatus } from "@/contexts/connection-status-context";
+
+export default function CalendarLoading() {
+  const { hasAccounts } = useConnectionStatus();
+
+  if (!hasAccounts) {
+    return (
+      <div className="p-4 md:p-6 lg:p-8">
+        <EmptyStateSkeleton />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pb-24 p-4 md:p-6 lg:p-8" style={{ backgroundColor: "var(--background)" }}>
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6">
+        <div className="space-y-1">
+          <Skeleton className="h-9 w-56" />
+          <Skeleton className="h-5 w-72" />
+        </div>
+        <div className="flex gap-1.5">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-7 w-12 rounded-xl" />
+          ))}
+        </div>
+      </div>
+
+      {/* Low points */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-6">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <div
+            key={i}
+            className="border-0 shadow-sm rounded-2xl p-4 space-y-2"
+            style={{ backgroundColor: "var(--surface-elevated)" }}
+          >
+            <Skeleton className="h-3 w-28" />
+            <Skeleton className="h-6 w-24" />
+            <Skeleton className="h-3 w-32" />
+          </div>
+        ))}
+      </div>
+
+      {/* Agenda */}
+      <div
+        className="border-0 shadow-sm rounded-2xl overflow-hidden divide-y"
+        style={{ backgroundColor: "var(--surface-elevated)", borderColor: "var(--border)" }}
+      >
+        {Array.from({ length: 6 }).map((_, i) => (
+          <div key={i} className="px-5 py-4 space-y-2">
+            <Skeleton className="h-4 w-24" />
+            <Skeleton className="h-4 w-full" />
+            <div className="flex gap-1.5">
+              <Skeleton className="h-5 w-28 rounded-lg" />
+              <Skeleton className="h-5 w-28 rounded-lg" />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
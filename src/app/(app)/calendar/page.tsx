@@ -0,0 +1,168 @@
+import { createClient } from "@/utils/supabase/server";
+import { redirect } from "next/navigation";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { getEffectiveAccountIds } from "@/lib/get-effective-account-ids";
+import { getCurrentDate } from "@/lib/demo-guard";
+import {
+  DEFAULT_BUDGET_TIMEZONE,
+  getDateComponentsInTimezone,
+} from "@/lib/budget-engine";
+import {
+  addDays,
+  buildCashflowCalendar,
+  projectBillEvents,
+  projectContributionEvents,
+  projectIncomeEvents,
+  type CalendarAccount,
+  type CalendarContribution,
+} from "@/lib/cashflow-calendar";
+import { CalendarClient } from "@/components/calendar/calendar-client";
+
+const HORIZON_OPTIONS = [14, 35, 60, 90] as const;
+const DEFAULT_HORIZON = 35;
+
+interface ContributionAssignmentRow {
+  goal_id: string | null;
+  asset_id: string | null;
+  assignment_type: string;
+  assigned_cents: number;
+  month: string;
+  goal: { name: string; linked_account_id: string | null; is_completed: boolean } | null;
+  asset: { name: string } | null;
+}
+
+interface CalendarPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+export default async function CalendarPage({ searchParams }: CalendarPageProps) {
+  const params = await searchParams;
+  const requestedDays = Number(typeof params.days === "string" ? params.days : NaN);
+  const horizonDays = (HORIZON_OPTIONS as readonly number[]).includes(requestedDays)
+    ? requestedDays
+    : DEFAULT_HORIZON;
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect("/login");
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+
+  const { year, month, day } = getDateComponentsInTimezone(
+    getCurrentDate(),
+    DEFAULT_BUDGET_TIMEZONE
+  );
+  const today = `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  const endDate = addDays(today, horizonDays - 1);
+  const currentMonth = `${today.slice(0, 7)}-01`;
+
+  const accountIds = partnershipId
+    ? await getEffectiveAccountIds(supabase, partnershipId, user.id, "shared")
+    : [];
+
+  const [
+    { data: accountRows },
+    { data: incomeSources },
+    { data: expenses },
+    { data: defaultBudget },
+  ] = await Promise.all([
+    supabase
+      .from("accounts")
+      .select("id, display_name, account_type, balance_cents, user_id")
+      .in("id", accountIds)
+      .in("account_type", ["TRANSACTIONAL", "SAVER"])
+      .eq("is_active", true)
+      .order("account_type", { ascending: false })
+      .order("display_name"),
+    // Manual partner income lands in an account we don't sync, so it can't
+    // move a projected balance here
+    supabase
+      .from("income_sources")
+      .select("id, name, amount_cents, frequency, next_pay_date, user_id")
+      .eq("partnership_id", partnershipId)
+      .eq("is_active", true)
+      .eq("source_type", "recurring-salary")
+      .eq("is_manual_partner_income", false),
+    supabase
+      .from("expense_definitions")
+      .select("id, name, emoji, expected_amount_cents, recurrence_type, next_due_date, created_by")
+      .eq("partnership_id", partnershipId)
+      .eq("is_active", true)
+      .lte("next_due_date", endDate),
+    supabase
+      .from("user_budgets")
+      .select("id")
+      .eq("partnership_id", partnershipId)
+      .eq("is_default", true)
+      .maybeSingle(),
+  ]);
+
+  const { data: assignments } = defaultBudget
+    ? await supabase
+        .from("budget_assignments")
+        .select(
+          "goal_id, asset_id, assignment_type, assigned_cents, month, goal:savings_goals(name, linked_account_id, is_completed), asset:investments(name)"
+        )
+        .eq("partnership_id", partnershipId)
+        .eq("budget_id", defaultBudget.id)
+        .in("assignment_type", ["goal", "asset"])
+        .gt("assigned_cents", 0)
+        .gte("month", currentMonth)
+        .lte("month", endDate)
+    : { data: [] };
+
+  const accounts: CalendarAccount[] = (accountRows || []).map((a) => ({
+    id: a.id,
+    display_name: a.display_name,
+    account_type: a.account_type,
+    balance_cents: a.balance_cents || 0,
+    user_id: a.user_id,
+  }));
+
+  const contributions: CalendarContribution[] = [];
+  for (const a of (assignments || []) as unknown as ContributionAssignmentRow[]) {
+    if (a.assignment_type === "goal" && a.goal_id && a.goal && !a.goal.is_completed) {
+      contributions.push({
+        id: a.goal_id,
+        kind: "goal",
+        name: a.goal.name,
+        amount_cents: a.assigned_cents,
+        month: a.month,
+        linked_account_id: a.goal.linked_account_id,
+      });
+    } else if (a.assignment_type === "asset" && a.asset_id && a.asset) {
+      contributions.push({
+        id: a.asset_id,
+        kind: "investment",
+        name: a.asset.name,
+        amount_cents: a.assigned_cents,
+        month: a.month,
+      });
+    }
+  }
+
+  const incomeEvents = projectIncomeEvents(incomeSources || [], accounts, today, endDate);
+  const events = [
+    ...incomeEvents,
+    ...projectBillEvents(expenses || [], accounts, today, endDate),
+    ...projectContributionEvents(
+      contributions,
+      incomeEvents.map((e) => e.date),
+      accounts,
+      user.id,
+      today,
+      endDate
+    ),
+  ];
+
+  const calendar = buildCashflowCalendar(accounts, events, today, endDate);
+
+  return (
+    <div className="p-4 md:p-6 lg:p-8">
+      <CalendarClient
+        calendar={calendar}
+        horizonDays={horizonDays}
+        horizonOptions={[...HORIZON_OPTIONS]}
+      />
+    </div>
+  );
+}
@@ -6,6 +6,98 @@ import { getCurrentDate } from "@/lib/demo-guard";
 import { generateInsights } from "@/lib/spending-insights";
 import { advanceStaleIncomeSources } from "@/lib/advance-pay-date";
 import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { createFxLookup, isForeignCurrency, sumBalancesInAud } from "@/lib/fx-rates";
+import { loadFxRates } from "@/lib/fx-rate-store";
+import {
+  buildWidgetData,
+  sortWidgets,
+  widgetDataStart,
+  type DashboardWidget,
+  type WidgetSources,
+  type WidgetBudgetAssignment,
+  type WidgetGoal,
+  type WidgetGoalContribution,
+  type WidgetTransaction,
+} from "@/lib/dashboard-widgets";
+
+/** Enough rows for a year of spending in a busy household */
+const WIDGET_TRANSACTION_LIMIT = 10000;
+const WIDGET_BATCH_SIZE = 1000;
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/** Spending transactions for the widgets, paged past the 1000-row API limit */
+async function loadWidgetTransactions(
+  supabase: SupabaseServerClient,
+  accountIds: string[],
+  fromDate: string
+): Promise<WidgetTransaction[]> {
+  const rows: WidgetTransaction[] = [];
+  for (let from = 0; from < WIDGET_TRANSACTION_LIMIT; from += WIDGET_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("description, amount_cents, category_id, created_at, is_income")
+      .in("account_id", accountIds)
+      .is("transfer_account_id", null)
+      .lt("amount_cents", 0)
+      .gte("created_at", `${fromDate}T00:00:00`)
+      .order("created_at", { ascending: false })
+      .range(from, from + WIDGET_BATCH_SIZE - 1);
+    if (error || !data) break;
+    rows.push(...data);
+    if (data.length < WIDGET_BATCH_SIZE) break;
+  }
+  return rows;
+}
+
+/** Category budgets for the given months from the default budget */
+async function loadWidgetBudgetAssignments(
+  supabase: SupabaseServerClient,
+  partnershipId: string,
+  months: string[]
+): Promise<WidgetBudgetAssignment[]> {
+  const { data: budget } = await supabase
+    .from("user_budgets")
+    .select("id, budget_view")
+    .eq("partnership_id", partnershipId)
+    .eq("is_active", true)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (!budget) return [];
+
+  const { data } = await supabase
+    .from("budget_assignments")
+    .select("month, category_name, assigned_cents")
+    .eq("budget_id", budget.id)
+    .eq("budget_view", budget.budget_view || "shared")
+    .eq("assignment_type", "category")
+    .in("month", months);
+  return data || [];
+}
+
+/** Active goals and what went into them since a date */
+async function loadWidgetGoals(
+  supabase: SupabaseServerClient,
+  partnershipId: string,
+  fromDate: string
+): Promise<{ goals: WidgetGoal[]; contributions: WidgetGoalContribution[] }> {
+  const { data: goals } = await supabase
+    .from("savings_goals")
+    .select("id, name, icon, color, current_amount_cents, target_amount_cents")
+    .eq("partnership_id", partnershipId)
+    .eq("is_completed", false)
+    .order("created_at", { ascending: false });
+  if (!goals || goals.length === 0) return { goals: [], contributions: [] };
+
+  const { data: contributions } = await supabase
+    .from("goal_contributions")
+    .select("goal_id, amount_cents, created_at")
+    .in("goal_id", goals.map(g => g.id))
+    .gte("created_at", `${fromDate}T00:00:00`);
+  return { goals, contributions: contributions || [] };
+}
 
 export default async function DashboardPage() {
   const supabase = await createClient();
@@ -22,11 +114,13 @@ export default async function DashboardPage() {
     partnershipId,
     { data: accounts },
     { data: categoryMappings },
+    { data: widgetRows },
   ] = await Promise.all([
     supabase.from("profiles").select("display_name").eq("id", user.id).maybeSingle(),
     getUserPartnershipId(supabase, user.id),
-    supabase.from("accounts").select("id, balance_cents, display_name, account_type, updated_at").eq("user_id", user.id).eq("is_active", true),
+    supabase.from("accounts").select("id, balance_cents, currency_code, display_name, account_type, updated_at").eq("user_id", user.id).eq("is_active", true),
     supabase.from("category_mappings").select("up_category_id, new_parent_name, new_child_name, icon"),
+    supabase.from("user_dashboard_charts").select("id, chart_type, title, category_filter, time_period, display_order, grid_width, grid_height, grid_x, grid_y").eq("user_id", user.id),
   ]);
 
   if (!accounts || accounts.length === 0) {
@@ -47,8 +141,11 @@ export default async function DashboardPage() {
 
   const accountIds = accounts.map(a => a.id);
 
-  // Calculate total balance
-  const totalBalance = accounts?.reduce((sum, acc) => sum + (acc.balance_cents || 0), 0) || 0;
+  // Calculate total balance (foreign-currency accounts converted to AUD)
+  const balanceDate = getCurrentDate().toISOString().split("T")[0];
+  const foreignCurrencies = [...new Set(accounts.map(a => a.currency_code).filter(isForeignCurrency))];
+  const fxRates = foreignCurrencies.length > 0 ? await loadFxRates(supabase, foreignCurrencies, balanceDate) : [];
+  const totalBalance = sumBalancesInAud(accounts, createFxLookup(fxRates), balanceDate);
 
   // Get last sync time
   const lastSyncTime = accounts?.reduce((latest, acc) => {
@@ -86,7 +183,7 @@ export default async function DashboardPage() {
     supabase.from("transactions").select("id, description, amount_cents, created_at, category_id, is_income").in("account_id", accountIds).is("transfer_account_id", null).order("created_at", { ascending: false }).limit(5),
     supabase.from("expense_definitions").select("id, name, emoji, expected_amount_cents, next_due_date, recurrence_type, expense_matches!left(id, for_period, matched_at, transaction_id, transactions(amount_cents, settled_at, created_at))").eq("partnership_id", partnershipId).eq("is_active", true).order("next_due_date"),
     supabase.from("savings_goals").select("id, name, icon, color, current_amount_cents, target_amount_cents, deadline").eq("partnership_id", partnershipId).eq("is_completed", false).order("created_at", { ascending: false }).limit(3),
-    supabase.from("net_worth_snapshots").select("snapshot_date, total_balance_cents, investment_total_cents").eq("partnership_id", partnershipId).order("snapshot_date", { ascending: true }).limit(12),
+    supabase.from("net_worth_snapshots").select("snapshot_date, total_balance_cents, investment_total_cents, super_total_cents, liability_total_cents").eq("partnership_id", partnershipId).order("snapshot_date", { ascending: true }).limit(12),
     supabase.from("income_sources").select("id, next_pay_date, amount_cents, frequency").eq("user_id", user.id).eq("is_active", true).eq("source_type", "recurring-salary").eq("is_manual_partner_income", false),
     supabase.from("transactions").select("description, amount_cents, created_at, category_id, parent_category_id, is_income, is_internal_transfer").in("account_id", accountIds).is("transfer_account_id", null).gte("created_at", sixMonthsAgo.toISOString()).lte("created_at", endOfMonth.toISOString()).order("created_at", { ascending: false }).limit(1000),
     supabase.from("expense_definitions").select("id, name, match_pattern, merchant_name, category_name, expected_amount_cents, recurrence_type").eq("partnership_id", partnershipId).eq("is_active", true),
@@ -223,6 +320,32 @@ export default async function DashboardPage() {
     expenseDefinitions || []
   );
 
+  // Dashboard widgets: load only the sources the user's widgets show
+  const widgets: DashboardWidget[] = sortWidgets(widgetRows || []);
+  const widgetStart = widgetDataStart(widgets, now);
+  const [widgetTransactions, widgetSnapshots, widgetAssignments, widgetGoals] = await Promise.all([
+    widgetStart.transactions ? loadWidgetTransactions(supabase, accountIds, widgetStart.transactions) : [],
+    widgetStart.netWorth && partnershipId
+      ? supabase.from("net_worth_snapshots").select("snapshot_date, total_balance_cents, investment_total_cents, super_total_cents, liability_total_cents").eq("partnership_id", partnershipId).gte("snapshot_date", widgetStart.netWorth).order("snapshot_date", { ascending: true }).then(r => r.data || [])
+      : [],
+    widgetStart.budgetMonths.length > 0 && partnershipId
+      ? loadWidgetBudgetAssignments(supabase, partnershipId, widgetStart.budgetMonths)
+      : [],
+    widgetStart.goalContributions && partnershipId
+      ? loadWidgetGoals(supabase, partnershipId, widgetStart.goalContributions)
+      : { goals: [], contributions: [] },
+  ]);
+  const widgetSources: WidgetSources = {
+    transactions: widgetTransactions,
+    categoryParents: new Map((categoryMappings || []).map(m => [m.up_category_id, m.new_parent_name])),
+    budgetAssignments: widgetAssignments,
+    netWorthSnapshots: widgetSnapshots,
+    goals: widgetGoals.goals,
+    goalContributions: widgetGoals.contributions,
+    bills: processedBills,
+  };
+  const widgetData = Object.fromEntries(widgets.map(w => [w.id, buildWidgetData(w, widgetSources, now)]));
+
   // Auto-advance any stale income source dates
   const incomeSources = advanceStaleIncomeSources(supabase, incomeSourcesRaw || []);
 
@@ -300,6 +423,8 @@ export default async function DashboardPage() {
         safeToSpend={safeToSpend}
         monthlyBurnRate={monthlyBurnRate}
         yearEndProjection={yearEndProjection}
+        widgets={widgets}
+        widgetData={widgetData}
       />
     </>
   );
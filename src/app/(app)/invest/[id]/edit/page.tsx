@@ -30,9 +30,14 @@ export default async function InvestEditPage({ params }: { params: Promise<{ id:
     redirect("/invest");
   }
 
+  const { count: ledgerCount } = await supabase
+    .from("investment_transactions")
+    .select("id", { count: "exact", head: true })
+    .eq("investment_id", id);
+
   return (
     <div className="p-4 md:p-6 max-w-2xl mx-auto">
-      <InvestEditClient investment={investment} />
+      <InvestEditClient investment={investment} hasLedger={!!ledgerCount} />
     </div>
   );
 }
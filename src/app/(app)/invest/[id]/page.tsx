@@ -2,6 +2,13 @@ import { createClient } from "@/utils/supabase/server";
 import { InvestDetailClient } from "@/components/invest/invest-detail-client";
 import { redirect } from "next/navigation";
 import { getStartDateForPeriod } from "@/lib/portfolio-aggregation";
+import { calculateFxBreakdown } from "@/lib/fx-rates";
+import {
+  buildLedger,
+  calculateUnrealisedGains,
+  type InvestmentTransactionRecord,
+} from "@/lib/investment-ledger";
+import { resolvePriceProvider } from "@/lib/price-providers";
 
 interface InvestDetailPageProps {
   params: Promise<{ id: string }>;
@@ -42,8 +49,8 @@ export default async function InvestDetailPage({ params, searchParams }: InvestD
   const now = new Date();
   const startDate = getStartDateForPeriod(period, now);
 
-  // Fetch price history and portfolio total in parallel
-  const [{ data: history }, { data: allInvestments }] = await Promise.all([
+  // Fetch price history, portfolio total and the transaction ledger in parallel
+  const [{ data: history }, { data: allInvestments }, { data: ledgerRows }] = await Promise.all([
     supabase
       .from("investment_history")
       .select("value_cents, recorded_at")
@@ -54,6 +61,12 @@ export default async function InvestDetailPage({ params, searchParams }: InvestD
       .from("investments")
       .select("current_value_cents")
       .eq("partnership_id", investment.partnership_id),
+    supabase
+      .from("investment_transactions")
+      .select("id, investment_id, transaction_type, trade_date, quantity, amount_cents, fees_cents, native_amount_cents, split_ratio, parcel_allocations, notes, created_at")
+      .eq("investment_id", id)
+      .order("trade_date", { ascending: false })
+      .order("created_at", { ascending: false }),
   ]);
 
   // Portfolio weight
@@ -73,6 +86,22 @@ export default async function InvestDetailPage({ params, searchParams }: InvestD
     ? (Math.pow(1 + totalReturn, 365 / daysSincePurchase) - 1) * 100
     : totalReturn * 100; // For less than a year, just show simple return
 
+  // Market vs exchange-rate gain for a foreign holding
+  const fxGain = calculateFxBreakdown([investment]).holdings[0] ?? null;
+
+  // Parcels, cost base and gains from the transaction ledger
+  const transactions: InvestmentTransactionRecord[] = (ledgerRows || []).map((tx) => ({
+    ...tx,
+    quantity: tx.quantity === null ? null : Number(tx.quantity),
+    split_ratio: tx.split_ratio === null ? null : Number(tx.split_ratio),
+  }));
+  const ledger = buildLedger(transactions);
+  const unrealised = calculateUnrealisedGains(
+    ledger,
+    investment.current_value_cents,
+    now.toISOString().split("T")[0]
+  );
+
   return (
     <div className="p-4 md:p-6 lg:p-8">
       <InvestDetailClient
@@ -81,6 +110,9 @@ export default async function InvestDetailPage({ params, searchParams }: InvestD
         currentPeriod={period}
         portfolioWeight={portfolioWeight}
         annualizedReturn={annualizedReturn}
+        fxGain={fxGain}
+        ledgerData={{ transactions, ledger, unrealised, currencyCode: investment.currency_code }}
+        priceSource={resolvePriceProvider(investment.asset_type, investment.price_provider)}
       />
     </div>
   );
@@ -5,6 +5,8 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { Nunito, DM_Sans } from "next/font/google";
 import { createInvestment } from "@/app/actions/investments";
+import { COMMON_CURRENCIES } from "@/lib/fx-rates";
+import { PRICE_PROVIDER_CHOICES, PRICE_PROVIDER_LABELS, type PriceProviderChoice } from "@/lib/price-providers";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -35,9 +37,12 @@ export default function AddInvestmentPage() {
   const [assetType, setAssetType] = useState<"stock" | "etf" | "crypto" | "property" | "other">("stock");
   const [name, setName] = useState("");
   const [ticker, setTicker] = useState("");
+  const [priceProvider, setPriceProvider] = useState<PriceProviderChoice>("auto");
   const [quantity, setQuantity] = useState("");
   const [purchaseValue, setPurchaseValue] = useState("");
   const [currentValue, setCurrentValue] = useState("");
+  const [currency, setCurrency] = useState<string>("AUD");
+  const [purchaseDate, setPurchaseDate] = useState("");
   const [notes, setNotes] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -49,6 +54,7 @@ export default function AddInvestmentPage() {
   const currentPriceNum = currentValue ? parseFloat(currentValue) : null;
   const purchaseTotal = hasQty && purchasePriceNum ? purchasePriceNum * qty : purchasePriceNum;
   const currentTotal = hasQty && currentPriceNum ? currentPriceNum * qty : currentPriceNum;
+  const currencyPrefix = currency === "AUD" ? "$" : `${currency} `;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -71,6 +77,9 @@ export default function AddInvestmentPage() {
       quantity: qtyVal,
       purchase_value_cents: purchaseCents,
       current_value_cents: currentCents,
+      currency_code: currency,
+      price_provider: priceProvider,
+      purchase_date: purchaseDate || undefined,
       notes: notes || undefined,
     });
 
@@ -159,6 +168,26 @@ export default function AddInvestmentPage() {
               />
             </div>
 
+            {/* Price Source */}
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                Price Source
+              </Label>
+              <Select value={priceProvider} onValueChange={(v) => setPriceProvider(v as PriceProviderChoice)}>
+                <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRICE_PROVIDER_CHOICES.map((choice) => (
+                    <SelectItem key={choice} value={choice}>{PRICE_PROVIDER_LABELS[choice]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
+                Automatic uses CoinGecko for crypto and Yahoo Finance for stocks and ETFs. Pick price file or manual to only use prices you import or enter.
+              </p>
+            </div>
+
             {/* Quantity */}
             <div className="space-y-2">
               <Label htmlFor="quantity" className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
@@ -176,13 +205,48 @@ export default function AddInvestmentPage() {
               />
             </div>
 
+            {/* Currency */}
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                Currency
+              </Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMMON_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
+                Enter prices in this currency. Non-AUD values are converted at the day&apos;s exchange rate.
+              </p>
+            </div>
+
+            {/* Purchase Date */}
+            <div className="space-y-2">
+              <Label htmlFor="purchaseDate" className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                Purchase Date (optional)
+              </Label>
+              <Input
+                id="purchaseDate"
+                type="date"
+                value={purchaseDate}
+                onChange={(e) => setPurchaseDate(e.target.value)}
+                disabled={loading}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+
             {/* Purchase Price */}
             <div className="space-y-2">
               <Label htmlFor="purchaseValue" className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
                 {hasQty ? "Purchase Price per Unit (optional)" : "Purchase Value (optional)"}
               </Label>
               <div className="relative">
-                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">$</span>
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">{currencyPrefix.trim()}</span>
                 <Input
                   id="purchaseValue"
                   type="number"
@@ -191,12 +255,12 @@ export default function AddInvestmentPage() {
                   value={purchaseValue}
                   onChange={(e) => setPurchaseValue(e.target.value)}
                   disabled={loading}
-                  className="pl-7 h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                  className={`${currency === "AUD" ? "pl-7" : "pl-14"} h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]`}
                 />
               </div>
               {hasQty && purchaseTotal !== null ? (
                 <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
-                  {qty.toLocaleString("en-AU")} units &times; ${purchasePriceNum?.toFixed(2)} = <span className="font-medium text-text-primary">${purchaseTotal.toLocaleString("en-AU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> total
+                  {qty.toLocaleString("en-AU")} units &times; {currencyPrefix}{purchasePriceNum?.toFixed(2)} = <span className="font-medium text-text-primary">{currencyPrefix}{purchaseTotal.toLocaleString("en-AU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> total
                 </p>
               ) : (
                 <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
@@ -211,7 +275,7 @@ export default function AddInvestmentPage() {
                 {hasQty ? "Current Price per Unit" : "Current Value"}
               </Label>
               <div className="relative">
-                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">$</span>
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">{currencyPrefix.trim()}</span>
                 <Input
                   id="currentValue"
                   type="number"
@@ -221,12 +285,12 @@ export default function AddInvestmentPage() {
                   onChange={(e) => setCurrentValue(e.target.value)}
                   required
                   disabled={loading}
-                  className="pl-7 h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                  className={`${currency === "AUD" ? "pl-7" : "pl-14"} h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]`}
                 />
               </div>
               {hasQty && currentTotal !== null && (
                 <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
-                  {qty.toLocaleString("en-AU")} units &times; ${currentPriceNum?.toFixed(2)} = <span className="font-medium text-text-primary">${currentTotal.toLocaleString("en-AU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> total
+                  {qty.toLocaleString("en-AU")} units &times; {currencyPrefix}{currentPriceNum?.toFixed(2)} = <span className="font-medium text-text-primary">{currencyPrefix}{currentTotal.toLocaleString("en-AU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> total
                 </p>
               )}
             </div>
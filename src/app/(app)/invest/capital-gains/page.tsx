@@ -0,0 +1,66 @@
+import { createClient } from "@/utils/supabase/server";
+import { redirect } from "next/navigation";
+import { CapitalGainsClient } from "@/components/invest/capital-gains-client";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { getCurrentDate } from "@/lib/demo-guard";
+import { financialYearOf } from "@/lib/tax-deductions";
+import {
+  buildLedger,
+  summarizeCapitalGains,
+  type DividendIncome,
+  type InvestmentTransactionRecord,
+  type RealisedGain,
+} from "@/lib/investment-ledger";
+
+export default async function CapitalGainsPage() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect("/login");
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+
+  const [{ data: investments }, { data: rows }] = await Promise.all([
+    supabase
+      .from("investments")
+      .select("id, name, ticker_symbol")
+      .eq("partnership_id", partnershipId),
+    supabase
+      .from("investment_transactions")
+      .select("id, investment_id, transaction_type, trade_date, quantity, amount_cents, fees_cents, native_amount_cents, split_ratio, parcel_allocations, created_at")
+      .eq("partnership_id", partnershipId)
+      .order("trade_date", { ascending: true }),
+  ]);
+
+  // Replay each holding's ledger, then combine gains and dividends across holdings
+  const byInvestment = new Map<string, InvestmentTransactionRecord[]>();
+  for (const tx of rows || []) {
+    const list = byInvestment.get(tx.investment_id) ?? [];
+    list.push({
+      ...tx,
+      quantity: tx.quantity === null ? null : Number(tx.quantity),
+      split_ratio: tx.split_ratio === null ? null : Number(tx.split_ratio),
+    });
+    byInvestment.set(tx.investment_id, list);
+  }
+
+  const realised: RealisedGain[] = [];
+  const dividends: DividendIncome[] = [];
+  for (const transactions of byInvestment.values()) {
+    const ledger = buildLedger(transactions);
+    realised.push(...ledger.realised);
+    dividends.push(...ledger.dividends);
+  }
+
+  const holdings = Object.fromEntries(
+    (investments || []).map((i) => [i.id, i.ticker_symbol ? `${i.name} (${i.ticker_symbol})` : i.name])
+  );
+
+  return (
+    <div className="p-4 md:p-6 lg:p-8">
+      <CapitalGainsClient
+        summaries={summarizeCapitalGains(realised, dividends)}
+        holdings={holdings}
+        currentFinancialYear={financialYearOf(getCurrentDate())}
+      />
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ import {
   getStartDateForPeriod,
 } from "@/lib/portfolio-aggregation";
 import { calculateFireNumber, calculateAnnualExpenses } from "@/lib/fire-calculations";
+import { calculateFxBreakdown, createFxLookup, isForeignCurrency } from "@/lib/fx-rates";
+import { loadFxRates } from "@/lib/fx-rate-store";
 
 interface InvestPageProps {
   searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
@@ -57,6 +59,11 @@ export default async function InvestPage({ searchParams }: InvestPageProps) {
     .eq("is_active", true);
   const accountIds = userAccounts?.map((a) => a.id) || [];
 
+  // Currencies held, for converting the chart at each day's rate
+  const foreignCurrencies = investments
+    .map((i) => i.currency_code)
+    .filter(isForeignCurrency);
+
   // Parallel data fetching
   const [
     { data: allHistory },
@@ -65,11 +72,12 @@ export default async function InvestPage({ searchParams }: InvestPageProps) {
     { data: profile },
     { data: watchlistItems },
     { data: dividendTransactions },
+    fxRates,
   ] = await Promise.all([
     // Investment history (for portfolio chart + forward-fill)
     supabase
       .from("investment_history")
-      .select("investment_id, value_cents, recorded_at")
+      .select("investment_id, value_cents, native_value_cents, recorded_at")
       .in("investment_id", investmentIds)
       .order("recorded_at", { ascending: true }),
     // Target allocations
@@ -105,6 +113,8 @@ export default async function InvestPage({ searchParams }: InvestPageProps) {
           .eq("income_type", "investment")
           .gte("created_at", new Date(now.getFullYear() - 1, now.getMonth(), 1).toISOString())
       : Promise.resolve({ data: [] }),
+    // Daily FX rates for the chart period
+    loadFxRates(supabase, foreignCurrencies, startDate.toISOString().split("T")[0]),
   ]);
 
   // === Calculations ===
@@ -137,10 +147,26 @@ export default async function InvestPage({ searchParams }: InvestPageProps) {
       current_value_cents: i.current_value_cents,
       purchase_value_cents: i.purchase_value_cents,
       created_at: i.created_at,
+      currency_code: i.currency_code,
+      native_value_cents: i.native_value_cents,
     })),
     allHistory || [],
     startDate,
-    now
+    now,
+    createFxLookup(fxRates)
+  );
+
+  // Market vs exchange-rate gains on foreign holdings
+  const fxBreakdown = calculateFxBreakdown(
+    investments.map((i) => ({
+      id: i.id,
+      name: i.name,
+      currency_code: i.currency_code,
+      current_value_cents: i.current_value_cents,
+      purchase_value_cents: i.purchase_value_cents,
+      native_value_cents: i.native_value_cents,
+      native_purchase_value_cents: i.native_purchase_value_cents,
+    }))
   );
 
   // Performance metrics
@@ -255,6 +281,7 @@ export default async function InvestPage({ searchParams }: InvestPageProps) {
         monthlyDividends={monthlyDividends}
         annualDividendTotal={annualDividendTotal}
         monthlyDividendAvg={monthlyDividendAvg}
+        fxBreakdown={fxBreakdown}
       />
     </div>
   );
@@ -1,6 +1,8 @@
 import { createClient } from "@/utils/supabase/server";
 import { getUserPartnershipId } from "@/lib/get-user-partnership";
 import { getCurrentDate } from "@/lib/demo-guard";
+import { createFxLookup, isForeignCurrency, sumBalancesInAud } from "@/lib/fx-rates";
+import { loadFxRates } from "@/lib/fx-rate-store";
 import { PlanClient } from "@/components/plan/plan-client";
 import { classifySpending } from "@/lib/fire-spending-classifier";
 import {
@@ -10,16 +12,31 @@ import {
   type FireProfile,
   type SpendingData,
   type InvestmentData,
+  type ProjectionAdjustment,
 } from "@/lib/fire-calculations";
 import {
   generateHealthMetrics,
   generatePriorityRecommendations,
-  calculateSuperCapRoom,
   analyzeGoalInteractions,
   type HealthMetricInputs,
 } from "@/lib/plan-health-calculations";
 import { generateFireGameplan } from "@/lib/fire-gameplan";
+import { toPayoffDebts, type DebtRecord } from "@/lib/debt-calculations";
 import { calculateRebalancing } from "@/lib/portfolio-aggregation";
+import { buildDeductionReport, loadDeductionItems } from "@/lib/tax-deductions";
+import {
+  projectedConcessionalRoomCents,
+  summarizeSuperOwner,
+  type SuperAccountRecord,
+  type SuperContributionRecord,
+} from "@/lib/super-calculations";
+import type { PlanScenario, ScenarioBase } from "@/lib/scenario-planner";
+import {
+  milestoneFireInputs,
+  toTimelineMilestones,
+  type LifeMilestone,
+  type MilestoneGoal,
+} from "@/lib/life-milestones";
 import type { AnnualCheckupData } from "@/components/plan/plan-client";
 import type { GoalTimelineData } from "@/components/plan/goals-timeline";
 
@@ -60,7 +77,7 @@ export default async function PlanPage() {
       .maybeSingle(),
     supabase
       .from("accounts")
-      .select("id, balance_cents, account_type, display_name")
+      .select("id, balance_cents, currency_code, account_type, display_name")
       .eq("user_id", user.id)
       .eq("is_active", true),
     supabase
@@ -75,18 +92,28 @@ export default async function PlanPage() {
   const allAccounts = accounts || [];
   const accountIds = allAccounts.map((a) => a.id);
 
-  // Calculate liquid balance (SAVER + TRANSACTIONAL) and home loan balance
-  const liquidBalanceCents = allAccounts
-    .filter(
+  // Calculate liquid balance (SAVER + TRANSACTIONAL, converted to AUD) and home loan balance
+  const today = now.toISOString().split("T")[0];
+  const foreignCurrencies = [
+    ...new Set(allAccounts.map((a) => a.currency_code).filter(isForeignCurrency)),
+  ];
+  const fxRates =
+    foreignCurrencies.length > 0
+      ? await loadFxRates(supabase, foreignCurrencies, today)
+      : [];
+  const liquidBalanceCents = sumBalancesInAud(
+    allAccounts.filter(
       (a) => a.account_type === "SAVER" || a.account_type === "TRANSACTIONAL"
-    )
-    .reduce((sum, a) => sum + (a.balance_cents || 0), 0);
+    ),
+    createFxLookup(fxRates),
+    today
+  );
 
   const homeLoanBalanceCents = allAccounts
     .filter((a) => a.account_type === "HOME_LOAN")
     .reduce((sum, a) => sum + Math.abs(a.balance_cents || 0), 0);
 
-  const hasDebt = homeLoanBalanceCents > 0;
+  const financialYear = getCurrentFinancialYear();
 
   // Batch 2: Queries that depend on accountIds/partnershipId
   const [
@@ -98,6 +125,13 @@ export default async function PlanPage() {
     { data: expenseDefinitions },
     { data: checkups },
     { data: targetAllocations },
+    { data: debtRows },
+    deductionItems,
+    { data: superAccountRows },
+    { data: superHistory },
+    { data: superContributionRows },
+    { data: scenarioRows },
+    { data: milestoneRows },
   ] = await Promise.all([
     supabase
       .from("transactions")
@@ -121,7 +155,7 @@ export default async function PlanPage() {
       .eq("is_manual_partner_income", false),
     supabase
       .from("net_worth_snapshots")
-      .select("snapshot_date, total_balance_cents, investment_total_cents")
+      .select("snapshot_date, total_balance_cents, investment_total_cents, super_total_cents, liability_total_cents")
       .eq("partnership_id", partnershipId)
       .order("snapshot_date", { ascending: false })
       .limit(30),
@@ -138,14 +172,116 @@ export default async function PlanPage() {
       .from("annual_checkups")
       .select("*")
       .eq("partnership_id", partnershipId)
-      .eq("financial_year", getCurrentFinancialYear())
+      .eq("financial_year", financialYear)
       .maybeSingle(),
     supabase
       .from("target_allocations")
       .select("asset_type, target_percentage")
       .eq("partnership_id", partnershipId),
+    supabase
+      .from("debts")
+      .select("id, name, debt_type, balance_cents, interest_rate, minimum_repayment_cents, repayment_frequency, linked_account_id, notes")
+      .eq("partnership_id", partnershipId)
+      .order("created_at", { ascending: true }),
+    // Deductions are per person, so only the user's own accounts count
+    // The tax card shouldn't take the whole page down; the export reports the error
+    loadDeductionItems(supabase, allAccounts, financialYear).catch((error) => {
+      console.error("Failed to load deductible transactions:", error);
+      return [];
+    }),
+    // Both partners' super; caps are worked out per owner below
+    supabase
+      .from("super_accounts")
+      .select("id, user_id, fund_name, balance_cents, balance_date, notes, profiles(display_name)")
+      .eq("partnership_id", partnershipId)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("super_balance_history")
+      .select("super_account_id, recorded_on, balance_cents, super_accounts!inner(partnership_id)")
+      .eq("super_accounts.partnership_id", partnershipId)
+      .order("recorded_on", { ascending: true }),
+    // Six years back covers the five-year carry-forward window
+    supabase
+      .from("super_contributions")
+      .select("id, super_account_id, contribution_date, amount_cents, contribution_type, notes, super_accounts!inner(partnership_id)")
+      .eq("super_accounts.partnership_id", partnershipId)
+      .gte("contribution_date", `${financialYear - 7}-07-01`)
+      .order("contribution_date", { ascending: false }),
+    supabase
+      .from("plan_scenarios")
+      .select("id, name, notes, changes, created_at")
+      .eq("partnership_id", partnershipId)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("milestones")
+      .select("id, title, description, target_date, estimated_cost_cents, estimated_monthly_impact_cents, impact_months, linked_goal_id, icon, color, is_completed, completed_at, preparation_checklist, sort_order")
+      .eq("partnership_id", partnershipId)
+      .order("target_date", { ascending: true }),
   ]);
 
+  const milestones: LifeMilestone[] = (milestoneRows || []).map((m) => ({
+    ...m,
+    description: m.description || null,
+    estimated_cost_cents: m.estimated_cost_cents || 0,
+    estimated_monthly_impact_cents: m.estimated_monthly_impact_cents || 0,
+    icon: m.icon || "target",
+    color: m.color || "var(--pastel-blue)",
+    is_completed: m.is_completed || false,
+    preparation_checklist: (m.preparation_checklist as LifeMilestone["preparation_checklist"]) || [],
+    sort_order: m.sort_order || 0,
+  }));
+  const milestoneGoals: MilestoneGoal[] = (savingsGoals || []).map((g) => ({
+    id: g.id,
+    name: g.name,
+    current_amount_cents: g.current_amount_cents || 0,
+    target_amount_cents: g.target_amount_cents || 0,
+    deadline: g.deadline || null,
+    is_completed: g.is_completed || false,
+  }));
+
+  const superAccounts: SuperAccountRecord[] = (superAccountRows || []).map((a) => ({
+    id: a.id,
+    user_id: a.user_id,
+    fund_name: a.fund_name,
+    balance_cents: a.balance_cents,
+    balance_date: a.balance_date,
+    notes: a.notes,
+  }));
+  const superContributions = (superContributionRows || []) as SuperContributionRecord[];
+  const superOwnerIds = [
+    user.id,
+    ...new Set(superAccounts.map((a) => a.user_id).filter((id) => id !== user.id)),
+  ];
+  const superOwners = superOwnerIds.map((ownerId) =>
+    summarizeSuperOwner(ownerId, financialYear, now, superAccounts, superHistory || [], superContributions)
+  );
+  const ownSuper = superOwners[0];
+  const ownSuperBalanceCents = ownSuper.accounts.length > 0
+    ? ownSuper.balanceCents
+    : profile?.super_balance_cents || 0;
+
+  // Linked debts follow their account's balance; HOME_LOAN-linked ones are
+  // already in homeLoanBalanceCents so they don't count again below.
+  const debts: DebtRecord[] = (debtRows || []).map((d) => {
+    const account = d.linked_account_id
+      ? allAccounts.find((a) => a.id === d.linked_account_id)
+      : undefined;
+    return {
+      ...d,
+      interest_rate: Number(d.interest_rate) || 0,
+      balance_cents: account ? Math.abs(account.balance_cents || 0) : d.balance_cents,
+    };
+  });
+  const homeLoanAccountIds = new Set(
+    allAccounts.filter((a) => a.account_type === "HOME_LOAN").map((a) => a.id)
+  );
+  const otherDebtCents = debts
+    .filter((d) => !d.linked_account_id || !homeLoanAccountIds.has(d.linked_account_id))
+    .reduce((sum, d) => sum + d.balance_cents, 0);
+  const payoffDebts = toPayoffDebts(debts);
+
+  const hasDebt = homeLoanBalanceCents > 0 || otherDebtCents > 0;
+
   const txns = transactions || [];
   const mappings = categoryMappings || [];
 
@@ -248,6 +384,9 @@ export default async function PlanPage() {
   let spending: SpendingData | null = null;
   let investmentData: InvestmentData | null = null;
   let fireGameplan: ReturnType<typeof generateFireGameplan> | null = null;
+  // Upcoming milestones folded into the FIRE inputs, plus the FIRE age without them
+  let milestoneAdjustments: ProjectionAdjustment[] = [];
+  let fireAgeWithoutMilestones: number | null = null;
 
   if (fireOnboarded && profile) {
     spending = {
@@ -265,15 +404,16 @@ export default async function PlanPage() {
 
     investmentData = {
       outsideSuperCents,
-      superBalanceCents: profile.super_balance_cents || 0,
+      superBalanceCents: ownSuperBalanceCents,
     };
 
     fireProfile = {
       dateOfBirth: new Date(profile.date_of_birth),
       targetRetirementAge: profile.target_retirement_age,
-      superBalanceCents: profile.super_balance_cents || 0,
+      superBalanceCents: ownSuperBalanceCents,
       superContributionRate:
         Number(profile.super_contribution_rate) || 11.5,
+      voluntarySuperContributionCents: ownSuper.voluntaryLast12MonthsCents,
       expectedReturnRate: Number(profile.expected_return_rate) || 7.0,
       outsideSuperReturnRate: profile.outside_super_return_rate != null
         ? Number(profile.outside_super_return_rate)
@@ -285,7 +425,11 @@ export default async function PlanPage() {
     };
 
     currentAge = calculateAge(fireProfile.dateOfBirth, now);
-    fireResult = projectFireDate(fireProfile, spending, investmentData);
+    fireAgeWithoutMilestones = projectFireDate(fireProfile, spending, investmentData).projectedFireAge;
+    const withMilestones = milestoneFireInputs(milestones, milestoneGoals, spending, now);
+    spending = withMilestones.spending;
+    milestoneAdjustments = withMilestones.adjustments;
+    fireResult = projectFireDate(fireProfile, spending, investmentData, milestoneAdjustments);
     fireRecommendations = generateRecommendations(
       fireResult,
       spending,
@@ -297,7 +441,9 @@ export default async function PlanPage() {
       fireProfile,
       spending,
       investmentData,
-      currentAge
+      currentAge,
+      payoffDebts,
+      milestoneAdjustments
     );
   }
 
@@ -337,6 +483,8 @@ export default async function PlanPage() {
       snapshot_date: s.snapshot_date,
       total_balance_cents: s.total_balance_cents,
       investment_total_cents: s.investment_total_cents,
+      super_total_cents: s.super_total_cents,
+      liability_total_cents: s.liability_total_cents,
     })),
     monthlyIncomeCents,
     monthlySpendingCents: monthlyTotalSpendCents,
@@ -349,6 +497,7 @@ export default async function PlanPage() {
     totalExpenseDefinitions,
     matchedExpenseCount,
     homeLoanBalanceCents,
+    otherDebtCents,
     annualIncomeCents,
   };
 
@@ -365,11 +514,16 @@ export default async function PlanPage() {
   const essentialRatioPercent =
     totalSpend > 0 ? (essentialCents / totalSpend) * 100 : 0;
 
-  // Super cap room
+  // Super cap room, from recorded contributions plus the SG still expected
   const sgRate = profile?.super_contribution_rate
     ? Number(profile.super_contribution_rate)
     : 11.5;
-  const superCapRoom = calculateSuperCapRoom(annualIncomeCents, sgRate);
+  const superCapRoomCents = projectedConcessionalRoomCents(
+    ownSuper.capStatus,
+    ownSuper.thisYear.byType.employer,
+    Math.round(annualIncomeCents * (sgRate / 100)),
+    now
+  );
 
   // Rebalancing check
   const currentInvestments = investments || [];
@@ -424,7 +578,7 @@ export default async function PlanPage() {
     emergencyFundMonths,
     savingsRatePercent: Math.max(0, savingsRate),
     essentialRatioPercent,
-    superCapRoomCents: superCapRoom.remainingCents,
+    superCapRoomCents,
     rebalancingNeeded,
     goalsBehindCount,
     unpaidBillsCount,
@@ -441,7 +595,8 @@ export default async function PlanPage() {
     goalsWithDeadlines,
     liquidBalanceCents,
     monthlyEssentialsCents,
-    monthlySavingsCents
+    monthlySavingsCents,
+    toTimelineMilestones(milestones, milestoneGoals, now)
   );
 
   // Format goals for timeline
@@ -479,7 +634,7 @@ export default async function PlanPage() {
 
   // Checkup review data
   const hasInvestments = (investments || []).length > 0;
-  const hasSuperProfile = !!profile?.super_balance_cents;
+  const hasSuperProfile = !!profile?.super_balance_cents || ownSuper.accounts.length > 0;
 
   // Monthly discretionary spending
   const monthlyDiscretionaryCents = Math.round(discretionaryCents / monthCount);
@@ -498,6 +653,26 @@ export default async function PlanPage() {
     percent: totalInvestmentCents > 0 ? (a.valueCents / totalInvestmentCents) * 100 : 0,
   }));
 
+  const deductionReport = buildDeductionReport(financialYear, deductionItems);
+
+  // Scenarios start from the same income, spending and FIRE inputs as above
+  const scenarioBase: ScenarioBase = {
+    monthlyIncomeCents,
+    monthlySpendCents: monthlyTotalSpendCents,
+    goals: (savingsGoals || [])
+      .filter((g) => !g.is_completed)
+      .map((g) => ({
+        id: g.id,
+        name: g.name,
+        current_amount_cents: g.current_amount_cents || 0,
+        target_amount_cents: g.target_amount_cents || 0,
+        deadline: g.deadline || null,
+      })),
+    fire: fireProfile && spending && investmentData
+      ? { profile: fireProfile, spending, investments: investmentData, adjustments: milestoneAdjustments }
+      : null,
+  };
+
   // Priority recommendations summary for step 7
   const priorityRecommendationsSummary = priorityRecommendations.map((r) => ({
     title: r.title,
@@ -515,12 +690,42 @@ export default async function PlanPage() {
       currentAge={currentAge}
       savingsRate={Math.max(0, savingsRate)}
       fireGameplan={fireGameplan}
+      fireAdjustments={milestoneAdjustments}
       healthMetrics={healthMetrics}
       priorityRecommendations={priorityRecommendations}
       timelineGoals={timelineGoals}
       goalInteractions={goalInteractions}
       currentCheckup={currentCheckup}
       partnershipId={partnershipId || ""}
+      debts={debts}
+      debtAccounts={allAccounts.map((a) => ({
+        id: a.id,
+        display_name: a.display_name,
+        account_type: a.account_type,
+      }))}
+      superData={{
+        financialYear,
+        owners: superOwners.map((owner) => {
+          const row = (superAccountRows || []).find((a) => a.user_id === owner.userId);
+          const ownerProfile = row?.profiles as { display_name?: string | null } | null | undefined;
+          return {
+            ...owner,
+            name: owner.userId === user.id ? "You" : ownerProfile?.display_name || "Partner",
+            isCurrentUser: owner.userId === user.id,
+          };
+        }),
+      }}
+      scenarioData={{
+        scenarios: (scenarioRows || []) as PlanScenario[],
+        base: scenarioBase,
+      }}
+      milestoneData={{
+        milestones,
+        goals: milestoneGoals,
+        interactions: goalInteractions.filter((i) => i.source === "milestone"),
+        fireAge: fireResult?.projectedFireAge ?? null,
+        fireAgeWithoutMilestones,
+      }}
       checkupReviewData={{
         hasDebt,
         hasInvestments,
@@ -550,15 +755,32 @@ export default async function PlanPage() {
         // Step 4
         homeLoanBalanceCents,
         homeLoanAccountCount,
+        otherDebtCents,
+        trackedDebtCount: debts.length,
         // Step 5
-        superBalanceCents: profile?.super_balance_cents || 0,
+        superBalanceCents: ownSuperBalanceCents,
         sgRate,
         annualIncomeCents,
-        superCapRoomCents: superCapRoom.remainingCents,
+        superCapCents: ownSuper.capStatus.availableCents,
+        superCarryForwardCents: ownSuper.capStatus.carryForwardEligible
+          ? ownSuper.capStatus.carryForwardCents
+          : 0,
+        superCapRoomCents,
         currentAge,
         targetRetirementAge: profile?.target_retirement_age || null,
         // Step 7
         priorityRecommendationsSummary,
+        taxDeductions: {
+          financialYear,
+          totalCents: deductionReport.total_cents,
+          count: deductionReport.count,
+          missingReceipts: deductionReport.missing_receipts,
+          groups: deductionReport.groups.map((g) => ({
+            label: g.label,
+            atoCode: g.atoCode,
+            totalCents: g.total_cents,
+          })),
+        },
       }}
     />
   );
@@ -0,0 +1,294 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Nunito, DM_Sans } from "next/font/google";
+import {
+  summarizeBackupBundle,
+  validateBackupBundle,
+  type BackupBundle,
+} from "@/lib/data-backup";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Loader2, Download, Upload, FileText, CheckCircle2 } from "lucide-react";
+
+const nunito = Nunito({
+  subsets: ["latin"],
+  variable: "--font-nunito",
+  weight: ["600", "700", "800"]
+});
+
+const dmSans = DM_Sans({
+  subsets: ["latin"],
+  variable: "--font-dm-sans",
+  weight: ["400", "500"]
+});
+
+interface RestoreResult {
+  restored: Record<string, number>;
+  skipped: Record<string, number>;
+}
+
+/** "budget_assignments" -> "budget assignments" */
+const tableLabel = (table: string) => table.replace(/_/g, " ");
+
+const totalRows = (counts: Record<string, number>) =>
+  Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+export default function BackupSettingsPage() {
+  const [downloading, setDownloading] = useState(false);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [bundle, setBundle] = useState<BackupBundle | null>(null);
+  const [replace, setReplace] = useState(false);
+  const [needsReplace, setNeedsReplace] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/backup");
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Backup failed");
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      try {
+        const a = Object.assign(document.createElement("a"), {
+          href: url,
+          download: `piggyback-backup-${new Date().toISOString().split("T")[0]}.json`,
+        });
+        a.click();
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Backup failed");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    setNeedsReplace(false);
+    setBundle(null);
+    setFileName(file.name);
+
+    try {
+      const parsed = JSON.parse(await file.text());
+      const invalid = validateBackupBundle(parsed);
+      if (invalid) {
+        setError(invalid);
+        return;
+      }
+      setBundle(parsed as BackupBundle);
+    } catch {
+      setError("This file isn't a PiggyBack backup");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!bundle) return;
+    setRestoring(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const response = await fetch("/api/backup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bundle, replace }),
+      });
+      const data = await response.json();
+      if (response.status === 409 && data.conflict) {
+        setNeedsReplace(true);
+        throw new Error(data.error);
+      }
+      if (!response.ok) throw new Error(data.error || "Restore failed");
+
+      setResult(data);
+      setBundle(null);
+      setFileName(null);
+      setReplace(false);
+      setNeedsReplace(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Restore failed");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const contents = bundle ? summarizeBackupBundle(bundle) : null;
+
+  return (
+    <div className={`p-4 md:p-6 lg:p-8 max-w-4xl mx-auto ${nunito.variable} ${dmSans.variable}`}>
+      {/* Header */}
+      <div className="space-y-1 mb-6">
+        <Link href="/settings" className="text-sm font-[family-name:var(--font-dm-sans)] text-text-secondary hover:text-text-primary flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Settings
+        </Link>
+        <h1 className="font-[family-name:var(--font-nunito)] text-3xl font-black text-text-primary">
+          Backup &amp; Restore
+        </h1>
+        <p className="font-[family-name:var(--font-dm-sans)] text-text-secondary">
+          Take your whole setup with you to another PiggyBack instance
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text mb-6">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="p-4 text-sm bg-green-50 border-2 border-green-200 rounded-xl text-green-700 mb-6 font-[family-name:var(--font-dm-sans)]">
+          <p className="flex items-center gap-2 font-bold">
+            <CheckCircle2 className="h-4 w-4" />
+            Restored {totalRows(result.restored)} record{totalRows(result.restored) === 1 ? "" : "s"}
+          </p>
+          {totalRows(result.skipped) > 0 && (
+            <p className="mt-1">
+              {totalRows(result.skipped)} couldn&apos;t be matched to anything in this instance
+              ({Object.entries(result.skipped).map(([t, n]) => `${n} ${tableLabel(t)}`).join(", ")}).
+              Sync your Up Bank accounts first, then restore again to pick up notes and tags.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Backup */}
+      <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-border-white-80 shadow-lg mb-6">
+        <CardContent className="pt-6 space-y-4">
+          <div>
+            <h2 className="font-[family-name:var(--font-nunito)] text-lg font-bold text-text-primary">
+              Download a backup
+            </h2>
+            <p className="font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+              Budgets, assignments, layouts, expenses, goals, investments, debts, super, income, FIRE
+              settings, scenarios, rules, notes, tags, splits and imported accounts in one JSON file. Bank connections
+              and API keys are not included.
+            </p>
+          </div>
+
+          <Button
+            onClick={handleDownload}
+            disabled={downloading}
+            className="w-full h-12 rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark hover:scale-105 transition-all"
+          >
+            {downloading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Preparing backup...
+              </>
+            ) : (
+              <>
+                <Download className="h-4 w-4 mr-2" />
+                Download Backup
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Restore */}
+      <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-border-white-80 shadow-lg mb-6">
+        <CardContent className="pt-6 space-y-4">
+          <div>
+            <h2 className="font-[family-name:var(--font-nunito)] text-lg font-bold text-text-primary">
+              Restore from a backup
+            </h2>
+            <p className="font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+              Connect and sync Up Bank here first so transaction notes, tags and splits can be
+              matched back to your transactions.
+            </p>
+          </div>
+
+          <label
+            htmlFor="backupFile"
+            className="flex flex-col items-center justify-center gap-2 p-6 rounded-xl border-2 border-dashed border-border cursor-pointer hover:bg-secondary transition-colors"
+          >
+            {fileName ? (
+              <>
+                <FileText className="h-6 w-6 text-text-secondary" />
+                <span className="font-[family-name:var(--font-dm-sans)] text-sm text-text-primary">
+                  {fileName}
+                </span>
+              </>
+            ) : (
+              <>
+                <Upload className="h-6 w-6 text-text-secondary" />
+                <span className="font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+                  Choose a piggyback-backup .json file
+                </span>
+              </>
+            )}
+          </label>
+          <input
+            id="backupFile"
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+          />
+
+          {bundle && contents && (
+            <div className="p-3 rounded-xl border-2 border-border font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+              <p className="text-text-primary font-medium mb-1">
+                Backup from {new Date(bundle.exported_at).toLocaleString("en-AU")}
+              </p>
+              <p>
+                {Object.entries(contents).map(([t, n]) => `${n} ${tableLabel(t)}`).join(" · ") || "No records"}
+              </p>
+            </div>
+          )}
+
+          {bundle && needsReplace && (
+            <div className="flex items-center justify-between p-3 rounded-xl border-2 border-error-border">
+              <div>
+                <p className="font-[family-name:var(--font-nunito)] font-bold text-text-primary text-sm">
+                  Replace existing setup
+                </p>
+                <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
+                  Deletes the budgets, goals, expenses, investments and rules already here before restoring
+                </p>
+              </div>
+              <Switch checked={replace} onCheckedChange={setReplace} />
+            </div>
+          )}
+
+          <Button
+            onClick={handleRestore}
+            disabled={!bundle || restoring || (needsReplace && !replace)}
+            className="w-full h-12 rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark hover:scale-105 transition-all"
+          >
+            {restoring ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              <>
+                <Upload className="h-4 w-4 mr-2" />
+                Restore Backup
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
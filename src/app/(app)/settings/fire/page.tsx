@@ -56,6 +56,7 @@ export default function FireSettingsPage() {
   const [targetRetirementAge, setTargetRetirementAge] = useState("");
   const [asapMode, setAsapMode] = useState(true);
   const [superBalance, setSuperBalance] = useState("");
+  const [tracksSuperFunds, setTracksSuperFunds] = useState(false);
   const [superContributionRate, setSuperContributionRate] = useState("11.50");
   const [customSgRate, setCustomSgRate] = useState(false);
   const [expectedReturnRate, setExpectedReturnRate] = useState("7.00");
@@ -75,13 +76,20 @@ export default function FireSettingsPage() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select(
-          "date_of_birth, target_retirement_age, super_balance_cents, super_contribution_rate, expected_return_rate, outside_super_return_rate, income_growth_rate, spending_growth_rate, fire_variant, annual_expense_override_cents, fire_onboarded"
-        )
-        .eq("id", user.id)
-        .maybeSingle();
+      const [{ data: profile }, { count: superFundCount }] = await Promise.all([
+        supabase
+          .from("profiles")
+          .select(
+            "date_of_birth, target_retirement_age, super_balance_cents, super_contribution_rate, expected_return_rate, outside_super_return_rate, income_growth_rate, spending_growth_rate, fire_variant, annual_expense_override_cents, fire_onboarded"
+          )
+          .eq("id", user.id)
+          .maybeSingle(),
+        supabase
+          .from("super_accounts")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", user.id),
+      ]);
+      setTracksSuperFunds((superFundCount ?? 0) > 0);
 
       if (profile) {
         if (profile.date_of_birth) setDateOfBirth(profile.date_of_birth);
@@ -271,8 +279,15 @@ export default function FireSettingsPage() {
                   className="pl-7"
                   min={0}
                   step={100}
+                  disabled={tracksSuperFunds}
                 />
               </div>
+              {tracksSuperFunds && (
+                <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-tertiary">
+                  Total of your super funds. Update balances and contributions on{" "}
+                  <Link href="/plan" className="underline">Plan → Super</Link>.
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -0,0 +1,441 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Nunito, DM_Sans } from "next/font/google";
+import { createClient } from "@/utils/supabase/client";
+import { formatLastSynced } from "@/lib/user-display";
+import {
+  IMPORT_DATE_FORMATS,
+  detectImportFormat,
+  getCsvHeaders,
+  type ImportFormat,
+  type ImportDateFormat,
+  type CsvColumnMapping,
+} from "@/lib/transaction-import";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Loader2, Upload, FileText, CheckCircle2 } from "lucide-react";
+
+const nunito = Nunito({
+  subsets: ["latin"],
+  variable: "--font-nunito",
+  weight: ["600", "700", "800"]
+});
+
+const dmSans = DM_Sans({
+  subsets: ["latin"],
+  variable: "--font-dm-sans",
+  weight: ["400", "500"]
+});
+
+const NEW_ACCOUNT = "__new__";
+const NONE = "__none__";
+
+const ACCOUNT_TYPE_OPTIONS = [
+  { value: "CREDIT_CARD", label: "Credit card" },
+  { value: "TRANSACTIONAL", label: "Everyday account" },
+  { value: "SAVER", label: "Savings account" },
+] as const;
+
+type AccountType = (typeof ACCOUNT_TYPE_OPTIONS)[number]["value"];
+
+interface ManualAccount {
+  id: string;
+  display_name: string;
+  institution: string | null;
+  account_type: string;
+  last_synced_at: string | null;
+}
+
+interface ImportResult {
+  imported: number;
+  duplicates: number;
+  skipped: number;
+  errors: string[];
+}
+
+/** Pick the first header that looks like `candidates`, for a sensible default mapping. */
+function guessColumn(headers: string[], candidates: string[]): string | undefined {
+  return headers.find((h) => candidates.some((c) => h.toLowerCase().includes(c)));
+}
+
+export default function ImportStatementsPage() {
+  const [accounts, setAccounts] = useState<ManualAccount[]>([]);
+  const [accountChoice, setAccountChoice] = useState<string>(NEW_ACCOUNT);
+  const [newAccountName, setNewAccountName] = useState("");
+  const [newAccountType, setNewAccountType] = useState<AccountType>("CREDIT_CARD");
+  const [institution, setInstitution] = useState("");
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState<string>("");
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Partial<CsvColumnMapping>>({});
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>("DD/MM/YYYY");
+  const [invertAmounts, setInvertAmounts] = useState(false);
+
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const loadAccounts = async () => {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data } = await supabase
+      .from("accounts")
+      .select("id, display_name, institution, account_type, last_synced_at")
+      .eq("user_id", user.id)
+      .eq("source", "manual")
+      .eq("is_active", true)
+      .order("display_name");
+
+    setAccounts(data || []);
+    if (data && data.length > 0) setAccountChoice((prev) => (prev === NEW_ACCOUNT ? data[0].id : prev));
+  };
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    const text = await file.text();
+    const detected = detectImportFormat(file.name, text);
+    setFileName(file.name);
+    setContent(text);
+    setFormat(detected);
+
+    if (detected === "csv") {
+      const csvHeaders = getCsvHeaders(text);
+      setHeaders(csvHeaders);
+      setMapping({
+        date: guessColumn(csvHeaders, ["date"]),
+        description: guessColumn(csvHeaders, ["description", "narrative", "details", "payee", "merchant"]),
+        amount: guessColumn(csvHeaders, ["amount"]),
+        debit: guessColumn(csvHeaders, ["debit", "withdrawal"]),
+        credit: guessColumn(csvHeaders, ["credit", "deposit"]),
+      });
+    } else {
+      setHeaders([]);
+      setMapping({});
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const account = accountChoice === NEW_ACCOUNT
+        ? { name: newAccountName.trim(), accountType: newAccountType, institution: institution.trim() || undefined }
+        : { id: accountChoice };
+
+      const response = await fetch("/api/import/transactions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format,
+          content,
+          account,
+          dateFormat,
+          mapping: format === "csv"
+            ? { ...mapping, dateFormat, invertAmounts }
+            : undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        const details = Array.isArray(data.errors) && data.errors.length > 0 ? ` (${data.errors[0]})` : "";
+        throw new Error((data.error || "Import failed") + details);
+      }
+
+      setResult(data);
+      setContent("");
+      setFileName(null);
+
+      // Match recurring expenses against the new transactions
+      try {
+        await fetch("/api/expenses/rematch-all", { method: "POST" });
+      } catch {
+        // Non-critical: expense rematch is best-effort
+      }
+
+      if (accountChoice === NEW_ACCOUNT) {
+        setNewAccountName("");
+        setInstitution("");
+      }
+      await loadAccounts();
+      if (data.accountId) setAccountChoice(data.accountId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const mappingComplete = format !== "csv" || (
+    !!mapping.date && !!mapping.description && (!!mapping.amount || !!mapping.debit || !!mapping.credit)
+  );
+  const accountComplete = accountChoice !== NEW_ACCOUNT || newAccountName.trim().length > 0;
+  const canImport = !!content && mappingComplete && accountComplete && !importing;
+
+  const columnSelect = (field: keyof Pick<CsvColumnMapping, "date" | "description" | "amount" | "debit" | "credit" | "memo">, label: string, optional = false) => (
+    <div className="space-y-2">
+      <Label className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+        {label}
+      </Label>
+      <Select
+        value={mapping[field] ?? NONE}
+        onValueChange={(value) => setMapping((prev) => ({ ...prev, [field]: value === NONE ? undefined : value }))}
+      >
+        <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>Not used</SelectItem>}
+          {!optional && !mapping[field] && <SelectItem value={NONE}>Choose a column</SelectItem>}
+          {headers.filter(Boolean).map((h) => (
+            <SelectItem key={h} value={h}>
+              {h}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className={`p-4 md:p-6 lg:p-8 max-w-4xl mx-auto ${nunito.variable} ${dmSans.variable}`}>
+      {/* Header */}
+      <div className="space-y-1 mb-6">
+        <Link href="/settings" className="text-sm font-[family-name:var(--font-dm-sans)] text-text-secondary hover:text-text-primary flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Settings
+        </Link>
+        <h1 className="font-[family-name:var(--font-nunito)] text-3xl font-black text-text-primary">
+          Import Statements
+        </h1>
+        <p className="font-[family-name:var(--font-dm-sans)] text-text-secondary">
+          Bring in transactions from banks PiggyBack can&apos;t sync with
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text mb-6">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="p-4 text-sm bg-green-50 border-2 border-green-200 rounded-xl text-green-700 mb-6 font-[family-name:var(--font-dm-sans)]">
+          <p className="flex items-center gap-2 font-bold">
+            <CheckCircle2 className="h-4 w-4" />
+            Imported {result.imported} transaction{result.imported === 1 ? "" : "s"}
+          </p>
+          {(result.duplicates > 0 || result.skipped > 0) && (
+            <p className="mt-1">
+              {result.duplicates > 0 && `${result.duplicates} already imported. `}
+              {result.skipped > 0 && `${result.skipped} row${result.skipped === 1 ? "" : "s"} couldn't be read.`}
+            </p>
+          )}
+          {result.errors.length > 0 && (
+            <ul className="mt-2 list-disc pl-5 text-xs">
+              {result.errors.map((e) => (
+                <li key={e}>{e}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Account */}
+      <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-border-white-80 shadow-lg mb-6">
+        <CardContent className="pt-6 space-y-4">
+          <h2 className="font-[family-name:var(--font-nunito)] text-lg font-bold text-text-primary">
+            Account
+          </h2>
+
+          <Select value={accountChoice} onValueChange={setAccountChoice}>
+            <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((a) => (
+                <SelectItem key={a.id} value={a.id}>
+                  {a.display_name}
+                  {a.institution ? ` · ${a.institution}` : ""} (last import {formatLastSynced(a.last_synced_at).toLowerCase()})
+                </SelectItem>
+              ))}
+              <SelectItem value={NEW_ACCOUNT}>+ New account</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {accountChoice === NEW_ACCOUNT && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="accountName" className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                  Name
+                </Label>
+                <Input
+                  id="accountName"
+                  placeholder="e.g. Amex Platinum"
+                  value={newAccountName}
+                  onChange={(e) => setNewAccountName(e.target.value)}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                  Type
+                </Label>
+                <Select value={newAccountType} onValueChange={(v) => setNewAccountType(v as AccountType)}>
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACCOUNT_TYPE_OPTIONS.map((opt) => (
+                      <SelectItem key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="institution" className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                  Bank (optional)
+                </Label>
+                <Input
+                  id="institution"
+                  placeholder="e.g. CommBank"
+                  value={institution}
+                  onChange={(e) => setInstitution(e.target.value)}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* File */}
+      <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-border-white-80 shadow-lg mb-6">
+        <CardContent className="pt-6 space-y-4">
+          <h2 className="font-[family-name:var(--font-nunito)] text-lg font-bold text-text-primary">
+            Statement file
+          </h2>
+
+          <label
+            htmlFor="statementFile"
+            className="flex flex-col items-center justify-center gap-2 p-6 rounded-xl border-2 border-dashed border-border cursor-pointer hover:bg-secondary transition-colors"
+          >
+            {fileName ? (
+              <>
+                <FileText className="h-6 w-6 text-text-secondary" />
+                <span className="font-[family-name:var(--font-dm-sans)] text-sm text-text-primary">
+                  {fileName} · {format.toUpperCase()}
+                </span>
+              </>
+            ) : (
+              <>
+                <Upload className="h-6 w-6 text-text-secondary" />
+                <span className="font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+                  Choose a .csv, .ofx, .qfx or .qif file
+                </span>
+              </>
+            )}
+          </label>
+          <input
+            id="statementFile"
+            type="file"
+            accept=".csv,.ofx,.qfx,.qif,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+          />
+
+          {content && format !== "ofx" && (
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                Date format
+              </Label>
+              <Select value={dateFormat} onValueChange={(v) => setDateFormat(v as ImportDateFormat)}>
+                <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_DATE_FORMATS.map((f) => (
+                    <SelectItem key={f} value={f}>
+                      {f}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {content && format === "csv" && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {columnSelect("date", "Date column")}
+                {columnSelect("description", "Description column")}
+                {columnSelect("amount", "Amount column (signed)", true)}
+                {columnSelect("memo", "Notes column", true)}
+                {!mapping.amount && columnSelect("debit", "Debit column", true)}
+                {!mapping.amount && columnSelect("credit", "Credit column", true)}
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-xl border-2 border-border">
+                <div>
+                  <p className="font-[family-name:var(--font-nunito)] font-bold text-text-primary text-sm">
+                    Purchases are positive
+                  </p>
+                  <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
+                    Turn on if your bank exports spending as positive numbers (common for credit cards)
+                  </p>
+                </div>
+                <Switch checked={invertAmounts} onCheckedChange={setInvertAmounts} />
+              </div>
+            </>
+          )}
+
+          <Button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="w-full h-12 rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark hover:scale-105 transition-all"
+          >
+            {importing ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <Upload className="h-4 w-4 mr-2" />
+                Import Transactions
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
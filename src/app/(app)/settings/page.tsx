@@ -14,6 +14,9 @@ import {
   ChevronRight,
   DollarSign,
   Sparkles,
+  Upload,
+  Wand2,
+  DatabaseBackup,
 } from "lucide-react";
 import Link from "next/link";
 
@@ -98,6 +101,18 @@ export default async function SettingsPage() {
           icon: CreditCard,
           href: "/settings/up-connection",
         },
+        {
+          title: "Import Statements",
+          description: "Add CSV, OFX or QIF files from other banks",
+          icon: Upload,
+          href: "/settings/import",
+        },
+        {
+          title: "Backup & Restore",
+          description: "Download everything or restore from a backup",
+          icon: DatabaseBackup,
+          href: "/settings/backup",
+        },
         {
           title: "AI Assistant",
           description: "Configure PiggyBack AI and API keys",
@@ -115,6 +130,12 @@ export default async function SettingsPage() {
           icon: DollarSign,
           href: "/settings/income",
         },
+        {
+          title: "Transaction Rules",
+          description: "Auto-categorise, tag and split transactions",
+          icon: Wand2,
+          href: "/settings/rules",
+        },
       ],
     },
     {
@@ -0,0 +1,685 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Nunito, DM_Sans } from "next/font/google";
+import { createClient } from "@/utils/supabase/client";
+import {
+  getTransactionRules,
+  saveTransactionRule,
+  deleteTransactionRule,
+  reorderTransactionRules,
+  previewTransactionRule,
+  type RulePreview,
+} from "@/app/actions/transaction-rules";
+import {
+  CARD_PURCHASE_METHODS,
+  type CardPurchaseMethod,
+  type RuleConditions,
+  type RuleActions,
+  type TransactionRule,
+} from "@/lib/transaction-rules";
+import { TAX_CATEGORIES, TAX_CATEGORY_INFO, type TaxCategory } from "@/lib/tax-deductions";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  ArrowUp,
+  ArrowDown,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+  Eye,
+  History,
+} from "lucide-react";
+
+const nunito = Nunito({
+  subsets: ["latin"],
+  variable: "--font-nunito",
+  weight: ["600", "700", "800"]
+});
+
+const dmSans = DM_Sans({
+  subsets: ["latin"],
+  variable: "--font-dm-sans",
+  weight: ["400", "500"]
+});
+
+const ANY = "__any__";
+
+interface AccountOption {
+  id: string;
+  display_name: string;
+}
+
+interface CategoryOption {
+  up_category_id: string;
+  new_parent_name: string;
+  new_child_name: string;
+}
+
+/** Form state: money is edited as dollar strings, lists as comma-separated text */
+interface RuleDraft {
+  id?: string;
+  name: string;
+  is_active: boolean;
+  stop_processing: boolean;
+  descriptionContains: string;
+  descriptionRegex: string;
+  amountMin: string;
+  amountMax: string;
+  direction: "in" | "out" | typeof ANY;
+  accountId: string;
+  cardSuffix: string;
+  cardPurchaseMethod: CardPurchaseMethod | typeof ANY;
+  foreignCurrency: string;
+  categoryId: string;
+  tags: string;
+  shareEnabled: boolean;
+  sharePercentage: number;
+  markInternalTransfer: boolean;
+  note: string;
+  taxCategory: TaxCategory | typeof ANY;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  is_active: true,
+  stop_processing: false,
+  descriptionContains: "",
+  descriptionRegex: "",
+  amountMin: "",
+  amountMax: "",
+  direction: ANY,
+  accountId: ANY,
+  cardSuffix: "",
+  cardPurchaseMethod: ANY,
+  foreignCurrency: "",
+  categoryId: ANY,
+  tags: "",
+  shareEnabled: false,
+  sharePercentage: 50,
+  markInternalTransfer: false,
+  note: "",
+  taxCategory: ANY,
+};
+
+function centsToDollarString(cents: number | undefined): string {
+  return cents == null ? "" : (cents / 100).toFixed(2);
+}
+
+function dollarStringToCents(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const parsed = Number(trimmed.replace(/[$,]/g, ""));
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed * 100) : undefined;
+}
+
+function ruleToDraft(rule: TransactionRule): RuleDraft {
+  const { conditions: c, actions: a } = rule;
+  return {
+    id: rule.id,
+    name: rule.name,
+    is_active: rule.is_active,
+    stop_processing: rule.stop_processing,
+    descriptionContains: c.descriptionContains ?? "",
+    descriptionRegex: c.descriptionRegex ?? "",
+    amountMin: centsToDollarString(c.amountMinCents),
+    amountMax: centsToDollarString(c.amountMaxCents),
+    direction: c.direction ?? ANY,
+    accountId: c.accountIds?.[0] ?? ANY,
+    cardSuffix: c.cardSuffix ?? "",
+    cardPurchaseMethod: c.cardPurchaseMethods?.[0] ?? ANY,
+    foreignCurrency: c.foreignCurrency ?? "",
+    categoryId: a.categoryId ?? ANY,
+    tags: (a.addTags ?? []).join(", "),
+    shareEnabled: !!a.share,
+    sharePercentage: a.share?.sharePercentage ?? 50,
+    markInternalTransfer: !!a.markInternalTransfer,
+    note: a.note ?? "",
+    taxCategory: a.taxCategory ?? ANY,
+  };
+}
+
+function draftToConditions(draft: RuleDraft): RuleConditions {
+  const conditions: RuleConditions = {};
+  if (draft.descriptionContains.trim()) conditions.descriptionContains = draft.descriptionContains.trim();
+  if (draft.descriptionRegex.trim()) conditions.descriptionRegex = draft.descriptionRegex.trim();
+  const min = dollarStringToCents(draft.amountMin);
+  const max = dollarStringToCents(draft.amountMax);
+  if (min != null) conditions.amountMinCents = min;
+  if (max != null) conditions.amountMaxCents = max;
+  if (draft.direction !== ANY) conditions.direction = draft.direction;
+  if (draft.accountId !== ANY) conditions.accountIds = [draft.accountId];
+  if (draft.cardSuffix.trim()) conditions.cardSuffix = draft.cardSuffix.trim();
+  if (draft.cardPurchaseMethod !== ANY) conditions.cardPurchaseMethods = [draft.cardPurchaseMethod];
+  if (draft.foreignCurrency.trim()) conditions.foreignCurrency = draft.foreignCurrency.trim().toUpperCase() === "ANY" ? "any" : draft.foreignCurrency.trim().toUpperCase();
+  return conditions;
+}
+
+function draftToActions(draft: RuleDraft): RuleActions {
+  const actions: RuleActions = {};
+  if (draft.categoryId !== ANY) actions.categoryId = draft.categoryId;
+  const tags = draft.tags.split(",").map((t) => t.trim()).filter(Boolean);
+  if (tags.length > 0) actions.addTags = tags;
+  if (draft.shareEnabled) actions.share = { isShared: true, sharePercentage: draft.sharePercentage };
+  if (draft.markInternalTransfer) actions.markInternalTransfer = true;
+  if (draft.note.trim()) actions.note = draft.note.trim();
+  if (draft.taxCategory !== ANY) actions.taxCategory = draft.taxCategory;
+  return actions;
+}
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(cents / 100);
+
+export default function TransactionRulesPage() {
+  const [rules, setRules] = useState<TransactionRule[]>([]);
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [categories, setCategories] = useState<CategoryOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const loadRules = async () => {
+    const res = await getTransactionRules();
+    if (res.success) {
+      setRules(res.data ?? []);
+    } else {
+      setError(res.error);
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      const [accountsRes, categoriesRes] = await Promise.all([
+        supabase
+          .from("accounts")
+          .select("id, display_name")
+          .eq("user_id", user?.id ?? "")
+          .eq("is_active", true)
+          .order("display_name"),
+        supabase
+          .from("category_mappings")
+          .select("up_category_id, new_parent_name, new_child_name")
+          .order("new_parent_name")
+          .order("new_child_name"),
+        loadRules(),
+      ]);
+      setAccounts(accountsRes.data || []);
+      setCategories(categoriesRes.data || []);
+      setLoading(false);
+    };
+    load();
+  }, []);
+
+  const updateDraft = (patch: Partial<RuleDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+    setPreview(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    const res = await saveTransactionRule({
+      id: draft.id,
+      name: draft.name,
+      is_active: draft.is_active,
+      stop_processing: draft.stop_processing,
+      conditions: draftToConditions(draft),
+      actions: draftToActions(draft),
+    });
+    setSaving(false);
+    if (!res.success) {
+      setError(res.error);
+      return;
+    }
+    setDraft(null);
+    setPreview(null);
+    setMessage("Rule saved. New transactions will use it automatically.");
+    await loadRules();
+  };
+
+  const handlePreview = async () => {
+    if (!draft) return;
+    setPreviewing(true);
+    setError(null);
+    const res = await previewTransactionRule(draftToConditions(draft));
+    setPreviewing(false);
+    if (res.success) {
+      setPreview(res.data ?? null);
+    } else {
+      setError(res.error);
+    }
+  };
+
+  const handleDelete = async (rule: TransactionRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    const res = await deleteTransactionRule(rule.id);
+    if (!res.success) {
+      setError(res.error);
+      return;
+    }
+    await loadRules();
+  };
+
+  const handleToggle = async (rule: TransactionRule, isActive: boolean) => {
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, is_active: isActive } : r)));
+    const res = await saveTransactionRule({ ...rule, is_active: isActive });
+    if (!res.success) {
+      setError(res.error);
+      await loadRules();
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRules(reordered);
+    const res = await reorderTransactionRules(reordered.map((r) => r.id));
+    if (!res.success) {
+      setError(res.error);
+      await loadRules();
+    }
+  };
+
+  const handleApplyToHistory = async () => {
+    setApplying(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/transactions/rules/apply", { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to apply rules");
+      setMessage(
+        `Checked ${data.scanned} transactions: ${data.matched} matched, ${data.recategorized} recategorised.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to apply rules");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const categoryLabel = (id: string | undefined) => {
+    if (!id) return null;
+    const match = categories.find((c) => c.up_category_id === id);
+    return match ? `${match.new_parent_name} › ${match.new_child_name}` : id;
+  };
+
+  const describeRule = (rule: TransactionRule): string => {
+    const c = rule.conditions;
+    const parts: string[] = [];
+    if (c.descriptionContains) parts.push(`contains "${c.descriptionContains}"`);
+    if (c.descriptionRegex) parts.push(`matches /${c.descriptionRegex}/`);
+    if (c.amountMinCents != null || c.amountMaxCents != null) {
+      parts.push(`${c.amountMinCents != null ? formatCurrency(c.amountMinCents) : "$0"}–${c.amountMaxCents != null ? formatCurrency(c.amountMaxCents) : "any"}`);
+    }
+    if (c.direction) parts.push(c.direction === "out" ? "spending" : "income");
+    if (c.accountIds?.length) parts.push(accounts.find((a) => a.id === c.accountIds![0])?.display_name ?? "account");
+    if (c.cardSuffix) parts.push(`card •${c.cardSuffix}`);
+    if (c.cardPurchaseMethods?.length) parts.push(c.cardPurchaseMethods.join("/").replace(/_/g, " ").toLowerCase());
+    if (c.foreignCurrency) parts.push(c.foreignCurrency === "any" ? "foreign currency" : c.foreignCurrency);
+
+    const a = rule.actions;
+    const effects: string[] = [];
+    const category = categoryLabel(a.categoryId);
+    if (category) effects.push(category);
+    if (a.addTags?.length) effects.push(a.addTags.map((t) => `#${t}`).join(" "));
+    if (a.share) effects.push(`shared ${a.share.sharePercentage}/${100 - a.share.sharePercentage}`);
+    if (a.markInternalTransfer) effects.push("internal transfer");
+    if (a.note) effects.push("note");
+    if (a.taxCategory) effects.push(`tax ${TAX_CATEGORY_INFO[a.taxCategory].atoCode}`);
+
+    return `${parts.join(", ")} → ${effects.join(", ")}`;
+  };
+
+  const labelClass = "font-[family-name:var(--font-nunito)] font-bold text-text-primary";
+  const inputClass = "h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]";
+
+  return (
+    <div className={`p-4 md:p-6 lg:p-8 max-w-4xl mx-auto ${nunito.variable} ${dmSans.variable}`}>
+      {/* Header */}
+      <div className="space-y-1 mb-6">
+        <Link href="/settings" className="text-sm font-[family-name:var(--font-dm-sans)] text-text-secondary hover:text-text-primary flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Settings
+        </Link>
+        <h1 className="font-[family-name:var(--font-nunito)] text-3xl font-black text-text-primary">
+          Transaction Rules
+        </h1>
+        <p className="font-[family-name:var(--font-dm-sans)] text-text-secondary">
+          Categorise, tag and split transactions automatically. Rules run top to bottom.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text mb-6">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 text-sm bg-green-50 border-2 border-green-200 rounded-xl text-green-700 mb-6 font-[family-name:var(--font-dm-sans)]">
+          {message}
+        </div>
+      )}
+
+      {/* Rule list */}
+      <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-border-white-80 shadow-lg mb-6">
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-text-secondary" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="p-8 text-center font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+              No rules yet. Add one to stop recategorising the same merchants by hand.
+            </p>
+          ) : (
+            rules.map((rule, index) => (
+              <div
+                key={rule.id}
+                className={`flex items-center gap-3 p-4 ${index !== rules.length - 1 ? "border-b border-border" : ""}`}
+              >
+                <div className="flex flex-col">
+                  <button
+                    type="button"
+                    aria-label="Move up"
+                    disabled={index === 0}
+                    onClick={() => handleMove(index, -1)}
+                    className="text-text-secondary hover:text-text-primary disabled:opacity-30"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    aria-label="Move down"
+                    disabled={index === rules.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                    className="text-text-secondary hover:text-text-primary disabled:opacity-30"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className={`font-[family-name:var(--font-nunito)] font-bold ${rule.is_active ? "text-text-primary" : "text-text-secondary line-through"}`}>
+                    {rule.name}
+                    {rule.stop_processing && (
+                      <span className="ml-2 text-xs font-normal text-text-secondary">stops here</span>
+                    )}
+                  </p>
+                  <p className="font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary truncate">
+                    {describeRule(rule)}
+                  </p>
+                </div>
+                <Switch
+                  checked={rule.is_active}
+                  onCheckedChange={(checked) => handleToggle(rule, checked)}
+                  aria-label="Rule enabled"
+                />
+                <Button variant="ghost" size="icon" aria-label="Edit rule" onClick={() => { setDraft(ruleToDraft(rule)); setPreview(null); }}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" aria-label="Delete rule" onClick={() => handleDelete(rule)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {!draft && (
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <Button
+            onClick={() => { setDraft({ ...EMPTY_DRAFT }); setPreview(null); setMessage(null); }}
+            className="flex-1 h-12 rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleApplyToHistory}
+            disabled={applying || rules.length === 0}
+            className="flex-1 h-12 rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+          >
+            {applying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <History className="h-4 w-4 mr-2" />}
+            Re-apply to History
+          </Button>
+        </div>
+      )}
+
+      {/* Editor */}
+      {draft && (
+        <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-border-white-80 shadow-lg mb-6">
+          <CardContent className="pt-6 space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="ruleName" className={labelClass}>Rule name</Label>
+              <Input
+                id="ruleName"
+                placeholder="e.g. Bunnings is home maintenance"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <h2 className="font-[family-name:var(--font-nunito)] text-lg font-bold text-text-primary">
+                When a transaction…
+              </h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="descContains" className={labelClass}>Description contains</Label>
+                  <Input id="descContains" placeholder="BUNNINGS" value={draft.descriptionContains} onChange={(e) => updateDraft({ descriptionContains: e.target.value })} className={inputClass} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="descRegex" className={labelClass}>Description matches pattern</Label>
+                  <Input id="descRegex" placeholder="^(COLES|WOOLWORTHS)" value={draft.descriptionRegex} onChange={(e) => updateDraft({ descriptionRegex: e.target.value })} className={inputClass} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="amountMin" className={labelClass}>Amount from ($)</Label>
+                  <Input id="amountMin" inputMode="decimal" placeholder="0.00" value={draft.amountMin} onChange={(e) => updateDraft({ amountMin: e.target.value })} className={inputClass} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="amountMax" className={labelClass}>Amount to ($)</Label>
+                  <Input id="amountMax" inputMode="decimal" placeholder="Any" value={draft.amountMax} onChange={(e) => updateDraft({ amountMax: e.target.value })} className={inputClass} />
+                </div>
+                <div className="space-y-2">
+                  <Label className={labelClass}>Direction</Label>
+                  <Select value={draft.direction} onValueChange={(v) => updateDraft({ direction: v as RuleDraft["direction"] })}>
+                    <SelectTrigger className={inputClass}><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Money in or out</SelectItem>
+                      <SelectItem value="out">Spending</SelectItem>
+                      <SelectItem value="in">Money received</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className={labelClass}>Account</Label>
+                  <Select value={draft.accountId} onValueChange={(v) => updateDraft({ accountId: v })}>
+                    <SelectTrigger className={inputClass}><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any account</SelectItem>
+                      {accounts.map((a) => (
+                        <SelectItem key={a.id} value={a.id}>{a.display_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cardSuffix" className={labelClass}>Card ending in</Label>
+                  <Input id="cardSuffix" inputMode="numeric" maxLength={4} placeholder="1234" value={draft.cardSuffix} onChange={(e) => updateDraft({ cardSuffix: e.target.value.replace(/\D/g, "") })} className={inputClass} />
+                </div>
+                <div className="space-y-2">
+                  <Label className={labelClass}>Purchase method</Label>
+                  <Select value={draft.cardPurchaseMethod} onValueChange={(v) => updateDraft({ cardPurchaseMethod: v as RuleDraft["cardPurchaseMethod"] })}>
+                    <SelectTrigger className={inputClass}><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any method</SelectItem>
+                      {CARD_PURCHASE_METHODS.map((m) => (
+                        <SelectItem key={m} value={m}>{m.replace(/_/g, " ").toLowerCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="foreignCurrency" className={labelClass}>Foreign currency</Label>
+                  <Input id="foreignCurrency" placeholder="USD, or 'any'" maxLength={3} value={draft.foreignCurrency} onChange={(e) => updateDraft({ foreignCurrency: e.target.value })} className={inputClass} />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h2 className="font-[family-name:var(--font-nunito)] text-lg font-bold text-text-primary">
+                Then…
+              </h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className={labelClass}>Set category</Label>
+                  <Select value={draft.categoryId} onValueChange={(v) => updateDraft({ categoryId: v })}>
+                    <SelectTrigger className={inputClass}><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Leave unchanged</SelectItem>
+                      {categories.map((c) => (
+                        <SelectItem key={c.up_category_id} value={c.up_category_id}>
+                          {c.new_parent_name} › {c.new_child_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleTags" className={labelClass}>Add tags</Label>
+                  <Input id="ruleTags" placeholder="renovation, tax" value={draft.tags} onChange={(e) => updateDraft({ tags: e.target.value })} className={inputClass} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleNote" className={labelClass}>Attach a note</Label>
+                  <Input id="ruleNote" placeholder="Optional" value={draft.note} onChange={(e) => updateDraft({ note: e.target.value })} className={inputClass} />
+                </div>
+                <div className="space-y-2">
+                  <Label className={labelClass}>Tax deduction</Label>
+                  <Select value={draft.taxCategory} onValueChange={(v) => updateDraft({ taxCategory: v as RuleDraft["taxCategory"] })}>
+                    <SelectTrigger className={inputClass}><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Leave unchanged</SelectItem>
+                      {TAX_CATEGORIES.map((c) => (
+                        <SelectItem key={c} value={c}>
+                          {TAX_CATEGORY_INFO[c].label} ({TAX_CATEGORY_INFO[c].atoCode})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="p-3 rounded-xl border-2 border-border space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className={`${labelClass} text-sm`}>Mark as shared</p>
+                  <Switch checked={draft.shareEnabled} onCheckedChange={(checked) => updateDraft({ shareEnabled: checked })} />
+                </div>
+                {draft.shareEnabled && (
+                  <div className="space-y-2">
+                    <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
+                      You pay {draft.sharePercentage}% · Partner pays {100 - draft.sharePercentage}%
+                    </p>
+                    <Slider
+                      value={[draft.sharePercentage]}
+                      min={0}
+                      max={100}
+                      step={5}
+                      onValueChange={([value]) => updateDraft({ sharePercentage: value })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between p-3 rounded-xl border-2 border-border">
+                <p className={`${labelClass} text-sm`}>Mark as internal transfer</p>
+                <Switch checked={draft.markInternalTransfer} onCheckedChange={(checked) => updateDraft({ markInternalTransfer: checked })} />
+              </div>
+
+              <div className="flex items-center justify-between p-3 rounded-xl border-2 border-border">
+                <div>
+                  <p className={`${labelClass} text-sm`}>Stop after this rule</p>
+                  <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
+                    Later rules won&apos;t run on transactions this rule matches
+                  </p>
+                </div>
+                <Switch checked={draft.stop_processing} onCheckedChange={(checked) => updateDraft({ stop_processing: checked })} />
+              </div>
+            </div>
+
+            {preview && (
+              <div className="p-4 rounded-xl border-2 border-border space-y-2">
+                <p className={`${labelClass} text-sm`}>
+                  Matches {preview.matchCount} of your last {preview.scanned} transactions
+                </p>
+                {preview.samples.map((t) => (
+                  <div key={t.id} className="flex justify-between gap-4 font-[family-name:var(--font-dm-sans)] text-sm">
+                    <span className="truncate text-text-primary">{t.description}</span>
+                    <span className="whitespace-nowrap text-text-secondary">
+                      {new Date(t.created_at).toLocaleDateString("en-AU", { day: "numeric", month: "short" })} · {formatCurrency(t.amount_cents)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button
+                variant="outline"
+                onClick={handlePreview}
+                disabled={previewing}
+                className="flex-1 h-12 rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+              >
+                {previewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                Preview Matches
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => { setDraft(null); setPreview(null); }}
+                className="flex-1 h-12 rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving || !draft.name.trim()}
+                className="flex-1 h-12 rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+              >
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Rule
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Nunito, DM_Sans } from "next/font/google";
+import { getAuditLogs, type AuditLogPage } from "@/app/actions/audit-logs";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+
+const nunito = Nunito({
+  subsets: ["latin"],
+  variable: "--font-nunito",
+  weight: ["600", "700", "800"]
+});
+
+const dmSans = DM_Sans({
+  subsets: ["latin"],
+  variable: "--font-dm-sans",
+  weight: ["400", "500"]
+});
+
+const ACTION_LABELS: Record<string, string> = {
+  EXPENSE_DELETED: "Deleted a recurring expense",
+  BUDGET_RESET: "Reset a budget methodology",
+  BUDGET_DELETED: "Deleted a budget",
+  PARTNERSHIP_CHANGED: "Changed the partnership",
+  CATEGORY_OVERRIDE: "Overrode a category",
+  API_KEY_UPDATED: "Updated an API key",
+  PASSWORD_CHANGED: "Changed their password",
+  ACCOUNT_DELETED: "Deleted their account",
+  PARTNER_ADDED: "Added a partner",
+  PARTNER_REMOVED: "Removed a partner",
+  FINANCIAL_DATA_EXPORTED: "Exported financial data",
+  OTHER_SESSIONS_REVOKED: "Signed out other devices",
+  BACKUP_RESTORED: "Restored a backup",
+};
+
+const ACTOR_OPTIONS = [
+  { value: "all", label: "Everyone" },
+  { value: "me", label: "Me" },
+  { value: "partner", label: "My partner" },
+] as const;
+
+type Actor = (typeof ACTOR_OPTIONS)[number]["value"];
+
+/** Summarise the most useful detail fields for display. */
+function describeDetails(details: Record<string, unknown>): string | null {
+  const parts: string[] = [];
+  if (typeof details.expenseName === "string") parts.push(details.expenseName);
+  if (typeof details.partnerName === "string") parts.push(details.partnerName);
+  if (typeof details.methodology === "string") parts.push(details.methodology);
+  if (typeof details.description === "string") parts.push(details.description);
+  if (typeof details.provider === "string") parts.push(details.provider);
+  if (typeof details.format === "string") parts.push(details.format.toUpperCase());
+  if (typeof details.dateFrom === "string" || typeof details.dateTo === "string") {
+    parts.push(`${details.dateFrom ?? "…"} → ${details.dateTo ?? "…"}`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+export default function ActivityHistoryPage() {
+  const [action, setAction] = useState<string>("all");
+  const [actor, setActor] = useState<Actor>("all");
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<AuditLogPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const res = await getAuditLogs({
+        action: action === "all" ? undefined : action,
+        actor,
+        page,
+      });
+      if (cancelled) return;
+      if (res.success) {
+        setResult(res.data ?? null);
+        setError(null);
+      } else {
+        setError(res.error);
+      }
+      setLoading(false);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [action, actor, page]);
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  return (
+    <div className={`p-4 md:p-6 lg:p-8 max-w-4xl mx-auto ${nunito.variable} ${dmSans.variable}`}>
+      {/* Header */}
+      <div className="space-y-1 mb-6">
+        <Link href="/settings/security" className="text-sm font-[family-name:var(--font-dm-sans)] text-text-secondary hover:text-text-primary flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Privacy & Security
+        </Link>
+        <h1 className="font-[family-name:var(--font-nunito)] text-3xl font-black text-text-primary">
+          Activity History
+        </h1>
+        <p className="font-[family-name:var(--font-dm-sans)] text-text-secondary">
+          Critical changes made by you and your partner
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-border-white-80 shadow-lg mb-6">
+        <CardContent className="pt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+              Action
+            </Label>
+            <Select
+              value={action}
+              onValueChange={(value) => {
+                setAction(value);
+                setPage(0);
+              }}
+            >
+              <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+              Who
+            </Label>
+            <Select
+              value={actor}
+              onValueChange={(value) => {
+                setActor(value as Actor);
+                setPage(0);
+              }}
+            >
+              <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ACTOR_OPTIONS.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-border-white-80 shadow-lg">
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-text-secondary" />
+            </div>
+          ) : !result || result.entries.length === 0 ? (
+            <p className="p-8 text-center font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+              No activity recorded yet
+            </p>
+          ) : (
+            result.entries.map((entry, index) => {
+              const detail = describeDetails(entry.details);
+              return (
+                <div
+                  key={entry.id}
+                  className={`flex items-start justify-between gap-4 p-4 ${
+                    index !== result.entries.length - 1 ? "border-b border-border" : ""
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                      {entry.isCurrentUser ? "You" : "Your partner"}{" "}
+                      <span className="font-normal">
+                        {(ACTION_LABELS[entry.action] ?? entry.action).toLowerCase()}
+                      </span>
+                    </p>
+                    {detail && (
+                      <p className="font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary truncate">
+                        {detail}
+                      </p>
+                    )}
+                  </div>
+                  <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary whitespace-nowrap">
+                    {new Date(entry.created_at).toLocaleString("en-AU", {
+                      day: "numeric",
+                      month: "short",
+                      year: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {result && result.total > result.pageSize && (
+        <div className="flex items-center justify-between mt-4">
+          <Button
+            variant="outline"
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+            disabled={loading || page === 0}
+            className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Newer
+          </Button>
+          <p className="font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+            Page {page + 1} of {totalPages}
+          </p>
+          <Button
+            variant="outline"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={loading || page + 1 >= totalPages}
+            className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+          >
+            Older
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ArrowLeft, Loader2, Save, Trash2, Lock, LogOut } from "lucide-react";
+import { ArrowLeft, Loader2, Save, Trash2, Lock, LogOut, History, ChevronRight } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -286,6 +286,26 @@ export default function SecurityPage() {
         </CardContent>
       </Card>
 
+      {/* Activity History */}
+      <Link href="/settings/security/activity">
+        <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-border-white-80 shadow-lg mb-6 hover:bg-secondary transition-colors">
+          <CardContent className="flex items-center gap-4 p-4">
+            <div className="p-2 rounded-lg bg-secondary">
+              <History className="h-5 w-5 text-text-primary" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                Activity History
+              </p>
+              <p className="font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+                See who deleted, reset, exported or changed shared data
+              </p>
+            </div>
+            <ChevronRight className="h-5 w-5 text-text-secondary flex-shrink-0" />
+          </CardContent>
+        </Card>
+      </Link>
+
       {/* Danger Zone */}
       <Card className="bg-surface-white-60 backdrop-blur-sm border-2 border-error-border shadow-lg">
         <CardContent className="pt-6">
@@ -113,6 +113,7 @@ export default function UpConnectionPage() {
           .from("accounts")
           .select("*")
           .eq("user_id", user.id)
+          .eq("source", "up_bank")
           .eq("is_active", true);
 
         setAccounts(accts || []);
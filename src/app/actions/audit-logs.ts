@@ -0,0 +1,78 @@
+"use server";
+
+import { z } from "zod/v4";
+import { createClient } from "@/utils/supabase/server";
+import type { ActionResult } from "@/types/action-result";
+import { ok, fail } from "@/types/action-result";
+import { safeErrorMessage } from "@/lib/safe-error";
+
+const AUDIT_LOG_PAGE_SIZE = 25;
+
+export interface AuditLogEntry {
+  id: string;
+  action: string;
+  details: Record<string, unknown>;
+  created_at: string;
+  /** True when the current user performed the action */
+  isCurrentUser: boolean;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const auditLogQuerySchema = z.object({
+  action: z.string().max(64).regex(/^[A-Z_]+$/).optional(),
+  actor: z.enum(["all", "me", "partner"]).default("all"),
+  page: z.number().int().min(0).max(10000).default(0),
+});
+
+export type AuditLogQuery = z.input<typeof auditLogQuerySchema>;
+
+/**
+ * Fetch a page of audit log entries visible to the current user.
+ * RLS limits results to the user's own entries plus their partnership's.
+ */
+export async function getAuditLogs(query: AuditLogQuery = {}): Promise<ActionResult<AuditLogPage>> {
+  const parsed = auditLogQuerySchema.safeParse(query);
+  if (!parsed.success) return fail("Invalid filter");
+  const { action, actor, page } = parsed.data;
+
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return fail("Not authenticated");
+
+    const from = page * AUDIT_LOG_PAGE_SIZE;
+    let request = supabase
+      .from("audit_logs")
+      .select("id, user_id, action, details, created_at", { count: "exact" })
+      .order("created_at", { ascending: false })
+      .range(from, from + AUDIT_LOG_PAGE_SIZE - 1);
+
+    if (action) request = request.eq("action", action);
+    if (actor === "me") request = request.eq("user_id", user.id);
+    if (actor === "partner") request = request.neq("user_id", user.id);
+
+    const { data, count, error } = await request;
+    if (error) return fail(safeErrorMessage(error, "Failed to load activity history"));
+
+    return ok({
+      entries: (data ?? []).map((row) => ({
+        id: row.id,
+        action: row.action,
+        details: (row.details ?? {}) as Record<string, unknown>,
+        created_at: row.created_at,
+        isCurrentUser: row.user_id === user.id,
+      })),
+      total: count ?? 0,
+      page,
+      pageSize: AUDIT_LOG_PAGE_SIZE,
+    });
+  } catch (error) {
+    return fail(safeErrorMessage(error, "Failed to load activity history"));
+  }
+}
@@ -11,12 +11,14 @@ import { headers } from "next/headers";
 
 // Per-email limiter: prevents brute force against a specific account
 const loginLimiter = new RateLimiter({
+  name: "login",
   maxRequests: 5,
   windowMs: 15 * 60 * 1000, // 5 attempts per 15 minutes
 });
 
 // Per-IP limiter: prevents credential stuffing across many accounts from one IP
 const loginIpLimiter = new RateLimiter({
+  name: "login-ip",
   maxRequests: 15,
   windowMs: 15 * 60 * 1000, // 15 attempts per 15 minutes per IP
 });
@@ -28,13 +30,13 @@ export async function signIn(email: string, password: string) {
   const ip = forwarded ? forwarded.split(",")[0].trim() : headersList.get("x-real-ip") || "unknown";
 
   // Rate limit by IP to prevent credential stuffing across accounts
-  const ipRateCheck = loginIpLimiter.check(ip);
+  const ipRateCheck = await loginIpLimiter.check(ip);
   if (!ipRateCheck.allowed) {
     return { error: "Too many login attempts. Please try again later." };
   }
 
   // Rate limit by email to prevent per-account brute force
-  const rateCheck = loginLimiter.check(email.toLowerCase());
+  const rateCheck = await loginLimiter.check(email.toLowerCase());
   if (!rateCheck.allowed) {
     return { error: "Too many login attempts. Please try again later." };
   }
@@ -91,7 +93,7 @@ export async function changePassword(
     };
   }
 
-  auditLog({
+  await auditLog({
     userId: user.id,
     action: AuditAction.PASSWORD_CHANGED,
   });
@@ -132,7 +134,7 @@ export async function signOutOtherSessions(): Promise<{
     };
   }
 
-  auditLog({
+  await auditLog({
     userId: user.id,
     action: AuditAction.OTHER_SESSIONS_REVOKED,
   });
@@ -165,7 +167,7 @@ export async function deleteAccount(): Promise<{
 
   const userId = user.id;
 
-  auditLog({
+  await auditLog({
     userId,
     action: AuditAction.ACCOUNT_DELETED,
   });
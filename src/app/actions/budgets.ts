@@ -17,6 +17,15 @@ import { slugify, generateUniqueSlug, insertBudgetWithSlugRetry } from "@/lib/sl
 import { createDefaultLayoutConfig } from "@/lib/layout-persistence";
 import type { Section, LayoutConfig } from "@/lib/layout-persistence";
 import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { auditLog, AuditAction } from "@/lib/audit-logger";
+import {
+  CARRYOVER_MODES,
+  PERIOD_TYPES,
+  payCycleAnchorFromSource,
+  payFrequencyMatchesPeriod,
+  type CarryoverMode,
+  type PeriodType,
+} from "@/lib/budget-engine";
 
 // =====================================================
 // ZOD SCHEMAS
@@ -24,7 +33,9 @@ import { getUserPartnershipId } from "@/lib/get-user-partnership";
 
 const budgetTypeSchema = z.enum(["personal", "household", "custom"]);
 const budgetViewSchema = z.enum(["individual", "shared"]);
-const periodTypeSchema = z.enum(["weekly", "fortnightly", "monthly"]);
+const periodTypeSchema = z.enum(PERIOD_TYPES);
+const periodAnchorDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional();
+const carryoverModeSchema = z.enum(CARRYOVER_MODES);
 
 const categoryFilterSchema = z
   .object({
@@ -57,10 +68,12 @@ const createBudgetSchema = z.object({
   color: z.string().max(20).optional(),
   initial_sections: z.array(sectionSchema).max(50).optional(),
   hidden_item_ids: z.array(z.string().max(200)).max(500).optional(),
-  carryover_mode: z.literal("none").optional(),
+  carryover_mode: carryoverModeSchema.optional(),
   total_budget: z.number().int().min(0).max(100_000_000_00).optional(), // max $100M in cents
   start_date: z.string().max(30).optional(),
   end_date: z.string().max(30).optional(),
+  period_anchor_date: periodAnchorDateSchema,
+  pay_cycle_source_id: z.string().uuid().nullable().optional(),
 });
 
 const updateBudgetSchema = z.object({
@@ -71,6 +84,9 @@ const updateBudgetSchema = z.object({
   period_type: periodTypeSchema.optional(),
   category_filter: categoryFilterSchema,
   color: z.string().max(20).optional(),
+  carryover_mode: carryoverModeSchema.optional(),
+  period_anchor_date: periodAnchorDateSchema,
+  pay_cycle_source_id: z.string().uuid().nullable().optional(),
 });
 
 export interface UserBudget {
@@ -82,17 +98,21 @@ export interface UserBudget {
   budget_type: "personal" | "household" | "custom";
   methodology: string;
   budget_view: "individual" | "shared";
-  period_type: "weekly" | "fortnightly" | "monthly";
+  period_type: PeriodType;
   is_active: boolean;
   is_default: boolean;
   color: string | null;
   template_source: string | null;
   category_filter: { included?: string[]; excluded?: string[] } | null;
-  carryover_mode: "none";
+  carryover_mode: CarryoverMode;
   /** Total budget cap in cents (e.g. 500000 = $5,000) */
   total_budget: number | null;
   start_date: string | null;
   end_date: string | null;
+  /** Pay-cycle anchor, copied from the pay source when one is linked; null = month-aligned periods */
+  period_anchor_date: string | null;
+  /** Income source the anchor was taken from; its frequency matches period_type */
+  pay_cycle_source_id: string | null;
   created_by: string | null;
   created_at: string;
   updated_at: string;
@@ -105,17 +125,19 @@ export interface CreateBudgetInput {
   budget_type: "personal" | "household" | "custom";
   methodology: string;
   budget_view?: "individual" | "shared";
-  period_type?: "weekly" | "fortnightly" | "monthly";
+  period_type?: PeriodType;
   template_source?: string;
   category_filter?: { included?: string[]; excluded?: string[] } | null;
   color?: string;
   initial_sections?: Section[];
   hidden_item_ids?: string[];
-  carryover_mode?: "none";
+  carryover_mode?: CarryoverMode;
   /** Total budget cap in cents (e.g. 500000 = $5,000). Stored directly in DB. */
   total_budget?: number;
   start_date?: string;
   end_date?: string;
+  period_anchor_date?: string | null;
+  pay_cycle_source_id?: string | null;
 }
 
 // =====================================================
@@ -185,6 +207,19 @@ export async function createBudget(input: CreateBudgetInput) {
       throw new Error("Not authorized for this partnership");
     }
 
+    // A linked pay source fixes the anchor to its current pay date
+    let periodAnchorDate = input.period_anchor_date ?? null;
+    if (input.pay_cycle_source_id) {
+      const paySource = await loadPaySourceAnchor(
+        supabase,
+        input.pay_cycle_source_id,
+        input.partnership_id,
+        input.period_type ?? "monthly"
+      );
+      if ("error" in paySource) throw new Error(paySource.error);
+      periodAnchorDate = paySource.anchor;
+    }
+
     // Check if this is the first budget (make it default)
     const { count } = await supabase
       .from("user_budgets")
@@ -207,10 +242,12 @@ export async function createBudget(input: CreateBudgetInput) {
       color: input.color ?? null,
       is_default: isFirst,
       created_by: user.id,
-      carryover_mode: "none",
+      carryover_mode: input.carryover_mode ?? "none",
       total_budget: input.total_budget ?? null,
       start_date: input.start_date ?? null,
       end_date: input.end_date ?? null,
+      period_anchor_date: periodAnchorDate,
+      pay_cycle_source_id: input.pay_cycle_source_id ?? null,
     };
 
     const { data, error } = await insertBudgetWithSlugRetry(
@@ -273,6 +310,33 @@ export async function createBudget(input: CreateBudgetInput) {
   }
 }
 
+/**
+ * Check an income source can anchor a budget's periods and return the pay
+ * date to copy into period_anchor_date. Its frequency has to match the
+ * period type, or its pays wouldn't line up with the periods.
+ */
+async function loadPaySourceAnchor(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  sourceId: string,
+  partnershipId: string,
+  periodType: PeriodType
+): Promise<{ anchor: string } | { error: string }> {
+  const { data: paySource } = await supabase
+    .from("income_sources")
+    .select("frequency, next_pay_date, last_pay_date")
+    .eq("id", sourceId)
+    .eq("partnership_id", partnershipId)
+    .maybeSingle();
+  if (!paySource) return { error: "Income source not found" };
+
+  if (!payFrequencyMatchesPeriod(periodType, paySource.frequency)) {
+    return { error: `Pick an income source paid ${periodType}, or start periods from a date instead` };
+  }
+  const anchor = payCycleAnchorFromSource(paySource);
+  if (!anchor) return { error: "This income source has no pay date yet" };
+  return { anchor };
+}
+
 /**
  * Seeds a new budget with $0 assignment rows for every subcategory
  * within the included parent categories, plus rows for the user's
@@ -380,6 +444,9 @@ export async function updateBudget(
       | "period_type"
       | "category_filter"
       | "color"
+      | "carryover_mode"
+      | "period_anchor_date"
+      | "pay_cycle_source_id"
     >
   >
 ) {
@@ -403,7 +470,7 @@ export async function updateBudget(
 
     const { data: currentBudget } = await supabase
       .from("user_budgets")
-      .select("partnership_id")
+      .select("partnership_id, period_type, pay_cycle_source_id")
       .eq("id", budgetId)
       .single();
 
@@ -412,7 +479,36 @@ export async function updateBudget(
     }
 
     // Destructure only expected fields — no spread
-    const { name, emoji, methodology, budget_view, period_type, category_filter, color } = updates;
+    const {
+      name, emoji, methodology, budget_view, period_type, category_filter, color, carryover_mode,
+      period_anchor_date, pay_cycle_source_id,
+    } = updates;
+
+    // Linking a pay source copies its pay date into period_anchor_date, so
+    // the periods stay put as the source's next_pay_date moves on
+    let anchorDate = period_anchor_date;
+    let paySourceId = pay_cycle_source_id;
+    const periodType: PeriodType = period_type ?? currentBudget.period_type;
+    if (pay_cycle_source_id) {
+      const paySource = await loadPaySourceAnchor(supabase, pay_cycle_source_id, partnershipId, periodType);
+      if ("error" in paySource) return { data: null, error: paySource.error };
+      anchorDate = paySource.anchor;
+    } else if (
+      pay_cycle_source_id === undefined &&
+      period_type !== undefined &&
+      currentBudget.pay_cycle_source_id
+    ) {
+      // A new period type the linked source isn't paid on keeps the anchor
+      // as a plain start date and unlinks the source
+      const paySource = await loadPaySourceAnchor(
+        supabase,
+        currentBudget.pay_cycle_source_id,
+        partnershipId,
+        periodType
+      );
+      if ("error" in paySource) paySourceId = null;
+    }
+
     const finalUpdates: Record<string, unknown> = {};
     if (name !== undefined) finalUpdates.name = name;
     if (emoji !== undefined) finalUpdates.emoji = emoji;
@@ -421,6 +517,9 @@ export async function updateBudget(
     if (period_type !== undefined) finalUpdates.period_type = period_type;
     if (category_filter !== undefined) finalUpdates.category_filter = category_filter;
     if (color !== undefined) finalUpdates.color = color;
+    if (carryover_mode !== undefined) finalUpdates.carryover_mode = carryover_mode;
+    if (anchorDate !== undefined) finalUpdates.period_anchor_date = anchorDate;
+    if (paySourceId !== undefined) finalUpdates.pay_cycle_source_id = paySourceId;
 
     // Regenerate slug when name changes, with retry on collision
     if (name) {
@@ -499,6 +598,13 @@ export async function deleteBudget(budgetId: string) {
 
     if (error) throw error;
 
+    await auditLog({
+      userId: user.id,
+      action: AuditAction.BUDGET_DELETED,
+      details: { budgetId },
+      partnershipId,
+    });
+
     revalidatePath("/budget");
     return { error: null };
   } catch (err) {
@@ -640,7 +746,9 @@ export async function duplicateBudget(budgetId: string, newName: string) {
       template_source: original.template_source,
       category_filter: original.category_filter,
       color: original.color,
-      carryover_mode: "none",
+      carryover_mode: original.carryover_mode ?? "none",
+      period_anchor_date: original.period_anchor_date ?? null,
+      pay_cycle_source_id: original.pay_cycle_source_id ?? null,
       is_default: false,
       created_by: user.id,
     };
@@ -0,0 +1,245 @@
+"use server";
+
+import { z } from "zod/v4";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { demoActionGuard } from "@/lib/demo-guard";
+import { safeErrorMessage } from "@/lib/safe-error";
+import {
+  DASHBOARD_WIDGETS,
+  DASHBOARD_WIDGET_TYPES,
+  MAX_DASHBOARD_WIDGETS,
+  WIDGET_HEIGHTS,
+  WIDGET_TIME_PERIODS,
+  WIDGET_WIDTHS,
+  packWidgets,
+  sortWidgets,
+  type WidgetSize,
+} from "@/lib/dashboard-widgets";
+
+// =====================================================
+// ZOD SCHEMAS
+// =====================================================
+
+const widthSchema = z.number().int().refine((w) => (WIDGET_WIDTHS as readonly number[]).includes(w), "Invalid widget width");
+const heightSchema = z.number().int().refine((h) => (WIDGET_HEIGHTS as readonly number[]).includes(h), "Invalid widget height");
+
+const widgetSettingsSchema = z
+  .object({
+    chart_type: z.enum(DASHBOARD_WIDGET_TYPES),
+    title: z.string().trim().min(1).max(60),
+    category_filter: z.array(z.string().min(1).max(100)).max(100),
+    time_period: z.enum(WIDGET_TIME_PERIODS),
+  })
+  .refine((w) => DASHBOARD_WIDGETS[w.chart_type].periods.includes(w.time_period), {
+    message: "That time period isn't available for this widget",
+  });
+
+const newWidgetSchema = z.intersection(
+  widgetSettingsSchema,
+  z.object({ grid_width: widthSchema, grid_height: heightSchema })
+);
+
+const layoutSchema = z
+  .array(z.object({ id: z.string().uuid(), grid_width: widthSchema, grid_height: heightSchema }))
+  .max(MAX_DASHBOARD_WIDGETS);
+
+export type DashboardWidgetSettings = z.infer<typeof widgetSettingsSchema>;
+export type NewDashboardWidget = z.infer<typeof newWidgetSchema>;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/** Re-pack the user's widgets in the given order and store their positions */
+async function saveWidgetPositions(supabase: SupabaseClient, userId: string, widgets: WidgetSize[]) {
+  const results = await Promise.all(
+    packWidgets(widgets).map((w) =>
+      supabase
+        .from("user_dashboard_charts")
+        .update({
+          display_order: w.display_order,
+          grid_width: w.grid_width,
+          grid_height: w.grid_height,
+          grid_x: w.grid_x,
+          grid_y: w.grid_y,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", w.id)
+        .eq("user_id", userId)
+    )
+  );
+  return results.find((r) => r.error)?.error ?? null;
+}
+
+async function loadWidgetSizes(supabase: SupabaseClient, userId: string): Promise<WidgetSize[]> {
+  const { data } = await supabase
+    .from("user_dashboard_charts")
+    .select("id, display_order, grid_width, grid_height, grid_x, grid_y")
+    .eq("user_id", userId);
+
+  return sortWidgets(data ?? []).map((w) => ({
+    id: w.id,
+    grid_width: w.grid_width ?? 6,
+    grid_height: w.grid_height ?? 3,
+  }));
+}
+
+// =====================================================
+// WIDGETS
+// =====================================================
+
+/** Add a widget to the end of the user's dashboard */
+export async function createDashboardWidget(data: NewDashboardWidget) {
+  const parsed = newWidgetSchema.safeParse(data);
+  if (!parsed.success) return { error: "Invalid input: " + parsed.error.issues.map(i => i.message).join(", ") };
+  data = parsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const existing = await loadWidgetSizes(supabase, user.id);
+  if (existing.length >= MAX_DASHBOARD_WIDGETS) {
+    return { error: `The dashboard holds up to ${MAX_DASHBOARD_WIDGETS} widgets. Remove one first.` };
+  }
+
+  const placements = packWidgets([...existing, { id: "new", grid_width: data.grid_width, grid_height: data.grid_height }]);
+  const placement = placements[placements.length - 1];
+
+  const { data: widget, error } = await supabase
+    .from("user_dashboard_charts")
+    .insert({
+      user_id: user.id,
+      chart_type: data.chart_type,
+      title: data.title,
+      category_filter: DASHBOARD_WIDGETS[data.chart_type].categoryFilter ? data.category_filter : [],
+      time_period: data.time_period,
+      display_order: placement.display_order,
+      grid_width: placement.grid_width,
+      grid_height: placement.grid_height,
+      grid_x: placement.grid_x,
+      grid_y: placement.grid_y,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to add widget") };
+  }
+
+  revalidatePath("/home");
+  return { success: true, data: widget };
+}
+
+/** Change a widget's title, filters and time period */
+export async function updateDashboardWidget(widgetId: string, data: DashboardWidgetSettings) {
+  const idParsed = z.string().uuid().safeParse(widgetId);
+  if (!idParsed.success) return { error: "Invalid widget ID" };
+  const dataParsed = widgetSettingsSchema.safeParse(data);
+  if (!dataParsed.success) return { error: "Invalid input: " + dataParsed.error.issues.map(i => i.message).join(", ") };
+  data = dataParsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const { data: updated, error } = await supabase
+    .from("user_dashboard_charts")
+    .update({
+      chart_type: data.chart_type,
+      title: data.title,
+      category_filter: DASHBOARD_WIDGETS[data.chart_type].categoryFilter ? data.category_filter : [],
+      time_period: data.time_period,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", widgetId)
+    .eq("user_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to update widget") };
+  }
+  if (!updated) {
+    return { error: "Widget not found" };
+  }
+
+  revalidatePath("/home");
+  return { success: true };
+}
+
+export async function deleteDashboardWidget(widgetId: string) {
+  const idParsed = z.string().uuid().safeParse(widgetId);
+  if (!idParsed.success) return { error: "Invalid widget ID" };
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const { data: deleted, error } = await supabase
+    .from("user_dashboard_charts")
+    .delete()
+    .eq("id", widgetId)
+    .eq("user_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to remove widget") };
+  }
+  if (!deleted) {
+    return { error: "Widget not found" };
+  }
+
+  // Close the gap it left
+  await saveWidgetPositions(supabase, user.id, await loadWidgetSizes(supabase, user.id));
+
+  revalidatePath("/home");
+  return { success: true };
+}
+
+/**
+ * Save the order and sizes of every widget on the user's dashboard, e.g.
+ * after a drag or resize. Positions are worked out from the order.
+ */
+export async function saveDashboardLayout(layout: WidgetSize[]) {
+  const parsed = layoutSchema.safeParse(layout);
+  if (!parsed.success) return { error: "Invalid input: " + parsed.error.issues.map(i => i.message).join(", ") };
+  layout = parsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const existing = await loadWidgetSizes(supabase, user.id);
+  const ids = new Set(layout.map((w) => w.id));
+  if (ids.size !== layout.length || existing.length !== layout.length || existing.some((w) => !ids.has(w.id))) {
+    return { error: "The dashboard changed in another window. Refresh and try again." };
+  }
+
+  const error = await saveWidgetPositions(supabase, user.id, layout);
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to save layout") };
+  }
+
+  revalidatePath("/home");
+  return { success: true };
+}
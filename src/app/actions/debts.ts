@@ -0,0 +1,192 @@
+"use server";
+
+import { z } from "zod/v4";
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { demoActionGuard } from "@/lib/demo-guard";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { upsertInvestmentNetWorth } from "@/lib/net-worth-helpers";
+import { safeErrorMessage } from "@/lib/safe-error";
+import { DEBT_TYPES, REPAYMENT_FREQUENCIES } from "@/lib/debt-calculations";
+
+// =====================================================
+// ZOD SCHEMAS
+// =====================================================
+
+const debtSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  debt_type: z.enum(DEBT_TYPES),
+  balance_cents: z.number().int().min(0).max(100_000_000_000_00),
+  interest_rate: z.number().min(0).max(100),
+  minimum_repayment_cents: z.number().int().min(0).max(100_000_000_000_00),
+  repayment_frequency: z.enum(REPAYMENT_FREQUENCIES),
+  linked_account_id: z.string().uuid().nullable().optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export type DebtInput = z.infer<typeof debtSchema>;
+
+/**
+ * A linked account's balance replaces the entered one, so the debt starts in
+ * step with the bank; the Up webhook and sync keep it there afterwards (see
+ * syncLinkedDebtBalances). Returns null when the account isn't visible to the user.
+ */
+async function linkedAccountBalance(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  accountId: string
+): Promise<number | null> {
+  const { data: account } = await supabase
+    .from("accounts")
+    .select("balance_cents")
+    .eq("id", accountId)
+    .maybeSingle();
+
+  return account ? Math.abs(account.balance_cents || 0) : null;
+}
+
+export async function createDebt(data: DebtInput) {
+  const parsed = debtSchema.safeParse(data);
+  if (!parsed.success) return { error: "Invalid input: " + parsed.error.issues.map(i => i.message).join(", ") };
+  data = parsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find or create budget" };
+  }
+
+  let balanceCents = data.balance_cents;
+  if (data.linked_account_id) {
+    const linkedBalance = await linkedAccountBalance(supabase, data.linked_account_id);
+    if (linkedBalance === null) return { error: "Linked account not found" };
+    balanceCents = linkedBalance;
+  }
+
+  const { data: debt, error } = await supabase
+    .from("debts")
+    .insert({
+      partnership_id: partnershipId,
+      name: data.name,
+      debt_type: data.debt_type,
+      balance_cents: balanceCents,
+      interest_rate: data.interest_rate,
+      minimum_repayment_cents: data.minimum_repayment_cents,
+      repayment_frequency: data.repayment_frequency,
+      linked_account_id: data.linked_account_id || null,
+      notes: data.notes || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to add debt") };
+  }
+
+  await upsertInvestmentNetWorth(supabase, partnershipId);
+
+  revalidatePath("/plan");
+  return { success: true, data: debt };
+}
+
+export async function updateDebt(debtId: string, data: DebtInput) {
+  const idParsed = z.string().uuid().safeParse(debtId);
+  if (!idParsed.success) return { error: "Invalid debt ID" };
+  const dataParsed = debtSchema.safeParse(data);
+  if (!dataParsed.success) return { error: "Invalid input: " + dataParsed.error.issues.map(i => i.message).join(", ") };
+  data = dataParsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  let balanceCents = data.balance_cents;
+  if (data.linked_account_id) {
+    const linkedBalance = await linkedAccountBalance(supabase, data.linked_account_id);
+    if (linkedBalance === null) return { error: "Linked account not found" };
+    balanceCents = linkedBalance;
+  }
+
+  // Update debt — explicit fields only, scoped to partnership
+  const { data: updated, error } = await supabase
+    .from("debts")
+    .update({
+      name: data.name,
+      debt_type: data.debt_type,
+      balance_cents: balanceCents,
+      interest_rate: data.interest_rate,
+      minimum_repayment_cents: data.minimum_repayment_cents,
+      repayment_frequency: data.repayment_frequency,
+      linked_account_id: data.linked_account_id || null,
+      notes: data.notes || null,
+    })
+    .eq("id", debtId)
+    .eq("partnership_id", partnershipId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to update debt") };
+  }
+  if (!updated) {
+    return { error: "Debt not found" };
+  }
+
+  await upsertInvestmentNetWorth(supabase, partnershipId);
+
+  revalidatePath("/plan");
+  return { success: true };
+}
+
+export async function deleteDebt(debtId: string) {
+  const idParsed = z.string().uuid().safeParse(debtId);
+  if (!idParsed.success) return { error: "Invalid debt ID" };
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  const { data: deleted, error } = await supabase
+    .from("debts")
+    .delete()
+    .eq("id", debtId)
+    .eq("partnership_id", partnershipId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to delete debt") };
+  }
+  if (!deleted) {
+    return { error: "Debt not found" };
+  }
+
+  await upsertInvestmentNetWorth(supabase, partnershipId);
+
+  revalidatePath("/plan");
+  return { success: true };
+}
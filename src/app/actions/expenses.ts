@@ -7,6 +7,7 @@ import { demoActionGuard } from "@/lib/demo-guard";
 import type { ActionResult } from "@/types/action-result";
 import { ok, fail } from "@/types/action-result";
 import { safeErrorMessage, escapeLikePattern } from "@/lib/safe-error";
+import { auditLog, AuditAction } from "@/lib/audit-logger";
 
 // =====================================================
 // ZOD SCHEMAS
@@ -318,6 +319,13 @@ export async function deleteExpense(
 
     if (error) return fail(safeErrorMessage(error, "Failed to delete expense"));
 
+    await auditLog({
+      userId: user.id,
+      action: AuditAction.EXPENSE_DELETED,
+      details: { expenseId, expenseName: expense.name },
+      partnershipId: expense.partnership_id,
+    });
+
     return ok();
   } catch (error) {
     return fail(safeErrorMessage(error, "Failed to delete expense"));
@@ -62,12 +62,18 @@ export async function updateFireProfile(data: {
     annual_expense_override_cents,
   } = data;
 
+  // Once super funds are tracked the profile balance follows them instead
+  const { count: superFundCount } = await supabase
+    .from("super_accounts")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", user.id);
+
   const { error } = await supabase
     .from("profiles")
     .update({
       date_of_birth,
       target_retirement_age,
-      super_balance_cents,
+      ...((superFundCount ?? 0) === 0 && { super_balance_cents }),
       super_contribution_rate,
       expected_return_rate,
       outside_super_return_rate,
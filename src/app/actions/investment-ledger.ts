@@ -0,0 +1,312 @@
+"use server";
+
+import { z } from "zod/v4";
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { demoActionGuard } from "@/lib/demo-guard";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { upsertInvestmentNetWorth } from "@/lib/net-worth-helpers";
+import { safeErrorMessage } from "@/lib/safe-error";
+import { isForeignCurrency, toAudCents } from "@/lib/fx-rates";
+import { getFxRateOn } from "@/lib/fx-rate-store";
+import { buildLedger, type InvestmentTransactionRecord } from "@/lib/investment-ledger";
+
+// =====================================================
+// ZOD SCHEMAS
+// =====================================================
+
+const MAX_CENTS = 100_000_000_000_00;
+const MAX_UNITS = 1_000_000_000;
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+const common = {
+  trade_date: isoDate,
+  notes: z.string().max(500).optional(),
+};
+const units = z.number().positive().max(MAX_UNITS);
+const cents = z.number().int().min(0).max(MAX_CENTS);
+
+const investmentTransactionSchema = z.discriminatedUnion("transaction_type", [
+  z.object({
+    transaction_type: z.literal("buy"),
+    quantity: units,
+    amount_cents: cents,
+    fees_cents: cents.optional(),
+    ...common,
+  }),
+  z.object({
+    transaction_type: z.literal("sell"),
+    quantity: units,
+    amount_cents: cents,
+    fees_cents: cents.optional(),
+    parcel_allocations: z
+      .array(z.object({ parcel_id: z.string().uuid(), quantity: units }))
+      .max(100)
+      .optional(),
+    ...common,
+  }),
+  z.object({
+    transaction_type: z.literal("dividend"),
+    amount_cents: cents.min(1),
+    ...common,
+  }),
+  z.object({
+    transaction_type: z.literal("drp"),
+    quantity: units,
+    amount_cents: cents,
+    ...common,
+  }),
+  z.object({
+    transaction_type: z.literal("split"),
+    split_ratio: z.number().positive().max(1000),
+    ...common,
+  }),
+]);
+
+export type InvestmentTransactionInput = z.infer<typeof investmentTransactionSchema>;
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+interface LedgerHolding {
+  id: string;
+  currency_code: string;
+  quantity: number | null;
+  current_value_cents: number;
+  native_value_cents: number | null;
+  purchase_date: string | null;
+}
+
+const HOLDING_COLUMNS = "id, currency_code, quantity, current_value_cents, native_value_cents, purchase_date";
+
+async function loadTransactions(
+  supabase: SupabaseServerClient,
+  investmentId: string
+): Promise<InvestmentTransactionRecord[]> {
+  const { data } = await supabase
+    .from("investment_transactions")
+    .select("id, investment_id, transaction_type, trade_date, quantity, amount_cents, fees_cents, native_amount_cents, split_ratio, parcel_allocations, created_at")
+    .eq("investment_id", investmentId)
+    .order("trade_date", { ascending: true });
+
+  return (data || []).map((tx) => ({
+    ...tx,
+    quantity: tx.quantity === null ? null : Number(tx.quantity),
+    split_ratio: tx.split_ratio === null ? null : Number(tx.split_ratio),
+  }));
+}
+
+/** Problems a change to the ledger would add, so it can be refused */
+function newProblems(before: InvestmentTransactionRecord[], after: InvestmentTransactionRecord[]): string[] {
+  const existing = new Set(buildLedger(before).problems);
+  return buildLedger(after).problems.filter((p) => !existing.has(p));
+}
+
+/**
+ * Make the holding match its ledger: quantity, AUD and native cost base and
+ * first purchase date. The value keeps the same unit price, so buying or
+ * selling units moves it straight away; a history row records the change.
+ */
+async function syncHoldingFromLedger(
+  supabase: SupabaseServerClient,
+  holding: LedgerHolding,
+  transactions: InvestmentTransactionRecord[],
+  partnershipId: string
+) {
+  if (transactions.length === 0) return;
+  const ledger = buildLedger(transactions);
+
+  const fields: Record<string, unknown> = {
+    quantity: ledger.quantity,
+    purchase_value_cents: ledger.costBaseCents,
+    native_purchase_value_cents: isForeignCurrency(holding.currency_code) ? ledger.nativeCostBaseCents : null,
+    purchase_date: ledger.firstAcquiredOn ?? holding.purchase_date,
+    updated_at: new Date().toISOString(),
+  };
+
+  const previousUnits = holding.quantity ? Number(holding.quantity) : 0;
+  const valueChanged = previousUnits > 0 && ledger.quantity !== previousUnits;
+  if (valueChanged) {
+    const scale = ledger.quantity / previousUnits;
+    fields.current_value_cents = Math.round(holding.current_value_cents * scale);
+    fields.native_value_cents = holding.native_value_cents === null
+      ? null
+      : Math.round(holding.native_value_cents * scale);
+  }
+
+  await supabase.from("investments").update(fields).eq("id", holding.id);
+
+  if (valueChanged) {
+    await supabase.from("investment_history").insert({
+      investment_id: holding.id,
+      value_cents: fields.current_value_cents,
+      native_value_cents: fields.native_value_cents,
+    });
+    await upsertInvestmentNetWorth(supabase, partnershipId);
+  }
+}
+
+// =====================================================
+// LEDGER
+// =====================================================
+
+/**
+ * Record a buy, sell, dividend, DRP or split. Amounts are entered in the
+ * holding's currency and converted to AUD at the trade date's rate. Entries
+ * that would sell units the holding doesn't have are refused.
+ */
+export async function addInvestmentTransaction(investmentId: string, data: InvestmentTransactionInput) {
+  const idParsed = z.string().uuid().safeParse(investmentId);
+  if (!idParsed.success) return { error: "Invalid investment ID" };
+  const parsed = investmentTransactionSchema.safeParse(data);
+  if (!parsed.success) return { error: "Invalid input: " + parsed.error.issues.map(i => i.message).join(", ") };
+  data = parsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  const { data: holding } = await supabase
+    .from("investments")
+    .select(HOLDING_COLUMNS)
+    .eq("id", investmentId)
+    .eq("partnership_id", partnershipId)
+    .maybeSingle();
+
+  if (!holding) {
+    return { error: "Investment not found" };
+  }
+
+  const nativeAmount = "amount_cents" in data ? data.amount_cents : 0;
+  const nativeFees = "fees_cents" in data ? data.fees_cents ?? 0 : 0;
+  let amountCents = nativeAmount;
+  let feesCents = nativeFees;
+  let nativeAmountCents: number | null = null;
+
+  if (isForeignCurrency(holding.currency_code) && data.transaction_type !== "split") {
+    const rate = await getFxRateOn(supabase, holding.currency_code, data.trade_date);
+    if (rate === null) {
+      return { error: `Couldn't get a ${holding.currency_code} exchange rate for ${data.trade_date}. Try again later.` };
+    }
+    amountCents = toAudCents(nativeAmount, rate);
+    feesCents = toAudCents(nativeFees, rate);
+    nativeAmountCents = nativeAmount;
+  }
+
+  const row = {
+    investment_id: investmentId,
+    partnership_id: partnershipId,
+    created_by: user.id,
+    transaction_type: data.transaction_type,
+    trade_date: data.trade_date,
+    quantity: "quantity" in data ? data.quantity : null,
+    amount_cents: amountCents,
+    fees_cents: feesCents,
+    native_amount_cents: nativeAmountCents,
+    split_ratio: "split_ratio" in data ? data.split_ratio : null,
+    parcel_allocations: "parcel_allocations" in data && data.parcel_allocations?.length ? data.parcel_allocations : null,
+    notes: data.notes || null,
+  };
+
+  const existing = await loadTransactions(supabase, investmentId);
+  const candidate: InvestmentTransactionRecord = { ...row, id: "pending", created_at: new Date().toISOString() };
+  const problems = newProblems(existing, [...existing, candidate]);
+  if (problems.length > 0) {
+    return { error: problems[0] };
+  }
+
+  const { data: inserted, error } = await supabase
+    .from("investment_transactions")
+    .insert(row)
+    .select("id, investment_id, transaction_type, trade_date, quantity, amount_cents, fees_cents, native_amount_cents, split_ratio, parcel_allocations, created_at")
+    .single();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to record transaction") };
+  }
+
+  await syncHoldingFromLedger(
+    supabase,
+    holding,
+    [...existing, { ...candidate, id: inserted.id, created_at: inserted.created_at }],
+    partnershipId
+  );
+
+  revalidatePath("/invest");
+  revalidatePath(`/invest/${investmentId}`);
+  return { success: true, data: inserted };
+}
+
+/**
+ * Remove a ledger entry. Refused if a later sell would then be selling
+ * units that were never bought.
+ */
+export async function deleteInvestmentTransaction(transactionId: string) {
+  const idParsed = z.string().uuid().safeParse(transactionId);
+  if (!idParsed.success) return { error: "Invalid transaction ID" };
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  const { data: transaction } = await supabase
+    .from("investment_transactions")
+    .select("id, investment_id")
+    .eq("id", transactionId)
+    .eq("partnership_id", partnershipId)
+    .maybeSingle();
+
+  if (!transaction) {
+    return { error: "Transaction not found" };
+  }
+
+  const { data: holding } = await supabase
+    .from("investments")
+    .select(HOLDING_COLUMNS)
+    .eq("id", transaction.investment_id)
+    .eq("partnership_id", partnershipId)
+    .maybeSingle();
+
+  if (!holding) {
+    return { error: "Investment not found" };
+  }
+
+  const existing = await loadTransactions(supabase, transaction.investment_id);
+  const remaining = existing.filter((tx) => tx.id !== transactionId);
+  const problems = newProblems(existing, remaining);
+  if (problems.length > 0) {
+    return { error: `Can't delete this entry: ${problems[0]}` };
+  }
+
+  const { error } = await supabase
+    .from("investment_transactions")
+    .delete()
+    .eq("id", transactionId)
+    .eq("partnership_id", partnershipId);
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to delete transaction") };
+  }
+
+  await syncHoldingFromLedger(supabase, holding, remaining, partnershipId);
+
+  revalidatePath("/invest");
+  revalidatePath(`/invest/${transaction.investment_id}`);
+  return { success: true };
+}
@@ -0,0 +1,77 @@
+"use server";
+
+import { z } from "zod/v4";
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { demoActionGuard } from "@/lib/demo-guard";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { applyPricePoints } from "@/lib/price-store";
+
+// =====================================================
+// ZOD SCHEMAS
+// =====================================================
+
+const recordPriceSchema = z.object({
+  price_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  price: z.number().positive().max(1_000_000_000),
+});
+
+// =====================================================
+// MANUAL PRICES
+// =====================================================
+
+/**
+ * Record a unit price for a holding on a date, in the holding's currency.
+ * Fills that day's history if it has none and, when it's the newest price,
+ * becomes the holding's current value.
+ */
+export async function recordInvestmentPrice(investmentId: string, data: { price_date: string; price: number }) {
+  const idParsed = z.string().uuid().safeParse(investmentId);
+  if (!idParsed.success) return { error: "Invalid investment ID" };
+  const parsed = recordPriceSchema.safeParse(data);
+  if (!parsed.success) return { error: "Invalid input: " + parsed.error.issues.map(i => i.message).join(", ") };
+  data = parsed.data;
+
+  if (data.price_date > new Date().toISOString().split("T")[0]) {
+    return { error: "Price date can't be in the future" };
+  }
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  const { data: holding } = await supabase
+    .from("investments")
+    .select("id, partnership_id, currency_code, quantity")
+    .eq("id", investmentId)
+    .eq("partnership_id", partnershipId)
+    .maybeSingle();
+
+  if (!holding) {
+    return { error: "Investment not found" };
+  }
+
+  const result = await applyPricePoints(
+    supabase,
+    { ...holding, quantity: holding.quantity === null ? null : Number(holding.quantity) },
+    [{ date: data.price_date, price: data.price }],
+    "manual"
+  );
+
+  if (result.errors.length > 0 && result.historyAdded === 0 && !result.valueUpdated) {
+    return { error: result.errors[0] };
+  }
+
+  revalidatePath("/invest");
+  revalidatePath(`/invest/${investmentId}`);
+  return { success: true, historyAdded: result.historyAdded, valueUpdated: result.valueUpdated };
+}
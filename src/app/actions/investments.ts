@@ -3,17 +3,23 @@
 import { z } from "zod/v4";
 import { createClient } from "@/utils/supabase/server";
 import { revalidatePath } from "next/cache";
-import { fetchInvestmentPrice, fetchMultipleCryptoPrices } from "@/lib/price-apis";
 import { demoActionGuard } from "@/lib/demo-guard";
 import { getUserPartnershipId } from "@/lib/get-user-partnership";
 import { upsertInvestmentNetWorth } from "@/lib/net-worth-helpers";
 import { safeErrorMessage } from "@/lib/safe-error";
+import { BASE_CURRENCY, isForeignCurrency, toAudCents } from "@/lib/fx-rates";
+import { getFxRateOn, saveFxRates } from "@/lib/fx-rate-store";
+import { PRICE_PROVIDER_CHOICES, resolvePriceProvider } from "@/lib/price-providers";
+import { quoteHoldings } from "@/lib/price-store";
 
 // =====================================================
 // ZOD SCHEMAS
 // =====================================================
 
 const assetTypeSchema = z.enum(["stock", "etf", "crypto", "property", "other"]);
+const currencyCodeSchema = z.string().regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter code").transform((c) => c.toUpperCase());
+const purchaseDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+const priceProviderSchema = z.enum(PRICE_PROVIDER_CHOICES);
 
 const createInvestmentSchema = z.object({
   asset_type: assetTypeSchema,
@@ -22,6 +28,9 @@ const createInvestmentSchema = z.object({
   quantity: z.number().min(0).max(1_000_000_000).optional(),
   purchase_value_cents: z.number().int().min(0).max(100_000_000_000_00).optional(), // max $100B in cents
   current_value_cents: z.number().int().min(0).max(100_000_000_000_00),
+  currency_code: currencyCodeSchema.optional(),
+  purchase_date: purchaseDateSchema.optional(),
+  price_provider: priceProviderSchema.optional(),
   notes: z.string().max(1000).optional(),
 });
 
@@ -32,9 +41,111 @@ const updateInvestmentSchema = z.object({
   quantity: z.number().min(0).max(1_000_000_000).optional(),
   purchase_value_cents: z.number().int().min(0).max(100_000_000_000_00).optional(),
   current_value_cents: z.number().int().min(0).max(100_000_000_000_00),
+  currency_code: currencyCodeSchema.optional(),
+  purchase_date: purchaseDateSchema.optional(),
+  price_provider: priceProviderSchema.optional(),
   notes: z.string().max(1000).optional(),
 });
 
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+function todayDateStr(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+/**
+ * Convert a holding entered in its own currency to the AUD figures the rest
+ * of the app sums: the value at today's rate and the cost base at the rate
+ * on the purchase date (today when there isn't one). AUD holdings pass
+ * straight through with no native values.
+ */
+async function resolveCurrencyValues(
+  supabase: SupabaseServerClient,
+  currencyCode: string,
+  currentValueCents: number,
+  purchaseValueCents: number | undefined,
+  purchaseDate: string | undefined
+): Promise<
+  | { error: string }
+  | {
+      current_value_cents: number;
+      purchase_value_cents: number | undefined;
+      native_value_cents: number | null;
+      native_purchase_value_cents: number | null;
+    }
+> {
+  if (!isForeignCurrency(currencyCode)) {
+    return {
+      current_value_cents: currentValueCents,
+      purchase_value_cents: purchaseValueCents,
+      native_value_cents: null,
+      native_purchase_value_cents: null,
+    };
+  }
+
+  const today = todayDateStr();
+  const currentRate = await getFxRateOn(supabase, currencyCode, today);
+  const purchaseRate = purchaseDate && purchaseDate < today
+    ? await getFxRateOn(supabase, currencyCode, purchaseDate)
+    : currentRate;
+  if (currentRate === null || purchaseRate === null) {
+    return { error: `Couldn't get a ${currencyCode} exchange rate. Try again later.` };
+  }
+
+  return {
+    current_value_cents: toAudCents(currentValueCents, currentRate),
+    purchase_value_cents: purchaseValueCents !== undefined
+      ? toAudCents(purchaseValueCents, purchaseRate)
+      : undefined,
+    native_value_cents: currentValueCents,
+    native_purchase_value_cents: purchaseValueCents ?? null,
+  };
+}
+
+/**
+ * Fields to update after fetching a price. The quote currency becomes the
+ * holding's currency; when a holding first turns out to be foreign, its AUD
+ * cost base is converted back at the purchase-date rate so the FX breakdown
+ * has a native cost to work from.
+ */
+async function pricedInvestmentFields(
+  supabase: SupabaseServerClient,
+  investment: {
+    currency_code: string;
+    purchase_value_cents: number | null;
+    native_purchase_value_cents: number | null;
+    purchase_date: string | null;
+    created_at: string;
+  },
+  price: { valueCents: number; currencyCode: string; nativeValueCents: number; fxRate: number }
+) {
+  const foreign = isForeignCurrency(price.currencyCode);
+  const fields: Record<string, unknown> = {
+    current_value_cents: price.valueCents,
+    currency_code: price.currencyCode,
+    native_value_cents: foreign ? price.nativeValueCents : null,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (!foreign) {
+    fields.native_purchase_value_cents = null;
+    return fields;
+  }
+
+  await saveFxRates([{ currency_code: price.currencyCode, rate_date: todayDateStr(), aud_rate: price.fxRate }]);
+
+  const currencyChanged = investment.currency_code !== price.currencyCode;
+  if (investment.purchase_value_cents && (currencyChanged || investment.native_purchase_value_cents === null)) {
+    const purchaseDate = investment.purchase_date ?? investment.created_at.split("T")[0];
+    const purchaseRate = await getFxRateOn(supabase, price.currencyCode, purchaseDate);
+    fields.native_purchase_value_cents = purchaseRate
+      ? Math.round(investment.purchase_value_cents / purchaseRate)
+      : null;
+  }
+
+  return fields;
+}
+
 export async function createInvestment(data: {
   asset_type: "stock" | "etf" | "crypto" | "property" | "other";
   name: string;
@@ -42,6 +153,9 @@ export async function createInvestment(data: {
   quantity?: number;
   purchase_value_cents?: number;
   current_value_cents: number;
+  currency_code?: string;
+  purchase_date?: string;
+  price_provider?: (typeof PRICE_PROVIDER_CHOICES)[number];
   notes?: string;
 }) {
   const parsed = createInvestmentSchema.safeParse(data);
@@ -71,6 +185,17 @@ export async function createInvestment(data: {
     return { error: "Invalid purchase value" };
   }
 
+  // Amounts are entered in the holding's currency
+  const currencyCode = data.currency_code ?? BASE_CURRENCY;
+  const values = await resolveCurrencyValues(
+    supabase,
+    currencyCode,
+    data.current_value_cents,
+    data.purchase_value_cents,
+    data.purchase_date
+  );
+  if ("error" in values) return { error: values.error };
+
   const { data: investment, error } = await supabase
     .from("investments")
     .insert({
@@ -79,8 +204,10 @@ export async function createInvestment(data: {
       name: data.name,
       ticker_symbol: data.ticker_symbol,
       quantity: data.quantity,
-      purchase_value_cents: data.purchase_value_cents,
-      current_value_cents: data.current_value_cents,
+      ...values,
+      currency_code: currencyCode,
+      purchase_date: data.purchase_date ?? null,
+      price_provider: data.price_provider ?? "auto",
       notes: data.notes,
     })
     .select()
@@ -96,7 +223,8 @@ export async function createInvestment(data: {
       .from("investment_history")
       .insert({
         investment_id: investment.id,
-        value_cents: data.current_value_cents,
+        value_cents: values.current_value_cents,
+        native_value_cents: values.native_value_cents,
       });
   }
 
@@ -111,6 +239,9 @@ export async function updateInvestment(investmentId: string, data: {
   quantity?: number;
   purchase_value_cents?: number;
   current_value_cents: number;
+  currency_code?: string;
+  purchase_date?: string;
+  price_provider?: (typeof PRICE_PROVIDER_CHOICES)[number];
   notes?: string;
 }) {
   const idParsed = z.string().uuid().safeParse(investmentId);
@@ -143,7 +274,7 @@ export async function updateInvestment(investmentId: string, data: {
   // Get the current investment — verify ownership via partnership_id
   const { data: currentInvestment } = await supabase
     .from("investments")
-    .select("current_value_cents")
+    .select("current_value_cents, native_value_cents, currency_code")
     .eq("id", investmentId)
     .eq("partnership_id", partnershipId)
     .maybeSingle();
@@ -152,6 +283,32 @@ export async function updateInvestment(investmentId: string, data: {
     return { error: "Investment not found" };
   }
 
+  // Amounts are entered in the holding's currency; keep the existing one if not given
+  const currencyCode = data.currency_code ?? currentInvestment.currency_code ?? BASE_CURRENCY;
+  const values = await resolveCurrencyValues(
+    supabase,
+    currencyCode,
+    data.current_value_cents,
+    data.purchase_value_cents,
+    data.purchase_date
+  );
+  if ("error" in values) return { error: values.error };
+
+  // Holdings with a transaction ledger take units and cost base from it
+  const { count: ledgerCount } = await supabase
+    .from("investment_transactions")
+    .select("id", { count: "exact", head: true })
+    .eq("investment_id", investmentId);
+  const { purchase_value_cents, native_purchase_value_cents, ...valueFields } = values;
+  const holdingFields = ledgerCount
+    ? {}
+    : {
+        quantity: data.quantity,
+        purchase_value_cents,
+        native_purchase_value_cents,
+        purchase_date: data.purchase_date ?? null,
+      };
+
   // Update investment — explicit fields only, no spread from user input
   const { error: updateError } = await supabase
     .from("investments")
@@ -159,9 +316,10 @@ export async function updateInvestment(investmentId: string, data: {
       asset_type: data.asset_type,
       name: data.name,
       ticker_symbol: data.ticker_symbol,
-      quantity: data.quantity,
-      purchase_value_cents: data.purchase_value_cents,
-      current_value_cents: data.current_value_cents,
+      ...holdingFields,
+      ...valueFields,
+      currency_code: currencyCode,
+      ...(data.price_provider && { price_provider: data.price_provider }),
       notes: data.notes,
       updated_at: new Date().toISOString(),
     })
@@ -173,12 +331,16 @@ export async function updateInvestment(investmentId: string, data: {
   }
 
   // If value changed, add to history
-  if (currentInvestment && currentInvestment.current_value_cents !== data.current_value_cents) {
+  if (
+    currentInvestment.current_value_cents !== values.current_value_cents ||
+    currentInvestment.native_value_cents !== values.native_value_cents
+  ) {
     await supabase
       .from("investment_history")
       .insert({
         investment_id: investmentId,
-        value_cents: data.current_value_cents,
+        value_cents: values.current_value_cents,
+        native_value_cents: values.native_value_cents,
       });
   }
 
@@ -249,7 +411,7 @@ export async function updateInvestmentPriceFromAPI(investmentId: string) {
   // Get investment details — verify ownership via partnership_id
   const { data: investment, error: fetchError } = await supabase
     .from("investments")
-    .select("asset_type, ticker_symbol, quantity, name, partnership_id")
+    .select("id, asset_type, ticker_symbol, quantity, name, partnership_id, price_provider, currency_code, purchase_value_cents, native_purchase_value_cents, purchase_date, created_at")
     .eq("id", investmentId)
     .eq("partnership_id", partnershipId)
     .maybeSingle();
@@ -258,28 +420,18 @@ export async function updateInvestmentPriceFromAPI(investmentId: string) {
     return { error: "Investment not found" };
   }
 
-  if (!investment.ticker_symbol) {
-    return { error: "No ticker symbol set - cannot fetch price" };
-  }
-
-  // Fetch price from API
-  const result = await fetchInvestmentPrice(
-    investment.asset_type,
-    investment.ticker_symbol,
-    investment.quantity,
-  );
-
-  if (!result) {
-    return { error: "Failed to fetch price from API. Check ticker symbol and try again." };
+  // Fetch price from the holding's provider
+  const quoted = (await quoteHoldings(supabase, [investment])).get(investmentId);
+  if (!quoted || "error" in quoted) {
+    return { error: quoted?.error ?? "Failed to fetch price" };
   }
+  const result = quoted.quote;
 
   // Update investment — scoped to partnership
+  const fields = await pricedInvestmentFields(supabase, investment, result);
   const { error: updateError } = await supabase
     .from("investments")
-    .update({
-      current_value_cents: result.valueCents,
-      updated_at: new Date().toISOString(),
-    })
+    .update(fields)
     .eq("id", investmentId)
     .eq("partnership_id", partnershipId);
 
@@ -293,6 +445,7 @@ export async function updateInvestmentPriceFromAPI(investmentId: string) {
     .insert({
       investment_id: investmentId,
       value_cents: result.valueCents,
+      native_value_cents: fields.native_value_cents,
     });
 
   // Update net worth snapshot with new investment total
@@ -383,70 +536,45 @@ export async function refreshAllPrices() {
   // Fetch all investments with ticker symbols
   const { data: investments } = await supabase
     .from("investments")
-    .select("id, asset_type, ticker_symbol, quantity, name")
+    .select("id, asset_type, ticker_symbol, quantity, name, partnership_id, price_provider, currency_code, purchase_value_cents, native_purchase_value_cents, purchase_date, created_at")
     .eq("partnership_id", partnershipId)
     .not("ticker_symbol", "is", null);
 
-  if (!investments || investments.length === 0) {
+  // Manual holdings are priced from price files, not refreshed
+  const live = (investments || []).filter(
+    (i) => resolvePriceProvider(i.asset_type, i.price_provider) !== "manual"
+  );
+  if (live.length === 0) {
     return { refreshed: 0, errors: [] };
   }
 
-  // Separate crypto (CoinGecko batch) from stocks/ETFs (Yahoo Finance)
-  const cryptoInvestments = investments.filter((i) => i.asset_type === "crypto");
-  const stockInvestments = investments.filter((i) => i.asset_type === "stock" || i.asset_type === "etf");
-
   let refreshed = 0;
   const errors: string[] = [];
 
-  // Batch crypto via CoinGecko (single API call for all)
-  if (cryptoInvestments.length > 0) {
-    const symbols = cryptoInvestments.map((i) => i.ticker_symbol!);
-    const prices = await fetchMultipleCryptoPrices(symbols);
-
-    for (const inv of cryptoInvestments) {
-      const priceData = prices.get(inv.ticker_symbol!.toUpperCase());
-      if (priceData) {
-        const totalValue = inv.quantity ? priceData.price * inv.quantity : priceData.price;
-        const valueCents = Math.round(totalValue * 100);
-
-        await supabase
-          .from("investments")
-          .update({ current_value_cents: valueCents, updated_at: new Date().toISOString() })
-          .eq("id", inv.id);
-
-        await supabase
-          .from("investment_history")
-          .insert({ investment_id: inv.id, value_cents: valueCents });
-
-        refreshed++;
-      } else {
-        errors.push(`${inv.name}: price not found`);
-      }
+  // One batch per provider (CoinGecko prices every coin in a single call)
+  const quotes = await quoteHoldings(supabase, live);
+  for (const inv of live) {
+    const quoted = quotes.get(inv.id);
+    if (!quoted || "error" in quoted) {
+      errors.push(`${inv.name}: ${quoted?.error ?? "failed to fetch price"}`);
+      continue;
     }
-  }
-
-  // Stock/ETF refreshes via Yahoo Finance (free, no rate limit)
-  for (const inv of stockInvestments) {
-    const result = await fetchInvestmentPrice(
-      inv.asset_type,
-      inv.ticker_symbol,
-      inv.quantity,
-    );
 
-    if (result) {
-      await supabase
-        .from("investments")
-        .update({ current_value_cents: result.valueCents, updated_at: new Date().toISOString() })
-        .eq("id", inv.id);
+    const fields = await pricedInvestmentFields(supabase, inv, quoted.quote);
+    await supabase
+      .from("investments")
+      .update(fields)
+      .eq("id", inv.id);
 
-      await supabase
-        .from("investment_history")
-        .insert({ investment_id: inv.id, value_cents: result.valueCents });
+    await supabase
+      .from("investment_history")
+      .insert({
+        investment_id: inv.id,
+        value_cents: quoted.quote.valueCents,
+        native_value_cents: fields.native_value_cents,
+      });
 
-      refreshed++;
-    } else {
-      errors.push(`${inv.name}: failed to fetch price`);
-    }
+    refreshed++;
   }
 
   // Update net worth snapshot
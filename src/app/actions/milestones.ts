@@ -0,0 +1,272 @@
+"use server";
+
+import { z } from "zod/v4";
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { demoActionGuard } from "@/lib/demo-guard";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { safeErrorMessage } from "@/lib/safe-error";
+
+// =====================================================
+// ZOD SCHEMAS
+// =====================================================
+
+const milestoneSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().max(1000).optional(),
+  target_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  estimated_cost_cents: z.number().int().min(0).max(100_000_000_000_00),
+  estimated_monthly_impact_cents: z.number().int().min(-100_000_000_00).max(100_000_000_00),
+  impact_months: z.number().int().min(1).max(1200).nullable(),
+  linked_goal_id: z.string().uuid().nullable(),
+  icon: z.string().min(1).max(50),
+  color: z.string().min(1).max(50),
+  preparation_checklist: z
+    .array(z.object({ item: z.string().trim().min(1).max(200), done: z.boolean() }))
+    .max(20),
+});
+
+export type MilestoneInput = z.infer<typeof milestoneSchema>;
+
+/** The linked goal must belong to the same partnership */
+async function goalBelongsToPartnership(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  goalId: string,
+  partnershipId: string
+): Promise<boolean> {
+  const { data: goal } = await supabase
+    .from("savings_goals")
+    .select("id")
+    .eq("id", goalId)
+    .eq("partnership_id", partnershipId)
+    .maybeSingle();
+
+  return !!goal;
+}
+
+function milestoneFields(data: MilestoneInput) {
+  return {
+    title: data.title,
+    description: data.description || null,
+    target_date: data.target_date,
+    estimated_cost_cents: data.estimated_cost_cents,
+    estimated_monthly_impact_cents: data.estimated_monthly_impact_cents,
+    // A monthly impact of zero has no duration
+    impact_months: data.estimated_monthly_impact_cents === 0 ? null : data.impact_months,
+    linked_goal_id: data.linked_goal_id,
+    icon: data.icon,
+    color: data.color,
+    preparation_checklist: data.preparation_checklist,
+  };
+}
+
+export async function createMilestone(data: MilestoneInput) {
+  const parsed = milestoneSchema.safeParse(data);
+  if (!parsed.success) return { error: "Invalid input: " + parsed.error.issues.map(i => i.message).join(", ") };
+  data = parsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  if (data.linked_goal_id && !(await goalBelongsToPartnership(supabase, data.linked_goal_id, partnershipId))) {
+    return { error: "Linked goal not found" };
+  }
+
+  const { data: milestone, error } = await supabase
+    .from("milestones")
+    .insert({
+      partnership_id: partnershipId,
+      created_by: user.id,
+      ...milestoneFields(data),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to add milestone") };
+  }
+
+  revalidatePath("/plan");
+  return { success: true, data: milestone };
+}
+
+export async function updateMilestone(milestoneId: string, data: MilestoneInput) {
+  const idParsed = z.string().uuid().safeParse(milestoneId);
+  if (!idParsed.success) return { error: "Invalid milestone ID" };
+  const dataParsed = milestoneSchema.safeParse(data);
+  if (!dataParsed.success) return { error: "Invalid input: " + dataParsed.error.issues.map(i => i.message).join(", ") };
+  data = dataParsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  if (data.linked_goal_id && !(await goalBelongsToPartnership(supabase, data.linked_goal_id, partnershipId))) {
+    return { error: "Linked goal not found" };
+  }
+
+  const { data: updated, error } = await supabase
+    .from("milestones")
+    .update(milestoneFields(data))
+    .eq("id", milestoneId)
+    .eq("partnership_id", partnershipId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to update milestone") };
+  }
+  if (!updated) {
+    return { error: "Milestone not found" };
+  }
+
+  revalidatePath("/plan");
+  return { success: true };
+}
+
+export async function deleteMilestone(milestoneId: string) {
+  const idParsed = z.string().uuid().safeParse(milestoneId);
+  if (!idParsed.success) return { error: "Invalid milestone ID" };
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  const { data: deleted, error } = await supabase
+    .from("milestones")
+    .delete()
+    .eq("id", milestoneId)
+    .eq("partnership_id", partnershipId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to delete milestone") };
+  }
+  if (!deleted) {
+    return { error: "Milestone not found" };
+  }
+
+  revalidatePath("/plan");
+  return { success: true };
+}
+
+/** Mark a milestone as happened (it drops out of projections) or undo that */
+export async function setMilestoneCompleted(milestoneId: string, completed: boolean) {
+  const idParsed = z.string().uuid().safeParse(milestoneId);
+  if (!idParsed.success) return { error: "Invalid milestone ID" };
+  const completedParsed = z.boolean().safeParse(completed);
+  if (!completedParsed.success) return { error: "Invalid input" };
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  const { data: updated, error } = await supabase
+    .from("milestones")
+    .update({
+      is_completed: completed,
+      completed_at: completed ? new Date().toISOString() : null,
+    })
+    .eq("id", milestoneId)
+    .eq("partnership_id", partnershipId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to update milestone") };
+  }
+  if (!updated) {
+    return { error: "Milestone not found" };
+  }
+
+  revalidatePath("/plan");
+  return { success: true };
+}
+
+export async function toggleMilestoneChecklistItem(milestoneId: string, itemIndex: number) {
+  const idParsed = z.string().uuid().safeParse(milestoneId);
+  if (!idParsed.success) return { error: "Invalid milestone ID" };
+  const indexParsed = z.number().int().min(0).safeParse(itemIndex);
+  if (!indexParsed.success) return { error: "Invalid checklist item" };
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  const { data: milestone } = await supabase
+    .from("milestones")
+    .select("preparation_checklist")
+    .eq("id", milestoneId)
+    .eq("partnership_id", partnershipId)
+    .maybeSingle();
+
+  if (!milestone) {
+    return { error: "Milestone not found" };
+  }
+
+  const checklist = (milestone.preparation_checklist as { item: string; done: boolean }[]) || [];
+  if (itemIndex >= checklist.length) {
+    return { error: "Invalid checklist item" };
+  }
+  checklist[itemIndex] = { ...checklist[itemIndex], done: !checklist[itemIndex].done };
+
+  const { error } = await supabase
+    .from("milestones")
+    .update({ preparation_checklist: checklist })
+    .eq("id", milestoneId)
+    .eq("partnership_id", partnershipId);
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to update checklist") };
+  }
+
+  revalidatePath("/plan");
+  return { success: true };
+}
@@ -40,6 +40,12 @@ export async function saveManualPartner(data: ManualPartnerData) {
     return { success: false, error: "No partnership found" };
   }
 
+  const { data: existing } = await supabase
+    .from("partnerships")
+    .select("manual_partner_name")
+    .eq("id", membership.partnership_id)
+    .maybeSingle();
+
   const { error } = await supabase
     .from("partnerships")
     .update({
@@ -55,10 +61,12 @@ export async function saveManualPartner(data: ManualPartnerData) {
     return { success: false, error: safeErrorMessage(error, "Failed to save manual partner") };
   }
 
-  auditLog({
+  // Editing an existing manual partner changes the partnership rather than adding one
+  await auditLog({
     userId: user.id,
-    action: AuditAction.PARTNER_ADDED,
-    details: { partnerName: data.name, partnershipId: membership.partnership_id },
+    action: existing?.manual_partner_name ? AuditAction.PARTNERSHIP_CHANGED : AuditAction.PARTNER_ADDED,
+    details: { partnerName: data.name },
+    partnershipId: membership.partnership_id,
   });
 
   revalidatePath("/settings/partner");
@@ -106,10 +114,10 @@ export async function removeManualPartner() {
     return { success: false, error: safeErrorMessage(partnerError, "Failed to remove manual partner") };
   }
 
-  auditLog({
+  await auditLog({
     userId: user.id,
     action: AuditAction.PARTNER_REMOVED,
-    details: { partnershipId: membership.partnership_id },
+    partnershipId: membership.partnership_id,
   });
 
   // Soft-delete all manual partner income sources
@@ -0,0 +1,181 @@
+"use server";
+
+import { z } from "zod/v4";
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { demoActionGuard } from "@/lib/demo-guard";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { safeErrorMessage } from "@/lib/safe-error";
+
+// =====================================================
+// ZOD SCHEMAS
+// =====================================================
+
+const MAX_CENTS = 100_000_000_000_00;
+const label = z.string().trim().min(1).max(100);
+const timing = {
+  starts_in_months: z.number().int().min(0).max(600),
+  months: z.number().int().min(1).max(600).nullable(),
+};
+
+const scenarioChangeSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("income"),
+    label,
+    monthly_cents: z.number().int().min(-MAX_CENTS).max(MAX_CENTS),
+    ...timing,
+  }),
+  z.object({
+    type: z.literal("work_hours"),
+    label,
+    percent: z.number().min(0).max(200),
+    monthly_income_cents: z.number().int().min(0).max(MAX_CENTS).nullable(),
+    ...timing,
+  }),
+  z.object({
+    type: z.literal("expense"),
+    label,
+    monthly_cents: z.number().int().min(-MAX_CENTS).max(MAX_CENTS),
+    ...timing,
+  }),
+  z.object({
+    type: z.literal("goal"),
+    label,
+    target_cents: z.number().int().min(1).max(MAX_CENTS),
+    deadline: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable(),
+  }),
+  z.object({
+    type: z.literal("sell_investment"),
+    label,
+    amount_cents: z.number().int().min(1).max(MAX_CENTS),
+  }),
+]);
+
+const scenarioSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  notes: z.string().max(1000).optional(),
+  changes: z.array(scenarioChangeSchema).max(30),
+});
+
+export type ScenarioInput = z.infer<typeof scenarioSchema>;
+
+// =====================================================
+// SCENARIOS
+// =====================================================
+
+export async function createScenario(data: ScenarioInput) {
+  const parsed = scenarioSchema.safeParse(data);
+  if (!parsed.success) return { error: "Invalid input: " + parsed.error.issues.map(i => i.message).join(", ") };
+  data = parsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find or create budget" };
+  }
+
+  const { data: scenario, error } = await supabase
+    .from("plan_scenarios")
+    .insert({
+      partnership_id: partnershipId,
+      created_by: user.id,
+      name: data.name,
+      notes: data.notes || null,
+      changes: data.changes,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to save scenario") };
+  }
+
+  revalidatePath("/plan");
+  return { success: true, data: scenario };
+}
+
+export async function updateScenario(scenarioId: string, data: ScenarioInput) {
+  const idParsed = z.string().uuid().safeParse(scenarioId);
+  if (!idParsed.success) return { error: "Invalid scenario ID" };
+  const dataParsed = scenarioSchema.safeParse(data);
+  if (!dataParsed.success) return { error: "Invalid input: " + dataParsed.error.issues.map(i => i.message).join(", ") };
+  data = dataParsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  const { data: updated, error } = await supabase
+    .from("plan_scenarios")
+    .update({
+      name: data.name,
+      notes: data.notes || null,
+      changes: data.changes,
+    })
+    .eq("id", scenarioId)
+    .eq("partnership_id", partnershipId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to update scenario") };
+  }
+  if (!updated) {
+    return { error: "Scenario not found" };
+  }
+
+  revalidatePath("/plan");
+  return { success: true };
+}
+
+export async function deleteScenario(scenarioId: string) {
+  const idParsed = z.string().uuid().safeParse(scenarioId);
+  if (!idParsed.success) return { error: "Invalid scenario ID" };
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  const { data: deleted, error } = await supabase
+    .from("plan_scenarios")
+    .delete()
+    .eq("id", scenarioId)
+    .eq("partnership_id", partnershipId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to delete scenario") };
+  }
+  if (!deleted) {
+    return { error: "Scenario not found" };
+  }
+
+  revalidatePath("/plan");
+  return { success: true };
+}
@@ -0,0 +1,349 @@
+"use server";
+
+import { z } from "zod/v4";
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { demoActionGuard } from "@/lib/demo-guard";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { upsertInvestmentNetWorth } from "@/lib/net-worth-helpers";
+import { safeErrorMessage } from "@/lib/safe-error";
+import { SUPER_CONTRIBUTION_TYPES, calculateSuperTotal } from "@/lib/super-calculations";
+
+// =====================================================
+// ZOD SCHEMAS
+// =====================================================
+
+const MAX_CENTS = 100_000_000_000_00;
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+const superAccountSchema = z.object({
+  fund_name: z.string().trim().min(1).max(100),
+  balance_cents: z.number().int().min(0).max(MAX_CENTS),
+  balance_date: isoDate,
+  notes: z.string().max(1000).optional(),
+});
+
+const superAccountDetailsSchema = superAccountSchema.pick({ fund_name: true, notes: true });
+
+const superBalanceSchema = z.object({
+  recorded_on: isoDate,
+  balance_cents: z.number().int().min(0).max(MAX_CENTS),
+});
+
+const superContributionSchema = z.object({
+  contribution_date: isoDate,
+  amount_cents: z.number().int().min(1).max(MAX_CENTS),
+  contribution_type: z.enum(SUPER_CONTRIBUTION_TYPES),
+  notes: z.string().max(500).optional(),
+});
+
+export type SuperAccountInput = z.infer<typeof superAccountSchema>;
+export type SuperAccountDetailsInput = z.infer<typeof superAccountDetailsSchema>;
+export type SuperBalanceInput = z.infer<typeof superBalanceSchema>;
+export type SuperContributionInput = z.infer<typeof superContributionSchema>;
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Keep profiles.super_balance_cents equal to the user's accounts (it's still
+ * read by the partner and invest pages), then refresh net worth.
+ */
+async function syncSuperTotals(
+  supabase: SupabaseServerClient,
+  userId: string,
+  partnershipId: string
+) {
+  const { data: accounts } = await supabase
+    .from("super_accounts")
+    .select("balance_cents")
+    .eq("user_id", userId);
+
+  await supabase
+    .from("profiles")
+    .update({ super_balance_cents: calculateSuperTotal(accounts || []) })
+    .eq("id", userId);
+
+  await upsertInvestmentNetWorth(supabase, partnershipId);
+
+  revalidatePath("/plan");
+  revalidatePath("/settings/fire");
+}
+
+/**
+ * Set an account's balance to its latest history entry, so back-dated
+ * entries don't overwrite a newer balance.
+ */
+async function refreshAccountBalance(supabase: SupabaseServerClient, accountId: string) {
+  const { data: latest } = await supabase
+    .from("super_balance_history")
+    .select("recorded_on, balance_cents")
+    .eq("super_account_id", accountId)
+    .order("recorded_on", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!latest) return;
+
+  await supabase
+    .from("super_accounts")
+    .update({ balance_cents: latest.balance_cents, balance_date: latest.recorded_on })
+    .eq("id", accountId);
+}
+
+/** Only the owner can change a super account or its history */
+async function findOwnAccount(supabase: SupabaseServerClient, accountId: string, userId: string) {
+  const { data: account } = await supabase
+    .from("super_accounts")
+    .select("id")
+    .eq("id", accountId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return account;
+}
+
+// =====================================================
+// ACCOUNTS
+// =====================================================
+
+export async function createSuperAccount(data: SuperAccountInput) {
+  const parsed = superAccountSchema.safeParse(data);
+  if (!parsed.success) return { error: "Invalid input: " + parsed.error.issues.map(i => i.message).join(", ") };
+  data = parsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find or create budget" };
+  }
+
+  const { data: account, error } = await supabase
+    .from("super_accounts")
+    .insert({
+      partnership_id: partnershipId,
+      user_id: user.id,
+      fund_name: data.fund_name,
+      balance_cents: data.balance_cents,
+      balance_date: data.balance_date,
+      notes: data.notes || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to add super account") };
+  }
+
+  await supabase.from("super_balance_history").insert({
+    super_account_id: account.id,
+    recorded_on: data.balance_date,
+    balance_cents: data.balance_cents,
+  });
+
+  await syncSuperTotals(supabase, user.id, partnershipId);
+  return { success: true, data: account };
+}
+
+export async function updateSuperAccount(accountId: string, data: SuperAccountDetailsInput) {
+  const idParsed = z.string().uuid().safeParse(accountId);
+  if (!idParsed.success) return { error: "Invalid super account ID" };
+  const dataParsed = superAccountDetailsSchema.safeParse(data);
+  if (!dataParsed.success) return { error: "Invalid input: " + dataParsed.error.issues.map(i => i.message).join(", ") };
+  data = dataParsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const { data: updated, error } = await supabase
+    .from("super_accounts")
+    .update({
+      fund_name: data.fund_name,
+      notes: data.notes || null,
+    })
+    .eq("id", accountId)
+    .eq("user_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to update super account") };
+  }
+  if (!updated) {
+    return { error: "Super account not found" };
+  }
+
+  revalidatePath("/plan");
+  return { success: true };
+}
+
+export async function deleteSuperAccount(accountId: string) {
+  const idParsed = z.string().uuid().safeParse(accountId);
+  if (!idParsed.success) return { error: "Invalid super account ID" };
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  // History and contributions cascade with the account
+  const { data: deleted, error } = await supabase
+    .from("super_accounts")
+    .delete()
+    .eq("id", accountId)
+    .eq("user_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to delete super account") };
+  }
+  if (!deleted) {
+    return { error: "Super account not found" };
+  }
+
+  await syncSuperTotals(supabase, user.id, partnershipId);
+  return { success: true };
+}
+
+// =====================================================
+// BALANCE HISTORY
+// =====================================================
+
+export async function recordSuperBalance(accountId: string, data: SuperBalanceInput) {
+  const idParsed = z.string().uuid().safeParse(accountId);
+  if (!idParsed.success) return { error: "Invalid super account ID" };
+  const dataParsed = superBalanceSchema.safeParse(data);
+  if (!dataParsed.success) return { error: "Invalid input: " + dataParsed.error.issues.map(i => i.message).join(", ") };
+  data = dataParsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return { error: "Could not find partnership" };
+  }
+
+  if (!(await findOwnAccount(supabase, accountId, user.id))) {
+    return { error: "Super account not found" };
+  }
+
+  // Re-entering a date replaces that day's balance
+  const { error } = await supabase
+    .from("super_balance_history")
+    .upsert(
+      {
+        super_account_id: accountId,
+        recorded_on: data.recorded_on,
+        balance_cents: data.balance_cents,
+      },
+      { onConflict: "super_account_id,recorded_on" }
+    );
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to record super balance") };
+  }
+
+  await refreshAccountBalance(supabase, accountId);
+  await syncSuperTotals(supabase, user.id, partnershipId);
+  return { success: true };
+}
+
+// =====================================================
+// CONTRIBUTIONS
+// =====================================================
+
+export async function addSuperContribution(accountId: string, data: SuperContributionInput) {
+  const idParsed = z.string().uuid().safeParse(accountId);
+  if (!idParsed.success) return { error: "Invalid super account ID" };
+  const dataParsed = superContributionSchema.safeParse(data);
+  if (!dataParsed.success) return { error: "Invalid input: " + dataParsed.error.issues.map(i => i.message).join(", ") };
+  data = dataParsed.data;
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  if (!(await findOwnAccount(supabase, accountId, user.id))) {
+    return { error: "Super account not found" };
+  }
+
+  const { data: contribution, error } = await supabase
+    .from("super_contributions")
+    .insert({
+      super_account_id: accountId,
+      contribution_date: data.contribution_date,
+      amount_cents: data.amount_cents,
+      contribution_type: data.contribution_type,
+      notes: data.notes || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to add contribution") };
+  }
+
+  revalidatePath("/plan");
+  return { success: true, data: contribution };
+}
+
+export async function deleteSuperContribution(contributionId: string) {
+  const idParsed = z.string().uuid().safeParse(contributionId);
+  if (!idParsed.success) return { error: "Invalid contribution ID" };
+
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  // RLS limits deletes to contributions on the user's own accounts
+  const { data: deleted, error } = await supabase
+    .from("super_contributions")
+    .delete()
+    .eq("id", contributionId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { error: safeErrorMessage(error, "Failed to delete contribution") };
+  }
+  if (!deleted) {
+    return { error: "Contribution not found" };
+  }
+
+  revalidatePath("/plan");
+  return { success: true };
+}
@@ -0,0 +1,313 @@
+"use server";
+
+import { z } from "zod/v4";
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import { demoActionGuard } from "@/lib/demo-guard";
+import { safeErrorMessage } from "@/lib/safe-error";
+import type { ActionResult } from "@/types/action-result";
+import { ok, fail } from "@/types/action-result";
+import {
+  CARD_PURCHASE_METHODS,
+  MAX_RULE_REGEX_LENGTH,
+  compileRuleRegex,
+  checkRuleRegexSafety,
+  hasRuleConditions,
+  hasRuleActions,
+  ruleMatches,
+  type RuleConditions,
+  type TransactionRule,
+} from "@/lib/transaction-rules";
+import { TAX_CATEGORIES } from "@/lib/tax-deductions";
+
+/** Most recent transactions scanned when previewing a rule */
+const PREVIEW_SCAN_LIMIT = 2000;
+const PREVIEW_SAMPLE_SIZE = 20;
+
+const conditionsSchema = z.object({
+  descriptionContains: z.string().trim().max(100).optional(),
+  descriptionRegex: z.string().trim().max(MAX_RULE_REGEX_LENGTH).optional(),
+  amountMinCents: z.number().int().min(0).optional(),
+  amountMaxCents: z.number().int().min(0).optional(),
+  direction: z.enum(["in", "out"]).optional(),
+  accountIds: z.array(z.string().uuid()).max(50).optional(),
+  cardSuffix: z.string().trim().regex(/^\d{4}$/).optional(),
+  cardPurchaseMethods: z.array(z.enum(CARD_PURCHASE_METHODS)).max(CARD_PURCHASE_METHODS.length).optional(),
+  foreignCurrency: z.string().trim().regex(/^([A-Za-z]{3}|any)$/).optional(),
+});
+
+const actionsSchema = z.object({
+  categoryId: z.string().min(1).max(100).optional(),
+  addTags: z.array(z.string().trim().min(1).max(50)).max(10).optional(),
+  share: z
+    .object({
+      isShared: z.boolean(),
+      sharePercentage: z.number().int().min(0).max(100),
+    })
+    .optional(),
+  markInternalTransfer: z.boolean().optional(),
+  note: z.string().trim().max(500).optional(),
+  taxCategory: z.enum(TAX_CATEGORIES).optional(),
+});
+
+const ruleInputSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().trim().min(1).max(100),
+  is_active: z.boolean().default(true),
+  stop_processing: z.boolean().default(false),
+  conditions: conditionsSchema,
+  actions: actionsSchema,
+});
+
+export type TransactionRuleInput = z.input<typeof ruleInputSchema>;
+
+export interface RulePreviewMatch {
+  id: string;
+  description: string;
+  amount_cents: number;
+  created_at: string;
+}
+
+export interface RulePreview {
+  matchCount: number;
+  /** How many recent transactions were checked */
+  scanned: number;
+  samples: RulePreviewMatch[];
+}
+
+/** Validate conditions beyond what zod can express. Returns an error message or null. */
+function checkConditions(conditions: RuleConditions): string | null {
+  if (!hasRuleConditions(conditions)) return "Add at least one condition";
+  if (conditions.descriptionRegex) {
+    const unsafe = checkRuleRegexSafety(conditions.descriptionRegex);
+    if (unsafe) return `Description pattern is too slow to run: ${unsafe}`;
+    if (!compileRuleRegex(conditions.descriptionRegex)) {
+      return "Description pattern is not a valid regular expression";
+    }
+  }
+  if (
+    conditions.amountMinCents != null &&
+    conditions.amountMaxCents != null &&
+    conditions.amountMinCents > conditions.amountMaxCents
+  ) {
+    return "Minimum amount must be less than the maximum";
+  }
+  return null;
+}
+
+/**
+ * List the current user's rules in priority order, including inactive ones.
+ */
+export async function getTransactionRules(): Promise<ActionResult<TransactionRule[]>> {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return fail("Not authenticated");
+
+    const { data, error } = await supabase
+      .from("transaction_rules")
+      .select("id, name, priority, is_active, stop_processing, conditions, actions")
+      .eq("user_id", user.id)
+      .order("priority", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) return fail(safeErrorMessage(error, "Failed to load rules"));
+    return ok((data ?? []) as TransactionRule[]);
+  } catch (error) {
+    return fail(safeErrorMessage(error, "Failed to load rules"));
+  }
+}
+
+/**
+ * Create or update a rule. New rules are added at the end of the list.
+ */
+export async function saveTransactionRule(
+  input: TransactionRuleInput
+): Promise<ActionResult<{ id: string }>> {
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+
+  const parsed = ruleInputSchema.safeParse(input);
+  if (!parsed.success) return fail("Invalid rule");
+  const { id, name, is_active, stop_processing, conditions, actions } = parsed.data;
+
+  const conditionError = checkConditions(conditions);
+  if (conditionError) return fail(conditionError);
+  if (!hasRuleActions(actions)) return fail("Add at least one action");
+
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return fail("Not authenticated");
+
+    // Only keep accounts the user owns
+    if (conditions.accountIds?.length) {
+      const { data: owned } = await supabase
+        .from("accounts")
+        .select("id")
+        .eq("user_id", user.id)
+        .in("id", conditions.accountIds);
+      const ownedIds = new Set((owned ?? []).map((a) => a.id));
+      conditions.accountIds = conditions.accountIds.filter((a) => ownedIds.has(a));
+      if (conditions.accountIds.length === 0) return fail("Account not found");
+    }
+
+    // Store the parent alongside the category, like merchant rules do
+    let parentCategoryId: string | null = null;
+    if (actions.categoryId) {
+      const { data: category } = await supabase
+        .from("categories")
+        .select("id, parent_category_id")
+        .eq("id", actions.categoryId)
+        .maybeSingle();
+      if (!category) return fail("Category not found");
+      parentCategoryId = category.parent_category_id ?? null;
+    }
+
+    const row = {
+      name,
+      is_active,
+      stop_processing,
+      conditions,
+      actions: actions.categoryId ? { ...actions, parentCategoryId } : actions,
+    };
+
+    if (id) {
+      const { data, error } = await supabase
+        .from("transaction_rules")
+        .update(row)
+        .eq("id", id)
+        .eq("user_id", user.id)
+        .select("id")
+        .maybeSingle();
+      if (error) return fail(safeErrorMessage(error, "Failed to save rule"));
+      if (!data) return fail("Rule not found");
+      revalidatePath("/settings/rules");
+      return ok({ id: data.id });
+    }
+
+    const { data: last } = await supabase
+      .from("transaction_rules")
+      .select("priority")
+      .eq("user_id", user.id)
+      .order("priority", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from("transaction_rules")
+      .insert({ ...row, user_id: user.id, priority: (last?.priority ?? -1) + 1 })
+      .select("id")
+      .single();
+    if (error || !data) return fail(safeErrorMessage(error, "Failed to save rule"));
+
+    revalidatePath("/settings/rules");
+    return ok({ id: data.id });
+  } catch (error) {
+    return fail(safeErrorMessage(error, "Failed to save rule"));
+  }
+}
+
+export async function deleteTransactionRule(ruleId: string): Promise<ActionResult> {
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  if (!z.string().uuid().safeParse(ruleId).success) return fail("Invalid rule");
+
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return fail("Not authenticated");
+
+    const { error } = await supabase
+      .from("transaction_rules")
+      .delete()
+      .eq("id", ruleId)
+      .eq("user_id", user.id);
+    if (error) return fail(safeErrorMessage(error, "Failed to delete rule"));
+
+    revalidatePath("/settings/rules");
+    return ok();
+  } catch (error) {
+    return fail(safeErrorMessage(error, "Failed to delete rule"));
+  }
+}
+
+/**
+ * Set rule priorities to match the given order (first = evaluated first).
+ */
+export async function reorderTransactionRules(orderedIds: string[]): Promise<ActionResult> {
+  const blocked = demoActionGuard(); if (blocked) return blocked;
+  if (!z.array(z.string().uuid()).max(500).safeParse(orderedIds).success) {
+    return fail("Invalid rule order");
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return fail("Not authenticated");
+
+    const results = await Promise.all(
+      orderedIds.map((id, index) =>
+        supabase
+          .from("transaction_rules")
+          .update({ priority: index })
+          .eq("id", id)
+          .eq("user_id", user.id)
+      )
+    );
+    const failed = results.find((r) => r.error);
+    if (failed) return fail(safeErrorMessage(failed.error, "Failed to reorder rules"));
+
+    revalidatePath("/settings/rules");
+    return ok();
+  } catch (error) {
+    return fail(safeErrorMessage(error, "Failed to reorder rules"));
+  }
+}
+
+/**
+ * Show which recent transactions a set of conditions would match,
+ * without changing anything.
+ */
+export async function previewTransactionRule(
+  conditions: RuleConditions
+): Promise<ActionResult<RulePreview>> {
+  const parsed = conditionsSchema.safeParse(conditions);
+  if (!parsed.success) return fail("Invalid conditions");
+  const conditionError = checkConditions(parsed.data);
+  if (conditionError) return fail(conditionError);
+
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return fail("Not authenticated");
+
+    const { data: accounts } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id);
+    const accountIds = (accounts ?? []).map((a) => a.id);
+    if (accountIds.length === 0) return ok({ matchCount: 0, scanned: 0, samples: [] });
+
+    const { data: transactions, error } = await supabase
+      .from("transactions")
+      .select("id, description, amount_cents, account_id, card_number_suffix, card_purchase_method, foreign_currency_code, created_at")
+      .in("account_id", accountIds)
+      .neq("status", "DELETED")
+      .order("created_at", { ascending: false })
+      .limit(PREVIEW_SCAN_LIMIT);
+    if (error) return fail(safeErrorMessage(error, "Failed to preview rule"));
+
+    const matches = (transactions ?? []).filter((t) => ruleMatches(parsed.data, t));
+    return ok({
+      matchCount: matches.length,
+      scanned: transactions?.length ?? 0,
+      samples: matches.slice(0, PREVIEW_SAMPLE_SIZE).map((t) => ({
+        id: t.id,
+        description: t.description,
+        amount_cents: t.amount_cents,
+        created_at: t.created_at,
+      })),
+    });
+  } catch (error) {
+    return fail(safeErrorMessage(error, "Failed to preview rule"));
+  }
+}
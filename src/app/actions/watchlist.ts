@@ -3,6 +3,7 @@
 import { createClient } from "@/utils/supabase/server";
 import { revalidatePath } from "next/cache";
 import { fetchInvestmentPrice } from "@/lib/price-apis";
+import { isOfflinePricing } from "@/lib/price-providers";
 import { demoActionGuard } from "@/lib/demo-guard";
 import { getUserPartnershipId } from "@/lib/get-user-partnership";
 import { safeErrorMessage } from "@/lib/safe-error";
@@ -46,6 +47,7 @@ export async function refreshWatchlistPrice(id: string) {
     .maybeSingle();
 
   if (!item?.ticker_symbol) return { error: "No ticker symbol" };
+  if (isOfflinePricing()) return { error: "Live prices are turned off on this server" };
 
   const result = await fetchInvestmentPrice(
     item.asset_type,
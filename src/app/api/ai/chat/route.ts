@@ -4,14 +4,17 @@ import {
   wrapLanguageModel,
   addToolInputExamplesMiddleware,
   convertToModelMessages,
+  type UIMessage,
 } from "ai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createClient } from "@/utils/supabase/server";
 import { createFinancialTools } from "@/lib/ai-tools";
 import { chatLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
-import { getPlaintextToken } from "@/lib/token-encryption";
+import { createLanguageModel, resolveAiConfig } from "@/lib/ai-provider";
+import {
+  appendThreadMessage,
+  capThreadMessages,
+  selectModelHistory,
+} from "@/lib/ai-chat-threads";
 import { z } from "zod";
 
 // UI messages from @ai-sdk/react use { role, parts: [{ type, text }] } format,
@@ -22,9 +25,20 @@ const ChatMessageSchema = z
   })
   .passthrough();
 
-const ChatRequestSchema = z.object({
-  messages: z.array(ChatMessageSchema).min(1).max(100),
-});
+// Unsaved chats send the whole conversation; saved threads send only the
+// newest user message and the history is loaded from ai_chat_threads.
+const ChatRequestSchema = z.union([
+  z.object({
+    messages: z.array(ChatMessageSchema).min(1).max(100),
+  }),
+  z.object({
+    threadId: z.string().uuid(),
+    message: ChatMessageSchema.extend({
+      id: z.string().min(1).max(100),
+      role: z.literal("user"),
+    }).passthrough(),
+  }),
+]);
 
 export async function POST(req: Request) {
   try {
@@ -36,12 +50,7 @@ export async function POST(req: Request) {
         { status: 400, headers: { "Content-Type": "application/json" } }
       );
     }
-    // Use validated body.messages but preserve original types for the AI SDK
-    // (Zod .passthrough() keeps extra fields at runtime; we cast for TS compat)
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const messages = (body as { messages: any[] }).messages
-      // H31: Defense-in-depth — strip any "system" role messages that bypassed schema
-      .filter((m: { role: string }) => m.role !== "system");
+    const threadId = "threadId" in parsed.data ? parsed.data.threadId : null;
 
     const supabase = await createClient();
     const {
@@ -54,7 +63,7 @@ export async function POST(req: Request) {
 
     // Rate limit: 10 requests per minute per user+IP
     const ip = getClientIp(req);
-    const rateCheck = chatLimiter.check(rateLimitKey(user.id, ip));
+    const rateCheck = await chatLimiter.check(rateLimitKey(user.id, ip));
     if (!rateCheck.allowed) {
       return new Response(
         JSON.stringify({
@@ -71,38 +80,54 @@ export async function POST(req: Request) {
       );
     }
 
+    // Use validated body.messages but preserve original types for the AI SDK
+    // (Zod .passthrough() keeps extra fields at runtime; we cast for TS compat)
+    let uiMessages: UIMessage[];
+    if (threadId) {
+      const { data: thread } = await supabase
+        .from("ai_chat_threads")
+        .select("messages")
+        .eq("id", threadId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!thread) {
+        return new Response(
+          JSON.stringify({ error: "Chat not found. It may have been deleted." }),
+          { status: 404, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      uiMessages = appendThreadMessage(
+        (thread.messages || []) as UIMessage[],
+        (body as { message: UIMessage }).message
+      );
+    } else {
+      uiMessages = (body as { messages: UIMessage[] }).messages;
+    }
+    // H31: Defense-in-depth — strip any "system" role messages that bypassed schema
+    const messages = uiMessages.filter((m) => m.role !== "system");
+
     // Load AI settings
     const { data: aiSettings } = await supabase
       .from("profiles")
-      .select("ai_provider, ai_api_key, ai_model")
+      .select("ai_provider, ai_api_key, ai_model, ai_base_url")
       .eq("id", user.id)
       .maybeSingle();
 
-    const provider = aiSettings?.ai_provider || "google";
-    const apiKey = aiSettings?.ai_api_key ? getPlaintextToken(aiSettings.ai_api_key) : null;
+    const aiConfig = resolveAiConfig(aiSettings);
 
-    if (!apiKey) {
+    if (!aiConfig) {
       return new Response(
         JSON.stringify({
           error:
-            "No API key configured. Go to Settings > AI Assistant to add your API key.",
+            "AI isn't set up. Go to Settings > AI Assistant to add an API key or a self-hosted endpoint.",
         }),
         { status: 400, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    // Choose model based on provider, then wrap with middleware
-    let baseModel;
-    if (provider === "google") {
-      const client = createGoogleGenerativeAI({ apiKey });
-      baseModel = client(aiSettings?.ai_model || "gemini-2.5-flash");
-    } else if (provider === "openai") {
-      const client = createOpenAI({ apiKey });
-      baseModel = client.chat(aiSettings?.ai_model || "gpt-4.1-mini");
-    } else {
-      const client = createAnthropic({ apiKey });
-      baseModel = client(aiSettings?.ai_model || "claude-sonnet-4-6");
-    }
+    const provider = aiConfig.provider;
+    const baseModel = createLanguageModel(aiConfig);
 
     // Wrap model with middleware to serialize inputExamples into tool descriptions
     // for providers that don't natively support them
@@ -248,8 +273,12 @@ The ONLY time you should ask the user a question is for write actions (to confir
 - For createIncomeSource: ALWAYS call detectIncomePatterns first to pre-fill from real transaction data. Only create from scratch if no matching pattern found.
 - For createBudget: ALWAYS gather spending data first (getSpendingSummary + getIncomeSummary) before creating a budget so you can suggest informed amounts.`;
 
-    // Convert UI messages (with parts/tool invocations) to model messages
-    const coreMessages = await convertToModelMessages(messages, { tools });
+    // Convert UI messages (with parts/tool invocations) to model messages.
+    // Saved threads can run long, so only their recent turns are replayed.
+    const coreMessages = await convertToModelMessages(
+      threadId ? selectModelHistory(messages) : messages,
+      { tools }
+    );
 
     const isGemini = provider === "google";
 
@@ -310,7 +339,29 @@ The ONLY time you should ask the user a question is for write actions (to confir
       onStepFinish: () => {},
     });
 
-    return result.toUIMessageStreamResponse();
+    if (!threadId) {
+      return result.toUIMessageStreamResponse();
+    }
+
+    // Finish generating (and saving) even if the user closes the panel mid-answer
+    result.consumeStream();
+
+    return result.toUIMessageStreamResponse({
+      originalMessages: messages,
+      onFinish: async ({ messages: updated }) => {
+        const { error: saveError } = await supabase
+          .from("ai_chat_threads")
+          .update({
+            messages: capThreadMessages(updated),
+            last_message_at: new Date().toISOString(),
+          })
+          .eq("id", threadId)
+          .eq("user_id", user.id);
+        if (saveError) {
+          console.error("Failed to save chat thread:", saveError);
+        }
+      },
+    });
   } catch (err: unknown) {
     console.error("AI chat error:", err);
 
@@ -2,6 +2,7 @@ import { createClient } from "@/utils/supabase/server";
 import { NextResponse } from "next/server";
 import { sanitizeForAI } from "@/lib/sanitize-ai-input";
 import { generalReadLimiter } from "@/lib/rate-limiter";
+import { isAiConfigured } from "@/lib/ai-provider";
 
 export async function GET() {
   const supabase = await createClient();
@@ -13,7 +14,7 @@ export async function GET() {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalReadLimiter.check(user.id);
+  const rateCheck = await generalReadLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -34,13 +35,14 @@ export async function GET() {
     { data: accounts },
     { data: categoryMappings },
   ] = await Promise.all([
-    supabase.from("profiles").select("ai_api_key, ai_provider").eq("id", user.id).maybeSingle(),
+    supabase.from("profiles").select("ai_api_key, ai_provider, ai_base_url").eq("id", user.id).maybeSingle(),
     supabase.from("partnership_members").select("partnership_id").eq("user_id", user.id).limit(1).maybeSingle(),
     supabase.from("accounts").select("id, balance_cents, display_name, account_type").eq("user_id", user.id).eq("is_active", true),
     supabase.from("category_mappings").select("up_category_id, new_parent_name").limit(200),
   ]);
 
-  const hasApiKey = !!profile?.ai_api_key;
+  // Self-hosted providers count as set up without a key
+  const hasApiKey = isAiConfigured(profile);
   const partnershipId = membership?.partnership_id;
   const accountIds = accounts?.map((a) => a.id) || [];
   const totalBalance =
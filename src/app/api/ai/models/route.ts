@@ -0,0 +1,92 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { parseBody } from "@/lib/validation";
+import { generalApiLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { getPlaintextToken } from "@/lib/token-encryption";
+import {
+  AiEndpointBlockedError,
+  DEFAULT_OLLAMA_BASE_URL,
+  listSelfHostedModels,
+  normalizeBaseUrl,
+} from "@/lib/ai-provider";
+
+const modelsSchema = z.object({
+  provider: z.enum(["openai-compatible", "ollama"]),
+  baseUrl: z.string().max(500).optional(),
+  apiKey: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/ai/models
+ *
+ * List the models a self-hosted endpoint serves, so Settings > AI Assistant
+ * can offer them before anything is saved. baseUrl/apiKey fall back to the
+ * saved profile values when omitted.
+ *
+ * Request Body:
+ * { provider: "openai-compatible" | "ollama", baseUrl?: string, apiKey?: string }
+ */
+export async function POST(request: Request) {
+  // The server fetches a user-supplied URL, so keep it off the public demo
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalApiLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const parsed = await parseBody(request, modelsSchema);
+  if (parsed.response) return parsed.response;
+  const { provider } = parsed.data;
+
+  const { data: saved } = await supabase
+    .from("profiles")
+    .select("ai_provider, ai_api_key, ai_base_url")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  // Saved credentials only apply to the provider they were saved for
+  const savedForProvider = saved?.ai_provider === provider ? saved : null;
+  const rawBaseUrl =
+    parsed.data.baseUrl ||
+    savedForProvider?.ai_base_url ||
+    (provider === "ollama" ? DEFAULT_OLLAMA_BASE_URL : "");
+  const baseUrl = normalizeBaseUrl(rawBaseUrl);
+  if (!baseUrl) {
+    return NextResponse.json(
+      { error: "Invalid base URL. Use an http:// or https:// address." },
+      { status: 400 }
+    );
+  }
+
+  const apiKey =
+    parsed.data.apiKey ||
+    (savedForProvider?.ai_api_key ? getPlaintextToken(savedForProvider.ai_api_key) : null);
+
+  try {
+    const models = await listSelfHostedModels(provider, baseUrl, apiKey);
+    return NextResponse.json({ models });
+  } catch (err) {
+    if (err instanceof AiEndpointBlockedError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("AI model list error:", err);
+    return NextResponse.json(
+      { error: "Could not reach the endpoint. Check the base URL and that the server is running." },
+      { status: 502 }
+    );
+  }
+}
@@ -3,6 +3,13 @@ import { NextResponse } from "next/server";
 import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
 import { aiSettingsLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
 import { encryptToken } from "@/lib/token-encryption";
+import { auditLog, AuditAction } from "@/lib/audit-logger";
+import {
+  AiEndpointBlockedError,
+  assertAiEndpointAllowed,
+  isAiProvider,
+  normalizeBaseUrl,
+} from "@/lib/ai-provider";
 
 export async function GET() {
   const supabase = await createClient();
@@ -16,7 +23,7 @@ export async function GET() {
 
   const { data } = await supabase
     .from("profiles")
-    .select("ai_provider, ai_model, ai_api_key")
+    .select("ai_provider, ai_model, ai_api_key, ai_base_url")
     .eq("id", user.id)
     .maybeSingle();
 
@@ -24,6 +31,7 @@ export async function GET() {
     provider: data?.ai_provider || "google",
     model: data?.ai_model || "",
     hasApiKey: !!data?.ai_api_key,
+    baseUrl: data?.ai_base_url || "",
   });
 }
 
@@ -41,7 +49,7 @@ export async function POST(req: Request) {
 
   // Rate limit: 5 updates per hour per user+IP
   const ip = getClientIp(req);
-  const rateCheck = aiSettingsLimiter.check(rateLimitKey(user.id, ip));
+  const rateCheck = await aiSettingsLimiter.check(rateLimitKey(user.id, ip));
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later.", retryAfterMs: rateCheck.retryAfterMs },
@@ -49,17 +57,39 @@ export async function POST(req: Request) {
     );
   }
 
-  const { provider, model, apiKey } = await req.json();
+  const { provider, model, apiKey, baseUrl } = await req.json();
 
-  const ALLOWED_PROVIDERS = ["google", "openai", "anthropic"];
-
-  if (provider && !ALLOWED_PROVIDERS.includes(provider)) {
+  if (provider && !isAiProvider(provider)) {
     return NextResponse.json(
       { error: "Invalid provider" },
       { status: 400 }
     );
   }
 
+  // Self-hosted providers are reached by URL; null clears it on disconnect
+  let normalizedBaseUrl: string | null | undefined;
+  if (baseUrl === null || baseUrl === "") {
+    normalizedBaseUrl = null;
+  } else if (baseUrl !== undefined) {
+    normalizedBaseUrl =
+      typeof baseUrl === "string" && baseUrl.length <= 500 ? normalizeBaseUrl(baseUrl) : null;
+    if (!normalizedBaseUrl) {
+      return NextResponse.json(
+        { error: "Invalid base URL. Use an http:// or https:// address." },
+        { status: 400 }
+      );
+    }
+    // Refuse private addresses up front; a host that doesn't resolve yet is
+    // left for the connection test to report
+    try {
+      await assertAiEndpointAllowed(normalizedBaseUrl);
+    } catch (err) {
+      if (err instanceof AiEndpointBlockedError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+    }
+  }
+
   if (model && (typeof model !== "string" || model.length === 0 || model.length > 100)) {
     return NextResponse.json(
       { error: "Invalid model" },
@@ -70,6 +100,7 @@ export async function POST(req: Request) {
   const updates: Record<string, string | null> = {};
   if (provider) updates.ai_provider = provider;
   if (model) updates.ai_model = model;
+  if (normalizedBaseUrl !== undefined) updates.ai_base_url = normalizedBaseUrl;
   if (apiKey !== undefined) {
     if (apiKey && !process.env.UP_API_ENCRYPTION_KEY) {
       console.error("UP_API_ENCRYPTION_KEY not configured, cannot store API key");
@@ -94,5 +125,13 @@ export async function POST(req: Request) {
     );
   }
 
+  if (apiKey !== undefined) {
+    await auditLog({
+      userId: user.id,
+      action: AuditAction.API_KEY_UPDATED,
+      details: { provider: provider ?? null, cleared: !apiKey },
+    });
+  }
+
   return NextResponse.json({ success: true });
 }
@@ -1,11 +1,15 @@
 import { generateText } from "ai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createClient } from "@/utils/supabase/server";
-import { getPlaintextToken } from "@/lib/token-encryption";
+import {
+  AiEndpointBlockedError,
+  createLanguageModel,
+  isSelfHostedProvider,
+  listSelfHostedModels,
+  resolveAiConfig,
+} from "@/lib/ai-provider";
 
 export async function POST() {
+  let selfHosted = false;
   try {
     const supabase = await createClient();
     const {
@@ -18,36 +22,38 @@ export async function POST() {
 
     const { data: aiSettings } = await supabase
       .from("profiles")
-      .select("ai_provider, ai_api_key, ai_model")
+      .select("ai_provider, ai_api_key, ai_model, ai_base_url")
       .eq("id", user.id)
       .maybeSingle();
 
-    const provider = aiSettings?.ai_provider || "google";
-    const apiKey = aiSettings?.ai_api_key
-      ? getPlaintextToken(aiSettings.ai_api_key)
-      : null;
+    selfHosted = isSelfHostedProvider(aiSettings?.ai_provider);
+    const config = resolveAiConfig(aiSettings);
 
-    if (!apiKey) {
+    if (!config) {
       return Response.json(
-        { error: "No API key configured." },
+        {
+          error: selfHosted
+            ? "No endpoint or model configured."
+            : "No API key configured.",
+        },
         { status: 400 }
       );
     }
 
-    let model;
-    if (provider === "google") {
-      const client = createGoogleGenerativeAI({ apiKey });
-      model = client(aiSettings?.ai_model || "gemini-2.5-flash");
-    } else if (provider === "openai") {
-      const client = createOpenAI({ apiKey });
-      model = client.chat(aiSettings?.ai_model || "gpt-4.1-mini");
-    } else {
-      const client = createAnthropic({ apiKey });
-      model = client(aiSettings?.ai_model || "claude-sonnet-4-6");
+    // Self-hosted: check the endpoint is up and actually serves the model
+    // before spending time on a generation
+    if (config.baseUrl) {
+      const models = await listSelfHostedModels(config.provider, config.baseUrl, config.apiKey);
+      if (models.length > 0 && !models.includes(config.model)) {
+        return Response.json(
+          { error: `Model "${config.model}" isn't available on this endpoint.`, models },
+          { status: 400 }
+        );
+      }
     }
 
     const result = await generateText({
-      model,
+      model: createLanguageModel(config),
       prompt: "Say hello in one sentence.",
     });
 
@@ -60,12 +66,26 @@ export async function POST() {
       { status: 500 }
     );
   } catch (err: unknown) {
+    if (err instanceof AiEndpointBlockedError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
     console.error("AI test error:", err);
 
-    let message = "Connection failed. Please check your API key.";
+    let message = selfHosted
+      ? "Connection failed. Please check the base URL and model."
+      : "Connection failed. Please check your API key.";
     if (err instanceof Error) {
       const m = err.message.toLowerCase();
       if (
+        selfHosted &&
+        (m.includes("fetch failed") ||
+          m.includes("econnrefused") ||
+          m.includes("enotfound") ||
+          m.includes("timeout") ||
+          m.includes("endpoint returned"))
+      ) {
+        message = "Could not reach the endpoint. Check the base URL and that the server is running.";
+      } else if (
         m.includes("api key") ||
         m.includes("api_key") ||
         m.includes("authentication") ||
@@ -0,0 +1,189 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { parseBody, validateUuidParam } from "@/lib/validation";
+import { generalApiLimiter, generalReadLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { THREAD_SUMMARY_COLUMNS, THREAD_TITLE_MAX_LENGTH } from "@/lib/ai-chat-threads";
+
+const updateThreadSchema = z
+  .object({
+    title: z.string().trim().min(1).max(THREAD_TITLE_MAX_LENGTH).optional(),
+    is_pinned: z.boolean().optional(),
+    is_shared: z.boolean().optional(),
+  })
+  .refine(
+    (body) => body.title !== undefined || body.is_pinned !== undefined || body.is_shared !== undefined,
+    { message: "Nothing to update" }
+  );
+
+/**
+ * GET /api/ai/threads/[id]
+ *
+ * Open a saved thread with its messages. Works for the owner's threads and
+ * for threads a partner has shared; `is_owner` tells the client whether the
+ * conversation can be continued.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalReadLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id } = await params;
+  const idError = validateUuidParam(id);
+  if (idError) return idError;
+
+  const { data: thread } = await supabase
+    .from("ai_chat_threads")
+    .select(`${THREAD_SUMMARY_COLUMNS}, messages`)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!thread) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ thread: { ...thread, is_owner: thread.user_id === user.id } });
+}
+
+/**
+ * PATCH /api/ai/threads/[id]
+ *
+ * Rename, pin/unpin, or share/unshare one of the user's own threads.
+ * Sharing makes the thread readable by the other partnership members.
+ *
+ * Request Body:
+ * { title?: string, is_pinned?: boolean, is_shared?: boolean }
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalApiLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id } = await params;
+  const idError = validateUuidParam(id);
+  if (idError) return idError;
+
+  const parsed = await parseBody(request, updateThreadSchema);
+  if (parsed.response) return parsed.response;
+  const { title, is_pinned, is_shared } = parsed.data;
+
+  const updates: Record<string, unknown> = {};
+  if (title !== undefined) updates.title = title;
+  if (is_pinned !== undefined) updates.is_pinned = is_pinned;
+  if (is_shared !== undefined) {
+    updates.is_shared = is_shared;
+    if (is_shared) {
+      // The thread may predate joining a partnership — share into the current one
+      const partnershipId = await getUserPartnershipId(supabase, user.id);
+      if (!partnershipId) {
+        return NextResponse.json(
+          { error: "Link a partner before sharing a chat." },
+          { status: 400 }
+        );
+      }
+      updates.partnership_id = partnershipId;
+    }
+  }
+
+  const { data: thread, error } = await supabase
+    .from("ai_chat_threads")
+    .update(updates)
+    .eq("id", id)
+    .eq("user_id", user.id)
+    .select(THREAD_SUMMARY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating chat thread:", error);
+    return NextResponse.json({ error: "Failed to update chat thread" }, { status: 500 });
+  }
+  if (!thread) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ thread });
+}
+
+/**
+ * DELETE /api/ai/threads/[id]
+ *
+ * Delete one of the user's own threads, including for any partner it was
+ * shared with.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalApiLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id } = await params;
+  const idError = validateUuidParam(id);
+  if (idError) return idError;
+
+  const { data: deleted, error } = await supabase
+    .from("ai_chat_threads")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", user.id)
+    .select("id");
+
+  if (error) {
+    console.error("Error deleting chat thread:", error);
+    return NextResponse.json({ error: "Failed to delete chat thread" }, { status: 500 });
+  }
+  if (!deleted || deleted.length === 0) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,117 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { parseBody } from "@/lib/validation";
+import { generalApiLimiter, generalReadLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import {
+  DEFAULT_THREAD_TITLE,
+  THREAD_SUMMARY_COLUMNS,
+  THREAD_TITLE_MAX_LENGTH,
+} from "@/lib/ai-chat-threads";
+
+const createThreadSchema = z.object({
+  title: z.string().trim().min(1).max(THREAD_TITLE_MAX_LENGTH).optional(),
+});
+
+/**
+ * GET /api/ai/threads
+ *
+ * List the user's saved chat threads (pinned first, then most recent) and
+ * any threads their partner has shared into the partnership. Messages are
+ * not included; fetch /api/ai/threads/[id] to open one.
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalReadLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const [{ data: threads, error }, { data: shared, error: sharedError }] = await Promise.all([
+    supabase
+      .from("ai_chat_threads")
+      .select(THREAD_SUMMARY_COLUMNS)
+      .eq("user_id", user.id)
+      .order("is_pinned", { ascending: false })
+      .order("last_message_at", { ascending: false })
+      .limit(100),
+    // RLS only exposes other members' threads once they're shared
+    supabase
+      .from("ai_chat_threads")
+      .select(THREAD_SUMMARY_COLUMNS)
+      .eq("is_shared", true)
+      .neq("user_id", user.id)
+      .order("last_message_at", { ascending: false })
+      .limit(50),
+  ]);
+
+  if (error || sharedError) {
+    console.error("Error fetching chat threads:", error || sharedError);
+    return NextResponse.json({ error: "Failed to fetch chat threads" }, { status: 500 });
+  }
+
+  return NextResponse.json({ threads: threads || [], shared: shared || [] });
+}
+
+/**
+ * POST /api/ai/threads
+ *
+ * Start a new saved thread. The client creates one before the first message
+ * of a conversation and passes its id to /api/ai/chat from then on.
+ *
+ * Request Body:
+ * { title?: string }
+ */
+export async function POST(request: Request) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalApiLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const parsed = await parseBody(request, createThreadSchema);
+  if (parsed.response) return parsed.response;
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+
+  const { data: thread, error } = await supabase
+    .from("ai_chat_threads")
+    .insert({
+      user_id: user.id,
+      partnership_id: partnershipId,
+      title: parsed.data.title || DEFAULT_THREAD_TITLE,
+    })
+    .select(THREAD_SUMMARY_COLUMNS)
+    .single();
+
+  if (error || !thread) {
+    console.error("Error creating chat thread:", error);
+    return NextResponse.json({ error: "Failed to create chat thread" }, { status: 500 });
+  }
+
+  return NextResponse.json({ thread }, { status: 201 });
+}
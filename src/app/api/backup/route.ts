@@ -0,0 +1,157 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { parseBody } from "@/lib/validation";
+import { batchOperationLimiter, exportLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { auditLog, AuditAction } from "@/lib/audit-logger";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import {
+  createBackupBundle,
+  hasExistingSetup,
+  restoreBackupBundle,
+  summarizeBackupBundle,
+  validateBackupBundle,
+  type BackupBundle,
+  type RestoreSummary,
+} from "@/lib/data-backup";
+
+export const maxDuration = 300;
+
+const restoreSchema = z.object({
+  bundle: z.unknown(),
+  replace: z.boolean().optional(),
+});
+
+/**
+ * Download a full backup bundle.
+ * GET /api/backup
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateLimitResult = await exportLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateLimitResult.retryAfterMs ?? 0) / 1000)) } }
+    );
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return NextResponse.json({ error: "Please set up your budget first" }, { status: 400 });
+  }
+
+  let bundle: BackupBundle;
+  try {
+    bundle = await createBackupBundle(supabase, user.id, partnershipId);
+  } catch (err) {
+    console.error("Failed to build backup:", err);
+    return NextResponse.json({ error: "Failed to build backup" }, { status: 500 });
+  }
+
+  await auditLog({
+    userId: user.id,
+    action: AuditAction.FINANCIAL_DATA_EXPORTED,
+    details: { format: "backup", tables: summarizeBackupBundle(bundle) },
+    partnershipId,
+  });
+
+  const filename = `piggyback-backup-${bundle.exported_at.split("T")[0]}.json`;
+  return new Response(JSON.stringify(bundle), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+/**
+ * Restore a backup bundle into the current user's partnership.
+ * POST /api/backup
+ *
+ * Refuses with 409 when the partnership already has budgets, goals or rules
+ * unless `replace` is set, in which case that setup is deleted as part of
+ * the restore. The restore runs in one database transaction, so a failure
+ * leaves the existing data untouched.
+ */
+export async function POST(request: Request) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateLimitResult = await batchOperationLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateLimitResult.retryAfterMs ?? 0) / 1000)) } }
+    );
+  }
+
+  const parsed = await parseBody(request, restoreSchema);
+  if (parsed.response) return parsed.response;
+  const { bundle, replace } = parsed.data;
+
+  const invalid = validateBackupBundle(bundle);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return NextResponse.json({ error: "Please set up your budget first" }, { status: 400 });
+  }
+
+  if (!replace && (await hasExistingSetup(supabase, user.id, partnershipId))) {
+    return NextResponse.json(
+      { error: "This budget already has data. Restore again with replace to overwrite it.", conflict: true },
+      { status: 409 }
+    );
+  }
+
+  let summary: RestoreSummary;
+  try {
+    summary = await restoreBackupBundle(supabase, bundle as BackupBundle, {
+      userId: user.id,
+      partnershipId,
+      replace: !!replace,
+    });
+  } catch (err) {
+    console.error("Failed to restore backup:", err);
+    return NextResponse.json(
+      { error: "The backup couldn't be restored, so nothing was changed." },
+      { status: 500 }
+    );
+  }
+
+  await auditLog({
+    userId: user.id,
+    action: AuditAction.BACKUP_RESTORED,
+    details: {
+      exportedAt: (bundle as BackupBundle).exported_at,
+      replace: !!replace,
+      restored: summary.restored,
+      skipped: summary.skipped,
+    },
+    partnershipId,
+  });
+
+  return NextResponse.json({ success: true, ...summary });
+}
@@ -22,7 +22,7 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalReadLimiter.check(user.id);
+  const rateCheck = await generalReadLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
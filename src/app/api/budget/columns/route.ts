@@ -45,7 +45,7 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalApiLimiter.check(user.id);
+  const rateCheck = await generalApiLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
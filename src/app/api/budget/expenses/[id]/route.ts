@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod/v4";
 import { parseBody, validateUuidParam } from "@/lib/validation";
 import { generalApiLimiter } from "@/lib/rate-limiter";
+import { auditLog, AuditAction } from "@/lib/audit-logger";
 
 /**
  * PATCH - Update expense definition
@@ -19,7 +20,7 @@ export async function PATCH(
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalApiLimiter.check(user.id);
+  const rateCheck = await generalApiLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -232,7 +233,7 @@ export async function DELETE(
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalApiLimiter.check(user.id);
+  const rateCheck = await generalApiLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -248,7 +249,7 @@ export async function DELETE(
   // Fetch expense with created_by to check creator authorization
   const { data: expense } = await supabase
     .from("expense_definitions")
-    .select("partnership_id, created_by")
+    .select("partnership_id, name, created_by")
     .eq("id", id)
     .maybeSingle();
 
@@ -289,5 +290,12 @@ export async function DELETE(
     return NextResponse.json({ error: "Failed to delete expense" }, { status: 500 });
   }
 
+  await auditLog({
+    userId: user.id,
+    action: AuditAction.EXPENSE_DELETED,
+    details: { expenseId: id, expenseName: expense.name },
+    partnershipId: expense.partnership_id,
+  });
+
   return NextResponse.json({ success: true });
 }
@@ -3,12 +3,9 @@ import { NextResponse } from "next/server";
 import { detectRecurringTransactions } from "@/lib/recurring-detector";
 import { suggestExpenseCategory, suggestExpenseEmoji, suggestMatchPattern } from "@/lib/expense-matcher";
 import { generateObject } from "ai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { z } from "zod";
 import { autoDetectLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
-import { getPlaintextToken } from "@/lib/token-encryption";
+import { createLanguageModel, resolveAiConfig, type AiConfig } from "@/lib/ai-provider";
 import { sanitizeTransactionDescriptions } from "@/lib/sanitize-ai-input";
 
 /**
@@ -26,7 +23,7 @@ export async function GET(request: Request) {
 
   // Rate limit: 5 requests per hour per user+IP
   const ip = getClientIp(request);
-  const rateCheck = autoDetectLimiter.check(rateLimitKey(user.id, ip));
+  const rateCheck = await autoDetectLimiter.check(rateLimitKey(user.id, ip));
   if (!rateCheck.allowed) {
     return NextResponse.json(
       {
@@ -128,19 +125,20 @@ export async function GET(request: Request) {
   // Load user's AI settings
   const { data: profile } = await supabase
     .from("profiles")
-    .select("ai_provider, ai_api_key, ai_model")
+    .select("ai_provider, ai_api_key, ai_model, ai_base_url")
     .eq("id", user.id)
     .maybeSingle();
 
-  // Try AI-powered detection if API key is configured
-  if (profile?.ai_api_key) {
+  // Try AI-powered detection if a provider is configured
+  const aiConfig = resolveAiConfig(profile);
+  if (aiConfig) {
     try {
       const aiResult = await detectWithAI(
         transactions,
         existingPatterns,
         existingNames,
         categoryNames,
-        profile,
+        aiConfig,
       );
       return NextResponse.json({ expenses: aiResult, ai_enhanced: true });
     } catch (err) {
@@ -258,7 +256,7 @@ async function detectWithAI(
   existingPatterns: Set<string>,
   existingNames: Set<string>,
   categoryNames: string[],
-  profile: { ai_provider: string | null; ai_api_key: string; ai_model: string | null },
+  aiConfig: AiConfig,
 ) {
   const summaries = buildMerchantSummaries(transactions);
 
@@ -278,21 +276,7 @@ async function detectWithAI(
     ? `\nAvailable categories: ${categoryNames.join(", ")}`
     : "";
 
-  // Init AI provider (same pattern as ai-categorize.ts)
-  const provider = profile.ai_provider || "google";
-  const apiKey = getPlaintextToken(profile.ai_api_key);
-  let model;
-
-  if (provider === "google") {
-    const client = createGoogleGenerativeAI({ apiKey });
-    model = client(profile.ai_model || "gemini-2.0-flash");
-  } else if (provider === "openai") {
-    const client = createOpenAI({ apiKey });
-    model = client.chat(profile.ai_model || "gpt-4o-mini");
-  } else {
-    const client = createAnthropic({ apiKey });
-    model = client(profile.ai_model || "claude-sonnet-4-5-20250929");
-  }
+  const model = createLanguageModel(aiConfig);
 
   const result = await generateObject({
     model,
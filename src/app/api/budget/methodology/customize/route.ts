@@ -4,6 +4,7 @@ import { z } from "zod/v4";
 import { parseBody } from "@/lib/validation";
 import { METHODOLOGY_MAPPINGS } from "@/lib/methodology-mapper";
 import { generalApiLimiter } from "@/lib/rate-limiter";
+import { auditLog, AuditAction } from "@/lib/audit-logger";
 
 type Methodology = 'zero-based' | '50-30-20' | 'envelope' | 'pay-yourself-first' | '80-20';
 
@@ -138,7 +139,7 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalApiLimiter.check(user.id);
+  const rateCheck = await generalApiLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -275,7 +276,7 @@ export async function DELETE(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalApiLimiter.check(user.id);
+  const rateCheck = await generalApiLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -320,6 +321,12 @@ export async function DELETE(request: Request) {
       );
     }
 
+    await auditLog({
+      userId: user.id,
+      action: AuditAction.BUDGET_RESET,
+      details: { methodology },
+    });
+
     // Return preset methodology
     const preset = METHODOLOGY_MAPPINGS[methodology as Methodology] || [];
 
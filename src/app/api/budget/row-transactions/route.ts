@@ -3,6 +3,19 @@ import { NextResponse } from "next/server";
 import { getEffectiveAccountIds } from "@/lib/get-effective-account-ids";
 import { z } from "zod/v4";
 import { generalReadLimiter } from "@/lib/rate-limiter";
+import { findSplitTransactionIds, scopeToCategories } from "@/lib/transaction-splits";
+
+const ROW_TRANSACTION_COLUMNS = `
+  *,
+  transaction_category_overrides(
+    original_category_id,
+    override_category_id,
+    changed_by,
+    changed_at,
+    notes
+  ),
+  transaction_splits(position, amount_cents, category_id, parent_category_id, is_shared)
+`;
 
 export async function GET(request: Request) {
   const supabase = await createClient();
@@ -12,7 +25,7 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalReadLimiter.check(user.id);
+  const rateCheck = await generalReadLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -70,16 +83,7 @@ export async function GET(request: Request) {
     if (parentCategoriesToQuery.includes('Miscellaneous')) {
       let query = supabase
         .from("transactions")
-        .select(`
-          *,
-          transaction_category_overrides(
-            original_category_id,
-            override_category_id,
-            changed_by,
-            changed_at,
-            notes
-          )
-        `)
+        .select(ROW_TRANSACTION_COLUMNS)
         .in("account_id", accountIds)
         .is("category_id", null)
         .is("transfer_account_id", null)
@@ -89,8 +93,9 @@ export async function GET(request: Request) {
       if (periodStart) query = query.gte("settled_at", periodStart);
       if (periodEnd) query = query.lte("settled_at", periodEnd);
 
+      // Split transactions are spent under their lines' categories instead
       const { data } = await query.limit(50);
-      transactions = data || [];
+      transactions = (data || []).filter(t => !t.transaction_splits?.length);
     } else {
       // Get UP Bank category IDs for all parent categories
       const { data: categoryMappings } = await supabase
@@ -102,27 +107,24 @@ export async function GET(request: Request) {
 
       let query = supabase
         .from("transactions")
-        .select(`
-          *,
-          transaction_category_overrides(
-            original_category_id,
-            override_category_id,
-            changed_by,
-            changed_at,
-            notes
-          )
-        `)
+        .select(ROW_TRANSACTION_COLUMNS)
         .in("account_id", accountIds)
-        .in("category_id", upCategoryIds)
         .is("transfer_account_id", null)
         .neq("status", "DELETED")
         .order("settled_at", { ascending: false });
 
+      // Also pick up split transactions with a line in these categories
+      const splitIds = await findSplitTransactionIds(supabase, upCategoryIds);
+      query = splitIds.length > 0
+        ? query.or(`category_id.in.(${upCategoryIds.join(',')}),id.in.(${splitIds.join(',')})`)
+        : query.in("category_id", upCategoryIds);
+
       if (periodStart) query = query.gte("settled_at", periodStart);
       if (periodEnd) query = query.lte("settled_at", periodEnd);
 
+      // Split transactions only show their lines in these categories
       const { data } = await query.limit(50);
-      transactions = data || [];
+      transactions = scopeToCategories(data || [], upCategoryIds);
     }
 
   } else if (itemType === 'subcategory') {
@@ -147,27 +149,22 @@ export async function GET(request: Request) {
     if (upCategoryIds.length > 0) {
       let txnQuery = supabase
         .from("transactions")
-        .select(`
-          *,
-          transaction_category_overrides(
-            original_category_id,
-            override_category_id,
-            changed_by,
-            changed_at,
-            notes
-          )
-        `)
+        .select(ROW_TRANSACTION_COLUMNS)
         .in("account_id", accountIds)
-        .in("category_id", upCategoryIds)
         .is("transfer_account_id", null)
         .neq("status", "DELETED")
         .order("settled_at", { ascending: false });
 
+      const splitIds = await findSplitTransactionIds(supabase, upCategoryIds);
+      txnQuery = splitIds.length > 0
+        ? txnQuery.or(`category_id.in.(${upCategoryIds.join(',')}),id.in.(${splitIds.join(',')})`)
+        : txnQuery.in("category_id", upCategoryIds);
+
       if (periodStart) txnQuery = txnQuery.gte("settled_at", periodStart);
       if (periodEnd) txnQuery = txnQuery.lte("settled_at", periodEnd);
 
       const { data } = await txnQuery.limit(50);
-      transactions = data || [];
+      transactions = scopeToCategories(data || [], upCategoryIds);
     }
 
   } else if (itemType === 'goal' || itemType === 'asset') {
@@ -24,7 +24,7 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalApiLimiter.check(user.id);
+  const rateCheck = await generalApiLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -233,6 +233,14 @@ export async function POST(request: Request) {
     }
   }
 
+  // Closed months are locked by a trigger on budget_assignments
+  if (error?.code === "55000") {
+    return NextResponse.json(
+      { error: "This budget month is closed. Reopen it to make changes." },
+      { status: 409 }
+    );
+  }
+
   if (error) {
     console.error("Failed to save budget assignment:", error);
     return NextResponse.json({ error: "Failed to save budget assignment" }, { status: 500 });
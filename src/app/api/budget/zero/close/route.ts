@@ -0,0 +1,350 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { verifyPartnershipMembership } from "@/lib/verify-partnership";
+import { z } from "zod/v4";
+import { parseBody } from "@/lib/validation";
+import { generalApiLimiter, generalReadLimiter } from "@/lib/rate-limiter";
+import { DEFAULT_BUDGET_TIMEZONE, normalizeCarryoverMode } from "@/lib/budget-engine";
+import { loadBudgetSummary, type SummaryBudget } from "@/lib/load-budget-summary";
+import {
+  LEFTOVER_ACTIONS,
+  checkLeftoverAction,
+  combinePeriodSummaries,
+  findUnmatchedExpenses,
+  leftoverEnvelopes,
+  monthClosingBalances,
+  periodDatesInMonth,
+  releasedKeys,
+  type BudgetMonthSnapshot,
+  type LeftoverAction,
+} from "@/lib/budget-close";
+
+const monthParamsSchema = z.object({
+  budget_id: z.string().uuid(),
+  month: z.string().regex(/^\d{4}-\d{2}-01$/),
+});
+
+const closeSchema = monthParamsSchema.extend({
+  leftover_action: z.enum(LEFTOVER_ACTIONS as [LeftoverAction, ...LeftoverAction[]]),
+  goal_id: z.string().uuid().optional(),
+});
+
+type LoadedBudget = SummaryBudget & Record<string, unknown>;
+
+/** Load a budget and check the user belongs to its partnership */
+async function loadMemberBudget(
+  supabase: SupabaseClient,
+  userId: string,
+  budgetId: string
+): Promise<{ budget: LoadedBudget } | { response: NextResponse }> {
+  const { data: budget } = await supabase
+    .from("user_budgets")
+    .select("*")
+    .eq("id", budgetId)
+    .maybeSingle();
+
+  if (!budget) {
+    return { response: NextResponse.json({ error: "Budget not found" }, { status: 404 }) };
+  }
+
+  const verification = await verifyPartnershipMembership(supabase, userId, budget.partnership_id);
+  if (!verification.valid) {
+    return { response: NextResponse.json({ error: "Not a member of this partnership" }, { status: 403 }) };
+  }
+
+  return { budget };
+}
+
+/**
+ * Run the budget for every period starting in the month and build its
+ * snapshot, with the leftover action not yet applied, and the envelope
+ * balances the month hands on to the next once that action is.
+ */
+async function buildMonthSnapshot(
+  supabase: SupabaseClient,
+  budget: LoadedBudget,
+  userId: string,
+  month: string,
+  action: LeftoverAction
+): Promise<{ snapshot: BudgetMonthSnapshot; closingBalances: Record<string, number> } | { error: string }> {
+  const dates = periodDatesInMonth(
+    month,
+    budget.period_type,
+    DEFAULT_BUDGET_TIMEZONE,
+    budget.period_anchor_date ?? null
+  );
+  const periods = [];
+  for (const date of dates) {
+    const loaded = await loadBudgetSummary(supabase, budget, userId, date);
+    if ("error" in loaded) return loaded;
+    periods.push(loaded);
+  }
+  if (periods.length === 0) return { error: "No budget periods start in this month" };
+
+  // Rollover flags as they stand, so reopening can put them back
+  const { data: assignments, error: assignmentsError } = await supabase
+    .from("budget_assignments")
+    .select("category_name, subcategory_name, rollover")
+    .eq("budget_id", budget.id)
+    .eq("month", month)
+    .eq("budget_view", budget.budget_view)
+    .eq("assignment_type", "category")
+    .limit(500);
+  if (assignmentsError) return { error: "Failed to load budget assignments" };
+
+  const first = periods[0].periodRange;
+  const last = periods[periods.length - 1];
+  const totals = combinePeriodSummaries(periods.map((p) => p.summary));
+  const leftovers = leftoverEnvelopes(totals.rows);
+  const mode = normalizeCarryoverMode(budget.carryover_mode);
+  const released = releasedKeys(leftovers, action, mode, assignments ?? []);
+
+  return {
+    snapshot: {
+      month,
+      periodType: budget.period_type,
+      periodStart: first.start.toISOString(),
+      periodEnd: last.periodRange.end.toISOString(),
+      periodLabels: periods.map((p) => p.periodRange.label),
+      ...totals,
+      periods: periods.map((p) => ({
+        label: p.periodRange.label,
+        start: p.periodRange.start.toISOString(),
+        end: p.periodRange.end.toISOString(),
+        summary: p.summary,
+      })),
+      unmatchedExpenses: findUnmatchedExpenses(
+        last.expenseDefinitions,
+        periods.flatMap((p) => p.transactions),
+        first.start,
+        last.periodRange.end
+      ),
+      leftover: {
+        action,
+        cents: leftovers.reduce((sum, r) => sum + r.available, 0),
+        goalId: null,
+        goalName: null,
+        releasedKeys: released,
+      },
+    },
+    closingBalances: monthClosingBalances(last.summary, mode, assignments ?? [], released, last.expenseDefinitions),
+  };
+}
+
+/**
+ * A month's close record, or a preview of it while the month is open
+ * GET /api/budget/zero/close?budget_id=&month=
+ *
+ * Closed months return the snapshot taken when they were closed, so their
+ * figures don't drift when transactions are recategorised later.
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateCheck = await generalReadLimiter.check(user.id);
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const paramResult = monthParamsSchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!paramResult.success) {
+    return NextResponse.json({ error: "Invalid parameters" }, { status: 400 });
+  }
+  const { budget_id, month } = paramResult.data;
+
+  const loaded = await loadMemberBudget(supabase, user.id, budget_id);
+  if ("response" in loaded) return loaded.response;
+  const { budget } = loaded;
+
+  const { data: record } = await supabase
+    .from("budget_months")
+    .select("closed_at, closed_by, snapshot")
+    .eq("partnership_id", budget.partnership_id)
+    .eq("budget_id", budget_id)
+    .eq("month", month)
+    .maybeSingle();
+
+  if (record?.closed_at) {
+    return NextResponse.json({
+      closed: true,
+      closedAt: record.closed_at,
+      closedBy: record.closed_by,
+      snapshot: record.snapshot,
+    });
+  }
+
+  const mode = normalizeCarryoverMode(budget.carryover_mode);
+  const preview = await buildMonthSnapshot(
+    supabase,
+    budget,
+    user.id,
+    month,
+    mode === "none" ? "return_to_unassigned" : "carry_over"
+  );
+  if ("error" in preview) {
+    return NextResponse.json({ error: preview.error }, { status: 500 });
+  }
+
+  return NextResponse.json({ closed: false, closedAt: null, closedBy: null, snapshot: preview.snapshot });
+}
+
+/**
+ * Close a budget month
+ * POST /api/budget/zero/close
+ *
+ * Takes the snapshot, applies the leftover action, stores the envelope
+ * balances next month's rollover starts from and locks the month's
+ * assignments, all through close_budget_month().
+ */
+export async function POST(request: Request) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateCheck = await generalApiLimiter.check(user.id);
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const parsed = await parseBody(request, closeSchema);
+  if (parsed.response) return parsed.response;
+  const { budget_id, month, leftover_action, goal_id } = parsed.data;
+
+  const loaded = await loadMemberBudget(supabase, user.id, budget_id);
+  if ("response" in loaded) return loaded.response;
+  const { budget } = loaded;
+
+  const actionError = checkLeftoverAction(
+    leftover_action,
+    normalizeCarryoverMode(budget.carryover_mode),
+    goal_id
+  );
+  if (actionError) {
+    return NextResponse.json({ error: actionError }, { status: 400 });
+  }
+
+  let goalName: string | null = null;
+  if (leftover_action === "sweep_to_goal" && goal_id) {
+    const { data: goal } = await supabase
+      .from("savings_goals")
+      .select("id, name")
+      .eq("id", goal_id)
+      .eq("partnership_id", budget.partnership_id)
+      .maybeSingle();
+    if (!goal) {
+      return NextResponse.json({ error: "Goal not found in this partnership" }, { status: 403 });
+    }
+    goalName = goal.name;
+  }
+
+  const built = await buildMonthSnapshot(supabase, budget, user.id, month, leftover_action);
+  if ("error" in built) {
+    return NextResponse.json({ error: built.error }, { status: 500 });
+  }
+  const { snapshot, closingBalances } = built;
+  if (leftover_action === "sweep_to_goal") {
+    snapshot.leftover.goalId = goal_id ?? null;
+    snapshot.leftover.goalName = goalName;
+  }
+
+  const { data: record, error } = await supabase.rpc("close_budget_month", {
+    p_partnership_id: budget.partnership_id,
+    p_budget_id: budget_id,
+    p_budget_view: budget.budget_view,
+    p_month: month,
+    p_snapshot: snapshot,
+    p_income_total_cents: snapshot.income,
+    p_assigned_total_cents: snapshot.budgeted,
+    p_spent_total_cents: snapshot.spent,
+    p_leftover_action: leftover_action,
+    p_leftover_cents: snapshot.leftover.cents,
+    p_leftover_goal_id: leftover_action === "sweep_to_goal" ? goal_id : null,
+    p_release_keys: snapshot.leftover.releasedKeys,
+    p_closing_balances: closingBalances,
+  });
+
+  // 55000: this month, or the next month leftovers move into, is closed
+  if (error?.code === "55000") {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  if (error) {
+    console.error("Failed to close budget month:", error);
+    return NextResponse.json({ error: "Failed to close budget month" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, closedAt: record?.closed_at ?? null, snapshot });
+}
+
+/**
+ * Reopen a closed budget month
+ * DELETE /api/budget/zero/close?budget_id=&month=
+ *
+ * Undoes the leftover action and unlocks the month. The snapshot is
+ * discarded; closing again takes a fresh one.
+ */
+export async function DELETE(request: Request) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateCheck = await generalApiLimiter.check(user.id);
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const paramResult = monthParamsSchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!paramResult.success) {
+    return NextResponse.json({ error: "Invalid parameters" }, { status: 400 });
+  }
+  const { budget_id, month } = paramResult.data;
+
+  const loaded = await loadMemberBudget(supabase, user.id, budget_id);
+  if ("response" in loaded) return loaded.response;
+  const { budget } = loaded;
+
+  const { error } = await supabase.rpc("reopen_budget_month", {
+    p_partnership_id: budget.partnership_id,
+    p_budget_id: budget_id,
+    p_budget_view: budget.budget_view,
+    p_month: month,
+  });
+
+  // 22023: not closed; 55000: the next month is closed
+  if (error?.code === "22023" || error?.code === "55000") {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  if (error) {
+    console.error("Failed to reopen budget month:", error);
+    return NextResponse.json({ error: "Failed to reopen budget month" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,213 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { verifyPartnershipMembership } from "@/lib/verify-partnership";
+import { z } from "zod/v4";
+import { parseBody } from "@/lib/validation";
+import { generalApiLimiter, generalReadLimiter } from "@/lib/rate-limiter";
+import { planMove, toMoveSide, type MoveRow } from "@/lib/budget-moves";
+
+const moveRowSchema = z.object({
+  id: z.string().min(1).max(300),
+  type: z.enum(["subcategory", "goal", "asset"]),
+  name: z.string().min(1).max(200),
+  budgeted: z.number().int(),
+  available: z.number().int(),
+  isExpenseDefault: z.boolean(),
+});
+
+const moveSchema = z.object({
+  partnership_id: z.string().uuid(),
+  month: z.string().regex(/^\d{4}-\d{2}-01$/),
+  budget_view: z.enum(["individual", "shared"]).default("shared"),
+  budget_id: z.string().uuid().optional(),
+  /** null = from unassigned (To Be Budgeted) */
+  from: moveRowSchema.nullable(),
+  /** null = back to unassigned */
+  to: moveRowSchema.nullable(),
+  amount_cents: z.number().int().positive(),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Move assigned money between envelopes
+ * POST /api/budget/zero/move
+ *
+ * `from` and `to` are the budget rows as the client showed them (either may
+ * be null for unassigned). The move is applied from those shown amounts and
+ * recorded in budget_moves by move_budget_assignment(), which returns 409 if
+ * an assignment changed in the meantime.
+ */
+export async function POST(request: Request) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateCheck = await generalApiLimiter.check(user.id);
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const parsed = await parseBody(request, moveSchema);
+  if (parsed.response) return parsed.response;
+  const { partnership_id, month, budget_view, budget_id, from, to, amount_cents, note } = parsed.data;
+
+  const plan = planMove(from as MoveRow | null, to as MoveRow | null, amount_cents);
+  if ("error" in plan) {
+    return NextResponse.json({ error: plan.error }, { status: 400 });
+  }
+
+  const fromSide = from ? toMoveSide(from) : null;
+  const toSide = to ? toMoveSide(to) : null;
+  if ((from && !fromSide) || (to && !toSide)) {
+    return NextResponse.json({ error: "Unknown budget row" }, { status: 400 });
+  }
+
+  const verification = await verifyPartnershipMembership(supabase, user.id, partnership_id);
+  if (!verification.valid) {
+    return NextResponse.json({ error: "Not a member of this partnership" }, { status: 403 });
+  }
+
+  // The budget, goals and assets must belong to the same partnership
+  if (budget_id) {
+    const { data: budget } = await supabase
+      .from("user_budgets")
+      .select("id")
+      .eq("id", budget_id)
+      .eq("partnership_id", partnership_id)
+      .maybeSingle();
+    if (!budget) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+  }
+
+  for (const side of [fromSide, toSide]) {
+    if (side?.goal_id) {
+      const { data: goal } = await supabase
+        .from("savings_goals")
+        .select("id")
+        .eq("id", side.goal_id)
+        .eq("partnership_id", partnership_id)
+        .maybeSingle();
+      if (!goal) {
+        return NextResponse.json({ error: "Goal not found in this partnership" }, { status: 403 });
+      }
+    }
+    if (side?.asset_id) {
+      const { data: asset } = await supabase
+        .from("investments")
+        .select("id")
+        .eq("id", side.asset_id)
+        .eq("partnership_id", partnership_id)
+        .maybeSingle();
+      if (!asset) {
+        return NextResponse.json({ error: "Asset not found in this partnership" }, { status: 403 });
+      }
+    }
+  }
+
+  const { data: move, error } = await supabase.rpc("move_budget_assignment", {
+    p_partnership_id: partnership_id,
+    p_budget_id: budget_id ?? null,
+    p_budget_view: budget_view,
+    p_month: month,
+    p_from: fromSide,
+    p_to: toSide,
+    p_amount_cents: amount_cents,
+    p_note: note || null,
+  });
+
+  // 40001: an assignment changed since the budget was loaded
+  // 23505: a concurrent request created the same assignment first
+  if (error?.code === "40001" || error?.code === "23505") {
+    return NextResponse.json(
+      { error: "The budget was changed by another request. Please refresh and try again." },
+      { status: 409 }
+    );
+  }
+  if (error?.code === "55000") {
+    return NextResponse.json(
+      { error: "This budget month is closed. Reopen it to make changes." },
+      { status: 409 }
+    );
+  }
+  if (error) {
+    console.error("Failed to move budget money:", error);
+    return NextResponse.json({ error: "Failed to move money" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, move });
+}
+
+/**
+ * Moves recorded for a budget period, newest first
+ * GET /api/budget/zero/move?partnership_id=&month=&budget_id=&key=
+ *
+ * `key` narrows the list to moves in or out of one envelope.
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateCheck = await generalReadLimiter.check(user.id);
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const querySchema = z.object({
+    partnership_id: z.string().uuid(),
+    month: z.string().regex(/^\d{4}-\d{2}-01$/),
+    budget_id: z.string().uuid().optional(),
+    key: z.string().min(1).max(300).optional(),
+  });
+  const { searchParams } = new URL(request.url);
+  const paramResult = querySchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!paramResult.success) {
+    return NextResponse.json({ error: "Invalid parameters" }, { status: 400 });
+  }
+  const { partnership_id, month, budget_id, key } = paramResult.data;
+
+  const verification = await verifyPartnershipMembership(supabase, user.id, partnership_id);
+  if (!verification.valid) {
+    return NextResponse.json({ error: "Not a member of this partnership" }, { status: 403 });
+  }
+
+  let query = supabase
+    .from("budget_moves")
+    .select("id, month, from_key, from_label, to_key, to_label, amount_cents, note, created_by, created_at")
+    .eq("partnership_id", partnership_id)
+    .eq("month", month)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  query = budget_id ? query.eq("budget_id", budget_id) : query.is("budget_id", null);
+
+  const { data: moves, error } = await query;
+  if (error) {
+    console.error("Failed to load budget moves:", error);
+    return NextResponse.json({ error: "Failed to load moves" }, { status: 500 });
+  }
+
+  // Filtered here rather than in an .or() so category names never reach the
+  // PostgREST filter syntax
+  const filtered = key
+    ? (moves ?? []).filter((m) => m.from_key === key || m.to_key === key)
+    : moves ?? [];
+
+  return NextResponse.json({ moves: filtered });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { createServiceRoleClient } from "@/utils/supabase/service-role";
+import { getClientIp, RateLimiter } from "@/lib/rate-limiter";
+import { isForeignCurrency } from "@/lib/fx-rates";
+import { syncFxRates } from "@/lib/fx-rate-store";
+
+// Cron endpoint: 5 requests per minute (generous for retries, but prevents abuse)
+const cronLimiter = new RateLimiter({ name: "cron-fx-rates", maxRequests: 5, windowMs: 60_000 });
+
+/**
+ * Daily FX rates sync. Collects every foreign currency held in investments
+ * or accounts and stores the missing daily closing rates in fx_rates.
+ */
+export async function GET(req: Request) {
+  // Rate limit by IP to prevent brute-force attempts on CRON_SECRET
+  const ip = getClientIp(req);
+  const rateCheck = await cronLimiter.check(ip);
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests" },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  // Verify cron secret (timing-safe comparison)
+  const authHeader = req.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+  const expected = `Bearer ${cronSecret || ""}`;
+  const provided = authHeader || "";
+
+  if (
+    !cronSecret ||
+    provided.length !== expected.length ||
+    !timingSafeEqual(Buffer.from(provided), Buffer.from(expected))
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceRoleClient();
+  const now = new Date();
+
+  const [{ data: investments }, { data: accounts }] = await Promise.all([
+    supabase.from("investments").select("currency_code").neq("currency_code", "AUD"),
+    supabase.from("accounts").select("currency_code").neq("currency_code", "AUD").eq("is_active", true),
+  ]);
+
+  const currencies = [
+    ...new Set(
+      [...(investments || []), ...(accounts || [])]
+        .map((row) => row.currency_code as string)
+        .filter(isForeignCurrency)
+    ),
+  ];
+
+  try {
+    const synced = await syncFxRates(currencies, now.toISOString().split("T")[0]);
+    return NextResponse.json({
+      success: true,
+      processed_at: now.toISOString(),
+      synced,
+    });
+  } catch (err) {
+    console.error("FX rates sync error:", err);
+    return NextResponse.json({ error: "FX rates sync failed" }, { status: 500 });
+  }
+}
@@ -4,7 +4,7 @@ import { createServiceRoleClient } from "@/utils/supabase/service-role";
 import { getClientIp, RateLimiter } from "@/lib/rate-limiter";
 
 // Cron endpoint: 5 requests per minute (generous for retries, but prevents abuse)
-const cronLimiter = new RateLimiter({ maxRequests: 5, windowMs: 60_000 });
+const cronLimiter = new RateLimiter({ name: "cron", maxRequests: 5, windowMs: 60_000 });
 import {
   createNotification,
   isNotificationEnabled,
@@ -12,10 +12,7 @@ import {
 } from "@/lib/create-notification";
 import { createFinancialTools } from "@/lib/ai-tools";
 import { generateText, wrapLanguageModel, addToolInputExamplesMiddleware, stepCountIs } from "ai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
-import { getPlaintextToken } from "@/lib/token-encryption";
+import { createLanguageModel, resolveAiConfig } from "@/lib/ai-provider";
 
 const DEFAULT_PREFS: NotificationPreferences = {
   price_changes: { enabled: true },
@@ -59,7 +56,7 @@ function parseHour(sendTime: string): number {
 export async function GET(req: Request) {
   // Rate limit by IP to prevent brute-force attempts on CRON_SECRET
   const ip = getClientIp(req);
-  const rateCheck = cronLimiter.check(ip);
+  const rateCheck = await cronLimiter.check(ip);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests" },
@@ -228,27 +225,23 @@ export async function GET(req: Request) {
         // Fetch AI key only for this user, only after all eligibility checks pass
         const { data: aiProfile } = await supabase
           .from("profiles")
-          .select("ai_api_key")
+          .select("ai_api_key, ai_base_url")
           .eq("id", profile.id)
           .single();
 
-        if (!aiProfile?.ai_api_key) continue;
+        const aiConfig = resolveAiConfig(
+          aiProfile && {
+            ai_provider: profile.ai_provider,
+            ai_model: profile.ai_model,
+            ai_api_key: aiProfile.ai_api_key,
+            ai_base_url: aiProfile.ai_base_url,
+          }
+        );
+        if (!aiConfig) continue;
 
         // Set up AI model
-        const provider = profile.ai_provider || "google";
-        const apiKey = getPlaintextToken(aiProfile.ai_api_key);
-        let baseModel;
-
-        if (provider === "google") {
-          const client = createGoogleGenerativeAI({ apiKey });
-          baseModel = client(profile.ai_model || "gemini-2.0-flash");
-        } else if (provider === "openai") {
-          const client = createOpenAI({ apiKey });
-          baseModel = client.chat(profile.ai_model || "gpt-4o-mini");
-        } else {
-          const client = createAnthropic({ apiKey });
-          baseModel = client(profile.ai_model || "claude-sonnet-4-5-20250929");
-        }
+        const provider = aiConfig.provider;
+        const baseModel = createLanguageModel(aiConfig);
 
         const model = wrapLanguageModel({
           model: baseModel,
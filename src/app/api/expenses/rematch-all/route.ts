@@ -18,7 +18,7 @@ export async function POST(request: Request) {
     }
 
     const ip = getClientIp(request);
-    const rateLimitResult = batchOperationLimiter.check(rateLimitKey(user.id, ip));
+    const rateLimitResult = await batchOperationLimiter.check(rateLimitKey(user.id, ip));
     if (!rateLimitResult.allowed) {
       return NextResponse.json(
         { error: "Too many requests. Please try again later." },
@@ -0,0 +1,105 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextRequest, NextResponse } from "next/server";
+import { exportLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { auditLog, AuditAction } from "@/lib/audit-logger";
+import { getCurrentDate } from "@/lib/demo-guard";
+import {
+  buildDeductionReport,
+  buildDeductionsCsv,
+  buildDeductionsPdf,
+  financialYearOf,
+  formatFinancialYear,
+  loadDeductionItems,
+} from "@/lib/tax-deductions";
+
+/**
+ * GET /api/export/tax-report?fy=2026&format=pdf
+ *
+ * End-of-financial-year deductions report for the signed-in user's own
+ * accounts, grouped by ATO label with attached receipts listed.
+ *
+ * Query Parameters:
+ *   fy     - year the financial year ends in (default: the current one)
+ *   format - "csv" | "pdf" (default: "pdf")
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateLimitResult = await exportLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateLimitResult.retryAfterMs ?? 0) / 1000)) } }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get("format") || "pdf";
+  if (format !== "csv" && format !== "pdf") {
+    return NextResponse.json({ error: "Unsupported export format" }, { status: 400 });
+  }
+
+  const fyParam = searchParams.get("fy");
+  const fy = fyParam ? Number(fyParam) : financialYearOf(getCurrentDate());
+  if (!Number.isInteger(fy) || fy < 2000 || fy > 2100) {
+    return NextResponse.json({ error: "Invalid financial year" }, { status: 400 });
+  }
+
+  await auditLog({
+    userId: user.id,
+    action: AuditAction.FINANCIAL_DATA_EXPORTED,
+    details: { report: "tax_deductions", format, financialYear: fy },
+  });
+
+  const [{ data: accounts, error: accountsError }, { data: profile }] = await Promise.all([
+    supabase
+      .from("accounts")
+      .select("id, display_name")
+      .eq("user_id", user.id),
+    supabase
+      .from("profiles")
+      .select("display_name")
+      .eq("id", user.id)
+      .maybeSingle(),
+  ]);
+
+  // Never hand over an empty or partial report when a load fails
+  let items;
+  try {
+    if (accountsError) throw new Error(accountsError.message);
+    items = await loadDeductionItems(supabase, accounts || [], fy);
+  } catch (error) {
+    console.error("Error loading tax deductions:", error);
+    return NextResponse.json({ error: "Failed to load deductions" }, { status: 500 });
+  }
+  const report = buildDeductionReport(fy, items);
+  const filename = `piggyback-tax-deductions-${formatFinancialYear(fy).replace("–", "-")}`;
+
+  if (format === "csv") {
+    return new Response(buildDeductionsCsv(report), {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="${filename}.csv"`,
+      },
+    });
+  }
+
+  const pdf = buildDeductionsPdf(report, {
+    preparedFor: profile?.display_name || user.email || "PiggyBack user",
+    generatedAt: new Date(),
+  });
+  return new Response(pdf as BodyInit, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${filename}.pdf"`,
+    },
+  });
+}
@@ -3,6 +3,19 @@ import { NextRequest, NextResponse } from "next/server";
 import { getEffectiveAccountIds } from "@/lib/get-effective-account-ids";
 import { exportLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
 import { auditLog, AuditAction } from "@/lib/audit-logger";
+import { SPLIT_EMBED_COLUMNS, expandSplitLines, readEmbeddedSplits, type TransactionSplit } from "@/lib/transaction-splits";
+import {
+  EXPORT_FORMATS,
+  FULL_METADATA_FORMATS,
+  buildExportJson,
+  buildExportWorkbook,
+  buildOfx,
+  toExportTransaction,
+  type ExportAccount,
+  type ExportFormat,
+  type ExportTransactionRow,
+} from "@/lib/transaction-export";
+import { buildXlsx } from "@/lib/xlsx-writer";
 
 export async function POST(request: NextRequest) {
   const supabase = await createClient();
@@ -15,7 +28,7 @@ export async function POST(request: NextRequest) {
   }
 
   const ip = getClientIp(request);
-  const rateLimitResult = exportLimiter.check(rateLimitKey(user.id, ip));
+  const rateLimitResult = await exportLimiter.check(rateLimitKey(user.id, ip));
   if (!rateLimitResult.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -30,13 +43,17 @@ export async function POST(request: NextRequest) {
     dateTo,
     categoryFilter,
   } = body as {
-    format: "csv" | "markdown";
+    format: ExportFormat;
     dateFrom?: string;
     dateTo?: string;
     categoryFilter?: string;
   };
 
-  auditLog({
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: "Unsupported export format" }, { status: 400 });
+  }
+
+  await auditLog({
     userId: user.id,
     action: AuditAction.FINANCIAL_DATA_EXPORTED,
     details: { format, dateFrom, dateTo, categoryFilter },
@@ -56,11 +73,13 @@ export async function POST(request: NextRequest) {
 
   const accountIds = await getEffectiveAccountIds(supabase, membership.partnership_id, user.id, 'shared');
 
+  const fullMetadata = FULL_METADATA_FORMATS.includes(format);
+
   // Build query
   let query = supabase
     .from("transactions")
     .select(
-      "description, amount_cents, created_at, settled_at, status, category_id, parent_category_id, is_income, is_internal_transfer"
+      `id, account_id, description, amount_cents, created_at, settled_at, status, category_id, parent_category_id, is_income, is_internal_transfer, transaction_splits(${SPLIT_EMBED_COLUMNS}), transaction_tags(tag_name), transaction_notes(note, is_partner_visible, user_id), transaction_category_overrides(original_category_id, original_parent_category_id, changed_at, notes)`
     )
     .in("account_id", accountIds)
     .is("transfer_account_id", null)
@@ -86,6 +105,11 @@ export async function POST(request: NextRequest) {
 
   const truncated = (transactions?.length ?? 0) >= 10000;
 
+  // Split transactions export one line per category
+  const lines = (transactions || []).flatMap((t) =>
+    expandSplitLines(t, readEmbeddedSplits(t.transaction_splits as TransactionSplit[] | null))
+  );
+
   // Fetch category mappings
   const { data: categoryMappings } = await supabase
     .from("category_mappings")
@@ -108,6 +132,76 @@ export async function POST(request: NextRequest) {
     return { parent: "Uncategorized", child: "" };
   };
 
+  if (fullMetadata) {
+    const rows = (transactions || []) as unknown as ExportTransactionRow[];
+    const ids = rows.map((t) => t.id);
+
+    // Share overrides key on a text transaction ID without a foreign key, so
+    // they can't be embedded
+    const shareOverrides = new Map<string, { is_shared: boolean; share_percentage: number }>();
+    for (let i = 0; i < ids.length; i += 500) {
+      const { data: overrides } = await supabase
+        .from("transaction_share_overrides")
+        .select("transaction_id, is_shared, share_percentage")
+        .eq("partnership_id", membership.partnership_id)
+        .in("transaction_id", ids.slice(i, i + 500));
+      for (const o of overrides || []) {
+        shareOverrides.set(o.transaction_id, { is_shared: o.is_shared, share_percentage: o.share_percentage });
+      }
+    }
+
+    const { data: accountRows } = await supabase
+      .from("accounts")
+      .select("id, display_name, account_type, balance_cents")
+      .in("id", accountIds);
+    const accounts: ExportAccount[] = accountRows || [];
+    const accountNames = new Map(accounts.map((a) => [a.id, a.display_name]));
+
+    const exportRows = rows.map((row) =>
+      toExportTransaction(row, {
+        userId: user.id,
+        accountNames,
+        shareOverrides,
+        getCategory: getCatName,
+      })
+    );
+
+    const now = new Date();
+    const stamp = now.toISOString().split("T")[0];
+    const truncatedHeaders: Record<string, string> = truncated
+      ? { "X-Truncated": "true", "X-Truncated-Limit": "10000" }
+      : {};
+
+    if (format === "json") {
+      return new Response(buildExportJson(exportRows, accounts, { generatedAt: now, dateFrom, dateTo, truncated }), {
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="piggyback-transactions-${stamp}.json"`,
+          ...truncatedHeaders,
+        },
+      });
+    }
+
+    if (format === "ofx") {
+      return new Response(buildOfx(exportRows, accounts, now), {
+        headers: {
+          "Content-Type": "application/x-ofx",
+          "Content-Disposition": `attachment; filename="piggyback-transactions-${stamp}.ofx"`,
+          ...truncatedHeaders,
+        },
+      });
+    }
+
+    const workbook = buildXlsx(buildExportWorkbook(exportRows, accounts));
+    return new Response(workbook as BodyInit, {
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename="piggyback-transactions-${stamp}.xlsx"`,
+        ...truncatedHeaders,
+      },
+    });
+  }
+
   if (format === "csv") {
     // Sanitize CSV cell values to prevent formula injection in spreadsheets
     function sanitizeCsvCell(value: string): string {
@@ -117,14 +211,15 @@ export async function POST(request: NextRequest) {
       return value;
     }
 
-    const header = "Date,Description,Amount,Category,Subcategory,Status,Type\n";
-    const rows = (transactions || [])
-      .map((t) => {
-        const cat = getCatName(t.category_id, t.parent_category_id);
+    const header = "Date,Description,Amount,Category,Subcategory,Status,Type,Split\n";
+    const rows = lines
+      .map((line) => {
+        const t = line.transaction;
+        const cat = getCatName(line.category_id, line.parent_category_id);
         const date = new Date(t.settled_at || t.created_at).toLocaleDateString(
           "en-AU"
         );
-        const amount = (t.amount_cents / 100).toFixed(2);
+        const amount = (line.amount_cents / 100).toFixed(2);
         const type = t.is_income
           ? "Income"
           : t.is_internal_transfer
@@ -133,7 +228,8 @@ export async function POST(request: NextRequest) {
         const desc = sanitizeCsvCell(t.description.replace(/,/g, " "));
         const parentCat = sanitizeCsvCell(cat.parent);
         const childCat = sanitizeCsvCell(cat.child);
-        return `${date},"${desc}",${amount},"${parentCat}","${childCat}",${t.status},${type}`;
+        const split = line.split ? `${line.split.index + 1}/${line.split.count}` : "";
+        return `${date},"${desc}",${amount},"${parentCat}","${childCat}",${t.status},${type},${split}`;
       })
       .join("\n");
 
@@ -166,13 +262,15 @@ export async function POST(request: NextRequest) {
     0
   );
 
-  // Category totals
+  // Category totals (split transactions count per line)
   const catTotals = new Map<string, number>();
-  for (const t of spending) {
-    const cat = getCatName(t.category_id, t.parent_category_id);
+  for (const line of lines) {
+    const t = line.transaction;
+    if (t.amount_cents >= 0 || t.is_internal_transfer || t.is_income) continue;
+    const cat = getCatName(line.category_id, line.parent_category_id);
     catTotals.set(
       cat.parent,
-      (catTotals.get(cat.parent) || 0) + Math.abs(t.amount_cents)
+      (catTotals.get(cat.parent) || 0) + Math.abs(line.amount_cents)
     );
   }
 
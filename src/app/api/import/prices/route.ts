@@ -0,0 +1,116 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { parseBody } from "@/lib/validation";
+import { importLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import { matchPricesToHoldings, parsePriceFile } from "@/lib/price-file";
+import { applyPricePoints } from "@/lib/price-store";
+
+export const maxDuration = 120;
+
+/** 5 MB is decades of daily prices for a household portfolio */
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+const MAX_REPORTED_ERRORS = 20;
+
+const importSchema = z.object({
+  format: z.enum(["csv", "json"]),
+  content: z.string().min(1).max(MAX_CONTENT_LENGTH),
+});
+
+/**
+ * Import a price file for the partnership's holdings.
+ * POST /api/import/prices
+ *
+ * Parses a CSV or JSON file of daily unit prices by ticker, stores them for
+ * every holding with a matching ticker, backfills investment_history for
+ * days that have no entry and updates each holding's value from its newest
+ * price. Prices are in the holding's currency.
+ */
+export async function POST(request: Request) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateLimitResult = await importLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateLimitResult.retryAfterMs ?? 0) / 1000)) } }
+    );
+  }
+
+  const parsed = await parseBody(request, importSchema);
+  if (parsed.response) return parsed.response;
+  const { format, content } = parsed.data;
+
+  const partnershipId = await getUserPartnershipId(supabase, user.id);
+  if (!partnershipId) {
+    return NextResponse.json({ error: "Could not find partnership" }, { status: 404 });
+  }
+
+  // 1. Parse the file
+  const result = parsePriceFile(content, format);
+  if (result.prices.length === 0) {
+    return NextResponse.json(
+      { error: "No prices found in file", errors: result.errors.slice(0, MAX_REPORTED_ERRORS) },
+      { status: 400 }
+    );
+  }
+
+  // 2. Match tickers to holdings
+  const { data: holdings } = await supabase
+    .from("investments")
+    .select("id, name, partnership_id, ticker_symbol, currency_code, quantity")
+    .eq("partnership_id", partnershipId)
+    .not("ticker_symbol", "is", null);
+
+  const { byHolding, unmatched } = matchPricesToHoldings(result.prices, holdings ?? []);
+
+  // 3. Store prices and bring each holding's history and value up to date
+  const errors = [...result.errors];
+  let imported = 0;
+  let historyAdded = 0;
+  let valuesUpdated = 0;
+
+  for (const holding of holdings ?? []) {
+    const points = byHolding.get(holding.id);
+    if (!points) continue;
+
+    const currencyCode = holding.currency_code.toUpperCase();
+    const usable = points.filter((p) => p.currencyCode === null || p.currencyCode === currencyCode);
+    if (usable.length < points.length) {
+      errors.push(`${holding.name}: ${points.length - usable.length} prices skipped (not in ${currencyCode})`);
+    }
+    if (usable.length === 0) continue;
+
+    const applied = await applyPricePoints(
+      supabase,
+      { ...holding, quantity: holding.quantity === null ? null : Number(holding.quantity) },
+      usable.map((p) => ({ date: p.date, price: p.price })),
+      "file"
+    );
+    imported += usable.length;
+    historyAdded += applied.historyAdded;
+    if (applied.valueUpdated) valuesUpdated++;
+    errors.push(...applied.errors.map((e) => `${holding.name}: ${e}`));
+  }
+
+  return NextResponse.json({
+    imported,
+    holdings: byHolding.size,
+    historyAdded,
+    valuesUpdated,
+    unmatched,
+    errors: errors.slice(0, MAX_REPORTED_ERRORS),
+  });
+}
@@ -0,0 +1,318 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { parseBody } from "@/lib/validation";
+import { importLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { inferCategoryId, ensureInferredCategories } from "@/lib/infer-category";
+import {
+  DEFAULT_BUDGET_TIMEZONE,
+  getDateComponentsInTimezone,
+  midnightInTimezone,
+} from "@/lib/budget-engine";
+import {
+  IMPORT_DATE_FORMATS,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  buildImportTransactionIds,
+  partitionNewTransactions,
+  type ImportParseResult,
+} from "@/lib/transaction-import";
+
+export const maxDuration = 120;
+
+/** 5 MB of statement text is years of transactions for any household */
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+const INSERT_BATCH_SIZE = 500;
+const MAX_REPORTED_ERRORS = 20;
+
+const importSchema = z.object({
+  format: z.enum(["csv", "ofx", "qif"]),
+  content: z.string().min(1).max(MAX_CONTENT_LENGTH),
+  account: z.union([
+    z.object({ id: z.string().uuid() }),
+    z.object({
+      name: z.string().trim().min(1).max(100),
+      accountType: z.enum(["TRANSACTIONAL", "SAVER", "CREDIT_CARD"]),
+      institution: z.string().trim().max(100).optional(),
+    }),
+  ]),
+  mapping: z
+    .object({
+      date: z.string().min(1).max(100),
+      description: z.string().min(1).max(100),
+      amount: z.string().max(100).optional(),
+      debit: z.string().max(100).optional(),
+      credit: z.string().max(100).optional(),
+      memo: z.string().max(100).optional(),
+      dateFormat: z.enum(IMPORT_DATE_FORMATS),
+      invertAmounts: z.boolean().optional(),
+    })
+    .optional(),
+  dateFormat: z.enum(IMPORT_DATE_FORMATS).optional(),
+});
+
+/** Convert a statement date to the instant stored in settled_at/created_at. */
+function statementDateToIso(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return midnightInTimezone(year, month - 1, day, DEFAULT_BUDGET_TIMEZONE).toISOString();
+}
+
+function isoToStatementDate(iso: string): string {
+  const { year, month, day } = getDateComponentsInTimezone(new Date(iso), DEFAULT_BUDGET_TIMEZONE);
+  return `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Import a bank statement into a manual account.
+ * POST /api/import/transactions
+ *
+ * Parses CSV (with column mapping), OFX/QFX or QIF content, creates the
+ * manual account if needed, skips transactions already on the account, and
+ * categorises the rest using merchant rules, past categorisation of the same
+ * description, and inferCategoryId().
+ */
+export async function POST(request: Request) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateLimitResult = await importLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateLimitResult.retryAfterMs ?? 0) / 1000)) } }
+    );
+  }
+
+  const parsed = await parseBody(request, importSchema);
+  if (parsed.response) return parsed.response;
+  const { format, content, account, mapping, dateFormat } = parsed.data;
+
+  // 1. Parse the statement
+  let result: ImportParseResult;
+  if (format === "csv") {
+    if (!mapping) {
+      return NextResponse.json({ error: "CSV imports require a column mapping" }, { status: 400 });
+    }
+    result = parseCsv(content, mapping);
+  } else if (format === "ofx") {
+    result = parseOfx(content);
+  } else {
+    result = parseQif(content, dateFormat ?? "DD/MM/YYYY");
+  }
+
+  if (result.transactions.length === 0) {
+    return NextResponse.json(
+      {
+        error: "No transactions found in file",
+        errors: result.errors.slice(0, MAX_REPORTED_ERRORS),
+      },
+      { status: 400 }
+    );
+  }
+
+  // 2. Resolve or create the manual account
+  let accountId: string;
+  let currencyCode = result.currencyCode ?? "AUD";
+
+  if ("id" in account) {
+    const { data: existing } = await supabase
+      .from("accounts")
+      .select("id, source, currency_code")
+      .eq("id", account.id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+    if (existing.source !== "manual") {
+      return NextResponse.json(
+        { error: "Up Bank accounts sync automatically and can't be imported into" },
+        { status: 400 }
+      );
+    }
+    accountId = existing.id;
+    currencyCode = existing.currency_code ?? currencyCode;
+  } else {
+    const { data: created, error: createError } = await supabase
+      .from("accounts")
+      .insert({
+        user_id: user.id,
+        up_account_id: `manual:${crypto.randomUUID()}`,
+        display_name: account.name,
+        account_type: account.accountType,
+        ownership_type: "INDIVIDUAL",
+        balance_cents: result.balanceCents ?? 0,
+        currency_code: currencyCode,
+        source: "manual",
+        institution: account.institution || null,
+        is_active: true,
+      })
+      .select("id")
+      .single();
+
+    if (createError || !created) {
+      console.error("Failed to create manual account:", createError);
+      return NextResponse.json({ error: "Failed to create account" }, { status: 500 });
+    }
+    accountId = created.id;
+  }
+
+  // 3. Dedupe against rows already on the account
+  const ids = buildImportTransactionIds(result.transactions);
+  const incoming = result.transactions.map((t, i) => ({ ...t, upTransactionId: ids[i] }));
+  const dates = incoming.map((t) => t.date).sort();
+  const rangeStart = statementDateToIso(dates[0]);
+  const rangeEnd = new Date(
+    new Date(statementDateToIso(dates[dates.length - 1])).getTime() + 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const { data: existingTxns, error: existingError } = await supabase
+    .from("transactions")
+    .select("up_transaction_id, description, amount_cents, settled_at, created_at")
+    .eq("account_id", accountId)
+    .gte("created_at", rangeStart)
+    .lt("created_at", rangeEnd)
+    .limit(20000);
+
+  if (existingError) {
+    console.error("Failed to load existing transactions:", existingError);
+    return NextResponse.json({ error: "Failed to check for duplicates" }, { status: 500 });
+  }
+
+  // Rows re-imported from the same file match on up_transaction_id; rows
+  // entered via another format match on date + amount + description.
+  const existingIds = new Set((existingTxns ?? []).map((t) => t.up_transaction_id));
+  const incomingIds = new Set(ids);
+  const sameIdCount = incoming.filter((t) => existingIds.has(t.upTransactionId)).length;
+  const { fresh, duplicates } = partitionNewTransactions(
+    incoming.filter((t) => !existingIds.has(t.upTransactionId)),
+    (existingTxns ?? [])
+      .filter((t) => !incomingIds.has(t.up_transaction_id))
+      .map((t) => ({
+        date: isoToStatementDate(t.settled_at ?? t.created_at),
+        amountCents: t.amount_cents,
+        description: t.description,
+      }))
+  );
+
+  // 4. Category resolution: merchant rule > previous categorisation > infer
+  await ensureInferredCategories(supabase);
+
+  const descriptions = [...new Set(fresh.map((t) => t.description))];
+
+  const { data: merchantRules } = await supabase
+    .from("merchant_category_rules")
+    .select("merchant_description, category_id, parent_category_id")
+    .eq("user_id", user.id);
+
+  const merchantRulesByDesc = new Map(
+    (merchantRules ?? []).map((r) => [r.merchant_description, r])
+  );
+
+  const { data: userAccounts } = await supabase
+    .from("accounts")
+    .select("id")
+    .eq("user_id", user.id);
+
+  const historyByDesc = new Map<string, { category_id: string; parent_category_id: string | null }>();
+  const userAccountIds = (userAccounts ?? []).map((a) => a.id);
+  for (let i = 0; i < descriptions.length && userAccountIds.length > 0; i += 100) {
+    const { data: history } = await supabase
+      .from("transactions")
+      .select("description, category_id, parent_category_id, created_at")
+      .in("account_id", userAccountIds)
+      .in("description", descriptions.slice(i, i + 100))
+      .not("category_id", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(2000);
+
+    for (const h of history ?? []) {
+      if (!historyByDesc.has(h.description)) {
+        historyByDesc.set(h.description, {
+          category_id: h.category_id,
+          parent_category_id: h.parent_category_id,
+        });
+      }
+    }
+  }
+
+  const rows = fresh.map((t) => {
+    const rule = merchantRulesByDesc.get(t.description) ?? historyByDesc.get(t.description);
+    const categoryId = rule
+      ? rule.category_id
+      : inferCategoryId({
+          upCategoryId: null,
+          transferAccountId: null,
+          roundUpAmountCents: null,
+          transactionType: null,
+          description: t.description,
+          amountCents: t.amountCents,
+        });
+    const timestamp = statementDateToIso(t.date);
+
+    return {
+      account_id: accountId,
+      up_transaction_id: t.upTransactionId,
+      description: t.description,
+      raw_text: t.memo ?? null,
+      amount_cents: t.amountCents,
+      currency_code: currencyCode,
+      status: "SETTLED",
+      category_id: categoryId,
+      parent_category_id: rule ? rule.parent_category_id : null,
+      settled_at: timestamp,
+      created_at: timestamp,
+      is_categorizable: true,
+      transaction_type: "Imported",
+    };
+  });
+
+  // 5. Insert in batches; the unique constraint is the final dedupe guard
+  const errors = [...result.errors];
+  let imported = 0;
+  let conflicts = 0;
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+    // Ignored duplicates aren't returned, so only inserted rows are counted
+    const { data: inserted, error: insertError } = await supabase
+      .from("transactions")
+      .upsert(batch, { onConflict: "account_id,up_transaction_id", ignoreDuplicates: true })
+      .select("id");
+    if (insertError) {
+      console.error("Failed to insert imported transactions:", insertError);
+      errors.push(`Failed to save ${batch.length} transactions`);
+    } else {
+      const count = inserted?.length ?? 0;
+      imported += count;
+      conflicts += batch.length - count;
+    }
+  }
+
+  // 6. Keep the account's balance and sync time current
+  const accountUpdate: Record<string, unknown> = {
+    last_synced_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+  if (result.balanceCents != null) accountUpdate.balance_cents = result.balanceCents;
+  await supabase.from("accounts").update(accountUpdate).eq("id", accountId);
+
+  return NextResponse.json({
+    accountId,
+    imported,
+    duplicates: sameIdCount + duplicates.length + conflicts,
+    skipped: result.errors.length,
+    errors: errors.slice(0, MAX_REPORTED_ERRORS),
+  });
+}
@@ -0,0 +1,130 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { validateUuidParam } from "@/lib/validation";
+import { generalApiLimiter, generalReadLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { getAttachmentStore } from "@/lib/attachment-storage";
+import { attachmentPathFor, contentDisposition } from "@/lib/transaction-attachments";
+
+/**
+ * GET /api/transactions/[id]/attachments/[attachmentId]
+ *
+ * Serve an attachment's file. Images and PDFs open inline; add
+ * `?download=1` to save it instead.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalReadLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id: transactionId, attachmentId } = await params;
+  const idError = validateUuidParam(transactionId) || validateUuidParam(attachmentId);
+  if (idError) return idError;
+
+  // RLS limits this to the user's and their partner's attachments
+  const { data: attachment } = await supabase
+    .from("transaction_attachments")
+    .select("id, transaction_id, uploaded_by, file_name, content_type")
+    .eq("id", attachmentId)
+    .eq("transaction_id", transactionId)
+    .maybeSingle();
+
+  if (!attachment) {
+    return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = await getAttachmentStore(supabase).get(attachmentPathFor(attachment));
+  } catch (err) {
+    console.error("Attachment download failed:", err);
+    return NextResponse.json({ error: "Attachment file is missing" }, { status: 404 });
+  }
+
+  const download = new URL(request.url).searchParams.get("download") === "1";
+
+  return new Response(Buffer.from(bytes), {
+    headers: {
+      "Content-Type": attachment.content_type,
+      "Content-Length": String(bytes.byteLength),
+      "Content-Disposition": contentDisposition(attachment.file_name, download),
+      "Cache-Control": "private, max-age=3600",
+      // Types are verified from file contents on upload; stop browsers guessing otherwise
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
+
+/**
+ * DELETE /api/transactions/[id]/attachments/[attachmentId]
+ *
+ * Remove an attachment from one of the user's own transactions, deleting
+ * the stored file too.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalApiLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id: transactionId, attachmentId } = await params;
+  const idError = validateUuidParam(transactionId) || validateUuidParam(attachmentId);
+  if (idError) return idError;
+
+  // RLS only lets the transaction's owner delete, so an empty result covers
+  // both "missing" and "your partner's"
+  const { data: deleted, error } = await supabase
+    .from("transaction_attachments")
+    .delete()
+    .eq("id", attachmentId)
+    .eq("transaction_id", transactionId)
+    .select("id, transaction_id, uploaded_by, content_type");
+
+  if (error) {
+    console.error("Error deleting attachment:", error);
+    return NextResponse.json({ error: "Failed to delete attachment" }, { status: 500 });
+  }
+  if (!deleted || deleted.length === 0) {
+    return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+  }
+
+  try {
+    await getAttachmentStore(supabase).remove(deleted.map(attachmentPathFor));
+  } catch (err) {
+    // The row is gone, so the file is unreachable; log and move on
+    console.error("Failed to remove attachment file:", err);
+  }
+
+  return NextResponse.json({ success: true });
+}
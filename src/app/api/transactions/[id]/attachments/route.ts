@@ -0,0 +1,202 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { validateUuidParam } from "@/lib/validation";
+import { generalApiLimiter, generalReadLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { getAttachmentStore } from "@/lib/attachment-storage";
+import {
+  ATTACHMENT_COLUMNS,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  buildAttachmentPath,
+  detectAttachmentType,
+  isAttachmentKind,
+  sanitizeFileName,
+} from "@/lib/transaction-attachments";
+import { isTransactionOwner } from "@/lib/transaction-owner";
+
+/**
+ * GET /api/transactions/[id]/attachments
+ *
+ * List the receipts and documents attached to a transaction. Partners can
+ * see each other's attachments (RLS); `can_edit` is true only for the
+ * transaction's owner.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalReadLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id: transactionId } = await params;
+  const idError = validateUuidParam(transactionId);
+  if (idError) return idError;
+
+  const [{ data: attachments, error }, { data: transaction }] = await Promise.all([
+    supabase
+      .from("transaction_attachments")
+      .select(ATTACHMENT_COLUMNS)
+      .eq("transaction_id", transactionId)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("transactions")
+      .select("accounts!inner(user_id)")
+      .eq("id", transactionId)
+      .maybeSingle(),
+  ]);
+
+  if (error) {
+    console.error("Error fetching attachments:", error);
+    return NextResponse.json({ error: "Failed to fetch attachments" }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    attachments: attachments || [],
+    can_edit: transaction ? isTransactionOwner(transaction, user.id) : false,
+  });
+}
+
+/**
+ * POST /api/transactions/[id]/attachments
+ *
+ * Attach a receipt or document to one of the user's own transactions.
+ * JPEG, PNG, WebP, HEIC or PDF up to 10 MB; the type is taken from the
+ * file's contents, not its name.
+ *
+ * Request Body (multipart/form-data):
+ *   file - the file
+ *   kind (optional) - "receipt" (default), "warranty" or "other"
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalApiLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id: transactionId } = await params;
+  const idError = validateUuidParam(transactionId);
+  if (idError) return idError;
+
+  // Reject oversized bodies before buffering them (multipart adds a little overhead)
+  const declaredLength = Number(request.headers.get("content-length") || 0);
+  if (declaredLength > MAX_ATTACHMENT_BYTES + 64 * 1024) {
+    return NextResponse.json({ error: "Files can be up to 10 MB" }, { status: 413 });
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected a multipart form upload" }, { status: 400 });
+  }
+
+  const file = form.get("file");
+  const kindValue = form.get("kind") ?? "receipt";
+  if (!(file instanceof File) || file.size === 0) {
+    return NextResponse.json({ error: "No file provided" }, { status: 400 });
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return NextResponse.json({ error: "Files can be up to 10 MB" }, { status: 413 });
+  }
+  if (!isAttachmentKind(kindValue)) {
+    return NextResponse.json({ error: "Invalid attachment kind" }, { status: 400 });
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const contentType = detectAttachmentType(bytes);
+  if (!contentType) {
+    return NextResponse.json(
+      { error: "Only JPEG, PNG, WebP, HEIC images and PDFs can be attached" },
+      { status: 415 }
+    );
+  }
+
+  const { data: transaction } = await supabase
+    .from("transactions")
+    .select("id, attachment_count, accounts!inner(user_id)")
+    .eq("id", transactionId)
+    .maybeSingle();
+
+  if (!transaction) {
+    return NextResponse.json({ error: "Transaction not found" }, { status: 404 });
+  }
+
+  if (!isTransactionOwner(transaction, user.id)) {
+    return NextResponse.json(
+      { error: "You can only attach files to your own transactions" },
+      { status: 403 }
+    );
+  }
+
+  if ((transaction.attachment_count ?? 0) >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+    return NextResponse.json(
+      { error: `A transaction can have up to ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments` },
+      { status: 400 }
+    );
+  }
+
+  const attachmentId = crypto.randomUUID();
+  const storagePath = buildAttachmentPath(user.id, transactionId, attachmentId, contentType);
+  const store = getAttachmentStore(supabase);
+
+  try {
+    await store.put(storagePath, bytes, contentType);
+  } catch (err) {
+    console.error("Attachment upload failed:", err);
+    return NextResponse.json({ error: "Failed to store the file" }, { status: 500 });
+  }
+
+  const { data: attachment, error } = await supabase
+    .from("transaction_attachments")
+    .insert({
+      id: attachmentId,
+      transaction_id: transactionId,
+      uploaded_by: user.id,
+      kind: kindValue,
+      file_name: sanitizeFileName(file.name, contentType),
+      content_type: contentType,
+      size_bytes: bytes.byteLength,
+      storage_path: storagePath,
+    })
+    .select(ATTACHMENT_COLUMNS)
+    .single();
+
+  if (error || !attachment) {
+    console.error("Error saving attachment:", error);
+    // Don't leave an orphaned file behind
+    await store.remove([storagePath]).catch(() => {});
+    return NextResponse.json({ error: "Failed to save attachment" }, { status: 500 });
+  }
+
+  return NextResponse.json({ attachment }, { status: 201 });
+}
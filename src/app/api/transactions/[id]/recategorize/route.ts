@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod/v4";
 import { parseBody, validateUuidParam } from "@/lib/validation";
 import { generalApiLimiter } from "@/lib/rate-limiter";
+import { auditLog, AuditAction } from "@/lib/audit-logger";
 
 /**
  * PATCH /api/transactions/[id]/recategorize
@@ -28,7 +29,7 @@ export async function PATCH(
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalApiLimiter.check(user.id);
+  const rateCheck = await generalApiLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -270,6 +271,19 @@ export async function PATCH(
       }
     }
 
+    await auditLog({
+      userId: user.id,
+      action: AuditAction.CATEGORY_OVERRIDE,
+      details: {
+        transactionId,
+        description: transaction.description,
+        fromCategoryId: transaction.category_id,
+        toCategoryId: category_id,
+        merchantRuleCreated,
+        bulkUpdatedCount,
+      },
+    });
+
     // 5. Fetch updated transaction
     const { data: updatedTransaction } = await supabase
       .from("transactions")
@@ -332,7 +346,7 @@ export async function DELETE(
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalApiLimiter.check(user.id);
+  const rateCheck = await generalApiLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -395,6 +409,17 @@ export async function DELETE(
       );
     }
 
+    await auditLog({
+      userId: user.id,
+      action: AuditAction.CATEGORY_OVERRIDE,
+      details: {
+        transactionId,
+        fromCategoryId: override.override_category_id,
+        toCategoryId: override.original_category_id,
+        resetToOriginal: true,
+      },
+    });
+
     const { data: updatedTransaction } = await supabase
       .from("transactions")
       .select(`
@@ -0,0 +1,138 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { parseBody, validateUuidParam } from "@/lib/validation";
+import { generalApiLimiter } from "@/lib/rate-limiter";
+import { MAX_SPLIT_LINES, validateSplitLines } from "@/lib/transaction-splits";
+
+const splitsSchema = z.object({
+  splits: z
+    .array(
+      z.object({
+        amount_cents: z.number().int(),
+        category_id: z.string().min(1).max(100).nullable(),
+        is_shared: z.boolean().nullable().optional(),
+        notes: z.string().trim().max(200).nullable().optional(),
+      })
+    )
+    .max(MAX_SPLIT_LINES),
+});
+
+/**
+ * PUT /api/transactions/[id]/splits
+ *
+ * Replace a transaction's category line items (LOCAL ONLY - not synced to
+ * UP Bank). Lines must add up to the transaction amount. Send an empty
+ * array to remove the split and go back to the single category.
+ *
+ * Request Body:
+ * {
+ *   splits: { amount_cents: number, category_id: string | null, is_shared?: boolean | null, notes?: string }[]
+ * }
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateCheck = await generalApiLimiter.check(user.id);
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id: transactionId } = await params;
+
+  const idError = validateUuidParam(transactionId);
+  if (idError) return idError;
+
+  const parsed = await parseBody(request, splitsSchema);
+  if (parsed.response) return parsed.response;
+  const { splits } = parsed.data;
+
+  try {
+    const { data: transaction } = await supabase
+      .from("transactions")
+      .select("id, amount_cents, account_id")
+      .eq("id", transactionId)
+      .maybeSingle();
+
+    if (!transaction) {
+      return NextResponse.json({ error: "Transaction not found" }, { status: 404 });
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("user_id")
+      .eq("id", transaction.account_id)
+      .maybeSingle();
+
+    if (!account || account.user_id !== user.id) {
+      return NextResponse.json(
+        { error: "You can only split your own transactions" },
+        { status: 403 }
+      );
+    }
+
+    if (splits.length > 0) {
+      const splitError = validateSplitLines(transaction.amount_cents, splits);
+      if (splitError) {
+        return NextResponse.json({ error: splitError }, { status: 400 });
+      }
+    }
+
+    // Resolve each line's parent category, like recategorize does
+    const categoryIds = [...new Set(splits.map((s) => s.category_id).filter((c): c is string => !!c))];
+    const parentById = new Map<string, string | null>();
+    if (categoryIds.length > 0) {
+      const { data: categories } = await supabase
+        .from("categories")
+        .select("id, parent_category_id")
+        .in("id", categoryIds);
+      for (const c of categories ?? []) parentById.set(c.id, c.parent_category_id ?? null);
+
+      const unknown = categoryIds.find((c) => !parentById.has(c));
+      if (unknown) {
+        return NextResponse.json({ error: "Category not found" }, { status: 400 });
+      }
+    }
+
+    const { data: saved, error: rpcError } = await supabase.rpc("replace_transaction_splits", {
+      p_transaction_id: transactionId,
+      p_splits: splits.map((s) => ({
+        amount_cents: s.amount_cents,
+        category_id: s.category_id,
+        parent_category_id: s.category_id ? parentById.get(s.category_id) ?? null : null,
+        is_shared: s.is_shared ?? null,
+        notes: s.notes || null,
+      })),
+    });
+
+    if (rpcError) {
+      console.error("Failed to save transaction splits:", rpcError);
+      return NextResponse.json(
+        { error: "Failed to save split" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, splits: saved ?? [] });
+  } catch (error) {
+    console.error("Error splitting transaction:", error);
+    return NextResponse.json(
+      { error: "Failed to save split" },
+      { status: 500 }
+    );
+  }
+}
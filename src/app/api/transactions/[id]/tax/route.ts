@@ -0,0 +1,137 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { parseBody, validateUuidParam } from "@/lib/validation";
+import { generalApiLimiter, generalReadLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { TAX_CATEGORIES } from "@/lib/tax-deductions";
+import { isTransactionOwner } from "@/lib/transaction-owner";
+
+/**
+ * GET /api/transactions/[id]/tax
+ *
+ * A transaction's tax deduction category and claimed percentage.
+ * `can_edit` is true only for the transaction's owner, since each partner
+ * claims deductions on their own return.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalReadLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id: transactionId } = await params;
+  const idError = validateUuidParam(transactionId);
+  if (idError) return idError;
+
+  const { data: transaction } = await supabase
+    .from("transactions")
+    .select("tax_category, tax_deductible_percent, accounts!inner(user_id)")
+    .eq("id", transactionId)
+    .maybeSingle();
+
+  if (!transaction) {
+    return NextResponse.json({ error: "Transaction not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    tax_category: transaction.tax_category,
+    tax_deductible_percent: transaction.tax_deductible_percent,
+    can_edit: isTransactionOwner(transaction, user.id),
+  });
+}
+
+/**
+ * PATCH /api/transactions/[id]/tax
+ *
+ * Mark one of the user's own transactions as tax deductible, or clear it.
+ *
+ * Request Body:
+ * {
+ *   tax_category: "work_related" | "home_office" | "self_education" | "donations" | "tax_affairs" | "other" | null,
+ *   tax_deductible_percent?: number  // 1-100, defaults to the current value
+ * }
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateCheck = await generalApiLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateCheck.retryAfterMs || 60000) / 1000)) } }
+    );
+  }
+
+  const { id: transactionId } = await params;
+  const idError = validateUuidParam(transactionId);
+  if (idError) return idError;
+
+  const taxSchema = z.object({
+    tax_category: z.enum(TAX_CATEGORIES).nullable(),
+    tax_deductible_percent: z.number().int().min(1).max(100).optional(),
+  });
+  const parsed = await parseBody(request, taxSchema);
+  if (parsed.response) return parsed.response;
+  const { tax_category, tax_deductible_percent } = parsed.data;
+
+  const { data: transaction } = await supabase
+    .from("transactions")
+    .select("id, accounts!inner(user_id)")
+    .eq("id", transactionId)
+    .maybeSingle();
+
+  if (!transaction) {
+    return NextResponse.json({ error: "Transaction not found" }, { status: 404 });
+  }
+  if (!isTransactionOwner(transaction, user.id)) {
+    return NextResponse.json(
+      { error: "You can only claim deductions on your own transactions" },
+      { status: 403 }
+    );
+  }
+
+  // Clearing the category resets the percentage so a later claim starts at 100%
+  const update: { tax_category: string | null; tax_deductible_percent?: number } = { tax_category };
+  if (tax_category === null) update.tax_deductible_percent = 100;
+  else if (tax_deductible_percent !== undefined) update.tax_deductible_percent = tax_deductible_percent;
+
+  const { data: updated, error } = await supabase
+    .from("transactions")
+    .update(update)
+    .eq("id", transactionId)
+    .select("tax_category, tax_deductible_percent")
+    .single();
+
+  if (error) {
+    console.error("Failed to update tax category:", error);
+    return NextResponse.json({ error: "Failed to update tax deduction" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, ...updated });
+}
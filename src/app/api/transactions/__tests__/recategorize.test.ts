@@ -5,6 +5,11 @@ vi.mock("@/utils/supabase/server", () => ({
   createClient: vi.fn(),
 }));
 
+vi.mock("@/lib/audit-logger", () => ({
+  auditLog: vi.fn(),
+  AuditAction: { CATEGORY_OVERRIDE: "CATEGORY_OVERRIDE" },
+}));
+
 // Valid UUIDs that pass Zod v4 strict UUID validation (version 4, variant 1)
 const TXN_1 = "a0000000-0000-4000-a000-000000000001";
 const ACC_1 = "a0000000-0000-4000-a000-000000000010";
@@ -134,6 +139,20 @@ describe("recategorize route", () => {
 
       // Verify override was inserted
       expect(tableChains["transaction_category_overrides"].insert).toHaveBeenCalled();
+
+      const { auditLog } = await import("@/lib/audit-logger");
+      expect(auditLog).toHaveBeenCalledWith({
+        userId: USER_123,
+        action: "CATEGORY_OVERRIDE",
+        details: {
+          transactionId: TXN_1,
+          description: "Test Merchant",
+          fromCategoryId: "restaurants-and-cafes",
+          toCategoryId: "groceries",
+          merchantRuleCreated: false,
+          bulkUpdatedCount: 0,
+        },
+      });
     });
 
     it("should return 401 when not authenticated", async () => {
@@ -180,6 +199,9 @@ describe("recategorize route", () => {
       });
 
       expect(response.status).toBe(403);
+
+      const { auditLog } = await import("@/lib/audit-logger");
+      expect(auditLog).not.toHaveBeenCalled();
     });
   });
 
@@ -456,6 +478,14 @@ describe("recategorize route", () => {
 
       // Verify override was deleted
       expect(tableChains["transaction_category_overrides"].delete).toHaveBeenCalled();
+
+      const { auditLog } = await import("@/lib/audit-logger");
+      expect(auditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "CATEGORY_OVERRIDE",
+          details: expect.objectContaining({ toCategoryId: "restaurants-and-cafes", resetToOriginal: true }),
+        })
+      );
     });
 
     it("should return 403 when user does not own the override", async () => {
@@ -10,7 +10,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const rateCheck = generalReadLimiter.check(user.id);
+  const rateCheck = await generalReadLimiter.check(user.id);
   if (!rateCheck.allowed) {
     return NextResponse.json(
       { error: "Too many requests. Please try again later." },
@@ -33,6 +33,7 @@ export async function GET(request: NextRequest) {
   const year = searchParams.get("year");
   const dateRange = searchParams.get("dateRange");
   const includeTransfers = searchParams.get("includeTransfers") === "true";
+  const hasAttachments = searchParams.get("hasAttachments") === "true";
   const incomeMode = searchParams.get("incomeMode") || "all_positive";
 
   // Validate UUID format for comma-separated ID parameters
@@ -104,6 +105,7 @@ export async function GET(request: NextRequest) {
       category:categories!category_id(id, name),
       parent_category:categories!parent_category_id(id, name),
       transaction_tags(tag_name),
+      transaction_splits(position, amount_cents, category_id, parent_category_id, is_shared),
       transaction_notes(id, note, is_partner_visible, user_id)
     `, { count: "exact" })
     .in("account_id", accountIds);
@@ -218,6 +220,11 @@ export async function GET(request: NextRequest) {
     query = query.is("transfer_account_id", null);
   }
 
+  // Only transactions with a receipt or other attachment
+  if (hasAttachments) {
+    query = query.gt("attachment_count", 0);
+  }
+
   // Note: Round-ups are not separate transactions in UP Bank
   // They're just a field (round_up_amount_cents) on regular transactions
   // So there's no "Include Round-ups" filter - round-ups always show as badges
@@ -334,6 +341,10 @@ export async function GET(request: NextRequest) {
       query = query.is("transfer_account_id", null);
     }
 
+    if (hasAttachments) {
+      query = query.gt("attachment_count", 0);
+    }
+
     return query;
   };
 
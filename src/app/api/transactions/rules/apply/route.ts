@@ -0,0 +1,193 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { isDemoMode, demoModeResponse } from "@/lib/demo-guard";
+import { batchOperationLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
+import { getUserPartnershipId } from "@/lib/get-user-partnership";
+import {
+  loadTransactionRules,
+  evaluateRules,
+  applyRuleSideEffects,
+  type RuleOutcome,
+} from "@/lib/transaction-rules";
+
+export const maxDuration = 120;
+
+const PAGE_SIZE = 1000;
+/** Upper bound on history scanned in one run */
+const MAX_TRANSACTIONS = 50000;
+const UPDATE_CHUNK_SIZE = 200;
+
+/**
+ * Re-apply the user's transaction rules to their existing transactions.
+ * POST /api/transactions/rules/apply
+ *
+ * Category changes skip transactions with a manual category override and
+ * descriptions covered by an exact merchant rule, matching the precedence
+ * used by the webhook. Tags, notes, share splits and the internal transfer
+ * flag are applied to every match. Transactions newly flagged as internal
+ * transfers lose their expense matches and income link, as the webhook
+ * never makes them for rule-flagged transfers.
+ */
+export async function POST(request: Request) {
+  if (isDemoMode()) return demoModeResponse();
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ip = getClientIp(request);
+  const rateLimitResult = await batchOperationLimiter.check(rateLimitKey(user.id, ip));
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil((rateLimitResult.retryAfterMs ?? 0) / 1000)) } }
+    );
+  }
+
+  const rules = await loadTransactionRules(supabase, user.id);
+  if (rules.length === 0) {
+    return NextResponse.json({ scanned: 0, matched: 0, recategorized: 0, updated: 0 });
+  }
+
+  const { data: accounts } = await supabase
+    .from("accounts")
+    .select("id")
+    .eq("user_id", user.id);
+  const accountIds = (accounts ?? []).map((a) => a.id);
+  if (accountIds.length === 0) {
+    return NextResponse.json({ scanned: 0, matched: 0, recategorized: 0, updated: 0 });
+  }
+
+  // 1. Evaluate rules across history
+  const matches: {
+    transactionId: string;
+    description: string;
+    categoryId: string | null;
+    parentCategoryId: string | null;
+    wasInternalTransfer: boolean;
+    outcome: RuleOutcome;
+  }[] = [];
+  let scanned = 0;
+
+  for (let from = 0; from < MAX_TRANSACTIONS; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from("transactions")
+      .select("id, description, amount_cents, account_id, card_number_suffix, card_purchase_method, foreign_currency_code, category_id, parent_category_id, is_internal_transfer")
+      .in("account_id", accountIds)
+      .neq("status", "DELETED")
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Failed to load transactions for rules:", error);
+      return NextResponse.json({ error: "Failed to load transactions" }, { status: 500 });
+    }
+
+    for (const txn of page ?? []) {
+      const outcome = evaluateRules(rules, txn);
+      if (outcome.matchedRuleIds.length > 0) {
+        matches.push({
+          transactionId: txn.id,
+          description: txn.description,
+          categoryId: txn.category_id,
+          parentCategoryId: txn.parent_category_id,
+          wasInternalTransfer: !!txn.is_internal_transfer,
+          outcome,
+        });
+      }
+    }
+
+    scanned += page?.length ?? 0;
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  // 2. Work out which category changes are allowed
+  const { data: merchantRules } = await supabase
+    .from("merchant_category_rules")
+    .select("merchant_description")
+    .eq("user_id", user.id);
+  const merchantDescriptions = new Set((merchantRules ?? []).map((r) => r.merchant_description));
+
+  const categoryCandidates = matches.filter(
+    (m) =>
+      m.outcome.categoryId &&
+      !merchantDescriptions.has(m.description) &&
+      (m.outcome.categoryId !== m.categoryId ||
+        (m.outcome.parentCategoryId ?? null) !== m.parentCategoryId)
+  );
+
+  const overridden = new Set<string>();
+  for (let i = 0; i < categoryCandidates.length; i += UPDATE_CHUNK_SIZE) {
+    const { data: overrides } = await supabase
+      .from("transaction_category_overrides")
+      .select("transaction_id")
+      .in("transaction_id", categoryCandidates.slice(i, i + UPDATE_CHUNK_SIZE).map((m) => m.transactionId));
+    for (const o of overrides ?? []) overridden.add(o.transaction_id);
+  }
+
+  // 3. Write category changes, grouped so each group is one UPDATE per chunk
+  const byCategory = new Map<string, { categoryId: string; parentCategoryId: string | null; ids: string[] }>();
+  for (const m of categoryCandidates) {
+    if (overridden.has(m.transactionId)) continue;
+    const parentCategoryId = m.outcome.parentCategoryId ?? null;
+    const key = `${m.outcome.categoryId}|${parentCategoryId}`;
+    const group = byCategory.get(key) ?? { categoryId: m.outcome.categoryId!, parentCategoryId, ids: [] };
+    group.ids.push(m.transactionId);
+    byCategory.set(key, group);
+  }
+
+  let recategorized = 0;
+  for (const group of byCategory.values()) {
+    for (let i = 0; i < group.ids.length; i += UPDATE_CHUNK_SIZE) {
+      const chunk = group.ids.slice(i, i + UPDATE_CHUNK_SIZE);
+      const { error } = await supabase
+        .from("transactions")
+        .update({ category_id: group.categoryId, parent_category_id: group.parentCategoryId })
+        .in("id", chunk);
+      if (error) {
+        console.error("Failed to recategorize rule matches:", error);
+      } else {
+        recategorized += chunk.length;
+      }
+    }
+  }
+
+  // 4. Everything else: tags, notes, share splits, transfer flag
+  const partnershipId = matches.some((m) => m.outcome.share)
+    ? await getUserPartnershipId(supabase, user.id)
+    : null;
+  const updated = await applyRuleSideEffects(
+    supabase,
+    { userId: user.id, partnershipId },
+    matches.map((m) => ({ transactionId: m.transactionId, outcome: m.outcome }))
+  );
+
+  // 5. Unlink newly flagged transfers from expenses and income
+  const newTransferIds = matches
+    .filter((m) => m.outcome.markInternalTransfer && !m.wasInternalTransfer)
+    .map((m) => m.transactionId);
+  for (let i = 0; i < newTransferIds.length; i += UPDATE_CHUNK_SIZE) {
+    const chunk = newTransferIds.slice(i, i + UPDATE_CHUNK_SIZE);
+    const [{ error: matchError }, { error: incomeError }] = await Promise.all([
+      supabase.from("expense_matches").delete().in("transaction_id", chunk),
+      supabase
+        .from("transactions")
+        .update({ is_income: false, income_type: null })
+        .in("id", chunk)
+        .eq("is_income", true),
+    ]);
+    if (matchError) console.error("Failed to remove expense matches from rule transfers:", matchError);
+    if (incomeError) console.error("Failed to clear income on rule transfers:", incomeError);
+  }
+
+  return NextResponse.json({
+    scanned,
+    matched: matches.length,
+    recategorized,
+    updated,
+  });
+}
@@ -3,6 +3,7 @@ import { getPlaintextToken } from "@/lib/token-encryption";
 import { inferCategoryId, ensureInferredCategories } from "@/lib/infer-category";
 import { syncLimiter, getClientIp, rateLimitKey } from "@/lib/rate-limiter";
 import { validateUpApiUrl } from "@/lib/up-api";
+import { syncLinkedDebtBalances } from "@/lib/net-worth-helpers";
 
 export const maxDuration = 300; // 5 minutes for long syncs
 
@@ -45,7 +46,7 @@ export async function POST(request: Request) {
   }
 
   const ip = getClientIp(request);
-  const rateLimitResult = syncLimiter.check(rateLimitKey(user.id, ip));
+  const rateLimitResult = await syncLimiter.check(rateLimitKey(user.id, ip));
   if (!rateLimitResult.allowed) {
     return Response.json(
       { error: "Too many requests. Please try again later." },
@@ -175,6 +176,17 @@ export async function POST(request: Request) {
           }
 
           upAccountIdToDbId.set(account.id, savedAccount.id);
+
+          // Debts linked to this account follow its balance
+          try {
+            await syncLinkedDebtBalances(
+              supabase,
+              [savedAccount.id],
+              account.attributes.balance.valueInBaseUnits
+            );
+          } catch (err) {
+            console.error(`Failed to sync debts linked to ${account.id}:`, err);
+          }
         }
 
         // Pre-load overrides and merchant rules for category resolution
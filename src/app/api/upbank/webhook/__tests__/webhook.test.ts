@@ -76,6 +76,73 @@ function createRequest(
   });
 }
 
+type Row = Record<string, unknown>;
+
+/**
+ * Minimal in-memory stand-in for the Supabase query builder, so a test can
+ * run several webhook events against the same rows.
+ */
+function memorySupabase(tables: Record<string, Row[]>) {
+  let nextId = 1;
+
+  function query(table: string) {
+    const rows = (tables[table] ??= []);
+    const filters: ((row: Row) => boolean)[] = [];
+    let write: (() => Row[]) | null = null;
+
+    const run = () => {
+      const data = write ? write() : rows.filter((r) => filters.every((f) => f(r)));
+      return { data, error: null };
+    };
+    const builder: Record<string, unknown> = {};
+    Object.assign(builder, {
+      select: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      eq: (col: string, value: unknown) => (filters.push((r) => r[col] === value), builder),
+      neq: (col: string, value: unknown) => (filters.push((r) => r[col] !== value), builder),
+      is: (col: string, value: unknown) => (filters.push((r) => (r[col] ?? null) === value), builder),
+      in: (col: string, values: unknown[]) => (filters.push((r) => values.includes(r[col])), builder),
+      upsert: (input: Row | Row[], opts: { onConflict?: string; ignoreDuplicates?: boolean } = {}) => {
+        const keys = (opts.onConflict ?? "id").split(",");
+        write = () =>
+          [input].flat().flatMap((row) => {
+            const existing = rows.find((r) => keys.every((k) => r[k] === row[k]));
+            if (existing && opts.ignoreDuplicates) return [];
+            if (existing) return [Object.assign(existing, row)];
+            const created = { id: `row-${nextId++}`, ...row };
+            rows.push(created);
+            return [created];
+          });
+        return builder;
+      },
+      insert: (input: Row | Row[]) => {
+        write = () => [input].flat().map((row) => (rows.push({ id: `row-${nextId++}`, ...row }), rows[rows.length - 1]));
+        return builder;
+      },
+      update: (values: Row) => {
+        write = () => rows.filter((r) => filters.every((f) => f(r))).map((r) => Object.assign(r, values));
+        return builder;
+      },
+      delete: () => {
+        write = () => {
+          const removed = rows.filter((r) => filters.every((f) => f(r)));
+          tables[table] = rows.filter((r) => !removed.includes(r));
+          return removed;
+        };
+        return builder;
+      },
+      maybeSingle: () => Promise.resolve({ data: run().data[0] ?? null, error: null }),
+      single: () => Promise.resolve({ data: run().data[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+        Promise.resolve(run()).then(resolve, reject),
+    });
+    return builder;
+  }
+
+  return { from: query };
+}
+
 describe("webhook route", () => {
   const WEBHOOK_SECRET = "test-webhook-secret";
   const ENCRYPTED_TOKEN = "test-token";
@@ -447,7 +514,7 @@ describe("webhook route", () => {
   });
 
   describe("Goal sync via webhook", () => {
-    it("should update linked savings goal when saver account balance changes", async () => {
+    it("should update linked savings goals and debts when the account balance changes", async () => {
       mockMaybeSingle.mockImplementation(() => {
         return Promise.resolve({
           data: {
@@ -517,6 +584,8 @@ describe("webhook route", () => {
       // Track goal update calls
       const mockGoalUpdateEq = vi.fn(() => ({ error: null }));
       const mockGoalUpdate = vi.fn(() => ({ eq: mockGoalUpdateEq }));
+      const mockDebtUpdateIn = vi.fn(() => ({ neq: vi.fn(() => ({ error: null })) }));
+      const mockDebtUpdate = vi.fn(() => ({ in: mockDebtUpdateIn }));
 
       mockFrom.mockImplementation((table: string) => {
         if (table === "up_api_configs") {
@@ -634,6 +703,9 @@ describe("webhook route", () => {
             insert: vi.fn(() => ({ error: null })),
           };
         }
+        if (table === "debts") {
+          return { update: mockDebtUpdate };
+        }
         if (table === "transactions") {
           return {
             select: vi.fn(() => ({
@@ -687,6 +759,9 @@ describe("webhook route", () => {
       expect(mockFrom).toHaveBeenCalledWith("savings_goals");
       // Verify the goal update was called
       expect(mockGoalUpdate).toHaveBeenCalled();
+      // Linked debts take the new balance
+      expect(mockDebtUpdate).toHaveBeenCalledWith(expect.objectContaining({ balance_cents: 150000 }));
+      expect(mockDebtUpdateIn).toHaveBeenCalledWith("linked_account_id", ["local-saver-1"]);
     });
   });
 
@@ -757,7 +832,7 @@ describe("webhook route", () => {
         return Promise.resolve({ ok: false, status: 404 });
       });
 
-      const mockSnapshotInsert = vi.fn(() => ({ error: null }));
+      const mockSnapshotInsert = vi.fn((_row: Record<string, unknown>) => ({ error: null }));
 
       mockFrom.mockImplementation((table: string) => {
         if (table === "up_api_configs") {
@@ -835,6 +910,29 @@ describe("webhook route", () => {
             })),
           };
         }
+        if (table === "debts") {
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                data: [
+                  { balance_cents: 2000000, linked_account_id: null },
+                  { balance_cents: 50000000, linked_account_id: "acc-home-loan" },
+                ],
+                error: null,
+              })),
+            })),
+          };
+        }
+        if (table === "super_accounts") {
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                data: [{ balance_cents: 15000000 }, { balance_cents: 9000000 }],
+                error: null,
+              })),
+            })),
+          };
+        }
         if (table === "net_worth_snapshots") {
           return {
             select: vi.fn(() => ({
@@ -899,6 +997,9 @@ describe("webhook route", () => {
       // Verify net_worth_snapshots table was accessed
       expect(mockFrom).toHaveBeenCalledWith("net_worth_snapshots");
       expect(mockSnapshotInsert).toHaveBeenCalled();
+      // Linked debts are already in the account balances
+      expect(mockSnapshotInsert.mock.calls[0][0]).toMatchObject({ liability_total_cents: 2000000 });
+      expect(mockSnapshotInsert.mock.calls[0][0]).toMatchObject({ super_total_cents: 24000000 });
     });
   });
 
@@ -1086,4 +1187,252 @@ describe("webhook route", () => {
       expect(json.success).toBe(true);
     });
   });
+
+  describe("Rule-flagged internal transfers", () => {
+    // A settled -$500 payment whose rule marks it as an internal transfer
+    async function processTransferPayment(actions: Record<string, unknown>) {
+      mockMaybeSingle.mockResolvedValue({
+        data: {
+          webhook_secret: WEBHOOK_SECRET,
+          encrypted_token: ENCRYPTED_TOKEN,
+          user_id: "user-123",
+        },
+        error: null,
+      });
+
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (url.includes("/transactions/")) {
+          return Promise.resolve({
+            ok: true,
+            json: () =>
+              Promise.resolve({
+                data: {
+                  type: "transactions",
+                  id: "txn-transfer-1",
+                  attributes: {
+                    status: "SETTLED",
+                    description: "Transfer to Offset",
+                    rawText: null,
+                    message: null,
+                    isCategorizable: true,
+                    holdInfo: null,
+                    roundUp: null,
+                    cashback: null,
+                    amount: { currencyCode: "AUD", value: "-500.00", valueInBaseUnits: -50000 },
+                    foreignAmount: null,
+                    cardPurchaseMethod: null,
+                    settledAt: "2026-01-15T00:00:00Z",
+                    createdAt: "2026-01-15T00:00:00Z",
+                  },
+                  relationships: {
+                    account: { data: { type: "accounts", id: "acc-1" } },
+                    transferAccount: { data: null },
+                    category: { data: null },
+                    parentCategory: { data: null },
+                    tags: { data: [] },
+                  },
+                },
+              }),
+          });
+        }
+        return Promise.resolve({ ok: false, status: 404 });
+      });
+
+      const maybeNull = () => ({
+        maybeSingle: vi.fn(() => Promise.resolve({ data: null, error: null })),
+      });
+      mockFrom.mockImplementation((table: string) => {
+        if (table === "up_api_configs") return { select: mockSelect };
+        if (table === "accounts") {
+          const account = {
+            maybeSingle: vi.fn(() =>
+              Promise.resolve({ data: { id: "local-acc-1", ownership_type: "INDIVIDUAL" }, error: null })
+            ),
+          };
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({ limit: vi.fn(() => account), eq: vi.fn(() => account) })),
+            })),
+          };
+        }
+        if (table === "transactions") {
+          return {
+            select: vi.fn(() => ({ eq: vi.fn(() => ({ eq: vi.fn(maybeNull) })) })),
+            upsert: vi.fn(() => ({
+              select: vi.fn(() => ({
+                single: vi.fn(() => Promise.resolve({ data: { id: "saved-txn-transfer-1" }, error: null })),
+              })),
+            })),
+          };
+        }
+        if (table === "merchant_category_rules") {
+          return { select: vi.fn(() => ({ eq: vi.fn(() => ({ eq: vi.fn(maybeNull) })) })) };
+        }
+        return {
+          select: vi.fn(() => ({ eq: vi.fn(maybeNull) })),
+          upsert: vi.fn(() => ({ error: null })),
+          insert: vi.fn(() => ({ error: null })),
+        };
+      });
+
+      const applyRuleSideEffects = vi.fn(() => Promise.resolve());
+      vi.doMock("@/lib/transaction-rules", async (importOriginal) => ({
+        ...(await importOriginal<typeof import("@/lib/transaction-rules")>()),
+        loadTransactionRules: vi.fn(() =>
+          Promise.resolve([
+            {
+              id: "rule-1",
+              name: "Offset transfers",
+              priority: 1,
+              is_active: true,
+              stop_processing: false,
+              conditions: { descriptionContains: "Offset" },
+              actions,
+            },
+          ])
+        ),
+        applyRuleSideEffects,
+      }));
+
+      const body = JSON.stringify(
+        createWebhookPayload("TRANSACTION_SETTLED", "webhook-123", "txn-transfer-1")
+      );
+      const { POST } = await import("@/app/api/upbank/webhook/route");
+      const response = await POST(createRequest(body, signPayload(body, WEBHOOK_SECRET)));
+      vi.doUnmock("@/lib/transaction-rules");
+      return { response, applyRuleSideEffects };
+    }
+
+    it("does not match a rule-flagged transfer to expenses", async () => {
+      const { response, applyRuleSideEffects } = await processTransferPayment({
+        markInternalTransfer: true,
+      });
+
+      expect(response.status).toBe(200);
+      expect(applyRuleSideEffects).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        [expect.objectContaining({ outcome: expect.objectContaining({ markInternalTransfer: true }) })]
+      );
+      const { matchSingleTransactionToExpenses } = await import("@/lib/match-expense-transactions");
+      expect(matchSingleTransactionToExpenses).not.toHaveBeenCalled();
+    });
+
+    it("still matches the payment when the rule only tags it", async () => {
+      const { response } = await processTransferPayment({ addTags: ["offset"] });
+
+      expect(response.status).toBe(200);
+      const { matchSingleTransactionToExpenses } = await import("@/lib/match-expense-transactions");
+      expect(matchSingleTransactionToExpenses).toHaveBeenCalledWith(
+        "saved-txn-transfer-1",
+        "Transfer to Offset",
+        "local-acc-1",
+        "2026-01-15T00:00:00Z",
+        -50000
+      );
+    });
+    it("keeps the user's edits when a later event re-runs the rule", async () => {
+      const tables: Record<string, Row[]> = {
+        up_api_configs: [
+          { webhook_id: "webhook-123", webhook_secret: WEBHOOK_SECRET, encrypted_token: ENCRYPTED_TOKEN, user_id: "user-123" },
+        ],
+        accounts: [{ id: "local-acc-1", up_account_id: "acc-1", ownership_type: "INDIVIDUAL" }],
+        partnership_members: [{ user_id: "user-123", partnership_id: "partnership-1" }],
+      };
+      const { createServiceRoleClient } = await import("@/utils/supabase/service-role");
+      (createServiceRoleClient as any).mockReturnValue(memorySupabase(tables));
+
+      let status = "HELD";
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (!url.includes("/transactions/")) return Promise.resolve({ ok: false, status: 404 });
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              data: {
+                type: "transactions",
+                id: "txn-transfer-1",
+                attributes: {
+                  status,
+                  description: "Transfer to Offset",
+                  rawText: null,
+                  message: null,
+                  isCategorizable: true,
+                  holdInfo: null,
+                  roundUp: null,
+                  cashback: null,
+                  amount: { currencyCode: "AUD", value: "-500.00", valueInBaseUnits: -50000 },
+                  foreignAmount: null,
+                  cardPurchaseMethod: null,
+                  settledAt: status === "SETTLED" ? "2026-01-15T00:00:00Z" : null,
+                  createdAt: "2026-01-15T00:00:00Z",
+                },
+                relationships: {
+                  account: { data: { type: "accounts", id: "acc-1" } },
+                  transferAccount: { data: null },
+                  category: { data: null },
+                  parentCategory: { data: null },
+                  tags: { data: [] },
+                },
+              },
+            }),
+        });
+      });
+
+      vi.doMock("@/lib/transaction-rules", async (importOriginal) => ({
+        ...(await importOriginal<typeof import("@/lib/transaction-rules")>()),
+        loadTransactionRules: vi.fn(() =>
+          Promise.resolve([
+            {
+              id: "rule-1",
+              name: "Offset transfers",
+              priority: 1,
+              is_active: true,
+              stop_processing: false,
+              conditions: { descriptionContains: "Offset" },
+              actions: {
+                addTags: ["offset"],
+                share: { isShared: true, sharePercentage: 50 },
+                markInternalTransfer: true,
+              },
+            },
+          ])
+        ),
+      }));
+      const { POST } = await import("@/app/api/upbank/webhook/route");
+      const send = (eventType: string) => {
+        const body = JSON.stringify(createWebhookPayload(eventType, "webhook-123", "txn-transfer-1"));
+        return POST(createRequest(body, signPayload(body, WEBHOOK_SECRET)));
+      };
+
+      expect((await send("TRANSACTION_CREATED")).status).toBe(200);
+      const [txn] = tables.transactions;
+      expect(txn.is_internal_transfer).toBe(true);
+      expect(tables.transaction_tags).toEqual([{ id: expect.any(String), transaction_id: txn.id, tag_name: "offset" }]);
+      expect(tables.transaction_share_overrides).toEqual([
+        expect.objectContaining({ transaction_id: txn.id, is_shared: true, share_percentage: 50 }),
+      ]);
+
+      // The user changes the split, removes the tag and un-flags the transfer
+      tables.transaction_share_overrides[0].share_percentage = 80;
+      tables.transaction_tags = [];
+      txn.is_internal_transfer = false;
+      txn.internal_transfer_type = null;
+
+      status = "SETTLED";
+      expect((await send("TRANSACTION_SETTLED")).status).toBe(200);
+      vi.doUnmock("@/lib/transaction-rules");
+
+      expect(tables.transactions).toHaveLength(1);
+      expect(txn.status).toBe("SETTLED");
+      expect(tables.transaction_share_overrides).toEqual([
+        expect.objectContaining({ transaction_id: txn.id, share_percentage: 80 }),
+      ]);
+      expect(tables.transaction_tags).toEqual([]);
+      expect(txn.is_internal_transfer).toBe(false);
+      // No longer a transfer, so the settled payment is matched to expenses
+      const { matchSingleTransactionToExpenses } = await import("@/lib/match-expense-transactions");
+      expect(matchSingleTransactionToExpenses).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -13,8 +13,10 @@ import { createHmac, timingSafeEqual } from "crypto";
 import { matchSingleTransactionToExpenses, matchSingleTransactionToIncomeSources } from "@/lib/match-expense-transactions";
 import { inferCategoryId, ensureInferredCategories } from "@/lib/infer-category";
 import { aiCategorizeTransaction } from "@/lib/ai-categorize";
+import { loadTransactionRules, evaluateRules, applyRuleSideEffects } from "@/lib/transaction-rules";
 import { getPlaintextToken } from "@/lib/token-encryption";
 import { webhookLimiter, getClientIp } from "@/lib/rate-limiter";
+import { sumPartnershipLiabilities, sumPartnershipSuper, syncLinkedDebtBalances } from "@/lib/net-worth-helpers";
 
 // Up Bank Webhook Event Types
 type WebhookEventType =
@@ -266,6 +268,7 @@ async function updateAccountBalance(
   }
 
   // Sync any linked savings goals
+  let accountIds: string[] = [];
   try {
     const { data: accountRows } = await supabase
       .from("accounts")
@@ -273,7 +276,7 @@ async function updateAccountBalance(
       .eq("up_account_id", upAccountId);
 
     if (accountRows && accountRows.length > 0) {
-      const accountIds = accountRows.map((a) => a.id);
+      accountIds = accountRows.map((a) => a.id);
 
       const { data: linkedGoals } = await supabase
         .from("savings_goals")
@@ -322,6 +325,13 @@ async function updateAccountBalance(
     console.error("Error syncing linked goals:", err);
   }
 
+  // Linked debts follow the account too
+  try {
+    await syncLinkedDebtBalances(supabase, accountIds, newBalance);
+  } catch (err) {
+    console.error("Error syncing linked debts:", err);
+  }
+
   // Upsert today's net worth snapshot for the user's partnership
   try {
     const { data: membership } = await supabase
@@ -382,6 +392,9 @@ async function updateAccountBalance(
           0
         );
 
+        const liabilityTotal = await sumPartnershipLiabilities(supabase, membership.partnership_id);
+        const superTotal = await sumPartnershipSuper(supabase, membership.partnership_id);
+
         const today = new Date().toISOString().split("T")[0];
 
         // Use upsert with onConflict to avoid race condition when
@@ -393,6 +406,8 @@ async function updateAccountBalance(
             total_balance_cents: totalBalance,
             account_breakdown: breakdown,
             investment_total_cents: investmentTotal,
+            super_total_cents: superTotal,
+            liability_total_cents: liabilityTotal,
           },
           { onConflict: "partnership_id,snapshot_date" }
         );
@@ -465,10 +480,27 @@ async function processTransaction(
     amountCents: txn.attributes.amount.valueInBaseUnits,
   });
 
-  // Check merchant category rules (user's explicit rules take precedence)
   let finalCategoryId = categoryId;
   let finalParentCategoryId = txn.relationships.parentCategory.data?.id || null;
 
+  // Apply user-defined transaction rules
+  const rules = await loadTransactionRules(supabase, userId);
+  const ruleOutcome = evaluateRules(rules, {
+    description: txn.attributes.description,
+    amount_cents: txn.attributes.amount.valueInBaseUnits,
+    account_id: account.id,
+    card_number_suffix: txn.attributes.cardPurchaseMethod?.cardNumberSuffix || null,
+    card_purchase_method: txn.attributes.cardPurchaseMethod?.method || null,
+    foreign_currency_code: txn.attributes.foreignAmount?.currencyCode || null,
+  });
+
+  if (ruleOutcome.categoryId) {
+    finalCategoryId = ruleOutcome.categoryId;
+    finalParentCategoryId = ruleOutcome.parentCategoryId ?? null;
+  }
+
+  // Check merchant category rules (exact-description rules take precedence)
+
   const { data: merchantRule } = await supabase
     .from("merchant_category_rules")
     .select("category_id, parent_category_id")
@@ -484,7 +516,7 @@ async function processTransaction(
   // Check if this transaction already exists with a user override (highest priority)
   const { data: existingTxn } = await supabase
     .from("transactions")
-    .select("id")
+    .select("id, is_internal_transfer, internal_transfer_type")
     .eq("account_id", account.id)
     .eq("up_transaction_id", txn.id)
     .maybeSingle();
@@ -575,8 +607,34 @@ async function processTransaction(
     }
   }
 
-  // 5. Match to expenses (negative amounts) or income sources (positive amounts)
-  if (savedTransaction && txn.attributes.amount.valueInBaseUnits < 0) {
+  // 4.5 Apply rule actions beyond categorisation (tags, notes, split, transfer flag).
+  // Only on first insert: later events (e.g. SETTLED) would otherwise undo
+  // tag, share or transfer edits the user made since.
+  if (savedTransaction && !existingTxn && ruleOutcome.matchedRuleIds.length > 0) {
+    let partnershipId: string | null = null;
+    if (ruleOutcome.share) {
+      const { data: membership } = await supabase
+        .from("partnership_members")
+        .select("partnership_id")
+        .eq("user_id", userId)
+        .maybeSingle();
+      partnershipId = membership?.partnership_id ?? null;
+    }
+
+    await applyRuleSideEffects(supabase, { userId, partnershipId }, [
+      { transactionId: savedTransaction.id, outcome: ruleOutcome },
+    ]);
+  }
+
+  // 5. Match to expenses (negative amounts) or income sources (positive amounts).
+  // A rule-flagged internal transfer is money moving between accounts, not a
+  // bill or pay, so it's skipped just as history matching skips Up transfers.
+  // An existing row keeps whatever flag the user has left on it.
+  const ruleTransfer = existingTxn
+    ? existingTxn.is_internal_transfer === true && existingTxn.internal_transfer_type === "rule"
+    : ruleOutcome.markInternalTransfer;
+  const matchable = savedTransaction && !ruleTransfer;
+  if (matchable && txn.attributes.amount.valueInBaseUnits < 0) {
     await matchSingleTransactionToExpenses(
       savedTransaction.id,
       txn.attributes.description,
@@ -584,7 +642,7 @@ async function processTransaction(
       txn.attributes.settledAt || txn.attributes.createdAt,
       txn.attributes.amount.valueInBaseUnits
     );
-  } else if (savedTransaction && txn.attributes.amount.valueInBaseUnits > 0) {
+  } else if (matchable && txn.attributes.amount.valueInBaseUnits > 0) {
     await matchSingleTransactionToIncomeSources(
       savedTransaction.id,
       txn.attributes.description,
@@ -677,7 +735,7 @@ export async function POST(request: Request) {
   try {
     // Rate limit by IP to prevent webhook endpoint abuse
     const ip = getClientIp(request);
-    const rateCheck = webhookLimiter.check(ip);
+    const rateCheck = await webhookLimiter.check(ip);
     if (!rateCheck.allowed) {
       return NextResponse.json(
         { error: "Too many requests" },
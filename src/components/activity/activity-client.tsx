@@ -37,6 +37,7 @@ interface Transaction {
   category?: { name: string } | { name: string }[];
   parent_category?: { name: string } | { name: string }[];
   transaction_tags?: { tag_name: string }[];
+  transaction_splits?: Array<{ position: number; amount_cents: number; category_id: string | null; parent_category_id: string | null; is_shared: boolean | null }>;
   transaction_notes?: Array<{ id: string; note: string; is_partner_visible: boolean; user_id: string }>;
 }
 
@@ -111,6 +112,7 @@ export function ActivityClient({
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [includeTransfers, setIncludeTransfers] = useState(false);
+  const [hasAttachments, setHasAttachments] = useState(false);
 
   // Track if we have URL-based filters (to show back button)
   // Only show for income source filter since categories now go to /budget/[category]
@@ -166,6 +168,7 @@ export function ActivityClient({
       if (minAmount) params.set("minAmount", minAmount);
       if (maxAmount) params.set("maxAmount", maxAmount);
       if (includeTransfers) params.set("includeTransfers", "true");
+      if (hasAttachments) params.set("hasAttachments", "true");
 
       const response = await fetch(`/api/transactions?${params.toString()}`);
       const data = await response.json();
@@ -184,7 +187,7 @@ export function ActivityClient({
     } finally {
       setLoading(false);
     }
-  }, [loading, hasMore, transactions.length, searchTerm, selectedAccount, selectedCategory, selectedStatus, selectedYear, startDate, endDate, minAmount, maxAmount]);
+  }, [loading, hasMore, transactions.length, searchTerm, selectedAccount, selectedCategory, selectedStatus, selectedYear, startDate, endDate, minAmount, maxAmount, hasAttachments]);
 
   // Trigger load more when scrolling into view
   useEffect(() => {
@@ -237,6 +240,7 @@ export function ActivityClient({
         if (minAmount) params.set("minAmount", minAmount);
         if (maxAmount) params.set("maxAmount", maxAmount);
         if (includeTransfers) params.set("includeTransfers", "true");
+        if (hasAttachments) params.set("hasAttachments", "true");
         params.set("incomeMode", incomeMode);
 
         const response = await fetch(`/api/transactions?${params.toString()}`);
@@ -260,7 +264,7 @@ export function ActivityClient({
     };
 
     refetchTransactions();
-  }, [searchTerm, selectedAccount, selectedAccounts, selectedCategory, selectedCategories, selectedStatus, selectedYear, selectedYears, dateRange, startDate, endDate, minAmount, maxAmount, includeTransfers, incomeMode]);
+  }, [searchTerm, selectedAccount, selectedAccounts, selectedCategory, selectedCategories, selectedStatus, selectedYear, selectedYears, dateRange, startDate, endDate, minAmount, maxAmount, includeTransfers, hasAttachments, incomeMode]);
 
   const handleMarkAsIncome = async (transactionId: string) => {
     const result = await markTransactionAsIncome(transactionId, true, "other");
@@ -292,6 +296,7 @@ export function ActivityClient({
     endDate,
     minAmount,
     maxAmount,
+    hasAttachments ? "attachments" : "",
   ].filter(Boolean).length;
 
   const clearFilters = () => {
@@ -309,6 +314,7 @@ export function ActivityClient({
     setMinAmount("");
     setMaxAmount("");
     setIncludeTransfers(false);
+    setHasAttachments(false);
   };
 
   // Dynamic label based on active filters
@@ -432,6 +438,14 @@ export function ActivityClient({
     });
   }
 
+  if (hasAttachments) {
+    activeFilters.push({
+      label: `📎 Has receipt`,
+      key: "attachments",
+      onRemove: () => setHasAttachments(false)
+    });
+  }
+
   return (
     <div className="space-y-4 md:space-y-6">
       {/* Back Button - Show when navigating from Budget with income source filter */}
@@ -625,6 +639,8 @@ export function ActivityClient({
         setEndDate={setEndDate}
         includeTransfers={includeTransfers}
         setIncludeTransfers={setIncludeTransfers}
+        hasAttachments={hasAttachments}
+        setHasAttachments={setHasAttachments}
         accounts={accounts}
         categories={categories}
         availableYears={availableYears}
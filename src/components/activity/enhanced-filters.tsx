@@ -50,6 +50,8 @@ interface EnhancedFiltersProps {
   setEndDate: (date: string) => void;
   includeTransfers: boolean;
   setIncludeTransfers: (include: boolean) => void;
+  hasAttachments: boolean;
+  setHasAttachments: (hasAttachments: boolean) => void;
   accounts: Array<{ id: string; display_name: string }>;
   categories: Array<{ id: string; name: string; parent_category_id?: string | null }>;
   availableYears: number[];
@@ -317,6 +319,8 @@ export function EnhancedFilters({
   setEndDate,
   includeTransfers,
   setIncludeTransfers,
+  hasAttachments,
+  setHasAttachments,
   accounts,
   categories,
   availableYears,
@@ -582,6 +586,26 @@ export function EnhancedFilters({
                     </div>
                   </div>
 
+                  <div
+                    className="flex items-center gap-3 p-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors"
+                    onClick={() => setHasAttachments(!hasAttachments)}
+                  >
+                    <Checkbox
+                      id="has-attachments"
+                      checked={hasAttachments}
+                      onCheckedChange={(checked) => setHasAttachments(checked === true)}
+                      className="h-5 w-5"
+                    />
+                    <div className="flex-1">
+                      <label htmlFor="has-attachments" className="font-[family-name:var(--font-dm-sans)] text-sm block cursor-pointer" style={{ color: 'var(--text-primary)' }}>
+                        Has Receipt
+                      </label>
+                      <span className="font-[family-name:var(--font-dm-sans)] text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                        Only transactions with a receipt or document attached
+                      </span>
+                    </div>
+                  </div>
+
                   {/* Income Mode Toggle */}
                   <div
                     className="flex items-center gap-3 p-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors"
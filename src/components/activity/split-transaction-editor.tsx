@@ -0,0 +1,258 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, Loader2 } from "lucide-react";
+import { useCategoryMapping } from "@/contexts/category-context";
+import { MAX_SPLIT_LINES, validateSplitLines, type TransactionSplit } from "@/lib/transaction-splits";
+
+type ShareChoice = "inherit" | "shared" | "individual";
+
+interface DraftLine {
+  amount: string;
+  categoryId: string;
+  share: ShareChoice;
+}
+
+type ExistingSplit = Pick<TransactionSplit, "position" | "amount_cents" | "category_id" | "is_shared">;
+
+interface SplitTransactionEditorProps {
+  transaction: {
+    id: string;
+    amount_cents: number;
+    /** Full amount when a category view scoped amount_cents to its lines */
+    split_total_cents?: number;
+    category_id: string | null;
+    transaction_splits?: ExistingSplit[] | null;
+  };
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+const NONE = "__none__";
+
+const toShareChoice = (isShared: boolean | null | undefined): ShareChoice =>
+  isShared === true ? "shared" : isShared === false ? "individual" : "inherit";
+
+const fromShareChoice = (share: ShareChoice): boolean | null =>
+  share === "shared" ? true : share === "individual" ? false : null;
+
+const toDollars = (cents: number) => (Math.abs(cents) / 100).toFixed(2);
+
+/** Parse a dollar string into positive cents, or null if invalid */
+const parseCents = (value: string): number | null => {
+  const n = Number(value.replace(/[$,\s]/g, ""));
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.round(n * 100);
+};
+
+export function SplitTransactionEditor({ transaction, onCancel, onSaved }: SplitTransactionEditorProps) {
+  const { mappings } = useCategoryMapping();
+  const existing = transaction.transaction_splits ?? [];
+  const amountCents = transaction.split_total_cents ?? transaction.amount_cents;
+  const sign = amountCents < 0 ? -1 : 1;
+  const totalCents = Math.abs(amountCents);
+
+  const [lines, setLines] = useState<DraftLine[]>(() =>
+    existing.length > 0
+      ? [...existing]
+          .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+          .map((s) => ({
+            amount: toDollars(s.amount_cents),
+            categoryId: s.category_id ?? NONE,
+            share: toShareChoice(s.is_shared),
+          }))
+      : [
+          { amount: toDollars(totalCents), categoryId: transaction.category_id ?? NONE, share: "inherit" },
+          { amount: "", categoryId: NONE, share: "inherit" },
+        ]
+  );
+  const [saving, setSaving] = useState<"save" | "remove" | false>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const categories = useMemo(
+    () =>
+      Array.from(mappings.values()).sort(
+        (a, b) =>
+          a.newParentName.localeCompare(b.newParentName) ||
+          a.displayOrder - b.displayOrder
+      ),
+    [mappings]
+  );
+
+  const allocatedCents = lines.reduce((sum, l) => sum + (parseCents(l.amount) ?? 0), 0);
+  const remainingCents = totalCents - allocatedCents;
+
+  const formatCurrency = (cents: number) =>
+    new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(cents / 100);
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) => {
+    setLines((prev) => prev.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+  };
+
+  const addLine = () => {
+    setLines((prev) => [
+      ...prev,
+      { amount: remainingCents > 0 ? toDollars(remainingCents) : "", categoryId: NONE, share: "inherit" },
+    ]);
+  };
+
+  const removeLine = (index: number) => {
+    setLines((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const submit = async (splits: { amount_cents: number; category_id: string | null; is_shared: boolean | null }[]) => {
+    const response = await fetch(`/api/transactions/${transaction.id}/splits`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ splits }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || "Failed to save split");
+    }
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    const splits = lines.map((l) => ({
+      amount_cents: (parseCents(l.amount) ?? 0) * sign,
+      category_id: l.categoryId === NONE ? null : l.categoryId,
+      is_shared: fromShareChoice(l.share),
+    }));
+
+    const validationError = validateSplitLines(amountCents, splits);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (splits.some((s) => !s.category_id)) {
+      setError("Choose a category for every line");
+      return;
+    }
+
+    setSaving("save");
+    try {
+      await submit(splits);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save split");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setError(null);
+    setSaving("remove");
+    try {
+      await submit([]);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove split");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-xl" style={{ backgroundColor: 'var(--surface-secondary)' }}>
+      {lines.map((line, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              inputMode="decimal"
+              placeholder="0.00"
+              value={line.amount}
+              onChange={(e) => updateLine(index, { amount: e.target.value })}
+              className="w-24 font-[family-name:var(--font-dm-sans)]"
+              aria-label={`Line ${index + 1} amount`}
+            />
+            <Select value={line.categoryId} onValueChange={(v) => updateLine(index, { categoryId: v })}>
+              <SelectTrigger className="flex-1 min-w-0 font-[family-name:var(--font-dm-sans)]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Choose category</SelectItem>
+                {categories.map((c) => (
+                  <SelectItem key={c.upCategoryId} value={c.upCategoryId}>
+                    {c.icon} {c.newParentName} › {c.newChildName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeLine(index)}
+              disabled={lines.length <= 2}
+              aria-label={`Remove line ${index + 1}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Select value={line.share} onValueChange={(v) => updateLine(index, { share: v as ShareChoice })}>
+            <SelectTrigger className="h-8 text-xs font-[family-name:var(--font-dm-sans)]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="inherit">Same as transaction</SelectItem>
+              <SelectItem value="shared">Shared with partner</SelectItem>
+              <SelectItem value="individual">Just mine</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={addLine}
+          disabled={lines.length >= MAX_SPLIT_LINES}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add line
+        </Button>
+        <span
+          className="font-[family-name:var(--font-dm-sans)] text-xs"
+          style={{ color: remainingCents === 0 ? 'var(--pastel-mint-dark)' : 'var(--pastel-coral-dark)' }}
+        >
+          {remainingCents === 0
+            ? "Fully allocated"
+            : remainingCents > 0
+              ? `${formatCurrency(remainingCents)} left to allocate`
+              : `${formatCurrency(-remainingCents)} over`}
+        </span>
+      </div>
+
+      {error && (
+        <p className="font-[family-name:var(--font-dm-sans)] text-sm" style={{ color: 'var(--error)' }}>{error}</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={!!saving} className="flex-1">
+          {saving === "save" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Split
+        </Button>
+        {existing.length > 0 && (
+          <Button variant="outline" onClick={handleRemove} disabled={!!saving}>
+            {saving === "remove" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Unsplit
+          </Button>
+        )}
+        <Button variant="ghost" onClick={onCancel} disabled={!!saving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import {
+  TAX_CATEGORIES,
+  TAX_CATEGORY_INFO,
+  deductibleCents,
+  type TaxCategory,
+} from "@/lib/tax-deductions";
+
+interface TaxDeductionEditorProps {
+  transactionId: string;
+  amountCents: number;
+}
+
+const NOT_DEDUCTIBLE = "__none__";
+
+export function TaxDeductionEditor({ transactionId, amountCents }: TaxDeductionEditorProps) {
+  const [category, setCategory] = useState<TaxCategory | null>(null);
+  const [percent, setPercent] = useState(100);
+  const [percentInput, setPercentInput] = useState("100");
+  const [canEdit, setCanEdit] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const url = `/api/transactions/${transactionId}/tax`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch(url)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error("Failed to load tax details"))))
+      .then((data) => {
+        if (cancelled) return;
+        setCategory(data.tax_category ?? null);
+        setPercent(data.tax_deductible_percent ?? 100);
+        setPercentInput(String(data.tax_deductible_percent ?? 100));
+        setCanEdit(data.can_edit === true);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const save = async (nextCategory: TaxCategory | null, nextPercent: number) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tax_category: nextCategory, tax_deductible_percent: nextPercent }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to update tax deduction");
+      setCategory(data.tax_category ?? null);
+      setPercent(data.tax_deductible_percent);
+      setPercentInput(String(data.tax_deductible_percent));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update tax deduction");
+      setPercentInput(String(percent));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const commitPercent = () => {
+    const parsed = Math.round(Number(percentInput));
+    if (!category || parsed === percent) return;
+    if (!Number.isFinite(parsed) || parsed < 1 || parsed > 100) {
+      setError("Claim percentage must be between 1 and 100");
+      setPercentInput(String(percent));
+      return;
+    }
+    save(category, parsed);
+  };
+
+  // Partners see a claimed deduction but can't change it; otherwise nothing to show
+  if (loading || (!canEdit && !category)) return null;
+
+  const formatCurrency = (cents: number) =>
+    new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(cents / 100);
+
+  return (
+    <div className="mb-4">
+      <p className="font-[family-name:var(--font-nunito)] font-bold text-xs uppercase tracking-wider mb-2" style={{ color: 'var(--text-tertiary)' }}>
+        TAX DEDUCTION
+      </p>
+
+      {canEdit ? (
+        <div className="flex gap-2">
+          <Select
+            value={category ?? NOT_DEDUCTIBLE}
+            onValueChange={(value) => save(value === NOT_DEDUCTIBLE ? null : (value as TaxCategory), percent)}
+            disabled={saving}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_DEDUCTIBLE}>Not deductible</SelectItem>
+              {TAX_CATEGORIES.map((c) => (
+                <SelectItem key={c} value={c}>
+                  {TAX_CATEGORY_INFO[c].label} ({TAX_CATEGORY_INFO[c].atoCode})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {category && (
+            <div className="flex items-center gap-1 w-24">
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={percentInput}
+                onChange={(e) => setPercentInput(e.target.value)}
+                onBlur={commitPercent}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitPercent();
+                }}
+                disabled={saving}
+                aria-label="Claim percentage"
+              />
+              <span className="font-[family-name:var(--font-dm-sans)] text-sm" style={{ color: 'var(--text-secondary)' }}>%</span>
+            </div>
+          )}
+          {saving && <Loader2 className="h-4 w-4 animate-spin self-center" style={{ color: 'var(--text-tertiary)' }} />}
+        </div>
+      ) : (
+        category && (
+          <p className="font-[family-name:var(--font-dm-sans)] text-sm" style={{ color: 'var(--text-primary)' }}>
+            {TAX_CATEGORY_INFO[category].label} ({TAX_CATEGORY_INFO[category].atoCode})
+          </p>
+        )
+      )}
+
+      {category && amountCents < 0 && (
+        <p className="font-[family-name:var(--font-dm-sans)] text-xs mt-1.5" style={{ color: 'var(--text-tertiary)' }}>
+          Claiming {formatCurrency(deductibleCents(amountCents, percent))}
+          {percent < 100 ? ` (${percent}% of ${formatCurrency(-amountCents)})` : ""}
+        </p>
+      )}
+
+      {error && (
+        <p className="font-[family-name:var(--font-dm-sans)] text-sm mt-2" style={{ color: 'var(--error)' }}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
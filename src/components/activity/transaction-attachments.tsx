@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, Loader2, Paperclip, Trash2 } from "lucide-react";
+import {
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  formatFileSize,
+  isImageAttachment,
+  type AttachmentKind,
+  type TransactionAttachment,
+} from "@/lib/transaction-attachments";
+
+interface TransactionAttachmentsProps {
+  transactionId: string;
+}
+
+const KIND_LABELS: Record<AttachmentKind, string> = {
+  receipt: "Receipt",
+  warranty: "Warranty",
+  other: "Other",
+};
+
+const ACCEPT = "image/jpeg,image/png,image/webp,image/heic,.heic,application/pdf";
+
+export function TransactionAttachments({ transactionId }: TransactionAttachmentsProps) {
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [kind, setKind] = useState<AttachmentKind>("receipt");
+  const [uploading, setUploading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const baseUrl = `/api/transactions/${transactionId}/attachments`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch(baseUrl)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error("Failed to load attachments"))))
+      .then((data) => {
+        if (cancelled) return;
+        setAttachments(data.attachments || []);
+        setCanEdit(data.can_edit === true);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [baseUrl]);
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("kind", kind);
+      const response = await fetch(baseUrl, { method: "POST", body: form });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to upload file");
+      setAttachments((prev) => [...prev, data.attachment]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload file");
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDelete = async (attachmentId: string) => {
+    setDeletingId(attachmentId);
+    setError(null);
+    try {
+      const response = await fetch(`${baseUrl}/${attachmentId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete attachment");
+      }
+      setAttachments((prev) => prev.filter((a) => a.id !== attachmentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete attachment");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  // Hide the section entirely for a partner's transaction with nothing attached
+  if (!loading && !canEdit && attachments.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <p className="font-[family-name:var(--font-nunito)] font-bold text-xs uppercase tracking-wider mb-2" style={{ color: 'var(--text-tertiary)' }}>
+        ATTACHMENTS
+      </p>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm" style={{ color: 'var(--text-tertiary)' }}>
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="font-[family-name:var(--font-dm-sans)]">Loading…</span>
+        </div>
+      ) : (
+        <>
+          {attachments.length > 0 ? (
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {attachments.map((attachment) => {
+                const fileUrl = `${baseUrl}/${attachment.id}`;
+                // Browsers other than Safari can't render HEIC, so it gets the file tile
+                const showThumbnail = isImageAttachment(attachment.content_type) && attachment.content_type !== "image/heic";
+                return (
+                  <div key={attachment.id} className="relative group">
+                    <a
+                      href={fileUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block aspect-square rounded-lg overflow-hidden"
+                      style={{ backgroundColor: 'var(--surface-secondary)' }}
+                      title={`${attachment.file_name} (${formatFileSize(attachment.size_bytes)})`}
+                    >
+                      {showThumbnail ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                          src={fileUrl}
+                          alt={attachment.file_name}
+                          loading="lazy"
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex flex-col items-center justify-center gap-1 p-2">
+                          <FileText className="h-6 w-6" style={{ color: 'var(--pastel-blue-dark)' }} />
+                          <span className="font-[family-name:var(--font-dm-sans)] text-[10px] text-center truncate w-full" style={{ color: 'var(--text-secondary)' }}>
+                            {attachment.file_name}
+                          </span>
+                        </div>
+                      )}
+                    </a>
+                    <span
+                      className="absolute bottom-1 left-1 font-[family-name:var(--font-dm-sans)] text-[10px] px-1.5 py-0.5 rounded-full"
+                      style={{ backgroundColor: 'var(--pastel-yellow-light)', color: 'var(--pastel-yellow-dark)' }}
+                    >
+                      {KIND_LABELS[attachment.kind]}
+                    </span>
+                    {canEdit && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(attachment.id)}
+                        disabled={deletingId === attachment.id}
+                        className="absolute top-1 right-1 p-1 rounded-full bg-white/90 shadow-sm"
+                        title="Delete attachment"
+                      >
+                        {deletingId === attachment.id ? (
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" style={{ color: 'var(--text-tertiary)' }} />
+                        ) : (
+                          <Trash2 className="h-3.5 w-3.5" style={{ color: 'var(--error)' }} />
+                        )}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="font-[family-name:var(--font-dm-sans)] text-sm italic mb-3" style={{ color: 'var(--text-tertiary)' }}>
+              No receipts attached
+            </p>
+          )}
+
+          {canEdit && attachments.length < MAX_ATTACHMENTS_PER_TRANSACTION && (
+            <div className="flex gap-2">
+              <Select value={kind} onValueChange={(value) => setKind(value as AttachmentKind)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPT}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleUpload(file);
+                }}
+              />
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploading}
+                variant="outline"
+                size="default"
+                className="flex-1"
+                style={{
+                  borderColor: 'var(--pastel-yellow)',
+                  color: 'var(--pastel-yellow-dark)'
+                }}
+              >
+                {uploading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Paperclip className="h-4 w-4 mr-2" />
+                )}
+                Attach File
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      {error && (
+        <p className="font-[family-name:var(--font-dm-sans)] text-sm mt-2" style={{ color: 'var(--error)' }}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -17,7 +17,7 @@ interface TransactionCardProps {
 
 export function TransactionCard({ transaction, index, onClick, showCategory = true }: TransactionCardProps) {
   const isIncome = transaction.amount_cents >= 0;
-  const { getModernDisplayName, getIcon } = useCategoryMapping();
+  const { getModernDisplayName, getMappedCategory, getIcon } = useCategoryMapping();
   const pathname = usePathname();
   const fromSection = pathname?.split('/')[1] || 'activity';
 
@@ -57,7 +57,13 @@ export function TransactionCard({ transaction, index, onClick, showCategory = tr
     ? `${parentCat} › ${subCat}`
     : (subCat || parentCat || "");
 
-  const categoryPath = modernCategoryPath || fallbackPath;
+  // Split transactions list their line categories instead
+  const splits = Array.isArray(transaction.transaction_splits) ? transaction.transaction_splits : [];
+  const splitPath = splits.length > 0
+    ? `Split: ${[...new Set(splits.map((s: any) => getMappedCategory(s.category_id)?.newChildName || "Uncategorized"))].join(", ")}`
+    : "";
+
+  const categoryPath = splitPath || modernCategoryPath || fallbackPath;
 
   // Get tags
   const tags = Array.isArray(transaction.transaction_tags) ? transaction.transaction_tags : [];
@@ -160,6 +166,19 @@ export function TransactionCard({ transaction, index, onClick, showCategory = tr
               </span>
             )}
 
+            {transaction.attachment_count > 0 && (
+              <span
+                className="font-[family-name:var(--font-dm-sans)] text-xs px-1.5 py-0.5 rounded-full"
+                style={{
+                  backgroundColor: 'var(--pastel-yellow-light)',
+                  color: 'var(--pastel-yellow-dark)'
+                }}
+                title={`${transaction.attachment_count} attachment${transaction.attachment_count === 1 ? "" : "s"}`}
+              >
+                📎 Receipt
+              </span>
+            )}
+
             {transaction.performing_customer && (
               <span
                 className="font-[family-name:var(--font-dm-sans)] text-xs"
@@ -191,6 +210,15 @@ export function TransactionCard({ transaction, index, onClick, showCategory = tr
           }}
         >
           {isIncome ? "+" : "-"}{formatCurrency(transaction.amount_cents)}
+          {/* Category views show only this category's share of a split */}
+          {transaction.split_total_cents != null && (
+            <span
+              className="block font-[family-name:var(--font-dm-sans)] font-medium text-xs"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              of {formatCurrency(transaction.split_total_cents)}
+            </span>
+          )}
         </span>
       </div>
     </motion.div>
@@ -17,6 +17,7 @@ import {
   Store,
   Edit,
   Repeat,
+  Split,
 } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
@@ -24,6 +25,9 @@ import { motion } from "framer-motion";
 import { useCategoryMapping } from "@/contexts/category-context";
 import { SimpleCategoryPicker } from "@/components/budget/simple-category-picker";
 import { CreateExpenseFromTransactionDialog } from "@/components/budget/create-expense-dialog";
+import { SplitTransactionEditor } from "@/components/activity/split-transaction-editor";
+import { TransactionAttachments } from "@/components/activity/transaction-attachments";
+import { TaxDeductionEditor } from "@/components/activity/tax-deduction-editor";
 
 const nunito = Nunito({
   subsets: ["latin"],
@@ -55,6 +59,7 @@ export function TransactionDetailModal({
   const [error, setError] = useState<string | null>(null);
   const [isEditingCategory, setIsEditingCategory] = useState(false);
   const [recategorizing, setRecategorizing] = useState(false);
+  const [isSplitting, setIsSplitting] = useState(false);
   const [showCreateExpense, setShowCreateExpense] = useState(false);
   const { getModernDisplayName, getIcon } = useCategoryMapping();
   const pathname = usePathname();
@@ -134,6 +139,11 @@ export function TransactionDetailModal({
   // Get category icon from mapping using UP Bank category ID
   const categoryIcon = getIcon(upCategoryId) || "📂";
 
+  // Line items replace the single category when the transaction is split
+  const splits: any[] = Array.isArray(transaction.transaction_splits)
+    ? [...transaction.transaction_splits].sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+    : [];
+
   const handleRecategorize = async (categoryId: string | null, parentId: string | null, applyToMerchant: boolean) => {
     setRecategorizing(true);
     setError(null);
@@ -267,6 +277,23 @@ export function TransactionDetailModal({
             </p>
 
             {/* Current Category Display */}
+            {splits.length > 0 ? (
+              <div className="space-y-1.5 mb-3 p-3 rounded-lg" style={{ backgroundColor: 'var(--surface-secondary)' }}>
+                {splits.map((line, idx) => (
+                  <div key={idx} className="flex items-center gap-2">
+                    <div className="text-lg">{getIcon(line.category_id) || "📂"}</div>
+                    <span className="flex-1 min-w-0 truncate font-[family-name:var(--font-dm-sans)] text-sm" style={{ color: 'var(--text-primary)' }}>
+                      {getModernDisplayName(line.category_id, line.parent_category_id) || "Uncategorized"}
+                      {line.is_shared === true && " · Shared"}
+                      {line.is_shared === false && " · Just mine"}
+                    </span>
+                    <span className="font-[family-name:var(--font-nunito)] font-bold text-sm" style={{ color: 'var(--text-primary)' }}>
+                      {formatCurrency(Math.abs(line.amount_cents))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
             <div className="flex items-center gap-2 mb-3 p-3 rounded-lg" style={{ backgroundColor: 'var(--surface-secondary)' }}>
               {categoryPath ? (
                 <>
@@ -281,6 +308,21 @@ export function TransactionDetailModal({
                 </span>
               )}
             </div>
+            )}
+
+            {isSplitting && (
+              <div className="mb-3">
+                <SplitTransactionEditor
+                  transaction={transaction}
+                  onCancel={() => setIsSplitting(false)}
+                  onSaved={() => {
+                    setIsSplitting(false);
+                    // Reload page to refresh all data
+                    window.location.reload();
+                  }}
+                />
+              </div>
+            )}
 
             {/* Change Category Button */}
             <div className="flex flex-col gap-2">
@@ -298,6 +340,22 @@ export function TransactionDetailModal({
                 Change Category
               </Button>
 
+              {transaction.amount_cents !== 0 && !isSplitting && (
+                <Button
+                  onClick={() => setIsSplitting(true)}
+                  variant="outline"
+                  size="default"
+                  className="w-full"
+                  style={{
+                    borderColor: 'var(--pastel-lavender)',
+                    color: 'var(--pastel-lavender-dark)'
+                  }}
+                >
+                  <Split className="h-4 w-4 mr-2" />
+                  {splits.length > 0 ? "Edit Split" : "Split Across Categories"}
+                </Button>
+              )}
+
               {isExpense && (
                 <Button
                   onClick={() => setShowCreateExpense(true)}
@@ -443,6 +501,12 @@ export function TransactionDetailModal({
             )}
           </div>
 
+          {/* Receipts and documents */}
+          <TransactionAttachments transactionId={transaction.id} />
+
+          {/* Tax deduction */}
+          <TaxDeductionEditor transactionId={transaction.id} amountCents={transaction.amount_cents} />
+
           {/* Notes from UP Bank */}
           {transaction.note && (
             <div className="mb-4 p-3 rounded-xl" style={{ backgroundColor: 'var(--pastel-yellow-light)' }}>
@@ -0,0 +1,269 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Pin,
+  PinOff,
+  Pencil,
+  Trash2,
+  Users,
+  Search,
+  Plus,
+  Check,
+  X,
+  Loader2,
+} from "lucide-react";
+import type { ChatThreadSummary } from "@/lib/ai-chat-threads";
+
+interface ChatThreadListProps {
+  threads: ChatThreadSummary[];
+  shared: ChatThreadSummary[];
+  activeThreadId: string | null;
+  isLoading: boolean;
+  onOpen: (thread: ChatThreadSummary) => void;
+  onNewChat: () => void;
+  onRename: (thread: ChatThreadSummary, title: string) => void;
+  onTogglePin: (thread: ChatThreadSummary) => void;
+  onToggleShare: (thread: ChatThreadSummary) => void;
+  onDelete: (thread: ChatThreadSummary) => void;
+}
+
+function formatThreadDate(iso: string): string {
+  const date = new Date(iso);
+  const sameYear = date.getFullYear() === new Date().getFullYear();
+  return date.toLocaleDateString("en-AU", {
+    day: "numeric",
+    month: "short",
+    ...(sameYear ? {} : { year: "numeric" }),
+  });
+}
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+  return (
+    <p
+      className="text-[10px] font-medium uppercase tracking-wider px-1 pt-2"
+      style={{ color: "var(--text-tertiary)" }}
+    >
+      {children}
+    </p>
+  );
+}
+
+function ThreadRow({
+  thread,
+  isActive,
+  isOwn,
+  onOpen,
+  onRename,
+  onTogglePin,
+  onToggleShare,
+  onDelete,
+}: {
+  thread: ChatThreadSummary;
+  isActive: boolean;
+  isOwn: boolean;
+} & Pick<ChatThreadListProps, "onOpen" | "onRename" | "onTogglePin" | "onToggleShare" | "onDelete">) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [title, setTitle] = useState(thread.title);
+
+  const submitRename = () => {
+    const next = title.trim();
+    setIsRenaming(false);
+    if (next && next !== thread.title) onRename(thread, next);
+    else setTitle(thread.title);
+  };
+
+  if (isRenaming) {
+    return (
+      <form
+        onSubmit={(e) => { e.preventDefault(); submitRename(); }}
+        className="flex items-center gap-1.5 p-2 rounded-lg"
+        style={{ backgroundColor: "var(--surface)" }}
+      >
+        <input
+          autoFocus
+          value={title}
+          maxLength={120}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") { setIsRenaming(false); setTitle(thread.title); }
+          }}
+          className="flex-1 bg-transparent text-xs outline-none"
+          style={{ color: "var(--text-primary)" }}
+          aria-label="Chat title"
+        />
+        <button type="submit" className="p-1 cursor-pointer" aria-label="Save title">
+          <Check className="h-3.5 w-3.5" style={{ color: "var(--pastel-mint-dark)" }} />
+        </button>
+      </form>
+    );
+  }
+
+  if (isConfirmingDelete) {
+    return (
+      <div
+        className="flex items-center gap-2 p-2 rounded-lg text-xs"
+        style={{ backgroundColor: "var(--pastel-coral-light)", color: "var(--pastel-coral-dark)" }}
+      >
+        <span className="flex-1 truncate">Delete &ldquo;{thread.title}&rdquo;?</span>
+        <button
+          onClick={() => { setIsConfirmingDelete(false); onDelete(thread); }}
+          className="font-semibold cursor-pointer"
+        >
+          Delete
+        </button>
+        <button onClick={() => setIsConfirmingDelete(false)} className="cursor-pointer" aria-label="Cancel">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="group flex items-center gap-1 rounded-lg transition-colors"
+      style={{ backgroundColor: isActive ? "var(--surface)" : "transparent" }}
+    >
+      <button
+        onClick={() => onOpen(thread)}
+        className="flex-1 min-w-0 text-left px-2 py-2 cursor-pointer"
+      >
+        <p className="text-xs font-medium truncate" style={{ color: "var(--text-primary)" }}>
+          {thread.title}
+        </p>
+        <p className="text-[10px] flex items-center gap-1" style={{ color: "var(--text-tertiary)" }}>
+          {formatThreadDate(thread.last_message_at)}
+          {isOwn && thread.is_shared && (
+            <>
+              <span>·</span>
+              <Users className="h-2.5 w-2.5" />
+              Shared
+            </>
+          )}
+        </p>
+      </button>
+
+      {isOwn && (
+        <div className="flex items-center opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity pr-1">
+          <button
+            onClick={() => onTogglePin(thread)}
+            className="p-1 cursor-pointer"
+            aria-label={thread.is_pinned ? "Unpin chat" : "Pin chat"}
+            title={thread.is_pinned ? "Unpin" : "Pin"}
+          >
+            {thread.is_pinned ? (
+              <PinOff className="h-3 w-3" style={{ color: "var(--text-tertiary)" }} />
+            ) : (
+              <Pin className="h-3 w-3" style={{ color: "var(--text-tertiary)" }} />
+            )}
+          </button>
+          <button
+            onClick={() => setIsRenaming(true)}
+            className="p-1 cursor-pointer"
+            aria-label="Rename chat"
+            title="Rename"
+          >
+            <Pencil className="h-3 w-3" style={{ color: "var(--text-tertiary)" }} />
+          </button>
+          <button
+            onClick={() => onToggleShare(thread)}
+            className="p-1 cursor-pointer"
+            aria-label={thread.is_shared ? "Stop sharing with partner" : "Share with partner"}
+            title={thread.is_shared ? "Stop sharing" : "Share with partner"}
+          >
+            <Users
+              className="h-3 w-3"
+              style={{ color: thread.is_shared ? "var(--pastel-blue-dark)" : "var(--text-tertiary)" }}
+            />
+          </button>
+          <button
+            onClick={() => setIsConfirmingDelete(true)}
+            className="p-1 cursor-pointer"
+            aria-label="Delete chat"
+            title="Delete"
+          >
+            <Trash2 className="h-3 w-3" style={{ color: "var(--text-tertiary)" }} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Saved conversations: pinned, recent, and ones a partner has shared */
+export function ChatThreadList({
+  threads,
+  shared,
+  activeThreadId,
+  isLoading,
+  onOpen,
+  onNewChat,
+  onRename,
+  onTogglePin,
+  onToggleShare,
+  onDelete,
+}: ChatThreadListProps) {
+  const [query, setQuery] = useState("");
+
+  const needle = query.trim().toLowerCase();
+  const matches = (t: ChatThreadSummary) => !needle || t.title.toLowerCase().includes(needle);
+  const pinned = threads.filter((t) => t.is_pinned && matches(t));
+  const recent = threads.filter((t) => !t.is_pinned && matches(t));
+  const fromPartner = shared.filter(matches);
+
+  const rowProps = { onOpen, onRename, onTogglePin, onToggleShare, onDelete };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 mb-1">
+        <div
+          className="flex-1 flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg"
+          style={{ backgroundColor: "var(--surface)" }}
+        >
+          <Search className="h-3 w-3" style={{ color: "var(--text-tertiary)" }} />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chats..."
+            className="flex-1 bg-transparent text-xs outline-none placeholder:text-[var(--text-tertiary)]"
+            style={{ color: "var(--text-primary)" }}
+          />
+        </div>
+        <button
+          onClick={onNewChat}
+          className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium cursor-pointer"
+          style={{ backgroundColor: "var(--pastel-coral)", color: "white" }}
+        >
+          <Plus className="h-3 w-3" />
+          New
+        </button>
+      </div>
+
+      {isLoading && threads.length === 0 && shared.length === 0 ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-4 w-4 animate-spin" style={{ color: "var(--text-tertiary)" }} />
+        </div>
+      ) : pinned.length + recent.length + fromPartner.length === 0 ? (
+        <p className="text-xs text-center py-6" style={{ color: "var(--text-tertiary)" }}>
+          {needle ? "No chats match that search." : "No saved chats yet. Ask Penny something to start one."}
+        </p>
+      ) : (
+        <>
+          {pinned.length > 0 && <SectionLabel>Pinned</SectionLabel>}
+          {pinned.map((t) => (
+            <ThreadRow key={t.id} thread={t} isActive={t.id === activeThreadId} isOwn {...rowProps} />
+          ))}
+          {recent.length > 0 && <SectionLabel>Recent</SectionLabel>}
+          {recent.map((t) => (
+            <ThreadRow key={t.id} thread={t} isActive={t.id === activeThreadId} isOwn {...rowProps} />
+          ))}
+          {fromPartner.length > 0 && <SectionLabel>Shared by your partner</SectionLabel>}
+          {fromPartner.map((t) => (
+            <ThreadRow key={t.id} thread={t} isActive={t.id === activeThreadId} isOwn={false} {...rowProps} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -10,12 +10,23 @@ import {
   Loader2,
   Check,
   ChevronRight,
+  History,
+  SquarePen,
+  Users,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { gooeyToast as toast } from "goey-toast";
 import Image from "next/image";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  deriveThreadTitle,
+  getMessageText,
+  sortThreads,
+  type ChatThreadSummary,
+} from "@/lib/ai-chat-threads";
+import { ChatThreadList } from "./chat-thread-list";
 
 // Friendly labels for tool names shown during loading
 const TOOL_LABELS: Record<string, string> = {
@@ -297,7 +308,21 @@ function MessageBubble({
 
 // --- Notch-style peeking pig avatar ---
 
-const chatTransport = new DefaultChatTransport({ api: "/api/ai/chat" });
+/** Start a saved thread titled from the first question; null if it can't be saved */
+async function createThread(firstMessage: string): Promise<ChatThreadSummary | null> {
+  try {
+    const res = await fetch("/api/ai/threads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title: deriveThreadTitle(firstMessage) }),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data.thread ?? null;
+  } catch {
+    return null;
+  }
+}
 
 export function PiggyChat({
   hasApiKey = false,
@@ -312,8 +337,49 @@ export function PiggyChat({
   const inputRef = useRef<HTMLInputElement>(null);
   const userScrolledUp = useRef(false);
 
-  const { messages, sendMessage, status, error } = useChat({
+  const [view, setView] = useState<"chat" | "history">("chat");
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [isReadOnly, setIsReadOnly] = useState(false);
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([]);
+  const [sharedThreads, setSharedThreads] = useState<ChatThreadSummary[]>([]);
+  const [threadsLoading, setThreadsLoading] = useState(false);
+  // Read by the transport, which outlives renders
+  const threadIdRef = useRef<string | null>(null);
+
+  const [chatTransport] = useState(
+    () =>
+      new DefaultChatTransport({
+        api: "/api/ai/chat",
+        // The first message of a chat creates its thread. From then on only
+        // the newest message is sent and the server supplies the history. If
+        // the thread can't be created (e.g. demo mode) the chat stays unsaved.
+        prepareSendMessagesRequest: async ({ messages: outgoing }) => {
+          const latest = outgoing[outgoing.length - 1];
+          if (!threadIdRef.current && outgoing.length === 1) {
+            const thread = await createThread(getMessageText(latest));
+            if (thread) {
+              threadIdRef.current = thread.id;
+              setThreadId(thread.id);
+              setThreads((prev) => sortThreads([thread, ...prev]));
+            }
+          }
+          return threadIdRef.current
+            ? { body: { threadId: threadIdRef.current, message: latest } }
+            : { body: { messages: outgoing } };
+        },
+      })
+  );
+
+  const { messages, sendMessage, setMessages, status, error } = useChat({
     transport: chatTransport,
+    onFinish: () => {
+      const id = threadIdRef.current;
+      if (!id) return;
+      const now = new Date().toISOString();
+      setThreads((prev) =>
+        sortThreads(prev.map((t) => (t.id === id ? { ...t, last_message_at: now } : t)))
+      );
+    },
   });
 
   const isLoading = status === "submitted" || status === "streaming";
@@ -363,6 +429,98 @@ export function PiggyChat({
     }
   }, [isOpen]);
 
+  const loadThreads = useCallback(async () => {
+    setThreadsLoading(true);
+    try {
+      const res = await fetch("/api/ai/threads");
+      if (res.ok) {
+        const data = await res.json();
+        setThreads(data.threads || []);
+        setSharedThreads(data.shared || []);
+      }
+    } catch {
+      // Keep whatever list we already have
+    } finally {
+      setThreadsLoading(false);
+    }
+  }, []);
+
+  const startNewChat = () => {
+    threadIdRef.current = null;
+    setThreadId(null);
+    setIsReadOnly(false);
+    setMessages([]);
+    setView("chat");
+  };
+
+  const toggleHistory = () => {
+    if (view === "history") {
+      setView("chat");
+      return;
+    }
+    setView("history");
+    loadThreads();
+  };
+
+  const openThread = async (thread: ChatThreadSummary) => {
+    if (isLoading) return;
+    try {
+      const res = await fetch(`/api/ai/threads/${thread.id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Couldn't open that chat");
+        return;
+      }
+      // Partners can read a shared thread but only its owner can continue it
+      threadIdRef.current = data.thread.is_owner ? data.thread.id : null;
+      setThreadId(data.thread.id);
+      setIsReadOnly(!data.thread.is_owner);
+      setMessages(data.thread.messages || []);
+      setView("chat");
+    } catch {
+      toast.error("Couldn't open that chat");
+    }
+  };
+
+  const updateThread = async (
+    thread: ChatThreadSummary,
+    changes: Partial<Pick<ChatThreadSummary, "title" | "is_pinned" | "is_shared">>
+  ) => {
+    try {
+      const res = await fetch(`/api/ai/threads/${thread.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Couldn't update that chat");
+        return;
+      }
+      setThreads((prev) => sortThreads(prev.map((t) => (t.id === thread.id ? data.thread : t))));
+      if (changes.is_shared !== undefined) {
+        toast.success(changes.is_shared ? "Shared with your partner" : "No longer shared");
+      }
+    } catch {
+      toast.error("Couldn't update that chat");
+    }
+  };
+
+  const deleteThread = async (thread: ChatThreadSummary) => {
+    try {
+      const res = await fetch(`/api/ai/threads/${thread.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        toast.error(data.error || "Couldn't delete that chat");
+        return;
+      }
+      setThreads((prev) => prev.filter((t) => t.id !== thread.id));
+      if (threadId === thread.id) startNewChat();
+    } catch {
+      toast.error("Couldn't delete that chat");
+    }
+  };
+
   const showPig = !isOpen && !isMinimized && !isMobile;
   const showNotch = !isOpen && (isMinimized || isMobile);
 
@@ -568,17 +726,27 @@ export function PiggyChat({
                   Your personal finance analyst
                 </p>
               </div>
-              <div className="flex items-center gap-1">
-                <Sparkles
-                  className="h-3 w-3"
-                  style={{ color: "var(--pastel-yellow-dark)" }}
-                />
-                <span
-                  className="text-[10px] font-medium"
-                  style={{ color: "var(--text-tertiary)" }}
+              <div className="flex items-center gap-0.5">
+                <button
+                  onClick={toggleHistory}
+                  className="p-1.5 rounded-lg transition-colors cursor-pointer"
+                  style={{
+                    backgroundColor: view === "history" ? "var(--surface)" : "transparent",
+                  }}
+                  aria-label="Saved chats"
+                  title="Saved chats"
                 >
-                  AI
-                </span>
+                  <History className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                </button>
+                <button
+                  onClick={startNewChat}
+                  disabled={isLoading}
+                  className="p-1.5 rounded-lg cursor-pointer disabled:opacity-50"
+                  aria-label="New chat"
+                  title="New chat"
+                >
+                  <SquarePen className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                </button>
               </div>
             </div>
 
@@ -588,7 +756,22 @@ export function PiggyChat({
               className="flex-1 overflow-y-auto px-4 py-3 space-y-3"
               style={{ maxHeight: "calc(70vh - 120px)", minHeight: "200px" }}
             >
-              {messages.length === 0 && !error && (
+              {view === "history" && (
+                <ChatThreadList
+                  threads={threads}
+                  shared={sharedThreads}
+                  activeThreadId={threadId}
+                  isLoading={threadsLoading}
+                  onOpen={openThread}
+                  onNewChat={startNewChat}
+                  onRename={(t, title) => updateThread(t, { title })}
+                  onTogglePin={(t) => updateThread(t, { is_pinned: !t.is_pinned })}
+                  onToggleShare={(t) => updateThread(t, { is_shared: !t.is_shared })}
+                  onDelete={deleteThread}
+                />
+              )}
+
+              {view === "chat" && messages.length === 0 && !error && (
                 <div className="space-y-3">
                   <p
                     className="text-sm text-center py-2"
@@ -624,7 +807,7 @@ export function PiggyChat({
                 </div>
               )}
 
-              {messages.map((msg, i) => (
+              {view === "chat" && messages.map((msg, i) => (
                 <MessageBubble
                   key={msg.id}
                   message={msg}
@@ -636,7 +819,7 @@ export function PiggyChat({
                 />
               ))}
 
-              {errorMessage && (
+              {view === "chat" && errorMessage && (
                 <div
                   className="text-xs p-3 rounded-lg"
                   style={{
@@ -651,8 +834,26 @@ export function PiggyChat({
               <div ref={messagesEndRef} />
             </div>
 
+            {/* Partner's shared thread: read only */}
+            {view === "chat" && isReadOnly && (
+              <div
+                className="flex items-center gap-2 px-4 py-2.5 border-t text-xs"
+                style={{ borderColor: "var(--border)", color: "var(--text-tertiary)" }}
+              >
+                <Users className="h-3.5 w-3.5 flex-shrink-0" />
+                <span className="flex-1">Shared by your partner</span>
+                <button
+                  onClick={startNewChat}
+                  className="font-medium cursor-pointer"
+                  style={{ color: "var(--pastel-coral-dark)" }}
+                >
+                  Start your own
+                </button>
+              </div>
+            )}
+
             {/* Input */}
-            {hasApiKey && (
+            {hasApiKey && view === "chat" && !isReadOnly && (
               <form
                 onSubmit={handleSubmit}
                 className="flex items-center gap-2 px-3 py-2.5 border-t"
@@ -100,6 +100,8 @@ interface NetWorthSnapshot {
   snapshot_date: string;
   total_balance_cents: number;
   investment_total_cents: number | null;
+  super_total_cents: number | null;
+  liability_total_cents: number | null;
 }
 
 interface BudgetAnalysisDashboardProps {
@@ -501,8 +503,8 @@ export function BudgetAnalysisDashboard({
     if (snapshotsInRange.length >= 2) {
       const first = snapshotsInRange[0];
       const last = snapshotsInRange[snapshotsInRange.length - 1];
-      const startBalance = first.total_balance_cents + (first.investment_total_cents || 0);
-      const endBalance = last.total_balance_cents + (last.investment_total_cents || 0);
+      const startBalance = first.total_balance_cents + (first.investment_total_cents || 0) + (first.super_total_cents || 0) - (first.liability_total_cents || 0);
+      const endBalance = last.total_balance_cents + (last.investment_total_cents || 0) + (last.super_total_cents || 0) - (last.liability_total_cents || 0);
       netSavings = endBalance - startBalance;
       savingsSource = "balance";
     }
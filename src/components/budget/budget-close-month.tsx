@@ -0,0 +1,539 @@
+"use client";
+
+/**
+ * Closing a budget month and looking back at closed ones.
+ *
+ * `MonthCloseBar` sits under the overview strip. While the month is open it
+ * offers the close-out review (`CloseMonthDialog`): final figures, expected
+ * expenses that never matched, and what to do with leftovers. Once closed it
+ * shows the lock, the frozen record (`MonthRecordDialog`) and a way to reopen.
+ */
+
+import { useState, useEffect } from "react";
+import { gooeyToast as toast } from "goey-toast";
+import { CheckCircle2, ClipboardCheck, Loader2, Lock } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useBudget } from "@/contexts/budget-context";
+import { formatCurrency } from "@/lib/budget-zero-calculations";
+import { getMonthKeyForPeriod, normalizeCarryoverMode } from "@/lib/budget-engine";
+import {
+  LEFTOVER_ACTIONS,
+  LEFTOVER_ACTION_LABELS,
+  checkLeftoverAction,
+  leftoverEnvelopes,
+  type BudgetMonthSnapshot,
+  type LeftoverAction,
+} from "@/lib/budget-close";
+
+interface MonthRecordResponse {
+  closed: boolean;
+  closedAt: string | null;
+  closedBy: string | null;
+  snapshot: BudgetMonthSnapshot;
+}
+
+function monthLabel(monthKey: string): string {
+  return new Date(`${monthKey}T00:00:00Z`).toLocaleDateString("en-AU", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Load a month's record (or its preview while open) when mounted open.
+ * The dialogs are keyed on `open`, so every opening starts a fresh load.
+ */
+function useMonthRecord(open: boolean, budgetId: string, monthKey: string | undefined) {
+  const [record, setRecord] = useState<MonthRecordResponse | null>(null);
+  const [loading, setLoading] = useState(open && !!monthKey);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !monthKey) return;
+    let cancelled = false;
+    const params = new URLSearchParams({ budget_id: budgetId, month: monthKey });
+    fetch(`/api/budget/zero/close?${params}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) throw new Error(data.error || "Failed to load month");
+        setRecord(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load month");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, budgetId, monthKey]);
+
+  return { record, loading, error };
+}
+
+// ── Shared pieces ──
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+  return (
+    <p className="text-xs font-semibold uppercase tracking-wider" style={{ color: "var(--text-tertiary)" }}>
+      {children}
+    </p>
+  );
+}
+
+function MonthTotals({ snapshot }: { snapshot: BudgetMonthSnapshot }) {
+  const items = [
+    { label: "Income", value: snapshot.income },
+    { label: "Assigned", value: snapshot.budgeted },
+    { label: "Spent", value: snapshot.spent },
+  ];
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {items.map((item) => (
+        <div key={item.label} className="rounded-xl p-3" style={{ backgroundColor: "var(--surface-elevated)" }}>
+          <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>{item.label}</p>
+          <p
+            className="font-[family-name:var(--font-nunito)] font-bold text-sm"
+            style={{ color: "var(--text-primary)", fontVariantNumeric: "tabular-nums" }}
+          >
+            {formatCurrency(item.value)}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function UnmatchedExpenses({ snapshot }: { snapshot: BudgetMonthSnapshot }) {
+  if (snapshot.unmatchedExpenses.length === 0) {
+    return (
+      <p className="flex items-center gap-1.5 text-sm" style={{ color: "var(--text-secondary)" }}>
+        <CheckCircle2 className="h-4 w-4" style={{ color: "var(--accent-teal)" }} aria-hidden="true" />
+        Every expected expense matched a payment.
+      </p>
+    );
+  }
+  return (
+    <div className="space-y-1.5">
+      {snapshot.unmatchedExpenses.map((e) => (
+        <div key={e.id} className="flex items-center justify-between gap-2 text-sm">
+          <div className="min-w-0">
+            <p className="truncate" style={{ color: "var(--text-primary)" }}>{e.name}</p>
+            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+              {e.matchedCount} of {e.expectedCount} payments matched
+            </p>
+          </div>
+          <span
+            className="font-[family-name:var(--font-nunito)] font-bold flex-shrink-0"
+            style={{ color: "var(--error)", fontVariantNumeric: "tabular-nums" }}
+          >
+            {formatCurrency(e.missingCents)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ── Close month dialog ──
+
+interface CloseMonthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CloseMonthDialog({ open, onOpenChange }: CloseMonthDialogProps) {
+  const { budget, summary, closeMonth } = useBudget();
+  const monthKey = summary?.monthKey;
+  const { record, loading, error: loadError } = useMonthRecord(open, budget.id, monthKey);
+  const carryoverMode = normalizeCarryoverMode(budget.carryover_mode);
+
+  const [action, setAction] = useState<LeftoverAction>(carryoverMode === "none" ? "return_to_unassigned" : "carry_over");
+  const [goalId, setGoalId] = useState<string>("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const goals = (summary?.rows ?? []).filter((r) => r.type === "goal");
+  const snapshot = record?.snapshot;
+  const leftovers = snapshot ? leftoverEnvelopes(snapshot.rows) : [];
+  const overspent = snapshot ? snapshot.rows.filter((r) => r.type === "subcategory" && r.available < 0) : [];
+
+  const handleClose = async () => {
+    const goal = action === "sweep_to_goal" ? goalId.replace("goal::", "") : undefined;
+    const actionError = checkLeftoverAction(action, carryoverMode, goal);
+    if (actionError) {
+      setError(actionError);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await closeMonth({ leftoverAction: action, goalId: goal });
+      toast.success(`${monthLabel(monthKey!)} closed`);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to close month");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const title = monthKey ? `Close ${monthLabel(monthKey)}` : "Close month";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-[family-name:var(--font-nunito)] font-bold text-lg flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" style={{ color: "var(--brand-coral)" }} aria-hidden="true" />
+            {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin" style={{ color: "var(--text-tertiary)" }} />
+          </div>
+        )}
+
+        {loadError && (
+          <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+            {loadError}
+          </div>
+        )}
+
+        {!loading && snapshot && (
+          <div className="space-y-5 pt-2">
+            <MonthTotals snapshot={snapshot} />
+
+            {overspent.length > 0 && (
+              <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                {overspent.length} {overspent.length === 1 ? "envelope ends" : "envelopes end"} overspent by{" "}
+                {formatCurrency(-overspent.reduce((sum, r) => sum + r.available, 0))}.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <SectionLabel>Expected expenses</SectionLabel>
+              <UnmatchedExpenses snapshot={snapshot} />
+            </div>
+
+            <div className="space-y-2">
+              <SectionLabel>Leftovers · {formatCurrency(snapshot.leftover.cents)}</SectionLabel>
+              {leftovers.length === 0 ? (
+                <p className="text-sm" style={{ color: "var(--text-tertiary)" }}>
+                  No envelope has money left over.
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                    {leftovers.slice(0, 4).map((r) => `${r.name} ${formatCurrency(r.available)}`).join(" · ")}
+                    {leftovers.length > 4 ? ` · ${leftovers.length - 4} more` : ""}
+                  </p>
+                  <div className="space-y-1.5">
+                    {LEFTOVER_ACTIONS.map((option) => {
+                      const unavailable = option === "carry_over" && carryoverMode === "none";
+                      const selected = action === option;
+                      return (
+                        <button
+                          key={option}
+                          type="button"
+                          disabled={unavailable}
+                          onClick={() => setAction(option)}
+                          className="w-full rounded-xl px-3 py-2 text-left text-sm transition-colors disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                          style={{
+                            border: `2px solid ${selected ? "var(--brand-coral)" : "var(--border)"}`,
+                            color: "var(--text-primary)",
+                          }}
+                        >
+                          {LEFTOVER_ACTION_LABELS[option]}
+                          {unavailable && (
+                            <span className="block text-xs" style={{ color: "var(--text-tertiary)" }}>
+                              This budget starts every period fresh
+                            </span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {action === "sweep_to_goal" && (
+                    <Select value={goalId} onValueChange={setGoalId}>
+                      <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                        <SelectValue placeholder={goals.length > 0 ? "Choose a goal" : "No goals in this budget"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {goals.map((g) => (
+                          <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </>
+              )}
+            </div>
+
+            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+              Closing keeps a record of this month that won&apos;t change if transactions are
+              recategorised later, and locks its assignments. You can reopen it if you need to.
+            </p>
+
+            {error && (
+              <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="flex-1 h-11 rounded-xl"
+                disabled={saving}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleClose}
+                disabled={saving}
+                className="flex-1 h-11 rounded-xl font-[family-name:var(--font-nunito)] font-bold"
+                style={{ backgroundColor: "var(--brand-coral)", color: "white" }}
+              >
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Close month"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ── Closed month record ──
+
+interface MonthRecordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MonthRecordDialog({ open, onOpenChange }: MonthRecordDialogProps) {
+  const { budget, summary } = useBudget();
+  const monthKey = summary?.monthKey;
+  const { record, loading, error } = useMonthRecord(open, budget.id, monthKey);
+  const snapshot = record?.closed ? record.snapshot : null;
+
+  const leftoverOutcome = (s: BudgetMonthSnapshot) => {
+    if (s.leftover.cents <= 0) return "Nothing was left over.";
+    const amount = formatCurrency(s.leftover.cents);
+    switch (s.leftover.action) {
+      case "sweep_to_goal":
+        return `${amount} swept to ${s.leftover.goalName ?? "a goal"} next month.`;
+      case "return_to_unassigned":
+        return `${amount} returned to next month's To Be Budgeted.`;
+      default:
+        return `${amount} carried over in its envelopes.`;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-[family-name:var(--font-nunito)] font-bold text-lg flex items-center gap-2">
+            <Lock className="h-5 w-5" style={{ color: "var(--text-secondary)" }} aria-hidden="true" />
+            {monthKey ? monthLabel(monthKey) : "Closed month"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin" style={{ color: "var(--text-tertiary)" }} />
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+            {error}
+          </div>
+        )}
+
+        {!loading && snapshot && (
+          <div className="space-y-5 pt-2">
+            <MonthTotals snapshot={snapshot} />
+
+            <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+              {leftoverOutcome(snapshot)}
+            </p>
+
+            <div className="space-y-2">
+              <SectionLabel>Envelopes</SectionLabel>
+              <div className="space-y-1">
+                <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 text-xs" style={{ color: "var(--text-tertiary)" }}>
+                  <span />
+                  <span className="text-right">Assigned</span>
+                  <span className="text-right">Spent</span>
+                  <span className="text-right">Left</span>
+                </div>
+                {snapshot.rows
+                  .filter((r) => r.budgeted !== 0 || r.spent !== 0 || r.available !== 0)
+                  .map((r) => (
+                    <div
+                      key={r.key}
+                      className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 text-sm"
+                      style={{ fontVariantNumeric: "tabular-nums" }}
+                    >
+                      <span className="truncate" style={{ color: "var(--text-primary)" }}>{r.name}</span>
+                      <span className="text-right" style={{ color: "var(--text-secondary)" }}>{formatCurrency(r.budgeted)}</span>
+                      <span className="text-right" style={{ color: "var(--text-secondary)" }}>{formatCurrency(r.spent)}</span>
+                      <span
+                        className="text-right font-semibold"
+                        style={{ color: r.available < 0 ? "var(--error)" : "var(--text-primary)" }}
+                      >
+                        {formatCurrency(r.available)}
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <SectionLabel>Expected expenses</SectionLabel>
+              <UnmatchedExpenses snapshot={snapshot} />
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ── Bar under the overview strip ──
+
+export function MonthCloseBar() {
+  const { summary, reopenMonth } = useBudget();
+  const [closeOpen, setCloseOpen] = useState(false);
+  const [recordOpen, setRecordOpen] = useState(false);
+  const [confirmReopen, setConfirmReopen] = useState(false);
+  const [reopening, setReopening] = useState(false);
+
+  if (!summary?.monthKey) return null;
+  const label = monthLabel(summary.monthKey);
+  const ended = getMonthKeyForPeriod(new Date()) > summary.monthKey;
+
+  const handleReopen = async () => {
+    setReopening(true);
+    try {
+      await reopenMonth();
+      toast.success(`${label} reopened`);
+      setConfirmReopen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to reopen month");
+    } finally {
+      setReopening(false);
+    }
+  };
+
+  if (summary.closedAt) {
+    return (
+      <>
+        <Card className="border-2" style={{ borderColor: "var(--border)" }}>
+          <CardContent className="py-3 flex items-center gap-3">
+            <Lock className="h-4 w-4 flex-shrink-0" style={{ color: "var(--text-secondary)" }} aria-hidden="true" />
+            <div className="min-w-0">
+              <p className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>{label} is closed</p>
+              <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                Closed {new Date(summary.closedAt).toLocaleDateString("en-AU", { day: "numeric", month: "short", year: "numeric" })}.
+                Assignments are locked.
+              </p>
+            </div>
+            <div className="ml-auto flex gap-1">
+              <Button variant="ghost" size="sm" className="h-8 text-xs cursor-pointer" onClick={() => setRecordOpen(true)}>
+                View record
+              </Button>
+              <Button variant="ghost" size="sm" className="h-8 text-xs cursor-pointer" onClick={() => setConfirmReopen(true)}>
+                Reopen
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <MonthRecordDialog key={String(recordOpen)} open={recordOpen} onOpenChange={setRecordOpen} />
+
+        <AlertDialog open={confirmReopen} onOpenChange={setConfirmReopen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reopen {label}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Its assignments unlock, any leftovers moved into next month are moved back, and the
+                closed record is discarded. You can close it again afterwards.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel className="cursor-pointer">Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleReopen} disabled={reopening} className="cursor-pointer">
+                {reopening ? "Reopening..." : "Reopen"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {ended ? (
+        <Card className="border-2" style={{ borderColor: "var(--brand-coral)" }}>
+          <CardContent className="py-3 flex items-center gap-3">
+            <ClipboardCheck className="h-4 w-4 flex-shrink-0" style={{ color: "var(--brand-coral)" }} aria-hidden="true" />
+            <p className="text-sm" style={{ color: "var(--text-primary)" }}>
+              {label} has ended. Review it and close it off.
+            </p>
+            <Button
+              size="sm"
+              className="ml-auto h-8 rounded-xl text-xs font-bold cursor-pointer"
+              style={{ backgroundColor: "var(--brand-coral)", color: "white" }}
+              onClick={() => setCloseOpen(true)}
+            >
+              Review & close
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" className="h-7 text-xs cursor-pointer" onClick={() => setCloseOpen(true)}>
+            Close {label}…
+          </Button>
+        </div>
+      )}
+
+      <CloseMonthDialog key={String(closeOpen)} open={closeOpen} onOpenChange={setCloseOpen} />
+    </>
+  );
+}
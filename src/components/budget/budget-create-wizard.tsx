@@ -14,6 +14,7 @@ import { gooeyToast as toast } from "goey-toast";
 import { createBudget, type CreateBudgetInput } from "@/app/actions/budgets";
 import type { BudgetTemplate } from "@/lib/budget-templates";
 import type { Section } from "@/lib/layout-persistence";
+import type { CarryoverMode, PeriodType } from "@/lib/budget-engine";
 
 export interface WizardPrerequisites {
   hasSalary: boolean;
@@ -34,7 +35,7 @@ export interface WizardState {
   budgetType: "personal" | "household" | "custom";
   template: BudgetTemplate | null;
   methodology: string;
-  periodType: "weekly" | "fortnightly" | "monthly";
+  periodType: PeriodType;
   budgetView: "individual" | "shared";
   includedCategories: string[];
   sections: Section[];
@@ -46,7 +47,7 @@ export interface WizardState {
   /** Custom budgets: fixed end date */
   endDate: string | null;
   /** How unspent money carries over between periods */
-  carryoverMode: "none";
+  carryoverMode: CarryoverMode;
 }
 
 const STEP_COUNT = 5;
@@ -12,6 +12,7 @@ import { X, TrendingUp, TrendingDown, Calendar, Receipt, Target, DollarSign, Che
 import Link from "next/link";
 import { useMediaQuery } from "@/hooks/use-media-query";
 import { CreateExpenseFromTransactionDialog } from "./create-expense-dialog";
+import { EnvelopeMovesCard } from "./budget-move-money";
 import { BudgetRow, isGoalRow, isAssetRow, isCategoryRow, isSubcategoryRow } from "@/lib/budget-row-types";
 import { countOccurrencesInPeriod } from "@/lib/budget-engine";
 
@@ -19,6 +20,8 @@ interface Transaction {
   id: string;
   description: string;
   amount_cents: number;
+  /** Full amount when amount_cents is only this row's share of a split */
+  split_total_cents?: number;
   settled_at: string;
   merchant_name?: string;
   raw_text?: string;
@@ -59,6 +62,10 @@ interface BudgetDetailPanelProps {
   onClose: () => void;
   onEditExpense?: (expenseId: string) => void;
   onQuickAssign?: (itemId: string, amount: number) => void;
+  /** Shows "You" on moves this user made */
+  currentUserId?: string;
+  /** The budget's periods follow a pay cycle rather than the calendar month */
+  payCycle?: boolean;
   className?: string;
 }
 
@@ -74,11 +81,19 @@ interface BudgetDetailPanelProps {
  * Solution: expand the evaluation window to the full calendar month so
  * monthly/quarterly/yearly expenses are evaluated correctly. This ensures the
  * Expected Bills card shows all bills due this month, even in sub-monthly budgets.
+ *
+ * Pay-cycle periods aren't expanded: the budget plans each pay's bills, so
+ * only the bills due before the next pay are expected.
  */
-function getEffectiveWindow(recurrenceType: string, periodStart: Date, periodEnd: Date): [Date, Date] {
+function getEffectiveWindow(
+  recurrenceType: string,
+  periodStart: Date,
+  periodEnd: Date,
+  payCycle = false
+): [Date, Date] {
   const periodDays = Math.round((periodEnd.getTime() - periodStart.getTime()) / 86400000);
 
-  if (['monthly', 'quarterly', 'yearly'].includes(recurrenceType) && periodDays < 28) {
+  if (!payCycle && ['monthly', 'quarterly', 'yearly'].includes(recurrenceType) && periodDays < 28) {
     // Expand to full month so monthly+ expenses are evaluated across the whole month
     return [
       new Date(periodStart.getFullYear(), periodStart.getMonth(), 1),
@@ -109,6 +124,7 @@ function getExpectedPaymentsInPeriod(expense: ExpenseData, periodStart: Date, pe
   switch (expense.recurrence_type) {
     case 'weekly': return Math.max(1, Math.round(periodDays / 7));
     case 'fortnightly': return Math.max(1, Math.round(periodDays / 14));
+    case 'four-weekly': return Math.max(1, Math.round(periodDays / 28));
     case 'monthly': return 1;
     case 'quarterly': return periodDays >= 80 ? 1 : 0;
     case 'yearly': return periodDays >= 350 ? 1 : 0;
@@ -143,6 +159,8 @@ export function BudgetDetailPanel({
   onClose,
   onEditExpense,
   onQuickAssign,
+  currentUserId,
+  payCycle = false,
   className = "",
 }: BudgetDetailPanelProps) {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -284,7 +302,7 @@ export function BudgetDetailPanel({
   if (!item) return null;
 
   // Calculate progress and status
-  const available = item.assigned - item.spent;
+  const available = item.assigned + (isSubcategoryRow(item) ? item.carryover ?? 0 : 0) - item.spent;
   const spentPercentage = item.assigned > 0 ? Math.min((item.spent / item.assigned) * 100, 100) : 0;
   const isOverBudget = item.spent > item.assigned && item.assigned > 0;
   const isGoal = isGoalRow(item);
@@ -393,6 +411,9 @@ export function BudgetDetailPanel({
           </CardContent>
         </Card>
 
+        {/* Move money / cover overspending */}
+        <EnvelopeMovesCard item={item} partnershipId={partnershipId} currentUserId={currentUserId} />
+
         {/* Suggested Savings for Goals */}
         {isGoal && item.suggestedSavings && item.suggestedSavings.hasDeadline && (item.target || 0) - (item.currentAmount || 0) > 0 && (
           <Card className="border-2" style={{ borderColor: 'var(--border)' }}>
@@ -543,6 +564,11 @@ export function BudgetDetailPanel({
                                 ? Math.round(txn.amount_cents * txnSplit.splitPercentage / 100)
                                 : txn.amount_cents
                             ))}
+                            {txn.split_total_cents != null && (
+                              <span className="block text-xs font-normal text-right" style={{ color: 'var(--text-tertiary)' }}>
+                                of {formatCurrency(Math.abs(txn.split_total_cents))}
+                              </span>
+                            )}
                           </span>
                         </div>
                       </button>
@@ -670,7 +696,7 @@ export function BudgetDetailPanel({
           // period so matches from any sub-period are counted correctly.
           const expensePaymentInfo = itemExpenses.map(e => {
             const recurrence = (e as any).recurrence_type || 'monthly';
-            const [evalStart, evalEnd] = getEffectiveWindow(recurrence, pStart, pEnd);
+            const [evalStart, evalEnd] = getEffectiveWindow(recurrence, pStart, pEnd, payCycle);
             const expectedCount = getExpectedPaymentsInPeriod(e, evalStart, evalEnd);
             const matchedCount = getMatchedPaymentsInPeriod(e, evalStart, evalEnd);
             return { expense: e, expectedCount, matchedCount, fullyPaid: matchedCount >= expectedCount };
@@ -13,8 +13,9 @@ import { Sparkles, Zap } from "lucide-react";
 import { formatCurrency } from "@/lib/budget-zero-calculations";
 import type { BudgetRow } from "@/lib/budget-row-types";
 import { isSubcategoryRow, isCategoryRow } from "@/lib/budget-row-types";
+import type { PeriodType } from "@/lib/budget-engine";
 
-type BudgetPeriod = 'weekly' | 'fortnightly' | 'monthly';
+type BudgetPeriod = PeriodType;
 
 interface ExpenseData {
   id: string;
@@ -56,6 +57,7 @@ function getPeriodLabel(period: BudgetPeriod): string {
   switch (period) {
     case "weekly": return "Weekly";
     case "fortnightly": return "Fortnightly";
+    case "four-weekly": return "Four-weekly";
     case "monthly": return "Monthly";
   }
 }
@@ -76,6 +78,8 @@ function convertToPeriod(amountCents: number, recurrence: string, targetPeriod:
   switch (targetPeriod) {
     case "weekly": return Math.round(monthly / 4);
     case "fortnightly": return Math.round(monthly / 2);
+    // Four weeks counts as a month, matching the four-weeks-a-month conversion above
+    case "four-weekly": return monthly;
     case "monthly": return monthly;
   }
 }
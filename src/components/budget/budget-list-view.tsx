@@ -106,6 +106,7 @@ const methodologyColorsLight: Record<string, string> = {
 const periodLabels: Record<string, string> = {
   weekly: "Weekly",
   fortnightly: "Fortnightly",
+  "four-weekly": "Four-weekly",
   monthly: "Monthly",
 };
 
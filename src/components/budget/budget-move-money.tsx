@@ -0,0 +1,412 @@
+"use client";
+
+/**
+ * Moving assigned money between envelopes.
+ *
+ * `EnvelopeMovesCard` sits in the budget detail panel: for an overspent
+ * envelope it offers one-click "cover from…" suggestions, and it lists the
+ * moves in and out of the envelope this period. `MoveMoneyDialog` is the
+ * free-form version — any envelope (or To Be Budgeted) to any other.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { gooeyToast as toast } from "goey-toast";
+import { ArrowRightLeft, Loader2, ShieldAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useBudget } from "@/contexts/budget-context";
+import { formatCurrency } from "@/lib/budget-zero-calculations";
+import {
+  coverSuggestions,
+  planMove,
+  spareCents,
+  UNASSIGNED_LABEL,
+  type BudgetMove,
+  type CoverSuggestion,
+} from "@/lib/budget-moves";
+import type { BudgetRow as EngineBudgetRow } from "@/lib/budget-engine";
+import type { BudgetRow } from "@/lib/budget-row-types";
+import { isSubcategoryRow, isGoalRow, isAssetRow } from "@/lib/budget-row-types";
+
+const UNASSIGNED = "__unassigned__";
+
+/** Engine row key for a UI row (goal and asset ids lose their prefix in the UI) */
+export function rowKeyForItem(item: BudgetRow): string | null {
+  if (isSubcategoryRow(item)) return item.id;
+  if (isGoalRow(item)) return `goal::${item.id}`;
+  if (isAssetRow(item)) return `asset::${item.id}`;
+  return null;
+}
+
+function rowLabel(row: Pick<EngineBudgetRow, "name" | "parentCategory">): string {
+  return row.parentCategory ? `${row.parentCategory} › ${row.name}` : row.name;
+}
+
+// ── Move money dialog ──
+
+interface MoveMoneyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  partnershipId: string;
+  /** Row keys to start with; null = To Be Budgeted */
+  initialFromKey?: string | null;
+  initialToKey?: string | null;
+  initialAmountCents?: number;
+}
+
+export function MoveMoneyDialog({
+  open,
+  onOpenChange,
+  partnershipId,
+  initialFromKey = null,
+  initialToKey = null,
+  initialAmountCents,
+}: MoveMoneyDialogProps) {
+  const { summary, moveMoney } = useBudget();
+  const [fromKey, setFromKey] = useState(UNASSIGNED);
+  const [toKey, setToKey] = useState(UNASSIGNED);
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(() => summary?.rows ?? [], [summary]);
+  const tbb = summary?.tbb ?? 0;
+
+  useEffect(() => {
+    if (!open) return;
+    setFromKey(initialFromKey ?? UNASSIGNED);
+    setToKey(initialToKey ?? UNASSIGNED);
+    setAmount(initialAmountCents ? (initialAmountCents / 100).toFixed(2) : "");
+    setNote("");
+    setError(null);
+  }, [open, initialFromKey, initialToKey, initialAmountCents]);
+
+  const from = fromKey === UNASSIGNED ? null : rows.find((r) => r.id === fromKey) ?? null;
+  const to = toKey === UNASSIGNED ? null : rows.find((r) => r.id === toKey) ?? null;
+  const amountCents = Math.round(parseFloat(amount || "0") * 100);
+
+  const handleSubmit = async () => {
+    const plan = planMove(from, to, amountCents);
+    if ("error" in plan) {
+      setError(plan.error);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await moveMoney({ partnershipId, from, to, amountCents, note: note.trim() || undefined });
+      toast.success(`Moved ${formatCurrency(amountCents)} to ${to ? to.name : UNASSIGNED_LABEL}`);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to move money");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderOptions = () => (
+    <>
+      <SelectItem value={UNASSIGNED}>
+        {UNASSIGNED_LABEL} ({formatCurrency(tbb)})
+      </SelectItem>
+      {rows.map((row) => (
+        <SelectItem key={row.id} value={row.id}>
+          {rowLabel(row)} ({formatCurrency(spareCents(row))} spare)
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px] rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-[family-name:var(--font-nunito)] font-bold text-lg flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" style={{ color: "var(--brand-coral)" }} aria-hidden="true" />
+            Move Money
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider block" style={{ color: "var(--text-tertiary)" }}>
+              From
+            </label>
+            <Select value={fromKey} onValueChange={setFromKey}>
+              <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>{renderOptions()}</SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider block" style={{ color: "var(--text-tertiary)" }}>
+              To
+            </label>
+            <Select value={toKey} onValueChange={setToKey}>
+              <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>{renderOptions()}</SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider block" style={{ color: "var(--text-tertiary)" }}>
+              Amount
+            </label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 font-semibold" style={{ color: "var(--text-tertiary)" }}>
+                $
+              </span>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="h-12 pl-7 rounded-xl border-2 font-[family-name:var(--font-nunito)] font-bold"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider block" style={{ color: "var(--text-tertiary)" }}>
+              Note
+            </label>
+            <Input
+              value={note}
+              maxLength={500}
+              placeholder="Why is this money moving?"
+              onChange={(e) => setNote(e.target.value)}
+              className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-1">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1 h-11 rounded-xl"
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saving || amountCents <= 0}
+              className="flex-1 h-11 rounded-xl font-[family-name:var(--font-nunito)] font-bold"
+              style={{ backgroundColor: "var(--brand-coral)", color: "white" }}
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Move"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ── Envelope moves card (detail panel) ──
+
+interface EnvelopeMovesCardProps {
+  item: BudgetRow;
+  partnershipId: string;
+  currentUserId?: string;
+}
+
+export function EnvelopeMovesCard({ item, partnershipId, currentUserId }: EnvelopeMovesCardProps) {
+  const { budget, summary, moveMoney } = useBudget();
+  const [moves, setMoves] = useState<BudgetMove[]>([]);
+  const [coveringKey, setCoveringKey] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const itemKey = rowKeyForItem(item);
+  const monthKey = summary?.monthKey;
+  const row = itemKey ? summary?.rows.find((r) => r.id === itemKey) ?? null : null;
+
+  const suggestions = useMemo(
+    () => (itemKey && summary ? coverSuggestions(summary.rows, itemKey, summary.tbb) : []),
+    [itemKey, summary]
+  );
+
+  const loadMoves = useCallback(async () => {
+    if (!itemKey || !monthKey) return;
+    const params = new URLSearchParams({
+      partnership_id: partnershipId,
+      month: monthKey,
+      budget_id: budget.id,
+      key: itemKey,
+    });
+    try {
+      const res = await fetch(`/api/budget/zero/move?${params}`);
+      if (res.ok) {
+        const data = await res.json();
+        setMoves(data.moves || []);
+      }
+    } catch (err) {
+      console.error("Failed to load budget moves:", err);
+    }
+  }, [itemKey, monthKey, partnershipId, budget.id]);
+
+  // Reload when the envelope or the summary changes (a move refreshes the summary)
+  useEffect(() => {
+    loadMoves();
+  }, [loadMoves, summary]);
+
+  const handleCover = async (suggestion: CoverSuggestion) => {
+    if (!row) return;
+    const key = suggestion.from?.id ?? UNASSIGNED;
+    setCoveringKey(key);
+    try {
+      await moveMoney({
+        partnershipId,
+        from: suggestion.from,
+        to: row,
+        amountCents: suggestion.amountCents,
+        note: `Cover overspending in ${row.name}`,
+      });
+      toast.success(`Covered ${formatCurrency(suggestion.amountCents)} from ${suggestion.label}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to move money");
+    } finally {
+      setCoveringKey(null);
+    }
+  };
+
+  if (!itemKey || !row) return null;
+
+  const overspent = row.available < 0;
+  const locked = !!summary?.closedAt;
+
+  return (
+    <>
+      <Card className="border-2" style={{ borderColor: overspent ? "var(--error)" : "var(--border)" }}>
+        <CardContent className="pt-4 space-y-3">
+          <div className="flex items-center gap-2">
+            {overspent ? (
+              <ShieldAlert className="h-4 w-4" style={{ color: "var(--error)" }} aria-hidden="true" />
+            ) : (
+              <ArrowRightLeft className="h-4 w-4" style={{ color: "var(--text-secondary)" }} aria-hidden="true" />
+            )}
+            <span className="font-[family-name:var(--font-nunito)] font-bold text-sm" style={{ color: "var(--text-primary)" }}>
+              {overspent ? `Overspent by ${formatCurrency(-row.available)}` : "Move money"}
+            </span>
+            {!locked && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-7 text-xs cursor-pointer"
+                onClick={() => setDialogOpen(true)}
+              >
+                Move…
+              </Button>
+            )}
+          </div>
+
+          {locked && (
+            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+              This month is closed. Reopen it to move money.
+            </p>
+          )}
+
+          {!locked && overspent && suggestions.length === 0 && (
+            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+              No envelope has money to spare this period.
+            </p>
+          )}
+
+          {!locked && overspent && suggestions.map((s) => {
+            const key = s.from?.id ?? UNASSIGNED;
+            return (
+              <button
+                key={key}
+                type="button"
+                onClick={() => handleCover(s)}
+                disabled={coveringKey !== null}
+                className="w-full flex items-center justify-between rounded-xl px-3 py-2 text-left transition-colors hover:bg-[var(--surface-elevated)] disabled:opacity-60 cursor-pointer"
+                style={{ border: "1px solid var(--border)" }}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate" style={{ color: "var(--text-primary)" }}>
+                    Cover {formatCurrency(s.amountCents)} from {s.label}
+                  </p>
+                  <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                    {formatCurrency(s.spareCents)} spare{s.coversAll ? "" : " · covers part"}
+                  </p>
+                </div>
+                {coveringKey === key && <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />}
+              </button>
+            );
+          })}
+
+          {moves.length > 0 && (
+            <div className="space-y-2 pt-1">
+              <p className="text-xs font-semibold uppercase tracking-wider" style={{ color: "var(--text-tertiary)" }}>
+                Moves this period
+              </p>
+              {moves.map((m) => {
+                const incoming = m.to_key === itemKey;
+                const other = incoming ? m.from_label ?? UNASSIGNED_LABEL : m.to_label ?? UNASSIGNED_LABEL;
+                return (
+                  <div key={m.id} className="flex items-start justify-between gap-2 text-xs">
+                    <div className="min-w-0">
+                      <p style={{ color: "var(--text-secondary)" }}>
+                        {incoming ? `From ${other}` : `To ${other}`}
+                        {" · "}
+                        {m.created_by && m.created_by === currentUserId ? "You" : "Your partner"}
+                        {" · "}
+                        {new Date(m.created_at).toLocaleDateString("en-AU", { day: "numeric", month: "short" })}
+                      </p>
+                      {m.note && (
+                        <p className="truncate" style={{ color: "var(--text-tertiary)" }}>{m.note}</p>
+                      )}
+                    </div>
+                    <span
+                      className="font-[family-name:var(--font-nunito)] font-bold flex-shrink-0"
+                      style={{ color: incoming ? "var(--accent-teal)" : "var(--text-primary)", fontVariantNumeric: "tabular-nums" }}
+                    >
+                      {incoming ? "+" : "−"}{formatCurrency(m.amount_cents)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <MoveMoneyDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        partnershipId={partnershipId}
+        initialFromKey={overspent ? null : itemKey}
+        initialToKey={overspent ? itemKey : null}
+        initialAmountCents={overspent ? -row.available : undefined}
+      />
+    </>
+  );
+}
@@ -7,9 +7,17 @@ import { cn } from "@/lib/utils";
 import { formatCurrency } from "@/lib/budget-zero-calculations";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { getPeriodStartDate, getPeriodEndDate } from "@/lib/budget-period-helpers";
-import { getDateComponentsInTimezone, DEFAULT_BUDGET_TIMEZONE } from "@/lib/budget-engine";
+import {
+  getDateComponentsInTimezone,
+  getBudgetPeriodRange,
+  getPeriodsStartingInMonth,
+  isPayCyclePeriod,
+  DEFAULT_BUDGET_TIMEZONE,
+  type PeriodType,
+} from "@/lib/budget-engine";
 
-type PeriodType = "weekly" | "fortnightly" | "monthly";
+/** Period types the month-aligned helpers handle (four-weekly is always pay-cycle) */
+type CalendarPeriodType = Exclude<PeriodType, "four-weekly">;
 
 const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 const MONTH_LABELS_FULL = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
@@ -24,8 +32,21 @@ function getBudgetStatus(toBeBudgeted: number) {
   return { label: "over budget", shortLabel: "over", color: "var(--pastel-coral-dark)" };
 }
 
-function formatPeriodDisplay(currentPeriod: Date | undefined, periodType: PeriodType, compact: boolean) {
+function formatPeriodDisplay(
+  currentPeriod: Date | undefined,
+  periodType: PeriodType,
+  periodAnchor: string | null,
+  compact: boolean
+) {
   if (!currentPeriod) return "";
+
+  if (periodType === "four-weekly" || isPayCyclePeriod(periodType, periodAnchor)) {
+    const range = getBudgetPeriodRange(currentPeriod, periodType, DEFAULT_BUDGET_TIMEZONE, periodAnchor);
+    return compact
+      ? range.start.toLocaleDateString("en-AU", { day: "numeric", month: "short", timeZone: DEFAULT_BUDGET_TIMEZONE })
+      : range.label;
+  }
+
   const start = getPeriodStartDate(currentPeriod, periodType);
   const end = getPeriodEndDate(currentPeriod, periodType);
 
@@ -65,6 +86,60 @@ function getFortnightPeriods(year: number, month: number) {
   ];
 }
 
+/** Pay-cycle periods starting in a month, as picker buttons */
+function PayCyclePeriodList({
+  year,
+  month,
+  currentPeriod,
+  periodType,
+  periodAnchor,
+  onSelect,
+}: {
+  year: number;
+  month: number;
+  currentPeriod?: Date;
+  periodType: PeriodType;
+  periodAnchor: string | null;
+  onSelect: (date: Date) => void;
+}) {
+  const ranges = getPeriodsStartingInMonth(year, month, periodType, DEFAULT_BUDGET_TIMEZONE, periodAnchor);
+  const selectedStart = currentPeriod
+    ? getBudgetPeriodRange(currentPeriod, periodType, DEFAULT_BUDGET_TIMEZONE, periodAnchor).start.getTime()
+    : null;
+  const nowStart = getBudgetPeriodRange(new Date(), periodType, DEFAULT_BUDGET_TIMEZONE, periodAnchor).start.getTime();
+
+  return (
+    <div className="grid grid-cols-1 gap-1.5">
+      {ranges.map((range) => {
+        const isSelected = range.start.getTime() === selectedStart;
+        const isCurrent = range.start.getTime() === nowStart;
+
+        return (
+          <button
+            key={range.start.toISOString()}
+            onClick={() => onSelect(range.start)}
+            className={cn(
+              "h-10 rounded-lg text-sm font-medium transition-colors cursor-pointer",
+              "hover:bg-[var(--muted)]",
+              isSelected && "font-bold",
+            )}
+            style={{
+              backgroundColor: isSelected ? "var(--brand-coral)" : undefined,
+              color: isSelected
+                ? "white"
+                : isCurrent
+                  ? "var(--brand-coral)"
+                  : "var(--text-primary)",
+            }}
+          >
+            {range.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
 interface BudgetOverviewStripProps {
   toBeBudgeted: number;
   income?: number;
@@ -72,6 +147,8 @@ interface BudgetOverviewStripProps {
   spent?: number;
   currentPeriod?: Date;
   periodType: PeriodType;
+  /** Pay date the periods are anchored to (the budget's period_anchor_date) */
+  periodAnchor?: string | null;
   onPrevious?: () => void;
   onNext?: () => void;
   onDateSelect?: (date: Date) => void;
@@ -84,11 +161,15 @@ export function BudgetOverviewStrip({
   spent,
   currentPeriod,
   periodType,
+  periodAnchor = null,
   onPrevious,
   onNext,
   onDateSelect,
 }: BudgetOverviewStripProps) {
   const status = getBudgetStatus(toBeBudgeted);
+  const payCycle = isPayCyclePeriod(periodType, periodAnchor);
+  // Only read when the periods aren't anchored, which four-weekly ones always are
+  const calendarPeriodType: CalendarPeriodType = periodType === "four-weekly" ? "monthly" : periodType;
   const [calendarOpen, setCalendarOpen] = useState(false);
   const [pickerYear, setPickerYear] = useState(() => {
     if (currentPeriod) {
@@ -126,7 +207,7 @@ export function BudgetOverviewStrip({
   /** Check if a period (by start day) within pickerYear/pickerMonth is the currently selected one */
   const isPeriodSelected = (startDay: number) => {
     if (!currentPeriod) return false;
-    const selectedStart = getPeriodStartDate(currentPeriod, periodType);
+    const selectedStart = getPeriodStartDate(currentPeriod, calendarPeriodType);
     return (
       selectedStart.getUTCFullYear() === pickerYear &&
       selectedStart.getUTCMonth() === pickerMonth &&
@@ -137,7 +218,7 @@ export function BudgetOverviewStrip({
   /** Check if a period is the current real-time period */
   const isCurrentPeriod = (startDay: number) => {
     const now = new Date();
-    const nowStart = getPeriodStartDate(now, periodType);
+    const nowStart = getPeriodStartDate(now, calendarPeriodType);
     return (
       nowStart.getUTCFullYear() === pickerYear &&
       nowStart.getUTCMonth() === pickerMonth &&
@@ -282,14 +363,14 @@ export function BudgetOverviewStrip({
                   exit={{ opacity: 0, y: 4 }}
                   transition={{ duration: 0.15 }}
                 >
-                  <span className="hidden md:inline">{formatPeriodDisplay(currentPeriod, periodType, false)}</span>
-                  <span className="md:hidden">{formatPeriodDisplay(currentPeriod, periodType, true)}</span>
+                  <span className="hidden md:inline">{formatPeriodDisplay(currentPeriod, periodType, periodAnchor, false)}</span>
+                  <span className="md:hidden">{formatPeriodDisplay(currentPeriod, periodType, periodAnchor, true)}</span>
                 </motion.span>
               </AnimatePresence>
             </button>
           </PopoverTrigger>
           <PopoverContent className="w-[260px] p-3" align="center">
-            {periodType === "monthly" ? (
+            {periodType === "monthly" && !payCycle ? (
               <>
                 {/* Monthly: Year nav + 3x4 month grid */}
                 <div className="flex items-center justify-between mb-3">
@@ -377,6 +458,19 @@ export function BudgetOverviewStrip({
                     <ChevronRight className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
                   </button>
                 </div>
+                {payCycle ? (
+                  <PayCyclePeriodList
+                    year={pickerYear}
+                    month={pickerMonth}
+                    currentPeriod={currentPeriod}
+                    periodType={periodType}
+                    periodAnchor={periodAnchor}
+                    onSelect={(date) => {
+                      onDateSelect?.(date);
+                      setCalendarOpen(false);
+                    }}
+                  />
+                ) : (
                 <div className={cn(
                   "grid gap-1.5",
                   periodType === "weekly" ? "grid-cols-2" : "grid-cols-1"
@@ -415,6 +509,7 @@ export function BudgetOverviewStrip({
                     );
                   })}
                 </div>
+                )}
               </>
             )}
           </PopoverContent>
@@ -4,6 +4,7 @@ import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "lucide-react";
 import { BudgetOverviewStrip } from "./budget-overview-strip";
+import { MonthCloseBar } from "./budget-close-month";
 import { UnifiedBudgetTable } from "./unified-budget-table";
 import { ExpenseDefinitionModal } from "./expense-definition-modal";
 import { AutoDetectExpensesDialog } from "./auto-detect-expenses-dialog";
@@ -23,6 +24,7 @@ import { useMediaQuery } from "@/hooks/use-media-query";
 import { motion, AnimatePresence } from "framer-motion";
 import { generateItemId } from "@/lib/layout-persistence";
 import { isSubcategoryRow } from "@/lib/budget-row-types";
+import { isPayCyclePeriod } from "@/lib/budget-engine";
 import type { UserBudget } from "@/app/actions/budgets";
 import type { ExpenseWithMatches } from "@/lib/expense-projections";
 
@@ -139,11 +141,14 @@ export function BudgetOverviewTab({
         spent={visibleSpent}
         currentPeriod={currentDate}
         periodType={periodType}
+        periodAnchor={summary?.periodAnchor ?? null}
         onPrevious={() => navigatePeriod("prev")}
         onNext={() => navigatePeriod("next")}
         onDateSelect={(date) => setDate(date)}
       />
 
+      <MonthCloseBar />
+
       <div className="space-y-3">
         {/* Main Content Area */}
         <div className="flex gap-4">
@@ -183,6 +188,8 @@ export function BudgetOverviewTab({
                 partnershipId={partnershipId}
                 periodStart={periodStart}
                 periodEnd={periodEnd}
+                currentUserId={userId}
+                payCycle={isPayCyclePeriod(periodType, summary?.periodAnchor)}
                 onClose={() => setSelectedItem(null)}
                 onEditExpense={(expenseId) => {
                   const expense = expenses.find(e => e.id === expenseId);
@@ -37,7 +37,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { motion } from "framer-motion";
 import { BudgetOverviewTab } from "./budget-overview-tab";
-import { BudgetSettingsTab } from "./budget-settings-tab";
+import { BudgetSettingsTab, type PaySourceOption } from "./budget-settings-tab";
 import { ExpenseDefinitionModal } from "./expense-definition-modal";
 import { AutoDetectExpensesDialog } from "./auto-detect-expenses-dialog";
 import { ExpensePaidSection } from "./expense-paid-section";
@@ -71,6 +71,8 @@ export interface BudgetShellData {
   initialUserId?: string;
   initialLayoutConfig?: any;
   nextPayDate?: string | null;
+  /** Recurring income sources the budget's periods can follow */
+  paySources?: PaySourceOption[];
   initialCategoryShares?: { category_name: string; is_shared: boolean; share_percentage: number }[];
   initialSplitSettings?: { expense_definition_id?: string | null; category_name?: string | null; split_type: string; owner_percentage?: number | null }[];
 }
@@ -113,6 +115,7 @@ function mapEngineRowsToUI(engineRows: EngineBudgetRow[]): UIBudgetRow[] {
         displayOrder: displayIdx++,
         isExpenseDefault: row.isExpenseDefault,
         expenseBudgetedCents: row.isExpenseDefault ? row.budgeted : undefined,
+        carryover: row.carryover,
       } satisfies SubcategoryBudgetRow);
     } else if (row.type === "goal") {
       result.push({
@@ -388,6 +391,7 @@ function BudgetPageShellContent({
     initialUserId,
     initialLayoutConfig,
     nextPayDate,
+    paySources = [],
   } = data;
 
   // ── New budget context (replaces useBudgetZero) ──
@@ -686,6 +690,7 @@ function BudgetPageShellContent({
               userId={userId}
               layoutConfig={layoutConfig}
               onLayoutSaved={refreshLayout}
+              paySources={paySources}
             />
           </TabsContent>
         </Tabs>
@@ -3,7 +3,7 @@
 /**
  * Budget Settings Tab
  *
- * Period type, layout customization, and delete budget.
+ * Period type, pay cycle, carryover mode, layout customization, and delete budget.
  */
 
 import { useState, useTransition } from "react";
@@ -11,6 +11,13 @@ import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Trash2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import type { UserBudget } from "@/app/actions/budgets";
 import { deleteBudget } from "@/app/actions/budgets";
 import { BudgetLayoutProvider } from "@/contexts/budget-layout-context";
@@ -18,6 +25,13 @@ import { BudgetCategoryLayoutEditor } from "./budget-category-layout-editor";
 import type { BudgetItemWithLayout } from "@/types/budget-layout";
 import { gooeyToast as toast } from "goey-toast";
 import { useBudget } from "@/contexts/budget-context";
+import {
+  normalizeCarryoverMode,
+  isPayCyclePeriod,
+  payFrequencyMatchesPeriod,
+  type CarryoverMode,
+  type PeriodType,
+} from "@/lib/budget-engine";
 
 const PERIOD_OPTIONS = [
   {
@@ -30,6 +44,11 @@ const PERIOD_OPTIONS = [
     label: "Fortnightly",
     description: "Budget resets every two weeks",
   },
+  {
+    value: "four-weekly" as const,
+    label: "Four-weekly",
+    description: "Budget resets every four weeks (13 periods a year)",
+  },
   {
     value: "monthly" as const,
     label: "Monthly",
@@ -37,6 +56,41 @@ const PERIOD_OPTIONS = [
   },
 ];
 
+/** Select value for periods that follow the calendar rather than a pay */
+const CALENDAR_CYCLE = "calendar";
+
+/** A recurring income source the budget's periods can follow */
+export interface PaySourceOption {
+  id: string;
+  name: string;
+  frequency: string | null;
+  /** Next (or last) pay date, YYYY-MM-DD */
+  payDate: string | null;
+}
+
+const CARRYOVER_OPTIONS: { value: CarryoverMode; label: string; description: string }[] = [
+  {
+    value: "none",
+    label: "Fresh each period",
+    description: "Every envelope starts from zero",
+  },
+  {
+    value: "rollover-unspent",
+    label: "Roll over unspent",
+    description: "Leftover money stays in the envelope; overspending is forgiven",
+  },
+  {
+    value: "rollover-with-debt",
+    label: "Roll over unspent & overspend",
+    description: "Overspending is carried forward as debt against next period",
+  },
+  {
+    value: "rollover-capped",
+    label: "Roll over, capped at target",
+    description: "Sinking funds grow until they reach the bill they're saving for",
+  },
+];
+
 interface BudgetSettingsTabProps {
   budget: UserBudget;
   partnershipId?: string;
@@ -44,6 +98,7 @@ interface BudgetSettingsTabProps {
   userId?: string;
   layoutConfig?: any;
   onLayoutSaved?: () => void;
+  paySources?: PaySourceOption[];
 }
 
 export function BudgetSettingsTab({
@@ -53,16 +108,25 @@ export function BudgetSettingsTab({
   userId,
   layoutConfig,
   onLayoutSaved,
+  paySources = [],
 }: BudgetSettingsTabProps) {
   const router = useRouter();
   const { updateSettings } = useBudget();
   const hasLayoutProps = partnershipId && userId && allItems;
-  const [periodType, setPeriodType] = useState(budget.period_type || "monthly");
+  const [periodType, setPeriodType] = useState<PeriodType>(budget.period_type || "monthly");
+  const [paySourceId, setPaySourceId] = useState<string | null>(budget.pay_cycle_source_id ?? null);
+  const [anchorDate, setAnchorDate] = useState(budget.period_anchor_date ?? "");
+  const [carryoverMode, setCarryoverMode] = useState<CarryoverMode>(
+    normalizeCarryoverMode(budget.carryover_mode)
+  );
   const [isPending, startTransition] = useTransition();
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
-  const handlePeriodChange = (period: "weekly" | "fortnightly" | "monthly") => {
+  const handlePeriodChange = (period: PeriodType) => {
     setPeriodType(period);
+    // The server unlinks a pay source that isn't paid on the new period
+    const linked = paySources.find((s) => s.id === paySourceId);
+    if (linked && !payFrequencyMatchesPeriod(period, linked.frequency)) setPaySourceId(null);
     startTransition(async () => {
       try {
         await updateSettings({ period_type: period });
@@ -70,6 +134,59 @@ export function BudgetSettingsTab({
       } catch {
         toast.error("Failed to update budget period");
         setPeriodType(budget.period_type || "monthly");
+        setPaySourceId(budget.pay_cycle_source_id ?? null);
+      }
+    });
+  };
+
+  const handlePaySourceChange = (value: string) => {
+    const sourceId = value === CALENDAR_CYCLE ? null : value;
+    setPaySourceId(sourceId);
+    // Linking copies the source's pay date into the budget's anchor
+    const source = paySources.find((s) => s.id === sourceId);
+    if (source?.payDate) setAnchorDate(source.payDate);
+    startTransition(async () => {
+      try {
+        await updateSettings({ pay_cycle_source_id: sourceId });
+        toast.success("Pay cycle updated");
+      } catch {
+        toast.error("Failed to update pay cycle");
+        setPaySourceId(budget.pay_cycle_source_id ?? null);
+        setAnchorDate(budget.period_anchor_date ?? "");
+      }
+    });
+  };
+
+  const handleAnchorDateChange = (value: string) => {
+    setAnchorDate(value);
+    startTransition(async () => {
+      try {
+        await updateSettings({ period_anchor_date: value || null });
+        toast.success("Pay cycle updated");
+      } catch {
+        toast.error("Failed to update pay cycle");
+        setAnchorDate(budget.period_anchor_date ?? "");
+      }
+    });
+  };
+
+  // Only sources paid on the budget's period can anchor it
+  const matchingPaySources = paySources.filter(
+    (s) => s.id === paySourceId || payFrequencyMatchesPeriod(periodType, s.frequency)
+  );
+  const followsPayCycle = isPayCyclePeriod(periodType, anchorDate || null);
+  // No income frequency is four-weekly, so those budgets take a pay date directly
+  const fourWeekly = periodType === "four-weekly";
+
+  const handleCarryoverChange = (mode: CarryoverMode) => {
+    setCarryoverMode(mode);
+    startTransition(async () => {
+      try {
+        await updateSettings({ carryover_mode: mode });
+        toast.success("Carryover updated");
+      } catch {
+        toast.error("Failed to update carryover");
+        setCarryoverMode(normalizeCarryoverMode(budget.carryover_mode));
       }
     });
   };
@@ -94,7 +211,7 @@ export function BudgetSettingsTab({
       transition={{ duration: 0.3 }}
       className="space-y-6"
     >
-      {/* Budget Period */}
+      {/* Budget Period & Carryover */}
       <div className="grid grid-cols-1 gap-4">
         {/* Budget Period */}
         <div
@@ -171,6 +288,165 @@ export function BudgetSettingsTab({
           </div>
         </div>
 
+        {/* Pay Cycle */}
+        <div
+          className="rounded-2xl shadow-sm border overflow-hidden"
+          style={{
+            backgroundColor: "var(--surface-elevated)",
+            borderColor: "var(--border)",
+          }}
+        >
+          <div
+            className="px-5 py-3.5 border-b"
+            style={{ borderColor: "var(--border)" }}
+          >
+            <span
+              className="font-[family-name:var(--font-nunito)] text-base font-bold"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Pay Cycle
+            </span>
+          </div>
+
+          <div className="p-4 space-y-3">
+            <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+              Start each period on payday instead of the calendar, e.g. fortnightly
+              from your pay date or monthly from the 15th.
+            </p>
+            {!fourWeekly && (
+              <Select
+                value={paySourceId ?? CALENDAR_CYCLE}
+                onValueChange={handlePaySourceChange}
+                disabled={isPending}
+              >
+                <SelectTrigger className="h-11 rounded-xl font-[family-name:var(--font-dm-sans)]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CALENDAR_CYCLE}>
+                    {paySourceId ? "No income source" : "Calendar (no pay cycle)"}
+                  </SelectItem>
+                  {matchingPaySources.map((source) => (
+                    <SelectItem key={source.id} value={source.id}>
+                      {source.name}
+                      {source.frequency ? ` · ${source.frequency}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {(fourWeekly || !paySourceId) && (
+              <div>
+                <label
+                  htmlFor="period-anchor-date"
+                  className="text-xs font-semibold mb-1.5 block"
+                  style={{ color: "var(--text-secondary)" }}
+                >
+                  {fourWeekly ? "Start periods from a pay date" : "Or start periods from a date"}
+                </label>
+                <input
+                  id="period-anchor-date"
+                  type="date"
+                  value={anchorDate}
+                  onChange={(e) => handleAnchorDateChange(e.target.value)}
+                  disabled={isPending}
+                  className="w-full p-2 rounded-lg text-sm border disabled:opacity-50"
+                  style={{
+                    backgroundColor: "var(--surface-secondary)",
+                    borderColor: "var(--border)",
+                    color: "var(--text-primary)",
+                  }}
+                />
+              </div>
+            )}
+
+            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+              {fourWeekly && !anchorDate
+                ? "Without a pay date, four-weekly periods start every fourth Monday from 1 January 2024."
+                : followsPayCycle
+                ? "Periods follow this pay cycle and belong to the month they start in."
+                : "Periods follow the calendar month."}
+            </p>
+          </div>
+        </div>
+
+
+        {/* Carryover */}
+        <div
+          className="rounded-2xl shadow-sm border overflow-hidden"
+          style={{
+            backgroundColor: "var(--surface-elevated)",
+            borderColor: "var(--border)",
+          }}
+        >
+          <div
+            className="px-5 py-3.5 border-b"
+            style={{ borderColor: "var(--border)" }}
+          >
+            <span
+              className="font-[family-name:var(--font-nunito)] text-base font-bold"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Carryover
+            </span>
+          </div>
+
+          <div className="p-4 space-y-1.5">
+            {CARRYOVER_OPTIONS.map((opt) => {
+              const isSelected = carryoverMode === opt.value;
+              return (
+                <button
+                  key={opt.value}
+                  type="button"
+                  onClick={() => handleCarryoverChange(opt.value)}
+                  disabled={isPending}
+                  className="w-full rounded-xl px-3.5 py-2.5 text-left border cursor-pointer transition-colors duration-200 flex items-center gap-3 outline-none focus-visible:ring-2 focus-visible:ring-brand-coral focus-visible:ring-offset-2 disabled:opacity-50"
+                  style={{
+                    backgroundColor: isSelected
+                      ? "var(--pastel-coral-light, rgba(248,113,113,0.08))"
+                      : "var(--surface-elevated)",
+                    borderColor: isSelected
+                      ? "var(--brand-coral)"
+                      : "var(--border)",
+                  }}
+                  aria-pressed={isSelected}
+                >
+                  <div
+                    className="w-4 h-4 rounded-full border-2 shrink-0 flex items-center justify-center"
+                    style={{
+                      borderColor: isSelected
+                        ? "var(--brand-coral)"
+                        : "var(--text-tertiary)",
+                    }}
+                  >
+                    {isSelected && (
+                      <div
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: "var(--brand-coral)" }}
+                      />
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <span
+                      className="text-sm font-[family-name:var(--font-nunito)] font-bold block"
+                      style={{ color: "var(--text-primary)" }}
+                    >
+                      {opt.label}
+                    </span>
+                    <span
+                      className="text-xs"
+                      style={{ color: "var(--text-secondary)" }}
+                    >
+                      {opt.description}
+                    </span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
       </div>
 
       {/* Customize Layout - inline editor */}
@@ -12,6 +12,7 @@ import { BudgetEditDialog } from "./budget-edit-dialog";
 import { LayoutConfig, Section, generateItemId, getDensitySpacing } from "@/lib/layout-persistence";
 import type { BudgetRow, ExpenseData } from "@/lib/budget-row-types";
 import { isGoalRow, isAssetRow, isSubcategoryRow, isCategoryRow } from "@/lib/budget-row-types";
+import type { PeriodType } from "@/lib/budget-engine";
 
 const LUCIDE_TO_EMOJI: Record<string, string> = {
   "piggy-bank": "🐷", "home": "🏠", "car": "🚗", "plane": "✈️",
@@ -37,7 +38,7 @@ interface UnifiedBudgetTableProps {
   onMethodologyAssignmentRequest?: (categoryName: string, amount: number, underlyingCategories: string[]) => void;
   layoutConfig?: LayoutConfig | null;
   income?: number; // Total income for percentage-based target calculations
-  budgetPeriod?: 'weekly' | 'fortnightly' | 'monthly';
+  budgetPeriod?: PeriodType;
   onItemClick?: (item: BudgetRow) => void; // For detail panel
   onShareChange?: (categoryName: string, isShared: boolean, percentage: number) => void; // For quick share actions
   searchQuery?: string; // External search filter
@@ -377,6 +378,14 @@ export function UnifiedBudgetTable({
                           auto
                         </span>
                       )}
+                      {isSubcategoryRow(item) && !!item.carryover && (
+                        <span
+                          className="text-[10px] font-semibold uppercase tracking-wider"
+                          style={{ color: item.carryover < 0 ? 'var(--pastel-coral-dark)' : 'var(--pastel-mint-dark)' }}
+                        >
+                          {item.carryover > 0 ? '+' : '−'}{formatCurrency(Math.abs(item.carryover))} rolled
+                        </span>
+                      )}
                     </button>
                   </div>
 
@@ -43,6 +43,7 @@ interface WizardFinetuneStepProps {
 const PERIOD_OPTIONS = [
   { value: "weekly" as const, label: "Weekly" },
   { value: "fortnightly" as const, label: "Fortnightly" },
+  { value: "four-weekly" as const, label: "Four-weekly" },
   { value: "monthly" as const, label: "Monthly" },
 ];
 
@@ -22,6 +22,7 @@ const methodologyLabels: Record<string, string> = {
 const periodLabels: Record<string, string> = {
   weekly: "Weekly",
   fortnightly: "Fortnightly",
+  "four-weekly": "Four-weekly",
   monthly: "Monthly",
 };
 
@@ -38,6 +39,9 @@ const viewLabels: Record<string, string> = {
 
 const carryoverLabels: Record<string, string> = {
   none: "Fresh each period",
+  "rollover-unspent": "Roll over unspent",
+  "rollover-with-debt": "Roll over unspent & overspend",
+  "rollover-capped": "Roll over, capped at target",
 };
 
 export function WizardReviewStep({
@@ -77,7 +81,7 @@ export function WizardReviewStep({
     { label: "Period", value: periodLabels[state.periodType] },
     {
       label: "Carryover",
-      value: "Fresh each period",
+      value: carryoverLabels[state.carryoverMode] ?? "Fresh each period",
     },
     {
       label: "View",
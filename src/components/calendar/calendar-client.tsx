@@ -0,0 +1,278 @@
+"use client";
+
+import { motion } from "framer-motion";
+import {
+  AlertTriangle,
+  ArrowDownCircle,
+  ArrowUpCircle,
+  PiggyBank,
+  TrendingUp,
+} from "lucide-react";
+import { useRouter } from "next/navigation";
+import { EmptyState } from "@/components/ui/empty-state";
+import type {
+  CashflowCalendar,
+  CashflowDay,
+  CashflowEventKind,
+} from "@/lib/cashflow-calendar";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat("en-AU", {
+    style: "currency",
+    currency: "AUD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100);
+
+/** "2026-10-23" -> "Fri 23 Oct" (formatted in UTC so the day never shifts) */
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-AU", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+const KIND_STYLES: Record<
+  CashflowEventKind,
+  { icon: typeof ArrowUpCircle; color: string; label: string }
+> = {
+  income: { icon: ArrowUpCircle, color: "var(--pastel-mint-dark)", label: "Pay day" },
+  bill: { icon: ArrowDownCircle, color: "var(--pastel-coral-dark)", label: "Bill" },
+  goal: { icon: PiggyBank, color: "var(--pastel-purple)", label: "Goal" },
+  investment: { icon: TrendingUp, color: "var(--pastel-blue)", label: "Investment" },
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+interface CalendarClientProps {
+  calendar: CashflowCalendar;
+  horizonDays: number;
+  horizonOptions: number[];
+}
+
+export function CalendarClient({ calendar, horizonDays, horizonOptions }: CalendarClientProps) {
+  const router = useRouter();
+  const { accounts, days, lowPoints, negativeDayCount } = calendar;
+  const accountNames = new Map(accounts.map((a) => [a.id, a.display_name]));
+  const eventDays = days.filter((d) => d.events.length > 0 || d.date === calendar.startDate);
+
+  if (accounts.length === 0) {
+    return (
+      <EmptyState
+        icon="📅"
+        title="No accounts to project"
+        description="Connect your bank so the calendar can run your balances forward from today."
+        action={{ label: "Connect Up Bank", href: "/settings/up-connection", color: "blue" }}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen pb-24" style={{ backgroundColor: "var(--background)" }}>
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6"
+      >
+        <div>
+          <h1 className="font-[family-name:var(--font-nunito)] text-3xl font-black text-text-primary">
+            Cashflow Calendar
+          </h1>
+          <p className="font-[family-name:var(--font-dm-sans)] text-text-secondary">
+            Pay days, bills and contributions for the next {horizonDays} days
+          </p>
+        </div>
+        <div className="flex gap-1.5">
+          {horizonOptions.map((option) => (
+            <button
+              key={option}
+              onClick={() => router.push(`/calendar?days=${option}`)}
+              className="px-3 py-1.5 rounded-xl text-xs font-[family-name:var(--font-nunito)] font-bold transition-colors"
+              style={{
+                backgroundColor:
+                  option === horizonDays ? "var(--pastel-blue)" : "var(--surface-elevated)",
+                color: option === horizonDays ? "white" : "var(--text-secondary)",
+              }}
+            >
+              {option}d
+            </button>
+          ))}
+        </div>
+      </motion.div>
+
+      {/* Low points */}
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.02 }}
+        className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-6"
+      >
+        {accounts.map((account) => {
+          const low = lowPoints[account.id];
+          const negative = low.balanceCents < 0;
+          return (
+            <div
+              key={account.id}
+              className="border-0 shadow-sm rounded-2xl p-4"
+              style={{ backgroundColor: "var(--surface-elevated)" }}
+            >
+              <p
+                className="text-[10px] font-medium uppercase tracking-wider mb-1"
+                style={{ color: "var(--text-tertiary)" }}
+              >
+                {account.display_name} · lowest
+              </p>
+              <p
+                className="font-[family-name:var(--font-nunito)] text-xl font-black"
+                style={{ color: negative ? "var(--error)" : "var(--text-primary)" }}
+              >
+                {formatCurrency(low.balanceCents)}
+              </p>
+              <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                {formatDay(low.date)} · now {formatCurrency(account.balance_cents)}
+              </p>
+            </div>
+          );
+        })}
+      </motion.div>
+
+      {negativeDayCount > 0 && (
+        <div
+          className="flex items-start gap-2 rounded-2xl p-4 mb-6 text-sm"
+          style={{
+            backgroundColor: "var(--error-light)",
+            border: "1px solid var(--error-border)",
+            color: "var(--error-text)",
+          }}
+        >
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            An account is projected to go negative on {negativeDayCount}{" "}
+            {negativeDayCount === 1 ? "day" : "days"}. Check the highlighted days below.
+          </span>
+        </div>
+      )}
+
+      {/* Day-by-day agenda */}
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.04 }}
+        className="border-0 shadow-sm rounded-2xl overflow-hidden"
+        style={{ backgroundColor: "var(--surface-elevated)" }}
+      >
+        <div className="divide-y" style={{ borderColor: "var(--border)" }}>
+          {eventDays.map((day) => (
+            <CalendarDayRow
+              key={day.date}
+              day={day}
+              isToday={day.date === calendar.startDate}
+              accountNames={accountNames}
+            />
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+function CalendarDayRow({
+  day,
+  isToday,
+  accountNames,
+}: {
+  day: CashflowDay;
+  isToday: boolean;
+  accountNames: Map<string, string>;
+}) {
+  const negative = day.negativeAccountIds.length > 0;
+
+  return (
+    <div
+      className="px-5 py-4"
+      style={negative ? { backgroundColor: "var(--error-light)" } : undefined}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span
+          className="font-[family-name:var(--font-nunito)] text-sm font-bold"
+          style={{ color: "var(--text-primary)" }}
+        >
+          {isToday ? "Today" : formatDay(day.date)}
+        </span>
+        {negative && (
+          <span
+            className="flex items-center gap-1 text-xs font-medium"
+            style={{ color: "var(--error)" }}
+          >
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {day.negativeAccountIds.map((id) => accountNames.get(id)).join(", ")} overdrawn
+          </span>
+        )}
+      </div>
+
+      {day.events.length === 0 ? (
+        <p className="text-xs mb-2" style={{ color: "var(--text-tertiary)" }}>
+          Nothing scheduled
+        </p>
+      ) : (
+        <ul className="space-y-1.5 mb-2">
+          {day.events.map((event) => {
+            const { icon: Icon, color, label } = KIND_STYLES[event.kind];
+            const accountName = event.account_id ? accountNames.get(event.account_id) : null;
+            const toName = event.to_account_id ? accountNames.get(event.to_account_id) : null;
+            return (
+              <li key={event.id} className="flex items-center gap-2 text-sm">
+                {event.emoji ? (
+                  <span className="w-4 text-center">{event.emoji}</span>
+                ) : (
+                  <Icon className="h-4 w-4 shrink-0" style={{ color }} />
+                )}
+                <span className="flex-1 truncate" style={{ color: "var(--text-primary)" }}>
+                  {event.name}
+                  <span className="ml-2 text-xs" style={{ color: "var(--text-tertiary)" }}>
+                    {label}
+                    {accountName && ` · ${accountName}`}
+                    {toName && ` → ${toName}`}
+                  </span>
+                </span>
+                <span
+                  className="font-[family-name:var(--font-nunito)] font-bold tabular-nums"
+                  style={{
+                    color: event.amount_cents > 0 ? "var(--pastel-mint-dark)" : "var(--text-primary)",
+                  }}
+                >
+                  {event.amount_cents > 0 ? "+" : "−"}
+                  {formatCurrency(Math.abs(event.amount_cents))}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-1.5">
+        {Object.entries(day.balances).map(([accountId, balance]) => (
+          <span
+            key={accountId}
+            className="px-2 py-0.5 rounded-lg text-[11px] tabular-nums"
+            style={{
+              backgroundColor: balance < 0 ? "var(--error-light)" : "var(--muted)",
+              color: balance < 0 ? "var(--error)" : "var(--text-secondary)",
+            }}
+          >
+            {accountNames.get(accountId)} {formatCurrency(balance)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -8,8 +8,10 @@ import { ChevronRight, TrendingUp, TrendingDown, Clock } from "lucide-react";
 import { PlanHealthRing } from "@/components/plan/plan-health-ring";
 import { NumberTicker } from "@/components/ui/number-ticker";
 import { RecurringExpensesCard } from "@/components/budget/recurring-expenses-card";
+import { DashboardWidgets } from "@/components/dashboard/dashboard-widgets";
 import Link from "next/link";
 import type { Insight } from "@/lib/spending-insights";
+import type { DashboardWidget, WidgetData } from "@/lib/dashboard-widgets";
 import {
   AreaChart,
   Area,
@@ -84,6 +86,8 @@ interface NetWorthSnapshot {
   snapshot_date: string;
   total_balance_cents: number;
   investment_total_cents?: number;
+  super_total_cents?: number;
+  liability_total_cents?: number;
 }
 
 interface DashboardClientProps {
@@ -109,6 +113,8 @@ interface DashboardClientProps {
   safeToSpend?: number | null;
   monthlyBurnRate?: number;
   yearEndProjection?: number;
+  widgets?: DashboardWidget[];
+  widgetData?: Record<string, WidgetData>;
 }
 
 // ============================================================================
@@ -314,6 +320,8 @@ export function DashboardClient({
   safeToSpend = null,
   monthlyBurnRate = 0,
   yearEndProjection = 0,
+  widgets = [],
+  widgetData = {},
 }: DashboardClientProps) {
   const isStale = lastSyncTime
     ? Date.now() - new Date(lastSyncTime).getTime() > 24 * 60 * 60 * 1000
@@ -565,7 +573,7 @@ export function DashboardClient({
                         <ResponsiveContainer width="100%" height="100%">
                           <AreaChart data={netWorthSnapshots.map(s => ({
                             date: new Date(s.snapshot_date).toLocaleDateString("en-AU", { month: "short" }),
-                            value: Math.round((s.total_balance_cents + (s.investment_total_cents || 0)) / 100),
+                            value: Math.round((s.total_balance_cents + (s.investment_total_cents || 0) + (s.super_total_cents || 0) - (s.liability_total_cents || 0)) / 100),
                           }))} margin={{ top: 2, right: 2, left: 2, bottom: 2 }}>
                             <defs>
                               <linearGradient id="nwGradient" x1="0" y1="0" x2="0" y2="1">
@@ -777,6 +785,11 @@ export function DashboardClient({
             </motion.div>
           </div>
         </div>
+
+        {/* ════════════════════════════════════════════════════════════════════
+            CUSTOM WIDGETS
+        ════════════════════════════════════════════════════════════════════ */}
+        <DashboardWidgets widgets={widgets} widgetData={widgetData} categoryMappings={categoryMappings} />
       </div>
     </div>
   );
@@ -0,0 +1,270 @@
+"use client";
+
+import Link from "next/link";
+import { Check } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { WidgetData } from "@/lib/dashboard-widgets";
+import {
+  AreaChart,
+  Area,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+  type TooltipContentProps,
+} from "recharts";
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD", minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(cents / 100);
+
+const formatAxis = (v: number) => `$${Math.abs(v) >= 1000 ? `${(v / 1000).toFixed(0)}k` : v}`;
+
+const formatDueDate = (date: string) => {
+  const [y, m, d] = date.split("-").map(Number);
+  const due = new Date(y, m - 1, d);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const diffDays = Math.round((due.getTime() - today.getTime()) / 86400000);
+  if (diffDays < 0) return `${Math.abs(diffDays)}d overdue`;
+  if (diffDays === 0) return "Today";
+  if (diffDays === 1) return "Tomorrow";
+  if (diffDays < 7) return `In ${diffDays} days`;
+  return due.toLocaleDateString("en-AU", { day: "numeric", month: "short" });
+};
+
+const goalIconMap: Record<string, string> = {
+  "piggy-bank": "🐷",
+  home: "🏠",
+  car: "🚗",
+  plane: "✈️",
+  gift: "🎁",
+  heart: "❤️",
+  star: "⭐",
+  money: "💰",
+  ring: "💍",
+  baby: "👶",
+  vacation: "🏖️",
+};
+
+const axisProps = {
+  tick: { fontSize: 10, fill: "var(--text-tertiary)" },
+  tickLine: false,
+  axisLine: false,
+} as const;
+
+function ChartTooltip({ active, payload, label }: Partial<TooltipContentProps<number, string>>) {
+  if (!active || !payload?.length) return null;
+  return (
+    <div
+      className="px-3 py-2 rounded-lg shadow-lg text-xs space-y-0.5"
+      style={{ backgroundColor: "var(--surface-elevated)", border: "1px solid var(--border)" }}
+    >
+      <p className="font-semibold" style={{ color: "var(--text-primary)" }}>{label}</p>
+      {payload.map((p) => (
+        <p key={String(p.dataKey)} style={{ color: p.stroke }}>
+          {p.name}: {formatCurrency(Number(p.value ?? 0) * 100)}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function EmptyWidget({ message, href, linkLabel }: { message: string; href?: string; linkLabel?: string }) {
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-1 text-center">
+      <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>{message}</p>
+      {href && (
+        <Link href={href} className="text-xs font-medium" style={{ color: "var(--pastel-blue-dark)" }}>
+          {linkLabel}
+        </Link>
+      )}
+    </div>
+  );
+}
+
+/** The contents of a dashboard widget, sized to fill its card */
+export function DashboardWidgetBody({ id, data }: { id: string; data: WidgetData | undefined }) {
+  if (!data || data.type === "unsupported") {
+    return <EmptyWidget message="This widget isn't available any more. Remove it or pick another type." />;
+  }
+
+  switch (data.type) {
+    case "category-trend": {
+      if (data.totalCents === 0) return <EmptyWidget message="No spending in this period" />;
+      const chartData = data.points.map((p) => ({ label: p.label, amount: Math.round(p.amountCents / 100) }));
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+            <defs>
+              <linearGradient id={`trend-${id}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="var(--pastel-coral)" stopOpacity={0.4} />
+                <stop offset="95%" stopColor="var(--pastel-coral)" stopOpacity={0.05} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" vertical={false} />
+            <XAxis dataKey="label" {...axisProps} interval="preserveStartEnd" />
+            <YAxis {...axisProps} tickFormatter={formatAxis} />
+            <Tooltip content={<ChartTooltip />} cursor={{ stroke: "var(--border)", strokeDasharray: "3 3" }} />
+            <Area type="monotone" dataKey="amount" name="Spent" stroke="var(--pastel-coral)" strokeWidth={2} fill={`url(#trend-${id})`} dot={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    case "merchant-top": {
+      if (data.merchants.length === 0) return <EmptyWidget message="No spending in this period" />;
+      const top = data.merchants[0].amountCents;
+      return (
+        <div className="space-y-2.5">
+          {data.merchants.map((m) => (
+            <div key={m.name}>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <p className="text-sm truncate" style={{ color: "var(--text-primary)" }}>{m.name}</p>
+                <p className="text-sm font-medium flex-shrink-0" style={{ color: "var(--text-primary)" }}>
+                  {formatCurrency(m.amountCents)}
+                  <span className="text-xs font-normal ml-1" style={{ color: "var(--text-tertiary)" }}>×{m.count}</span>
+                </p>
+              </div>
+              <div className="h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: "var(--surface)" }}>
+                <div className="h-full rounded-full" style={{ width: `${(m.amountCents / top) * 100}%`, backgroundColor: "var(--pastel-blue)" }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case "budget-burndown": {
+      if (data.budgetCents === 0) {
+        return <EmptyWidget message="Nothing budgeted for these categories this month" href="/budget" linkLabel="Set up budget" />;
+      }
+      const chartData = data.points.map((p) => ({
+        label: p.label,
+        remaining: p.remainingCents === null ? null : Math.round(p.remainingCents / 100),
+        ideal: Math.round(p.idealCents / 100),
+      }));
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" vertical={false} />
+            <XAxis dataKey="label" {...axisProps} interval="preserveStartEnd" />
+            <YAxis {...axisProps} tickFormatter={formatAxis} />
+            <Tooltip content={<ChartTooltip />} cursor={{ stroke: "var(--border)", strokeDasharray: "3 3" }} />
+            <Line type="monotone" dataKey="ideal" name="Even pace" stroke="var(--text-tertiary)" strokeDasharray="4 4" strokeWidth={1.5} dot={false} />
+            <Line
+              type="monotone"
+              dataKey="remaining"
+              name="Left"
+              stroke={data.spentCents > data.budgetCents ? "var(--pastel-coral-dark)" : "var(--pastel-mint-dark)"}
+              strokeWidth={2}
+              dot={false}
+              connectNulls={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    case "net-worth": {
+      if (data.points.length < 2) return <EmptyWidget message="Net worth history builds up as your accounts sync" />;
+      const chartData = data.points.map((p) => ({ label: p.label, value: Math.round(p.valueCents / 100) }));
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 5, right: 5, left: -12, bottom: 0 }}>
+            <defs>
+              <linearGradient id={`nw-${id}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="var(--pastel-mint)" stopOpacity={0.4} />
+                <stop offset="95%" stopColor="var(--pastel-mint)" stopOpacity={0.05} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" vertical={false} />
+            <XAxis dataKey="label" {...axisProps} interval="preserveStartEnd" />
+            <YAxis {...axisProps} tickFormatter={formatAxis} domain={["auto", "auto"]} />
+            <Tooltip content={<ChartTooltip />} cursor={{ stroke: "var(--border)", strokeDasharray: "3 3" }} />
+            <Area type="monotone" dataKey="value" name="Net worth" stroke="var(--pastel-mint-dark)" strokeWidth={2} fill={`url(#nw-${id})`} dot={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    case "goal-progress": {
+      if (data.goals.length === 0) return <EmptyWidget message="No active goals" href="/goals" linkLabel="Add a goal" />;
+      return (
+        <div className="space-y-3">
+          {data.goals.map((g) => {
+            const progress = g.targetCents > 0 ? Math.min((g.currentCents / g.targetCents) * 100, 100) : 0;
+            return (
+              <div key={g.id}>
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <p className="text-sm truncate" style={{ color: "var(--text-primary)" }}>
+                    <span className="mr-1.5">{goalIconMap[g.icon] || "🎯"}</span>
+                    {g.name}
+                  </p>
+                  <p className="text-xs flex-shrink-0" style={{ color: "var(--text-tertiary)" }}>
+                    {progress.toFixed(0)}%
+                    {g.savedInPeriodCents !== 0 && (
+                      <span style={{ color: g.savedInPeriodCents > 0 ? "var(--pastel-mint-dark)" : "var(--pastel-coral-dark)" }}>
+                        {" · "}{g.savedInPeriodCents > 0 ? "+" : "−"}{formatCurrency(Math.abs(g.savedInPeriodCents))}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <Progress value={progress} className="h-1.5" indicatorColor={g.color} />
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case "upcoming-bills": {
+      if (data.bills.length === 0) return <EmptyWidget message="No bills due in this period" />;
+      return (
+        <div className="space-y-2">
+          {data.bills.map((b) => (
+            <div key={b.id} className="flex items-center gap-2.5">
+              <span className="text-base flex-shrink-0">{b.emoji || "📄"}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate" style={{ color: "var(--text-primary)" }}>{b.name}</p>
+                <p className="text-xs" style={{ color: b.overdue ? "var(--pastel-coral-dark)" : "var(--text-tertiary)" }}>
+                  {formatDueDate(b.dueDate)}
+                </p>
+              </div>
+              {b.isPaid ? (
+                <span className="flex items-center gap-1 text-xs" style={{ color: "var(--pastel-mint-dark)" }}>
+                  <Check className="w-3 h-3" /> Paid
+                </span>
+              ) : (
+                <p className="text-sm font-medium flex-shrink-0" style={{ color: "var(--text-primary)" }}>{formatCurrency(b.amountCents)}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      );
+    }
+  }
+}
+
+/** One-line figure shown under the widget title */
+export function widgetSummary(data: WidgetData | undefined): string | null {
+  switch (data?.type) {
+    case "category-trend":
+    case "merchant-top":
+      return `${formatCurrency(data.totalCents)} spent`;
+    case "budget-burndown":
+      return data.budgetCents > 0
+        ? `${formatCurrency(Math.abs(data.budgetCents - data.spentCents))} ${data.spentCents > data.budgetCents ? "over" : "left"} of ${formatCurrency(data.budgetCents)}`
+        : null;
+    case "net-worth":
+      return data.points.length > 0
+        ? `${formatCurrency(data.points[data.points.length - 1].valueCents)} (${data.changeCents >= 0 ? "+" : "−"}${formatCurrency(Math.abs(data.changeCents))})`
+        : null;
+    case "upcoming-bills":
+      return data.dueCents > 0 ? `${formatCurrency(data.dueCents)} due` : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useEffect, useState, type CSSProperties } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { gooeyToast as toast } from "goey-toast";
+import { GripVertical, MoveHorizontal, MoveVertical, Pencil, Plus, Settings2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { deleteDashboardWidget, saveDashboardLayout } from "@/app/actions/dashboard-widgets";
+import {
+  MAX_DASHBOARD_WIDGETS,
+  WIDGET_HEIGHTS,
+  WIDGET_TIME_PERIOD_LABELS,
+  WIDGET_WIDTHS,
+  moveWidget,
+  normalizeWidgetSize,
+  packWidgets,
+  type DashboardWidget,
+  type WidgetData,
+  type WidgetTimePeriod,
+} from "@/lib/dashboard-widgets";
+import { DashboardWidgetBody, widgetSummary } from "./dashboard-widget-body";
+import { WidgetSettingsDialog } from "./widget-settings-dialog";
+
+interface CategoryMapping {
+  up_category_id: string;
+  new_parent_name: string | null;
+  icon: string | null;
+}
+
+interface DashboardWidgetsProps {
+  widgets: DashboardWidget[];
+  widgetData: Record<string, WidgetData>;
+  categoryMappings: CategoryMapping[];
+}
+
+// Grid row height in px — a widget of height h spans h rows
+const ROW_HEIGHT = 112;
+
+const nextSize = (options: readonly number[], current: number) =>
+  options[(options.indexOf(current) + 1) % options.length];
+
+const withSizes = (widgets: DashboardWidget[]) =>
+  widgets.map((w) => ({ ...w, ...normalizeWidgetSize(w.grid_width, w.grid_height) }));
+
+export function DashboardWidgets({ widgets, widgetData, categoryMappings }: DashboardWidgetsProps) {
+  const router = useRouter();
+  const [items, setItems] = useState(() => withSizes(widgets));
+  const [editing, setEditing] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selected, setSelected] = useState<DashboardWidget | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  // Pick up server changes after a save or refresh
+  useEffect(() => {
+    setItems(withSizes(widgets));
+  }, [widgets]);
+
+  const placements = packWidgets(items);
+
+  const applyLayout = async (next: typeof items, refresh: boolean) => {
+    const previous = items;
+    setItems(next);
+    const result = await saveDashboardLayout(next.map(({ id, grid_width, grid_height }) => ({ id, grid_width, grid_height })));
+    if ("error" in result && result.error) {
+      setItems(previous);
+      toast.error(result.error);
+      return;
+    }
+    // Taller list widgets show more rows, which the server works out
+    if (refresh) router.refresh();
+  };
+
+  const resize = (id: string, dimension: "grid_width" | "grid_height") => {
+    const options = dimension === "grid_width" ? WIDGET_WIDTHS : WIDGET_HEIGHTS;
+    applyLayout(
+      items.map((w) => (w.id === id ? { ...w, [dimension]: nextSize(options, w[dimension]) } : w)),
+      dimension === "grid_height"
+    );
+  };
+
+  const remove = async (id: string) => {
+    const previous = items;
+    setItems(items.filter((w) => w.id !== id));
+    const result = await deleteDashboardWidget(id);
+    if ("error" in result && result.error) {
+      setItems(previous);
+      toast.error(result.error);
+      return;
+    }
+    toast.success("Widget removed");
+    router.refresh();
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (dragId && dragId !== targetId) applyLayout(moveWidget(items, dragId, targetId), false);
+    setDragId(null);
+    setOverId(null);
+  };
+
+  const openDialog = (widget: DashboardWidget | null) => {
+    setSelected(widget);
+    setDialogOpen(true);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+      className="mt-4 md:mt-6"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-[family-name:var(--font-nunito)] text-xl font-bold text-text-primary">
+          Your widgets
+        </h2>
+        <div className="flex items-center gap-2">
+          {editing && items.length < MAX_DASHBOARD_WIDGETS && (
+            <Button
+              variant="outline"
+              onClick={() => openDialog(null)}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-0 shadow-sm text-sm"
+              style={{ backgroundColor: "var(--surface-elevated)", color: "var(--text-secondary)" }}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add widget
+            </Button>
+          )}
+          {items.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => setEditing(!editing)}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-0 shadow-sm text-sm"
+              style={{ backgroundColor: "var(--surface-elevated)", color: "var(--text-secondary)" }}
+            >
+              {editing ? "Done" : <><Settings2 className="h-4 w-4 mr-1" />Customise</>}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <button
+          type="button"
+          onClick={() => openDialog(null)}
+          className="w-full rounded-2xl border-2 border-dashed p-8 text-center transition-colors hover:bg-[var(--surface-elevated)]"
+          style={{ borderColor: "var(--border)" }}
+        >
+          <Plus className="h-6 w-6 mx-auto mb-2" style={{ color: "var(--text-tertiary)" }} />
+          <p className="font-[family-name:var(--font-nunito)] font-bold" style={{ color: "var(--text-primary)" }}>
+            Add a widget
+          </p>
+          <p className="text-sm mt-1" style={{ color: "var(--text-tertiary)" }}>
+            Chart spending by category, top merchants, budget burn-down, net worth, goals or upcoming bills.
+          </p>
+        </button>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-4" style={{ gridAutoRows: `${ROW_HEIGHT}px` }}>
+          {placements.map((p) => {
+            const widget = items.find((w) => w.id === p.id)!;
+            const data = widgetData[p.id];
+            const summary = widgetSummary(data);
+            const period = WIDGET_TIME_PERIOD_LABELS[widget.time_period as WidgetTimePeriod];
+            const filtered = (widget.category_filter?.length ?? 0) > 0;
+
+            return (
+              <div
+                key={p.id}
+                draggable={editing}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDragId(p.id);
+                }}
+                onDragOver={(e) => {
+                  if (!dragId) return;
+                  e.preventDefault();
+                  setOverId(p.id);
+                }}
+                onDragLeave={() => setOverId((current) => (current === p.id ? null : current))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(p.id);
+                }}
+                onDragEnd={() => {
+                  setDragId(null);
+                  setOverId(null);
+                }}
+                className="lg:[grid-column:var(--widget-col)] lg:[grid-row:var(--widget-row)] [grid-row:span_var(--widget-rows)]"
+                style={{
+                  "--widget-col": `${p.grid_x + 1} / span ${p.grid_width}`,
+                  "--widget-row": `${p.grid_y + 1} / span ${p.grid_height}`,
+                  "--widget-rows": p.grid_height,
+                  opacity: dragId === p.id ? 0.5 : 1,
+                } as CSSProperties}
+              >
+                <Card
+                  className={`h-full border-0 shadow-sm flex flex-col overflow-hidden transition-shadow ${editing ? "cursor-move" : ""} ${overId === p.id && dragId !== p.id ? "ring-2 ring-[var(--pastel-blue)]" : ""}`}
+                  style={{ backgroundColor: "var(--surface-elevated)" }}
+                >
+                  <CardHeader className="pb-2 flex flex-row items-start justify-between gap-2 space-y-0">
+                    <div className="min-w-0">
+                      <CardTitle className="text-base font-semibold truncate" style={{ color: "var(--text-primary)" }}>
+                        {widget.title}
+                      </CardTitle>
+                      <p className="text-xs truncate" style={{ color: "var(--text-tertiary)" }}>
+                        {period ?? widget.time_period}
+                        {filtered && " · Filtered"}
+                        {summary && ` · ${summary}`}
+                      </p>
+                    </div>
+                    {editing && (
+                      <div className="flex items-center gap-0.5 flex-shrink-0" style={{ color: "var(--text-tertiary)" }}>
+                        <GripVertical className="h-4 w-4 mr-1" aria-hidden />
+                        <Button variant="ghost" size="icon" className="h-7 w-7" title="Edit widget" onClick={() => openDialog(widget)}>
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7 hidden lg:inline-flex" title="Change width" onClick={() => resize(p.id, "grid_width")}>
+                          <MoveHorizontal className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" title="Change height" onClick={() => resize(p.id, "grid_height")}>
+                          <MoveVertical className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" title="Remove widget" onClick={() => remove(p.id)}>
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent className="flex-1 min-h-0 overflow-hidden">
+                    <DashboardWidgetBody id={p.id} data={data} />
+                  </CardContent>
+                </Card>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <WidgetSettingsDialog
+        key={`${selected?.id ?? "new"}-${dialogOpen}`}
+        widget={selected}
+        categoryMappings={categoryMappings}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+      />
+    </motion.div>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { gooeyToast as toast } from "goey-toast";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createDashboardWidget, updateDashboardWidget } from "@/app/actions/dashboard-widgets";
+import {
+  DASHBOARD_WIDGETS,
+  DASHBOARD_WIDGET_TYPES,
+  WIDGET_HEIGHTS,
+  WIDGET_TIME_PERIOD_LABELS,
+  WIDGET_WIDTHS,
+  isDashboardWidgetType,
+  widgetPeriod,
+  type DashboardWidget,
+  type DashboardWidgetType,
+  type WidgetTimePeriod,
+} from "@/lib/dashboard-widgets";
+
+interface CategoryMapping {
+  up_category_id: string;
+  new_parent_name: string | null;
+  icon: string | null;
+}
+
+interface WidgetSettingsDialogProps {
+  /** The widget to edit, or null to add a new one */
+  widget: DashboardWidget | null;
+  categoryMappings: CategoryMapping[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const WIDTH_LABELS: Record<number, string> = { 4: "Third", 6: "Half", 8: "Two thirds", 12: "Full width" };
+const HEIGHT_LABELS: Record<number, string> = { 2: "Short", 3: "Medium", 4: "Tall" };
+
+/** Form state is seeded from `widget` on mount; key it on the widget id and `open` to reset it. */
+export function WidgetSettingsDialog({ widget, categoryMappings, open, onOpenChange }: WidgetSettingsDialogProps) {
+  const router = useRouter();
+  const initialType = widget && isDashboardWidgetType(widget.chart_type) ? widget.chart_type : "category-trend";
+  const [chartType, setChartType] = useState<DashboardWidgetType>(initialType);
+  const [title, setTitle] = useState(widget?.title ?? DASHBOARD_WIDGETS[initialType].label);
+  const [period, setPeriod] = useState<WidgetTimePeriod>(() => widgetPeriod(initialType, widget?.time_period ?? ""));
+  const [categoryIds, setCategoryIds] = useState<string[]>(widget?.category_filter ?? []);
+  const [width, setWidth] = useState(6);
+  const [height, setHeight] = useState(3);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Budgets and the rest of the app work in parent categories, so filter by
+  // those and store every UP category underneath.
+  const parentCategories = useMemo(() => {
+    const groups = new Map<string, { name: string; icon: string | null; ids: string[] }>();
+    for (const m of categoryMappings) {
+      if (!m.new_parent_name) continue;
+      const group = groups.get(m.new_parent_name) ?? { name: m.new_parent_name, icon: m.icon, ids: [] };
+      group.ids.push(m.up_category_id);
+      groups.set(m.new_parent_name, group);
+    }
+    return [...groups.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [categoryMappings]);
+
+  const definition = DASHBOARD_WIDGETS[chartType];
+
+  const handleTypeChange = (value: string) => {
+    if (!isDashboardWidgetType(value)) return;
+    // Keep a title the user typed, but follow the type if it's still the default
+    if (title.trim() === "" || title === definition.label) setTitle(DASHBOARD_WIDGETS[value].label);
+    setChartType(value);
+    setPeriod((current) => widgetPeriod(value, current));
+  };
+
+  const toggleCategory = (ids: string[]) => {
+    const selected = ids.every((id) => categoryIds.includes(id));
+    setCategoryIds((current) =>
+      selected ? current.filter((id) => !ids.includes(id)) : [...new Set([...current, ...ids])]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!title.trim()) return setError("Give the widget a title");
+    setSaving(true);
+    setError(null);
+
+    const settings = {
+      chart_type: chartType,
+      title: title.trim(),
+      category_filter: definition.categoryFilter ? categoryIds : [],
+      time_period: period,
+    };
+    const result = widget
+      ? await updateDashboardWidget(widget.id, settings)
+      : await createDashboardWidget({ ...settings, grid_width: width, grid_height: height });
+
+    setSaving(false);
+    if ("error" in result && result.error) {
+      setError(result.error);
+      return;
+    }
+    toast.success(widget ? "Widget updated" : "Widget added");
+    onOpenChange(false);
+    router.refresh();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+            {widget ? "Edit Widget" : "Add Widget"}
+          </DialogTitle>
+          <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+            {definition.description}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {error && (
+            <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="font-[family-name:var(--font-nunito)] font-bold">
+              Widget
+            </Label>
+            <Select value={chartType} onValueChange={handleTypeChange}>
+              <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DASHBOARD_WIDGET_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{DASHBOARD_WIDGETS[type].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="widgetTitle" className="font-[family-name:var(--font-nunito)] font-bold">
+                Title
+              </Label>
+              <Input
+                id="widgetTitle"
+                maxLength={60}
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold">
+                Time period
+              </Label>
+              <Select value={period} onValueChange={(v) => setPeriod(v as WidgetTimePeriod)}>
+                <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {definition.periods.map((p) => (
+                    <SelectItem key={p} value={p}>{WIDGET_TIME_PERIOD_LABELS[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {definition.categoryFilter && parentCategories.length > 0 && (
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold">
+                Categories
+              </Label>
+              <p className="text-xs font-[family-name:var(--font-dm-sans)]" style={{ color: "var(--text-tertiary)" }}>
+                {categoryIds.length === 0 ? "Showing all spending. Pick categories to narrow it down." : "Only spending in the selected categories."}
+              </p>
+              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                {parentCategories.map((c) => {
+                  const selected = c.ids.every((id) => categoryIds.includes(id));
+                  return (
+                    <Button
+                      key={c.name}
+                      type="button"
+                      onClick={() => toggleCategory(c.ids)}
+                      variant="ghost"
+                      size="sm"
+                      className="rounded-xl font-[family-name:var(--font-nunito)] font-semibold transition-all"
+                      style={{
+                        backgroundColor: selected ? "var(--pastel-blue)" : "var(--muted)",
+                        color: selected ? "white" : "var(--text-secondary)",
+                      }}
+                    >
+                      {c.icon && <span className="mr-1">{c.icon}</span>}
+                      {c.name}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {!widget && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold">
+                  Width
+                </Label>
+                <Select value={String(width)} onValueChange={(v) => setWidth(Number(v))}>
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WIDGET_WIDTHS.map((w) => (
+                      <SelectItem key={w} value={String(w)}>{WIDTH_LABELS[w]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold">
+                  Height
+                </Label>
+                <Select value={String(height)} onValueChange={(v) => setHeight(Number(v))}>
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WIDGET_HEIGHTS.map((h) => (
+                      <SelectItem key={h} value={String(h)}>{HEIGHT_LABELS[h]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+            className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+          >
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            {widget ? "Save" : "Add Widget"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
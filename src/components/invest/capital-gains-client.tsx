@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { ArrowLeft, Receipt } from "lucide-react";
+import { formatFinancialYear } from "@/lib/tax-deductions";
+import type { CgtYearSummary } from "@/lib/investment-ledger";
+
+const fmt = (cents: number) =>
+  new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(cents / 100);
+
+const fmtSigned = (cents: number) => `${cents >= 0 ? "+" : "−"}${fmt(Math.abs(cents))}`;
+
+const fmtDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-AU", { day: "numeric", month: "short", year: "numeric" });
+
+interface CapitalGainsClientProps {
+  /** Oldest first */
+  summaries: CgtYearSummary[];
+  /** Investment id → display name */
+  holdings: Record<string, string>;
+  currentFinancialYear: number;
+}
+
+export function CapitalGainsClient({ summaries, holdings, currentFinancialYear }: CapitalGainsClientProps) {
+  const years = summaries.map((s) => s.financialYear);
+  const [selectedYear, setSelectedYear] = useState(
+    years.includes(currentFinancialYear) ? currentFinancialYear : years.at(-1) ?? currentFinancialYear
+  );
+  const summary = summaries.find((s) => s.financialYear === selectedYear);
+
+  const rows = summary
+    ? [
+        { label: "Capital gains held over 12 months", value: fmt(summary.discountableGainsCents) },
+        { label: "Other capital gains", value: fmt(summary.otherGainsCents) },
+        { label: "Capital losses this year", value: summary.lossesCents > 0 ? `−${fmt(summary.lossesCents)}` : fmt(0) },
+        ...(summary.priorLossesAppliedCents > 0
+          ? [{ label: "Losses from earlier years used", value: `−${fmt(summary.priorLossesAppliedCents)}` }]
+          : []),
+        { label: "CGT discount (50%)", value: summary.discountCents > 0 ? `−${fmt(summary.discountCents)}` : fmt(0) },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen pb-24" style={{ backgroundColor: "var(--background)" }}>
+
+      {/* ─── Header ─── */}
+      <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} className="mb-6">
+        <Link href="/invest" className="text-sm flex items-center gap-1 hover:gap-2 transition-all mb-3 cursor-pointer" style={{ color: "var(--text-tertiary)" }}>
+          <ArrowLeft className="h-3.5 w-3.5" /> Investing
+        </Link>
+        <h1 className="font-[family-name:var(--font-nunito)] text-3xl font-black text-text-primary">Capital Gains</h1>
+        <p className="font-[family-name:var(--font-dm-sans)] text-text-secondary">
+          Worked out from each holding&apos;s sells, matched to the parcels they came from
+        </p>
+      </motion.div>
+
+      {summaries.length === 0 ? (
+        <div className="border-0 shadow-sm rounded-2xl px-5 py-12 text-center" style={{ backgroundColor: "var(--surface-elevated)" }}>
+          <Receipt className="h-8 w-8 mx-auto mb-2" style={{ color: "var(--text-tertiary)" }} />
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            No sells or dividends recorded yet. Add transactions on a holding&apos;s page to see
+            capital gains for each financial year.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Financial year pills */}
+          <div className="flex gap-1 mb-4 flex-wrap">
+            {years.map((fy) => (
+              <button
+                key={fy}
+                onClick={() => setSelectedYear(fy)}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all cursor-pointer"
+                style={{ backgroundColor: selectedYear === fy ? "var(--pastel-blue)" : "var(--surface-elevated)", color: selectedYear === fy ? "white" : "var(--text-tertiary)" }}
+              >
+                {formatFinancialYear(fy)}
+              </button>
+            ))}
+          </div>
+
+          {summary && (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+
+              {/* ═══ LEFT: Disposals ═══ */}
+              <div className="lg:col-span-2">
+                <div className="border-0 shadow-sm rounded-2xl overflow-hidden" style={{ backgroundColor: "var(--surface-elevated)" }}>
+                  <div className="px-5 py-3.5 border-b" style={{ borderColor: "var(--border)" }}>
+                    <span className="text-base font-semibold" style={{ color: "var(--text-primary)" }}>Disposals</span>
+                  </div>
+                  {summary.disposals.length === 0 ? (
+                    <p className="px-5 py-6 text-sm" style={{ color: "var(--text-secondary)" }}>
+                      Nothing sold in {formatFinancialYear(summary.financialYear)}.
+                    </p>
+                  ) : (
+                    <div className="divide-y" style={{ borderColor: "var(--border)" }}>
+                      {summary.disposals.map((d) => (
+                        <div key={`${d.sellId}-${d.parcelId}`} className="px-5 py-3 flex items-center gap-3">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-semibold truncate" style={{ color: "var(--text-primary)" }}>
+                              {holdings[d.investmentId] ?? "Deleted holding"}
+                            </p>
+                            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                              {d.quantity.toLocaleString("en-AU", { maximumFractionDigits: 6 })} units · bought {fmtDate(d.acquiredOn)}, sold {fmtDate(d.soldOn)}
+                              {d.discountEligible ? " · discount applies" : ""}
+                            </p>
+                            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                              Proceeds {fmt(d.proceedsCents)} · cost base {fmt(d.costBaseCents)}
+                            </p>
+                          </div>
+                          <span className="text-sm font-semibold tabular-nums" style={{ color: d.gainCents >= 0 ? "var(--pastel-mint-dark)" : "var(--pastel-coral-dark)" }}>
+                            {fmtSigned(d.gainCents)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* ═══ RIGHT: Year summary ═══ */}
+              <div className="space-y-4 md:space-y-6">
+                <div className="border-0 shadow-sm rounded-2xl overflow-hidden" style={{ backgroundColor: "var(--surface-elevated)" }}>
+                  <div className="px-5 py-4 border-b" style={{ borderColor: "var(--border)" }}>
+                    <p className="text-[10px] font-medium uppercase tracking-wider mb-1" style={{ color: "var(--text-tertiary)" }}>
+                      Net capital gain · {formatFinancialYear(summary.financialYear)}
+                    </p>
+                    <div className="text-3xl font-bold" style={{ color: "var(--text-primary)" }}>{fmt(summary.netCapitalGainCents)}</div>
+                  </div>
+                  <div className="divide-y" style={{ borderColor: "var(--border)" }}>
+                    {rows.map((row) => (
+                      <div key={row.label} className="flex items-center justify-between px-5 py-3">
+                        <span className="text-xs" style={{ color: "var(--text-tertiary)" }}>{row.label}</span>
+                        <span className="text-sm font-semibold tabular-nums" style={{ color: "var(--text-primary)" }}>{row.value}</span>
+                      </div>
+                    ))}
+                    {summary.lossesCarriedForwardCents > 0 && (
+                      <div className="flex items-center justify-between px-5 py-3">
+                        <span className="text-xs" style={{ color: "var(--text-tertiary)" }}>Losses carried forward</span>
+                        <span className="text-sm font-semibold tabular-nums" style={{ color: "var(--pastel-coral-dark)" }}>{fmt(summary.lossesCarriedForwardCents)}</span>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between px-5 py-3">
+                      <span className="text-xs" style={{ color: "var(--text-tertiary)" }}>Dividends received</span>
+                      <span className="text-sm font-semibold tabular-nums" style={{ color: "var(--text-primary)" }}>{fmt(summary.dividendsCents)}</span>
+                    </div>
+                  </div>
+                </div>
+
+                <p className="text-xs px-1" style={{ color: "var(--text-tertiary)" }}>
+                  Figures are for whole holdings. If you own something jointly, each owner reports
+                  their share. Check cost base adjustments (e.g. AMIT statements) with your tax agent.
+                </p>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -19,10 +19,14 @@ import {
   ChevronUp,
   Trash2,
   Banknote,
+  Globe,
+  Receipt,
+  Upload,
 } from "lucide-react";
 import Link from "next/link";
 import { updateInvestmentPriceFromAPI, refreshAllPrices } from "@/app/actions/investments";
 import { deleteWatchlistItem, refreshWatchlistPrice } from "@/app/actions/watchlist";
+import { PriceImportDialog } from "@/components/invest/price-import-dialog";
 import { useRouter, useSearchParams } from "next/navigation";
 import {
   AreaChart,
@@ -37,6 +41,7 @@ import {
 } from "recharts";
 
 import type { PortfolioDataPoint, TopMover, RebalanceDelta } from "@/lib/portfolio-aggregation";
+import type { FxBreakdown } from "@/lib/fx-rates";
 
 // ============================================================================
 // Types
@@ -50,6 +55,8 @@ interface Investment {
   quantity?: number | null;
   purchase_value_cents?: number | null;
   current_value_cents: number;
+  currency_code?: string;
+  native_value_cents?: number | null;
   notes?: string | null;
   created_at: string;
   updated_at: string;
@@ -113,6 +120,7 @@ interface InvestClientProps {
   monthlyDividends: MonthlyDividend[];
   annualDividendTotal: number;
   monthlyDividendAvg: number;
+  fxBreakdown: FxBreakdown;
 }
 
 // ============================================================================
@@ -122,6 +130,11 @@ interface InvestClientProps {
 const fmt = (cents: number) =>
   new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD", minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(cents / 100);
 
+const fmtNative = (cents: number, currency: string) =>
+  new Intl.NumberFormat("en-AU", { style: "currency", currency, minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(cents / 100);
+
+const fmtSigned = (cents: number) => `${cents >= 0 ? "+" : "\u2212"}${fmt(Math.abs(cents))}`;
+
 const fmtCompact = (cents: number) => {
   const d = Math.abs(cents) / 100;
   if (d >= 1_000_000) return `$${(d / 1_000_000).toFixed(1)}M`;
@@ -268,6 +281,7 @@ export function InvestClient({
   monthlyDividends,
   annualDividendTotal,
   monthlyDividendAvg,
+  fxBreakdown,
 }: InvestClientProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -275,6 +289,7 @@ export function InvestClient({
   const [priceErrors, setPriceErrors] = useState<Record<string, string>>({});
   const [refreshingAll, setRefreshingAll] = useState(false);
   const [refreshResult, setRefreshResult] = useState<{ refreshed: number; errors: string[] } | null>(null);
+  const [priceImportOpen, setPriceImportOpen] = useState(false);
   const [watchlistOpen, setWatchlistOpen] = useState(watchlistItems.length <= 3);
   const [watchlistRefreshing, setWatchlistRefreshing] = useState<Record<string, boolean>>({});
   const [watchlistDeleting, setWatchlistDeleting] = useState<Record<string, boolean>>({});
@@ -345,6 +360,14 @@ export function InvestClient({
             <RefreshCw className={`h-3.5 w-3.5 mr-1.5 ${refreshingAll ? "animate-spin" : ""}`} />
             {refreshingAll ? "Updating" : "Refresh"}
           </Button>
+          <Button onClick={() => setPriceImportOpen(true)} variant="outline" className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-0 shadow-sm text-sm" style={{ backgroundColor: "var(--surface-elevated)", color: "var(--text-secondary)" }}>
+            <Upload className="h-3.5 w-3.5 mr-1.5" /> Import Prices
+          </Button>
+          <Link href="/invest/capital-gains">
+            <Button variant="outline" className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-0 shadow-sm text-sm" style={{ backgroundColor: "var(--surface-elevated)", color: "var(--text-secondary)" }}>
+              <Receipt className="h-3.5 w-3.5 mr-1.5" /> Capital Gains
+            </Button>
+          </Link>
           <Link href="/invest/add">
             <Button className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-0 shadow-lg hover:shadow-xl text-sm hover:scale-105 transition-all" style={{ backgroundColor: "var(--pastel-blue)", color: "white" }}>
               <Plus className="h-3.5 w-3.5 mr-1.5" /> Add Asset
@@ -353,6 +376,8 @@ export function InvestClient({
         </div>
       </motion.div>
 
+      <PriceImportDialog open={priceImportOpen} onOpenChange={setPriceImportOpen} />
+
       {/* Refresh result banner */}
       <AnimatePresence>
         {refreshResult && (
@@ -506,6 +531,11 @@ export function InvestClient({
                               <span className="text-[10px] px-1.5 py-0.5 rounded-full" style={{ backgroundColor: "var(--surface-sunken)", color: "var(--text-tertiary)" }}>
                                 {ASSET_LABEL[inv.asset_type] || inv.asset_type}
                               </span>
+                              {inv.currency_code && inv.currency_code !== "AUD" && inv.native_value_cents != null && (
+                                <span className="text-[10px]" style={{ color: "var(--text-tertiary)" }}>
+                                  {fmtNative(inv.native_value_cents, inv.currency_code)}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -695,6 +725,49 @@ export function InvestClient({
             </motion.div>
           )}
 
+          {/* ── Currency Exposure ── */}
+          {fxBreakdown.byCurrency.length > 0 && (
+            <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.06 }}>
+              <div className="border-0 shadow-sm rounded-2xl overflow-hidden" style={{ backgroundColor: "var(--surface-elevated)" }}>
+                <div className="px-5 py-3.5 flex items-center gap-2 border-b" style={{ borderColor: "var(--border)" }}>
+                  <Globe className="h-4 w-4" style={{ color: "var(--pastel-blue-dark)" }} />
+                  <span className="font-[family-name:var(--font-nunito)] text-base font-bold" style={{ color: "var(--text-primary)" }}>Currency Exposure</span>
+                </div>
+                <div className="divide-y" style={{ borderColor: "var(--border)" }}>
+                  {fxBreakdown.byCurrency.map((c) => (
+                    <div key={c.currencyCode} className="px-5 py-3 space-y-1.5">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="text-sm font-medium" style={{ color: "var(--text-primary)" }}>{c.currencyCode}</span>
+                          <span className="text-[10px] ml-1.5" style={{ color: "var(--text-tertiary)" }}>
+                            {c.holdingCount} {c.holdingCount === 1 ? "holding" : "holdings"}
+                          </span>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>{fmt(c.valueCents)}</p>
+                          <p className="text-[10px]" style={{ color: "var(--text-tertiary)" }}>{fmtNative(c.nativeValueCents, c.currencyCode)}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between text-[11px]">
+                        <span style={{ color: "var(--text-tertiary)" }}>Market</span>
+                        <span className="font-medium" style={{ color: c.marketGainCents >= 0 ? "var(--pastel-mint-dark)" : "var(--pastel-coral-dark)" }}>{fmtSigned(c.marketGainCents)}</span>
+                      </div>
+                      <div className="flex items-center justify-between text-[11px]">
+                        <span style={{ color: "var(--text-tertiary)" }}>Exchange rate</span>
+                        <span className="font-medium" style={{ color: c.fxGainCents >= 0 ? "var(--pastel-mint-dark)" : "var(--pastel-coral-dark)" }}>{fmtSigned(c.fxGainCents)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {fxBreakdown.holdings.some((h) => h.fxGainCents === null) && (
+                  <p className="px-5 py-2 text-[10px] border-t" style={{ color: "var(--text-tertiary)", borderColor: "var(--border)" }}>
+                    Gains exclude holdings without a purchase value.
+                  </p>
+                )}
+              </div>
+            </motion.div>
+          )}
+
           {/* ── Cross-links: FIRE + Budget ── */}
           {fireProgress && (
             <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
@@ -9,11 +9,16 @@ import {
   Edit,
   FileText,
   RefreshCw,
+  PenLine,
 } from "lucide-react";
 import Link from "next/link";
 import { useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { updateInvestmentPriceFromAPI } from "@/app/actions/investments";
+import type { HoldingFxGain } from "@/lib/fx-rates";
+import { InvestmentLedgerCard, type InvestmentLedgerData } from "@/components/invest/investment-ledger-card";
+import { RecordPriceDialog } from "@/components/invest/record-price-dialog";
+import { PRICE_PROVIDER_LABELS, type PriceProviderId } from "@/lib/price-providers";
 import {
   AreaChart,
   Area,
@@ -32,6 +37,7 @@ interface Investment {
   quantity?: number | null;
   purchase_value_cents?: number | null;
   current_value_cents: number;
+  currency_code: string;
   notes?: string | null;
   created_at: string;
   updated_at: string;
@@ -48,6 +54,10 @@ interface InvestDetailClientProps {
   currentPeriod: string;
   portfolioWeight: number;
   annualizedReturn: number;
+  fxGain: HoldingFxGain | null;
+  ledgerData: InvestmentLedgerData;
+  /** Where this holding's prices come from, after the server's offline setting */
+  priceSource: PriceProviderId;
 }
 
 const PERIODS = ["1W", "1M", "3M", "6M", "1Y", "ALL"] as const;
@@ -55,6 +65,11 @@ const PERIODS = ["1W", "1M", "3M", "6M", "1Y", "ALL"] as const;
 const fmt = (cents: number) =>
   new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD", minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(cents / 100);
 
+const fmtNative = (cents: number, currency: string) =>
+  new Intl.NumberFormat("en-AU", { style: "currency", currency, minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(cents / 100);
+
+const fmtSigned = (cents: number) => `${cents >= 0 ? "+" : "\u2212"}${fmt(Math.abs(cents))}`;
+
 const ASSET_LABEL: Record<string, string> = { stock: "Stock", etf: "ETF", crypto: "Crypto", property: "Property", other: "Other" };
 
 function DetailTooltip({ active, payload }: any) {
@@ -76,11 +91,15 @@ export function InvestDetailClient({
   currentPeriod,
   portfolioWeight,
   annualizedReturn,
+  fxGain,
+  ledgerData,
+  priceSource,
 }: InvestDetailClientProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [refreshing, setRefreshing] = useState(false);
   const [refreshError, setRefreshError] = useState("");
+  const [recordPriceOpen, setRecordPriceOpen] = useState(false);
 
   const gain = investment.purchase_value_cents ? investment.current_value_cents - investment.purchase_value_cents : null;
   const gainPct = investment.purchase_value_cents && investment.purchase_value_cents > 0 ? (gain! / investment.purchase_value_cents) * 100 : null;
@@ -120,6 +139,15 @@ export function InvestDetailClient({
   // Build stats list
   const stats = [
     ...(investment.purchase_value_cents ? [{ label: "Purchase Cost", value: fmt(investment.purchase_value_cents), color: "var(--text-primary)" }] : []),
+    ...(fxGain && fxGain.nativeValueCents !== null
+      ? [{ label: `Value in ${fxGain.currencyCode}`, value: fmtNative(fxGain.nativeValueCents, fxGain.currencyCode), color: "var(--text-primary)" }]
+      : []),
+    ...(fxGain && fxGain.marketGainCents !== null && fxGain.fxGainCents !== null
+      ? [
+          { label: "Market Gain", value: fmtSigned(fxGain.marketGainCents), color: fxGain.marketGainCents >= 0 ? "var(--pastel-mint-dark)" : "var(--pastel-coral-dark)" },
+          { label: "Exchange Rate Gain", value: fmtSigned(fxGain.fxGainCents), color: fxGain.fxGainCents >= 0 ? "var(--pastel-mint-dark)" : "var(--pastel-coral-dark)" },
+        ]
+      : []),
     ...(investment.quantity ? [{ label: "Quantity", value: String(investment.quantity), color: "var(--text-primary)" }] : []),
     { label: "Portfolio Weight", value: `${portfolioWeight.toFixed(1)}%`, color: "var(--pastel-blue-dark)" },
     {
@@ -127,6 +155,7 @@ export function InvestDetailClient({
       value: `${annualizedReturn >= 0 ? "+" : ""}${annualizedReturn.toFixed(1)}%`,
       color: annualizedReturn >= 0 ? "var(--pastel-mint-dark)" : "var(--pastel-coral-dark)",
     },
+    { label: "Price Source", value: PRICE_PROVIDER_LABELS[priceSource], color: "var(--text-primary)" },
     { label: "Days Held", value: daysSincePurchase.toLocaleString(), color: "var(--text-primary)" },
     { label: "Last Updated", value: new Date(investment.updated_at).toLocaleDateString("en-AU", { month: "short", day: "numeric", year: "numeric" }), color: "var(--text-primary)" },
   ];
@@ -152,7 +181,10 @@ export function InvestDetailClient({
             <h1 className="text-xl md:text-2xl font-bold truncate" style={{ color: "var(--text-primary)" }}>{investment.name}</h1>
           </div>
           <div className="flex items-center gap-2 flex-shrink-0">
-            {investment.ticker_symbol && (
+            <Button onClick={() => setRecordPriceOpen(true)} variant="outline" className="rounded-xl border-0 shadow-sm text-sm" style={{ backgroundColor: "var(--surface-elevated)", color: "var(--text-secondary)" }}>
+              <PenLine className="h-3.5 w-3.5 mr-1.5" /> Record Price
+            </Button>
+            {investment.ticker_symbol && priceSource !== "manual" && (
               <Button onClick={handleRefreshPrice} disabled={refreshing} variant="outline" className="rounded-xl border-0 shadow-sm text-sm" style={{ backgroundColor: "var(--surface-elevated)", color: "var(--text-secondary)" }}>
                 <RefreshCw className={`h-3.5 w-3.5 mr-1.5 ${refreshing ? "animate-spin" : ""}`} />
                 {refreshing ? "Updating" : "Refresh"}
@@ -249,6 +281,11 @@ export function InvestDetailClient({
               )}
             </div>
           </motion.div>
+
+          {/* Transaction ledger */}
+          <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.04 }}>
+            <InvestmentLedgerCard investmentId={investment.id} data={ledgerData} />
+          </motion.div>
         </div>
 
         {/* ═══ RIGHT: Stats sidebar ═══ */}
@@ -287,6 +324,13 @@ export function InvestDetailClient({
           )}
         </div>
       </div>
+
+      <RecordPriceDialog
+        investmentId={investment.id}
+        currencyCode={investment.currency_code}
+        open={recordPriceOpen}
+        onOpenChange={setRecordPriceOpen}
+      />
     </div>
   );
 }
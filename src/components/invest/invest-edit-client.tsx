@@ -28,6 +28,8 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { updateInvestment, deleteInvestment } from "@/app/actions/investments";
+import { COMMON_CURRENCIES } from "@/lib/fx-rates";
+import { PRICE_PROVIDER_CHOICES, PRICE_PROVIDER_LABELS, type PriceProviderChoice } from "@/lib/price-providers";
 
 interface Investment {
   id: string;
@@ -37,32 +39,52 @@ interface Investment {
   quantity?: number | null;
   purchase_value_cents?: number | null;
   current_value_cents: number;
+  currency_code?: string;
+  native_value_cents?: number | null;
+  native_purchase_value_cents?: number | null;
+  purchase_date?: string | null;
+  price_provider?: string | null;
   notes?: string | null;
 }
 
 interface InvestEditClientProps {
   investment: Investment;
+  /** Units and cost base come from the transaction ledger and can't be edited here */
+  hasLedger?: boolean;
 }
 
-export function InvestEditClient({ investment }: InvestEditClientProps) {
+export function InvestEditClient({ investment, hasLedger = false }: InvestEditClientProps) {
   const [assetType, setAssetType] = useState<string>(investment.asset_type);
   const [name, setName] = useState(investment.name);
   const [ticker, setTicker] = useState(investment.ticker_symbol || "");
+  const [priceProvider, setPriceProvider] = useState<PriceProviderChoice>(
+    (investment.price_provider as PriceProviderChoice | null | undefined) ?? "auto"
+  );
   const [quantity, setQuantity] = useState(investment.quantity?.toString() || "");
   // Store per-unit prices when quantity exists, otherwise total
   const initQty = investment.quantity && investment.quantity > 0 ? investment.quantity : null;
+  // Foreign holdings are edited in their own currency
+  const isForeign = !!investment.currency_code && investment.currency_code !== "AUD";
+  const initPurchaseCents = isForeign
+    ? investment.native_purchase_value_cents ?? null
+    : investment.purchase_value_cents;
+  const initCurrentCents = isForeign
+    ? investment.native_value_cents ?? investment.current_value_cents
+    : investment.current_value_cents;
   const [purchasePrice, setPurchasePrice] = useState(
-    investment.purchase_value_cents
+    initPurchaseCents
       ? initQty
-        ? (investment.purchase_value_cents / 100 / initQty).toFixed(2)
-        : (investment.purchase_value_cents / 100).toFixed(2)
+        ? (initPurchaseCents / 100 / initQty).toFixed(2)
+        : (initPurchaseCents / 100).toFixed(2)
       : ""
   );
   const [currentPrice, setCurrentPrice] = useState(
     initQty
-      ? (investment.current_value_cents / 100 / initQty).toFixed(2)
-      : (investment.current_value_cents / 100).toFixed(2)
+      ? (initCurrentCents / 100 / initQty).toFixed(2)
+      : (initCurrentCents / 100).toFixed(2)
   );
+  const [currency, setCurrency] = useState<string>(investment.currency_code || "AUD");
+  const [purchaseDate, setPurchaseDate] = useState(investment.purchase_date || "");
   const [notes, setNotes] = useState(investment.notes || "");
   const [loading, setLoading] = useState(false);
   const [deleting, setDeleting] = useState(false);
@@ -75,6 +97,7 @@ export function InvestEditClient({ investment }: InvestEditClientProps) {
   const currentPriceNum = currentPrice ? parseFloat(currentPrice) : null;
   const purchaseTotal = hasQty && purchasePriceNum ? purchasePriceNum * qty : purchasePriceNum;
   const currentTotal = hasQty && currentPriceNum ? currentPriceNum * qty : currentPriceNum;
+  const currencyPrefix = currency === "AUD" ? "$" : `${currency} `;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -97,6 +120,9 @@ export function InvestEditClient({ investment }: InvestEditClientProps) {
       quantity: qtyVal,
       purchase_value_cents: purchaseCents,
       current_value_cents: currentCents,
+      currency_code: currency,
+      price_provider: priceProvider,
+      purchase_date: purchaseDate || undefined,
       notes: notes || undefined,
     });
 
@@ -212,6 +238,26 @@ export function InvestEditClient({ investment }: InvestEditClientProps) {
               />
             </div>
 
+            {/* Price Source */}
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                Price Source
+              </Label>
+              <Select value={priceProvider} onValueChange={(v) => setPriceProvider(v as PriceProviderChoice)}>
+                <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRICE_PROVIDER_CHOICES.map((choice) => (
+                    <SelectItem key={choice} value={choice}>{PRICE_PROVIDER_LABELS[choice]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
+                Automatic uses CoinGecko for crypto and Yahoo Finance for stocks and ETFs. Pick price file or manual to only use prices you import or enter.
+              </p>
+            </div>
+
             {/* Quantity */}
             <div className="space-y-2">
               <Label htmlFor="quantity" className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
@@ -224,7 +270,47 @@ export function InvestEditClient({ investment }: InvestEditClientProps) {
                 placeholder="Number of units"
                 value={quantity}
                 onChange={(e) => setQuantity(e.target.value)}
-                disabled={loading}
+                disabled={loading || hasLedger}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+              {hasLedger && (
+                <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
+                  Quantity, purchase date and cost come from this holding&apos;s transactions.
+                </p>
+              )}
+            </div>
+
+            {/* Currency */}
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                Currency
+              </Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMMON_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
+                Enter prices in this currency. Non-AUD values are converted at the day&apos;s exchange rate.
+              </p>
+            </div>
+
+            {/* Purchase Date */}
+            <div className="space-y-2">
+              <Label htmlFor="purchaseDate" className="font-[family-name:var(--font-nunito)] font-bold text-text-primary">
+                Purchase Date (optional)
+              </Label>
+              <Input
+                id="purchaseDate"
+                type="date"
+                value={purchaseDate}
+                onChange={(e) => setPurchaseDate(e.target.value)}
+                disabled={loading || hasLedger}
                 className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
               />
             </div>
@@ -235,7 +321,7 @@ export function InvestEditClient({ investment }: InvestEditClientProps) {
                 {hasQty ? "Purchase Price per Unit (optional)" : "Purchase Value (optional)"}
               </Label>
               <div className="relative">
-                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">$</span>
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">{currencyPrefix.trim()}</span>
                 <Input
                   id="purchasePrice"
                   type="number"
@@ -243,13 +329,13 @@ export function InvestEditClient({ investment }: InvestEditClientProps) {
                   placeholder="0.00"
                   value={purchasePrice}
                   onChange={(e) => setPurchasePrice(e.target.value)}
-                  disabled={loading}
-                  className="pl-7 h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                  disabled={loading || hasLedger}
+                  className={`${currency === "AUD" ? "pl-7" : "pl-14"} h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]`}
                 />
               </div>
               {hasQty && purchaseTotal !== null ? (
                 <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
-                  {qty.toLocaleString("en-AU")} units &times; ${purchasePriceNum?.toFixed(2)} = <span className="font-medium text-text-primary">${purchaseTotal.toLocaleString("en-AU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> total
+                  {qty.toLocaleString("en-AU")} units &times; {currencyPrefix}{purchasePriceNum?.toFixed(2)} = <span className="font-medium text-text-primary">{currencyPrefix}{purchaseTotal.toLocaleString("en-AU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> total
                 </p>
               ) : (
                 <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
@@ -264,7 +350,7 @@ export function InvestEditClient({ investment }: InvestEditClientProps) {
                 {hasQty ? "Current Price per Unit" : "Current Value"}
               </Label>
               <div className="relative">
-                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">$</span>
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">{currencyPrefix.trim()}</span>
                 <Input
                   id="currentPrice"
                   type="number"
@@ -274,12 +360,12 @@ export function InvestEditClient({ investment }: InvestEditClientProps) {
                   onChange={(e) => setCurrentPrice(e.target.value)}
                   required
                   disabled={loading}
-                  className="pl-7 h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                  className={`${currency === "AUD" ? "pl-7" : "pl-14"} h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]`}
                 />
               </div>
               {hasQty && currentTotal !== null && (
                 <p className="font-[family-name:var(--font-dm-sans)] text-xs text-text-secondary">
-                  {qty.toLocaleString("en-AU")} units &times; ${currentPriceNum?.toFixed(2)} = <span className="font-medium text-text-primary">${currentTotal.toLocaleString("en-AU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> total
+                  {qty.toLocaleString("en-AU")} units &times; {currencyPrefix}{currentPriceNum?.toFixed(2)} = <span className="font-medium text-text-primary">{currencyPrefix}{currentTotal.toLocaleString("en-AU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> total
                 </p>
               )}
             </div>
@@ -0,0 +1,506 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { gooeyToast as toast } from "goey-toast";
+import { AlertTriangle, Loader2, Plus, Receipt, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  addInvestmentTransaction,
+  deleteInvestmentTransaction,
+  type InvestmentTransactionInput,
+} from "@/app/actions/investment-ledger";
+import {
+  INVESTMENT_TRANSACTION_TYPES,
+  INVESTMENT_TRANSACTION_TYPE_LABELS,
+  type HoldingLedger,
+  type InvestmentTransactionRecord,
+  type InvestmentTransactionType,
+  type UnrealisedGains,
+} from "@/lib/investment-ledger";
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat("en-AU", {
+    style: "currency",
+    currency: "AUD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100);
+
+const formatPrecise = (cents: number) =>
+  new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(cents / 100);
+
+const formatSigned = (cents: number) => `${cents >= 0 ? "+" : "−"}${formatCurrency(Math.abs(cents))}`;
+
+const formatUnits = (units: number) => units.toLocaleString("en-AU", { maximumFractionDigits: 6 });
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-AU", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+const gainColor = (cents: number) => (cents >= 0 ? "var(--pastel-mint-dark)" : "var(--pastel-coral-dark)");
+
+const AMOUNT_LABEL: Record<InvestmentTransactionType, string> = {
+  buy: "Total cost",
+  sell: "Sale proceeds",
+  dividend: "Amount paid",
+  drp: "Amount reinvested",
+  split: "",
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface InvestmentLedgerData {
+  /** Newest first */
+  transactions: InvestmentTransactionRecord[];
+  ledger: HoldingLedger;
+  unrealised: UnrealisedGains;
+  currencyCode: string;
+}
+
+interface TransactionFormState {
+  type: InvestmentTransactionType;
+  date: string;
+  units: string;
+  amount: string;
+  fees: string;
+  splitRatio: string;
+  /** Parcel id → units, when choosing parcels for a sell */
+  parcels: Record<string, string> | null;
+  notes: string;
+}
+
+const emptyForm = (): TransactionFormState => ({
+  type: "buy",
+  date: todayIso(),
+  units: "",
+  amount: "",
+  fees: "",
+  splitRatio: "",
+  parcels: null,
+  notes: "",
+});
+
+// ============================================================================
+// Component
+// ============================================================================
+
+interface InvestmentLedgerCardProps {
+  investmentId: string;
+  data: InvestmentLedgerData;
+}
+
+export function InvestmentLedgerCard({ investmentId, data }: InvestmentLedgerCardProps) {
+  const router = useRouter();
+  const { ledger, unrealised, transactions, currencyCode } = data;
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<TransactionFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currencySuffix = currencyCode === "AUD" ? "" : ` (${currencyCode})`;
+  const hasUnits = form.type === "buy" || form.type === "sell" || form.type === "drp";
+  const hasFees = form.type === "buy" || form.type === "sell";
+  const dividendsCents = ledger.dividends.reduce((s, d) => s + d.amountCents, 0);
+
+  const openForm = () => {
+    setForm(emptyForm());
+    setError(null);
+    setFormOpen(true);
+  };
+
+  const toCents = (value: string) => Math.round(parseFloat(value || "0") * 100);
+
+  const buildInput = (): InvestmentTransactionInput | string => {
+    const notes = form.notes.trim() || undefined;
+    const units = parseFloat(form.units);
+    const amount = parseFloat(form.amount);
+    if (hasUnits && (isNaN(units) || units <= 0)) return "Enter the number of units";
+    if (form.type !== "split" && (isNaN(amount) || amount < 0)) return "Enter the amount";
+
+    switch (form.type) {
+      case "buy":
+        return { transaction_type: "buy", trade_date: form.date, quantity: units, amount_cents: toCents(form.amount), fees_cents: toCents(form.fees), notes };
+      case "sell": {
+        const parcel_allocations = form.parcels
+          ? Object.entries(form.parcels)
+              .map(([parcel_id, value]) => ({ parcel_id, quantity: parseFloat(value) }))
+              .filter((a) => a.quantity > 0)
+          : undefined;
+        return { transaction_type: "sell", trade_date: form.date, quantity: units, amount_cents: toCents(form.amount), fees_cents: toCents(form.fees), parcel_allocations, notes };
+      }
+      case "dividend":
+        if (amount <= 0) return "Enter the amount";
+        return { transaction_type: "dividend", trade_date: form.date, amount_cents: toCents(form.amount), notes };
+      case "drp":
+        return { transaction_type: "drp", trade_date: form.date, quantity: units, amount_cents: toCents(form.amount), notes };
+      case "split": {
+        const ratio = parseFloat(form.splitRatio);
+        if (isNaN(ratio) || ratio <= 0) return "Enter the new units per old unit";
+        return { transaction_type: "split", trade_date: form.date, split_ratio: ratio, notes };
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    const input = buildInput();
+    if (typeof input === "string") return setError(input);
+    setSaving(true);
+    setError(null);
+    const result = await addInvestmentTransaction(investmentId, input);
+    setSaving(false);
+    if ("error" in result && result.error) {
+      setError(result.error);
+      return;
+    }
+    toast.success(`${INVESTMENT_TRANSACTION_TYPE_LABELS[form.type]} recorded`);
+    setFormOpen(false);
+    router.refresh();
+  };
+
+  const handleDelete = async (transactionId: string) => {
+    const result = await deleteInvestmentTransaction(transactionId);
+    if ("error" in result && result.error) {
+      toast.error(result.error);
+      return;
+    }
+    toast.success("Transaction deleted");
+    router.refresh();
+  };
+
+  const describe = (tx: InvestmentTransactionRecord) => {
+    if (tx.transaction_type === "split") return `${tx.split_ratio} for 1`;
+    if (tx.quantity !== null) return `${formatUnits(tx.quantity)} units`;
+    return "";
+  };
+
+  return (
+    <div className="border-0 shadow-sm rounded-2xl overflow-hidden" style={{ backgroundColor: "var(--surface-elevated)" }}>
+      <div className="px-5 py-3.5 border-b flex items-center justify-between gap-2" style={{ borderColor: "var(--border)" }}>
+        <span className="text-base font-semibold" style={{ color: "var(--text-primary)" }}>Transactions</span>
+        <Button
+          size="sm"
+          onClick={openForm}
+          className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {transactions.length === 0 ? (
+        <div className="px-5 py-10 text-center">
+          <Receipt className="h-8 w-8 mx-auto mb-2" style={{ color: "var(--text-tertiary)" }} />
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            Record buys, sells, dividends, reinvestments and splits to track cost base and
+            capital gains. Once you add one, units and cost come from here.
+          </p>
+        </div>
+      ) : (
+        <>
+          {ledger.problems.length > 0 && (
+            <div className="mx-5 mt-4 px-3 py-2 rounded-xl text-xs flex items-start gap-2" style={{ backgroundColor: "var(--pastel-coral-light)", color: "var(--pastel-coral-dark)" }}>
+              <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+              <span>{ledger.problems.join(". ")}</span>
+            </div>
+          )}
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-px" style={{ backgroundColor: "var(--border)" }}>
+            {[
+              { label: "Units", value: formatUnits(ledger.quantity), color: "var(--text-primary)" },
+              { label: "Average Cost", value: ledger.averageCostCents !== null ? formatPrecise(ledger.averageCostCents) : "—", color: "var(--text-primary)" },
+              { label: "Cost Base", value: formatCurrency(ledger.costBaseCents), color: "var(--text-primary)" },
+              { label: "Unrealised Gain", value: formatSigned(unrealised.gainCents), color: gainColor(unrealised.gainCents) },
+              { label: "Realised Gain", value: formatSigned(ledger.realisedGainCents), color: gainColor(ledger.realisedGainCents) },
+              { label: "Dividends", value: formatCurrency(dividendsCents), color: "var(--text-primary)" },
+            ].map((stat) => (
+              <div key={stat.label} className="px-5 py-3" style={{ backgroundColor: "var(--surface-elevated)" }}>
+                <p className="text-[10px] font-medium uppercase tracking-wider" style={{ color: "var(--text-tertiary)" }}>{stat.label}</p>
+                <p className="text-sm font-semibold tabular-nums" style={{ color: stat.color }}>{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Open parcels */}
+          {unrealised.parcels.length > 0 && (
+            <div className="px-5 py-3.5 border-t" style={{ borderColor: "var(--border)" }}>
+              <p className="text-[10px] font-medium uppercase tracking-wider mb-2" style={{ color: "var(--text-tertiary)" }}>
+                Parcels held
+              </p>
+              <ul className="space-y-1.5">
+                {unrealised.parcels.map((p) => (
+                  <li key={p.id} className="flex items-center gap-2 text-xs">
+                    <span className="w-24 tabular-nums" style={{ color: "var(--text-tertiary)" }}>{formatDate(p.acquiredOn)}</span>
+                    <span className="flex-1 truncate" style={{ color: "var(--text-secondary)" }}>
+                      {formatUnits(p.quantity)} units · cost {formatCurrency(p.costBaseCents)} ·{" "}
+                      {p.discountEligible ? "CGT discount applies" : `discount from ${formatDate(p.discountEligibleFrom)}`}
+                    </span>
+                    <span className="font-medium tabular-nums" style={{ color: gainColor(p.gainCents) }}>{formatSigned(p.gainCents)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* History */}
+          <div className="px-5 py-3.5 border-t" style={{ borderColor: "var(--border)" }}>
+            <p className="text-[10px] font-medium uppercase tracking-wider mb-2" style={{ color: "var(--text-tertiary)" }}>
+              History
+            </p>
+            <ul className="space-y-1.5">
+              {transactions.map((tx) => (
+                <li key={tx.id} className="flex items-center gap-2 text-xs">
+                  <span className="w-24 tabular-nums" style={{ color: "var(--text-tertiary)" }}>{formatDate(tx.trade_date)}</span>
+                  <span className="flex-1 truncate" style={{ color: "var(--text-secondary)" }}>
+                    {INVESTMENT_TRANSACTION_TYPE_LABELS[tx.transaction_type]}
+                    {describe(tx) && ` · ${describe(tx)}`}
+                    {tx.parcel_allocations?.length ? " · chosen parcels" : ""}
+                  </span>
+                  {tx.transaction_type !== "split" && (
+                    <span className="font-medium tabular-nums" style={{ color: "var(--text-primary)" }}>
+                      {formatPrecise(tx.amount_cents)}
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(tx.id)}
+                    className="p-1 rounded-lg hover:bg-secondary cursor-pointer"
+                    aria-label="Delete transaction"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" style={{ color: "var(--text-tertiary)" }} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+
+      {/* Add Transaction Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+              Add Transaction
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              {currencyCode === "AUD"
+                ? "Enter amounts from your contract note or dividend statement"
+                : `Enter amounts in ${currencyCode}; they're converted to AUD at the trade date's rate`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {error && (
+              <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold">Type</Label>
+                <Select
+                  value={form.type}
+                  onValueChange={(v) => setForm({ ...form, type: v as InvestmentTransactionType, parcels: null })}
+                >
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVESTMENT_TRANSACTION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{INVESTMENT_TRANSACTION_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ledgerDate" className="font-[family-name:var(--font-nunito)] font-bold">
+                  {form.type === "dividend" || form.type === "drp" ? "Payment date" : "Trade date"}
+                </Label>
+                <Input
+                  id="ledgerDate"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+            </div>
+
+            {form.type === "split" ? (
+              <div className="space-y-2">
+                <Label htmlFor="ledgerSplit" className="font-[family-name:var(--font-nunito)] font-bold">
+                  New units per old unit
+                </Label>
+                <Input
+                  id="ledgerSplit"
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="e.g. 2 for a 2-for-1 split"
+                  value={form.splitRatio}
+                  onChange={(e) => setForm({ ...form, splitRatio: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+                <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                  Cost base and purchase dates stay the same; only the unit count changes.
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                {hasUnits && (
+                  <div className="space-y-2">
+                    <Label htmlFor="ledgerUnits" className="font-[family-name:var(--font-nunito)] font-bold">
+                      Units
+                    </Label>
+                    <Input
+                      id="ledgerUnits"
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={form.units}
+                      onChange={(e) => setForm({ ...form, units: e.target.value })}
+                      className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="ledgerAmount" className="font-[family-name:var(--font-nunito)] font-bold">
+                    {AMOUNT_LABEL[form.type]}{currencySuffix}
+                  </Label>
+                  <Input
+                    id="ledgerAmount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                  />
+                </div>
+                {hasFees && (
+                  <div className="space-y-2">
+                    <Label htmlFor="ledgerFees" className="font-[family-name:var(--font-nunito)] font-bold">
+                      Brokerage{currencySuffix}
+                    </Label>
+                    <Input
+                      id="ledgerFees"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0.00"
+                      value={form.fees}
+                      onChange={(e) => setForm({ ...form, fees: e.target.value })}
+                      className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {form.type === "sell" && ledger.parcels.length > 1 && (
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold">Units sold from</Label>
+                <Select
+                  value={form.parcels ? "specific" : "fifo"}
+                  onValueChange={(v) => setForm({ ...form, parcels: v === "specific" ? {} : null })}
+                >
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fifo">Oldest parcels first</SelectItem>
+                    <SelectItem value="specific">Parcels I choose</SelectItem>
+                  </SelectContent>
+                </Select>
+                {form.parcels && (
+                  <div className="space-y-1.5">
+                    {ledger.parcels.map((p) => (
+                      <div key={p.id} className="flex items-center gap-2 text-xs">
+                        <span className="flex-1" style={{ color: "var(--text-secondary)" }}>
+                          {formatDate(p.acquiredOn)} · {formatUnits(p.quantity)} units
+                        </span>
+                        <Input
+                          type="number"
+                          step="any"
+                          min="0"
+                          max={p.quantity}
+                          placeholder="0"
+                          aria-label={`Units from the ${formatDate(p.acquiredOn)} parcel`}
+                          value={form.parcels?.[p.id] ?? ""}
+                          onChange={(e) => setForm({ ...form, parcels: { ...form.parcels, [p.id]: e.target.value } })}
+                          className="h-9 w-28 rounded-lg border-2 font-[family-name:var(--font-dm-sans)]"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="ledgerNotes" className="font-[family-name:var(--font-nunito)] font-bold">
+                Notes
+              </Label>
+              <Input
+                id="ledgerNotes"
+                placeholder="Optional"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setFormOpen(false)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Add Transaction
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
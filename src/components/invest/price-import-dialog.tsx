@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { gooeyToast as toast } from "goey-toast";
+import { FileText, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { detectPriceFileFormat, type PriceFileFormat } from "@/lib/price-file";
+
+interface PriceImportResult {
+  imported: number;
+  holdings: number;
+  historyAdded: number;
+  valuesUpdated: number;
+  unmatched: string[];
+  errors: string[];
+}
+
+interface PriceImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PriceImportDialog({ open, onOpenChange }: PriceImportDialogProps) {
+  const router = useRouter();
+  const [file, setFile] = useState<{ name: string; format: PriceFileFormat; content: string } | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<PriceImportResult | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setFile(null);
+      setError(null);
+      setResult(null);
+    }
+    onOpenChange(next);
+  };
+
+  const handleFile = async (selected: File) => {
+    setError(null);
+    setResult(null);
+    const content = await selected.text();
+    setFile({ name: selected.name, format: detectPriceFileFormat(selected.name, content), content });
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/import/prices", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: file.format, content: file.content }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const details = Array.isArray(data.errors) && data.errors.length > 0 ? `: ${data.errors.join("; ")}` : "";
+        throw new Error(`${data.error || "Import failed"}${details}`);
+      }
+
+      setResult(data);
+      setFile(null);
+      toast.success(`Imported ${data.imported} price${data.imported !== 1 ? "s" : ""}`);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+            Import Prices
+          </DialogTitle>
+          <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+            A CSV with ticker, date and price columns, or a JSON list of the same. Prices are per unit in each
+            holding&apos;s currency and fill in any days missing from its history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {error && (
+            <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+              {error}
+            </div>
+          )}
+
+          <label
+            htmlFor="priceFile"
+            className="flex flex-col items-center justify-center gap-2 p-6 rounded-xl border-2 border-dashed border-border cursor-pointer hover:bg-secondary transition-colors"
+          >
+            {file ? (
+              <>
+                <FileText className="h-6 w-6 text-text-secondary" />
+                <span className="font-[family-name:var(--font-dm-sans)] text-sm text-text-primary">
+                  {file.name}
+                </span>
+              </>
+            ) : (
+              <>
+                <Upload className="h-6 w-6 text-text-secondary" />
+                <span className="font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary">
+                  Choose a .csv or .json price file
+                </span>
+              </>
+            )}
+          </label>
+          <input
+            id="priceFile"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const selected = e.target.files?.[0];
+              if (selected) handleFile(selected);
+              e.target.value = "";
+            }}
+          />
+
+          {result && (
+            <div className="p-3 rounded-xl border-2 border-border font-[family-name:var(--font-dm-sans)] text-sm text-text-secondary space-y-1">
+              <p className="text-text-primary font-medium">
+                {result.imported} prices for {result.holdings} holding{result.holdings !== 1 ? "s" : ""}
+              </p>
+              <p>
+                {result.historyAdded} history entries added · {result.valuesUpdated} value
+                {result.valuesUpdated !== 1 ? "s" : ""} updated
+              </p>
+              {result.unmatched.length > 0 && <p>No holding for: {result.unmatched.join(", ")}</p>}
+              {result.errors.map((e, i) => (
+                <p key={i} className="text-error-text">{e}</p>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={importing}
+            className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+          >
+            {result ? "Done" : "Cancel"}
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={importing || !file}
+            className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+          >
+            {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { gooeyToast as toast } from "goey-toast";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { recordInvestmentPrice } from "@/app/actions/investment-prices";
+
+interface RecordPriceDialogProps {
+  investmentId: string;
+  currencyCode: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RecordPriceDialog({ investmentId, currencyCode, open, onOpenChange }: RecordPriceDialogProps) {
+  const router = useRouter();
+  const today = new Date().toISOString().split("T")[0];
+  const [date, setDate] = useState(today);
+  const [price, setPrice] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const unitPrice = parseFloat(price);
+    if (!date) return setError("Choose a date");
+    if (isNaN(unitPrice) || unitPrice <= 0) return setError("Enter the price per unit");
+    setSaving(true);
+    setError(null);
+    const result = await recordInvestmentPrice(investmentId, { price_date: date, price: unitPrice });
+    setSaving(false);
+    if ("error" in result && result.error) {
+      setError(result.error);
+      return;
+    }
+    toast.success("valueUpdated" in result && result.valueUpdated ? "Price recorded and value updated" : "Price recorded");
+    setPrice("");
+    onOpenChange(false);
+    router.refresh();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+            Record Price
+          </DialogTitle>
+          <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+            The unit price on a date, in {currencyCode}. Fills that day&apos;s history and becomes the current value if
+            it&apos;s the newest price.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {error && (
+            <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="priceDate" className="font-[family-name:var(--font-nunito)] font-bold">
+                Date
+              </Label>
+              <Input
+                id="priceDate"
+                type="date"
+                max={today}
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="unitPrice" className="font-[family-name:var(--font-nunito)] font-bold">
+                Unit price ({currencyCode})
+              </Label>
+              <Input
+                id="unitPrice"
+                type="number"
+                step="any"
+                min="0"
+                placeholder="0.00"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+            className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+          >
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Record Price
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
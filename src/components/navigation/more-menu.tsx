@@ -5,6 +5,7 @@ import {
   PieChart,
   LineChart,
   TrendingUp,
+  CalendarDays,
 } from "lucide-react";
 import {
   Sheet,
@@ -23,6 +24,14 @@ interface MoreMenuItem {
 }
 
 const menuItems: MoreMenuItem[] = [
+  {
+    href: "/calendar",
+    label: "Calendar",
+    description: "Upcoming cashflow",
+    icon: <CalendarDays className="h-5 w-5" />,
+    color: "var(--pastel-coral-dark)",
+    bgColor: "var(--pastel-coral-light)",
+  },
   {
     href: "/analysis",
     label: "Analysis",
@@ -118,4 +127,4 @@ export function MoreMenu({ open, onOpenChange }: MoreMenuProps) {
 }
 
 /** Routes that live in the "More" menu */
-export const MORE_ROUTES = ["/analysis", "/invest", "/plan"];
+export const MORE_ROUTES = ["/calendar", "/analysis", "/invest", "/plan"];
@@ -11,6 +11,7 @@ import {
   LineChart,
   TrendingUp,
   PieChart,
+  CalendarDays,
 } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { PiggyBackLogo } from "@/components/branding/piggyback-logo";
@@ -32,6 +33,7 @@ const navItems: NavItem[] = [
   { href: "/home", label: "Home", icon: <Home className="h-5 w-5" /> },
   { href: "/activity", label: "Activity", icon: <Activity className="h-5 w-5" /> },
   { href: "/budget", label: "Budget", icon: <Wallet className="h-5 w-5" /> },
+  { href: "/calendar", label: "Calendar", icon: <CalendarDays className="h-5 w-5" /> },
   { href: "/analysis", label: "Analysis", icon: <PieChart className="h-5 w-5" /> },
   { href: "/goals", label: "Goals", icon: <Target className="h-5 w-5" /> },
   { href: "/invest", label: "Invest", icon: <LineChart className="h-5 w-5" /> },
@@ -55,6 +57,7 @@ export function Sidebar({ user, demoMode = false }: SidebarProps) {
     "/home": { bg: 'var(--pastel-coral-light)', hover: 'var(--pastel-coral)', active: 'var(--pastel-coral)', text: 'var(--pastel-coral-dark)' },
     "/activity": { bg: 'var(--pastel-blue-light)', hover: 'var(--pastel-blue)', active: 'var(--pastel-blue)', text: 'var(--pastel-blue-dark)' },
     "/budget": { bg: 'var(--pastel-mint-light)', hover: 'var(--pastel-mint)', active: 'var(--pastel-mint)', text: 'var(--pastel-mint-dark)' },
+    "/calendar": { bg: 'var(--pastel-coral-light)', hover: 'var(--pastel-coral)', active: 'var(--pastel-coral)', text: 'var(--pastel-coral-dark)' },
     "/analysis": { bg: 'var(--pastel-lavender-light)', hover: 'var(--pastel-lavender)', active: 'var(--pastel-lavender)', text: 'var(--pastel-lavender-dark)' },
     "/goals": { bg: 'var(--pastel-yellow-light)', hover: 'var(--pastel-yellow)', active: 'var(--pastel-yellow)', text: 'var(--pastel-yellow-dark)' },
     "/invest": { bg: 'var(--pastel-lavender-light)', hover: 'var(--pastel-lavender)', active: 'var(--pastel-lavender)', text: 'var(--pastel-lavender-dark)' },
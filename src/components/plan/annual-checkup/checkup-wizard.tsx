@@ -28,6 +28,8 @@ import type {
   AnnualCheckupData,
   CheckupReviewData,
 } from "@/components/plan/plan-client";
+import { taxReportUrl } from "@/components/plan/tax-deductions-card";
+import { formatFinancialYear } from "@/lib/tax-deductions";
 
 // ============================================================================
 // Step Config
@@ -888,13 +890,13 @@ function StepInvestments({ reviewData }: { reviewData: CheckupReviewData }) {
 // ── Step 4: Debt ────────────────────────────────────────────────────────────
 
 function StepDebt({ reviewData }: { reviewData: CheckupReviewData }) {
-  const { hasDebt, homeLoanBalanceCents, homeLoanAccountCount } = reviewData;
+  const { hasDebt, homeLoanBalanceCents, homeLoanAccountCount, otherDebtCents, trackedDebtCount } = reviewData;
 
   if (!hasDebt) {
     return (
       <EmptyStepState
         Icon={Building2}
-        message="No debt accounts detected. You're debt-free!"
+        message="No debt accounts or tracked debts. You're debt-free!"
       />
     );
   }
@@ -902,11 +904,20 @@ function StepDebt({ reviewData }: { reviewData: CheckupReviewData }) {
   return (
     <div className="space-y-4">
       <div className="divide-y" style={{ borderColor: "var(--border)" }}>
-        <MetricRow
-          label="Outstanding home loans"
-          value={formatCurrency(homeLoanBalanceCents)}
-          sub={`${homeLoanAccountCount} account${homeLoanAccountCount !== 1 ? "s" : ""}`}
-        />
+        {homeLoanAccountCount > 0 && (
+          <MetricRow
+            label="Outstanding home loans"
+            value={formatCurrency(homeLoanBalanceCents)}
+            sub={`${homeLoanAccountCount} account${homeLoanAccountCount !== 1 ? "s" : ""}`}
+          />
+        )}
+        {otherDebtCents > 0 && (
+          <MetricRow
+            label="Other tracked debts"
+            value={formatCurrency(otherDebtCents)}
+            sub={`${trackedDebtCount} debt${trackedDebtCount !== 1 ? "s" : ""} on the Debts tab`}
+          />
+        )}
       </div>
       <p className="text-[10px]" style={{ color: "var(--text-tertiary)" }}>
         Review your loan statements for interest rates and consider whether refinancing could save you money.
@@ -923,6 +934,8 @@ function StepSuper({ reviewData }: { reviewData: CheckupReviewData }) {
     superBalanceCents,
     sgRate,
     annualIncomeCents,
+    superCapCents,
+    superCarryForwardCents,
     superCapRoomCents,
     currentAge,
     targetRetirementAge,
@@ -937,9 +950,8 @@ function StepSuper({ reviewData }: { reviewData: CheckupReviewData }) {
     );
   }
 
-  const CONCESSIONAL_CAP = 3000000; // $30,000 in cents
-  const usedCents = CONCESSIONAL_CAP - superCapRoomCents;
-  const capUsedPercent = CONCESSIONAL_CAP > 0 ? Math.round((usedCents / CONCESSIONAL_CAP) * 100) : 0;
+  const usedCents = Math.max(0, superCapCents - superCapRoomCents);
+  const capUsedPercent = superCapCents > 0 ? Math.round((usedCents / superCapCents) * 100) : 0;
 
   return (
     <div className="space-y-4">
@@ -963,7 +975,7 @@ function StepSuper({ reviewData }: { reviewData: CheckupReviewData }) {
             Concessional cap used
           </span>
           <span className="text-xs font-medium" style={{ color: "var(--text-primary)" }}>
-            {formatCurrency(usedCents)} / {formatCurrency(CONCESSIONAL_CAP)}
+            {formatCurrency(usedCents)} / {formatCurrency(superCapCents)}
           </span>
         </div>
         <ProgressBar
@@ -973,6 +985,7 @@ function StepSuper({ reviewData }: { reviewData: CheckupReviewData }) {
         {superCapRoomCents > 0 && (
           <p className="text-[10px] mt-1" style={{ color: "var(--pastel-yellow-dark)" }}>
             {formatCurrency(superCapRoomCents)} cap room remaining this FY
+            {superCarryForwardCents > 0 && `, including ${formatCurrency(superCarryForwardCents)} carried forward`}
           </p>
         )}
       </div>
@@ -982,6 +995,30 @@ function StepSuper({ reviewData }: { reviewData: CheckupReviewData }) {
 
 // ── Step 7: Summary ─────────────────────────────────────────────────────────
 
+function TaxDeductionsSummary({ reviewData }: { reviewData: CheckupReviewData }) {
+  const { taxDeductions } = reviewData;
+  if (taxDeductions.count === 0) return null;
+
+  return (
+    <div>
+      <div className="divide-y" style={{ borderColor: "var(--border)" }}>
+        <MetricRow
+          label={`Tax deductions ${formatFinancialYear(taxDeductions.financialYear)}`}
+          value={formatCurrency(taxDeductions.totalCents)}
+          sub={`${taxDeductions.count} items${taxDeductions.missingReceipts > 0 ? ` · ${taxDeductions.missingReceipts} without receipts` : ""}`}
+        />
+      </div>
+      <a
+        href={taxReportUrl(taxDeductions.financialYear, "pdf")}
+        className="text-xs font-medium"
+        style={{ color: "var(--pastel-blue-dark)" }}
+      >
+        Download EOFY report
+      </a>
+    </div>
+  );
+}
+
 function StepSummary({ reviewData }: { reviewData: CheckupReviewData }) {
   const { priorityRecommendationsSummary } = reviewData;
 
@@ -993,23 +1030,27 @@ function StepSummary({ reviewData }: { reviewData: CheckupReviewData }) {
 
   if (priorityRecommendationsSummary.length === 0) {
     return (
-      <div className="py-4 text-center">
-        <CheckCircle2
-          className="w-8 h-8 mx-auto mb-2"
-          style={{ color: "var(--pastel-mint-dark)" }}
-        />
-        <p className="text-sm font-medium" style={{ color: "var(--text-primary)" }}>
-          Looking good!
-        </p>
-        <p className="text-xs mt-1" style={{ color: "var(--text-tertiary)" }}>
-          No priority actions detected. Your finances are on track.
-        </p>
+      <div className="space-y-3">
+        <TaxDeductionsSummary reviewData={reviewData} />
+        <div className="py-4 text-center">
+          <CheckCircle2
+            className="w-8 h-8 mx-auto mb-2"
+            style={{ color: "var(--pastel-mint-dark)" }}
+          />
+          <p className="text-sm font-medium" style={{ color: "var(--text-primary)" }}>
+            Looking good!
+          </p>
+          <p className="text-xs mt-1" style={{ color: "var(--text-tertiary)" }}>
+            No priority actions detected. Your finances are on track.
+          </p>
+        </div>
       </div>
     );
   }
 
   return (
     <div className="space-y-3">
+      <TaxDeductionsSummary reviewData={reviewData} />
       <p className="text-[10px] font-medium" style={{ color: "var(--text-tertiary)" }}>
         ACTION ITEMS FROM YOUR REVIEW
       </p>
@@ -0,0 +1,618 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { gooeyToast as toast } from "goey-toast";
+import { CreditCard, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createDebt, deleteDebt, updateDebt } from "@/app/actions/debts";
+import {
+  comparePayoffStrategies,
+  toMonthlyRepaymentCents,
+  toPayoffDebts,
+  DEBT_TYPES,
+  DEBT_TYPE_LABELS,
+  REPAYMENT_FREQUENCIES,
+  type DebtRecord,
+  type DebtType,
+  type PayoffPlan,
+  type RepaymentFrequency,
+} from "@/lib/debt-calculations";
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat("en-AU", {
+    style: "currency",
+    currency: "AUD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100);
+
+/** 27 -> "2 yrs 3 mos" */
+function formatMonths(months: number | null): string {
+  if (months === null) return "Never";
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [];
+  if (years > 0) parts.push(`${years} yr${years === 1 ? "" : "s"}`);
+  if (rest > 0 || years === 0) parts.push(`${rest} mo${rest === 1 ? "" : "s"}`);
+  return parts.join(" ");
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DebtAccountOption {
+  id: string;
+  display_name: string;
+  account_type: string;
+}
+
+interface DebtFormState {
+  name: string;
+  debtType: DebtType;
+  balance: string;
+  rate: string;
+  repayment: string;
+  frequency: RepaymentFrequency;
+  linkedAccountId: string;
+  notes: string;
+}
+
+const emptyForm: DebtFormState = {
+  name: "",
+  debtType: "mortgage",
+  balance: "",
+  rate: "",
+  repayment: "",
+  frequency: "monthly",
+  linkedAccountId: "none",
+  notes: "",
+};
+
+const FREQUENCY_LABELS: Record<RepaymentFrequency, string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+interface DebtsPanelProps {
+  debts: DebtRecord[];
+  accounts: DebtAccountOption[];
+}
+
+export function DebtsPanel({ debts, accounts }: DebtsPanelProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<DebtRecord | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<DebtFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<DebtRecord | null>(null);
+  const [extraMonthly, setExtraMonthly] = useState("");
+
+  const totalCents = debts.reduce((sum, d) => sum + d.balance_cents, 0);
+  const monthlyCents = debts.reduce(
+    (sum, d) => sum + toMonthlyRepaymentCents(d.minimum_repayment_cents, d.repayment_frequency),
+    0
+  );
+
+  const extraCents = Math.max(0, Math.round((parseFloat(extraMonthly) || 0) * 100));
+  const comparison = useMemo(
+    () => comparePayoffStrategies(toPayoffDebts(debts), extraCents),
+    [debts, extraCents]
+  );
+
+  const openAdd = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setError(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (debt: DebtRecord) => {
+    setEditing(debt);
+    setForm({
+      name: debt.name,
+      debtType: debt.debt_type,
+      balance: (debt.balance_cents / 100).toString(),
+      rate: String(debt.interest_rate),
+      repayment: (debt.minimum_repayment_cents / 100).toString(),
+      frequency: debt.repayment_frequency,
+      linkedAccountId: debt.linked_account_id || "none",
+      notes: debt.notes || "",
+    });
+    setError(null);
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const linked = form.linkedAccountId !== "none" ? form.linkedAccountId : null;
+    const balance = parseFloat(form.balance);
+    const rate = parseFloat(form.rate);
+    const repayment = parseFloat(form.repayment);
+
+    if (!form.name.trim()) return setError("Give this debt a name");
+    if (!linked && (isNaN(balance) || balance < 0)) return setError("Enter the balance owing");
+    if (isNaN(rate) || rate < 0 || rate > 100) return setError("Enter an interest rate between 0 and 100%");
+    if (isNaN(repayment) || repayment < 0) return setError("Enter the minimum repayment");
+
+    const input = {
+      name: form.name.trim(),
+      debt_type: form.debtType,
+      balance_cents: linked ? 0 : Math.round(balance * 100),
+      interest_rate: rate,
+      minimum_repayment_cents: Math.round(repayment * 100),
+      repayment_frequency: form.frequency,
+      linked_account_id: linked,
+      notes: form.notes.trim() || undefined,
+    };
+
+    setSaving(true);
+    setError(null);
+    const result = editing ? await updateDebt(editing.id, input) : await createDebt(input);
+    setSaving(false);
+
+    if ("error" in result && result.error) {
+      setError(result.error);
+      return;
+    }
+    toast.success(editing ? "Debt updated" : "Debt added");
+    setFormOpen(false);
+    router.refresh();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setSaving(true);
+    const result = await deleteDebt(deleting.id);
+    setSaving(false);
+    if ("error" in result && result.error) {
+      toast.error(result.error);
+      return;
+    }
+    toast.success("Debt deleted");
+    setDeleting(null);
+    router.refresh();
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+      {/* ═══ LEFT COLUMN: debt list ═══ */}
+      <div className="lg:col-span-2 space-y-4 md:space-y-6">
+        <div
+          className="border-0 shadow-sm rounded-2xl overflow-hidden"
+          style={{ backgroundColor: "var(--surface-elevated)" }}
+        >
+          <div
+            className="px-5 py-3.5 border-b flex items-center justify-between"
+            style={{ borderColor: "var(--border)" }}
+          >
+            <div>
+              <span
+                className="font-[family-name:var(--font-nunito)] text-base font-bold"
+                style={{ color: "var(--text-primary)" }}
+              >
+                Debts &amp; Loans
+              </span>
+              {debts.length > 0 && (
+                <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                  {formatCurrency(totalCents)} owing · {formatCurrency(monthlyCents)}/mo in repayments
+                </p>
+              )}
+            </div>
+            <Button
+              size="sm"
+              onClick={openAdd}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Debt
+            </Button>
+          </div>
+
+          {debts.length === 0 ? (
+            <div className="px-5 py-10 text-center">
+              <CreditCard className="h-8 w-8 mx-auto mb-2" style={{ color: "var(--text-tertiary)" }} />
+              <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                Add your mortgage, car loan, HECS/HELP, credit cards or BNPL so they count
+                against your net worth.
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y" style={{ borderColor: "var(--border)" }}>
+              {debts.map((debt) => {
+                const account = accounts.find((a) => a.id === debt.linked_account_id);
+                return (
+                  <div key={debt.id} className="px-5 py-3.5 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold truncate" style={{ color: "var(--text-primary)" }}>
+                        {debt.name}
+                      </p>
+                      <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                        {DEBT_TYPE_LABELS[debt.debt_type]} · {debt.interest_rate}% ·{" "}
+                        {formatCurrency(debt.minimum_repayment_cents)}{" "}
+                        {FREQUENCY_LABELS[debt.repayment_frequency].toLowerCase()}
+                        {account && ` · linked to ${account.display_name}`}
+                      </p>
+                    </div>
+                    <p
+                      className="font-[family-name:var(--font-nunito)] text-base font-bold tabular-nums"
+                      style={{ color: "var(--text-primary)" }}
+                    >
+                      {formatCurrency(debt.balance_cents)}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => openEdit(debt)}
+                      className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                      aria-label={`Edit ${debt.name}`}
+                    >
+                      <Pencil className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDeleting(debt)}
+                      className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                      aria-label={`Delete ${debt.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* ═══ RIGHT COLUMN: payoff planner ═══ */}
+      {debts.length > 0 && (
+        <div
+          className="border-0 shadow-sm rounded-2xl p-5 space-y-4 self-start"
+          style={{ backgroundColor: "var(--surface-elevated)" }}
+        >
+          <div>
+            <p
+              className="font-[family-name:var(--font-nunito)] text-base font-bold"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Payoff Planner
+            </p>
+            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+              Minimum repayments plus any extra, rolled into the next debt as each one clears
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="extraMonthly" className="font-[family-name:var(--font-nunito)] font-bold text-sm">
+              Extra per month
+            </Label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">$</span>
+              <Input
+                id="extraMonthly"
+                type="number"
+                step="1"
+                min="0"
+                placeholder="0"
+                value={extraMonthly}
+                onChange={(e) => setExtraMonthly(e.target.value)}
+                className="pl-7 h-10 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <StrategyCard
+              title="Avalanche"
+              subtitle="Highest rate first"
+              plan={comparison.avalanche}
+              highlight={comparison.interestSavedCents > 0}
+            />
+            <StrategyCard
+              title="Snowball"
+              subtitle="Smallest balance first"
+              plan={comparison.snowball}
+              highlight={false}
+            />
+          </div>
+
+          <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+            {comparison.avalanche.months === null
+              ? "Your repayments don't cover the interest on at least one debt. Increase the extra amount to see a payoff date."
+              : comparison.interestSavedCents > 0
+                ? `Avalanche saves ${formatCurrency(comparison.interestSavedCents)} in interest. Snowball clears individual debts sooner, which some people find easier to stick with.`
+                : "Both strategies cost the same here — pick whichever keeps you motivated."}
+          </p>
+
+          {comparison.avalanche.payoffOrder.length > 0 && (
+            <div>
+              <p
+                className="text-[10px] font-medium uppercase tracking-wider mb-1"
+                style={{ color: "var(--text-tertiary)" }}
+              >
+                Avalanche order
+              </p>
+              <ol className="space-y-1">
+                {comparison.avalanche.payoffOrder.map((p, i) => (
+                  <li key={p.id} className="flex justify-between text-xs" style={{ color: "var(--text-secondary)" }}>
+                    <span>
+                      {i + 1}. {p.name}
+                    </span>
+                    <span className="tabular-nums">{formatMonths(p.month)}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+              {editing ? "Edit Debt" : "Add Debt"}
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Balances count against your net worth and feed the payoff planner
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {error && (
+              <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="debtName" className="font-[family-name:var(--font-nunito)] font-bold">
+                Name
+              </Label>
+              <Input
+                id="debtName"
+                placeholder="e.g. Car loan"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold">Type</Label>
+                <Select value={form.debtType} onValueChange={(v) => setForm({ ...form, debtType: v as DebtType })}>
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEBT_TYPES.map((t) => (
+                      <SelectItem key={t} value={t}>
+                        {DEBT_TYPE_LABELS[t]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold">Linked account</Label>
+                <Select value={form.linkedAccountId} onValueChange={(v) => setForm({ ...form, linkedAccountId: v })}>
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {accounts.map((a) => (
+                      <SelectItem key={a.id} value={a.id}>
+                        {a.display_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="debtBalance" className="font-[family-name:var(--font-nunito)] font-bold">
+                  Balance owing
+                </Label>
+                <Input
+                  id="debtBalance"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder={form.linkedAccountId !== "none" ? "From account" : "0.00"}
+                  disabled={form.linkedAccountId !== "none"}
+                  value={form.linkedAccountId !== "none" ? "" : form.balance}
+                  onChange={(e) => setForm({ ...form, balance: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="debtRate" className="font-[family-name:var(--font-nunito)] font-bold">
+                  Interest rate (%)
+                </Label>
+                <Input
+                  id="debtRate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  placeholder="0.00"
+                  value={form.rate}
+                  onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="debtRepayment" className="font-[family-name:var(--font-nunito)] font-bold">
+                  Minimum repayment
+                </Label>
+                <Input
+                  id="debtRepayment"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={form.repayment}
+                  onChange={(e) => setForm({ ...form, repayment: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold">Frequency</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(v) => setForm({ ...form, frequency: v as RepaymentFrequency })}
+                >
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPAYMENT_FREQUENCIES.map((f) => (
+                      <SelectItem key={f} value={f}>
+                        {FREQUENCY_LABELS[f]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {form.debtType === "hecs_help" && (
+              <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                HECS/HELP isn&apos;t charged interest — enter the latest indexation rate, and your
+                compulsory repayment as the minimum.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setFormOpen(false)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              {editing ? "Save Changes" : "Add Debt"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold text-error">
+              Delete Debt?
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Remove &quot;{deleting?.name}&quot; from your debts? It will no longer count against
+              your net worth.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleting(null)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDelete}
+              disabled={saving}
+              variant="destructive"
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Delete Debt
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// ============================================================================
+// Subcomponents
+// ============================================================================
+
+function StrategyCard({
+  title,
+  subtitle,
+  plan,
+  highlight,
+}: {
+  title: string;
+  subtitle: string;
+  plan: PayoffPlan;
+  highlight: boolean;
+}) {
+  return (
+    <div
+      className="p-3 rounded-xl"
+      style={{
+        backgroundColor: "var(--surface)",
+        border: highlight ? "2px solid var(--pastel-mint)" : "2px solid transparent",
+      }}
+    >
+      <p className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+        {title}
+      </p>
+      <p className="text-[10px] mb-2" style={{ color: "var(--text-tertiary)" }}>
+        {subtitle}
+      </p>
+      <p
+        className="font-[family-name:var(--font-nunito)] text-lg font-bold tabular-nums"
+        style={{ color: "var(--text-primary)" }}
+      >
+        {formatMonths(plan.months)}
+      </p>
+      <p className="text-xs tabular-nums" style={{ color: "var(--text-secondary)" }}>
+        {formatCurrency(plan.totalInterestCents)} interest
+      </p>
+    </div>
+  );
+}
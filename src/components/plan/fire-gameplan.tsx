@@ -12,6 +12,7 @@ import {
   Settings,
   Flame,
   Info,
+  CreditCard,
 } from "lucide-react";
 import Link from "next/link";
 import {
@@ -25,6 +26,7 @@ import {
 } from "recharts";
 import { FireProjectionChart } from "@/components/plan/fire-projection-chart";
 import { FireWhatIf } from "@/components/plan/fire-what-if";
+import { FireMonteCarlo } from "@/components/plan/fire-monte-carlo";
 import { TwoBucketChart } from "@/components/plan/two-bucket-chart";
 import {
   Collapsible,
@@ -33,12 +35,17 @@ import {
 } from "@/components/ui/collapsible";
 import {
   generateProjectionData,
+  simulateFireMonteCarlo,
+  AGE_PENSION_AGE,
+  DEFAULT_MONTE_CARLO_ASSUMPTIONS,
   FIRE_MULTIPLIER,
   FAT_FIRE_MULTIPLIER,
+  type MonteCarloAssumptions,
   type FireResult,
   type FireProfile,
   type SpendingData,
   type InvestmentData,
+  type ProjectionAdjustment,
 } from "@/lib/fire-calculations";
 import type {
   FireGameplan,
@@ -80,8 +87,12 @@ interface FireGameplanPageProps {
   currentAge: number;
   savingsRate: number;
   gameplan: FireGameplan;
+  /** Year-by-year changes the FIRE result was projected with (life milestones) */
+  adjustments?: ProjectionAdjustment[];
 }
 
+const NO_ADJUSTMENTS: ProjectionAdjustment[] = [];
+
 export function FireGameplanPage({
   fireResult,
   fireProfile,
@@ -90,16 +101,21 @@ export function FireGameplanPage({
   currentAge,
   savingsRate,
   gameplan,
+  adjustments = NO_ADJUSTMENTS,
 }: FireGameplanPageProps) {
   const [extraSavings, setExtraSavings] = useState(0);
   const [extraIncome, setExtraIncome] = useState(0);
+  const [projectionMode, setProjectionMode] = useState<"straight" | "monte-carlo">("straight");
+  const [monteCarloAssumptions, setMonteCarloAssumptions] =
+    useState<MonteCarloAssumptions>(DEFAULT_MONTE_CARLO_ASSUMPTIONS);
 
   // Recompute projection when sliders change (same logic as old FireTabContent)
-  const { projectionData, fireTargetCents } = useMemo(() => {
+  const { projectionData, fireTargetCents, projectionSpending } = useMemo(() => {
     if (extraSavings === 0 && extraIncome === 0) {
       return {
         projectionData: fireResult.projectionData,
         fireTargetCents: fireResult.fireNumberCents,
+        projectionSpending: spending,
       };
     }
 
@@ -135,9 +151,11 @@ export function FireGameplanPage({
         modifiedSpending,
         investments,
         annualExpenses,
-        newFireNumber
+        newFireNumber,
+        adjustments
       ),
       fireTargetCents: newFireNumber,
+      projectionSpending: modifiedSpending,
     };
   }, [
     extraSavings,
@@ -147,6 +165,38 @@ export function FireGameplanPage({
     spending,
     investments,
     currentAge,
+    adjustments,
+  ]);
+
+  // Success is judged against the target age, or the straight-line FIRE age
+  // when retiring "as soon as possible"
+  const monteCarlo = useMemo(() => {
+    if (projectionMode !== "monte-carlo") return null;
+    return simulateFireMonteCarlo(
+      currentAge,
+      fireProfile,
+      projectionSpending,
+      investments,
+      fireTargetCents,
+      {
+        ...monteCarloAssumptions,
+        targetAge:
+          fireProfile.targetRetirementAge ??
+          fireResult.projectedFireAge ??
+          AGE_PENSION_AGE,
+      },
+      adjustments
+    );
+  }, [
+    projectionMode,
+    monteCarloAssumptions,
+    currentAge,
+    fireProfile,
+    projectionSpending,
+    investments,
+    fireTargetCents,
+    fireResult.projectedFireAge,
+    adjustments,
   ]);
 
   const monthlySavings = Math.max(
@@ -390,24 +440,69 @@ export function FireGameplanPage({
           >
             Your projection
           </p>
-          {(extraSavings > 0 || extraIncome > 0) && (
-            <span
-              className="text-[10px] font-medium uppercase tracking-wider px-2 py-0.5 rounded-full"
-              style={{
-                backgroundColor: "var(--pastel-mint-light)",
-                color: "var(--pastel-mint-dark)",
-              }}
+          <div className="flex items-center gap-2">
+            {(extraSavings > 0 || extraIncome > 0) && (
+              <span
+                className="text-[10px] font-medium uppercase tracking-wider px-2 py-0.5 rounded-full"
+                style={{
+                  backgroundColor: "var(--pastel-mint-light)",
+                  color: "var(--pastel-mint-dark)",
+                }}
+              >
+                What-if active
+              </span>
+            )}
+            <div
+              className="flex gap-1 p-0.5 rounded-lg"
+              style={{ backgroundColor: "var(--surface)" }}
             >
-              What-if active
-            </span>
-          )}
+              {(
+                [
+                  { id: "straight", label: "Straight line" },
+                  { id: "monte-carlo", label: "Monte Carlo" },
+                ] as const
+              ).map((m) => (
+                <button
+                  key={m.id}
+                  type="button"
+                  onClick={() => setProjectionMode(m.id)}
+                  className={`py-1 px-2.5 rounded-md text-xs font-medium transition-all cursor-pointer ${
+                    projectionMode === m.id ? "shadow-sm" : ""
+                  }`}
+                  style={{
+                    backgroundColor:
+                      projectionMode === m.id
+                        ? "var(--surface-elevated)"
+                        : "transparent",
+                    color:
+                      projectionMode === m.id
+                        ? "var(--text-primary)"
+                        : "var(--text-tertiary)",
+                  }}
+                  aria-pressed={projectionMode === m.id}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
         <div className="p-5 space-y-6">
           <FireProjectionChart
             data={projectionData}
             fireTargetCents={fireTargetCents}
+            bands={monteCarlo?.bands}
           />
 
+          {monteCarlo && (
+            <FireMonteCarlo
+              result={monteCarlo}
+              assumptions={monteCarloAssumptions}
+              defaultInflationRate={fireProfile.spendingGrowthRate}
+              onAssumptionsChange={setMonteCarloAssumptions}
+            />
+          )}
+
           <div
             className="pt-5"
             style={{ borderTop: "1px solid var(--border)" }}
@@ -423,6 +518,7 @@ export function FireGameplanPage({
               profile={fireProfile}
               spending={spending}
               investments={investments}
+              adjustments={adjustments}
               extraSavings={extraSavings}
               onExtraSavingsChange={setExtraSavings}
               extraIncome={extraIncome}
@@ -595,6 +691,7 @@ function NumberStat({ label, value }: { label: string; value: string }) {
 }
 
 const actionIcons: Record<string, typeof TrendingUp> = {
+  "pay-off-debt": CreditCard,
   "save-invest": PiggyBank,
   "earn-more": TrendingUp,
   "cut-spending": Scissors,
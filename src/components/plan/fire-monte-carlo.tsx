@@ -0,0 +1,168 @@
+"use client";
+
+import { Slider } from "@/components/ui/slider";
+import type {
+  MonteCarloAssumptions,
+  MonteCarloResult,
+} from "@/lib/fire-calculations";
+
+interface FireMonteCarloProps {
+  result: MonteCarloResult;
+  assumptions: MonteCarloAssumptions;
+  /** Inflation used when the assumptions don't set one (the profile's spending growth) */
+  defaultInflationRate: number;
+  onAssumptionsChange: (assumptions: MonteCarloAssumptions) => void;
+}
+
+function successColors(probability: number) {
+  if (probability >= 80) {
+    return { bg: "var(--pastel-mint-light)", fg: "var(--pastel-mint-dark)" };
+  }
+  if (probability >= 50) {
+    return { bg: "var(--pastel-yellow-light)", fg: "var(--pastel-yellow-dark)" };
+  }
+  return { bg: "var(--pastel-coral-light)", fg: "var(--pastel-coral-dark)" };
+}
+
+function AssumptionSlider({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p
+          className="text-sm font-medium"
+          style={{ color: "var(--text-secondary)" }}
+        >
+          {label}
+        </p>
+        <span
+          className="text-sm font-bold font-[family-name:var(--font-nunito)]"
+          style={{ color: "var(--text-primary)" }}
+        >
+          {value.toFixed(1)}%
+        </span>
+      </div>
+      <Slider
+        value={[value]}
+        onValueChange={([val]) => onChange(val)}
+        min={min}
+        max={max}
+        step={step}
+        className="w-full"
+        aria-label={label}
+      />
+    </div>
+  );
+}
+
+export function FireMonteCarlo({
+  result,
+  assumptions,
+  defaultInflationRate,
+  onAssumptionsChange,
+}: FireMonteCarloProps) {
+  const colors = successColors(result.successProbability);
+  const inflationRate = assumptions.inflationRate ?? defaultInflationRate;
+
+  return (
+    <div className="space-y-5">
+      {/* Outcome summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div
+          className="p-3 rounded-xl"
+          style={{ backgroundColor: colors.bg }}
+        >
+          <p
+            className="text-[10px] font-medium uppercase tracking-wider"
+            style={{ color: colors.fg }}
+          >
+            Chance of FIRE by {result.targetAge}
+          </p>
+          <p
+            className="text-2xl font-bold font-[family-name:var(--font-nunito)]"
+            style={{ color: colors.fg }}
+          >
+            {Math.round(result.successProbability)}%
+          </p>
+          <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+            Across {result.simulations.toLocaleString("en-AU")} simulated markets
+          </p>
+        </div>
+        <div
+          className="p-3 rounded-xl"
+          style={{ backgroundColor: "var(--surface)" }}
+        >
+          <p
+            className="text-[10px] font-medium uppercase tracking-wider"
+            style={{ color: "var(--text-tertiary)" }}
+          >
+            Likely FIRE age
+          </p>
+          <p
+            className="text-2xl font-bold font-[family-name:var(--font-nunito)]"
+            style={{ color: "var(--text-primary)" }}
+          >
+            {result.fireAgeP50 ?? "—"}
+          </p>
+          <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+            {result.fireAgeP10 !== null
+              ? `Good markets ${result.fireAgeP10} · poor markets ${result.fireAgeP90 ?? "100+"}`
+              : "Not reached in most simulations"}
+          </p>
+        </div>
+      </div>
+
+      {/* Assumptions */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+        <AssumptionSlider
+          label="Return volatility"
+          value={assumptions.returnVolatility}
+          min={0}
+          max={25}
+          step={0.5}
+          onChange={(returnVolatility) =>
+            onAssumptionsChange({ ...assumptions, returnVolatility })
+          }
+        />
+        <AssumptionSlider
+          label="Inflation"
+          value={inflationRate}
+          min={0}
+          max={8}
+          step={0.1}
+          onChange={(value) =>
+            onAssumptionsChange({ ...assumptions, inflationRate: value })
+          }
+        />
+        <AssumptionSlider
+          label="Inflation volatility"
+          value={assumptions.inflationVolatility}
+          min={0}
+          max={4}
+          step={0.1}
+          onChange={(inflationVolatility) =>
+            onAssumptionsChange({ ...assumptions, inflationVolatility })
+          }
+        />
+      </div>
+      <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+        Average returns come from your FIRE settings. The shaded band covers
+        the middle 80% of outcomes; returns and inflation change randomly each
+        year, so the FIRE number moves too.
+      </p>
+    </div>
+  );
+}
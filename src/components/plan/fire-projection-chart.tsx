@@ -10,7 +10,7 @@ import {
   CartesianGrid,
   ReferenceLine,
 } from "recharts";
-import type { ProjectionYear } from "@/lib/fire-calculations";
+import type { MonteCarloBand, ProjectionYear } from "@/lib/fire-calculations";
 
 const formatCurrency = (cents: number) =>
   new Intl.NumberFormat("en-AU", {
@@ -23,8 +23,17 @@ const formatCurrency = (cents: number) =>
 interface FireProjectionChartProps {
   data: ProjectionYear[];
   fireTargetCents: number;
+  /** Monte Carlo percentile bands; replaces the super/outside split when set */
+  bands?: MonteCarloBand[];
 }
 
+const formatAxis = (v: number) =>
+  v >= 1_000_000
+    ? `$${(v / 1_000_000).toFixed(1)}M`
+    : v >= 1_000
+      ? `$${(v / 1_000).toFixed(0)}k`
+      : `$${v}`;
+
 function ChartTooltip({ active, payload }: any) {
   if (!active || !payload?.length) return null;
   const d = payload[0].payload as ProjectionYear;
@@ -52,10 +61,51 @@ function ChartTooltip({ active, payload }: any) {
   );
 }
 
+/** The slice of recharts' tooltip props the band chart reads */
+interface BandTooltipProps {
+  active?: boolean;
+  payload?: { payload: MonteCarloBand }[];
+}
+
+function BandTooltip({ active, payload }: BandTooltipProps) {
+  if (!active || !payload?.length) return null;
+  const d = payload[0].payload;
+  return (
+    <div
+      className="px-3 py-2 rounded-lg shadow-lg text-xs"
+      style={{
+        backgroundColor: "var(--surface-elevated)",
+        border: "1px solid var(--border)",
+      }}
+    >
+      <p className="font-semibold" style={{ color: "var(--text-primary)" }}>
+        Age {d.age} ({d.year})
+      </p>
+      <p style={{ color: "var(--text-secondary)" }}>
+        Good markets (90th): {formatCurrency(d.p90Cents)}
+      </p>
+      <p className="font-semibold" style={{ color: "#f97316" }}>
+        Median: {formatCurrency(d.p50Cents)}
+      </p>
+      <p style={{ color: "var(--text-secondary)" }}>
+        Poor markets (10th): {formatCurrency(d.p10Cents)}
+      </p>
+      <p className="mt-1" style={{ color: "var(--pastel-coral)" }}>
+        FIRE number: {formatCurrency(d.fireTargetCents)}
+      </p>
+    </div>
+  );
+}
+
 export function FireProjectionChart({
   data,
   fireTargetCents,
+  bands,
 }: FireProjectionChartProps) {
+  if (bands) {
+    return <MonteCarloBandChart bands={bands} />;
+  }
+
   if (data.length < 2) {
     return (
       <div className="h-80 flex items-center justify-center">
@@ -114,13 +164,7 @@ export function FireProjectionChart({
             tick={{ fontSize: 10, fill: "var(--text-tertiary)" }}
             tickLine={false}
             axisLine={false}
-            tickFormatter={(v) =>
-              v >= 1_000_000
-                ? `$${(v / 1_000_000).toFixed(1)}M`
-                : v >= 1_000
-                  ? `$${(v / 1_000).toFixed(0)}k`
-                  : `$${v}`
-            }
+            tickFormatter={formatAxis}
           />
           <Tooltip content={<ChartTooltip />} />
           <ReferenceLine
@@ -155,3 +199,98 @@ export function FireProjectionChart({
     </div>
   );
 }
+
+/**
+ * Range of outcomes across Monte Carlo runs: the shaded band runs from the
+ * 10th to the 90th percentile portfolio, with the median as a line.
+ */
+function MonteCarloBandChart({ bands }: { bands: MonteCarloBand[] }) {
+  if (bands.length < 2) {
+    return (
+      <div className="h-80 flex items-center justify-center">
+        <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+          Not enough data to show projection
+        </p>
+      </div>
+    );
+  }
+
+  // The band is drawn as a transparent 10th-percentile base with the
+  // 10th–90th spread stacked on top
+  const chartData = bands.map((b) => ({
+    ...b,
+    low: Math.round(b.p10Cents / 100),
+    spread: Math.round((b.p90Cents - b.p10Cents) / 100),
+    median: Math.round(b.p50Cents / 100),
+    target: Math.round(b.fireTargetCents / 100),
+  }));
+
+  return (
+    <div className="h-80">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart
+          data={chartData}
+          margin={{ top: 5, right: 5, left: -10, bottom: 0 }}
+        >
+          <CartesianGrid
+            strokeDasharray="3 3"
+            stroke="var(--border)"
+            vertical={false}
+          />
+          <XAxis
+            dataKey="age"
+            tick={{ fontSize: 10, fill: "var(--text-tertiary)" }}
+            tickLine={false}
+            axisLine={false}
+            label={{
+              value: "Age",
+              position: "insideBottomRight",
+              offset: -5,
+              style: { fontSize: 10, fill: "var(--text-tertiary)" },
+            }}
+          />
+          <YAxis
+            tick={{ fontSize: 10, fill: "var(--text-tertiary)" }}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={formatAxis}
+          />
+          <Tooltip content={<BandTooltip />} />
+          <Area
+            type="monotone"
+            dataKey="low"
+            stackId="band"
+            stroke="none"
+            fill="transparent"
+            activeDot={false}
+          />
+          <Area
+            type="monotone"
+            dataKey="spread"
+            stackId="band"
+            stroke="none"
+            fill="#f97316"
+            fillOpacity={0.15}
+            activeDot={false}
+          />
+          <Area
+            type="monotone"
+            dataKey="median"
+            stroke="#f97316"
+            strokeWidth={2}
+            fill="none"
+          />
+          <Area
+            type="monotone"
+            dataKey="target"
+            stroke="var(--pastel-coral)"
+            strokeDasharray="6 4"
+            strokeWidth={1.5}
+            fill="none"
+            activeDot={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   type FireProfile,
   type SpendingData,
   type InvestmentData,
+  type ProjectionAdjustment,
 } from "@/lib/fire-calculations";
 
 const formatCurrency = (cents: number) =>
@@ -32,6 +33,7 @@ interface FireWhatIfProps {
   profile: FireProfile;
   spending: SpendingData;
   investments: InvestmentData;
+  adjustments?: ProjectionAdjustment[];
   extraSavings: number;
   onExtraSavingsChange: (value: number) => void;
   extraIncome: number;
@@ -43,6 +45,7 @@ export function FireWhatIf({
   profile,
   spending,
   investments,
+  adjustments,
   extraSavings,
   onExtraSavingsChange,
   extraIncome,
@@ -55,9 +58,10 @@ export function FireWhatIf({
       extraSavings * 100,
       profile,
       spending,
-      investments
+      investments,
+      adjustments
     );
-  }, [extraSavings, fireResult, profile, spending, investments]);
+  }, [extraSavings, fireResult, profile, spending, investments, adjustments]);
 
   const incomeImpact = useMemo(() => {
     if (extraIncome <= 0) return null;
@@ -66,9 +70,10 @@ export function FireWhatIf({
       extraIncome * 100,
       profile,
       spending,
-      investments
+      investments,
+      adjustments
     );
-  }, [extraIncome, fireResult, profile, spending, investments]);
+  }, [extraIncome, fireResult, profile, spending, investments, adjustments]);
 
   const milestones = useMemo(
     () => calculateIncomeMilestones(fireResult, profile, spending, investments),
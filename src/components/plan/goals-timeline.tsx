@@ -51,7 +51,8 @@ export interface GoalTimelineData {
 // Icon Map
 // ============================================================================
 
-const goalIcons: Record<string, typeof Target> = {
+/** Shared with the milestones timeline */
+export const goalIcons: Record<string, typeof Target> = {
   target: Target,
   home: Home,
   baby: Baby,
@@ -142,7 +143,9 @@ export function GoalsTimeline({
   });
 
   const interactionMap = new Map(
-    interactions.map((i) => [i.goalId, i])
+    interactions
+      .filter((i) => i.source === "goal")
+      .map((i) => [i.goalId, i])
   );
 
   return (
@@ -0,0 +1,785 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { gooeyToast as toast } from "goey-toast";
+import {
+  AlertTriangle,
+  Check,
+  Flame,
+  Loader2,
+  Milestone,
+  Pencil,
+  Plus,
+  Target,
+  Trash2,
+  Undo2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  createMilestone,
+  deleteMilestone,
+  setMilestoneCompleted,
+  toggleMilestoneChecklistItem,
+  updateMilestone,
+} from "@/app/actions/milestones";
+import {
+  MILESTONE_PRESETS,
+  milestoneFunding,
+  monthsUntil,
+  type LifeMilestone,
+  type MilestoneGoal,
+  type MilestonePreset,
+} from "@/lib/life-milestones";
+import type { GoalInteraction } from "@/lib/plan-health-calculations";
+import { goalIcons } from "@/components/plan/goals-timeline";
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat("en-AU", {
+    style: "currency",
+    currency: "AUD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100);
+
+const formatSigned = (cents: number) =>
+  `${cents >= 0 ? "+" : "−"}${formatCurrency(Math.abs(cents))}`;
+
+const formatMonthYear = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-AU", { month: "short", year: "numeric" });
+
+function describeWhen(months: number): string {
+  if (months < 0) return "Date passed";
+  if (months === 0) return "This month";
+  if (months < 12) return `In ${months} month${months === 1 ? "" : "s"}`;
+  const years = Math.floor(months / 12);
+  return `In ${years} year${years === 1 ? "" : "s"}${months % 12 ? ` ${months % 12} mo` : ""}`;
+}
+
+function describeDuration(months: number | null): string {
+  if (months === null) return "ongoing";
+  if (months % 12 === 0) return `for ${months / 12} year${months === 12 ? "" : "s"}`;
+  return `for ${months} months`;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MilestonesPanelData {
+  milestones: LifeMilestone[];
+  goals: MilestoneGoal[];
+  /** Warnings from analyzeGoalInteractions for milestones */
+  interactions: GoalInteraction[];
+  /** Projected FIRE age with and without milestones; null when FIRE isn't set up */
+  fireAge: number | null;
+  fireAgeWithoutMilestones: number | null;
+}
+
+/** A milestone as edited in the form: amounts in dollars, numbers as strings */
+interface MilestoneFormState {
+  title: string;
+  description: string;
+  targetDate: string;
+  cost: string;
+  monthly: string;
+  impactMonths: string;
+  goalId: string;
+  icon: string;
+  color: string;
+  checklist: { item: string; done: boolean }[];
+  newItem: string;
+}
+
+const NO_GOAL = "none";
+
+function nextYearDate(): string {
+  const d = new Date();
+  return `${d.getFullYear() + 1}-${String(d.getMonth() + 1).padStart(2, "0")}-01`;
+}
+
+const emptyForm = (): MilestoneFormState => ({
+  title: "",
+  description: "",
+  targetDate: nextYearDate(),
+  cost: "",
+  monthly: "",
+  impactMonths: "",
+  goalId: NO_GOAL,
+  icon: "target",
+  color: "var(--pastel-blue)",
+  checklist: [],
+  newItem: "",
+});
+
+function presetForm(preset: MilestonePreset, current: MilestoneFormState): MilestoneFormState {
+  return {
+    ...current,
+    title: current.title.trim() ? current.title : preset.label,
+    cost: String(preset.estimated_cost_cents / 100),
+    monthly: preset.estimated_monthly_impact_cents ? String(preset.estimated_monthly_impact_cents / 100) : "",
+    impactMonths: preset.impact_months !== null ? String(preset.impact_months) : "",
+    icon: preset.icon,
+    color: preset.color,
+    checklist: preset.checklist.map((item) => ({ item, done: false })),
+  };
+}
+
+function toForm(m: LifeMilestone): MilestoneFormState {
+  return {
+    title: m.title,
+    description: m.description || "",
+    targetDate: m.target_date,
+    cost: m.estimated_cost_cents ? String(m.estimated_cost_cents / 100) : "",
+    monthly: m.estimated_monthly_impact_cents ? String(m.estimated_monthly_impact_cents / 100) : "",
+    impactMonths: m.impact_months !== null ? String(m.impact_months) : "",
+    goalId: m.linked_goal_id || NO_GOAL,
+    icon: m.icon,
+    color: m.color,
+    checklist: m.preparation_checklist,
+    newItem: "",
+  };
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+interface MilestonesPanelProps {
+  data: MilestonesPanelData;
+}
+
+export function MilestonesPanel({ data }: MilestonesPanelProps) {
+  const router = useRouter();
+  const { milestones, goals, interactions, fireAge, fireAgeWithoutMilestones } = data;
+  const [editing, setEditing] = useState<LifeMilestone | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<MilestoneFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<LifeMilestone | null>(null);
+
+  const sorted = useMemo(
+    () =>
+      [...milestones].sort((a, b) => {
+        if (a.is_completed !== b.is_completed) return a.is_completed ? 1 : -1;
+        return a.target_date.localeCompare(b.target_date) || a.sort_order - b.sort_order;
+      }),
+    [milestones]
+  );
+  const upcoming = sorted.filter((m) => !m.is_completed && monthsUntil(m.target_date) >= 0);
+  const goalsById = new Map(goals.map((g) => [g.id, g]));
+  const interactionMap = new Map(
+    interactions.filter((i) => i.source === "milestone").map((i) => [i.goalId, i])
+  );
+
+  const upcomingCostCents = upcoming.reduce((sum, m) => sum + m.estimated_cost_cents, 0);
+  const outOfPocketCents = upcoming.reduce(
+    (sum, m) => sum + milestoneFunding(m, goalsById.get(m.linked_goal_id ?? "")).outOfPocketCents,
+    0
+  );
+  const addedMonthlyCents = upcoming.reduce(
+    (sum, m) => sum + Math.max(0, m.estimated_monthly_impact_cents),
+    0
+  );
+  const fireDelta =
+    fireAge !== null && fireAgeWithoutMilestones !== null ? fireAge - fireAgeWithoutMilestones : null;
+
+  const openAdd = () => {
+    setEditing(null);
+    setForm(emptyForm());
+    setError(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (milestone: LifeMilestone) => {
+    setEditing(milestone);
+    setForm(toForm(milestone));
+    setError(null);
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) return setError("Give this milestone a name");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(form.targetDate)) return setError("Pick a date");
+
+    const cost = form.cost.trim() === "" ? 0 : Number(form.cost);
+    const monthly = form.monthly.trim() === "" ? 0 : Number(form.monthly);
+    const impactMonths = form.impactMonths.trim() === "" ? null : Number(form.impactMonths);
+    if (!Number.isFinite(cost) || cost < 0) return setError("One-off cost must be zero or more");
+    if (!Number.isFinite(monthly)) return setError("Enter the monthly change in dollars");
+    if (impactMonths !== null && (!Number.isInteger(impactMonths) || impactMonths < 1)) {
+      return setError("Months must be a whole number, or blank for ongoing");
+    }
+
+    const checklist = form.newItem.trim()
+      ? [...form.checklist, { item: form.newItem.trim(), done: false }]
+      : form.checklist;
+
+    const input = {
+      title: form.title.trim(),
+      description: form.description.trim() || undefined,
+      target_date: form.targetDate,
+      estimated_cost_cents: Math.round(cost * 100),
+      estimated_monthly_impact_cents: Math.round(monthly * 100),
+      impact_months: impactMonths,
+      linked_goal_id: form.goalId === NO_GOAL ? null : form.goalId,
+      icon: form.icon,
+      color: form.color,
+      preparation_checklist: checklist,
+    };
+
+    setSaving(true);
+    setError(null);
+    const result = editing ? await updateMilestone(editing.id, input) : await createMilestone(input);
+    setSaving(false);
+
+    if ("error" in result && result.error) {
+      setError(result.error);
+      return;
+    }
+    toast.success(editing ? "Milestone updated" : "Milestone added");
+    setFormOpen(false);
+    router.refresh();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setSaving(true);
+    const result = await deleteMilestone(deleting.id);
+    setSaving(false);
+    if ("error" in result && result.error) {
+      toast.error(result.error);
+      return;
+    }
+    toast.success("Milestone deleted");
+    setDeleting(null);
+    router.refresh();
+  };
+
+  const handleComplete = async (milestone: LifeMilestone) => {
+    const result = await setMilestoneCompleted(milestone.id, !milestone.is_completed);
+    if ("error" in result && result.error) {
+      toast.error(result.error);
+      return;
+    }
+    router.refresh();
+  };
+
+  const handleChecklist = async (milestone: LifeMilestone, index: number) => {
+    const result = await toggleMilestoneChecklistItem(milestone.id, index);
+    if ("error" in result && result.error) {
+      toast.error(result.error);
+      return;
+    }
+    router.refresh();
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+      {/* ═══ LEFT COLUMN: timeline ═══ */}
+      <div className="lg:col-span-2">
+        <div
+          className="border-0 shadow-sm rounded-2xl overflow-hidden"
+          style={{ backgroundColor: "var(--surface-elevated)" }}
+        >
+          <div
+            className="px-5 py-3.5 border-b flex items-center justify-between"
+            style={{ borderColor: "var(--border)" }}
+          >
+            <div>
+              <span
+                className="font-[family-name:var(--font-nunito)] text-base font-bold"
+                style={{ color: "var(--text-primary)" }}
+              >
+                Life Milestones
+              </span>
+              <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                Big events ahead and what they cost, counted in your FIRE date and goals
+              </p>
+            </div>
+            <Button
+              size="sm"
+              onClick={openAdd}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Milestone
+            </Button>
+          </div>
+
+          {sorted.length === 0 ? (
+            <div className="px-5 py-10 text-center">
+              <Milestone className="h-8 w-8 mx-auto mb-2" style={{ color: "var(--text-tertiary)" }} />
+              <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                Planning a wedding, a baby or a renovation? Add it here to see what it does to your
+                goals and your FIRE date.
+              </p>
+            </div>
+          ) : (
+            <div className="relative pl-12 pr-5 py-3">
+              <div
+                className="absolute left-6 top-6 bottom-6 w-0.5"
+                style={{ backgroundColor: "var(--border)" }}
+              />
+              {sorted.map((m) => {
+                const Icon = goalIcons[m.icon] || Target;
+                const months = monthsUntil(m.target_date);
+                const goal = m.linked_goal_id ? goalsById.get(m.linked_goal_id) : undefined;
+                const funding = milestoneFunding(m, goal);
+                const interaction = interactionMap.get(m.id);
+                const checklistDone = m.preparation_checklist.filter((c) => c.done).length;
+
+                return (
+                  <div key={m.id} className="relative mb-4 last:mb-0" style={{ opacity: m.is_completed ? 0.6 : 1 }}>
+                    <div
+                      className="absolute -left-10 top-0.5 w-8 h-8 rounded-full flex items-center justify-center z-10"
+                      style={{ border: `2px solid ${m.color}`, backgroundColor: "var(--surface)" }}
+                    >
+                      {m.is_completed ? (
+                        <Check className="w-4 h-4" style={{ color: "var(--pastel-mint-dark)" }} />
+                      ) : (
+                        <Icon className="w-3.5 h-3.5" style={{ color: m.color }} />
+                      )}
+                    </div>
+
+                    <div className="py-2.5 px-2 -mx-1">
+                      <div className="flex items-start gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium" style={{ color: "var(--text-primary)" }}>
+                            {m.title}
+                            {m.is_completed && (
+                              <span className="text-xs font-normal ml-2" style={{ color: "var(--pastel-mint-dark)" }}>
+                                Done
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs mt-0.5" style={{ color: "var(--text-tertiary)" }}>
+                            {formatMonthYear(m.target_date)}
+                            {!m.is_completed && ` · ${describeWhen(months)}`}
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleComplete(m)}
+                          className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                          aria-label={m.is_completed ? `Mark ${m.title} as not done` : `Mark ${m.title} as done`}
+                        >
+                          {m.is_completed ? (
+                            <Undo2 className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                          ) : (
+                            <Check className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                          )}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => openEdit(m)}
+                          className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                          aria-label={`Edit ${m.title}`}
+                        >
+                          <Pencil className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setDeleting(m)}
+                          className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                          aria-label={`Delete ${m.title}`}
+                        >
+                          <Trash2 className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                        </button>
+                      </div>
+
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1.5 text-xs tabular-nums" style={{ color: "var(--text-secondary)" }}>
+                        {m.estimated_cost_cents > 0 && <span>{formatCurrency(m.estimated_cost_cents)} one-off</span>}
+                        {m.estimated_monthly_impact_cents !== 0 && (
+                          <span>
+                            {formatSigned(m.estimated_monthly_impact_cents)}/mo {describeDuration(m.impact_months)}
+                          </span>
+                        )}
+                      </div>
+
+                      {goal && funding.fromGoalCents > 0 && (
+                        <div className="mt-2">
+                          <div className="flex items-center justify-between text-xs mb-1">
+                            <span style={{ color: "var(--text-secondary)" }}>{goal.name}</span>
+                            <span className="tabular-nums" style={{ color: "var(--text-tertiary)" }}>
+                              {formatCurrency(funding.savedCents)} / {formatCurrency(funding.fromGoalCents)}
+                            </span>
+                          </div>
+                          <div className="h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: "var(--surface-sunken)" }}>
+                            <div
+                              className="h-full rounded-full"
+                              style={{ width: `${(funding.savedCents / funding.fromGoalCents) * 100}%`, backgroundColor: m.color }}
+                            />
+                          </div>
+                        </div>
+                      )}
+                      {!m.is_completed && funding.outOfPocketCents > 0 && (
+                        <p className="text-xs mt-1.5" style={{ color: "var(--text-tertiary)" }}>
+                          {goal
+                            ? `${formatCurrency(funding.outOfPocketCents)} more than the goal covers`
+                            : "Not linked to a savings goal — paid from general savings"}
+                        </p>
+                      )}
+
+                      {m.preparation_checklist.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                          <p className="text-xs font-semibold" style={{ color: "var(--text-secondary)" }}>
+                            Preparation ({checklistDone}/{m.preparation_checklist.length})
+                          </p>
+                          {m.preparation_checklist.map((item, idx) => (
+                            <label
+                              key={idx}
+                              className="flex items-center gap-2 text-xs cursor-pointer"
+                              style={{ color: item.done ? "var(--text-tertiary)" : "var(--text-secondary)" }}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={item.done}
+                                onChange={() => handleChecklist(m, idx)}
+                                className="rounded cursor-pointer"
+                              />
+                              <span className={item.done ? "line-through" : ""}>{item.item}</span>
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    {interaction && (
+                      <div
+                        className="py-2 px-2.5 rounded-lg flex items-start gap-2 text-xs"
+                        style={{ backgroundColor: "var(--pastel-yellow-light)" }}
+                      >
+                        <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" style={{ color: "var(--pastel-yellow-dark)" }} />
+                        <span style={{ color: "var(--text-secondary)" }}>{interaction.warningMessage}</span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* ═══ RIGHT COLUMN: impact summary ═══ */}
+      <div
+        className="border-0 shadow-sm rounded-2xl overflow-hidden self-start"
+        style={{ backgroundColor: "var(--surface-elevated)" }}
+      >
+        <div className="px-5 py-3.5 border-b" style={{ borderColor: "var(--border)" }}>
+          <span
+            className="font-[family-name:var(--font-nunito)] text-base font-bold"
+            style={{ color: "var(--text-primary)" }}
+          >
+            Impact on Your Plan
+          </span>
+        </div>
+        <div className="px-5 py-4 space-y-3 text-sm">
+          {fireAge !== null || fireAgeWithoutMilestones !== null ? (
+            <div className="flex items-start gap-2">
+              <Flame className="h-4 w-4 mt-0.5 flex-shrink-0" style={{ color: "var(--pastel-coral-dark)" }} />
+              <div>
+                <p style={{ color: "var(--text-primary)" }}>
+                  FIRE at {fireAge ?? "—"}
+                  {fireDelta !== null && fireDelta !== 0 && (
+                    <span className="text-xs ml-1.5" style={{ color: fireDelta > 0 ? "var(--pastel-coral-dark)" : "var(--pastel-mint-dark)" }}>
+                      {fireDelta > 0 ? "+" : "−"}{Math.abs(fireDelta)} yr
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                  {fireAgeWithoutMilestones !== null
+                    ? `${fireAgeWithoutMilestones} without these milestones`
+                    : "Not reached without these milestones either"}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+              Set up FIRE to see how milestones move your retirement date.
+            </p>
+          )}
+          <SummaryRow label="Upcoming one-off costs" value={formatCurrency(upcomingCostCents)} />
+          <SummaryRow label="Not covered by goals" value={formatCurrency(outOfPocketCents)} />
+          {addedMonthlyCents > 0 && (
+            <SummaryRow label="Monthly costs added" value={`${formatCurrency(addedMonthlyCents)}/mo`} />
+          )}
+          {interactionMap.size > 0 && (
+            <p className="text-xs flex items-center gap-1.5" style={{ color: "var(--pastel-yellow-dark)" }}>
+              <AlertTriangle className="h-3.5 w-3.5" />
+              {interactionMap.size} milestone{interactionMap.size === 1 ? "" : "s"} would stretch your emergency fund
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="rounded-2xl max-h-[90vh] overflow-y-auto sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+              {editing ? "Edit Milestone" : "Add Milestone"}
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Start from a common event or enter your own. Link a savings goal to show what it pays for.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {error && (
+              <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+                {error}
+              </div>
+            )}
+
+            {!editing && (
+              <div className="flex flex-wrap gap-2">
+                {MILESTONE_PRESETS.map((preset) => {
+                  const PresetIcon = goalIcons[preset.icon] || Target;
+                  return (
+                    <Button
+                      key={preset.key}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm((f) => presetForm(preset, f))}
+                      className="rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                    >
+                      <PresetIcon className="h-4 w-4 mr-1" />
+                      {preset.label}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="milestoneTitle" className="font-[family-name:var(--font-nunito)] font-bold">
+                  Name
+                </Label>
+                <Input
+                  id="milestoneTitle"
+                  placeholder="e.g. Baby"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="milestoneDate" className="font-[family-name:var(--font-nunito)] font-bold">
+                  When
+                </Label>
+                <Input
+                  id="milestoneDate"
+                  type="date"
+                  value={form.targetDate}
+                  onChange={(e) => setForm({ ...form, targetDate: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="milestoneCost" className="font-[family-name:var(--font-nunito)] font-bold">
+                  One-off cost
+                </Label>
+                <Input
+                  id="milestoneCost"
+                  type="number"
+                  min="0"
+                  placeholder="0"
+                  value={form.cost}
+                  onChange={(e) => setForm({ ...form, cost: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="milestoneMonthly" className="font-[family-name:var(--font-nunito)] font-bold">
+                  Per month
+                </Label>
+                <Input
+                  id="milestoneMonthly"
+                  type="number"
+                  placeholder="0"
+                  value={form.monthly}
+                  onChange={(e) => setForm({ ...form, monthly: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="milestoneMonths" className="font-[family-name:var(--font-nunito)] font-bold">
+                  For months
+                </Label>
+                <Input
+                  id="milestoneMonths"
+                  type="number"
+                  min="1"
+                  placeholder="Ongoing"
+                  value={form.impactMonths}
+                  onChange={(e) => setForm({ ...form, impactMonths: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+            </div>
+            <p className="text-xs -mt-2 font-[family-name:var(--font-dm-sans)]" style={{ color: "var(--text-tertiary)" }}>
+              Per month is extra spending from the date (negative for a saving). Leave months blank if it never ends.
+            </p>
+
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold">
+                Paid for by
+              </Label>
+              <Select value={form.goalId} onValueChange={(v) => setForm({ ...form, goalId: v })}>
+                <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_GOAL}>General savings</SelectItem>
+                  {goals
+                    .filter((g) => !g.is_completed || g.id === form.goalId)
+                    .map((g) => (
+                      <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold">
+                Preparation checklist
+              </Label>
+              {form.checklist.map((c, i) => (
+                <div key={i} className="flex items-center gap-2 text-sm" style={{ color: "var(--text-secondary)" }}>
+                  <span className="flex-1 truncate">{c.item}</span>
+                  <button
+                    type="button"
+                    onClick={() => setForm((f) => ({ ...f, checklist: f.checklist.filter((_, j) => j !== i) }))}
+                    className="p-1 rounded-lg hover:bg-secondary cursor-pointer"
+                    aria-label={`Remove ${c.item}`}
+                  >
+                    <X className="h-3.5 w-3.5" style={{ color: "var(--text-tertiary)" }} />
+                  </button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Add a step"
+                  value={form.newItem}
+                  onChange={(e) => setForm({ ...form, newItem: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key !== "Enter" || !form.newItem.trim()) return;
+                    e.preventDefault();
+                    setForm((f) => ({ ...f, checklist: [...f.checklist, { item: f.newItem.trim(), done: false }], newItem: "" }));
+                  }}
+                  className="h-10 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="milestoneNotes" className="font-[family-name:var(--font-nunito)] font-bold">
+                Notes
+              </Label>
+              <Input
+                id="milestoneNotes"
+                placeholder="Optional"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setFormOpen(false)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              {editing ? "Save Changes" : "Add Milestone"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold text-error">
+              Delete Milestone?
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Delete &quot;{deleting?.title}&quot;? Any linked savings goal is kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleting(null)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDelete}
+              disabled={saving}
+              variant="destructive"
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Delete Milestone
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// ============================================================================
+// Subcomponents
+// ============================================================================
+
+function SummaryRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-xs" style={{ color: "var(--text-tertiary)" }}>{label}</span>
+      <span className="tabular-nums" style={{ color: "var(--text-primary)" }}>{value}</span>
+    </div>
+  );
+}
@@ -8,16 +8,23 @@ import { PriorityRecommendations } from "@/components/plan/priority-recommendati
 import { GoalsTimeline } from "@/components/plan/goals-timeline";
 import type { GoalTimelineData } from "@/components/plan/goals-timeline";
 import { CheckupWizard } from "@/components/plan/annual-checkup/checkup-wizard";
+import { DebtsPanel, type DebtAccountOption } from "@/components/plan/debts-panel";
+import { TaxDeductionsCard, type TaxDeductionsSummary } from "@/components/plan/tax-deductions-card";
+import { SuperPanel, type SuperPanelData } from "@/components/plan/super-panel";
+import { ScenariosPanel, type ScenariosPanelData } from "@/components/plan/scenarios-panel";
+import { MilestonesPanel, type MilestonesPanelData } from "@/components/plan/milestones-panel";
 import { motion } from "framer-motion";
-import { Flame, LayoutDashboard } from "lucide-react";
+import { CreditCard, Flame, Landmark, LayoutDashboard, Milestone, Split } from "lucide-react";
 import {
   type FireResult,
   type FireRecommendation,
   type FireProfile,
   type SpendingData,
   type InvestmentData,
+  type ProjectionAdjustment,
 } from "@/lib/fire-calculations";
 import type { FireGameplan } from "@/lib/fire-gameplan";
+import type { DebtRecord } from "@/lib/debt-calculations";
 import type {
   HealthMetric,
   PriorityRecommendation,
@@ -73,15 +80,21 @@ export interface CheckupReviewData {
   // Step 4: Debt
   homeLoanBalanceCents: number;
   homeLoanAccountCount: number;
+  otherDebtCents: number;
+  trackedDebtCount: number;
   // Step 5: Super
   superBalanceCents: number;
   sgRate: number;
   annualIncomeCents: number;
+  /** This year's concessional cap plus usable carry-forward */
+  superCapCents: number;
+  superCarryForwardCents: number;
   superCapRoomCents: number;
   currentAge: number | null;
   targetRetirementAge: number | null;
   // Step 7: Summary
   priorityRecommendationsSummary: { title: string; priority: string }[];
+  taxDeductions: TaxDeductionsSummary;
 }
 
 export interface PlanClientProps {
@@ -95,6 +108,8 @@ export interface PlanClientProps {
   currentAge: number | null;
   savingsRate: number;
   fireGameplan: FireGameplan | null;
+  /** Life milestone changes the FIRE result was projected with */
+  fireAdjustments: ProjectionAdjustment[];
   // New Plan tab props
   healthMetrics: HealthMetric[];
   priorityRecommendations: PriorityRecommendation[];
@@ -103,6 +118,15 @@ export interface PlanClientProps {
   currentCheckup: AnnualCheckupData | null;
   checkupReviewData: CheckupReviewData;
   partnershipId: string;
+  // Debts tab
+  debts: DebtRecord[];
+  debtAccounts: DebtAccountOption[];
+  // Super tab
+  superData: SuperPanelData;
+  // Scenarios tab
+  scenarioData: ScenariosPanelData;
+  // Milestones tab
+  milestoneData: MilestonesPanelData;
 }
 
 // ============================================================================
@@ -119,6 +143,7 @@ export function PlanClient({
   currentAge,
   savingsRate,
   fireGameplan,
+  fireAdjustments,
   healthMetrics,
   priorityRecommendations,
   timelineGoals,
@@ -126,6 +151,11 @@ export function PlanClient({
   currentCheckup,
   checkupReviewData,
   partnershipId,
+  debts,
+  debtAccounts,
+  superData,
+  scenarioData,
+  milestoneData,
 }: PlanClientProps) {
   return (
     <div
@@ -145,6 +175,22 @@ export function PlanClient({
               <Flame className="w-4 h-4" aria-hidden="true" />
               FIRE
             </TabsTrigger>
+            <TabsTrigger value="debts" className="cursor-pointer">
+              <CreditCard className="w-4 h-4" aria-hidden="true" />
+              Debts
+            </TabsTrigger>
+            <TabsTrigger value="super" className="cursor-pointer">
+              <Landmark className="w-4 h-4" aria-hidden="true" />
+              Super
+            </TabsTrigger>
+            <TabsTrigger value="scenarios" className="cursor-pointer">
+              <Split className="w-4 h-4" aria-hidden="true" />
+              Scenarios
+            </TabsTrigger>
+            <TabsTrigger value="milestones" className="cursor-pointer">
+              <Milestone className="w-4 h-4" aria-hidden="true" />
+              Milestones
+            </TabsTrigger>
           </TabsList>
 
           {/* ============================================================ */}
@@ -245,6 +291,13 @@ export function PlanClient({
                     partnershipId={partnershipId}
                   />
                 </motion.div>
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.09 }}
+                >
+                  <TaxDeductionsCard summary={checkupReviewData.taxDeductions} />
+                </motion.div>
               </div>
             </div>
           </TabsContent>
@@ -268,6 +321,7 @@ export function PlanClient({
                 currentAge={currentAge}
                 savingsRate={savingsRate}
                 gameplan={fireGameplan}
+                adjustments={fireAdjustments}
               />
             ) : (
               <div className="max-w-2xl mx-auto mt-8">
@@ -275,6 +329,34 @@ export function PlanClient({
               </div>
             )}
           </TabsContent>
+
+          {/* ============================================================ */}
+          {/* DEBTS TAB                                                     */}
+          {/* ============================================================ */}
+          <TabsContent value="debts">
+            <DebtsPanel debts={debts} accounts={debtAccounts} />
+          </TabsContent>
+
+          {/* ============================================================ */}
+          {/* SUPER TAB                                                     */}
+          {/* ============================================================ */}
+          <TabsContent value="super">
+            <SuperPanel data={superData} />
+          </TabsContent>
+
+          {/* ============================================================ */}
+          {/* SCENARIOS TAB                                                 */}
+          {/* ============================================================ */}
+          <TabsContent value="scenarios">
+            <ScenariosPanel data={scenarioData} />
+          </TabsContent>
+
+          {/* ============================================================ */}
+          {/* MILESTONES TAB                                                */}
+          {/* ============================================================ */}
+          <TabsContent value="milestones">
+            <MilestonesPanel data={milestoneData} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
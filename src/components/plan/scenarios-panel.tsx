@@ -0,0 +1,857 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { gooeyToast as toast } from "goey-toast";
+import {
+  Baby,
+  Briefcase,
+  Clock,
+  Home,
+  Loader2,
+  Pencil,
+  Plus,
+  Split,
+  Trash2,
+  TrendingDown,
+  Wallet,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createScenario, deleteScenario, updateScenario } from "@/app/actions/scenarios";
+import {
+  evaluateScenario,
+  SCENARIO_CHANGE_TYPE_LABELS,
+  type PlanScenario,
+  type ScenarioBase,
+  type ScenarioChange,
+  type ScenarioChangeType,
+  type ScenarioOutcome,
+} from "@/lib/scenario-planner";
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat("en-AU", {
+    style: "currency",
+    currency: "AUD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100);
+
+const formatSigned = (cents: number) =>
+  `${cents >= 0 ? "+" : "−"}${formatCurrency(Math.abs(cents))}`;
+
+const formatMonthYear = (date: Date | null) =>
+  date
+    ? date.toLocaleDateString("en-AU", { month: "short", year: "numeric" })
+    : "Not reached";
+
+function describeTiming(startsIn: number, months: number | null): string {
+  const start = startsIn > 0 ? ` from month ${startsIn + 1}` : "";
+  const length = months !== null ? ` for ${months} mo${months === 1 ? "" : "s"}` : "";
+  return start + length;
+}
+
+function describeChange(change: ScenarioChange): string {
+  switch (change.type) {
+    case "income":
+      return `${formatSigned(change.monthly_cents)}/mo income${describeTiming(change.starts_in_months, change.months)}`;
+    case "work_hours":
+      return `${change.percent}% of ${change.monthly_income_cents !== null ? formatCurrency(change.monthly_income_cents) + "/mo" : "income"}${describeTiming(change.starts_in_months, change.months)}`;
+    case "expense":
+      return `${formatSigned(change.monthly_cents)}/mo spending${describeTiming(change.starts_in_months, change.months)}`;
+    case "goal":
+      return `Save ${formatCurrency(change.target_cents)}${change.deadline ? ` by ${formatMonthYear(new Date(`${change.deadline}T00:00:00`))}` : ""}`;
+    case "sell_investment":
+      return `Sell ${formatCurrency(change.amount_cents)} of investments`;
+  }
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScenariosPanelData {
+  scenarios: PlanScenario[];
+  base: ScenarioBase;
+}
+
+/** A change as edited in the form: amounts in dollars, numbers as strings */
+interface ChangeFormState {
+  key: number;
+  type: ScenarioChangeType;
+  label: string;
+  amount: string;
+  percent: string;
+  incomeAffected: string;
+  startsIn: string;
+  months: string;
+  deadline: string;
+}
+
+interface ScenarioFormState {
+  name: string;
+  notes: string;
+  changes: ChangeFormState[];
+}
+
+let nextChangeKey = 0;
+
+function blankChange(type: ScenarioChangeType, label: string, overrides?: Partial<ChangeFormState>): ChangeFormState {
+  return {
+    key: ++nextChangeKey,
+    type,
+    label,
+    amount: "",
+    percent: "",
+    incomeAffected: "",
+    startsIn: "0",
+    months: "",
+    deadline: "",
+    ...overrides,
+  };
+}
+
+function toFormChange(change: ScenarioChange): ChangeFormState {
+  switch (change.type) {
+    case "income":
+    case "expense":
+      return blankChange(change.type, change.label, {
+        amount: (change.monthly_cents / 100).toString(),
+        startsIn: String(change.starts_in_months),
+        months: change.months !== null ? String(change.months) : "",
+      });
+    case "work_hours":
+      return blankChange("work_hours", change.label, {
+        percent: String(change.percent),
+        incomeAffected: change.monthly_income_cents !== null ? (change.monthly_income_cents / 100).toString() : "",
+        startsIn: String(change.starts_in_months),
+        months: change.months !== null ? String(change.months) : "",
+      });
+    case "goal":
+      return blankChange("goal", change.label, {
+        amount: (change.target_cents / 100).toString(),
+        deadline: change.deadline ?? "",
+      });
+    case "sell_investment":
+      return blankChange("sell_investment", change.label, {
+        amount: (change.amount_cents / 100).toString(),
+      });
+  }
+}
+
+/** Form change to a ScenarioChange, or an error message */
+function fromFormChange(form: ChangeFormState): ScenarioChange | string {
+  const label = form.label.trim();
+  if (!label) return "Give every change a name";
+  const amount = parseFloat(form.amount);
+  const startsIn = parseInt(form.startsIn || "0", 10);
+  const months = form.months.trim() ? parseInt(form.months, 10) : null;
+  if (isNaN(startsIn) || startsIn < 0) return `"${label}": start must be 0 or more months away`;
+  if (months !== null && (isNaN(months) || months < 1)) return `"${label}": leave the length blank for ongoing, or enter at least 1 month`;
+
+  switch (form.type) {
+    case "income":
+    case "expense":
+      if (isNaN(amount) || amount === 0) return `"${label}": enter a monthly amount (negative for a decrease)`;
+      return {
+        type: form.type,
+        label,
+        monthly_cents: Math.round(amount * 100),
+        starts_in_months: startsIn,
+        months,
+      };
+    case "work_hours": {
+      const percent = parseFloat(form.percent);
+      const affected = form.incomeAffected.trim() ? parseFloat(form.incomeAffected) : null;
+      if (isNaN(percent) || percent < 0 || percent > 200) return `"${label}": enter hours as a percentage between 0 and 200`;
+      if (affected !== null && (isNaN(affected) || affected < 0)) return `"${label}": enter the monthly income affected`;
+      return {
+        type: "work_hours",
+        label,
+        percent,
+        monthly_income_cents: affected !== null ? Math.round(affected * 100) : null,
+        starts_in_months: startsIn,
+        months,
+      };
+    }
+    case "goal":
+      if (isNaN(amount) || amount <= 0) return `"${label}": enter the amount to save`;
+      return {
+        type: "goal",
+        label,
+        target_cents: Math.round(amount * 100),
+        deadline: form.deadline || null,
+      };
+    case "sell_investment":
+      if (isNaN(amount) || amount <= 0) return `"${label}": enter the amount to sell`;
+      return { type: "sell_investment", label, amount_cents: Math.round(amount * 100) };
+  }
+}
+
+const emptyForm: ScenarioFormState = { name: "", notes: "", changes: [] };
+
+// ============================================================================
+// Component
+// ============================================================================
+
+interface ScenariosPanelProps {
+  data: ScenariosPanelData;
+}
+
+export function ScenariosPanel({ data }: ScenariosPanelProps) {
+  const router = useRouter();
+  const { scenarios, base } = data;
+  const [editing, setEditing] = useState<PlanScenario | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<ScenarioFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<PlanScenario | null>(null);
+
+  const current = useMemo(() => evaluateScenario(base, []), [base]);
+  const outcomes = useMemo(
+    () => scenarios.map((s) => ({ scenario: s, outcome: evaluateScenario(base, s.changes) })),
+    [base, scenarios]
+  );
+
+  // Presets fill in sensible starting values; everything stays editable
+  const presets: { label: string; icon: typeof Briefcase; make: () => ChangeFormState[] }[] = [
+    {
+      label: "New job",
+      icon: Briefcase,
+      make: () => [blankChange("income", "New job", { amount: "1000" })],
+    },
+    {
+      label: "Part-time",
+      icon: Clock,
+      make: () => [blankChange("work_hours", "Four days a week", { percent: "80" })],
+    },
+    {
+      label: "Baby",
+      icon: Baby,
+      make: () => [
+        blankChange("expense", "Baby costs", { amount: "1200" }),
+        blankChange("income", "Parental leave", {
+          amount: String(-Math.round(base.monthlyIncomeCents / 200)),
+          months: "12",
+        }),
+      ],
+    },
+    {
+      label: "House deposit",
+      icon: Home,
+      make: () => [blankChange("goal", "House deposit", { amount: "100000" })],
+    },
+    {
+      label: "Sell investment",
+      icon: TrendingDown,
+      make: () => [blankChange("sell_investment", "Sell investments", { amount: "20000" })],
+    },
+    {
+      label: "Spending",
+      icon: Wallet,
+      make: () => [blankChange("expense", "Spending change", { amount: "-200" })],
+    },
+  ];
+
+  const openAdd = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setError(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (scenario: PlanScenario) => {
+    setEditing(scenario);
+    setForm({
+      name: scenario.name,
+      notes: scenario.notes || "",
+      changes: scenario.changes.map(toFormChange),
+    });
+    setError(null);
+    setFormOpen(true);
+  };
+
+  const updateChange = (key: number, patch: Partial<ChangeFormState>) =>
+    setForm((f) => ({
+      ...f,
+      changes: f.changes.map((c) => (c.key === key ? { ...c, ...patch } : c)),
+    }));
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return setError("Give this scenario a name");
+    if (form.changes.length === 0) return setError("Add at least one change to the current plan");
+
+    const changes: ScenarioChange[] = [];
+    for (const c of form.changes) {
+      const parsed = fromFormChange(c);
+      if (typeof parsed === "string") return setError(parsed);
+      changes.push(parsed);
+    }
+
+    const input = {
+      name: form.name.trim(),
+      notes: form.notes.trim() || undefined,
+      changes,
+    };
+
+    setSaving(true);
+    setError(null);
+    const result = editing ? await updateScenario(editing.id, input) : await createScenario(input);
+    setSaving(false);
+
+    if ("error" in result && result.error) {
+      setError(result.error);
+      return;
+    }
+    toast.success(editing ? "Scenario updated" : "Scenario saved");
+    setFormOpen(false);
+    router.refresh();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setSaving(true);
+    const result = await deleteScenario(deleting.id);
+    setSaving(false);
+    if ("error" in result && result.error) {
+      toast.error(result.error);
+      return;
+    }
+    toast.success("Scenario deleted");
+    setDeleting(null);
+    router.refresh();
+  };
+
+  const columns: { key: string; name: string; outcome: ScenarioOutcome }[] = [
+    { key: "current", name: "Current plan", outcome: current },
+    ...outcomes.map(({ scenario, outcome }) => ({ key: scenario.id, name: scenario.name, outcome })),
+  ];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+      {/* ═══ LEFT COLUMN: side-by-side comparison ═══ */}
+      <div className="lg:col-span-2 space-y-4 md:space-y-6">
+        <div
+          className="border-0 shadow-sm rounded-2xl overflow-hidden"
+          style={{ backgroundColor: "var(--surface-elevated)" }}
+        >
+          <div className="px-5 py-3.5 border-b" style={{ borderColor: "var(--border)" }}>
+            <span
+              className="font-[family-name:var(--font-nunito)] text-base font-bold"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Compare Scenarios
+            </span>
+            <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+              Each scenario is your current plan with its changes applied
+            </p>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="px-5 py-2.5 text-left text-[10px] font-medium uppercase tracking-wider" style={{ color: "var(--text-tertiary)" }}>
+                    &nbsp;
+                  </th>
+                  {columns.map((col) => (
+                    <th
+                      key={col.key}
+                      className="px-4 py-2.5 text-right font-[family-name:var(--font-nunito)] font-bold whitespace-nowrap"
+                      style={{ color: "var(--text-primary)" }}
+                    >
+                      {col.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y" style={{ borderColor: "var(--border)" }}>
+                {base.fire && (
+                  <ComparisonRow label="FIRE age">
+                    {columns.map((col) => (
+                      <td key={col.key} className="px-4 py-2.5 text-right tabular-nums">
+                        <span style={{ color: "var(--text-primary)" }}>
+                          {col.outcome.fireAge ?? "—"}
+                        </span>
+                        {col.key !== "current" && (
+                          <Delta
+                            value={
+                              col.outcome.fireAge !== null && current.fireAge !== null
+                                ? col.outcome.fireAge - current.fireAge
+                                : null
+                            }
+                            unit="yr"
+                            lowerIsBetter
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </ComparisonRow>
+                )}
+                {base.fire && (
+                  <ComparisonRow label="FIRE number">
+                    {columns.map((col) => (
+                      <td key={col.key} className="px-4 py-2.5 text-right tabular-nums" style={{ color: "var(--text-secondary)" }}>
+                        {col.outcome.fireNumberCents !== null ? formatCurrency(col.outcome.fireNumberCents) : "—"}
+                      </td>
+                    ))}
+                  </ComparisonRow>
+                )}
+                <ComparisonRow label="Surplus this month">
+                  {columns.map((col) => (
+                    <td key={col.key} className="px-4 py-2.5 text-right tabular-nums">
+                      <SurplusValue cents={col.outcome.monthlySurplusCents} />
+                    </td>
+                  ))}
+                </ComparisonRow>
+                <ComparisonRow label="Ongoing surplus">
+                  {columns.map((col) => (
+                    <td key={col.key} className="px-4 py-2.5 text-right tabular-nums">
+                      <SurplusValue cents={col.outcome.ongoingSurplusCents} />
+                    </td>
+                  ))}
+                </ComparisonRow>
+                {base.goals.map((goal) => (
+                  <ComparisonRow key={goal.id} label={goal.name}>
+                    {columns.map((col) => (
+                      <GoalCell key={col.key} outcome={col.outcome.goals.find((g) => g.id === goal.id)} />
+                    ))}
+                  </ComparisonRow>
+                ))}
+                {outcomes.some(({ outcome }) => outcome.goals.some((g) => g.id === null)) && (
+                  <ComparisonRow label="New goals">
+                    {columns.map((col) => {
+                      const added = col.outcome.goals.filter((g) => g.id === null);
+                      return (
+                        <td key={col.key} className="px-4 py-2.5 text-right text-xs" style={{ color: "var(--text-secondary)" }}>
+                          {added.length === 0
+                            ? "—"
+                            : added.map((g, i) => (
+                                <p key={i} style={{ color: g.onTime === false ? "var(--pastel-coral-dark)" : undefined }}>
+                                  {g.name}: {formatMonthYear(g.completionDate)}
+                                </p>
+                              ))}
+                        </td>
+                      );
+                    })}
+                  </ComparisonRow>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {!base.fire && (
+            <p className="px-5 py-3 text-xs border-t" style={{ color: "var(--text-tertiary)", borderColor: "var(--border)" }}>
+              Set up FIRE to compare retirement dates too.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* ═══ RIGHT COLUMN: saved scenarios ═══ */}
+      <div
+        className="border-0 shadow-sm rounded-2xl overflow-hidden self-start"
+        style={{ backgroundColor: "var(--surface-elevated)" }}
+      >
+        <div
+          className="px-5 py-3.5 border-b flex items-center justify-between"
+          style={{ borderColor: "var(--border)" }}
+        >
+          <span
+            className="font-[family-name:var(--font-nunito)] text-base font-bold"
+            style={{ color: "var(--text-primary)" }}
+          >
+            Saved Scenarios
+          </span>
+          <Button
+            size="sm"
+            onClick={openAdd}
+            className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Scenario
+          </Button>
+        </div>
+
+        {scenarios.length === 0 ? (
+          <div className="px-5 py-10 text-center">
+            <Split className="h-8 w-8 mx-auto mb-2" style={{ color: "var(--text-tertiary)" }} />
+            <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+              Try a new job, a baby, going part-time or a house deposit — several at once — and
+              compare it with your current plan.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y" style={{ borderColor: "var(--border)" }}>
+            {scenarios.map((scenario) => (
+              <div key={scenario.id} className="px-5 py-3.5">
+                <div className="flex items-center gap-2">
+                  <p className="flex-1 text-sm font-semibold truncate" style={{ color: "var(--text-primary)" }}>
+                    {scenario.name}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => openEdit(scenario)}
+                    className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                    aria-label={`Edit ${scenario.name}`}
+                  >
+                    <Pencil className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDeleting(scenario)}
+                    className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                    aria-label={`Delete ${scenario.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                  </button>
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {scenario.changes.map((change, i) => (
+                    <li key={i} className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                      <span style={{ color: "var(--text-secondary)" }}>{change.label}</span> · {describeChange(change)}
+                    </li>
+                  ))}
+                </ul>
+                {scenario.notes && (
+                  <p className="text-xs mt-1 italic" style={{ color: "var(--text-tertiary)" }}>
+                    {scenario.notes}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="rounded-2xl max-h-[90vh] overflow-y-auto sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+              {editing ? "Edit Scenario" : "New Scenario"}
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Start from your current plan and change as many things as you like. Amounts are
+              monthly unless noted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {error && (
+              <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="scenarioName" className="font-[family-name:var(--font-nunito)] font-bold">
+                Name
+              </Label>
+              <Input
+                id="scenarioName"
+                placeholder="e.g. Four days a week from July"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="font-[family-name:var(--font-nunito)] font-bold">Changes</Label>
+              {form.changes.map((change) => (
+                <ChangeEditor
+                  key={change.key}
+                  change={change}
+                  onChange={(patch) => updateChange(change.key, patch)}
+                  onRemove={() =>
+                    setForm((f) => ({ ...f, changes: f.changes.filter((c) => c.key !== change.key) }))
+                  }
+                />
+              ))}
+              <div className="flex flex-wrap gap-2">
+                {presets.map((preset) => (
+                  <Button
+                    key={preset.label}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm((f) => ({ ...f, changes: [...f.changes, ...preset.make()] }))}
+                    className="rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                  >
+                    <preset.icon className="h-4 w-4 mr-1" />
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="scenarioNotes" className="font-[family-name:var(--font-nunito)] font-bold">
+                Notes
+              </Label>
+              <Input
+                id="scenarioNotes"
+                placeholder="Optional"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setFormOpen(false)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              {editing ? "Save Changes" : "Save Scenario"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold text-error">
+              Delete Scenario?
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Delete &quot;{deleting?.name}&quot;? Your actual plan isn&apos;t affected.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleting(null)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDelete}
+              disabled={saving}
+              variant="destructive"
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Delete Scenario
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// ============================================================================
+// Subcomponents
+// ============================================================================
+
+function ComparisonRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <tr>
+      <th
+        scope="row"
+        className="px-5 py-2.5 text-left text-xs font-medium whitespace-nowrap"
+        style={{ color: "var(--text-secondary)" }}
+      >
+        {label}
+      </th>
+      {children}
+    </tr>
+  );
+}
+
+function Delta({ value, unit, lowerIsBetter }: { value: number | null; unit: string; lowerIsBetter?: boolean }) {
+  if (value === null || value === 0) return null;
+  const better = lowerIsBetter ? value < 0 : value > 0;
+  return (
+    <span
+      className="ml-1.5 text-xs"
+      style={{ color: better ? "var(--pastel-mint-dark)" : "var(--pastel-coral-dark)" }}
+    >
+      {value > 0 ? "+" : "−"}
+      {Math.abs(value)} {unit}
+    </span>
+  );
+}
+
+function SurplusValue({ cents }: { cents: number }) {
+  return (
+    <span style={{ color: cents < 0 ? "var(--pastel-coral-dark)" : "var(--text-primary)" }}>
+      {formatCurrency(cents)}
+    </span>
+  );
+}
+
+function GoalCell({ outcome }: { outcome: ScenarioOutcome["goals"][number] | undefined }) {
+  return (
+    <td
+      className="px-4 py-2.5 text-right tabular-nums whitespace-nowrap"
+      style={{
+        color: outcome?.onTime === false ? "var(--pastel-coral-dark)" : "var(--text-primary)",
+      }}
+    >
+      {outcome ? formatMonthYear(outcome.completionDate) : "—"}
+    </td>
+  );
+}
+
+const fieldClass = "h-10 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]";
+
+function ChangeEditor({
+  change,
+  onChange,
+  onRemove,
+}: {
+  change: ChangeFormState;
+  onChange: (patch: Partial<ChangeFormState>) => void;
+  onRemove: () => void;
+}) {
+  const timed = change.type === "income" || change.type === "expense" || change.type === "work_hours";
+
+  return (
+    <div className="p-3 rounded-xl space-y-2" style={{ backgroundColor: "var(--surface)" }}>
+      <div className="flex items-center gap-2">
+        <span
+          className="text-[10px] font-medium uppercase tracking-wider whitespace-nowrap"
+          style={{ color: "var(--text-tertiary)" }}
+        >
+          {SCENARIO_CHANGE_TYPE_LABELS[change.type]}
+        </span>
+        <Input
+          aria-label="Change name"
+          value={change.label}
+          onChange={(e) => onChange({ label: e.target.value })}
+          className={fieldClass}
+        />
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+          aria-label={`Remove ${change.label || "change"}`}
+        >
+          <X className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(change.type === "income" || change.type === "expense") && (
+          <LabeledInput
+            label="Per month ($, − to reduce)"
+            value={change.amount}
+            onChange={(amount) => onChange({ amount })}
+          />
+        )}
+        {change.type === "work_hours" && (
+          <>
+            <LabeledInput
+              label="Hours (% of now)"
+              value={change.percent}
+              onChange={(percent) => onChange({ percent })}
+            />
+            <LabeledInput
+              label="Income affected ($/mo)"
+              placeholder="All income"
+              value={change.incomeAffected}
+              onChange={(incomeAffected) => onChange({ incomeAffected })}
+            />
+          </>
+        )}
+        {change.type === "goal" && (
+          <>
+            <LabeledInput
+              label="Amount to save ($)"
+              value={change.amount}
+              onChange={(amount) => onChange({ amount })}
+            />
+            <LabeledInput
+              label="Deadline"
+              type="date"
+              value={change.deadline}
+              onChange={(deadline) => onChange({ deadline })}
+            />
+          </>
+        )}
+        {change.type === "sell_investment" && (
+          <LabeledInput
+            label="Amount to sell ($)"
+            value={change.amount}
+            onChange={(amount) => onChange({ amount })}
+          />
+        )}
+        {timed && (
+          <>
+            <LabeledInput
+              label="Starts in (months)"
+              value={change.startsIn}
+              onChange={(startsIn) => onChange({ startsIn })}
+            />
+            <LabeledInput
+              label="Lasts (months)"
+              placeholder="Ongoing"
+              value={change.months}
+              onChange={(months) => onChange({ months })}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function LabeledInput({
+  label,
+  value,
+  onChange,
+  placeholder,
+  type = "number",
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  type?: "number" | "date";
+}) {
+  return (
+    <label className="space-y-1 block">
+      <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+        {label}
+      </span>
+      <Input
+        type={type}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={fieldClass}
+      />
+    </label>
+  );
+}
@@ -0,0 +1,885 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { gooeyToast as toast } from "goey-toast";
+import { Landmark, Loader2, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  addSuperContribution,
+  createSuperAccount,
+  deleteSuperAccount,
+  deleteSuperContribution,
+  recordSuperBalance,
+  updateSuperAccount,
+} from "@/app/actions/super";
+import {
+  SUPER_CONTRIBUTION_TYPES,
+  SUPER_CONTRIBUTION_TYPE_LABELS,
+  type SuperAccountRecord,
+  type SuperContributionType,
+  type SuperOwnerSummary,
+} from "@/lib/super-calculations";
+import { formatFinancialYear } from "@/lib/tax-deductions";
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat("en-AU", {
+    style: "currency",
+    currency: "AUD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-AU", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SuperOwnerData extends SuperOwnerSummary {
+  name: string;
+  isCurrentUser: boolean;
+}
+
+export interface SuperPanelData {
+  financialYear: number;
+  /** The current user first, then their partner if they have super accounts */
+  owners: SuperOwnerData[];
+}
+
+interface AccountFormState {
+  fundName: string;
+  balance: string;
+  balanceDate: string;
+  notes: string;
+}
+
+interface BalanceFormState {
+  balance: string;
+  recordedOn: string;
+}
+
+interface ContributionFormState {
+  accountId: string;
+  type: SuperContributionType;
+  amount: string;
+  date: string;
+  notes: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+interface SuperPanelProps {
+  data: SuperPanelData;
+}
+
+export function SuperPanel({ data }: SuperPanelProps) {
+  const router = useRouter();
+  const own = data.owners.find((o) => o.isCurrentUser);
+
+  const [accountFormOpen, setAccountFormOpen] = useState(false);
+  const [editing, setEditing] = useState<SuperAccountRecord | null>(null);
+  const [accountForm, setAccountForm] = useState<AccountFormState>({
+    fundName: "",
+    balance: "",
+    balanceDate: todayIso(),
+    notes: "",
+  });
+  const [balanceAccount, setBalanceAccount] = useState<SuperAccountRecord | null>(null);
+  const [balanceForm, setBalanceForm] = useState<BalanceFormState>({ balance: "", recordedOn: todayIso() });
+  const [contributionOpen, setContributionOpen] = useState(false);
+  const [contributionForm, setContributionForm] = useState<ContributionFormState>({
+    accountId: "",
+    type: "employer",
+    amount: "",
+    date: todayIso(),
+    notes: "",
+  });
+  const [deleting, setDeleting] = useState<SuperAccountRecord | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openAdd = () => {
+    setEditing(null);
+    setAccountForm({ fundName: "", balance: "", balanceDate: todayIso(), notes: "" });
+    setError(null);
+    setAccountFormOpen(true);
+  };
+
+  const openEdit = (account: SuperAccountRecord) => {
+    setEditing(account);
+    setAccountForm({
+      fundName: account.fund_name,
+      balance: (account.balance_cents / 100).toString(),
+      balanceDate: account.balance_date,
+      notes: account.notes || "",
+    });
+    setError(null);
+    setAccountFormOpen(true);
+  };
+
+  const openBalance = (account: SuperAccountRecord) => {
+    setBalanceAccount(account);
+    setBalanceForm({ balance: (account.balance_cents / 100).toString(), recordedOn: todayIso() });
+    setError(null);
+  };
+
+  const openContribution = () => {
+    setContributionForm({
+      accountId: own?.accounts[0]?.id || "",
+      type: "employer",
+      amount: "",
+      date: todayIso(),
+      notes: "",
+    });
+    setError(null);
+    setContributionOpen(true);
+  };
+
+  /** Run an action, then close the dialog and refresh on success */
+  const submit = async (
+    action: () => Promise<{ error?: string } | { success: boolean }>,
+    message: string,
+    close: () => void
+  ) => {
+    setSaving(true);
+    setError(null);
+    const result = await action();
+    setSaving(false);
+    if ("error" in result && result.error) {
+      setError(result.error);
+      return;
+    }
+    toast.success(message);
+    close();
+    router.refresh();
+  };
+
+  const handleSaveAccount = () => {
+    if (!accountForm.fundName.trim()) return setError("Enter the fund name");
+    const notes = accountForm.notes.trim() || undefined;
+    if (editing) {
+      return submit(
+        () => updateSuperAccount(editing.id, { fund_name: accountForm.fundName.trim(), notes }),
+        "Super fund updated",
+        () => setAccountFormOpen(false)
+      );
+    }
+    const balance = parseFloat(accountForm.balance);
+    if (isNaN(balance) || balance < 0) return setError("Enter the current balance");
+    return submit(
+      () =>
+        createSuperAccount({
+          fund_name: accountForm.fundName.trim(),
+          balance_cents: Math.round(balance * 100),
+          balance_date: accountForm.balanceDate,
+          notes,
+        }),
+      "Super fund added",
+      () => setAccountFormOpen(false)
+    );
+  };
+
+  const handleSaveBalance = () => {
+    if (!balanceAccount) return;
+    const balance = parseFloat(balanceForm.balance);
+    if (isNaN(balance) || balance < 0) return setError("Enter the balance");
+    return submit(
+      () =>
+        recordSuperBalance(balanceAccount.id, {
+          recorded_on: balanceForm.recordedOn,
+          balance_cents: Math.round(balance * 100),
+        }),
+      "Balance recorded",
+      () => setBalanceAccount(null)
+    );
+  };
+
+  const handleSaveContribution = () => {
+    const amount = parseFloat(contributionForm.amount);
+    if (!contributionForm.accountId) return setError("Choose a fund");
+    if (isNaN(amount) || amount <= 0) return setError("Enter the contribution amount");
+    return submit(
+      () =>
+        addSuperContribution(contributionForm.accountId, {
+          contribution_date: contributionForm.date,
+          amount_cents: Math.round(amount * 100),
+          contribution_type: contributionForm.type,
+          notes: contributionForm.notes.trim() || undefined,
+        }),
+      "Contribution added",
+      () => setContributionOpen(false)
+    );
+  };
+
+  const handleDeleteAccount = () => {
+    if (!deleting) return;
+    return submit(() => deleteSuperAccount(deleting.id), "Super fund deleted", () => setDeleting(null));
+  };
+
+  const handleDeleteContribution = async (contributionId: string) => {
+    const result = await deleteSuperContribution(contributionId);
+    if ("error" in result && result.error) {
+      toast.error(result.error);
+      return;
+    }
+    toast.success("Contribution deleted");
+    router.refresh();
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+      {/* ═══ LEFT COLUMN: funds and contributions per person ═══ */}
+      <div className="lg:col-span-2 space-y-4 md:space-y-6">
+        {data.owners.map((owner) => (
+          <div
+            key={owner.userId}
+            className="border-0 shadow-sm rounded-2xl overflow-hidden"
+            style={{ backgroundColor: "var(--surface-elevated)" }}
+          >
+            <div
+              className="px-5 py-3.5 border-b flex items-center justify-between gap-2"
+              style={{ borderColor: "var(--border)" }}
+            >
+              <div>
+                <span
+                  className="font-[family-name:var(--font-nunito)] text-base font-bold"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  {owner.isCurrentUser ? "Your Super" : `${owner.name}'s Super`}
+                </span>
+                {owner.accounts.length > 0 && (
+                  <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                    {formatCurrency(owner.balanceCents)} across {owner.accounts.length} fund
+                    {owner.accounts.length === 1 ? "" : "s"}
+                  </p>
+                )}
+              </div>
+              {owner.isCurrentUser && (
+                <div className="flex gap-2">
+                  {owner.accounts.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={openContribution}
+                      className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Contribution
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={openAdd}
+                    className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Fund
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {owner.accounts.length === 0 ? (
+              <div className="px-5 py-10 text-center">
+                <Landmark className="h-8 w-8 mx-auto mb-2" style={{ color: "var(--text-tertiary)" }} />
+                <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                  Add your super fund to track its balance, contributions and how much
+                  concessional cap you have left.
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="divide-y" style={{ borderColor: "var(--border)" }}>
+                  {owner.accounts.map((account) => {
+                    const previous = owner.history
+                      .filter((h) => h.super_account_id === account.id && h.recorded_on < account.balance_date)
+                      .at(-1);
+                    const change = previous ? account.balance_cents - previous.balance_cents : null;
+                    return (
+                      <div key={account.id} className="px-5 py-3.5 flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-semibold truncate" style={{ color: "var(--text-primary)" }}>
+                            {account.fund_name}
+                          </p>
+                          <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                            As at {formatDate(account.balance_date)}
+                            {change !== null && previous &&
+                              ` · ${change >= 0 ? "+" : "−"}${formatCurrency(Math.abs(change))} since ${formatDate(previous.recorded_on)}`}
+                          </p>
+                        </div>
+                        <p
+                          className="font-[family-name:var(--font-nunito)] text-base font-bold tabular-nums"
+                          style={{ color: "var(--text-primary)" }}
+                        >
+                          {formatCurrency(account.balance_cents)}
+                        </p>
+                        {owner.isCurrentUser && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => openBalance(account)}
+                              className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                              aria-label={`Update ${account.fund_name} balance`}
+                            >
+                              <RefreshCw className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => openEdit(account)}
+                              className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                              aria-label={`Edit ${account.fund_name}`}
+                            >
+                              <Pencil className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setDeleting(account)}
+                              className="p-1.5 rounded-lg hover:bg-secondary cursor-pointer"
+                              aria-label={`Delete ${account.fund_name}`}
+                            >
+                              <Trash2 className="h-4 w-4" style={{ color: "var(--text-tertiary)" }} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="px-5 py-3.5 border-t" style={{ borderColor: "var(--border)" }}>
+                  <p
+                    className="text-[10px] font-medium uppercase tracking-wider mb-2"
+                    style={{ color: "var(--text-tertiary)" }}
+                  >
+                    Recent contributions
+                  </p>
+                  {owner.recentContributions.length === 0 ? (
+                    <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+                      No contributions entered for {formatFinancialYear(data.financialYear - 1)} or{" "}
+                      {formatFinancialYear(data.financialYear)} yet.
+                    </p>
+                  ) : (
+                    <ul className="space-y-1.5">
+                      {owner.recentContributions.slice(0, 12).map((c) => (
+                        <li key={c.id} className="flex items-center gap-2 text-xs">
+                          <span className="w-24 tabular-nums" style={{ color: "var(--text-tertiary)" }}>
+                            {formatDate(c.contribution_date)}
+                          </span>
+                          <span className="flex-1 truncate" style={{ color: "var(--text-secondary)" }}>
+                            {SUPER_CONTRIBUTION_TYPE_LABELS[c.contribution_type]}
+                            {owner.accounts.length > 1 &&
+                              ` · ${owner.accounts.find((a) => a.id === c.super_account_id)?.fund_name ?? ""}`}
+                          </span>
+                          <span className="font-medium tabular-nums" style={{ color: "var(--text-primary)" }}>
+                            {formatCurrency(c.amount_cents)}
+                          </span>
+                          {owner.isCurrentUser && (
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteContribution(c.id)}
+                              className="p-1 rounded-lg hover:bg-secondary cursor-pointer"
+                              aria-label="Delete contribution"
+                            >
+                              <Trash2 className="h-3.5 w-3.5" style={{ color: "var(--text-tertiary)" }} />
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* ═══ RIGHT COLUMN: contribution caps per person ═══ */}
+      <div className="space-y-4 md:space-y-6">
+        {data.owners
+          .filter((owner) => owner.accounts.length > 0)
+          .map((owner) => (
+            <CapCard key={owner.userId} owner={owner} financialYear={data.financialYear} />
+          ))}
+      </div>
+
+      {/* Add / Edit Fund Dialog */}
+      <Dialog open={accountFormOpen} onOpenChange={setAccountFormOpen}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+              {editing ? "Edit Super Fund" : "Add Super Fund"}
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Your partner can see your super but only you can change it
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {error && (
+              <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="superFundName" className="font-[family-name:var(--font-nunito)] font-bold">
+                Fund name
+              </Label>
+              <Input
+                id="superFundName"
+                placeholder="e.g. AustralianSuper"
+                value={accountForm.fundName}
+                onChange={(e) => setAccountForm({ ...accountForm, fundName: e.target.value })}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+
+            {!editing && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="superBalance" className="font-[family-name:var(--font-nunito)] font-bold">
+                    Balance
+                  </Label>
+                  <Input
+                    id="superBalance"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    value={accountForm.balance}
+                    onChange={(e) => setAccountForm({ ...accountForm, balance: e.target.value })}
+                    className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="superBalanceDate" className="font-[family-name:var(--font-nunito)] font-bold">
+                    As at
+                  </Label>
+                  <Input
+                    id="superBalanceDate"
+                    type="date"
+                    value={accountForm.balanceDate}
+                    onChange={(e) => setAccountForm({ ...accountForm, balanceDate: e.target.value })}
+                    className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="superNotes" className="font-[family-name:var(--font-nunito)] font-bold">
+                Notes
+              </Label>
+              <Input
+                id="superNotes"
+                placeholder="Optional"
+                value={accountForm.notes}
+                onChange={(e) => setAccountForm({ ...accountForm, notes: e.target.value })}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setAccountFormOpen(false)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveAccount}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              {editing ? "Save Changes" : "Add Fund"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Update Balance Dialog */}
+      <Dialog open={balanceAccount !== null} onOpenChange={(open) => !open && setBalanceAccount(null)}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+              Update Balance
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Record {balanceAccount?.fund_name}&apos;s balance from your latest statement. Earlier
+              dates are kept as history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {error && (
+              <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+                {error}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="superNewBalance" className="font-[family-name:var(--font-nunito)] font-bold">
+                  Balance
+                </Label>
+                <Input
+                  id="superNewBalance"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={balanceForm.balance}
+                  onChange={(e) => setBalanceForm({ ...balanceForm, balance: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="superRecordedOn" className="font-[family-name:var(--font-nunito)] font-bold">
+                  As at
+                </Label>
+                <Input
+                  id="superRecordedOn"
+                  type="date"
+                  value={balanceForm.recordedOn}
+                  onChange={(e) => setBalanceForm({ ...balanceForm, recordedOn: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setBalanceAccount(null)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveBalance}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Save Balance
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Contribution Dialog */}
+      <Dialog open={contributionOpen} onOpenChange={setContributionOpen}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold">
+              Add Contribution
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Employer, salary sacrifice and claimed personal contributions count towards your
+              concessional cap
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {error && (
+              <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold">Fund</Label>
+                <Select
+                  value={contributionForm.accountId}
+                  onValueChange={(v) => setContributionForm({ ...contributionForm, accountId: v })}
+                >
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(own?.accounts || []).map((a) => (
+                      <SelectItem key={a.id} value={a.id}>
+                        {a.fund_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="font-[family-name:var(--font-nunito)] font-bold">Type</Label>
+                <Select
+                  value={contributionForm.type}
+                  onValueChange={(v) => setContributionForm({ ...contributionForm, type: v as SuperContributionType })}
+                >
+                  <SelectTrigger className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPER_CONTRIBUTION_TYPES.map((t) => (
+                      <SelectItem key={t} value={t}>
+                        {SUPER_CONTRIBUTION_TYPE_LABELS[t]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="contributionAmount" className="font-[family-name:var(--font-nunito)] font-bold">
+                  Amount
+                </Label>
+                <Input
+                  id="contributionAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={contributionForm.amount}
+                  onChange={(e) => setContributionForm({ ...contributionForm, amount: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contributionDate" className="font-[family-name:var(--font-nunito)] font-bold">
+                  Date
+                </Label>
+                <Input
+                  id="contributionDate"
+                  type="date"
+                  value={contributionForm.date}
+                  onChange={(e) => setContributionForm({ ...contributionForm, date: e.target.value })}
+                  className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="contributionNotes" className="font-[family-name:var(--font-nunito)] font-bold">
+                Notes
+              </Label>
+              <Input
+                id="contributionNotes"
+                placeholder="Optional"
+                value={contributionForm.notes}
+                onChange={(e) => setContributionForm({ ...contributionForm, notes: e.target.value })}
+                className="h-12 rounded-xl border-2 font-[family-name:var(--font-dm-sans)]"
+              />
+            </div>
+
+            {contributionForm.type === "personal_deductible" && (
+              <p className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+                Remember to send your fund a notice of intent to claim before you lodge your tax
+                return.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setContributionOpen(false)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveContribution}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold bg-brand-coral hover:bg-brand-coral-dark"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Add Contribution
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-[family-name:var(--font-nunito)] text-2xl font-bold text-error">
+              Delete Super Fund?
+            </DialogTitle>
+            <DialogDescription className="font-[family-name:var(--font-dm-sans)]">
+              Remove &quot;{deleting?.fund_name}&quot; along with its balance history and
+              contributions? This can&apos;t be undone.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="p-3 text-sm bg-error-light border-2 border-error-border rounded-xl text-error-text">
+              {error}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleting(null)}
+              disabled={saving}
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDeleteAccount}
+              disabled={saving}
+              variant="destructive"
+              className="rounded-xl font-[family-name:var(--font-nunito)] font-bold"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Delete Fund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// ============================================================================
+// Subcomponents
+// ============================================================================
+
+function CapCard({ owner, financialYear }: { owner: SuperOwnerData; financialYear: number }) {
+  const { capStatus, thisYear } = owner;
+  const capPercent = capStatus.availableCents > 0
+    ? Math.min(100, Math.round((capStatus.usedCents / capStatus.availableCents) * 100))
+    : 0;
+  const nonConcessionalPercent = owner.nonConcessionalCapCents > 0
+    ? Math.min(100, Math.round((thisYear.nonConcessionalCents / owner.nonConcessionalCapCents) * 100))
+    : 0;
+
+  return (
+    <div
+      className="border-0 shadow-sm rounded-2xl p-5 space-y-4"
+      style={{ backgroundColor: "var(--surface-elevated)" }}
+    >
+      <div className="flex items-baseline justify-between">
+        <p
+          className="font-[family-name:var(--font-nunito)] text-base font-bold"
+          style={{ color: "var(--text-primary)" }}
+        >
+          {owner.isCurrentUser ? "Your Caps" : `${owner.name}'s Caps`}
+        </p>
+        <span className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+          {formatFinancialYear(financialYear)}
+        </span>
+      </div>
+
+      <div>
+        <div className="flex items-baseline justify-between mb-1">
+          <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+            Concessional
+          </span>
+          <span className="text-xs font-medium tabular-nums" style={{ color: "var(--text-primary)" }}>
+            {formatCurrency(capStatus.usedCents)} / {formatCurrency(capStatus.availableCents)}
+          </span>
+        </div>
+        <CapBar percent={capPercent} over={capStatus.excessCents > 0} />
+        <p className="text-[10px] mt-1" style={{ color: "var(--text-tertiary)" }}>
+          {formatCurrency(capStatus.capCents)} cap
+          {capStatus.carryForwardEligible && capStatus.carryForwardCents > 0 &&
+            ` + ${formatCurrency(capStatus.carryForwardCents)} carried forward`}
+        </p>
+        {capStatus.excessCents > 0 && (
+          <p className="text-xs mt-1" style={{ color: "var(--pastel-coral-dark)" }}>
+            {formatCurrency(capStatus.excessCents)} over the cap — excess is taxed at your marginal rate
+          </p>
+        )}
+      </div>
+
+      {capStatus.carryForwardCents > 0 && (
+        <div>
+          <p
+            className="text-[10px] font-medium uppercase tracking-wider mb-1"
+            style={{ color: "var(--text-tertiary)" }}
+          >
+            Unused cap
+          </p>
+          <ul className="space-y-1">
+            {capStatus.unusedByYear.map((u) => (
+              <li key={u.financialYear} className="flex justify-between text-xs" style={{ color: "var(--text-secondary)" }}>
+                <span>{formatFinancialYear(u.financialYear)}</span>
+                <span className="tabular-nums">{formatCurrency(u.unusedCents)}</span>
+              </li>
+            ))}
+          </ul>
+          {!capStatus.carryForwardEligible && (
+            <p className="text-[10px] mt-1" style={{ color: "var(--pastel-yellow-dark)" }}>
+              Not usable this year — total super was $500k or more on 30 June
+            </p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-baseline justify-between mb-1">
+          <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+            Non-concessional
+          </span>
+          <span className="text-xs font-medium tabular-nums" style={{ color: "var(--text-primary)" }}>
+            {formatCurrency(thisYear.nonConcessionalCents)} / {formatCurrency(owner.nonConcessionalCapCents)}
+          </span>
+        </div>
+        <CapBar percent={nonConcessionalPercent} over={thisYear.nonConcessionalCents > owner.nonConcessionalCapCents} />
+      </div>
+
+      <div className="space-y-1 pt-1">
+        {SUPER_CONTRIBUTION_TYPES.filter((t) => thisYear.byType[t] > 0).map((t) => (
+          <div key={t} className="flex justify-between text-xs" style={{ color: "var(--text-secondary)" }}>
+            <span>{SUPER_CONTRIBUTION_TYPE_LABELS[t]}</span>
+            <span className="tabular-nums">{formatCurrency(thisYear.byType[t])}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CapBar({ percent, over }: { percent: number; over: boolean }) {
+  return (
+    <div className="h-2 rounded-full overflow-hidden" style={{ backgroundColor: "var(--surface)" }}>
+      <div
+        className="h-full rounded-full"
+        style={{
+          width: `${percent}%`,
+          backgroundColor: over ? "var(--pastel-coral)" : "var(--pastel-mint)",
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { Download, Receipt } from "lucide-react";
+import { formatFinancialYear } from "@/lib/tax-deductions";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TaxDeductionsSummary {
+  financialYear: number;
+  totalCents: number;
+  count: number;
+  missingReceipts: number;
+  groups: { label: string; atoCode: string; totalCents: number }[];
+}
+
+// ============================================================================
+// Component — Sidebar card with the running deductible total
+// ============================================================================
+
+function formatCurrency(cents: number): string {
+  return new Intl.NumberFormat("en-AU", {
+    style: "currency",
+    currency: "AUD",
+  }).format(cents / 100);
+}
+
+export function taxReportUrl(financialYear: number, format: "csv" | "pdf"): string {
+  return `/api/export/tax-report?fy=${financialYear}&format=${format}`;
+}
+
+interface TaxDeductionsCardProps {
+  summary: TaxDeductionsSummary;
+}
+
+export function TaxDeductionsCard({ summary }: TaxDeductionsCardProps) {
+  return (
+    <div
+      className="border-0 shadow-sm rounded-2xl overflow-hidden"
+      style={{ backgroundColor: "var(--surface-elevated)" }}
+    >
+      <div
+        className="px-5 py-3.5 border-b flex items-center justify-between"
+        style={{ borderColor: "var(--border)" }}
+      >
+        <span
+          className="font-[family-name:var(--font-nunito)] text-base font-bold"
+          style={{ color: "var(--text-primary)" }}
+        >
+          Tax Deductions
+        </span>
+        <span className="text-xs" style={{ color: "var(--text-tertiary)" }}>
+          {formatFinancialYear(summary.financialYear)}
+        </span>
+      </div>
+
+      <div className="px-5 py-4 space-y-3">
+        <div>
+          <p
+            className="font-[family-name:var(--font-nunito)] text-2xl font-bold"
+            style={{ color: "var(--text-primary)" }}
+          >
+            {formatCurrency(summary.totalCents)}
+          </p>
+          <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+            {summary.count === 0
+              ? "Nothing marked deductible yet. Set a tax category on a transaction or rule."
+              : `${summary.count} deductible transaction${summary.count === 1 ? "" : "s"} so far`}
+          </p>
+        </div>
+
+        {summary.groups.length > 0 && (
+          <div className="space-y-1.5">
+            {summary.groups.map((group) => (
+              <div key={group.atoCode + group.label} className="flex items-center justify-between text-sm">
+                <span style={{ color: "var(--text-secondary)" }}>
+                  <span className="font-medium" style={{ color: "var(--text-tertiary)" }}>
+                    {group.atoCode}
+                  </span>{" "}
+                  {group.label}
+                </span>
+                <span className="font-medium tabular-nums" style={{ color: "var(--text-primary)" }}>
+                  {formatCurrency(group.totalCents)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {summary.missingReceipts > 0 && (
+          <p className="flex items-center gap-1.5 text-xs" style={{ color: "var(--pastel-yellow-dark)" }}>
+            <Receipt className="w-3.5 h-3.5" />
+            {summary.missingReceipts} without a receipt attached
+          </p>
+        )}
+
+        <div className="flex gap-2 pt-1">
+          {(["pdf", "csv"] as const).map((format) => (
+            <a
+              key={format}
+              href={taxReportUrl(summary.financialYear, format)}
+              className="flex-1 flex items-center justify-center gap-1.5 rounded-xl border-2 py-2 text-sm font-[family-name:var(--font-nunito)] font-bold"
+              style={{ borderColor: "var(--border)", color: "var(--text-primary)" }}
+            >
+              <Download className="w-3.5 h-3.5" />
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+        <p className="text-xs text-center" style={{ color: "var(--text-tertiary)" }}>
+          {formatFinancialYear(summary.financialYear - 1)}:{" "}
+          <a href={taxReportUrl(summary.financialYear - 1, "pdf")} className="underline">PDF</a>
+          {" · "}
+          <a href={taxReportUrl(summary.financialYear - 1, "csv")} className="underline">CSV</a>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Sparkles, Eye, EyeOff, Check, Loader2, ChevronDown, Unplug } from "lucide-react";
+import { Sparkles, Eye, EyeOff, Check, Loader2, ChevronDown, Unplug, RefreshCw } from "lucide-react";
 import { gooeyToast as toast } from "goey-toast";
 
 const PROVIDER_MODELS: Record<string, { id: string; label: string }[]> = {
@@ -34,6 +34,23 @@ const DEFAULT_MODELS: Record<string, string> = {
   google: "gemini-2.5-flash",
 };
 
+// Self-hosted providers: reached by base URL, key optional, models listed
+// from the endpoint itself
+const SELF_HOSTED_PROVIDERS = ["ollama", "openai-compatible"];
+
+const BASE_URL_PLACEHOLDERS: Record<string, string> = {
+  ollama: "http://localhost:11434",
+  "openai-compatible": "http://192.168.1.10:8080/v1",
+};
+
+const PROVIDER_OPTIONS = [
+  { id: "anthropic", label: "Anthropic (Claude)" },
+  { id: "openai", label: "OpenAI (GPT)" },
+  { id: "google", label: "Google (Gemini)" },
+  { id: "ollama", label: "Ollama (local)" },
+  { id: "openai-compatible", label: "OpenAI-compatible endpoint" },
+];
+
 export function AISettings() {
   const [loading, setLoading] = useState(true);
   const [provider, setProvider] = useState("google");
@@ -44,6 +61,42 @@ export function AISettings() {
   const [saving, setSaving] = useState(false);
   const [testing, setTesting] = useState(false);
   const [disconnecting, setDisconnecting] = useState(false);
+  const [baseUrl, setBaseUrl] = useState("");
+  const [savedBaseUrl, setSavedBaseUrl] = useState("");
+  const [endpointModels, setEndpointModels] = useState<string[]>([]);
+  const [loadingModels, setLoadingModels] = useState(false);
+
+  const isSelfHosted = SELF_HOSTED_PROVIDERS.includes(provider);
+  const connected = hasExistingKey || (isSelfHosted && !!savedBaseUrl);
+
+  const loadEndpointModels = async (forProvider: string, url: string, key: string) => {
+    setLoadingModels(true);
+    try {
+      const body: Record<string, string> = { provider: forProvider };
+      if (url) body.baseUrl = url;
+      if (key) body.apiKey = key;
+
+      const res = await fetch("/api/ai/models", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setEndpointModels(data.models || []);
+        if ((data.models || []).length === 0) {
+          toast.error("The endpoint didn't list any models");
+        }
+      } else {
+        setEndpointModels([]);
+        toast.error(data.error || "Couldn't load models");
+      }
+    } catch {
+      toast.error("Couldn't load models");
+    } finally {
+      setLoadingModels(false);
+    }
+  };
 
   useEffect(() => {
     fetch("/api/ai/settings")
@@ -52,6 +105,11 @@ export function AISettings() {
         setProvider(data.provider || "anthropic");
         setModel(data.model || "");
         setHasExistingKey(data.hasApiKey || false);
+        setBaseUrl(data.baseUrl || "");
+        setSavedBaseUrl(data.baseUrl || "");
+        if (SELF_HOSTED_PROVIDERS.includes(data.provider) && data.baseUrl) {
+          loadEndpointModels(data.provider, "", "");
+        }
       })
       .catch(() => {})
       .finally(() => setLoading(false));
@@ -64,6 +122,7 @@ export function AISettings() {
       // Don't send "custom" placeholder — only send actual model IDs
       if (model && model !== "custom") body.model = model;
       if (apiKey) body.apiKey = apiKey;
+      if (isSelfHosted && baseUrl) body.baseUrl = baseUrl;
 
       const res = await fetch("/api/ai/settings", {
         method: "POST",
@@ -74,6 +133,7 @@ export function AISettings() {
       if (res.ok) {
         toast.success("AI settings saved");
         if (apiKey) setHasExistingKey(true);
+        if (isSelfHosted) setSavedBaseUrl(baseUrl);
         setApiKey("");
       } else {
         const data = await res.json();
@@ -113,12 +173,15 @@ export function AISettings() {
       const res = await fetch("/api/ai/settings", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ provider, apiKey: null }),
+        body: JSON.stringify({ provider, apiKey: null, baseUrl: null }),
       });
 
       if (res.ok) {
         toast.success("AI provider disconnected");
         setHasExistingKey(false);
+        setSavedBaseUrl("");
+        setBaseUrl("");
+        setEndpointModels([]);
         setApiKey("");
         setModel("");
       } else {
@@ -132,11 +195,32 @@ export function AISettings() {
     }
   };
 
-  const defaultModel = DEFAULT_MODELS[provider] || "";
+  const modelOptions = isSelfHosted
+    ? endpointModels.map((id) => ({ id, label: id }))
+    : PROVIDER_MODELS[provider] || [];
+  const defaultModel = isSelfHosted ? "" : DEFAULT_MODELS[provider] || "";
   const isCustomModel =
     model &&
     model !== "custom" &&
-    !(PROVIDER_MODELS[provider] || []).some((m) => m.id === model);
+    !modelOptions.some((m) => m.id === model);
+  const canConnect = isSelfHosted ? !!baseUrl.trim() && !!model && model !== "custom" : !!apiKey;
+
+  const disconnectButton = (
+    <Button
+      onClick={handleDisconnect}
+      disabled={disconnecting}
+      variant="outline"
+      className="rounded-xl shrink-0"
+      style={{ color: "var(--pastel-coral-dark)", borderColor: "var(--pastel-coral)" }}
+    >
+      {disconnecting ? (
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+      ) : (
+        <Unplug className="h-4 w-4 mr-2" />
+      )}
+      Disconnect
+    </Button>
+  );
 
   if (loading) {
     return (
@@ -156,21 +240,19 @@ export function AISettings() {
         >
           AI Provider
         </label>
-        <div className="grid grid-cols-3 gap-2">
-          {[
-            { id: "anthropic", label: "Anthropic (Claude)" },
-            { id: "openai", label: "OpenAI (GPT)" },
-            { id: "google", label: "Google (Gemini)" },
-          ].map((p) => (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {PROVIDER_OPTIONS.map((p) => (
             <button
               key={p.id}
               onClick={() => {
-                if (!hasExistingKey) {
+                if (!connected) {
                   setProvider(p.id);
                   setModel("");
+                  setEndpointModels([]);
+                  setBaseUrl("");
                 }
               }}
-              disabled={hasExistingKey && provider !== p.id}
+              disabled={connected && provider !== p.id}
               className="p-3 rounded-xl text-sm font-medium transition-all border-2"
               style={{
                 backgroundColor:
@@ -185,15 +267,15 @@ export function AISettings() {
                   provider === p.id
                     ? "var(--pastel-blue-dark)"
                     : "var(--text-secondary)",
-                opacity: hasExistingKey && provider !== p.id ? 0.4 : 1,
-                cursor: hasExistingKey && provider !== p.id ? "not-allowed" : "pointer",
+                opacity: connected && provider !== p.id ? 0.4 : 1,
+                cursor: connected && provider !== p.id ? "not-allowed" : "pointer",
               }}
             >
               {p.label}
             </button>
           ))}
         </div>
-        {hasExistingKey && (
+        {connected && (
           <p
             className="text-xs mt-2 px-1"
             style={{ color: "var(--text-tertiary)" }}
@@ -203,6 +285,66 @@ export function AISettings() {
         )}
       </div>
 
+      {/* Server URL (self-hosted) */}
+      {isSelfHosted && (
+        <div>
+          <label
+            className="text-sm font-medium block mb-2"
+            style={{ color: "var(--text-primary)" }}
+          >
+            Server URL
+            {connected && (
+              <span
+                className="ml-2 text-xs font-normal"
+                style={{ color: "var(--pastel-mint-dark)" }}
+              >
+                <Check className="h-3 w-3 inline" /> Connected
+              </span>
+            )}
+          </label>
+          {connected ? (
+            <div className="flex items-center gap-2">
+              <div
+                className="flex-1 p-3 rounded-xl text-sm border-2 truncate"
+                style={{
+                  backgroundColor: "var(--surface)",
+                  borderColor: "var(--border)",
+                  color: "var(--text-tertiary)",
+                }}
+              >
+                {savedBaseUrl}
+              </div>
+              {disconnectButton}
+            </div>
+          ) : (
+            <input
+              type="url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              onBlur={() => {
+                if (baseUrl.trim()) loadEndpointModels(provider, baseUrl.trim(), apiKey);
+              }}
+              placeholder={BASE_URL_PLACEHOLDERS[provider]}
+              className="w-full p-3 rounded-xl text-sm outline-none border-2 transition-colors"
+              style={{
+                backgroundColor: "var(--surface)",
+                borderColor: "var(--border)",
+                color: "var(--text-primary)",
+              }}
+            />
+          )}
+          <p
+            className="text-xs mt-1.5"
+            style={{ color: "var(--text-tertiary)" }}
+          >
+            {provider === "ollama"
+              ? "The address Ollama listens on, as seen from the PiggyBack server."
+              : "The /v1 base of any server that speaks the OpenAI chat API (LM Studio, llama.cpp, vLLM, LocalAI)."}{" "}
+            Chats and transactions go only to this server.
+          </p>
+        </div>
+      )}
+
       {/* API Key */}
       <div>
         <label
@@ -210,7 +352,12 @@ export function AISettings() {
           style={{ color: "var(--text-primary)" }}
         >
           API Key
-          {hasExistingKey && (
+          {isSelfHosted && (
+            <span className="ml-1 text-xs font-normal" style={{ color: "var(--text-tertiary)" }}>
+              (optional)
+            </span>
+          )}
+          {hasExistingKey && !isSelfHosted && (
             <span
               className="ml-2 text-xs font-normal"
               style={{ color: "var(--pastel-mint-dark)" }}
@@ -231,20 +378,7 @@ export function AISettings() {
             >
               ••••••••••••••••
             </div>
-            <Button
-              onClick={handleDisconnect}
-              disabled={disconnecting}
-              variant="outline"
-              className="rounded-xl shrink-0"
-              style={{ color: "var(--pastel-coral-dark)", borderColor: "var(--pastel-coral)" }}
-            >
-              {disconnecting ? (
-                <Loader2 className="h-4 w-4 animate-spin mr-2" />
-              ) : (
-                <Unplug className="h-4 w-4 mr-2" />
-              )}
-              Disconnect
-            </Button>
+            {!isSelfHosted && disconnectButton}
           </div>
         ) : (
           <div className="relative">
@@ -253,11 +387,13 @@ export function AISettings() {
               value={apiKey}
               onChange={(e) => setApiKey(e.target.value)}
               placeholder={
-                provider === "google"
-                  ? "AIza..."
-                  : provider === "anthropic"
-                    ? "sk-ant-..."
-                    : "sk-..."
+                isSelfHosted
+                  ? "Only if your server requires one"
+                  : provider === "google"
+                    ? "AIza..."
+                    : provider === "anthropic"
+                      ? "sk-ant-..."
+                      : "sk-..."
               }
               className="w-full p-3 pr-10 rounded-xl text-sm outline-none border-2 transition-colors"
               style={{
@@ -290,12 +426,26 @@ export function AISettings() {
 
       {/* Model Selection */}
       <div>
-        <label
-          className="text-sm font-medium block mb-2"
-          style={{ color: "var(--text-primary)" }}
-        >
-          Model
-        </label>
+        <div className="flex items-center justify-between mb-2">
+          <label
+            className="text-sm font-medium block"
+            style={{ color: "var(--text-primary)" }}
+          >
+            Model
+          </label>
+          {isSelfHosted && (
+            <button
+              type="button"
+              onClick={() => loadEndpointModels(provider, connected ? "" : baseUrl.trim(), apiKey)}
+              disabled={loadingModels || (!connected && !baseUrl.trim())}
+              className="text-xs flex items-center gap-1"
+              style={{ color: "var(--pastel-blue-dark)" }}
+            >
+              <RefreshCw className={`h-3 w-3 ${loadingModels ? "animate-spin" : ""}`} />
+              Load models
+            </button>
+          )}
+        </div>
         <div className="relative">
           <select
             value={isCustomModel ? "custom" : model || defaultModel}
@@ -314,7 +464,12 @@ export function AISettings() {
               color: "var(--text-primary)",
             }}
           >
-            {(PROVIDER_MODELS[provider] || []).map((m) => (
+            {isSelfHosted && !model && (
+              <option value="">
+                {modelOptions.length > 0 ? "Choose a model..." : "Load models from your server..."}
+              </option>
+            )}
+            {modelOptions.map((m) => (
               <option key={m.id} value={m.id}>
                 {m.label}
               </option>
@@ -331,7 +486,11 @@ export function AISettings() {
             type="text"
             value={model === "custom" ? "" : model}
             onChange={(e) => setModel(e.target.value || "custom")}
-            placeholder="Enter model ID, e.g. gemini-2.0-flash-lite"
+            placeholder={
+              isSelfHosted
+                ? "Enter model ID, e.g. llama3.1:8b"
+                : "Enter model ID, e.g. gemini-2.0-flash-lite"
+            }
             autoFocus
             className="w-full mt-2 p-3 rounded-xl text-sm outline-none border-2 transition-colors"
             style={{
@@ -345,7 +504,7 @@ export function AISettings() {
 
       {/* Actions */}
       <div className="flex gap-2 pt-2">
-        {hasExistingKey ? (
+        {connected ? (
           <>
             <Button
               onClick={handleTest}
@@ -378,11 +537,11 @@ export function AISettings() {
         ) : (
           <Button
             onClick={handleSave}
-            disabled={saving || !apiKey}
+            disabled={saving || !canConnect}
             className="flex-1 rounded-xl"
             style={{
-              backgroundColor: apiKey ? "var(--pastel-blue)" : "var(--surface)",
-              color: apiKey ? "white" : "var(--text-tertiary)",
+              backgroundColor: canConnect ? "var(--pastel-blue)" : "var(--surface)",
+              color: canConnect ? "white" : "var(--text-tertiary)",
             }}
           >
             {saving ? (
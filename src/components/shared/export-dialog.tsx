@@ -9,15 +9,36 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Download, FileText, Table2 } from "lucide-react";
+import { Braces, Download, FileSpreadsheet, FileText, Landmark, Table2 } from "lucide-react";
+import type { ExportFormat } from "@/lib/transaction-export";
 
 interface ExportDialogProps {
   trigger?: React.ReactNode;
 }
 
+const FORMAT_OPTIONS: {
+  value: ExportFormat;
+  label: string;
+  description: string;
+  icon: typeof Table2;
+  color: string;
+}[] = [
+  { value: "csv", label: "CSV", description: "One row per transaction (or split line).", icon: Table2, color: "blue" },
+  { value: "markdown", label: "Report", description: "Spending summary by category and merchant.", icon: FileText, color: "mint" },
+  { value: "xlsx", label: "Excel", description: "A sheet per account plus a category summary.", icon: FileSpreadsheet, color: "yellow" },
+  { value: "ofx", label: "OFX", description: "For accounting tools like Xero, MYOB or GnuCash.", icon: Landmark, color: "lavender" },
+  { value: "json", label: "JSON", description: "Everything, including tags, notes, overrides and splits.", icon: Braces, color: "coral" },
+];
+
+/** Pull the server's filename out of a Content-Disposition header */
+function filenameFromDisposition(header: string | null, fallback: string): string {
+  const match = header?.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
 export function ExportDialog({ trigger }: ExportDialogProps) {
   const [open, setOpen] = useState(false);
-  const [format, setFormat] = useState<"csv" | "markdown">("csv");
+  const [format, setFormat] = useState<ExportFormat>("csv");
   const [dateFrom, setDateFrom] = useState("");
   const [dateTo, setDateTo] = useState("");
   const [loading, setLoading] = useState(false);
@@ -37,13 +58,11 @@ export function ExportDialog({ trigger }: ExportDialogProps) {
 
       if (!res.ok) throw new Error("Export failed");
 
-      const text = await res.text();
-      const mimeType = format === "csv" ? "text/csv" : "text/markdown";
-      const safeBlob = new Blob([text], { type: mimeType });
-      const filename =
-        format === "csv"
-          ? `piggyback-transactions-${new Date().toISOString().split("T")[0]}.csv`
-          : `piggyback-report-${new Date().toISOString().split("T")[0]}.md`;
+      const safeBlob = await res.blob();
+      const filename = filenameFromDisposition(
+        res.headers.get("Content-Disposition"),
+        `piggyback-export-${new Date().toISOString().split("T")[0]}.${format === "markdown" ? "md" : format}`
+      );
 
       const url = URL.createObjectURL(safeBlob);
       try {
@@ -101,49 +120,38 @@ export function ExportDialog({ trigger }: ExportDialogProps) {
               Format
             </label>
             <div className="grid grid-cols-2 gap-2">
-              <button
-                onClick={() => setFormat("csv")}
-                className="flex items-center gap-2 p-3 rounded-xl text-sm font-semibold transition-all"
-                style={{
-                  backgroundColor:
-                    format === "csv"
-                      ? "var(--pastel-blue-light)"
-                      : "var(--surface-secondary)",
-                  color:
-                    format === "csv"
-                      ? "var(--pastel-blue-dark)"
-                      : "var(--text-secondary)",
-                  border:
-                    format === "csv"
-                      ? "2px solid var(--pastel-blue)"
-                      : "2px solid transparent",
-                }}
-              >
-                <Table2 className="h-4 w-4" />
-                CSV
-              </button>
-              <button
-                onClick={() => setFormat("markdown")}
-                className="flex items-center gap-2 p-3 rounded-xl text-sm font-semibold transition-all"
-                style={{
-                  backgroundColor:
-                    format === "markdown"
-                      ? "var(--pastel-mint-light)"
-                      : "var(--surface-secondary)",
-                  color:
-                    format === "markdown"
-                      ? "var(--pastel-mint-dark)"
-                      : "var(--text-secondary)",
-                  border:
-                    format === "markdown"
-                      ? "2px solid var(--pastel-mint)"
-                      : "2px solid transparent",
-                }}
-              >
-                <FileText className="h-4 w-4" />
-                Report
-              </button>
+              {FORMAT_OPTIONS.map((option) => {
+                const selected = format === option.value;
+                const Icon = option.icon;
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => setFormat(option.value)}
+                    className="flex items-center gap-2 p-3 rounded-xl text-sm font-semibold transition-all"
+                    style={{
+                      backgroundColor: selected
+                        ? `var(--pastel-${option.color}-light)`
+                        : "var(--surface-secondary)",
+                      color: selected
+                        ? `var(--pastel-${option.color}-dark)`
+                        : "var(--text-secondary)",
+                      border: selected
+                        ? `2px solid var(--pastel-${option.color})`
+                        : "2px solid transparent",
+                    }}
+                  >
+                    <Icon className="h-4 w-4" />
+                    {option.label}
+                  </button>
+                );
+              })}
             </div>
+            <p
+              className="text-xs mt-2"
+              style={{ color: "var(--text-tertiary)" }}
+            >
+              {FORMAT_OPTIONS.find((o) => o.value === format)?.description}
+            </p>
           </div>
 
           {/* Date Range */}
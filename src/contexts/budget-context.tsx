@@ -8,15 +8,24 @@
  *   - The server runs the pure budget-engine and returns a complete summary
  *   - Provider just holds the latest summary, current date, and budget record
  *
- * Actions: navigatePeriod, setDate, assignAmount, updateSettings, refresh
+ * Actions: navigatePeriod, setDate, assignAmount, moveMoney, closeMonth,
+ * reopenMonth, updateSettings, refresh
  */
 "use client";
 
 import { createContext, useContext, ReactNode, useState, useCallback, useRef } from "react";
-import { getNextPeriodDate, getPreviousPeriodDate, getMonthKeyForPeriod } from "@/lib/budget-engine";
+import {
+  DEFAULT_BUDGET_TIMEZONE,
+  getBudgetPeriodRange,
+  getNextPeriodDate,
+  getPreviousPeriodDate,
+  getMonthKeyForPeriod,
+} from "@/lib/budget-engine";
 import type { PeriodType, BudgetRow, MethodologySection } from "@/lib/budget-engine";
 import { updateBudget } from "@/app/actions/budgets";
 import type { UserBudget } from "@/app/actions/budgets";
+import type { MoveRow } from "@/lib/budget-moves";
+import type { LeftoverAction } from "@/lib/budget-close";
 
 // Summary returned by /api/budget/summary
 export interface BudgetSummaryResponse {
@@ -24,6 +33,7 @@ export interface BudgetSummaryResponse {
   budgeted: number;
   spent: number;
   carryover: number;
+  rollover?: number;
   tbb: number;
   rows: BudgetRow[];
   methodologySections?: MethodologySection[];
@@ -31,6 +41,10 @@ export interface BudgetSummaryResponse {
   periodStart: string;
   periodEnd: string;
   monthKey: string;
+  /** Set once the period's month has been closed (assignments are locked) */
+  closedAt?: string | null;
+  /** Pay date the periods step from; null when they're month-aligned */
+  periodAnchor?: string | null;
 }
 
 interface BudgetContextValue {
@@ -43,7 +57,7 @@ interface BudgetContextValue {
   // Actions
   navigatePeriod: (direction: "next" | "prev") => Promise<void>;
   setDate: (date: Date) => Promise<void>;
-  updateSettings: (changes: Partial<Pick<UserBudget, "name" | "emoji" | "methodology" | "budget_view" | "period_type" | "category_filter" | "color">>) => Promise<void>;
+  updateSettings: (changes: Partial<Pick<UserBudget, "name" | "emoji" | "methodology" | "budget_view" | "period_type" | "category_filter" | "color" | "carryover_mode" | "period_anchor_date" | "pay_cycle_source_id">>) => Promise<void>;
   assignAmount: (params: {
     partnershipId: string;
     categoryName: string;
@@ -53,6 +67,18 @@ interface BudgetContextValue {
     assignmentType?: string;
     amountCents: number;
   }) => Promise<void>;
+  /** Move assigned money between two rows; null = unassigned (To Be Budgeted) */
+  moveMoney: (params: {
+    partnershipId: string;
+    from: MoveRow | null;
+    to: MoveRow | null;
+    amountCents: number;
+    note?: string;
+  }) => Promise<void>;
+  /** Close the current period's month, snapshotting it and locking its assignments */
+  closeMonth: (params: { leftoverAction: LeftoverAction; goalId?: string }) => Promise<void>;
+  /** Reopen the current period's month, undoing its leftover action */
+  reopenMonth: () => Promise<void>;
   refresh: () => Promise<void>;
 }
 
@@ -90,6 +116,8 @@ export function BudgetProvider({
   budgetRef.current = budget;
   const currentDateRef = useRef(currentDate);
   currentDateRef.current = currentDate;
+  // Pay-cycle anchor from the latest summary, for navigation and month keys
+  const periodAnchorRef = useRef<string | null>(initialSummary.periodAnchor ?? null);
 
   const fetchSummary = useCallback(async (date: Date, budgetId: string): Promise<BudgetSummaryResponse | null> => {
     const requestId = ++fetchIdRef.current;
@@ -107,6 +135,7 @@ export function BudgetProvider({
 
       // Only update state if this is still the latest request
       if (requestId === fetchIdRef.current) {
+        periodAnchorRef.current = data.periodAnchor ?? null;
         setSummary(data);
         setIsLoading(false);
       }
@@ -124,12 +153,27 @@ export function BudgetProvider({
     await fetchSummary(currentDateRef.current, budgetRef.current.id);
   }, [fetchSummary]);
 
+  /**
+   * Month the current period's assignments are stored under. Pay-cycle
+   * periods can span two months and belong to the one they start in.
+   */
+  const currentMonthKey = useCallback(() => {
+    const range = getBudgetPeriodRange(
+      currentDateRef.current,
+      budgetRef.current.period_type as PeriodType,
+      DEFAULT_BUDGET_TIMEZONE,
+      periodAnchorRef.current
+    );
+    return getMonthKeyForPeriod(range.start);
+  }, []);
+
   const navigatePeriod = useCallback(async (direction: "next" | "prev") => {
     const periodType = budgetRef.current.period_type as PeriodType;
+    const anchor = periodAnchorRef.current;
     const newDate =
       direction === "next"
-        ? getNextPeriodDate(currentDateRef.current, periodType)
-        : getPreviousPeriodDate(currentDateRef.current, periodType);
+        ? getNextPeriodDate(currentDateRef.current, periodType, DEFAULT_BUDGET_TIMEZONE, anchor)
+        : getPreviousPeriodDate(currentDateRef.current, periodType, DEFAULT_BUDGET_TIMEZONE, anchor);
 
     setCurrentDate(newDate);
     currentDateRef.current = newDate;
@@ -143,7 +187,7 @@ export function BudgetProvider({
   }, [fetchSummary]);
 
   const updateSettings = useCallback(async (
-    changes: Partial<Pick<UserBudget, "name" | "emoji" | "methodology" | "budget_view" | "period_type" | "category_filter" | "color">>
+    changes: Partial<Pick<UserBudget, "name" | "emoji" | "methodology" | "budget_view" | "period_type" | "category_filter" | "color" | "carryover_mode" | "period_anchor_date" | "pay_cycle_source_id">>
   ) => {
     const result = await updateBudget(budgetRef.current.id, changes);
     if ("data" in result && result.data) {
@@ -163,7 +207,7 @@ export function BudgetProvider({
     assignmentType?: string;
     amountCents: number;
   }) => {
-    const monthKey = getMonthKeyForPeriod(currentDateRef.current);
+    const monthKey = currentMonthKey();
 
     const res = await fetch("/api/budget/zero/assign", {
       method: "POST",
@@ -189,7 +233,82 @@ export function BudgetProvider({
 
     // Refresh to get updated summary
     await fetchSummary(currentDateRef.current, budgetRef.current.id);
-  }, [fetchSummary]);
+  }, [fetchSummary, currentMonthKey]);
+
+  const moveMoney = useCallback(async (params: {
+    partnershipId: string;
+    from: MoveRow | null;
+    to: MoveRow | null;
+    amountCents: number;
+    note?: string;
+  }) => {
+    const monthKey = currentMonthKey();
+    const toMoveRow = (row: MoveRow | null) => row && {
+      id: row.id,
+      type: row.type,
+      name: row.name,
+      budgeted: row.budgeted,
+      available: row.available,
+      isExpenseDefault: row.isExpenseDefault,
+    };
+
+    const res = await fetch("/api/budget/zero/move", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        partnership_id: params.partnershipId,
+        month: monthKey,
+        budget_view: budgetRef.current.budget_view,
+        budget_id: budgetRef.current.id,
+        from: toMoveRow(params.from),
+        to: toMoveRow(params.to),
+        amount_cents: params.amountCents,
+        note: params.note || undefined,
+      }),
+    });
+
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Failed to move money");
+    }
+
+    await fetchSummary(currentDateRef.current, budgetRef.current.id);
+  }, [fetchSummary, currentMonthKey]);
+
+  const closeMonth = useCallback(async (params: { leftoverAction: LeftoverAction; goalId?: string }) => {
+    const res = await fetch("/api/budget/zero/close", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        budget_id: budgetRef.current.id,
+        month: currentMonthKey(),
+        leftover_action: params.leftoverAction,
+        goal_id: params.goalId,
+      }),
+    });
+
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Failed to close month");
+    }
+
+    await fetchSummary(currentDateRef.current, budgetRef.current.id);
+  }, [fetchSummary, currentMonthKey]);
+
+  const reopenMonth = useCallback(async () => {
+    const params = new URLSearchParams({
+      budget_id: budgetRef.current.id,
+      month: currentMonthKey(),
+    });
+    const res = await fetch(`/api/budget/zero/close?${params}`, { method: "DELETE" });
+
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Failed to reopen month");
+    }
+
+    await fetchSummary(currentDateRef.current, budgetRef.current.id);
+  }, [fetchSummary, currentMonthKey]);
 
   const value: BudgetContextValue = {
     budget,
@@ -200,6 +319,9 @@ export function BudgetProvider({
     setDate,
     updateSettings,
     assignAmount,
+    moveMoney,
+    closeMonth,
+    reopenMonth,
     refresh,
   };
 
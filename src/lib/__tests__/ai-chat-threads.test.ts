@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendThreadMessage,
+  capThreadMessages,
+  deriveThreadTitle,
+  getMessageText,
+  selectModelHistory,
+  sortThreads,
+} from "../ai-chat-threads";
+
+describe("deriveThreadTitle", () => {
+  it("uses a short question as-is with whitespace collapsed", () => {
+    expect(deriveThreadTitle("  How did we do\n on groceries? ")).toBe("How did we do on groceries?");
+  });
+
+  it("cuts long questions at a word boundary", () => {
+    const title = deriveThreadTitle(
+      "Can you compare our grocery spending this month against the average of the last six months please"
+    );
+    expect(title).toBe("Can you compare our grocery spending this month against the…");
+    expect(title.length).toBeLessThanOrEqual(61);
+  });
+
+  it("falls back to a default for empty text", () => {
+    expect(deriveThreadTitle("   ")).toBe("New chat");
+  });
+});
+
+describe("getMessageText", () => {
+  it("joins text parts and skips tool parts", () => {
+    expect(
+      getMessageText({
+        parts: [
+          { type: "text", text: "Groceries were" },
+          { type: "tool-getSpendingSummary" },
+          { type: "text", text: "$812." },
+        ],
+      })
+    ).toBe("Groceries were $812.");
+  });
+});
+
+describe("appendThreadMessage", () => {
+  const history = [
+    { id: "u1", role: "user" },
+    { id: "a1", role: "assistant" },
+  ];
+
+  it("appends a new message", () => {
+    expect(appendThreadMessage(history, { id: "u2", role: "user" }).map((m) => m.id)).toEqual([
+      "u1",
+      "a1",
+      "u2",
+    ]);
+  });
+
+  it("replaces a resent message and drops what followed it", () => {
+    expect(appendThreadMessage(history, { id: "u1", role: "user" }).map((m) => m.id)).toEqual(["u1"]);
+  });
+});
+
+describe("selectModelHistory", () => {
+  const turns = Array.from({ length: 10 }, (_, i) => ({
+    id: String(i),
+    role: i % 2 === 0 ? "user" : "assistant",
+  }));
+
+  it("keeps everything under the limit", () => {
+    expect(selectModelHistory(turns, 40)).toHaveLength(10);
+  });
+
+  it("starts the window on a user turn", () => {
+    const window = selectModelHistory(turns, 5);
+    expect(window[0].role).toBe("user");
+    expect(window.map((m) => m.id)).toEqual(["6", "7", "8", "9"]);
+  });
+});
+
+describe("capThreadMessages", () => {
+  it("keeps the most recent messages", () => {
+    expect(capThreadMessages([1, 2, 3, 4, 5], 3)).toEqual([3, 4, 5]);
+    expect(capThreadMessages([1, 2], 3)).toEqual([1, 2]);
+  });
+});
+
+describe("sortThreads", () => {
+  it("puts pinned threads first, then the most recent", () => {
+    const sorted = sortThreads([
+      { id: "old", is_pinned: false, last_message_at: "2026-08-01T00:00:00Z" },
+      { id: "pinned", is_pinned: true, last_message_at: "2026-06-01T00:00:00Z" },
+      { id: "new", is_pinned: false, last_message_at: "2026-10-01T00:00:00Z" },
+    ]);
+    expect(sorted.map((t) => t.id)).toEqual(["pinned", "new", "old"]);
+  });
+});
@@ -32,11 +32,11 @@ describe('AI settings rate limiting', () => {
 
     // Should allow 5 requests
     for (let i = 0; i < 5; i++) {
-      expect(aiSettingsLimiter.check('user-1').allowed).toBe(true);
+      expect((await aiSettingsLimiter.check('user-1')).allowed).toBe(true);
     }
 
     // 6th request should be blocked
-    const result = aiSettingsLimiter.check('user-1');
+    const result = await aiSettingsLimiter.check('user-1');
     expect(result.allowed).toBe(false);
     expect(result.remaining).toBe(0);
   });
@@ -5,14 +5,35 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
  *
  * Verifies:
  * 1. auditLog outputs structured JSON to console.log
- * 2. All expected audit actions are defined in AuditAction
+ * 2. auditLog persists entries to the audit_logs table
+ * 3. All expected audit actions are defined in AuditAction
  */
 
+const mockInsert = vi.fn();
+const mockMaybeSingle = vi.fn();
+
+vi.mock('@/utils/supabase/service-role', () => ({
+  createServiceRoleClient: () => ({
+    from: (table: string) => {
+      if (table === 'audit_logs') return { insert: mockInsert };
+      const chain = {
+        select: () => chain,
+        eq: () => chain,
+        limit: () => chain,
+        maybeSingle: mockMaybeSingle,
+      };
+      return chain;
+    },
+  }),
+}));
+
 describe('audit-logger', () => {
   let consoleSpy: ReturnType<typeof vi.spyOn>;
 
   beforeEach(() => {
     consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockInsert.mockReset().mockResolvedValue({ error: null });
+    mockMaybeSingle.mockReset().mockResolvedValue({ data: { partnership_id: 'p-1' }, error: null });
   });
 
   afterEach(() => {
@@ -79,6 +100,46 @@ describe('audit-logger', () => {
     });
   });
 
+  describe('persistence', () => {
+    it('should insert the entry with the resolved partnership', async () => {
+      const { auditLog } = await import('@/lib/audit-logger');
+
+      await auditLog({
+        userId: 'user-123',
+        action: 'EXPENSE_DELETED',
+        details: { expenseId: 'exp-456' },
+      });
+
+      expect(mockInsert).toHaveBeenCalledOnce();
+      expect(mockInsert.mock.calls[0][0]).toMatchObject({
+        user_id: 'user-123',
+        partnership_id: 'p-1',
+        action: 'EXPENSE_DELETED',
+        details: { expenseId: 'exp-456' },
+      });
+    });
+
+    it('should use an explicit partnershipId without a lookup', async () => {
+      const { auditLog } = await import('@/lib/audit-logger');
+
+      await auditLog({ userId: 'user-1', action: 'BUDGET_DELETED', partnershipId: 'p-9' });
+
+      expect(mockMaybeSingle).not.toHaveBeenCalled();
+      expect(mockInsert.mock.calls[0][0].partnership_id).toBe('p-9');
+      expect(mockInsert.mock.calls[0][0].details).toEqual({});
+    });
+
+    it('should not throw when the insert fails', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockInsert.mockResolvedValue({ error: { message: 'boom' } });
+      const { auditLog } = await import('@/lib/audit-logger');
+
+      await expect(auditLog({ userId: 'user-1', action: 'BUDGET_RESET' })).resolves.toBeUndefined();
+      expect(errorSpy).toHaveBeenCalledWith('Failed to persist audit log:', 'boom');
+      errorSpy.mockRestore();
+    });
+  });
+
   describe('AuditAction', () => {
     it('should define all expected audit actions', async () => {
       const { AuditAction } = await import('@/lib/audit-logger');
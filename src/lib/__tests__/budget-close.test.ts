@@ -0,0 +1,311 @@
+import { describe, it, expect } from 'vitest';
+import {
+  periodDatesInMonth,
+  combinePeriodSummaries,
+  findUnmatchedExpenses,
+  leftoverEnvelopes,
+  checkLeftoverAction,
+  releasedKeys,
+  monthClosingBalances,
+  snapshotPeriodSummary,
+  type AssignmentRollover,
+  type ReleasedKey,
+  type SnapshotRow,
+} from '../budget-close';
+import { midnightInTimezone, type BudgetRow, type BudgetSummary } from '../budget-engine';
+
+const tz = 'Australia/Sydney';
+
+function budgetRow(overrides: Partial<BudgetRow> & Pick<BudgetRow, 'id'>): BudgetRow {
+  return {
+    type: 'subcategory',
+    name: overrides.id.split('::').pop() ?? overrides.id,
+    budgeted: 0,
+    spent: 0,
+    available: 0,
+    isExpenseDefault: false,
+    ...overrides,
+  } as BudgetRow;
+}
+
+function snapshotRow(overrides: Partial<SnapshotRow> & Pick<SnapshotRow, 'key'>): SnapshotRow {
+  return {
+    type: 'subcategory',
+    name: overrides.key.split('::').pop() ?? overrides.key,
+    parentCategory: null,
+    budgeted: 0,
+    spent: 0,
+    available: 0,
+    carryover: 0,
+    ...overrides,
+  };
+}
+
+describe('periodDatesInMonth', () => {
+  it('returns one period for monthly budgets', () => {
+    expect(periodDatesInMonth('2026-03-01', 'monthly', tz)).toEqual([midnightInTimezone(2026, 2, 1, tz)]);
+  });
+
+  it('returns both halves for fortnightly budgets', () => {
+    expect(periodDatesInMonth('2026-03-01', 'fortnightly', tz)).toEqual([
+      midnightInTimezone(2026, 2, 1, tz),
+      midnightInTimezone(2026, 2, 15, tz),
+    ]);
+  });
+
+  it('returns every week starting in the month for weekly budgets', () => {
+    expect(periodDatesInMonth('2026-02-01', 'weekly', tz)).toEqual([
+      midnightInTimezone(2026, 1, 1, tz),
+      midnightInTimezone(2026, 1, 8, tz),
+      midnightInTimezone(2026, 1, 15, tz),
+      midnightInTimezone(2026, 1, 22, tz),
+    ]);
+  });
+
+  it('returns the pay-cycle periods starting in the month for anchored budgets', () => {
+    expect(periodDatesInMonth('2026-03-01', 'fortnightly', tz, '2026-02-26')).toEqual([
+      midnightInTimezone(2026, 2, 12, tz),
+      midnightInTimezone(2026, 2, 26, tz),
+    ]);
+  });
+});
+
+describe('combinePeriodSummaries', () => {
+  it('adds up totals and takes each envelope balance from the last period', () => {
+    const result = combinePeriodSummaries([
+      {
+        income: 300000,
+        budgeted: 100000,
+        spent: 40000,
+        tbb: 200000,
+        rows: [budgetRow({ id: 'Food::Groceries', budgeted: 50000, spent: 20000, available: 35000, carryover: 5000 })],
+      },
+      {
+        income: 300000,
+        budgeted: 80000,
+        spent: 30000,
+        tbb: 220000,
+        rows: [
+          budgetRow({ id: 'Food::Groceries', budgeted: 40000, spent: 25000, available: 50000, carryover: 35000 }),
+          budgetRow({ id: 'goal::g1', type: 'goal', name: 'Holiday', budgeted: 10000, available: 10000 }),
+        ],
+      },
+    ]);
+
+    expect(result.income).toBe(600000);
+    expect(result.budgeted).toBe(180000);
+    expect(result.spent).toBe(70000);
+    expect(result.tbb).toBe(420000);
+    expect(result.rows).toEqual([
+      {
+        key: 'Food::Groceries',
+        type: 'subcategory',
+        name: 'Groceries',
+        parentCategory: null,
+        budgeted: 90000,
+        spent: 45000,
+        available: 50000,
+        carryover: 5000,
+      },
+      {
+        key: 'goal::g1',
+        type: 'goal',
+        name: 'Holiday',
+        parentCategory: null,
+        budgeted: 10000,
+        spent: 0,
+        available: 10000,
+        carryover: 0,
+      },
+    ]);
+  });
+});
+
+describe('findUnmatchedExpenses', () => {
+  const start = midnightInTimezone(2026, 2, 1, tz);
+  const end = new Date(midnightInTimezone(2026, 3, 1, tz).getTime() - 1);
+  const rent = {
+    id: 'rent',
+    name: 'Rent',
+    category_name: 'Housing',
+    inferred_subcategory: 'Rent',
+    expected_amount_cents: 60000,
+    recurrence_type: 'weekly',
+    next_due_date: '2026-03-02',
+  };
+  const netflix = {
+    id: 'netflix',
+    name: 'Netflix',
+    category_name: 'Entertainment',
+    expected_amount_cents: 2299,
+    recurrence_type: 'monthly',
+    next_due_date: '2026-03-10',
+  };
+
+  it('flags expenses with fewer matched payments than occurrences', () => {
+    const transactions = [{ matched_expense_id: 'rent' }, { matched_expense_id: 'rent' }, { matched_expense_id: null }];
+    expect(findUnmatchedExpenses([netflix, rent], transactions, start, end)).toEqual([
+      { id: 'rent', name: 'Rent', key: 'Housing::Rent', expectedCount: 5, matchedCount: 2, missingCents: 180000 },
+      { id: 'netflix', name: 'Netflix', key: null, expectedCount: 1, matchedCount: 0, missingCents: 2299 },
+    ]);
+  });
+
+  it('skips fully matched expenses and ones with no due date', () => {
+    const transactions = [{ matched_expense_id: 'netflix' }];
+    expect(
+      findUnmatchedExpenses([netflix, { ...rent, next_due_date: null }], transactions, start, end)
+    ).toEqual([]);
+  });
+});
+
+describe('leftoverEnvelopes', () => {
+  it('keeps only envelopes with a positive balance', () => {
+    const rows = [
+      snapshotRow({ key: 'Food::Groceries', available: 1200 }),
+      snapshotRow({ key: 'Food::Takeaway', available: -500 }),
+      snapshotRow({ key: 'Transport::Fuel', available: 0 }),
+      snapshotRow({ key: 'goal::g1', type: 'goal', available: 10000 }),
+    ];
+    expect(leftoverEnvelopes(rows).map((r) => r.key)).toEqual(['Food::Groceries']);
+  });
+});
+
+describe('checkLeftoverAction', () => {
+  it('rejects carrying over when the budget does not roll over', () => {
+    expect(checkLeftoverAction('carry_over', 'none', undefined)).toMatch(/starts every period fresh/);
+    expect(checkLeftoverAction('carry_over', 'rollover-unspent', undefined)).toBeNull();
+  });
+
+  it('requires a goal to sweep into', () => {
+    expect(checkLeftoverAction('sweep_to_goal', 'none', null)).toBe('Choose a goal to sweep leftovers into');
+    expect(checkLeftoverAction('sweep_to_goal', 'none', 'g1')).toBeNull();
+    expect(checkLeftoverAction('return_to_unassigned', 'rollover-capped', undefined)).toBeNull();
+  });
+});
+
+describe('releasedKeys', () => {
+  const leftovers = [snapshotRow({ key: 'Food::Groceries', available: 1200 })];
+
+  it('releases leftover envelopes when money leaves them', () => {
+    expect(releasedKeys(leftovers, 'return_to_unassigned', 'rollover-unspent', [])).toEqual([
+      { category_name: 'Food', subcategory_name: 'Groceries', previous_rollover: null },
+    ]);
+    expect(releasedKeys(leftovers, 'sweep_to_goal', 'rollover-with-debt', [])).toHaveLength(1);
+  });
+
+  it('releases nothing when carrying over or when nothing rolls', () => {
+    expect(releasedKeys(leftovers, 'carry_over', 'rollover-unspent', [])).toEqual([]);
+    expect(releasedKeys(leftovers, 'return_to_unassigned', 'none', [])).toEqual([]);
+  });
+
+  it('records the rollover each envelope had before the close', () => {
+    const keys = releasedKeys(
+      [
+        snapshotRow({ key: 'Food::Groceries', available: 1200 }),
+        snapshotRow({ key: 'Fun::Games', available: 500 }),
+        snapshotRow({ key: 'Home::Garden', available: 300 }),
+      ],
+      'return_to_unassigned',
+      'rollover-unspent',
+      [
+        { category_name: 'Food', subcategory_name: 'Groceries', rollover: false },
+        { category_name: 'Fun', subcategory_name: 'Games', rollover: null },
+      ]
+    );
+    expect(keys.map((k) => k.previous_rollover)).toEqual([false, true, null]);
+  });
+
+  it('round-trips through close and reopen', () => {
+    type Row = AssignmentRollover & { assigned_cents: number };
+    const before: Row[] = [
+      { category_name: 'Food', subcategory_name: 'Groceries', rollover: false, assigned_cents: 40000 },
+      { category_name: 'Fun', subcategory_name: 'Games', rollover: true, assigned_cents: 5000 },
+    ];
+    const keys = releasedKeys(
+      [
+        snapshotRow({ key: 'Food::Groceries', available: 1200 }),
+        snapshotRow({ key: 'Fun::Games', available: 500 }),
+        snapshotRow({ key: 'Home::Garden', available: 300 }),
+      ],
+      'sweep_to_goal',
+      'rollover-unspent',
+      before
+    );
+    const find = (rows: Row[], k: ReleasedKey) =>
+      rows.find((r) => r.category_name === k.category_name && r.subcategory_name === k.subcategory_name);
+
+    // close_budget_month: rollover off, $0 placeholder where there's no row
+    const closed = before.map((r) => ({ ...r }));
+    for (const k of keys) {
+      const row = find(closed, k);
+      if (row) row.rollover = false;
+      else closed.push({ category_name: k.category_name, subcategory_name: k.subcategory_name, rollover: false, assigned_cents: 0 });
+    }
+    expect(closed).toHaveLength(3);
+    expect(closed.every((r) => r.rollover === false)).toBe(true);
+
+    // reopen_budget_month: previous rollover back, placeholders deleted
+    let reopened = closed;
+    for (const k of keys) {
+      if (k.previous_rollover === null) {
+        reopened = reopened.filter((r) => r !== find(reopened, k) || r.assigned_cents !== 0);
+      } else {
+        find(reopened, k)!.rollover = k.previous_rollover;
+      }
+    }
+    expect(reopened).toEqual(before);
+  });
+});
+
+describe('monthClosingBalances', () => {
+  const lastPeriod = {
+    rows: [
+      budgetRow({ id: 'Transport::Rego', budgeted: 10000, carryover: 75000 }),
+      budgetRow({ id: 'Food & Dining::Groceries', budgeted: 50000, spent: 20000 }),
+      budgetRow({ id: 'Shopping::Clothes', budgeted: 5000 }),
+      budgetRow({ id: 'goal::g1', type: 'goal', budgeted: 20000 }),
+    ],
+  };
+  const rego = { id: 'e1', name: 'Rego', category_name: 'Transport', inferred_subcategory: 'Rego', expected_amount_cents: 80000, recurrence_type: 'yearly' };
+
+  it('hands on every envelope balance the carryover mode keeps', () => {
+    expect(monthClosingBalances(lastPeriod, 'rollover-unspent', [], [], [rego])).toEqual({
+      'Transport::Rego': 85000,
+      'Food & Dining::Groceries': 30000,
+      'Shopping::Clothes': 5000,
+    });
+  });
+
+  it('leaves out released envelopes and ones opted out of rollover', () => {
+    const balances = monthClosingBalances(
+      lastPeriod,
+      'rollover-capped',
+      [{ category_name: 'Shopping', subcategory_name: 'Clothes', rollover: false }],
+      [{ category_name: 'Food & Dining', subcategory_name: 'Groceries', previous_rollover: true }],
+      [rego]
+    );
+    expect(balances).toEqual({ 'Transport::Rego': 80000 });
+  });
+
+  it('is empty when nothing rolls', () => {
+    expect(monthClosingBalances(lastPeriod, 'none', [], [], [])).toEqual({});
+  });
+});
+
+describe('snapshotPeriodSummary', () => {
+  const summary = (budgeted: number) => ({ budgeted, rows: [] }) as unknown as BudgetSummary;
+  const periods = [
+    { label: '1-14 Mar', start: '2026-02-28T13:00:00.000Z', end: '2026-03-14T12:59:59.999Z', summary: summary(100) },
+    { label: '15-31 Mar', start: '2026-03-14T13:00:00.000Z', end: '2026-03-31T12:59:59.999Z', summary: summary(200) },
+  ];
+
+  it('finds the period that starts at the given date', () => {
+    expect(snapshotPeriodSummary({ periods }, new Date('2026-03-14T13:00:00.000Z'))?.budgeted).toBe(200);
+  });
+
+  it('is null for snapshots without periods or a different period layout', () => {
+    expect(snapshotPeriodSummary({}, new Date('2026-02-28T13:00:00.000Z'))).toBeNull();
+    expect(snapshotPeriodSummary(null, new Date('2026-02-28T13:00:00.000Z'))).toBeNull();
+    expect(snapshotPeriodSummary({ periods }, new Date('2026-03-07T13:00:00.000Z'))).toBeNull();
+  });
+});
@@ -7,10 +7,18 @@ import {
   calculateBudgeted,
   calculateSpent,
   calculateCarryover,
+  calculateRolloverIntoPeriod,
+  calculateClosingBalances,
+  envelopeTargets,
+  normalizeCarryoverMode,
   calculateBudgetSummary,
   getNextPeriodDate,
   getPreviousPeriodDate,
   getMonthKeyForPeriod,
+  getPeriodsStartingInMonth,
+  isPayCyclePeriod,
+  payCycleAnchorFromSource,
+  payFrequencyMatchesPeriod,
   DEFAULT_BUDGET_TIMEZONE,
   getDateComponentsInTimezone,
   midnightInTimezone,
@@ -22,6 +30,7 @@ import {
   type TransactionInput,
   type CategoryMapping,
   type BudgetSummaryInput,
+  type BudgetSummary,
 } from "../budget-engine";
 
 describe("getBudgetPeriodRange", () => {
@@ -213,6 +222,12 @@ describe("convertToTargetPeriod", () => {
   it("rounds to nearest cent", () => {
     expect(convertToTargetPeriod(100000, "quarterly", "monthly")).toBe(33333);
   });
+
+  it("four-weekly counts as monthly", () => {
+    expect(convertToTargetPeriod(200000, "four-weekly", "monthly")).toBe(200000);
+    expect(convertToTargetPeriod(200000, "monthly", "four-weekly")).toBe(200000);
+    expect(convertToTargetPeriod(50000, "weekly", "four-weekly")).toBe(200000);
+  });
 });
 
 describe("resolveSplitPercentage", () => {
@@ -463,18 +478,101 @@ describe("calculateSpent", () => {
     const totalSpent = Array.from(result.values()).reduce((a, b) => a + b, 0);
     expect(totalSpent).toBe(105000);
   });
+
+  it("counts split transactions per line item", () => {
+    const txns: TransactionInput[] = [
+      {
+        id: "t1", amount_cents: -15000, category_id: "groceries", created_at: "2026-02-10",
+        splits: [
+          { amount_cents: -9000, category_id: "groceries" },
+          { amount_cents: -6000, category_id: "rent" },
+        ],
+      },
+    ];
+    const result = calculateSpent(txns, mappings, [], "shared", "user-1", "user-1");
+    expect(result.get("Food & Dining::Groceries")).toBe(9000);
+    expect(result.get("Housing::Rent")).toBe(6000);
+  });
+
+  it("applies a split line's shared/individual flag in individual view", () => {
+    const txns: TransactionInput[] = [
+      {
+        id: "t1", amount_cents: -20000, category_id: "groceries", created_at: "2026-02-10",
+        split_override_percentage: 30,
+        splits: [
+          { amount_cents: -10000, category_id: "groceries", is_shared: false },
+          { amount_cents: -6000, category_id: "groceries", is_shared: true },
+          { amount_cents: -4000, category_id: "groceries", is_shared: null },
+        ],
+      },
+    ];
+    const result = calculateSpent(txns, mappings, [], "individual", "user-1", "user-1");
+    // 10000 in full + 6000 at 50/50 + 4000 at the transaction's 30% override
+    expect(result.get("Food & Dining::Groceries")).toBe(10000 + 3000 + 1200);
+  });
+
+  it("uses the category split for shared lines when configured", () => {
+    const txns: TransactionInput[] = [
+      {
+        id: "t1", amount_cents: -10000, category_id: "groceries", created_at: "2026-02-10",
+        splits: [
+          { amount_cents: -5000, category_id: "groceries", is_shared: true },
+          { amount_cents: -5000, category_id: "rent", is_shared: true },
+        ],
+      },
+    ];
+    const splits: SplitSettingInput[] = [
+      { category_name: "Housing", split_type: "custom", owner_percentage: 80 },
+    ];
+    const result = calculateSpent(txns, mappings, splits, "individual", "user-1", "user-1");
+    expect(result.get("Food & Dining::Groceries")).toBe(2500);
+    expect(result.get("Housing::Rent")).toBe(4000);
+  });
 });
 
 describe("calculateCarryover", () => {
-  it("always returns 0 (fresh each period)", () => {
+  it("returns 0 in none mode (fresh each period)", () => {
     expect(calculateCarryover({
       mode: "none",
-      prevIncome: 500000,
-      prevCarryover: 100000,
-      prevBudgeted: 200000,
-      prevSpent: 100000,
+      budgeted: 200000,
+      spent: 100000,
+      carriedIn: 50000,
     })).toBe(0);
   });
+
+  it("rolls unspent money and forgives overspend", () => {
+    expect(calculateCarryover({ mode: "rollover-unspent", budgeted: 50000, spent: 30000, carriedIn: 10000 })).toBe(30000);
+    expect(calculateCarryover({ mode: "rollover-unspent", budgeted: 50000, spent: 80000, carriedIn: 0 })).toBe(0);
+  });
+
+  it("carries overspend forward as debt", () => {
+    expect(calculateCarryover({ mode: "rollover-with-debt", budgeted: 50000, spent: 80000, carriedIn: 0 })).toBe(-30000);
+    expect(calculateCarryover({ mode: "rollover-with-debt", budgeted: 50000, spent: 20000, carriedIn: -10000 })).toBe(20000);
+  });
+
+  it("caps rollover at the target", () => {
+    expect(calculateCarryover({ mode: "rollover-capped", budgeted: 50000, spent: 0, carriedIn: 60000, target: 80000 })).toBe(80000);
+    expect(calculateCarryover({ mode: "rollover-capped", budgeted: 50000, spent: 0, carriedIn: 10000, target: 80000 })).toBe(60000);
+  });
+
+  it("falls back to the budgeted amount when no target is given", () => {
+    expect(calculateCarryover({ mode: "rollover-capped", budgeted: 50000, spent: 0, carriedIn: 20000 })).toBe(50000);
+  });
+
+  it("never carries debt when capped", () => {
+    expect(calculateCarryover({ mode: "rollover-capped", budgeted: 50000, spent: 90000, carriedIn: 0, target: 80000 })).toBe(0);
+  });
+});
+
+describe("normalizeCarryoverMode", () => {
+  it("passes through known modes", () => {
+    expect(normalizeCarryoverMode("rollover-with-debt")).toBe("rollover-with-debt");
+  });
+
+  it("maps legacy and unknown values to none", () => {
+    expect(normalizeCarryoverMode("spending-based")).toBe("none");
+    expect(normalizeCarryoverMode(null)).toBe("none");
+  });
 });
 
 describe("calculateBudgetSummary", () => {
@@ -593,6 +691,161 @@ describe("calculateBudgetSummary", () => {
   });
 });
 
+describe("envelope rollover", () => {
+  const month = (start: string, end: string, label: string): PeriodRange => ({
+    start: new Date(start),
+    end: new Date(end),
+    label,
+  });
+
+  const periodInput = (
+    periodRange: PeriodRange,
+    assigned: number,
+    spent: number,
+    extra: Partial<AssignmentInput> = {}
+  ): BudgetSummaryInput => ({
+    periodType: "monthly",
+    budgetView: "shared",
+    carryoverMode: "rollover-with-debt",
+    methodology: "zero-based",
+    totalBudget: null,
+    userId: "user-1",
+    ownerUserId: "user-1",
+    periodRange,
+    incomeSources: [],
+    assignments: [
+      { category_name: "Food & Dining", subcategory_name: "Groceries", assigned_cents: assigned, assignment_type: "category", ...extra },
+    ],
+    transactions: spent > 0
+      ? [{ id: `t-${periodRange.label}`, amount_cents: -spent, category_id: "groceries", created_at: periodRange.start.toISOString() }]
+      : [],
+    expenseDefinitions: [],
+    splitSettings: [],
+    categoryMappings: [
+      { up_category_id: "groceries", new_parent_name: "Food & Dining", new_child_name: "Groceries" },
+    ],
+    carryoverFromPrevious: 0,
+  });
+
+  const jan = month("2026-01-01", "2026-01-31T23:59:59.999Z", "January 2026");
+  const feb = month("2026-02-01", "2026-02-28T23:59:59.999Z", "February 2026");
+  const mar = month("2026-03-01", "2026-03-31T23:59:59.999Z", "March 2026");
+
+  it("adds rolled-in balances to row available without touching TBB", () => {
+    const input = {
+      ...periodInput(mar, 50000, 10000),
+      rolloverFromPrevious: new Map([["Food & Dining::Groceries", 20000]]),
+    };
+    const result = calculateBudgetSummary(input);
+    const groceries = result.rows.find((r) => r.name === "Groceries");
+    expect(groceries!.carryover).toBe(20000);
+    expect(groceries!.available).toBe(60000); // 50000 + 20000 - 10000
+    expect(result.rollover).toBe(20000);
+    expect(result.tbb).toBe(-50000); // no income, only the new assignment
+  });
+
+  it("creates rows for envelopes that only have a rolled-in balance", () => {
+    const input = {
+      ...periodInput(mar, 0, 0),
+      assignments: [],
+      rolloverFromPrevious: new Map([["Food & Dining::Groceries", -5000]]),
+    };
+    const groceries = calculateBudgetSummary(input).rows.find((r) => r.name === "Groceries");
+    expect(groceries).toBeDefined();
+    expect(groceries!.available).toBe(-5000);
+  });
+
+  it("chains balances across periods", () => {
+    const history = [periodInput(jan, 50000, 30000), periodInput(feb, 50000, 60000)];
+    const carry = calculateRolloverIntoPeriod("rollover-with-debt", history);
+    // Jan: +20000, Feb: 20000 + 50000 - 60000 = 10000
+    expect(carry.get("Food & Dining::Groceries")).toBe(10000);
+  });
+
+  it("forgives overspend mid-chain in rollover-unspent mode", () => {
+    const history = [periodInput(jan, 50000, 90000), periodInput(feb, 50000, 30000)];
+    const carry = calculateRolloverIntoPeriod("rollover-unspent", history);
+    expect(carry.get("Food & Dining::Groceries")).toBe(20000);
+  });
+
+  it("caps sinking funds at their target", () => {
+    const history = [periodInput(jan, 50000, 0), periodInput(feb, 50000, 0)];
+    const carry = calculateRolloverIntoPeriod(
+      "rollover-capped",
+      history,
+      new Map([["Food & Dining::Groceries", 80000]])
+    );
+    expect(carry.get("Food & Dining::Groceries")).toBe(80000);
+  });
+
+  it("resets envelopes whose assignment opts out of rollover", () => {
+    const history = [periodInput(jan, 50000, 0), periodInput(feb, 50000, 0, { rollover: false })];
+    const carry = calculateRolloverIntoPeriod("rollover-with-debt", history);
+    expect(carry.has("Food & Dining::Groceries")).toBe(false);
+  });
+
+  it("returns nothing in none mode", () => {
+    const carry = calculateRolloverIntoPeriod("none", [periodInput(jan, 50000, 0)]);
+    expect(carry.size).toBe(0);
+  });
+
+  it("starts from stored opening balances", () => {
+    const carry = calculateRolloverIntoPeriod(
+      "rollover-with-debt",
+      [periodInput(feb, 50000, 30000)],
+      undefined,
+      new Map([["Food & Dining::Groceries", 120000]])
+    );
+    expect(carry.get("Food & Dining::Groceries")).toBe(140000);
+  });
+
+  it("returns the opening balances when there is nothing to replay", () => {
+    const opening = new Map([["Food & Dining::Groceries", 120000]]);
+    const carry = calculateRolloverIntoPeriod("rollover-unspent", [], undefined, opening);
+    expect(carry).toEqual(opening);
+    expect(carry).not.toBe(opening);
+  });
+});
+
+describe("calculateClosingBalances", () => {
+  const summary = {
+    rows: [
+      { id: "Transport::Rego", type: "subcategory", budgeted: 10000, spent: 0, carryover: 75000 },
+      { id: "Food & Dining::Groceries", type: "subcategory", budgeted: 50000, spent: 60000, carryover: 0 },
+      { id: "goal::g1", type: "goal", budgeted: 20000, spent: 0, carryover: 0 },
+    ],
+  } as unknown as BudgetSummary;
+
+  it("carries each envelope's balance with the mode's rules", () => {
+    const balances = calculateClosingBalances("rollover-with-debt", summary, []);
+    expect(Object.fromEntries(balances)).toEqual({
+      "Transport::Rego": 85000,
+      "Food & Dining::Groceries": -10000,
+    });
+  });
+
+  it("caps at the target and skips envelopes opted out of rollover", () => {
+    const balances = calculateClosingBalances(
+      "rollover-capped",
+      summary,
+      [{ category_name: "Food & Dining", subcategory_name: "Groceries", assignment_type: "category", rollover: false }],
+      new Map([["Transport::Rego", 80000]])
+    );
+    expect(Object.fromEntries(balances)).toEqual({ "Transport::Rego": 80000 });
+  });
+});
+
+describe("envelopeTargets", () => {
+  it("uses the largest expected bill per envelope", () => {
+    const targets = envelopeTargets([
+      { id: "e1", category_name: "Transport", inferred_subcategory: "Rego", expected_amount_cents: 80000, recurrence_type: "yearly" },
+      { id: "e2", category_name: "Transport", inferred_subcategory: "Rego", expected_amount_cents: 30000, recurrence_type: "yearly" },
+      { id: "e3", category_name: "Bills", inferred_subcategory: null, expected_amount_cents: 5000, recurrence_type: "monthly" },
+    ]);
+    expect(Object.fromEntries(targets)).toEqual({ "Transport::Rego": 80000 });
+  });
+});
+
 describe("goal and asset contributions", () => {
   const baseInput: BudgetSummaryInput = {
     periodType: "monthly",
@@ -805,6 +1058,150 @@ describe("period navigation", () => {
   });
 });
 
+describe("pay-cycle periods", () => {
+  const tz = "Australia/Sydney";
+  const at = (y: number, m: number, d: number) => midnightInTimezone(y, m, d, tz);
+  const endOf = (y: number, m: number, d: number) => new Date(at(y, m, d + 1).getTime() - 1);
+
+  describe("fortnightly from a payday", () => {
+    // Paid every second Thursday from 12 Mar 2026
+    const anchor = "2026-03-12";
+
+    it("runs from one payday to the day before the next", () => {
+      const result = getBudgetPeriodRange(at(2026, 2, 20), "fortnightly", tz, anchor);
+      expect(result.start).toEqual(at(2026, 2, 12));
+      expect(result.end).toEqual(endOf(2026, 2, 25));
+      expect(result.label).toBe("12 Mar - 25 Mar");
+    });
+
+    it("steps back from the anchor for earlier dates", () => {
+      const result = getBudgetPeriodRange(at(2026, 2, 5), "fortnightly", tz, anchor);
+      expect(result.start).toEqual(at(2026, 1, 26));
+      expect(result.end).toEqual(endOf(2026, 2, 11));
+    });
+
+    it("gives the same periods for any payday on the cycle", () => {
+      const later = getBudgetPeriodRange(at(2026, 2, 20), "fortnightly", tz, "2026-04-23");
+      expect(later.start).toEqual(at(2026, 2, 12));
+    });
+
+    it("navigates along the pay cycle", () => {
+      expect(getNextPeriodDate(at(2026, 2, 20), "fortnightly", tz, anchor)).toEqual(at(2026, 2, 26));
+      expect(getPreviousPeriodDate(at(2026, 2, 20), "fortnightly", tz, anchor)).toEqual(at(2026, 1, 26));
+    });
+  });
+
+  describe("monthly from the 15th", () => {
+    const anchor = "2026-01-15";
+
+    it("runs from the 15th to the 14th", () => {
+      const before = getBudgetPeriodRange(at(2026, 2, 10), "monthly", tz, anchor);
+      expect(before.start).toEqual(at(2026, 1, 15));
+      expect(before.end).toEqual(endOf(2026, 2, 14));
+
+      const after = getBudgetPeriodRange(at(2026, 2, 20), "monthly", tz, anchor);
+      expect(after.start).toEqual(at(2026, 2, 15));
+      expect(after.end).toEqual(endOf(2026, 3, 14));
+      expect(after.label).toBe("15 Mar - 14 Apr");
+    });
+
+    it("starts on the last day of short months for an anchor on the 31st", () => {
+      const feb = getBudgetPeriodRange(at(2026, 1, 28), "monthly", tz, "2026-01-31");
+      expect(feb.start).toEqual(at(2026, 1, 28));
+      expect(feb.end).toEqual(endOf(2026, 2, 30));
+
+      const jan = getBudgetPeriodRange(at(2026, 1, 20), "monthly", tz, "2026-01-31");
+      expect(jan.start).toEqual(at(2026, 0, 31));
+      expect(jan.end).toEqual(endOf(2026, 1, 27));
+    });
+
+    it("is the calendar month for an anchor on the 1st", () => {
+      expect(getBudgetPeriodRange(at(2026, 2, 20), "monthly", tz, "2026-01-01")).toEqual(
+        getBudgetPeriodRange(at(2026, 2, 20), "monthly", tz)
+      );
+    });
+  });
+
+  describe("four-weekly", () => {
+    it("steps 28 days from the default anchor without a pay date", () => {
+      const result = getBudgetPeriodRange(at(2026, 2, 1), "four-weekly", tz);
+      expect(result.start).toEqual(at(2026, 1, 23));
+      expect(result.end).toEqual(endOf(2026, 2, 22));
+      expect(getNextPeriodDate(at(2026, 2, 1), "four-weekly", tz)).toEqual(at(2026, 2, 23));
+    });
+
+    it("steps 28 days from a pay date set on the budget", () => {
+      const result = getBudgetPeriodRange(at(2026, 2, 1), "four-weekly", tz, "2026-02-12");
+      expect(result.start).toEqual(at(2026, 1, 12));
+      expect(result.end).toEqual(endOf(2026, 2, 11));
+      expect(getNextPeriodDate(at(2026, 2, 1), "four-weekly", tz, "2026-02-12")).toEqual(at(2026, 2, 12));
+      expect(getPeriodsStartingInMonth(2026, 2, "four-weekly", tz, "2026-02-12").map((r) => r.start)).toEqual([
+        at(2026, 2, 12),
+      ]);
+    });
+  });
+
+  describe("getPeriodsStartingInMonth", () => {
+    it("lists the pay-cycle periods that start in the month", () => {
+      expect(
+        getPeriodsStartingInMonth(2026, 2, "fortnightly", tz, "2026-03-12").map((r) => r.start)
+      ).toEqual([at(2026, 2, 12), at(2026, 2, 26)]);
+      expect(getPeriodsStartingInMonth(2026, 2, "weekly", tz, "2026-03-02")).toHaveLength(5);
+    });
+
+    it("leaves out a period that started the month before", () => {
+      expect(getPeriodsStartingInMonth(2026, 1, "four-weekly", tz).map((r) => r.start)).toEqual([
+        at(2026, 1, 23),
+      ]);
+    });
+
+    it("lists the month-aligned periods without an anchor", () => {
+      expect(getPeriodsStartingInMonth(2026, 1, "fortnightly", tz).map((r) => r.start)).toEqual([
+        at(2026, 1, 1),
+        at(2026, 1, 15),
+      ]);
+    });
+  });
+
+  it("isPayCyclePeriod: only anchored periods follow a pay cycle", () => {
+    expect(isPayCyclePeriod("fortnightly", null)).toBe(false);
+    expect(isPayCyclePeriod("fortnightly", "2026-03-12")).toBe(true);
+    expect(isPayCyclePeriod("monthly", "2026-03-01")).toBe(false);
+    expect(isPayCyclePeriod("monthly", "2026-03-15")).toBe(true);
+    expect(isPayCyclePeriod("four-weekly")).toBe(true);
+  });
+
+  it("payFrequencyMatchesPeriod: a pay source must be paid on the budget's period", () => {
+    expect(payFrequencyMatchesPeriod("fortnightly", "fortnightly")).toBe(true);
+    expect(payFrequencyMatchesPeriod("monthly", "monthly")).toBe(true);
+    expect(payFrequencyMatchesPeriod("fortnightly", "monthly")).toBe(false);
+    expect(payFrequencyMatchesPeriod("monthly", "weekly")).toBe(false);
+    expect(payFrequencyMatchesPeriod("four-weekly", "fortnightly")).toBe(false);
+    expect(payFrequencyMatchesPeriod("weekly", null)).toBe(false);
+  });
+
+  it("payCycleAnchorFromSource takes the source's next pay date, else its last", () => {
+    expect(payCycleAnchorFromSource({ next_pay_date: "2026-03-26", last_pay_date: "2026-03-12" })).toBe("2026-03-26");
+    expect(payCycleAnchorFromSource({ next_pay_date: null, last_pay_date: "2026-03-12" })).toBe("2026-03-12");
+    expect(payCycleAnchorFromSource(null)).toBeNull();
+  });
+
+  it("advancing the source's next_pay_date doesn't move the periods", () => {
+    // Monthly pay on the 31st; linking copies the anchor into the budget
+    const source = { next_pay_date: "2026-01-31", last_pay_date: null };
+    const budget = { period_type: "monthly" as const, period_anchor_date: payCycleAnchorFromSource(source) };
+    const periodsIn = (month: number) =>
+      getPeriodsStartingInMonth(2026, month, budget.period_type, tz, budget.period_anchor_date).map((r) => r.start);
+    const before = [periodsIn(1), periodsIn(2), periodsIn(3)];
+
+    // Paydays advance the source (setMonth turns 31 Jan into 3 Mar)
+    source.next_pay_date = "2026-03-03";
+
+    expect([periodsIn(1), periodsIn(2), periodsIn(3)]).toEqual(before);
+    expect(before.map((starts) => starts[0])).toEqual([at(2026, 1, 28), at(2026, 2, 31), at(2026, 3, 30)]);
+  });
+});
+
 describe("timezone helpers", () => {
   it("DEFAULT_BUDGET_TIMEZONE is Australia/Sydney", () => {
     expect(DEFAULT_BUDGET_TIMEZONE).toBe("Australia/Sydney");
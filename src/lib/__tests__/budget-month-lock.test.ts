@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+const PARTNERSHIP = '00000000-0000-0000-0000-000000000001';
+const GOAL = '00000000-0000-0000-0000-000000000002';
+
+// Just enough of the schema for the closed-month lock: the tables and the
+// cascading goal foreign key, with the trigger function from its latest
+// migration.
+const SCHEMA = `
+  CREATE TABLE public.partnerships (id uuid PRIMARY KEY);
+  CREATE TABLE public.savings_goals (id uuid PRIMARY KEY);
+  CREATE TABLE public.budget_months (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    partnership_id uuid NOT NULL REFERENCES public.partnerships(id) ON DELETE CASCADE,
+    month date NOT NULL,
+    budget_id uuid,
+    closed_at timestamp with time zone
+  );
+  CREATE TABLE public.budget_assignments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    partnership_id uuid NOT NULL REFERENCES public.partnerships(id) ON DELETE CASCADE,
+    month date NOT NULL,
+    category_name text NOT NULL,
+    assigned_cents bigint NOT NULL DEFAULT 0,
+    assignment_type text DEFAULT 'category',
+    goal_id uuid REFERENCES public.savings_goals(id) ON DELETE CASCADE,
+    budget_id uuid
+  );
+`;
+
+describe('enforce_budget_month_open', () => {
+  let db: PGlite;
+
+  beforeEach(async () => {
+    db = new PGlite();
+    await db.exec(SCHEMA);
+    await db.exec(
+      readFileSync(
+        join(__dirname, '../../../supabase/migrations/20261019000027_budget_month_close_cascades.sql'),
+        'utf8'
+      )
+    );
+    await db.exec(`
+      CREATE TRIGGER enforce_budget_month_open
+        BEFORE INSERT OR UPDATE OR DELETE ON public.budget_assignments
+        FOR EACH ROW EXECUTE FUNCTION public.enforce_budget_month_open();
+      INSERT INTO public.partnerships (id) VALUES ('${PARTNERSHIP}');
+      INSERT INTO public.savings_goals (id) VALUES ('${GOAL}');
+      INSERT INTO public.budget_assignments (partnership_id, month, category_name, assignment_type, goal_id, assigned_cents)
+        VALUES ('${PARTNERSHIP}', '2026-03-01', '', 'goal', '${GOAL}', 5000);
+      INSERT INTO public.budget_months (partnership_id, month, closed_at)
+        VALUES ('${PARTNERSHIP}', '2026-03-01', now());
+    `);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  async function assignmentCount() {
+    const { rows } = await db.query<{ count: number }>('SELECT count(*)::int AS count FROM public.budget_assignments');
+    return rows[0].count;
+  }
+
+  it('rejects changes to assignments in a closed month', async () => {
+    await expect(db.exec('UPDATE public.budget_assignments SET assigned_cents = 0')).rejects.toThrow(
+      'This budget month is closed'
+    );
+    await expect(db.exec('DELETE FROM public.budget_assignments')).rejects.toThrow('This budget month is closed');
+    await expect(
+      db.exec(`INSERT INTO public.budget_assignments (partnership_id, month, category_name)
+        VALUES ('${PARTNERSHIP}', '2026-03-01', 'Food')`)
+    ).rejects.toThrow('This budget month is closed');
+    expect(await assignmentCount()).toBe(1);
+  });
+
+  it('lets a goal with an assignment in a closed month be deleted', async () => {
+    await db.exec(`DELETE FROM public.savings_goals WHERE id = '${GOAL}'`);
+    expect(await assignmentCount()).toBe(0);
+  });
+
+  it('lets a partnership with a closed month be deleted', async () => {
+    await db.exec(`DELETE FROM public.partnerships WHERE id = '${PARTNERSHIP}'`);
+    expect(await assignmentCount()).toBe(0);
+  });
+});
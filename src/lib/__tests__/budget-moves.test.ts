@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  targetFromRowKey,
+  spareCents,
+  planMove,
+  toMoveSide,
+  coverSuggestions,
+  UNASSIGNED_LABEL,
+  type MoveRow,
+} from '../budget-moves';
+
+function row(overrides: Partial<MoveRow> & Pick<MoveRow, 'id'>): MoveRow {
+  return {
+    type: 'subcategory',
+    name: overrides.id.split('::').pop() ?? overrides.id,
+    budgeted: 0,
+    available: 0,
+    isExpenseDefault: false,
+    ...overrides,
+  };
+}
+
+describe('targetFromRowKey', () => {
+  it('parses category, goal and asset keys', () => {
+    expect(targetFromRowKey('Food & Dining::Groceries')).toEqual({
+      assignment_type: 'category',
+      category_name: 'Food & Dining',
+      subcategory_name: 'Groceries',
+    });
+    expect(targetFromRowKey('goal::g1')).toEqual({ assignment_type: 'goal', goal_id: 'g1' });
+    expect(targetFromRowKey('asset::a1')).toEqual({ assignment_type: 'asset', asset_id: 'a1' });
+  });
+
+  it('rejects keys that are not envelopes', () => {
+    expect(targetFromRowKey('Food & Dining')).toBeNull();
+    expect(targetFromRowKey('a::b::c')).toBeNull();
+    expect(targetFromRowKey('goal::')).toBeNull();
+  });
+});
+
+describe('spareCents', () => {
+  it('is the unspent part of this period\'s assignment', () => {
+    expect(spareCents({ budgeted: 50000, available: 20000 })).toBe(20000);
+  });
+
+  it('ignores carried-over money and never goes negative', () => {
+    expect(spareCents({ budgeted: 10000, available: 30000 })).toBe(10000);
+    expect(spareCents({ budgeted: 10000, available: -500 })).toBe(0);
+  });
+});
+
+describe('planMove', () => {
+  const groceries = row({ id: 'Food::Groceries', budgeted: 50000, available: 20000 });
+  const dining = row({ id: 'Food::Dining', budgeted: 10000, available: -3000 });
+
+  it('returns the assigned amounts left on each side', () => {
+    expect(planMove(groceries, dining, 3000)).toEqual({ fromBudgetedCents: 47000, toBudgetedCents: 13000 });
+    expect(planMove(null, dining, 3000)).toEqual({ fromBudgetedCents: null, toBudgetedCents: 13000 });
+    expect(planMove(groceries, null, 50000)).toEqual({ fromBudgetedCents: 0, toBudgetedCents: null });
+  });
+
+  it('rejects bad amounts and sides', () => {
+    expect(planMove(groceries, dining, 0)).toEqual({ error: 'Amount must be more than zero' });
+    expect(planMove(groceries, dining, 1.5)).toEqual({ error: 'Amount must be more than zero' });
+    expect(planMove(null, null, 100)).toEqual({ error: 'Choose where to move money from or to' });
+    expect(planMove(groceries, groceries, 100)).toEqual({ error: 'Choose two different envelopes' });
+  });
+
+  it('cannot move more than is assigned', () => {
+    expect(planMove(dining, groceries, 10001)).toEqual({ error: 'Only $100.00 is assigned to Dining' });
+  });
+
+  it('will not empty an expense default', () => {
+    const rent = row({ id: 'Housing::Rent', budgeted: 200000, available: 200000, isExpenseDefault: true });
+    expect(planMove(rent, null, 200000)).toHaveProperty('error');
+    expect(planMove(rent, null, 199900)).toEqual({ fromBudgetedCents: 100, toBudgetedCents: null });
+  });
+});
+
+describe('toMoveSide', () => {
+  it('carries the assignment identity and shown amount', () => {
+    expect(toMoveSide(row({ id: 'Food::Groceries', budgeted: 50000 }))).toEqual({
+      key: 'Food::Groceries',
+      label: 'Groceries',
+      assignment_type: 'category',
+      category_name: 'Food',
+      subcategory_name: 'Groceries',
+      goal_id: null,
+      asset_id: null,
+      shown_cents: 50000,
+    });
+    expect(toMoveSide(row({ id: 'goal::g1', type: 'goal', name: 'Holiday', budgeted: 100 }))).toMatchObject({
+      assignment_type: 'goal',
+      goal_id: 'g1',
+      category_name: null,
+    });
+  });
+
+  it('returns null for an unknown key', () => {
+    expect(toMoveSide(row({ id: 'Food' }))).toBeNull();
+  });
+});
+
+describe('coverSuggestions', () => {
+  const overspent = row({ id: 'Food::Dining', budgeted: 10000, available: -6000 });
+  const rows: MoveRow[] = [
+    overspent,
+    row({ id: 'Food::Groceries', budgeted: 50000, available: 4000 }),
+    row({ id: 'Fun::Hobbies', budgeted: 20000, available: 15000 }),
+    row({ id: 'Bills::Phone', budgeted: 5000, available: -100 }),
+    row({ id: 'goal::g1', type: 'goal', name: 'Holiday', budgeted: 30000, available: 30000 }),
+    row({ id: 'Housing::Rent', budgeted: 3000, available: 3000, isExpenseDefault: true }),
+  ];
+
+  it('ranks sources by spare money with savings last', () => {
+    const suggestions = coverSuggestions(rows, 'Food::Dining', 2000);
+    expect(suggestions.map((s) => s.label)).toEqual(['Hobbies', 'Groceries', UNASSIGNED_LABEL, 'Holiday']);
+    expect(suggestions[0]).toMatchObject({ spareCents: 15000, amountCents: 6000, coversAll: true });
+    expect(suggestions[1]).toMatchObject({ spareCents: 4000, amountCents: 4000, coversAll: false });
+    expect(suggestions[2].from).toBeNull();
+  });
+
+  it('skips a source the move would empty back to its expense default', () => {
+    const rent = row({ id: 'Housing::Rent', budgeted: 3000, available: 3000, isExpenseDefault: true });
+    const suggestions = coverSuggestions([overspent, rent], 'Food::Dining', 0);
+    expect(suggestions).toEqual([]);
+  });
+
+  it('respects the limit', () => {
+    expect(coverSuggestions(rows, 'Food::Dining', 2000, 2)).toHaveLength(2);
+  });
+
+  it('returns nothing for an envelope that is not overspent', () => {
+    expect(coverSuggestions(rows, 'Food::Groceries', 2000)).toEqual([]);
+    expect(coverSuggestions(rows, 'Missing::Row', 2000)).toEqual([]);
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect } from "vitest";
+import {
+  addMonthsClamped,
+  buildCashflowCalendar,
+  everydayAccountFor,
+  occurrencesBetween,
+  projectBillEvents,
+  projectContributionEvents,
+  projectIncomeEvents,
+  type CalendarAccount,
+} from "../cashflow-calendar";
+
+const spending: CalendarAccount = {
+  id: "spend",
+  display_name: "Spending",
+  account_type: "TRANSACTIONAL",
+  balance_cents: 500_00,
+  user_id: "user-1",
+};
+
+const partnerSpending: CalendarAccount = {
+  id: "partner-spend",
+  display_name: "Partner Spending",
+  account_type: "TRANSACTIONAL",
+  balance_cents: 1_000_00,
+  user_id: "user-2",
+};
+
+const saver: CalendarAccount = {
+  id: "saver",
+  display_name: "Holiday",
+  account_type: "SAVER",
+  balance_cents: 2_000_00,
+  user_id: "user-1",
+};
+
+const accounts = [saver, spending, partnerSpending];
+
+describe("date stepping", () => {
+  it("clamps monthly dates to the end of short months", () => {
+    expect(addMonthsClamped("2026-01-31", 1)).toBe("2026-02-28");
+    expect(addMonthsClamped("2026-01-31", 2)).toBe("2026-03-31");
+  });
+
+  it("steps fortnightly from the anchor within the window", () => {
+    expect(
+      occurrencesBetween("2026-10-01", "fortnightly", "2026-10-10", "2026-11-15")
+    ).toEqual(["2026-10-15", "2026-10-29", "2026-11-12"]);
+  });
+
+  it("returns the anchor only for non-repeating schedules", () => {
+    expect(occurrencesBetween("2026-10-20", null, "2026-10-19", "2026-12-31")).toEqual([
+      "2026-10-20",
+    ]);
+  });
+});
+
+describe("everydayAccountFor", () => {
+  it("prefers the user's own transactional account", () => {
+    expect(everydayAccountFor(accounts, "user-2")).toBe("partner-spend");
+  });
+
+  it("falls back to any transactional account", () => {
+    expect(everydayAccountFor(accounts, "someone-else")).toBe("spend");
+  });
+});
+
+describe("projectIncomeEvents", () => {
+  it("lands each pay in the earner's everyday account", () => {
+    const events = projectIncomeEvents(
+      [
+        {
+          id: "salary",
+          name: "Salary",
+          amount_cents: 2_500_00,
+          frequency: "fortnightly",
+          next_pay_date: "2026-10-23",
+          user_id: "user-2",
+        },
+      ],
+      accounts,
+      "2026-10-19",
+      "2026-11-19"
+    );
+
+    expect(events.map((e) => e.date)).toEqual(["2026-10-23", "2026-11-06"]);
+    expect(events.every((e) => e.account_id === "partner-spend")).toBe(true);
+    expect(events[0].amount_cents).toBe(2_500_00);
+  });
+});
+
+describe("projectBillEvents", () => {
+  it("projects repeats as outflows and brings overdue bills forward to today", () => {
+    const events = projectBillEvents(
+      [
+        {
+          id: "rent",
+          name: "Rent",
+          expected_amount_cents: 1_800_00,
+          recurrence_type: "fortnightly",
+          next_due_date: "2026-10-21",
+          created_by: "user-1",
+        },
+        {
+          id: "rego",
+          name: "Car rego",
+          expected_amount_cents: 700_00,
+          recurrence_type: "yearly",
+          next_due_date: "2026-10-15",
+          created_by: "user-1",
+        },
+      ],
+      accounts,
+      "2026-10-19",
+      "2026-11-10"
+    );
+
+    expect(events.map((e) => [e.name, e.date])).toEqual([
+      ["Rent", "2026-10-21"],
+      ["Rent", "2026-11-04"],
+      ["Car rego", "2026-10-19"],
+    ]);
+    expect(events[0].amount_cents).toBe(-1_800_00);
+    expect(events[0].account_id).toBe("spend");
+  });
+
+  it("skips one-time bills already outside the window", () => {
+    const events = projectBillEvents(
+      [
+        {
+          id: "once",
+          name: "Concert",
+          expected_amount_cents: 150_00,
+          recurrence_type: "one-time",
+          next_due_date: "2026-12-20",
+          created_by: "user-1",
+        },
+      ],
+      accounts,
+      "2026-10-19",
+      "2026-11-19"
+    );
+    expect(events).toEqual([]);
+  });
+});
+
+describe("projectContributionEvents", () => {
+  it("places contributions on the first upcoming pay day of their month", () => {
+    const events = projectContributionEvents(
+      [
+        { id: "goal-1", kind: "goal", name: "Holiday", amount_cents: 300_00, month: "2026-10-01", linked_account_id: "saver" },
+        { id: "etf", kind: "investment", name: "VDHG", amount_cents: 200_00, month: "2026-11-01" },
+      ],
+      ["2026-10-23", "2026-11-06"],
+      accounts,
+      "user-1",
+      "2026-10-19",
+      "2026-11-19"
+    );
+
+    expect(events).toEqual([
+      expect.objectContaining({ date: "2026-10-23", account_id: "spend", to_account_id: "saver", amount_cents: -300_00 }),
+      expect.objectContaining({ date: "2026-11-06", account_id: "spend", to_account_id: null, amount_cents: -200_00 }),
+    ]);
+  });
+
+  it("treats a contribution with no pay day left in its month as already made", () => {
+    const events = projectContributionEvents(
+      [{ id: "goal-1", kind: "goal", name: "Holiday", amount_cents: 300_00, month: "2026-10-01" }],
+      [],
+      accounts,
+      "user-1",
+      "2026-10-19",
+      "2026-11-19"
+    );
+    expect(events).toEqual([]);
+  });
+});
+
+describe("buildCashflowCalendar", () => {
+  it("runs balances day by day and flags the days an account goes negative", () => {
+    const calendar = buildCashflowCalendar(
+      [spending],
+      [
+        { id: "rent", date: "2026-10-20", kind: "bill", name: "Rent", amount_cents: -800_00, account_id: "spend" },
+        { id: "pay", date: "2026-10-22", kind: "income", name: "Salary", amount_cents: 2_000_00, account_id: "spend" },
+      ],
+      "2026-10-19",
+      "2026-10-23"
+    );
+
+    expect(calendar.days.map((d) => d.balances.spend)).toEqual([
+      500_00, -300_00, -300_00, 1_700_00, 1_700_00,
+    ]);
+    expect(calendar.days[1].negativeAccountIds).toEqual(["spend"]);
+    expect(calendar.negativeDayCount).toBe(2);
+    expect(calendar.lowPoints.spend).toEqual({ date: "2026-10-20", balanceCents: -300_00 });
+  });
+
+  it("applies pay before bills on the same day", () => {
+    const calendar = buildCashflowCalendar(
+      [spending],
+      [
+        { id: "rent", date: "2026-10-19", kind: "bill", name: "Rent", amount_cents: -800_00, account_id: "spend" },
+        { id: "pay", date: "2026-10-19", kind: "income", name: "Salary", amount_cents: 2_000_00, account_id: "spend" },
+      ],
+      "2026-10-19",
+      "2026-10-19"
+    );
+
+    expect(calendar.days[0].events.map((e) => e.kind)).toEqual(["income", "bill"]);
+    expect(calendar.negativeDayCount).toBe(0);
+  });
+
+  it("moves goal contributions into the linked saver", () => {
+    const calendar = buildCashflowCalendar(
+      [spending, saver],
+      [
+        { id: "goal", date: "2026-10-19", kind: "goal", name: "Holiday", amount_cents: -100_00, account_id: "spend", to_account_id: "saver" },
+      ],
+      "2026-10-19",
+      "2026-10-19"
+    );
+
+    expect(calendar.days[0].balances).toEqual({ spend: 400_00, saver: 2_100_00 });
+    expect(calendar.days[0].totalCents).toBe(2_500_00);
+  });
+});
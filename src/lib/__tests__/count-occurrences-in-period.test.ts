@@ -85,6 +85,27 @@ describe("countOccurrencesInPeriod", () => {
       const count = countOccurrencesInPeriod("2020-01-03", "fortnightly", FEB_2026.start, FEB_2026.end);
       expect(count).toBe(2);
     });
+
+    it("counts occurrences in a pay-cycle period spanning two months", () => {
+      // Pay cycle Feb 26 - Mar 11; anchor Feb 19 → due Mar 5
+      const payCycle = period("2026-02-26T00:00:00Z", "2026-03-11T23:59:59.999Z");
+      const count = countOccurrencesInPeriod("2026-02-19", "fortnightly", payCycle.start, payCycle.end);
+      expect(count).toBe(1);
+    });
+  });
+
+  describe("four-weekly recurrence", () => {
+    it("steps 28 days from the anchor", () => {
+      // Feb 5, Mar 5, Apr 2, Apr 30
+      const febToApr = period("2026-02-01T00:00:00Z", "2026-04-30T23:59:59.999Z");
+      const count = countOccurrencesInPeriod("2026-03-05", "four-weekly", febToApr.start, febToApr.end);
+      expect(count).toBe(4);
+    });
+
+    it("counts 0 in a fortnight between occurrences", () => {
+      const count = countOccurrencesInPeriod("2026-02-05", "four-weekly", FEB_FN2.start, FEB_FN2.end);
+      expect(count).toBe(0);
+    });
   });
 
   describe("monthly recurrence", () => {
@@ -0,0 +1,281 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildWidgetData,
+  moveWidget,
+  normalizeWidgetSize,
+  packWidgets,
+  resolveWidgetPeriod,
+  sortWidgets,
+  widgetDataStart,
+  widgetListLength,
+  widgetPeriod,
+  type DashboardWidget,
+  type WidgetSources,
+} from "../dashboard-widgets";
+
+// Midday so local-date conversions can't cross a day boundary
+const NOW = new Date(2026, 9, 19, 12, 0, 0);
+
+const at = (y: number, m: number, d: number) => new Date(y, m - 1, d, 12, 0, 0).toISOString();
+
+function widget(overrides: Partial<DashboardWidget> = {}): DashboardWidget {
+  return {
+    id: "w1",
+    chart_type: "category-trend",
+    title: "Widget",
+    category_filter: [],
+    time_period: "this-month",
+    display_order: 0,
+    grid_width: 6,
+    grid_height: 3,
+    grid_x: 0,
+    grid_y: 0,
+    ...overrides,
+  };
+}
+
+function sources(overrides: Partial<WidgetSources> = {}): WidgetSources {
+  return {
+    transactions: [],
+    categoryParents: new Map(),
+    budgetAssignments: [],
+    netWorthSnapshots: [],
+    goals: [],
+    goalContributions: [],
+    bills: [],
+    ...overrides,
+  };
+}
+
+describe("resolveWidgetPeriod", () => {
+  it("covers whole calendar months", () => {
+    expect(resolveWidgetPeriod("this-month", NOW)).toEqual({ start: "2026-10-01", end: "2026-10-31", bucket: "day" });
+    expect(resolveWidgetPeriod("last-month", NOW)).toEqual({ start: "2026-09-01", end: "2026-09-30", bucket: "day" });
+    expect(resolveWidgetPeriod("3-months", NOW)).toEqual({ start: "2026-08-01", end: "2026-10-31", bucket: "month" });
+    expect(resolveWidgetPeriod("12-months", NOW)).toEqual({ start: "2025-11-01", end: "2026-10-31", bucket: "month" });
+  });
+
+  it("looks ahead from today for the next-days periods", () => {
+    expect(resolveWidgetPeriod("next-14-days", NOW)).toEqual({ start: "2026-10-19", end: "2026-11-02", bucket: "day" });
+  });
+
+  it("handles January's previous month", () => {
+    expect(resolveWidgetPeriod("last-month", new Date(2027, 0, 10, 12))).toEqual({
+      start: "2026-12-01",
+      end: "2026-12-31",
+      bucket: "day",
+    });
+  });
+});
+
+describe("widgetPeriod", () => {
+  it("falls back to the type's default when the period doesn't apply", () => {
+    expect(widgetPeriod("upcoming-bills", "this-month")).toBe("next-14-days");
+    expect(widgetPeriod("net-worth", "bogus")).toBe("6-months");
+    expect(widgetPeriod("merchant-top", "12-months")).toBe("12-months");
+  });
+});
+
+describe("widget sizes", () => {
+  it("snaps to the sizes the grid offers", () => {
+    expect(normalizeWidgetSize(null, null)).toEqual({ grid_width: 6, grid_height: 3 });
+    expect(normalizeWidgetSize(5, 1)).toEqual({ grid_width: 4, grid_height: 2 });
+    expect(normalizeWidgetSize(11, 6)).toEqual({ grid_width: 12, grid_height: 4 });
+  });
+
+  it("shows more list rows on taller widgets", () => {
+    expect(widgetListLength(2)).toBe(3);
+    expect(widgetListLength(3)).toBe(5);
+    expect(widgetListLength(4)).toBe(8);
+  });
+});
+
+describe("packWidgets", () => {
+  it("fills rows left to right and wraps below the tallest widget", () => {
+    const placed = packWidgets([
+      { id: "a", grid_width: 8, grid_height: 3 },
+      { id: "b", grid_width: 4, grid_height: 2 },
+      { id: "c", grid_width: 6, grid_height: 2 },
+      { id: "d", grid_width: 12, grid_height: 4 },
+    ]);
+    expect(placed.map((p) => [p.id, p.grid_x, p.grid_y, p.display_order])).toEqual([
+      ["a", 0, 0, 0],
+      ["b", 8, 0, 1],
+      ["c", 0, 3, 2],
+      ["d", 0, 5, 3],
+    ]);
+  });
+
+  it("clamps widgets wider than the grid", () => {
+    expect(packWidgets([{ id: "a", grid_width: 12, grid_height: 2 }], 6)[0].grid_width).toBe(6);
+  });
+});
+
+describe("sortWidgets and moveWidget", () => {
+  it("orders by display order, then position", () => {
+    const sorted = sortWidgets([
+      widget({ id: "b", display_order: 1 }),
+      widget({ id: "c", display_order: 0, grid_y: 2 }),
+      widget({ id: "a", display_order: 0, grid_y: 0 }),
+    ]);
+    expect(sorted.map((w) => w.id)).toEqual(["a", "c", "b"]);
+  });
+
+  it("moves a widget into another's place", () => {
+    const items = [{ id: "a" }, { id: "b" }, { id: "c" }];
+    expect(moveWidget(items, "a", "c").map((w) => w.id)).toEqual(["b", "c", "a"]);
+    expect(moveWidget(items, "c", "a").map((w) => w.id)).toEqual(["c", "a", "b"]);
+    expect(moveWidget(items, "a", "missing")).toBe(items);
+  });
+});
+
+describe("buildWidgetData", () => {
+  const transactions = [
+    { description: "Woolworths", amount_cents: -5000, category_id: "groceries", created_at: at(2026, 10, 2), is_income: false },
+    { description: "WOOLWORTHS ", amount_cents: -3000, category_id: "groceries", created_at: at(2026, 10, 5), is_income: false },
+    { description: "Netflix", amount_cents: -2000, category_id: "tv", created_at: at(2026, 10, 5), is_income: false },
+    { description: "Refund", amount_cents: -1000, category_id: "groceries", created_at: at(2026, 10, 6), is_income: true },
+    { description: "Coles", amount_cents: -4000, category_id: "groceries", created_at: at(2026, 9, 20), is_income: false },
+  ];
+
+  it("returns unsupported for unknown chart types", () => {
+    expect(buildWidgetData(widget({ chart_type: "donut" }), sources(), NOW)).toEqual({ type: "unsupported" });
+  });
+
+  it("buckets spending by day up to today, respecting the category filter", () => {
+    const data = buildWidgetData(widget({ category_filter: ["groceries"] }), sources({ transactions }), NOW);
+    if (data.type !== "category-trend") throw new Error(data.type);
+    expect(data.points).toHaveLength(19);
+    expect(data.points[1]).toEqual({ label: "2", amountCents: 5000 });
+    expect(data.points[4]).toEqual({ label: "5", amountCents: 3000 });
+    expect(data.totalCents).toBe(8000);
+  });
+
+  it("buckets spending by month for longer periods", () => {
+    const data = buildWidgetData(widget({ time_period: "3-months" }), sources({ transactions }), NOW);
+    if (data.type !== "category-trend") throw new Error(data.type);
+    expect(data.points).toEqual([
+      { label: "Aug", amountCents: 0 },
+      { label: "Sep", amountCents: 4000 },
+      { label: "Oct", amountCents: 10000 },
+    ]);
+  });
+
+  it("groups merchants case-insensitively and ranks by spend", () => {
+    const data = buildWidgetData(widget({ chart_type: "merchant-top", grid_height: 2 }), sources({ transactions }), NOW);
+    if (data.type !== "merchant-top") throw new Error(data.type);
+    expect(data.merchants).toEqual([
+      { name: "Woolworths", amountCents: 8000, count: 2 },
+      { name: "Netflix", amountCents: 2000, count: 1 },
+    ]);
+    expect(data.totalCents).toBe(10000);
+  });
+
+  it("burns a filtered budget down through the month", () => {
+    const data = buildWidgetData(
+      widget({ chart_type: "budget-burndown", category_filter: ["groceries"] }),
+      sources({
+        transactions,
+        categoryParents: new Map([["groceries", "Food & Dining"], ["tv", "Entertainment"]]),
+        budgetAssignments: [
+          { month: "2026-10-01", category_name: "Food & Dining", assigned_cents: 31000 },
+          { month: "2026-10-01", category_name: "Entertainment", assigned_cents: 5000 },
+          { month: "2026-09-01", category_name: "Food & Dining", assigned_cents: 99999 },
+        ],
+      }),
+      NOW
+    );
+    if (data.type !== "budget-burndown") throw new Error(data.type);
+    expect(data.budgetCents).toBe(31000);
+    expect(data.spentCents).toBe(8000);
+    expect(data.points).toHaveLength(31);
+    expect(data.points[0]).toEqual({ label: "1", remainingCents: 31000, idealCents: 30000 });
+    expect(data.points[18].remainingCents).toBe(23000);
+    expect(data.points[19].remainingCents).toBeNull();
+    expect(data.points[30].idealCents).toBe(0);
+  });
+
+  it("charts net worth inside the period", () => {
+    const data = buildWidgetData(
+      widget({ chart_type: "net-worth", time_period: "3-months" }),
+      sources({
+        netWorthSnapshots: [
+          { snapshot_date: "2026-10-01", total_balance_cents: 100000, investment_total_cents: 50000, liability_total_cents: 20000 },
+          { snapshot_date: "2026-07-01", total_balance_cents: 1 },
+          { snapshot_date: "2026-08-01", total_balance_cents: 90000 },
+        ],
+      }),
+      NOW
+    );
+    if (data.type !== "net-worth") throw new Error(data.type);
+    expect(data.points).toEqual([
+      { label: "1 Aug", valueCents: 90000 },
+      { label: "1 Oct", valueCents: 130000 },
+    ]);
+    expect(data.changeCents).toBe(40000);
+  });
+
+  it("adds up goal contributions made in the period", () => {
+    const data = buildWidgetData(
+      widget({ chart_type: "goal-progress" }),
+      sources({
+        goals: [{ id: "g1", name: "Holiday", icon: "plane", color: "#fff", current_amount_cents: 50000, target_amount_cents: 100000 }],
+        goalContributions: [
+          { goal_id: "g1", amount_cents: 10000, created_at: at(2026, 10, 3) },
+          { goal_id: "g1", amount_cents: -2000, created_at: at(2026, 10, 10) },
+          { goal_id: "g1", amount_cents: 7000, created_at: at(2026, 9, 3) },
+        ],
+      }),
+      NOW
+    );
+    if (data.type !== "goal-progress") throw new Error(data.type);
+    expect(data.goals[0].savedInPeriodCents).toBe(8000);
+    expect(data.goals[0].targetCents).toBe(100000);
+  });
+
+  it("lists bills due in the window plus unpaid overdue ones", () => {
+    const data = buildWidgetData(
+      widget({ chart_type: "upcoming-bills" }),
+      sources({
+        bills: [
+          { id: "late", name: "Rent", emoji: null, amount: 200000, dueDate: "2026-10-15", isPaid: false },
+          { id: "paid-late", name: "Gym", emoji: null, amount: 5000, dueDate: "2026-10-10", isPaid: true },
+          { id: "soon", name: "Phone", emoji: "📱", amount: 4000, dueDate: "2026-10-25T00:00:00", isPaid: false },
+          { id: "paid-soon", name: "Water", emoji: null, amount: 9000, dueDate: "2026-10-20", isPaid: true },
+          { id: "later", name: "Car", emoji: null, amount: 80000, dueDate: "2026-11-20", isPaid: false },
+        ],
+      }),
+      NOW
+    );
+    if (data.type !== "upcoming-bills") throw new Error(data.type);
+    expect(data.bills.map((b) => [b.id, b.overdue])).toEqual([
+      ["late", true],
+      ["paid-soon", false],
+      ["soon", false],
+    ]);
+    expect(data.bills[2].dueDate).toBe("2026-10-25");
+    expect(data.dueCents).toBe(204000);
+  });
+});
+
+describe("widgetDataStart", () => {
+  it("finds the earliest date each source is needed from", () => {
+    const start = widgetDataStart(
+      [
+        widget({ chart_type: "category-trend", time_period: "this-month" }),
+        widget({ chart_type: "merchant-top", time_period: "6-months" }),
+        widget({ chart_type: "budget-burndown", time_period: "last-month" }),
+        widget({ chart_type: "net-worth", time_period: "12-months" }),
+        widget({ chart_type: "upcoming-bills" }),
+        widget({ chart_type: "donut" }),
+      ],
+      NOW
+    );
+    expect(start).toEqual({
+      transactions: "2026-05-01",
+      netWorth: "2025-11-01",
+      goalContributions: null,
+      budgetMonths: ["2026-09-01"],
+    });
+  });
+});
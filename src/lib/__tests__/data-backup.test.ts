@@ -0,0 +1,330 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  BACKUP_FORMAT,
+  BACKUP_TABLES,
+  BACKUP_VERSION,
+  remapBackupRow,
+  remapEmbeddedIds,
+  restoreBackupBundle,
+  setupTablesToClear,
+  summarizeBackupBundle,
+  validateBackupBundle,
+  type BackupBundle,
+  type BackupTableSpec,
+  type RemapContext,
+  type RestorePlan,
+} from '../data-backup';
+
+const OLD_USER = '00000000-0000-4000-8000-000000000001';
+const NEW_USER = '00000000-0000-4000-8000-000000000002';
+const OLD_GOAL = '11111111-1111-4111-8111-111111111111';
+const OLD_BUDGET = '22222222-2222-4222-8222-222222222222';
+
+function makeContext(): RemapContext {
+  let n = 0;
+  return {
+    sourceUserId: OLD_USER,
+    userId: NEW_USER,
+    partnershipId: 'new-partnership',
+    idMaps: new Map(),
+    accountIds: new Map([['old-acc', 'new-acc']]),
+    transactionIds: new Map([['old-txn', 'new-txn']]),
+    newId: () => `new-${++n}`,
+  };
+}
+
+const spec = (table: string) => BACKUP_TABLES.find((s) => s.table === table) as BackupTableSpec;
+
+function makeBundle(overrides: Partial<BackupBundle> = {}): BackupBundle {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: '2026-10-01T00:00:00.000Z',
+    source: { user_id: OLD_USER, partnership_id: 'old-partnership' },
+    profile: null,
+    partnership: null,
+    accounts: {},
+    transactions: {},
+    manual_accounts: [],
+    manual_transactions: [],
+    tables: {},
+    ...overrides,
+  };
+}
+
+describe('BACKUP_TABLES', () => {
+  it('lists every referenced table before the tables that point at it', () => {
+    const seen = new Set<string>();
+    for (const s of BACKUP_TABLES) {
+      for (const target of Object.values(s.refs ?? {})) {
+        if (!target.startsWith('@')) expect(seen.has(target), `${s.table} -> ${target}`).toBe(true);
+      }
+      if (typeof s.scope === 'object') expect(seen.has(s.scope.parent)).toBe(true);
+      seen.add(s.table);
+    }
+  });
+});
+
+describe('validateBackupBundle', () => {
+  it('accepts a well-formed bundle', () => {
+    expect(validateBackupBundle(makeBundle())).toBeNull();
+  });
+
+  it('rejects other files and newer formats', () => {
+    expect(validateBackupBundle({ transactions: [] })).toMatch(/isn't a PiggyBack backup/);
+    expect(validateBackupBundle({ ...makeBundle(), version: BACKUP_VERSION + 1 })).toMatch(/newer version/);
+    expect(validateBackupBundle({ ...makeBundle(), tables: { milestones: 'nope' } })).toMatch(/malformed/);
+  });
+});
+
+describe('summarizeBackupBundle', () => {
+  it('counts non-empty tables', () => {
+    expect(
+      summarizeBackupBundle(makeBundle({ manual_accounts: [{}], tables: { milestones: [{}, {}], savings_goals: [] } }))
+    ).toEqual({ manual_accounts: 1, milestones: 2 });
+  });
+});
+
+describe('remapBackupRow', () => {
+  it('moves rows to the new partnership with fresh IDs', () => {
+    const ctx = makeContext();
+    const row = remapBackupRow(spec('savings_goals'), { id: OLD_GOAL, partnership_id: 'old', linked_account_id: 'old-acc' }, ctx);
+    expect(row).toEqual({ id: 'new-1', partnership_id: 'new-partnership', linked_account_id: 'new-acc' });
+    expect(ctx.idMaps.get('savings_goals')?.get(OLD_GOAL)).toBe('new-1');
+  });
+
+  it('remaps references to earlier tables and users', () => {
+    const ctx = makeContext();
+    remapBackupRow(spec('savings_goals'), { id: OLD_GOAL, partnership_id: 'old' }, ctx);
+    const row = remapBackupRow(
+      spec('budget_assignments'),
+      { id: 'a1', partnership_id: 'old', goal_id: OLD_GOAL, asset_id: null, budget_id: null, created_by: OLD_USER },
+      ctx
+    );
+    expect(row).toMatchObject({ goal_id: 'new-1', asset_id: null, budget_id: null, created_by: NEW_USER });
+  });
+
+  it('clears optional references it cannot resolve', () => {
+    const row = remapBackupRow(
+      spec('savings_goals'),
+      { id: OLD_GOAL, partnership_id: 'old', linked_account_id: 'partner-account' },
+      makeContext()
+    );
+    expect(row?.linked_account_id).toBeNull();
+    const milestone = remapBackupRow(spec('milestones'), { id: 'm1', partnership_id: 'old', created_by: 'partner' }, makeContext());
+    expect(milestone?.created_by).toBeNull();
+  });
+
+  it('skips rows whose required references are missing', () => {
+    const ctx = makeContext();
+    expect(remapBackupRow(spec('goal_contributions'), { id: 'c1', goal_id: OLD_GOAL }, ctx)).toBeNull();
+    expect(remapBackupRow(spec('transaction_tags'), { id: 't1', transaction_id: 'unknown', tag_name: 'x' }, ctx)).toBeNull();
+    expect(ctx.idMaps.size).toBe(0);
+  });
+
+  it('drops the ID of rows upserted on a natural key', () => {
+    const row = remapBackupRow(
+      spec('transaction_tags'),
+      { id: 't1', transaction_id: 'old-txn', tag_name: 'work' },
+      makeContext()
+    );
+    expect(row).toEqual({ transaction_id: 'new-txn', tag_name: 'work' });
+  });
+});
+
+describe('remapEmbeddedIds', () => {
+  it('rewrites IDs inside JSON values', () => {
+    const ctx = makeContext();
+    ctx.idMaps.set('savings_goals', new Map([[OLD_GOAL, 'new-goal']]));
+    expect(
+      remapEmbeddedIds({ sections: [{ itemIds: [`goal-${OLD_GOAL}`, 'category-Food', `asset-${OLD_BUDGET}`] }] }, ctx)
+    ).toEqual({ sections: [{ itemIds: ['goal-new-goal', 'category-Food', `asset-${OLD_BUDGET}`] }] });
+  });
+});
+
+// ─── restoreBackupBundle ──────────────────────────────────────────────────────
+
+/** Chainable stand-in for the Supabase client; restores go through one RPC */
+function fakeSupabase(
+  selects: Record<string, unknown[]>,
+  rpcResult: { data: unknown; error: { message: string } | null } = { data: {}, error: null }
+) {
+  const rpc = vi.fn((_fn: string, _args: { p_partnership_id: string; p_plan: RestorePlan }) => Promise.resolve(rpcResult));
+  const builder = (result: { data: unknown; error: null }) => {
+    const chain: Record<string, unknown> = {};
+    for (const method of ['select', 'eq', 'in', 'order', 'range', 'maybeSingle']) {
+      chain[method] = () => chain;
+    }
+    chain.then = (resolve: (v: unknown) => unknown) => Promise.resolve(result).then(resolve);
+    return chain;
+  };
+  const client = {
+    from: (table: string) => ({
+      select: () => builder({ data: selects[table] ?? [], error: null }),
+    }),
+    rpc,
+  };
+  const plan = () => rpc.mock.calls[0][1].p_plan;
+  return { client, rpc, plan };
+}
+
+const step = (plan: RestorePlan, table: string) => plan.steps.find((s) => s.table === table);
+
+describe('restoreBackupBundle', () => {
+  it('plans parents before children and matches transactions by Up ID', async () => {
+    const bundle = makeBundle({
+      profile: { fire_variant: 'lean', ai_api_key: 'secret' },
+      accounts: { 'old-acc': 'up-acc-1' },
+      transactions: {
+        'old-txn': { up_account_id: 'up-acc-1', up_transaction_id: 'up-txn-1' },
+        'gone-txn': { up_account_id: 'up-acc-1', up_transaction_id: 'up-txn-2' },
+      },
+      tables: {
+        user_budgets: [{ id: OLD_BUDGET, partnership_id: 'old', name: 'Household', created_by: OLD_USER }],
+        savings_goals: [{ id: OLD_GOAL, partnership_id: 'old', name: 'House', linked_account_id: 'old-acc' }],
+        budget_layout_presets: [
+          { id: 'l1', partnership_id: 'old', user_id: OLD_USER, budget_id: OLD_BUDGET, layout_config: { itemIds: [`goal-${OLD_GOAL}`] } },
+        ],
+        goal_contributions: [{ id: 'c1', goal_id: OLD_GOAL, amount_cents: 5000 }],
+        transaction_tags: [
+          { id: 'tt1', transaction_id: 'old-txn', tag_name: 'holiday' },
+          { id: 'tt2', transaction_id: 'gone-txn', tag_name: 'holiday' },
+        ],
+        transaction_category_overrides: [
+          { id: 'o1', transaction_id: 'old-txn', override_category_id: 'groceries', override_parent_category_id: 'good-life' },
+        ],
+        transaction_splits: [
+          { id: 's2', transaction_id: 'old-txn', position: 1, amount_cents: -400, category_id: 'pharmacy' },
+          { id: 's1', transaction_id: 'old-txn', position: 0, amount_cents: -600, category_id: 'groceries' },
+        ],
+      },
+    });
+    const { client, rpc, plan } = fakeSupabase(
+      {
+        accounts: [{ id: 'new-acc', user_id: NEW_USER, up_account_id: 'up-acc-1' }],
+        transactions: [{ id: 'new-txn', up_transaction_id: 'up-txn-1', accounts: { up_account_id: 'up-acc-1' } }],
+      },
+      { data: { user_budgets: 1, savings_goals: 1, transaction_splits: 2 }, error: null }
+    );
+
+    let n = 0;
+    const summary = await restoreBackupBundle(
+      client as never,
+      bundle,
+      { userId: NEW_USER, partnershipId: 'new-partnership' },
+      () => `id-${++n}`
+    );
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc.mock.calls[0][0]).toBe('restore_backup_bundle');
+    expect(rpc.mock.calls[0][1].p_partnership_id).toBe('new-partnership');
+    expect(summary).toEqual({
+      restored: { user_budgets: 1, savings_goals: 1, transaction_splits: 2 },
+      skipped: { transaction_tags: 1 },
+    });
+
+    const p = plan();
+    expect(p.clear).toEqual([]);
+    expect(p.profile).toEqual({ fire_variant: 'lean' });
+    expect(p.tags).toEqual(['holiday']);
+    expect(p.steps.map((s) => s.table)).toEqual([
+      'user_budgets',
+      'savings_goals',
+      'budget_layout_presets',
+      'goal_contributions',
+      'transaction_tags',
+      'transaction_category_overrides',
+    ]);
+    expect(step(p, 'savings_goals')?.rows[0]).toMatchObject({ id: 'id-2', partnership_id: 'new-partnership', linked_account_id: 'new-acc' });
+    expect(step(p, 'budget_layout_presets')?.rows[0]).toMatchObject({
+      user_id: NEW_USER,
+      budget_id: 'id-1',
+      layout_config: { itemIds: ['goal-id-2'] },
+    });
+    expect(step(p, 'goal_contributions')?.rows[0]).toMatchObject({ goal_id: 'id-2' });
+    expect(step(p, 'transaction_tags')).toMatchObject({ rows: [{ transaction_id: 'new-txn' }], ignore_duplicates: true });
+    expect(p.category_overrides).toEqual([
+      { transaction_id: 'new-txn', category_id: 'groceries', parent_category_id: 'good-life' },
+    ]);
+    expect(p.splits).toEqual([
+      {
+        transaction_id: 'new-txn',
+        splits: [
+          expect.objectContaining({ amount_cents: -600, category_id: 'groceries' }),
+          expect.objectContaining({ amount_cents: -400, category_id: 'pharmacy' }),
+        ],
+      },
+    ]);
+  });
+
+  it('clears the existing setup in the same call when replacing', async () => {
+    const { client, plan } = fakeSupabase({});
+    await restoreBackupBundle(client as never, makeBundle(), { userId: NEW_USER, partnershipId: 'p', replace: true });
+
+    expect(plan().clear).toEqual(setupTablesToClear());
+    // Children before the parents they point at
+    const order = plan().clear.map((c) => c.table);
+    expect(order.indexOf('budget_assignments')).toBeLessThan(order.indexOf('user_budgets'));
+  });
+
+  it('gives manual accounts and transactions IDs in the destination', async () => {
+    const bundle = makeBundle({
+      accounts: { 'old-manual': 'manual-1', 'old-cash': 'manual-2' },
+      manual_accounts: [
+        { id: 'old-manual', up_account_id: 'manual-1', display_name: 'Offset' },
+        { id: 'old-cash', up_account_id: 'manual-2', display_name: 'Cash' },
+      ],
+      manual_transactions: [
+        { id: 'old-mt', account_id: 'old-cash', up_transaction_id: 'mt-1', amount_cents: -1200 },
+        { id: 'orphan-mt', account_id: 'old-gone', up_transaction_id: 'mt-2', amount_cents: -100 },
+      ],
+    });
+    const { client, plan } = fakeSupabase({
+      accounts: [{ id: 'existing-manual', user_id: NEW_USER, up_account_id: 'manual-1' }],
+    });
+
+    let n = 0;
+    const summary = await restoreBackupBundle(
+      client as never,
+      bundle,
+      { userId: NEW_USER, partnershipId: 'p' },
+      () => `id-${++n}`
+    );
+
+    expect(step(plan(), 'accounts')).toMatchObject({
+      on_conflict: 'user_id,up_account_id',
+      rows: [
+        { id: 'existing-manual', user_id: NEW_USER, display_name: 'Offset' },
+        { id: 'id-1', user_id: NEW_USER, display_name: 'Cash' },
+      ],
+    });
+    expect(step(plan(), 'transactions')?.rows).toEqual([
+      { id: 'id-2', account_id: 'id-1', transfer_account_id: null, up_transaction_id: 'mt-1', amount_cents: -1200 },
+    ]);
+    expect(summary.skipped).toEqual({ transactions: 1 });
+  });
+
+  it('throws when the restore fails so the caller knows nothing changed', async () => {
+    const { client } = fakeSupabase({}, { data: null, error: { message: 'duplicate key value' } });
+
+    await expect(
+      restoreBackupBundle(client as never, makeBundle(), { userId: NEW_USER, partnershipId: 'p', replace: true })
+    ).rejects.toThrow('restore_backup_bundle: duplicate key value');
+  });
+});
+
+describe('restore_backup_bundle migration', () => {
+  it('accepts every table a plan can write', () => {
+    const sql = readFileSync(
+      join(__dirname, '../../../supabase/migrations/20261019000025_restore_backup_bundle.sql'),
+      'utf8'
+    );
+    const allowed = sql.slice(sql.indexOf('v_tables text[]'), sql.indexOf('];'));
+    for (const { table } of BACKUP_TABLES) {
+      if (table === 'transaction_splits') continue;
+      expect(allowed).toContain(`'${table}'`);
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateLiabilityTotal,
+  comparePayoffStrategies,
+  findHighInterestDebts,
+  simulatePayoff,
+  toMonthlyRepaymentCents,
+  toPayoffDebts,
+  MAX_PAYOFF_MONTHS,
+  type DebtRecord,
+  type PayoffDebt,
+} from "../debt-calculations";
+
+const carLoan: PayoffDebt = {
+  id: "car",
+  name: "Car loan",
+  balanceCents: 20_000_00,
+  annualRatePercent: 8,
+  monthlyRepaymentCents: 500_00,
+};
+
+const creditCard: PayoffDebt = {
+  id: "card",
+  name: "Credit card",
+  balanceCents: 5_000_00,
+  annualRatePercent: 20,
+  monthlyRepaymentCents: 150_00,
+};
+
+const bnpl: PayoffDebt = {
+  id: "bnpl",
+  name: "Afterpay",
+  balanceCents: 400_00,
+  annualRatePercent: 0,
+  monthlyRepaymentCents: 100_00,
+};
+
+describe("toMonthlyRepaymentCents", () => {
+  it("converts weekly and fortnightly to monthly equivalents", () => {
+    expect(toMonthlyRepaymentCents(100_00, "weekly")).toBe(433_33);
+    expect(toMonthlyRepaymentCents(100_00, "fortnightly")).toBe(216_67);
+    expect(toMonthlyRepaymentCents(100_00, "monthly")).toBe(100_00);
+  });
+});
+
+describe("calculateLiabilityTotal", () => {
+  it("skips debts linked to a synced account", () => {
+    expect(
+      calculateLiabilityTotal([
+        { balance_cents: 500_000_00, linked_account_id: "acc-1" },
+        { balance_cents: 20_000_00, linked_account_id: null },
+        { balance_cents: 5_000_00, linked_account_id: null },
+      ])
+    ).toBe(25_000_00);
+  });
+});
+
+describe("toPayoffDebts", () => {
+  it("normalises rows and drops cleared debts", () => {
+    const rows: DebtRecord[] = [
+      {
+        id: "a",
+        name: "HELP",
+        debt_type: "hecs_help",
+        balance_cents: 30_000_00,
+        interest_rate: 3.2,
+        minimum_repayment_cents: 100_00,
+        repayment_frequency: "fortnightly",
+        linked_account_id: null,
+      },
+      {
+        id: "b",
+        name: "Old card",
+        debt_type: "credit_card",
+        balance_cents: 0,
+        interest_rate: 19.99,
+        minimum_repayment_cents: 0,
+        repayment_frequency: "monthly",
+        linked_account_id: null,
+      },
+    ];
+
+    expect(toPayoffDebts(rows)).toEqual([
+      {
+        id: "a",
+        name: "HELP",
+        balanceCents: 30_000_00,
+        annualRatePercent: 3.2,
+        monthlyRepaymentCents: 216_67,
+      },
+    ]);
+  });
+});
+
+describe("simulatePayoff", () => {
+  it("pays off an interest-free debt in balance / repayment months", () => {
+    const plan = simulatePayoff([bnpl], "avalanche");
+    expect(plan.months).toBe(4);
+    expect(plan.totalInterestCents).toBe(0);
+    expect(plan.totalPaidCents).toBe(400_00);
+    expect(plan.balanceByMonth).toEqual([400_00, 300_00, 200_00, 100_00, 0]);
+  });
+
+  it("charges interest and pays the full balance plus interest", () => {
+    const plan = simulatePayoff([creditCard], "avalanche");
+    expect(plan.months).not.toBeNull();
+    expect(plan.totalInterestCents).toBeGreaterThan(0);
+    expect(plan.totalPaidCents).toBe(5_000_00 + plan.totalInterestCents);
+  });
+
+  it("clears the highest rate first with avalanche", () => {
+    const plan = simulatePayoff([carLoan, creditCard, bnpl], "avalanche", 300_00);
+    // BNPL still clears first on its own minimum repayments
+    expect(plan.payoffOrder.map((p) => p.id)).toEqual(["bnpl", "card", "car"]);
+  });
+
+  it("clears the smallest balance first with snowball", () => {
+    const bigCard = { ...creditCard, balanceCents: 25_000_00 };
+    const plan = simulatePayoff([carLoan, bigCard], "snowball", 300_00);
+    expect(plan.payoffOrder.map((p) => p.id)).toEqual(["car", "card"]);
+  });
+
+  it("rolls freed-up minimums into the next debt", () => {
+    const withRollover = simulatePayoff([carLoan, bnpl], "snowball");
+    const carAlone = simulatePayoff([carLoan], "snowball");
+    expect(withRollover.months!).toBeLessThanOrEqual(carAlone.months!);
+    expect(withRollover.totalInterestCents).toBeLessThan(carAlone.totalInterestCents);
+  });
+
+  it("returns null months when repayments never cover the interest", () => {
+    const plan = simulatePayoff(
+      [{ ...creditCard, monthlyRepaymentCents: 10_00 }],
+      "avalanche"
+    );
+    expect(plan.months).toBeNull();
+    expect(plan.balanceByMonth).toHaveLength(MAX_PAYOFF_MONTHS + 1);
+  });
+
+  it("finishes immediately with no debts", () => {
+    const plan = simulatePayoff([], "snowball");
+    expect(plan.months).toBe(0);
+    expect(plan.balanceByMonth).toEqual([0]);
+  });
+});
+
+describe("comparePayoffStrategies", () => {
+  it("avalanche never costs more interest than snowball", () => {
+    const bigCard = { ...creditCard, balanceCents: 25_000_00 };
+    const result = comparePayoffStrategies([carLoan, bigCard], 500_00);
+    expect(result.avalanche.totalInterestCents).toBeLessThanOrEqual(
+      result.snowball.totalInterestCents
+    );
+    expect(result.interestSavedCents).toBe(
+      result.snowball.totalInterestCents - result.avalanche.totalInterestCents
+    );
+    expect(result.interestSavedCents).toBeGreaterThan(0);
+    expect(result.monthsSaved).toBeGreaterThanOrEqual(0);
+  });
+
+  it("extra repayments shorten the plan", () => {
+    const base = comparePayoffStrategies([carLoan, creditCard]);
+    const extra = comparePayoffStrategies([carLoan, creditCard], 1_000_00);
+    expect(extra.avalanche.months!).toBeLessThan(base.avalanche.months!);
+  });
+});
+
+describe("findHighInterestDebts", () => {
+  it("returns debts above the expected return, highest rate first", () => {
+    const result = findHighInterestDebts([bnpl, carLoan, creditCard], 7);
+    expect(result.map((d) => d.id)).toEqual(["card", "car"]);
+  });
+});
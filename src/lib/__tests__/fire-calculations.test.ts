@@ -10,6 +10,7 @@ import {
   calculateIncomeImpact,
   calculateIncomeMilestones,
   generateRecommendations,
+  simulateFireMonteCarlo,
   PRESERVATION_AGE,
   AGE_PENSION_AGE,
   FIRE_MULTIPLIER,
@@ -525,6 +526,131 @@ describe("separate return rates", () => {
   });
 });
 
+// ============================================================================
+// Voluntary Super Contributions
+// ============================================================================
+
+describe("voluntary super contributions", () => {
+  it("moves salary sacrifice from the outside bucket into super", () => {
+    const spending = makeSpending();
+    const investments = makeInvestments();
+
+    const base = projectFireDate(makeProfile(), spending, investments);
+    const sacrificing = projectFireDate(
+      makeProfile({ voluntarySuperContributionCents: 1000000 }),
+      spending,
+      investments
+    );
+
+    const baseYear1 = base.projectionData[1];
+    const sacrificingYear1 = sacrificing.projectionData[1];
+    expect(sacrificingYear1.superCents - baseYear1.superCents).toBe(1000000);
+    expect(baseYear1.outsideSuperCents - sacrificingYear1.outsideSuperCents).toBe(1000000);
+  });
+});
+
+// ============================================================================
+// Monte Carlo Simulation
+// ============================================================================
+
+describe("simulateFireMonteCarlo", () => {
+  const spending = makeSpending();
+  const investments = makeInvestments();
+
+  it("matches the straight-line projection with no volatility", () => {
+    const profile = makeProfile({ spendingGrowthRate: 2.5 });
+    const result = projectFireDate(profile, spending, investments);
+    const sim = simulateFireMonteCarlo(
+      result.currentAge,
+      profile,
+      spending,
+      investments,
+      result.fireNumberCents,
+      { returnVolatility: 0, inflationVolatility: 0, simulations: 20 }
+    );
+
+    expect(sim.fireAgeP10).toBe(result.projectedFireAge);
+    expect(sim.fireAgeP90).toBe(result.projectedFireAge);
+    expect(sim.bands[1].p50Cents).toBe(result.projectionData[1].totalCents);
+  });
+
+  it("applies projection adjustments like the straight-line projection", () => {
+    const profile = makeProfile();
+    const adjustments = [
+      { yearOffset: 1, outsideSuperCents: -5_000_000 },
+      { yearOffset: 2, spendingCents: 2_000_000 },
+    ];
+    const result = projectFireDate(profile, spending, investments, adjustments);
+    const sim = simulateFireMonteCarlo(
+      result.currentAge,
+      profile,
+      spending,
+      investments,
+      result.fireNumberCents,
+      { returnVolatility: 0, inflationVolatility: 0, simulations: 5 },
+      adjustments
+    );
+
+    expect(sim.fireAgeP50).toBe(result.projectedFireAge);
+    expect(sim.bands[2].p50Cents).toBe(result.projectionData[2].totalCents);
+  });
+
+  it("spreads FIRE ages and portfolio bands with volatility", () => {
+    const profile = makeProfile();
+    const result = projectFireDate(profile, spending, investments);
+    const sim = simulateFireMonteCarlo(
+      result.currentAge,
+      profile,
+      spending,
+      investments,
+      result.fireNumberCents,
+      { returnVolatility: 15, inflationVolatility: 1, simulations: 500 }
+    );
+
+    expect(sim.fireAgeP10!).toBeLessThan(sim.fireAgeP90!);
+    expect(sim.fireAgeP50).not.toBeNull();
+    const last = sim.bands[sim.bands.length - 1];
+    expect(last.p10Cents).toBeLessThan(last.p50Cents);
+    expect(last.p50Cents).toBeLessThan(last.p90Cents);
+  });
+
+  it("gives roughly even odds of retiring at the straight-line FIRE age", () => {
+    const profile = makeProfile();
+    const result = projectFireDate(profile, spending, investments);
+    const sim = simulateFireMonteCarlo(
+      result.currentAge,
+      profile,
+      spending,
+      investments,
+      result.fireNumberCents,
+      {
+        returnVolatility: 15,
+        inflationVolatility: 1,
+        simulations: 1000,
+        targetAge: result.projectedFireAge!,
+      }
+    );
+
+    expect(sim.targetAge).toBe(result.projectedFireAge);
+    expect(sim.successProbability).toBeGreaterThan(25);
+    expect(sim.successProbability).toBeLessThan(85);
+  });
+
+  it("is deterministic for a given seed", () => {
+    const profile = makeProfile();
+    const run = (seed: number) =>
+      simulateFireMonteCarlo(32, profile, spending, investments, 120000000, {
+        returnVolatility: 18,
+        inflationVolatility: 1.5,
+        simulations: 200,
+        seed,
+      });
+
+    expect(run(7)).toEqual(run(7));
+    expect(run(7).bands).not.toEqual(run(8).bands);
+  });
+});
+
 // ============================================================================
 // Income Growth Rate
 // ============================================================================
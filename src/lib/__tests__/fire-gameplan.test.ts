@@ -236,6 +236,35 @@ describe("generateFireGameplan", () => {
         expect(switchAction!.headline).toContain("Lean");
       }
     });
+
+    it("puts debts above the expected return first", () => {
+      const profile = makeProfile({ targetRetirementAge: 55 });
+      const spending = makeSpending();
+      const investments = makeInvestments();
+      const result = makeFireResult(profile, spending, investments);
+      const gameplan = generateFireGameplan(result, profile, spending, investments, 30, [
+        { id: "card", name: "Credit card", balanceCents: 500_000, annualRatePercent: 20, monthlyRepaymentCents: 50_000 },
+        { id: "home", name: "Mortgage", balanceCents: 50_000_000, annualRatePercent: 6, monthlyRepaymentCents: 300_000 },
+      ]);
+
+      const debtActions = gameplan.actions.filter((a) => a.type === "pay-off-debt");
+      expect(debtActions).toHaveLength(1);
+      expect(gameplan.actions[0]).toBe(debtActions[0]);
+      expect(debtActions[0].headline).toContain("Credit card");
+      expect(debtActions[0].amountPerMonthCents).toBe(50_000);
+    });
+
+    it("adds no debt action when every rate is below the expected return", () => {
+      const profile = makeProfile();
+      const spending = makeSpending();
+      const investments = makeInvestments();
+      const result = makeFireResult(profile, spending, investments);
+      const gameplan = generateFireGameplan(result, profile, spending, investments, 30, [
+        { id: "help", name: "HELP", balanceCents: 3_000_000, annualRatePercent: 3.2, monthlyRepaymentCents: 20_000 },
+      ]);
+
+      expect(gameplan.actions.some((a) => a.type === "pay-off-debt")).toBe(false);
+    });
   });
 
   describe("ETF suggestions", () => {
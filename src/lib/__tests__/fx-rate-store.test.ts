@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/utils/supabase/service-role", () => ({
+  createServiceRoleClient: vi.fn(),
+}));
+
+import { loadFxRates } from "../fx-rate-store";
+
+/** Supabase stub serving `rows` a range at a time, as max_rows does */
+function pagedSupabase(rows: { currency_code: string; rate_date: string; aud_rate: string }[]) {
+  const ranges: [number, number][] = [];
+  const query = {
+    select: () => query,
+    in: () => query,
+    gte: () => query,
+    order: () => query,
+    range: async (from: number, to: number) => {
+      ranges.push([from, to]);
+      return { data: rows.slice(from, to + 1), error: null };
+    },
+  };
+  return { client: { from: () => query }, ranges };
+}
+
+describe("loadFxRates", () => {
+  it("loads every page of a long range", async () => {
+    const rows = Array.from({ length: 1200 }, (_, i) => ({
+      currency_code: "USD",
+      rate_date: new Date(Date.UTC(2022, 0, 1 + i)).toISOString().split("T")[0],
+      aud_rate: "1.5",
+    }));
+    const { client, ranges } = pagedSupabase(rows);
+
+    const rates = await loadFxRates(client as never, ["USD"], "2022-01-01");
+
+    expect(rates).toHaveLength(1200);
+    expect(rates[0]).toEqual({ currency_code: "USD", rate_date: "2022-01-01", aud_rate: 1.5 });
+    expect(ranges).toEqual([[0, 999], [1000, 1999]]);
+  });
+
+  it("skips the query when every currency is AUD", async () => {
+    const { client, ranges } = pagedSupabase([]);
+    expect(await loadFxRates(client as never, ["AUD"], "2022-01-01")).toEqual([]);
+    expect(ranges).toEqual([]);
+  });
+});
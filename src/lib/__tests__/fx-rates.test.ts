@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateFxBreakdown,
+  createFxLookup,
+  sumBalancesInAud,
+  toAudCents,
+  type FxHolding,
+} from "../fx-rates";
+
+const rates = [
+  { currency_code: "USD", rate_date: "2026-01-05", aud_rate: 1.5 },
+  { currency_code: "USD", rate_date: "2026-01-02", aud_rate: 1.48 },
+  { currency_code: "USD", rate_date: "2026-01-06", aud_rate: 1.52 },
+  { currency_code: "EUR", rate_date: "2026-01-05", aud_rate: 1.7 },
+];
+
+describe("createFxLookup", () => {
+  const lookup = createFxLookup(rates);
+
+  it("returns 1 for AUD", () => {
+    expect(lookup("AUD", "2020-01-01")).toBe(1);
+    expect(lookup("aud", "2020-01-01")).toBe(1);
+  });
+
+  it("uses the rate for the exact date", () => {
+    expect(lookup("USD", "2026-01-05")).toBe(1.5);
+    expect(lookup("EUR", "2026-01-05")).toBe(1.7);
+  });
+
+  it("falls back to the previous close on days without a rate", () => {
+    expect(lookup("USD", "2026-01-04")).toBe(1.48);
+    expect(lookup("USD", "2026-03-01")).toBe(1.52);
+  });
+
+  it("returns null before the first stored rate or for unknown currencies", () => {
+    expect(lookup("USD", "2025-12-31")).toBeNull();
+    expect(lookup("GBP", "2026-01-05")).toBeNull();
+  });
+});
+
+describe("toAudCents", () => {
+  it("rounds to the nearest cent", () => {
+    expect(toAudCents(10001, 1.5)).toBe(15002);
+  });
+});
+
+describe("sumBalancesInAud", () => {
+  it("converts foreign balances and counts ones without a rate as-is", () => {
+    const lookup = createFxLookup(rates);
+    const total = sumBalancesInAud(
+      [
+        { balance_cents: 100000, currency_code: "AUD" },
+        { balance_cents: 200000, currency_code: "USD" },
+        { balance_cents: 5000, currency_code: "GBP" },
+        { balance_cents: null },
+      ],
+      lookup,
+      "2026-01-05"
+    );
+    expect(total).toBe(100000 + 300000 + 5000);
+  });
+});
+
+describe("calculateFxBreakdown", () => {
+  const usEtf: FxHolding = {
+    id: "vti",
+    name: "VTI",
+    currency_code: "USD",
+    // Bought US$10,000 at 1.40, now US$12,000 at 1.50
+    native_purchase_value_cents: 1_000_000,
+    purchase_value_cents: 1_400_000,
+    native_value_cents: 1_200_000,
+    current_value_cents: 1_800_000,
+  };
+
+  it("splits the gain into market and currency movement", () => {
+    const { holdings } = calculateFxBreakdown([usEtf]);
+    expect(holdings[0].marketGainCents).toBe(300_000);
+    expect(holdings[0].fxGainCents).toBe(100_000);
+    expect(holdings[0].marketGainCents! + holdings[0].fxGainCents!).toBe(
+      usEtf.current_value_cents - usEtf.purchase_value_cents!
+    );
+    expect(holdings[0].purchaseRate).toBeCloseTo(1.4);
+    expect(holdings[0].currentRate).toBeCloseTo(1.5);
+  });
+
+  it("skips AUD holdings and totals by currency", () => {
+    const cash: FxHolding = {
+      id: "wise",
+      name: "Wise USD",
+      currency_code: "USD",
+      native_purchase_value_cents: null,
+      purchase_value_cents: null,
+      native_value_cents: 200_000,
+      current_value_cents: 300_000,
+    };
+    const asx: FxHolding = {
+      id: "vas",
+      name: "VAS",
+      currency_code: "AUD",
+      native_purchase_value_cents: null,
+      purchase_value_cents: 500_000,
+      native_value_cents: null,
+      current_value_cents: 600_000,
+    };
+
+    const result = calculateFxBreakdown([usEtf, cash, asx]);
+
+    expect(result.holdings.map((h) => h.id)).toEqual(["vti", "wise"]);
+    expect(result.holdings[1].fxGainCents).toBeNull();
+    expect(result.byCurrency).toEqual([
+      {
+        currencyCode: "USD",
+        holdingCount: 2,
+        valueCents: 2_100_000,
+        nativeValueCents: 1_400_000,
+        marketGainCents: 300_000,
+        fxGainCents: 100_000,
+      },
+    ]);
+    expect(result.totalFxGainCents).toBe(100_000);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildLedger,
+  calculateUnrealisedGains,
+  discountEligibleFrom,
+  isDiscountEligible,
+  summarizeCapitalGains,
+  unitsHeldOn,
+  type InvestmentTransactionRecord,
+  type InvestmentTransactionType,
+  type RealisedGain,
+} from "../investment-ledger";
+
+let nextId = 0;
+function tx(
+  type: InvestmentTransactionType,
+  date: string,
+  fields: Partial<InvestmentTransactionRecord> = {}
+): InvestmentTransactionRecord {
+  return {
+    id: fields.id ?? `t${++nextId}`,
+    investment_id: "vas",
+    transaction_type: type,
+    trade_date: date,
+    quantity: null,
+    amount_cents: 0,
+    fees_cents: 0,
+    ...fields,
+  };
+}
+
+const buy = (date: string, quantity: number, amountCents: number, extra: Partial<InvestmentTransactionRecord> = {}) =>
+  tx("buy", date, { quantity, amount_cents: amountCents, ...extra });
+const sell = (date: string, quantity: number, amountCents: number, extra: Partial<InvestmentTransactionRecord> = {}) =>
+  tx("sell", date, { quantity, amount_cents: amountCents, ...extra });
+
+describe("discount eligibility", () => {
+  it("needs 12 months between the days bought and sold", () => {
+    expect(discountEligibleFrom("2024-03-15")).toBe("2025-03-16");
+    expect(isDiscountEligible("2024-03-15", "2025-03-15")).toBe(false);
+    expect(isDiscountEligible("2024-03-15", "2025-03-16")).toBe(true);
+  });
+});
+
+describe("buildLedger", () => {
+  it("adds brokerage to cost base and averages across parcels", () => {
+    const ledger = buildLedger([
+      buy("2024-01-10", 100, 9_000_00, { fees_cents: 10_00 }),
+      buy("2024-06-10", 50, 4_990_00, { fees_cents: 10_00 }),
+    ]);
+
+    expect(ledger.quantity).toBe(150);
+    expect(ledger.costBaseCents).toBe(14_010_00);
+    expect(ledger.averageCostCents).toBe(9_340);
+    expect(ledger.firstAcquiredOn).toBe("2024-01-10");
+    expect(ledger.nativeCostBaseCents).toBeNull();
+  });
+
+  it("sells the oldest parcels first and nets brokerage off the proceeds", () => {
+    const ledger = buildLedger([
+      buy("2023-01-10", 100, 8_000_00),
+      buy("2024-06-10", 100, 10_000_00),
+      sell("2024-09-01", 150, 16_510_00, { fees_cents: 10_00 }),
+    ]);
+
+    expect(ledger.realised).toHaveLength(2);
+    const [first, second] = ledger.realised;
+    expect(first.quantity).toBe(100);
+    expect(first.costBaseCents).toBe(8_000_00);
+    expect(first.proceedsCents).toBe(11_000_00);
+    expect(first.discountEligible).toBe(true);
+    expect(second.quantity).toBe(50);
+    expect(second.costBaseCents).toBe(5_000_00);
+    expect(second.proceedsCents).toBe(5_500_00);
+    expect(second.discountEligible).toBe(false);
+    expect(ledger.realisedGainCents).toBe(3_500_00);
+    expect(ledger.quantity).toBe(50);
+    expect(ledger.costBaseCents).toBe(5_000_00);
+  });
+
+  it("sells from named parcels when given", () => {
+    const ledger = buildLedger([
+      buy("2023-01-10", 100, 8_000_00, { id: "old" }),
+      buy("2024-06-10", 100, 12_000_00, { id: "new" }),
+      sell("2024-09-01", 40, 4_400_00, { parcel_allocations: [{ parcel_id: "new", quantity: 40 }] }),
+    ]);
+
+    expect(ledger.realised).toHaveLength(1);
+    expect(ledger.realised[0].parcelId).toBe("new");
+    expect(ledger.realised[0].gainCents).toBe(4_400_00 - 4_800_00);
+    expect(ledger.parcels.find((p) => p.id === "old")?.quantity).toBe(100);
+  });
+
+  it("reports sells of units that aren't held and skips them", () => {
+    const ledger = buildLedger([
+      buy("2024-01-10", 10, 1_000_00),
+      sell("2024-02-10", 20, 2_000_00),
+    ]);
+
+    expect(ledger.problems).toHaveLength(1);
+    expect(ledger.realised).toHaveLength(0);
+    expect(ledger.quantity).toBe(10);
+  });
+
+  it("multiplies units on a split without changing cost base or dates", () => {
+    const ledger = buildLedger([
+      buy("2023-01-10", 100, 10_000_00),
+      tx("split", "2023-06-01", { split_ratio: 3 }),
+      sell("2024-03-01", 150, 9_000_00),
+    ]);
+
+    expect(ledger.realised[0].costBaseCents).toBe(5_000_00);
+    expect(ledger.realised[0].acquiredOn).toBe("2023-01-10");
+    expect(ledger.quantity).toBe(150);
+    expect(ledger.costBaseCents).toBe(5_000_00);
+  });
+
+  it("treats DRP as a new parcel and as dividend income", () => {
+    const ledger = buildLedger([
+      buy("2024-01-10", 100, 10_000_00),
+      tx("dividend", "2024-04-01", { amount_cents: 150_00 }),
+      tx("drp", "2024-07-01", { quantity: 1.5, amount_cents: 160_00 }),
+    ]);
+
+    expect(ledger.parcels).toHaveLength(2);
+    expect(ledger.parcels[1].acquiredOn).toBe("2024-07-01");
+    expect(ledger.quantity).toBe(101.5);
+    expect(ledger.dividends.map((d) => [d.financialYear, d.amountCents, d.reinvested])).toEqual([
+      [2024, 150_00, false],
+      [2025, 160_00, true],
+    ]);
+  });
+
+  it("tracks the native cost base of foreign parcels", () => {
+    const ledger = buildLedger([
+      buy("2024-01-10", 10, 1_500_00, { native_amount_cents: 1_000_00, fees_cents: 15_00 }),
+      sell("2024-05-10", 5, 900_00),
+    ]);
+
+    expect(ledger.nativeCostBaseCents).toBe(505_00);
+    expect(ledger.costBaseCents).toBe(757_50);
+  });
+});
+
+describe("calculateUnrealisedGains", () => {
+  it("shares market value across parcels and flags the discount", () => {
+    const ledger = buildLedger([
+      buy("2023-01-10", 100, 8_000_00),
+      buy("2025-01-10", 100, 11_000_00),
+    ]);
+    const gains = calculateUnrealisedGains(ledger, 24_000_00, "2025-06-30");
+
+    expect(gains.parcels.map((p) => p.valueCents)).toEqual([12_000_00, 12_000_00]);
+    expect(gains.discountEligibleGainCents).toBe(4_000_00);
+    expect(gains.otherGainCents).toBe(1_000_00);
+    expect(gains.parcels[1].discountEligibleFrom).toBe("2026-01-11");
+  });
+});
+
+describe("unitsHeldOn", () => {
+  it("counts only trades up to the end of the date", () => {
+    const transactions = [
+      buy("2025-01-10", 100, 8_000_00),
+      tx("split", "2025-03-01", { split_ratio: 2 }),
+      sell("2025-06-30", 50, 5_000_00),
+    ];
+
+    expect(unitsHeldOn(transactions, "2025-01-09")).toBe(0);
+    expect(unitsHeldOn(transactions, "2025-01-10")).toBe(100);
+    expect(unitsHeldOn(transactions, "2025-03-01")).toBe(200);
+    expect(unitsHeldOn(transactions, "2026-01-01")).toBe(150);
+  });
+});
+
+describe("summarizeCapitalGains", () => {
+  const gain = (financialYear: number, gainCents: number, discountEligible: boolean): RealisedGain => ({
+    sellId: `s${++nextId}`,
+    investmentId: "vas",
+    parcelId: "p",
+    acquiredOn: "2020-01-01",
+    soldOn: `${financialYear - 1}-09-01`,
+    quantity: 1,
+    proceedsCents: Math.max(gainCents, 0) + 1_000_00,
+    costBaseCents: 1_000_00 - Math.min(gainCents, 0),
+    gainCents,
+    discountEligible,
+    financialYear,
+  });
+
+  it("applies losses to non-discount gains first, then the 50% discount", () => {
+    const [summary] = summarizeCapitalGains([
+      gain(2025, 10_000_00, true),
+      gain(2025, 2_000_00, false),
+      gain(2025, -3_000_00, false),
+    ]);
+
+    expect(summary.lossesCents).toBe(3_000_00);
+    expect(summary.discountCents).toBe(4_500_00);
+    expect(summary.netCapitalGainCents).toBe(4_500_00);
+    expect(summary.lossesCarriedForwardCents).toBe(0);
+  });
+
+  it("carries unused losses into the next year", () => {
+    const [first, second] = summarizeCapitalGains([
+      gain(2024, -5_000_00, false),
+      gain(2025, 8_000_00, true),
+    ]);
+
+    expect(first.netCapitalGainCents).toBe(0);
+    expect(first.lossesCarriedForwardCents).toBe(5_000_00);
+    expect(second.priorLossesAppliedCents).toBe(5_000_00);
+    expect(second.netCapitalGainCents).toBe(1_500_00);
+  });
+
+  it("includes years with only dividends", () => {
+    const summaries = summarizeCapitalGains([], [
+      { transactionId: "d", investmentId: "vas", paidOn: "2025-08-01", amountCents: 200_00, reinvested: false, financialYear: 2026 },
+    ]);
+
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0].dividendsCents).toBe(200_00);
+    expect(summaries[0].netCapitalGainCents).toBe(0);
+  });
+});
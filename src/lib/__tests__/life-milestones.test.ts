@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import {
+  MILESTONE_PRESETS,
+  milestoneExpenseChanges,
+  milestoneFireInputs,
+  milestoneFunding,
+  monthsUntil,
+  toTimelineMilestones,
+  upcomingMilestones,
+  type LifeMilestone,
+  type MilestoneGoal,
+} from "../life-milestones";
+import { projectFireDate, type FireProfile, type SpendingData } from "../fire-calculations";
+
+const NOW = new Date(2026, 9, 19, 12, 0, 0);
+
+const profile: FireProfile = {
+  dateOfBirth: new Date("1992-05-01"),
+  targetRetirementAge: null,
+  superBalanceCents: 80_000_00,
+  superContributionRate: 11.5,
+  expectedReturnRate: 7,
+  outsideSuperReturnRate: null,
+  incomeGrowthRate: 0,
+  spendingGrowthRate: 0,
+  fireVariant: "regular",
+  annualExpenseOverrideCents: null,
+};
+
+const spending: SpendingData = {
+  monthlyEssentialsCents: 4_000_00,
+  monthlyTotalSpendCents: 7_000_00,
+  monthlyIncomeCents: 12_000_00,
+  savingsRatePercent: 41.7,
+  topCategories: [],
+};
+
+const investments = { outsideSuperCents: 120_000_00, superBalanceCents: 80_000_00 };
+
+function milestone(overrides: Partial<LifeMilestone> = {}): LifeMilestone {
+  return {
+    id: "m1",
+    title: "Baby",
+    description: null,
+    target_date: "2027-06-01",
+    estimated_cost_cents: 0,
+    estimated_monthly_impact_cents: 0,
+    impact_months: null,
+    linked_goal_id: null,
+    icon: "baby",
+    color: "var(--pastel-yellow)",
+    is_completed: false,
+    completed_at: null,
+    preparation_checklist: [],
+    sort_order: 0,
+    ...overrides,
+  };
+}
+
+function goal(overrides: Partial<MilestoneGoal> = {}): MilestoneGoal {
+  return {
+    id: "g1",
+    name: "Wedding fund",
+    current_amount_cents: 10_000_00,
+    target_amount_cents: 30_000_00,
+    deadline: "2027-03-01",
+    is_completed: false,
+    ...overrides,
+  };
+}
+
+describe("presets", () => {
+  it("have unique keys and a baby lasting eighteen years", () => {
+    expect(new Set(MILESTONE_PRESETS.map((p) => p.key)).size).toBe(MILESTONE_PRESETS.length);
+    expect(MILESTONE_PRESETS.find((p) => p.key === "baby")?.impact_months).toBe(216);
+  });
+});
+
+describe("monthsUntil and upcomingMilestones", () => {
+  it("counts calendar months from this month", () => {
+    expect(monthsUntil("2026-10-31", NOW)).toBe(0);
+    expect(monthsUntil("2027-06-01", NOW)).toBe(8);
+    expect(monthsUntil("2026-09-30", NOW)).toBe(-1);
+  });
+
+  it("drops completed and past milestones and sorts by date", () => {
+    const result = upcomingMilestones(
+      [
+        milestone({ id: "later", target_date: "2028-01-01" }),
+        milestone({ id: "done", is_completed: true }),
+        milestone({ id: "past", target_date: "2026-08-01" }),
+        milestone({ id: "soon", target_date: "2026-10-25" }),
+      ],
+      NOW
+    );
+    expect(result.map((m) => m.id)).toEqual(["soon", "later"]);
+  });
+});
+
+describe("milestoneFunding", () => {
+  it("covers the cost up to the goal's target", () => {
+    expect(milestoneFunding(milestone({ estimated_cost_cents: 35_000_00 }), goal())).toEqual({
+      fromGoalCents: 30_000_00,
+      savedCents: 10_000_00,
+      outOfPocketCents: 5_000_00,
+    });
+  });
+
+  it("puts the whole cost out of pocket without a goal", () => {
+    expect(milestoneFunding(milestone({ estimated_cost_cents: 5_000_00 }), null)).toEqual({
+      fromGoalCents: 0,
+      savedCents: 0,
+      outOfPocketCents: 5_000_00,
+    });
+  });
+
+  it("never counts more saved than the milestone costs", () => {
+    const funding = milestoneFunding(
+      milestone({ estimated_cost_cents: 5_000_00 }),
+      goal({ current_amount_cents: 20_000_00 })
+    );
+    expect(funding.savedCents).toBe(5_000_00);
+    expect(funding.outOfPocketCents).toBe(0);
+  });
+});
+
+describe("milestoneExpenseChanges", () => {
+  it("times monthly impacts from this month", () => {
+    expect(
+      milestoneExpenseChanges(
+        [
+          milestone({ estimated_monthly_impact_cents: 1_200_00, impact_months: 216 }),
+          milestone({ id: "m2", title: "Wedding", estimated_cost_cents: 35_000_00 }),
+        ],
+        NOW
+      )
+    ).toEqual([
+      { type: "expense", label: "Baby", monthly_cents: 1_200_00, starts_in_months: 8, months: 216 },
+    ]);
+  });
+});
+
+describe("milestoneFireInputs", () => {
+  it("leaves the plan alone with no milestones", () => {
+    const result = milestoneFireInputs([], [], spending, NOW);
+    expect(result.spending.monthlyTotalSpendCents).toBe(spending.monthlyTotalSpendCents);
+    expect(result.adjustments).toEqual([]);
+  });
+
+  it("adds ongoing impacts to spending", () => {
+    const result = milestoneFireInputs(
+      [milestone({ target_date: "2026-10-01", estimated_monthly_impact_cents: 500_00 })],
+      [],
+      spending,
+      NOW
+    );
+    expect(result.spending.monthlyTotalSpendCents).toBe(7_500_00);
+    expect(result.spending.savingsRatePercent).toBeCloseTo(37.5);
+    expect(result.adjustments).toEqual([]);
+  });
+
+  it("turns a temporary impact into yearly spending adjustments", () => {
+    const result = milestoneFireInputs(
+      [milestone({ estimated_monthly_impact_cents: 1_000_00, impact_months: 12 })],
+      [],
+      spending,
+      NOW
+    );
+    expect(result.spending.monthlyTotalSpendCents).toBe(7_000_00);
+    expect(result.adjustments).toEqual([
+      { yearOffset: 0, incomeCents: 0, spendingCents: 4_000_00 },
+      { yearOffset: 1, incomeCents: 0, spendingCents: 8_000_00 },
+    ]);
+  });
+
+  it("takes the one-off cost from investments, less what the goal already holds", () => {
+    const result = milestoneFireInputs(
+      [milestone({ target_date: "2028-02-01", estimated_cost_cents: 35_000_00, linked_goal_id: "g1" })],
+      [goal()],
+      spending,
+      NOW
+    );
+    expect(result.adjustments).toEqual([{ yearOffset: 1, outsideSuperCents: -25_000_00 }]);
+  });
+
+  it("pushes the FIRE date out", () => {
+    const base = projectFireDate(profile, spending, investments);
+    const inputs = milestoneFireInputs(
+      [milestone({ estimated_cost_cents: 5_000_00, estimated_monthly_impact_cents: 2_000_00, impact_months: 216 })],
+      [],
+      spending,
+      NOW
+    );
+    const withBaby = projectFireDate(profile, inputs.spending, investments, inputs.adjustments);
+    expect(base.projectedFireAge).not.toBeNull();
+    expect(withBaby.projectedFireAge!).toBeGreaterThan(base.projectedFireAge!);
+  });
+});
+
+describe("toTimelineMilestones", () => {
+  it("counts only the cost the linked goal doesn't cover", () => {
+    expect(
+      toTimelineMilestones(
+        [
+          milestone({
+            estimated_cost_cents: 35_000_00,
+            estimated_monthly_impact_cents: 1_200_00,
+            impact_months: 216,
+            linked_goal_id: "g1",
+          }),
+          milestone({ id: "old", target_date: "2025-01-01", estimated_cost_cents: 1 }),
+        ],
+        [goal()],
+        NOW
+      )
+    ).toEqual([
+      {
+        id: "m1",
+        name: "Baby",
+        date: "2027-06-01",
+        costCents: 5_000_00,
+        monthlyImpactCents: 1_200_00,
+        impactMonths: 216,
+      },
+    ]);
+  });
+});
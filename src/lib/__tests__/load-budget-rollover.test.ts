@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { loadRolloverFromPrevious } from '../load-budget-rollover';
+import { DEFAULT_BUDGET_TIMEZONE, getBudgetPeriodRange, type BudgetSummaryInput } from '../budget-engine';
+
+type Rows = Record<string, unknown>[];
+
+interface Query {
+  table: string;
+  filters: [string, ...unknown[]][];
+  range?: [number, number];
+}
+
+/** Chainable stand-in for the Supabase client that serves pages of rows */
+function fakeSupabase(tables: { budget_months?: Rows; budget_assignments?: Rows; transactions?: Rows }) {
+  const queries: Query[] = [];
+  const client = {
+    from: (table: string) => {
+      const query: Query = { table, filters: [] };
+      queries.push(query);
+      const result = () => {
+        const rows = tables[table as keyof typeof tables] ?? [];
+        if (table === 'budget_months') return { data: rows[0] ?? null, error: null };
+        const [from, to] = query.range ?? [0, rows.length - 1];
+        return { data: rows.slice(from, to + 1), error: null };
+      };
+      const chain: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'lt', 'lte', 'gte', 'in', 'neq', 'not', 'order', 'limit']) {
+        chain[method] = (...args: unknown[]) => {
+          query.filters.push([method, ...args]);
+          return chain;
+        };
+      }
+      chain.range = (from: number, to: number) => {
+        query.range = [from, to];
+        return chain;
+      };
+      chain.maybeSingle = () => Promise.resolve(result());
+      chain.then = (resolve: (v: unknown) => unknown) => Promise.resolve(result()).then(resolve);
+      return chain;
+    },
+  };
+  return { client, queries };
+}
+
+const october = getBudgetPeriodRange(new Date('2026-10-15T00:00:00Z'), 'monthly', DEFAULT_BUDGET_TIMEZONE);
+
+const input: BudgetSummaryInput = {
+  periodType: 'monthly',
+  budgetView: 'shared',
+  carryoverMode: 'rollover-with-debt',
+  methodology: 'zero-based',
+  totalBudget: null,
+  userId: 'user-1',
+  ownerUserId: 'user-1',
+  periodRange: october,
+  incomeSources: [],
+  assignments: [],
+  transactions: [],
+  expenseDefinitions: [],
+  splitSettings: [],
+  categoryMappings: [{ up_category_id: 'groceries', new_parent_name: 'Food & Dining', new_child_name: 'Groceries' }],
+  carryoverFromPrevious: 0,
+};
+
+const budget = {
+  id: 'budget-1',
+  carryover_mode: 'rollover-with-debt',
+  budget_view: 'shared' as const,
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+const regoAssignment = (month: string, cents: number) => ({
+  id: `a-${month}`,
+  month,
+  category_name: 'Transport',
+  subcategory_name: 'Rego',
+  assigned_cents: cents,
+  assignment_type: 'category',
+  rollover: null,
+});
+
+describe('loadRolloverFromPrevious', () => {
+  it('keeps balances from the budget\'s whole history when no month is closed', async () => {
+    const { client, queries } = fakeSupabase({
+      budget_assignments: [regoAssignment('2024-02-01', 50000)],
+    });
+
+    const carry = await loadRolloverFromPrevious(client as never, budget, [], input);
+
+    // 32 months back, well past the old twelve-period window
+    expect(carry.get('Transport::Rego')).toBe(50000);
+    const assignments = queries.find((q) => q.table === 'budget_assignments');
+    expect(assignments?.filters).toContainEqual(['gte', 'month', '2024-01-01']);
+  });
+
+  it('starts from the latest closed month and pages its spending', async () => {
+    const groceries = Array.from({ length: 1200 }, (_, i) => ({
+      id: `t-${String(i).padStart(4, '0')}`,
+      amount_cents: -100,
+      category_id: 'groceries',
+      settled_at: '2026-08-10T02:00:00Z',
+      expense_matches: null,
+      transaction_splits: [],
+    }));
+    const { client, queries } = fakeSupabase({
+      budget_months: [{ month: '2026-07-01', closing_balances: { 'Transport::Rego': 90000 } }],
+      budget_assignments: [regoAssignment('2026-08-01', 10000), regoAssignment('2026-09-01', 10000)],
+      transactions: groceries,
+    });
+
+    const carry = await loadRolloverFromPrevious(client as never, budget, ['acc-1'], input);
+
+    expect(Object.fromEntries(carry)).toEqual({
+      'Transport::Rego': 110000,
+      'Food & Dining::Groceries': -120000,
+    });
+
+    const closed = queries.find((q) => q.table === 'budget_months');
+    expect(closed?.filters).toContainEqual(['lt', 'month', '2026-10-01']);
+    expect(queries.find((q) => q.table === 'budget_assignments')?.filters).toContainEqual(['gte', 'month', '2026-08-01']);
+    expect(queries.filter((q) => q.table === 'transactions').map((q) => q.range)).toEqual([
+      [0, 999],
+      [1000, 1999],
+    ]);
+  });
+
+  it('returns the stored balances when the closed month is the one just before', async () => {
+    const { client, queries } = fakeSupabase({
+      budget_months: [{ month: '2026-09-01', closing_balances: { 'Transport::Rego': 90000 } }],
+    });
+
+    const carry = await loadRolloverFromPrevious(client as never, budget, ['acc-1'], input);
+
+    expect(Object.fromEntries(carry)).toEqual({ 'Transport::Rego': 90000 });
+    expect(queries.map((q) => q.table)).toEqual(['budget_months']);
+  });
+
+  it('does nothing when the budget starts every period fresh', async () => {
+    const { client, queries } = fakeSupabase({});
+
+    const carry = await loadRolloverFromPrevious(client as never, { ...budget, carryover_mode: 'none' }, [], input);
+
+    expect(carry.size).toBe(0);
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_BUDGET_TIMEZONE, getBudgetPeriodRange, type BudgetSummary } from '../budget-engine';
+
+const mockLoadRollover = vi.fn();
+
+vi.mock('@/lib/get-effective-account-ids', () => ({
+  getEffectiveAccountIds: vi.fn(async () => ['acc-1']),
+}));
+vi.mock('@/lib/load-budget-rollover', () => ({
+  loadRolloverFromPrevious: (...args: unknown[]) => mockLoadRollover(...args),
+}));
+
+import { loadBudgetSummary, type SummaryBudget } from '../load-budget-summary';
+
+/** Chainable stand-in for the Supabase client, one result per table */
+function fakeSupabase(tables: Record<string, unknown>) {
+  return {
+    from: (table: string) => {
+      const result = { data: tables[table] ?? (table === 'budget_months' || table === 'budget_layout_presets' ? null : []), error: null };
+      const chain: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'in', 'gte', 'lte', 'lt', 'neq', 'order', 'limit']) {
+        chain[method] = () => chain;
+      }
+      chain.maybeSingle = () => Promise.resolve(result);
+      chain.then = (resolve: (v: unknown) => unknown) => Promise.resolve(result).then(resolve);
+      return chain;
+    },
+  };
+}
+
+const budget: SummaryBudget = {
+  id: 'budget-1',
+  partnership_id: 'p-1',
+  period_type: 'monthly',
+  budget_view: 'shared',
+  carryover_mode: 'rollover-unspent',
+  methodology: 'zero-based',
+  total_budget: null,
+  created_by: 'user-1',
+};
+
+const date = new Date('2026-09-15T00:00:00Z');
+const september = getBudgetPeriodRange(date, 'monthly', DEFAULT_BUDGET_TIMEZONE);
+
+const live = {
+  budget_assignments: [
+    { category_name: 'Food & Dining', subcategory_name: 'Groceries', assigned_cents: 50000, assignment_type: 'category', goal_id: null, asset_id: null },
+  ],
+  category_mappings: [{ up_category_id: 'groceries', new_parent_name: 'Food & Dining', new_child_name: 'Groceries', icon: '🛒', display_order: 1 }],
+};
+
+const stored = {
+  income: 800000,
+  budgeted: 42000,
+  spent: 39000,
+  carryover: 0,
+  rollover: 0,
+  tbb: 758000,
+  rows: [{ id: 'Food & Dining::Groceries', type: 'subcategory', name: 'Groceries', budgeted: 42000, spent: 39000, available: 3000 }],
+} as unknown as BudgetSummary;
+
+describe('loadBudgetSummary', () => {
+  beforeEach(() => {
+    mockLoadRollover.mockReset();
+    mockLoadRollover.mockResolvedValue(new Map());
+  });
+
+  it('runs the engine on live data while the month is open', async () => {
+    const loaded = await loadBudgetSummary(fakeSupabase(live) as never, budget, 'user-1', date);
+
+    if ('error' in loaded) throw new Error(loaded.error);
+    expect(loaded.closedAt).toBeNull();
+    expect(loaded.summary.budgeted).toBe(50000);
+    expect(mockLoadRollover).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a closed period from the snapshot taken when it closed', async () => {
+    const supabase = fakeSupabase({
+      ...live,
+      budget_months: {
+        carryover_from_previous_cents: 0,
+        closed_at: '2026-10-02T00:00:00Z',
+        snapshot: {
+          periods: [
+            { label: september.label, start: september.start.toISOString(), end: september.end.toISOString(), summary: stored },
+          ],
+        },
+      },
+    });
+
+    const loaded = await loadBudgetSummary(supabase as never, budget, 'user-1', date);
+
+    if ('error' in loaded) throw new Error(loaded.error);
+    expect(loaded.closedAt).toBe('2026-10-02T00:00:00Z');
+    expect(loaded.summary).toEqual(stored);
+    expect(mockLoadRollover).not.toHaveBeenCalled();
+  });
+
+  it('runs a four-weekly budget from the pay date set on it', async () => {
+    const fourWeekly: SummaryBudget = { ...budget, period_type: 'four-weekly', period_anchor_date: '2026-08-27' };
+
+    const loaded = await loadBudgetSummary(fakeSupabase(live) as never, fourWeekly, 'user-1', date);
+
+    if ('error' in loaded) throw new Error(loaded.error);
+    expect(loaded.periodAnchor).toBe('2026-08-27');
+    expect(loaded.periodRange).toEqual(
+      getBudgetPeriodRange(new Date('2026-08-27T00:00:00Z'), 'four-weekly', DEFAULT_BUDGET_TIMEZONE, '2026-08-27')
+    );
+    expect(loaded.periodRange.start).not.toEqual(getBudgetPeriodRange(date, 'four-weekly', DEFAULT_BUDGET_TIMEZONE).start);
+  });
+
+  it('falls back to live figures when the snapshot has no periods', async () => {
+    const supabase = fakeSupabase({
+      ...live,
+      budget_months: { carryover_from_previous_cents: 0, closed_at: '2026-10-02T00:00:00Z', snapshot: { rows: [] } },
+    });
+
+    const loaded = await loadBudgetSummary(supabase as never, budget, 'user-1', date);
+
+    if ('error' in loaded) throw new Error(loaded.error);
+    expect(loaded.closedAt).toBe('2026-10-02T00:00:00Z');
+    expect(loaded.summary.budgeted).toBe(50000);
+  });
+});
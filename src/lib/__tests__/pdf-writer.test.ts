@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { buildPdf, fitText, textWidth, toWinAnsi, type PdfRow } from '../pdf-writer';
+
+const decode = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+describe('toWinAnsi', () => {
+  it('keeps ASCII and Latin-1, maps typographic characters and replaces the rest', () => {
+    expect(toWinAnsi('A é')).toEqual([0x41, 0x20, 0xe9]);
+    expect(toWinAnsi('–…›€')).toEqual([0x96, 0x85, 0x9b, 0x80]);
+    expect(toWinAnsi('日\n')).toEqual([0x3f]);
+  });
+});
+
+describe('textWidth / fitText', () => {
+  it('measures with Helvetica widths', () => {
+    expect(textWidth('i', 10)).toBeCloseTo(2.22);
+    expect(textWidth('W', 10)).toBeCloseTo(9.44);
+  });
+
+  it('truncates with an ellipsis only when needed', () => {
+    expect(fitText('Short', 100)).toBe('Short');
+    const fitted = fitText('A much longer description than fits', 60);
+    expect(fitted.endsWith('…')).toBe(true);
+    expect(textWidth(fitted)).toBeLessThanOrEqual(60);
+  });
+});
+
+describe('buildPdf', () => {
+  it('writes a header, a valid xref table and a trailer', () => {
+    const pdf = decode(buildPdf([{ cells: [{ text: 'Hello (world) \\', x: 48 }] }], { title: 'Test' }));
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf).toContain('(Hello \\(world\\) \\\\) Tj');
+    expect(pdf).toContain('/Title (Test)');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('paginates long content and numbers pages in the footer', () => {
+    const rows: PdfRow[] = Array.from({ length: 120 }, (_, i) => ({ cells: [{ text: `Row ${i}`, x: 48 }] }));
+    const pdf = decode(buildPdf(rows, { footer: (page, count) => `Page ${page} of ${count}` }));
+    expect(pdf).toContain('/Count 3');
+    expect(pdf).toContain('(Page 3 of 3)');
+    expect(pdf).toContain('(Row 119)');
+  });
+
+  it('honours explicit page breaks', () => {
+    const pdf = decode(buildPdf([
+      { cells: [{ text: 'One', x: 48 }] },
+      { pageBreakBefore: true, cells: [{ text: 'Two', x: 48 }] },
+    ]));
+    expect(pdf).toContain('/Count 2');
+  });
+});
@@ -16,6 +16,7 @@ import {
   type HealthMetricInputs,
   type RecommendationInputs,
   type GoalForTimeline,
+  type MilestoneForTimeline,
 } from "../plan-health-calculations";
 
 // ============================================================================
@@ -93,6 +94,22 @@ describe("calculateNetWorthTrend", () => {
     expect(result.trend).toBe("up"); // went from 100k to 120k
   });
 
+  it("subtracts liability_total_cents from net worth value", () => {
+    const snapshots: NetWorthSnapshot[] = [
+      { snapshot_date: "2026-02-01", total_balance_cents: 50_000_00, investment_total_cents: 70_000_00, liability_total_cents: 30_000_00 },
+    ];
+    const result = calculateNetWorthTrend(snapshots);
+    expect(result.rawValue).toBe(90_000_00);
+  });
+
+  it("adds super_total_cents to net worth value", () => {
+    const snapshots: NetWorthSnapshot[] = [
+      { snapshot_date: "2026-02-01", total_balance_cents: 50_000_00, super_total_cents: 80_000_00, liability_total_cents: 30_000_00 },
+    ];
+    const result = calculateNetWorthTrend(snapshots);
+    expect(result.rawValue).toBe(100_000_00);
+  });
+
   it("handles null investment_total_cents gracefully", () => {
     const snapshots: NetWorthSnapshot[] = [
       { snapshot_date: "2026-01-01", total_balance_cents: 100_000_00, investment_total_cents: null },
@@ -411,6 +428,17 @@ describe("generateHealthMetrics", () => {
     expect(metrics[6].id).toBe("debt-to-income");
   });
 
+  it("adds tracked debts to the home loan for debt-to-income", () => {
+    const metrics = generateHealthMetrics({
+      ...baseInputs,
+      homeLoanBalanceCents: 0,
+      otherDebtCents: 30_000_00,
+    });
+    const debt = metrics.find((m) => m.id === "debt-to-income");
+    expect(debt).toBeDefined();
+    expect(debt!.rawValue).toBeCloseTo(30_000_00 / baseInputs.annualIncomeCents);
+  });
+
   it("all metrics have required fields", () => {
     const metrics = generateHealthMetrics(baseInputs);
     for (const m of metrics) {
@@ -732,4 +760,50 @@ describe("analyzeGoalInteractions", () => {
     // At least one should warn
     expect(result.length).toBeGreaterThanOrEqual(1);
   });
+
+  it("warns about a milestone's one-off cost", () => {
+    const milestones: MilestoneForTimeline[] = [
+      {
+        id: "m1",
+        name: "Wedding",
+        date: "2026-06-01",
+        costCents: 2_000_000, // $20,000
+        monthlyImpactCents: 0,
+        impactMonths: null,
+      },
+    ];
+    const result = analyzeGoalInteractions([], 1_000_000, 300_000, 200_000, milestones);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ goalId: "m1", source: "milestone", emergencyFundMonthsAfter: 0 });
+    expect(result[0].warningMessage).toContain("before this milestone");
+  });
+
+  it("takes a milestone's monthly impact off savings for later goals", () => {
+    const goals: GoalForTimeline[] = [
+      {
+        id: "g1",
+        name: "Car",
+        deadline: "2027-02-01",
+        target_amount_cents: 2_000_000, // $20,000
+        is_completed: false,
+      },
+    ];
+    // Without the milestone: $10k + ~$22.8k saved − $20k ≈ 4.3 months left
+    expect(analyzeGoalInteractions(goals, 1_000_000, 300_000, 200_000)).toHaveLength(0);
+
+    // $1,000/mo less saved from April leaves under 3 months
+    const milestones: MilestoneForTimeline[] = [
+      {
+        id: "m1",
+        name: "Baby",
+        date: "2026-04-01",
+        costCents: 0,
+        monthlyImpactCents: 100_000,
+        impactMonths: 216,
+      },
+    ];
+    const result = analyzeGoalInteractions(goals, 1_000_000, 300_000, 200_000, milestones);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ goalId: "g1", source: "goal" });
+  });
 });
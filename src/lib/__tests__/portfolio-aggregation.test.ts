@@ -133,6 +133,40 @@ describe("aggregatePortfolioHistory", () => {
     const jan15 = result.find((p) => p.date === "2025-01-15");
     expect(jan15!.valueCents).toBe(45000);
   });
+
+  it("converts forward-filled foreign values at each date's rate", () => {
+    const investments = [
+      {
+        id: "usd",
+        current_value_cents: 150000,
+        purchase_value_cents: 140000,
+        created_at: "2025-01-01T00:00:00Z",
+        currency_code: "USD",
+        native_value_cents: 100000,
+      },
+      { id: "aud", current_value_cents: 50000, purchase_value_cents: 50000, created_at: "2025-01-01T00:00:00Z" },
+    ];
+    const history = [
+      { investment_id: "usd", value_cents: 150000, native_value_cents: 100000, recorded_at: "2025-01-10T00:00:00Z" },
+      { investment_id: "aud", value_cents: 50000, recorded_at: "2025-01-10T00:00:00Z" },
+      { investment_id: "aud", value_cents: 52000, recorded_at: "2025-02-10T00:00:00Z" },
+    ];
+    const rates: Record<string, number> = { "2025-01-10": 1.5, "2025-02-10": 1.6 };
+
+    const result = aggregatePortfolioHistory(
+      investments,
+      history,
+      new Date("2025-01-01"),
+      new Date("2025-02-28"),
+      (_currency, date) => rates[date] ?? null
+    );
+
+    expect(result.find((p) => p.date === "2025-01-10")!.valueCents).toBe(200000);
+    // US$1,000 unchanged, but now worth $1,600
+    expect(result.find((p) => p.date === "2025-02-10")!.valueCents).toBe(212000);
+    // No rate for the end date — falls back to the recorded AUD value
+    expect(result.find((p) => p.date === "2025-02-28")!.valueCents).toBe(202000);
+  });
 });
 
 describe("calculatePerformanceMetrics", () => {
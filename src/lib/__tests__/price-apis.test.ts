@@ -5,6 +5,7 @@ import {
   fetchStockPrice,
   fetchYahooFinancePrice,
   fetchExchangeRateToAud,
+  fetchExchangeRateHistoryToAud,
   fetchInvestmentPrice,
 } from "../price-apis";
 
@@ -315,6 +316,18 @@ describe("fetchYahooFinancePrice", () => {
     expect(forexUrl).toContain("USDAUD=X");
   });
 
+  it("keeps the native price and rate for converted quotes", async () => {
+    mockFetch.mockResolvedValueOnce(makeEmptyYahooResponse());
+    mockFetch.mockResolvedValueOnce(makeYahooResponse(150, 148, "USD"));
+    mockFetch.mockResolvedValueOnce(makeForexResponse(1.5));
+
+    const result = await fetchYahooFinancePrice("VTI");
+
+    expect(result!.nativeCurrency).toBe("USD");
+    expect(result!.nativePrice).toBe(150);
+    expect(result!.fxRate).toBe(1.5);
+  });
+
   it("skips .AX suffix for symbols with existing dot", async () => {
     mockFetch.mockResolvedValueOnce(makeYahooResponse(45, 44));
 
@@ -451,6 +464,51 @@ describe("fetchExchangeRateToAud", () => {
 
 // ─── fetchStockPrice (delegates to Yahoo Finance) ───────────
 
+// ─── fetchExchangeRateHistoryToAud ──────────────────────────
+
+describe("fetchExchangeRateHistoryToAud", () => {
+  it("returns daily closes keyed by date, skipping empty days", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          chart: {
+            result: [
+              {
+                meta: { gmtoffset: 0 },
+                timestamp: [
+                  Date.UTC(2026, 0, 5) / 1000,
+                  Date.UTC(2026, 0, 6) / 1000,
+                  Date.UTC(2026, 0, 7) / 1000,
+                ],
+                indicators: { quote: [{ close: [1.5, null, 1.52] }] },
+              },
+            ],
+          },
+        }),
+    });
+
+    const points = await fetchExchangeRateHistoryToAud("usd", "2026-01-05", "2026-01-07");
+
+    expect(points).toEqual([
+      { date: "2026-01-05", rate: 1.5 },
+      { date: "2026-01-07", rate: 1.52 },
+    ]);
+    expect(mockFetch.mock.calls[0][0]).toContain("USDAUD=X");
+    expect(mockFetch.mock.calls[0][0]).toContain("period1=");
+  });
+
+  it("returns nothing for AUD without fetching", async () => {
+    expect(await fetchExchangeRateHistoryToAud("AUD", "2026-01-01", "2026-01-31")).toEqual([]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("returns an empty array on API error", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+    expect(await fetchExchangeRateHistoryToAud("USD", "2026-01-01", "2026-01-31")).toEqual([]);
+  });
+});
+
 describe("fetchStockPrice", () => {
   it("fetches via Yahoo Finance", async () => {
     mockFetch.mockResolvedValueOnce(makeYahooResponse(65.43, 64.80));
@@ -553,6 +611,19 @@ describe("fetchInvestmentPrice", () => {
     expect(result!.valueCents).toBe(630083);
   });
 
+  it("returns the native value and currency for foreign listings", async () => {
+    mockFetch.mockResolvedValueOnce(makeEmptyYahooResponse());
+    mockFetch.mockResolvedValueOnce(makeYahooResponse(300, 295, "USD"));
+    mockFetch.mockResolvedValueOnce(makeForexResponse(1.5));
+
+    const result = await fetchInvestmentPrice("etf", "VTI", 10);
+
+    expect(result!.currencyCode).toBe("USD");
+    expect(result!.nativeValueCents).toBe(300000);
+    expect(result!.valueCents).toBe(450000);
+    expect(result!.fxRate).toBe(1.5);
+  });
+
   it("returns null when underlying API fails", async () => {
     mockFetch.mockRejectedValueOnce(new Error("Network error"));
 
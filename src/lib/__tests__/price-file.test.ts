@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectPriceFileFormat,
+  matchPricesToHoldings,
+  normalizeTicker,
+  parsePriceFile,
+  type PriceFilePoint,
+} from "../price-file";
+
+describe("normalizeTicker", () => {
+  it("uppercases, trims and drops the ASX suffix", () => {
+    expect(normalizeTicker(" vas.ax ")).toBe("VAS");
+    expect(normalizeTicker("btc")).toBe("BTC");
+    expect(normalizeTicker("VAS.AXW")).toBe("VAS.AXW");
+  });
+});
+
+describe("detectPriceFileFormat", () => {
+  it("uses the extension, then the content", () => {
+    expect(detectPriceFileFormat("prices.json", "ticker,date,price")).toBe("json");
+    expect(detectPriceFileFormat("prices.CSV", "[]")).toBe("csv");
+    expect(detectPriceFileFormat("prices.txt", '  [{"ticker":"VAS"}]')).toBe("json");
+    expect(detectPriceFileFormat("prices", "ticker,date,price")).toBe("csv");
+  });
+});
+
+describe("parsePriceFile (CSV)", () => {
+  it("reads ticker, date and price columns in any order", () => {
+    const csv = "Date,Close,Symbol,Currency\n2026-10-16,102.50,VAS.AX,AUD\n16/10/2026,\"$1,234.00\",ivv,\n";
+    const result = parsePriceFile(csv, "csv");
+
+    expect(result.errors).toEqual([]);
+    expect(result.prices).toEqual([
+      { ticker: "VAS", date: "2026-10-16", price: 102.5, currencyCode: "AUD" },
+      { ticker: "IVV", date: "2026-10-16", price: 1234, currencyCode: null },
+    ]);
+  });
+
+  it("keeps the last price for a ticker and date", () => {
+    const csv = "ticker,date,price\nVAS,2026-10-16,100\nVAS,2026-10-16,101\n";
+    expect(parsePriceFile(csv, "csv").prices).toEqual([
+      { ticker: "VAS", date: "2026-10-16", price: 101, currencyCode: null },
+    ]);
+  });
+
+  it("reports bad rows and keeps the good ones", () => {
+    const csv = "ticker,date,price,currency\n,2026-10-16,1,\nVAS,yesterday,1,\nVAS,2026-10-16,-5,\nVAS,2026-10-16,1,dollars\nVAS,2026-10-17,1,\n";
+    const result = parsePriceFile(csv, "csv");
+
+    expect(result.prices).toHaveLength(1);
+    expect(result.errors).toEqual([
+      "Row 2: missing ticker",
+      'Row 3: invalid date "yesterday"',
+      'Row 4: invalid price "-5"',
+      'Row 5: invalid currency "dollars"',
+    ]);
+  });
+
+  it("needs a header with ticker, date and price", () => {
+    expect(parsePriceFile("ticker,price\nVAS,1\n", "csv")).toEqual({
+      prices: [],
+      errors: ["The header row needs ticker, date and price columns"],
+    });
+  });
+});
+
+describe("parsePriceFile (JSON)", () => {
+  it("reads an array or a prices object", () => {
+    const entries = [{ ticker: "VAS", date: "2026-10-16", price: 102.5 }, { symbol: "BTC", price_date: "2026-10-16", close: "95000", currency: "aud" }];
+    const expected = [
+      { ticker: "VAS", date: "2026-10-16", price: 102.5, currencyCode: null },
+      { ticker: "BTC", date: "2026-10-16", price: 95000, currencyCode: "AUD" },
+    ];
+
+    expect(parsePriceFile(JSON.stringify(entries), "json").prices).toEqual(expected);
+    expect(parsePriceFile(JSON.stringify({ prices: entries }), "json").prices).toEqual(expected);
+  });
+
+  it("rejects invalid JSON and unexpected shapes", () => {
+    expect(parsePriceFile("{", "json").errors).toEqual(["File isn't valid JSON"]);
+    expect(parsePriceFile('{"data":[]}', "json").errors).toHaveLength(1);
+    expect(parsePriceFile('[{"ticker":"VAS"}]', "json").errors).toEqual(['Entry 1: invalid date ""']);
+  });
+});
+
+describe("matchPricesToHoldings", () => {
+  const point = (ticker: string, date: string): PriceFilePoint => ({ ticker, date, price: 1, currencyCode: null });
+
+  it("gives every holding with the ticker its prices, oldest first", () => {
+    const { byHolding, unmatched } = matchPricesToHoldings(
+      [point("VAS", "2026-10-17"), point("VAS", "2026-10-16"), point("NDQ", "2026-10-16"), point("BTC", "2026-10-16")],
+      [
+        { id: "a", ticker_symbol: "VAS.AX" },
+        { id: "b", ticker_symbol: "vas" },
+        { id: "c", ticker_symbol: null },
+      ]
+    );
+
+    expect(byHolding.get("a")?.map((p) => p.date)).toEqual(["2026-10-16", "2026-10-17"]);
+    expect(byHolding.get("b")).toHaveLength(2);
+    expect(byHolding.has("c")).toBe(false);
+    expect(unmatched).toEqual(["BTC", "NDQ"]);
+  });
+});
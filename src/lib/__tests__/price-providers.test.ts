@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { isFreshQuote, isOfflinePricing, resolvePriceProvider } from "../price-providers";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("resolvePriceProvider", () => {
+  it("picks a live provider from the asset type on auto", () => {
+    expect(resolvePriceProvider("crypto", "auto", false)).toBe("coingecko");
+    expect(resolvePriceProvider("etf", null, false)).toBe("yahoo");
+    expect(resolvePriceProvider("stock", undefined, false)).toBe("yahoo");
+    expect(resolvePriceProvider("property", "auto", false)).toBe("manual");
+  });
+
+  it("honours an explicit choice", () => {
+    expect(resolvePriceProvider("other", "yahoo", false)).toBe("yahoo");
+    expect(resolvePriceProvider("stock", "coingecko", false)).toBe("coingecko");
+    expect(resolvePriceProvider("crypto", "manual", false)).toBe("manual");
+  });
+
+  it("prices everything from files when offline", () => {
+    expect(resolvePriceProvider("crypto", "coingecko", true)).toBe("manual");
+    vi.stubEnv("PRICE_PROVIDERS", "offline");
+    expect(isOfflinePricing()).toBe(true);
+    expect(resolvePriceProvider("etf", "auto")).toBe("manual");
+  });
+});
+
+describe("isFreshQuote", () => {
+  const now = new Date("2026-10-19T10:00:00Z");
+
+  it("reuses quotes inside the cache window", () => {
+    expect(isFreshQuote("2026-10-19T09:50:00Z", now)).toBe(true);
+    expect(isFreshQuote("2026-10-19T09:40:00Z", now)).toBe(false);
+    expect(isFreshQuote("2026-10-19T09:40:00Z", now, 30)).toBe(true);
+  });
+
+  it("ignores quotes stamped in the future", () => {
+    expect(isFreshQuote("2026-10-19T10:05:00Z", now)).toBe(false);
+  });
+});
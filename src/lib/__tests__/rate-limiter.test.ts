@@ -4,9 +4,16 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
  * Tests for Issue 19: Rate Limiting on AI Endpoints
  *
  * Verifies the in-memory rate limiter blocks after exceeding limits
- * and resets after the window expires.
+ * and resets after the window expires, and that the storage backend
+ * is pluggable (RATE_LIMIT_STORE=database uses the rate_limit_hit RPC).
  */
 
+const mockRpc = vi.fn();
+
+vi.mock('@/utils/supabase/service-role', () => ({
+  createServiceRoleClient: () => ({ rpc: mockRpc }),
+}));
+
 describe('rate-limiter', () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -15,6 +22,8 @@ describe('rate-limiter', () => {
 
   afterEach(() => {
     vi.useRealTimers();
+    vi.unstubAllEnvs();
+    mockRpc.mockReset();
   });
 
   describe('RateLimiter class', () => {
@@ -23,7 +32,7 @@ describe('rate-limiter', () => {
       const limiter = new RateLimiter({ maxRequests: 10, windowMs: 60_000 });
 
       for (let i = 0; i < 10; i++) {
-        expect(limiter.check('user-1')).toEqual({ allowed: true, remaining: 10 - i - 1 });
+        expect(await limiter.check('user-1')).toEqual({ allowed: true, remaining: 10 - i - 1 });
       }
     });
 
@@ -32,12 +41,12 @@ describe('rate-limiter', () => {
       const limiter = new RateLimiter({ maxRequests: 3, windowMs: 60_000 });
 
       // Use up all 3 requests
-      limiter.check('user-1');
-      limiter.check('user-1');
-      limiter.check('user-1');
+      await limiter.check('user-1');
+      await limiter.check('user-1');
+      await limiter.check('user-1');
 
       // 4th request should be blocked
-      const result = limiter.check('user-1');
+      const result = await limiter.check('user-1');
       expect(result.allowed).toBe(false);
       expect(result.remaining).toBe(0);
       expect(result.retryAfterMs).toBeDefined();
@@ -49,15 +58,15 @@ describe('rate-limiter', () => {
       const limiter = new RateLimiter({ maxRequests: 2, windowMs: 60_000 });
 
       // Use up both requests
-      limiter.check('user-1');
-      limiter.check('user-1');
-      expect(limiter.check('user-1').allowed).toBe(false);
+      await limiter.check('user-1');
+      await limiter.check('user-1');
+      expect((await limiter.check('user-1')).allowed).toBe(false);
 
       // Advance time past the window
       vi.advanceTimersByTime(60_001);
 
       // Should be allowed again
-      const result = limiter.check('user-1');
+      const result = await limiter.check('user-1');
       expect(result.allowed).toBe(true);
       expect(result.remaining).toBe(1);
     });
@@ -67,24 +76,24 @@ describe('rate-limiter', () => {
       const limiter = new RateLimiter({ maxRequests: 1, windowMs: 60_000 });
 
       // User 1 uses their one request
-      expect(limiter.check('user-1').allowed).toBe(true);
-      expect(limiter.check('user-1').allowed).toBe(false);
+      expect((await limiter.check('user-1')).allowed).toBe(true);
+      expect((await limiter.check('user-1')).allowed).toBe(false);
 
       // User 2 should still be allowed
-      expect(limiter.check('user-2').allowed).toBe(true);
-      expect(limiter.check('user-2').allowed).toBe(false);
+      expect((await limiter.check('user-2')).allowed).toBe(true);
+      expect((await limiter.check('user-2')).allowed).toBe(false);
     });
 
     it('should return retryAfterMs with the time until window reset', async () => {
       const { RateLimiter } = await import('@/lib/rate-limiter');
       const limiter = new RateLimiter({ maxRequests: 1, windowMs: 60_000 });
 
-      limiter.check('user-1');
+      await limiter.check('user-1');
 
       // Advance 30 seconds
       vi.advanceTimersByTime(30_000);
 
-      const result = limiter.check('user-1');
+      const result = await limiter.check('user-1');
       expect(result.allowed).toBe(false);
       // Should have roughly 30 seconds remaining
       expect(result.retryAfterMs).toBeLessThanOrEqual(30_000);
@@ -97,23 +106,67 @@ describe('rate-limiter', () => {
 
       // Create entries for 100 different keys
       for (let i = 0; i < 100; i++) {
-        limiter.check(`user-${i}`);
+        await limiter.check(`user-${i}`);
       }
 
       // Advance past the window and past the cleanup interval (5 minutes)
       vi.advanceTimersByTime(5 * 60 * 1000 + 1);
 
       // Trigger cleanup via a new check()
-      limiter.check('trigger-cleanup');
+      await limiter.check('trigger-cleanup');
 
       // The limiter should have cleaned up all 100 expired entries
       // We can verify by checking that old keys get fresh windows
-      const result = limiter.check('user-0');
+      const result = await limiter.check('user-0');
       expect(result.allowed).toBe(true);
       expect(result.remaining).toBe(4); // Fresh window: 5 max - 1 used = 4
     });
   });
 
+  describe('storage backends', () => {
+    it('should namespace keys and delegate to a custom store', async () => {
+      const { RateLimiter } = await import('@/lib/rate-limiter');
+      const hit = vi.fn().mockResolvedValue({ count: 3, resetAt: Date.now() + 10_000 });
+      const limiter = new RateLimiter({ name: 'chat', maxRequests: 2, windowMs: 60_000, store: { hit } });
+
+      const result = await limiter.check('user-1');
+
+      expect(hit).toHaveBeenCalledWith('chat:user-1', 60_000);
+      expect(result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 10_000 });
+    });
+
+    it('should use the rate_limit_hit RPC when RATE_LIMIT_STORE=database', async () => {
+      vi.stubEnv('RATE_LIMIT_STORE', 'database');
+      const single = vi.fn().mockResolvedValue({
+        data: { hit_count: 1, reset_at: new Date(Date.now() + 60_000).toISOString() },
+        error: null,
+      });
+      mockRpc.mockImplementation((fn: string) =>
+        fn === 'rate_limit_hit' ? { single } : Promise.resolve({ error: null })
+      );
+      const { RateLimiter } = await import('@/lib/rate-limiter');
+      const limiter = new RateLimiter({ name: 'sync', maxRequests: 2, windowMs: 60_000 });
+
+      expect(await limiter.check('user-1')).toEqual({ allowed: true, remaining: 1 });
+      expect(mockRpc).toHaveBeenCalledWith('rate_limit_hit', { p_key: 'sync:user-1', p_window_ms: 60_000 });
+    });
+
+    it('should fall back to memory when the database store fails', async () => {
+      vi.stubEnv('RATE_LIMIT_STORE', 'database');
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockRpc.mockReturnValue({
+        single: vi.fn().mockResolvedValue({ data: null, error: { message: 'connection refused' } }),
+      });
+      const { RateLimiter } = await import('@/lib/rate-limiter');
+      const limiter = new RateLimiter({ maxRequests: 1, windowMs: 60_000 });
+
+      expect((await limiter.check('user-1')).allowed).toBe(true);
+      expect((await limiter.check('user-1')).allowed).toBe(false);
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
   describe('utility functions', () => {
     it('getClientIp should extract IP from x-forwarded-for header', async () => {
       const { getClientIp } = await import('@/lib/rate-limiter');
@@ -161,10 +214,10 @@ describe('rate-limiter', () => {
 
       // Should allow 10 requests
       for (let i = 0; i < 10; i++) {
-        expect(chatLimiter.check('user-1').allowed).toBe(true);
+        expect((await chatLimiter.check('user-1')).allowed).toBe(true);
       }
       // 11th should be blocked
-      expect(chatLimiter.check('user-1').allowed).toBe(false);
+      expect((await chatLimiter.check('user-1')).allowed).toBe(false);
     });
 
     it('should export autoDetectLimiter with 5 req/hour', async () => {
@@ -173,10 +226,10 @@ describe('rate-limiter', () => {
 
       // Should allow 5 requests
       for (let i = 0; i < 5; i++) {
-        expect(autoDetectLimiter.check('user-1').allowed).toBe(true);
+        expect((await autoDetectLimiter.check('user-1')).allowed).toBe(true);
       }
       // 6th should be blocked
-      expect(autoDetectLimiter.check('user-1').allowed).toBe(false);
+      expect((await autoDetectLimiter.check('user-1')).allowed).toBe(false);
     });
   });
 });
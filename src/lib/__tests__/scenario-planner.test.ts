@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateScenario,
+  monthlyDeltas,
+  toProjectionAdjustments,
+  type ScenarioBase,
+  type ScenarioChange,
+} from "../scenario-planner";
+import type { FireProfile } from "../fire-calculations";
+
+const NOW = new Date(2026, 0, 15);
+
+const profile: FireProfile = {
+  dateOfBirth: new Date("1990-03-01"),
+  targetRetirementAge: null,
+  superBalanceCents: 100_000_00,
+  superContributionRate: 11.5,
+  expectedReturnRate: 7,
+  outsideSuperReturnRate: null,
+  incomeGrowthRate: 0,
+  spendingGrowthRate: 0,
+  fireVariant: "regular",
+  annualExpenseOverrideCents: null,
+};
+
+function makeBase(overrides?: Partial<ScenarioBase>): ScenarioBase {
+  return {
+    monthlyIncomeCents: 12_000_00,
+    monthlySpendCents: 7_000_00,
+    goals: [],
+    fire: {
+      profile,
+      spending: {
+        monthlyEssentialsCents: 4_000_00,
+        monthlyTotalSpendCents: 7_000_00,
+        monthlyIncomeCents: 12_000_00,
+        savingsRatePercent: 41.7,
+        topCategories: [],
+      },
+      investments: { outsideSuperCents: 150_000_00, superBalanceCents: 100_000_00 },
+    },
+    ...overrides,
+  };
+}
+
+const fourDays: ScenarioChange = {
+  type: "work_hours",
+  label: "Four days a week",
+  percent: 80,
+  monthly_income_cents: 6_000_00,
+  starts_in_months: 0,
+  months: null,
+};
+
+describe("monthlyDeltas", () => {
+  it("scales only the affected income for a work-hours change", () => {
+    expect(monthlyDeltas([fourDays], 12_000_00, 0).incomeCents).toBe(-1_200_00);
+  });
+
+  it("applies temporary changes only while they last", () => {
+    const leave: ScenarioChange = {
+      type: "income",
+      label: "Parental leave",
+      monthly_cents: -3_000_00,
+      starts_in_months: 6,
+      months: 12,
+    };
+    expect(monthlyDeltas([leave], 0, 5).incomeCents).toBe(0);
+    expect(monthlyDeltas([leave], 0, 6).incomeCents).toBe(-3_000_00);
+    expect(monthlyDeltas([leave], 0, 18).incomeCents).toBe(0);
+    expect(monthlyDeltas([leave], 0, Infinity).incomeCents).toBe(0);
+  });
+});
+
+describe("toProjectionAdjustments", () => {
+  it("spreads temporary changes over the projection years they fall in", () => {
+    const leave: ScenarioChange = {
+      type: "income",
+      label: "Parental leave",
+      monthly_cents: -3_000_00,
+      starts_in_months: 6,
+      months: 12,
+    };
+    expect(toProjectionAdjustments([leave], 0)).toEqual([
+      { yearOffset: 0, incomeCents: -18_000_00, spendingCents: 0 },
+      { yearOffset: 1, incomeCents: -18_000_00, spendingCents: 0 },
+    ]);
+  });
+
+  it("holds back an ongoing change until it starts", () => {
+    const newJob: ScenarioChange = {
+      type: "income",
+      label: "New job",
+      monthly_cents: 1_000_00,
+      starts_in_months: 3,
+      months: null,
+    };
+    expect(toProjectionAdjustments([newJob], 0)).toEqual([
+      { yearOffset: 0, incomeCents: -3_000_00, spendingCents: 0 },
+    ]);
+  });
+});
+
+describe("evaluateScenario", () => {
+  it("reproduces the current plan with no changes", () => {
+    const outcome = evaluateScenario(makeBase(), [], NOW);
+    expect(outcome.monthlySurplusCents).toBe(5_000_00);
+    expect(outcome.ongoingSurplusCents).toBe(5_000_00);
+    expect(outcome.fireAge).not.toBeNull();
+  });
+
+  it("pushes FIRE back when going part-time", () => {
+    const current = evaluateScenario(makeBase(), [], NOW);
+    const partTime = evaluateScenario(makeBase(), [fourDays], NOW);
+
+    expect(partTime.ongoingSurplusCents).toBe(3_800_00);
+    expect(partTime.fireAge!).toBeGreaterThan(current.fireAge!);
+  });
+
+  it("funds goals in deadline order from surplus", () => {
+    const base = makeBase({
+      goals: [
+        { id: "holiday", name: "Holiday", current_amount_cents: 0, target_amount_cents: 5_000_00, deadline: "2026-12-31" },
+        { id: "car", name: "Car", current_amount_cents: 5_000_00, target_amount_cents: 20_000_00, deadline: "2026-06-30" },
+      ],
+    });
+    const outcome = evaluateScenario(base, [], NOW);
+
+    const car = outcome.goals.find((g) => g.id === "car")!;
+    const holiday = outcome.goals.find((g) => g.id === "holiday")!;
+    // $15k remaining at $5k/month: funded in the third month
+    expect(car.completionDate).toEqual(new Date(2026, 2, 1));
+    expect(car.onTime).toBe(true);
+    expect(holiday.completionDate).toEqual(new Date(2026, 3, 1));
+  });
+
+  it("puts sale proceeds towards goals and takes them out of the portfolio", () => {
+    const deposit: ScenarioChange = {
+      type: "goal",
+      label: "House deposit",
+      target_cents: 100_000_00,
+      deadline: "2027-12-31",
+    };
+    const sale: ScenarioChange = { type: "sell_investment", label: "Sell ETFs", amount_cents: 50_000_00 };
+
+    const saving = evaluateScenario(makeBase(), [deposit], NOW);
+    const selling = evaluateScenario(makeBase(), [deposit, sale], NOW);
+
+    expect(saving.goals[0].completionDate).toEqual(new Date(2027, 7, 1));
+    expect(selling.goals[0].completionDate).toEqual(new Date(2026, 9, 1));
+    expect(selling.goals[0].onTime).toBe(true);
+    expect(saving.fireAge!).toBeGreaterThan(evaluateScenario(makeBase(), [], NOW).fireAge!);
+  });
+
+  it("skips FIRE figures when FIRE isn't set up", () => {
+    const outcome = evaluateScenario(makeBase({ fire: null }), [fourDays], NOW);
+    expect(outcome.fireAge).toBeNull();
+    expect(outcome.monthlySurplusCents).toBe(3_800_00);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateConcessionalCap,
+  concessionalByYear,
+  concessionalCapCents,
+  nonConcessionalCapCents,
+  projectedConcessionalRoomCents,
+  summarizeContributions,
+  summarizeSuperOwner,
+  superFinancialYear,
+  totalBalanceAsAt,
+  trailingVoluntaryContributionsCents,
+  type SuperAccountRecord,
+  type SuperBalancePoint,
+  type SuperContributionRecord,
+  type SuperContributionType,
+} from "../super-calculations";
+
+let nextId = 0;
+function contribution(
+  date: string,
+  amountCents: number,
+  type: SuperContributionType = "employer",
+  accountId = "fund-a"
+): SuperContributionRecord {
+  return {
+    id: `c${++nextId}`,
+    super_account_id: accountId,
+    contribution_date: date,
+    amount_cents: amountCents,
+    contribution_type: type,
+  };
+}
+
+const unknownBalance = () => null;
+
+describe("superFinancialYear", () => {
+  it("names the year by the June it ends in", () => {
+    expect(superFinancialYear("2025-06-30")).toBe(2025);
+    expect(superFinancialYear("2025-07-01")).toBe(2026);
+  });
+});
+
+describe("caps", () => {
+  it("follows the indexed concessional and non-concessional caps", () => {
+    expect(concessionalCapCents(2021)).toBe(25_000_00);
+    expect(concessionalCapCents(2024)).toBe(27_500_00);
+    expect(concessionalCapCents(2026)).toBe(30_000_00);
+    expect(nonConcessionalCapCents(2026)).toBe(120_000_00);
+  });
+});
+
+describe("summarizeContributions", () => {
+  it("splits concessional from after-tax contributions for the year", () => {
+    const summary = summarizeContributions(
+      [
+        contribution("2025-08-01", 3_000_00, "employer"),
+        contribution("2025-09-01", 1_000_00, "salary_sacrifice"),
+        contribution("2026-03-01", 5_000_00, "personal_deductible"),
+        contribution("2026-04-01", 20_000_00, "personal"),
+        contribution("2025-06-01", 9_999_00, "employer"), // previous year
+      ],
+      2026
+    );
+    expect(summary.concessionalCents).toBe(9_000_00);
+    expect(summary.nonConcessionalCents).toBe(20_000_00);
+    expect(summary.byType.salary_sacrifice).toBe(1_000_00);
+  });
+});
+
+describe("calculateConcessionalCap", () => {
+  it("carries forward unused cap from years with recorded contributions", () => {
+    const byYear = concessionalByYear([
+      contribution("2021-10-01", 15_000_00), // FY2022: 12.5k unused
+      contribution("2022-10-01", 15_000_00), // FY2023: 12.5k unused
+      contribution("2023-10-01", 15_000_00), // FY2024: 12.5k unused
+      contribution("2024-10-01", 15_000_00), // FY2025: 15k unused
+      contribution("2025-10-01", 5_000_00), // FY2026
+    ]);
+    const status = calculateConcessionalCap(2026, byYear, unknownBalance);
+
+    expect(status.capCents).toBe(30_000_00);
+    expect(status.usedCents).toBe(5_000_00);
+    expect(status.carryForwardCents).toBe(52_500_00);
+    expect(status.carryForwardEligible).toBe(true);
+    expect(status.availableCents).toBe(82_500_00);
+    expect(status.remainingCents).toBe(77_500_00);
+  });
+
+  it("drops unused amounts older than five years", () => {
+    const byYear = concessionalByYear([
+      contribution("2019-05-01", 10_000_00), // FY2019
+      contribution("2020-05-01", 10_000_00), // FY2020
+      contribution("2021-05-01", 25_000_00), // FY2021: fully used
+    ]);
+    const status = calculateConcessionalCap(2026, byYear, unknownBalance);
+
+    expect(status.unusedByYear.map((u) => u.financialYear)).toEqual([2022, 2023, 2024, 2025]);
+    expect(status.unusedByYear.every((u) => u.financialYear >= 2021)).toBe(true);
+  });
+
+  it("uses the oldest unused cap first when a year goes over", () => {
+    const byYear = concessionalByYear([
+      contribution("2023-10-01", 10_000_00), // FY2024: 17.5k unused
+      contribution("2024-10-01", 40_000_00), // FY2025: 10k over
+    ]);
+    const status = calculateConcessionalCap(2026, byYear, unknownBalance);
+
+    expect(status.unusedByYear).toEqual([{ financialYear: 2024, unusedCents: 7_500_00 }]);
+  });
+
+  it("blocks carry-forward when the balance was $500k or more on 30 June", () => {
+    const history: SuperBalancePoint[] = [
+      { super_account_id: "fund-a", recorded_on: "2025-06-30", balance_cents: 600_000_00 },
+    ];
+    const byYear = concessionalByYear([contribution("2024-10-01", 10_000_00)]);
+    const status = calculateConcessionalCap(2026, byYear, (date) => totalBalanceAsAt(history, date));
+
+    expect(status.carryForwardCents).toBe(20_000_00);
+    expect(status.carryForwardEligible).toBe(false);
+    expect(status.availableCents).toBe(30_000_00);
+  });
+
+  it("reports contributions above the available cap as excess", () => {
+    const byYear = concessionalByYear([contribution("2025-10-01", 32_000_00)]);
+    const status = calculateConcessionalCap(2026, byYear, unknownBalance);
+
+    expect(status.carryForwardCents).toBe(0);
+    expect(status.excessCents).toBe(2_000_00);
+    expect(status.remainingCents).toBe(0);
+  });
+});
+
+describe("totalBalanceAsAt", () => {
+  it("adds each fund's latest balance on or before the date", () => {
+    const history: SuperBalancePoint[] = [
+      { super_account_id: "a", recorded_on: "2025-01-01", balance_cents: 100_00 },
+      { super_account_id: "a", recorded_on: "2025-06-01", balance_cents: 200_00 },
+      { super_account_id: "a", recorded_on: "2025-08-01", balance_cents: 999_00 },
+      { super_account_id: "b", recorded_on: "2025-03-01", balance_cents: 50_00 },
+    ];
+    expect(totalBalanceAsAt(history, "2025-06-30")).toBe(250_00);
+    expect(totalBalanceAsAt(history, "2024-12-31")).toBeNull();
+  });
+});
+
+describe("projectedConcessionalRoomCents", () => {
+  const status = calculateConcessionalCap(
+    2026,
+    concessionalByYear([contribution("2025-08-15", 2_000_00, "salary_sacrifice")]),
+    unknownBalance
+  );
+
+  it("expects a full year of SG until employer contributions are entered", () => {
+    expect(projectedConcessionalRoomCents(status, 0, 12_000_00, new Date("2026-01-01"))).toBe(16_000_00);
+  });
+
+  it("expects only the rest of the year's SG once they are", () => {
+    const withEmployer = calculateConcessionalCap(
+      2026,
+      concessionalByYear([
+        contribution("2025-08-15", 2_000_00, "salary_sacrifice"),
+        contribution("2025-12-15", 6_000_00, "employer"),
+      ]),
+      unknownBalance
+    );
+    const room = projectedConcessionalRoomCents(withEmployer, 6_000_00, 12_000_00, new Date("2026-01-01"));
+    // About half a year of SG still to come
+    expect(room).toBeGreaterThan(15_900_00);
+    expect(room).toBeLessThan(16_100_00);
+  });
+});
+
+describe("trailingVoluntaryContributionsCents", () => {
+  it("counts non-employer contributions from the last twelve months", () => {
+    const total = trailingVoluntaryContributionsCents(
+      [
+        contribution("2026-02-01", 500_00, "salary_sacrifice"),
+        contribution("2025-11-01", 1_000_00, "personal"),
+        contribution("2026-01-01", 2_000_00, "employer"),
+        contribution("2025-01-01", 4_000_00, "personal_deductible"),
+      ],
+      new Date("2026-03-01T00:00:00Z")
+    );
+    expect(total).toBe(1_500_00);
+  });
+});
+
+describe("summarizeSuperOwner", () => {
+  it("only counts the owner's own funds", () => {
+    const accounts: SuperAccountRecord[] = [
+      { id: "mine", user_id: "u1", fund_name: "Fund A", balance_cents: 80_000_00, balance_date: "2026-01-01" },
+      { id: "theirs", user_id: "u2", fund_name: "Fund B", balance_cents: 120_000_00, balance_date: "2026-01-01" },
+    ];
+    const contributions = [
+      contribution("2025-09-01", 3_000_00, "employer", "mine"),
+      contribution("2025-09-01", 9_000_00, "employer", "theirs"),
+    ];
+    const summary = summarizeSuperOwner("u1", 2026, new Date("2026-01-15"), accounts, [], contributions);
+
+    expect(summary.balanceCents).toBe(80_000_00);
+    expect(summary.capStatus.usedCents).toBe(3_000_00);
+    expect(summary.recentContributions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDeductionReport,
+  buildDeductionsCsv,
+  buildDeductionsPdf,
+  deductibleCents,
+  financialYearBounds,
+  financialYearOf,
+  formatFinancialYear,
+  isTaxCategory,
+  loadDeductionItems,
+  toDeductionItem,
+  type DeductionItem,
+  type DeductionTransactionRow,
+} from '../tax-deductions';
+
+function item(overrides: Partial<DeductionItem>): DeductionItem {
+  return {
+    id: 'tx',
+    date: '2025-08-01',
+    description: 'OFFICEWORKS',
+    account_name: 'Spending',
+    amount_cents: -10000,
+    category: 'work_related',
+    percent: 100,
+    deductible_cents: 10000,
+    receipts: ['receipt.pdf'],
+    ...overrides,
+  };
+}
+
+describe('financial years', () => {
+  it('names the year by when it ends', () => {
+    expect(financialYearOf(new Date(2025, 5, 30))).toBe(2025);
+    expect(financialYearOf(new Date(2025, 6, 1))).toBe(2026);
+  });
+
+  it('formats and bounds a year', () => {
+    expect(formatFinancialYear(2026)).toBe('FY2025–26');
+    expect(formatFinancialYear(2100)).toBe('FY2099–00');
+    expect(financialYearBounds(2026)).toEqual({ start: '2025-07-01', end: '2026-06-30' });
+  });
+});
+
+describe('deductibleCents', () => {
+  it('claims the given share of spending as a positive amount', () => {
+    expect(deductibleCents(-12345, 100)).toBe(12345);
+    expect(deductibleCents(-10001, 50)).toBe(5001);
+  });
+
+  it('turns refunds into negative deductions', () => {
+    expect(deductibleCents(2000, 100)).toBe(-2000);
+  });
+});
+
+describe('toDeductionItem', () => {
+  const names = new Map([['acc-1', 'Spending']]);
+  const row = {
+    id: 'tx-1',
+    account_id: 'acc-1',
+    description: 'ATO TAX AGENT',
+    amount_cents: -22000,
+    created_at: '2025-09-01T02:00:00Z',
+    tax_category: 'tax_affairs',
+    tax_deductible_percent: 50,
+    transaction_attachments: [{ file_name: 'invoice.pdf', kind: 'receipt' }],
+  };
+
+  it('maps a marked transaction with its receipts', () => {
+    expect(toDeductionItem(row, names)).toMatchObject({
+      id: 'tx-1',
+      account_name: 'Spending',
+      category: 'tax_affairs',
+      percent: 50,
+      deductible_cents: 11000,
+      receipts: ['invoice.pdf'],
+    });
+  });
+
+  it('skips rows without a known category', () => {
+    expect(toDeductionItem({ ...row, tax_category: null }, names)).toBeNull();
+    expect(toDeductionItem({ ...row, tax_category: 'holiday' }, names)).toBeNull();
+    expect(isTaxCategory('holiday')).toBe(false);
+  });
+});
+
+/** Supabase stub serving `rows` a range at a time, or failing on page `failAt` */
+function pagedSupabase(rows: DeductionTransactionRow[], failAt?: number) {
+  const ranges: [number, number][] = [];
+  const query = {
+    select: () => query,
+    in: () => query,
+    not: () => query,
+    gte: () => query,
+    lt: () => query,
+    order: () => query,
+    range: async (from: number, to: number) => {
+      ranges.push([from, to]);
+      if (failAt === ranges.length) return { data: null, error: { message: 'timeout' } };
+      return { data: rows.slice(from, to + 1), error: null };
+    },
+  };
+  return { client: { from: () => query }, ranges };
+}
+
+describe('loadDeductionItems', () => {
+  const accounts = [{ id: 'acc-1', display_name: 'Spending' }];
+  const rows = Array.from({ length: 1500 }, (_, i) => ({
+    id: `tx-${i}`,
+    account_id: 'acc-1',
+    description: 'OFFICEWORKS',
+    amount_cents: -1000,
+    created_at: '2025-09-01T02:00:00Z',
+    tax_category: 'work_related',
+    tax_deductible_percent: 100,
+  }));
+
+  it('loads every page of a long year', async () => {
+    const { client, ranges } = pagedSupabase(rows);
+    const items = await loadDeductionItems(client as never, accounts, 2026);
+    expect(items).toHaveLength(1500);
+    expect(ranges).toEqual([[0, 999], [1000, 1999]]);
+  });
+
+  it('throws rather than returning a partial year', async () => {
+    const { client } = pagedSupabase(rows, 2);
+    await expect(loadDeductionItems(client as never, accounts, 2026)).rejects.toThrow(
+      'Failed to load deductible transactions: timeout'
+    );
+  });
+});
+
+describe('buildDeductionReport', () => {
+  const items = [
+    item({ id: 'a', category: 'donations', date: '2025-12-24', deductible_cents: 5000 }),
+    item({ id: 'b', date: '2026-03-01', deductible_cents: 3000, receipts: [] }),
+    item({ id: 'c', date: '2025-07-01', deductible_cents: 2000 }),
+    item({ id: 'd', date: '2025-06-30', deductible_cents: 99999 }),
+    item({ id: 'e', amount_cents: 1000, deductible_cents: -1000, receipts: [], date: '2026-03-05' }),
+  ];
+
+  it('groups in ATO label order, sorted by date, excluding other years', () => {
+    const report = buildDeductionReport(2026, items);
+    expect(report.groups.map((g) => g.category)).toEqual(['work_related', 'donations']);
+    expect(report.groups[0].items.map((i) => i.id)).toEqual(['c', 'b', 'e']);
+    expect(report.groups[0].total_cents).toBe(4000);
+    expect(report.total_cents).toBe(9000);
+    expect(report.count).toBe(4);
+  });
+
+  it('counts purchases without receipts but not refunds', () => {
+    expect(buildDeductionReport(2026, items).missing_receipts).toBe(1);
+  });
+});
+
+describe('buildDeductionsCsv', () => {
+  it('writes one row per item with receipts and guards formulas', () => {
+    const report = buildDeductionReport(2026, [
+      item({ description: '=HYPERLINK("x")', receipts: ['a.jpg', 'b.pdf'], percent: 60, deductible_cents: 6000 }),
+    ]);
+    const [header, row] = buildDeductionsCsv(report).trim().split('\n');
+    expect(header).toBe('ATO Label,Category,Date,Description,Account,Amount,Deductible %,Deductible Amount,Receipts');
+    expect(row).toBe('"D1–D5","Work-related expenses",2025-08-01,"\'=HYPERLINK(""x"")","Spending",-100.00,60,60.00,"a.jpg; b.pdf"');
+  });
+});
+
+describe('buildDeductionsPdf', () => {
+  it('lists groups, receipts and missing receipts', () => {
+    const report = buildDeductionReport(2026, [
+      item({ receipts: ['receipt.pdf'] }),
+      item({ id: 'b', category: 'donations', receipts: [] }),
+    ]);
+    const pdf = String.fromCharCode(...buildDeductionsPdf(report, { preparedFor: 'Alex', generatedAt: new Date(2026, 6, 5) }));
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('(Receipts: receipt.pdf)');
+    expect(pdf).toContain('(No receipt attached)');
+    expect(pdf).toContain('(Gifts and donations)');
+  });
+});
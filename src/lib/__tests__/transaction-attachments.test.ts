@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  attachmentPathFor,
+  buildAttachmentPath,
+  contentDisposition,
+  detectAttachmentType,
+  formatFileSize,
+  isAttachmentKind,
+  sanitizeFileName,
+} from "../transaction-attachments";
+import { LocalAttachmentStore, type AttachmentStore } from "../attachment-storage";
+
+const bytes = (...parts: (string | number[])[]) =>
+  new Uint8Array(parts.flatMap((p) => (typeof p === "string" ? [...p].map((c) => c.charCodeAt(0)) : p)));
+
+describe("detectAttachmentType", () => {
+  it("recognises JPEG, PNG, WebP and PDF signatures", () => {
+    expect(detectAttachmentType(bytes([0xff, 0xd8, 0xff, 0xe0, 0, 0]))).toBe("image/jpeg");
+    expect(detectAttachmentType(bytes([0x89], "PNG", [0x0d, 0x0a, 0x1a, 0x0a, 0]))).toBe("image/png");
+    expect(detectAttachmentType(bytes("RIFF", [0, 0, 0, 0], "WEBPVP8 "))).toBe("image/webp");
+    expect(detectAttachmentType(bytes("%PDF-1.7\n"))).toBe("application/pdf");
+  });
+
+  it("recognises HEIC photos by their ftyp brand", () => {
+    expect(detectAttachmentType(bytes([0, 0, 0, 0x18], "ftypheic", [0, 0, 0, 0]))).toBe("image/heic");
+    expect(detectAttachmentType(bytes([0, 0, 0, 0x18], "ftypmif1", [0, 0, 0, 0]))).toBe("image/heic");
+  });
+
+  it("rejects other ftyp files such as MP4 video", () => {
+    expect(detectAttachmentType(bytes([0, 0, 0, 0x18], "ftypisom", [0, 0, 0, 0]))).toBeNull();
+  });
+
+  it("ignores the file name and rejects HTML or scripts", () => {
+    expect(detectAttachmentType(bytes("<html><script>alert(1)</script>"))).toBeNull();
+    expect(detectAttachmentType(bytes("<svg xmlns="))).toBeNull();
+  });
+
+  it("handles files shorter than any signature", () => {
+    expect(detectAttachmentType(new Uint8Array())).toBeNull();
+    expect(detectAttachmentType(bytes([0xff, 0xd8]))).toBeNull();
+  });
+});
+
+describe("isAttachmentKind", () => {
+  it("accepts only known kinds", () => {
+    expect(isAttachmentKind("receipt")).toBe(true);
+    expect(isAttachmentKind("warranty")).toBe(true);
+    expect(isAttachmentKind("invoice")).toBe(false);
+    expect(isAttachmentKind(null)).toBe(false);
+  });
+});
+
+describe("sanitizeFileName", () => {
+  it("strips directories, quotes and control characters", () => {
+    expect(sanitizeFileName("C:\\Users\\me\\rec\"eipt\r\n.jpg", "image/jpeg")).toBe("receipt.jpg");
+    expect(sanitizeFileName("../../etc/passwd.pdf", "application/pdf")).toBe("passwd.pdf");
+  });
+
+  it("keeps unicode names and caps the length", () => {
+    expect(sanitizeFileName("Café receipt.png", "image/png")).toBe("Café receipt.png");
+    expect(sanitizeFileName("a".repeat(300), "image/png")).toHaveLength(255);
+  });
+
+  it("falls back to a generic name with the detected extension", () => {
+    expect(sanitizeFileName("", "application/pdf")).toBe("attachment.pdf");
+    expect(sanitizeFileName("  \u0000 ", "image/heic")).toBe("attachment.heic");
+  });
+});
+
+describe("buildAttachmentPath", () => {
+  it("nests by uploader and transaction with an extension from the detected type", () => {
+    expect(buildAttachmentPath("user-1", "tx-1", "att-1", "image/jpeg")).toBe("user-1/tx-1/att-1.jpg");
+  });
+});
+
+describe("attachmentPathFor", () => {
+  it("rebuilds the key from the row's ids, whatever storage_path says", () => {
+    const row = {
+      id: "att-1",
+      transaction_id: "tx-1",
+      uploaded_by: "user-1",
+      content_type: "application/pdf" as const,
+      storage_path: "user-1/../user-2/tx-9/att-9.pdf",
+    };
+    expect(attachmentPathFor(row)).toBe("user-1/tx-1/att-1.pdf");
+  });
+});
+
+describe("contentDisposition", () => {
+  it("sets inline or attachment with an ASCII fallback and UTF-8 name", () => {
+    expect(contentDisposition("receipt.pdf", false)).toBe(
+      `inline; filename="receipt.pdf"; filename*=UTF-8''receipt.pdf`
+    );
+    expect(contentDisposition("Café.jpg", true)).toBe(
+      `attachment; filename="Caf_.jpg"; filename*=UTF-8''Caf%C3%A9.jpg`
+    );
+  });
+});
+
+describe("formatFileSize", () => {
+  it("uses B, KB and MB", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(20 * 1024)).toBe("20 KB");
+    expect(formatFileSize(2.5 * 1024 * 1024)).toBe("2.5 MB");
+  });
+});
+
+describe("LocalAttachmentStore", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it("writes, reads and removes files under its root", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "attachments-"));
+    const store: AttachmentStore = new LocalAttachmentStore(dir);
+    const data = bytes("%PDF-1.4");
+
+    await store.put("user-1/tx-1/att-1.pdf", data, "application/pdf");
+    expect(await store.get("user-1/tx-1/att-1.pdf")).toEqual(data);
+
+    await store.remove(["user-1/tx-1/att-1.pdf", "user-1/tx-1/missing.pdf"]);
+    await expect(store.get("user-1/tx-1/att-1.pdf")).rejects.toThrow();
+  });
+
+  it("refuses to overwrite an existing file", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "attachments-"));
+    const store: AttachmentStore = new LocalAttachmentStore(dir);
+
+    await store.put("u/t/a.png", bytes("one"), "image/png");
+    await expect(store.put("u/t/a.png", bytes("two"), "image/png")).rejects.toThrow();
+  });
+
+  it("rejects paths that escape the root", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "attachments-"));
+    const store: AttachmentStore = new LocalAttachmentStore(dir);
+
+    await expect(store.get("../outside.pdf")).rejects.toThrow("Invalid attachment path");
+    await expect(store.put("/etc/passwd", bytes("x"), "application/pdf")).rejects.toThrow("Invalid attachment path");
+  });
+});
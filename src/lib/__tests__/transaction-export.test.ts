@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toExportTransaction,
+  buildExportJson,
+  buildOfx,
+  buildExportWorkbook,
+  localDate,
+  type ExportAccount,
+  type ExportContext,
+  type ExportTransaction,
+  type ExportTransactionRow,
+} from '../transaction-export';
+import { parseOfx } from '../transaction-import';
+
+const CATEGORIES: Record<string, { parent: string; child: string }> = {
+  groceries: { parent: 'Food & Dining', child: 'Groceries' },
+  pharmacy: { parent: 'Health', child: 'Pharmacy' },
+  restaurants: { parent: 'Food & Dining', child: 'Restaurants' },
+};
+
+const ctx: ExportContext = {
+  userId: 'me',
+  accountNames: new Map([['acc-1', 'Spending'], ['acc-2', 'Bills']]),
+  shareOverrides: new Map([['t1', { is_shared: true, share_percentage: 60 }]]),
+  getCategory: (categoryId) =>
+    (categoryId && CATEGORIES[categoryId]) || { parent: 'Uncategorized', child: '' },
+};
+
+const accounts: ExportAccount[] = [
+  { id: 'acc-1', display_name: 'Spending', account_type: 'TRANSACTIONAL', balance_cents: 123456 },
+  { id: 'acc-2', display_name: 'Bills', account_type: 'SAVER', balance_cents: 0 },
+  { id: 'acc-3', display_name: 'Empty', account_type: 'SAVER', balance_cents: 0 },
+];
+
+const row = (overrides: Partial<ExportTransactionRow>): ExportTransactionRow => ({
+  id: 't1',
+  account_id: 'acc-1',
+  description: 'Coles Bondi',
+  amount_cents: -15000,
+  // 10:30pm UTC on the 31st is the 1st in Sydney
+  created_at: '2026-07-31T22:30:00Z',
+  settled_at: null,
+  status: 'SETTLED',
+  category_id: 'groceries',
+  parent_category_id: 'good-life',
+  is_income: false,
+  is_internal_transfer: false,
+  ...overrides,
+});
+
+describe('toExportTransaction', () => {
+  it('collects tags, visible notes, overrides, shares and splits', () => {
+    const t = toExportTransaction(
+      row({
+        transaction_tags: [{ tag_name: 'work' }, { tag_name: 'bulk' }],
+        transaction_notes: [
+          { note: 'mine', is_partner_visible: false, user_id: 'me' },
+          { note: 'shared note', is_partner_visible: true, user_id: 'partner' },
+          { note: 'private', is_partner_visible: false, user_id: 'partner' },
+        ],
+        transaction_category_overrides: {
+          original_category_id: 'restaurants',
+          original_parent_category_id: null,
+          changed_at: '2026-08-01T00:00:00Z',
+          notes: null,
+        },
+        transaction_splits: [
+          { position: 1, amount_cents: -4000, category_id: 'pharmacy', parent_category_id: 'health', is_shared: false, notes: 'Panadol' },
+          { position: 0, amount_cents: -11000, category_id: 'groceries', parent_category_id: 'good-life', is_shared: null, notes: null },
+        ],
+      }),
+      ctx
+    );
+
+    expect(t.account_name).toBe('Spending');
+    expect(t.tags).toEqual(['bulk', 'work']);
+    expect(t.notes).toEqual(['mine', 'shared note']);
+    expect(t.category_override?.original_category).toEqual(CATEGORIES.restaurants);
+    expect(t.share).toEqual({ is_shared: true, share_percentage: 60 });
+    expect(t.splits.map((s) => [s.category.child, s.amount_cents, s.is_shared])).toEqual([
+      ['Groceries', -11000, null],
+      ['Pharmacy', -4000, false],
+    ]);
+  });
+
+  it('handles rows without embeds', () => {
+    const t = toExportTransaction(row({ id: 't2', is_income: true, amount_cents: 5000 }), ctx);
+    expect(t).toMatchObject({ type: 'Income', tags: [], notes: [], category_override: null, share: null, splits: [] });
+  });
+});
+
+describe('localDate', () => {
+  it('uses the Sydney calendar date', () => {
+    expect(localDate('2026-07-31T22:30:00Z')).toBe('2026-08-01');
+  });
+});
+
+const exported: ExportTransaction[] = [
+  toExportTransaction(
+    row({
+      transaction_tags: [{ tag_name: 'bulk' }],
+      transaction_splits: [
+        { position: 0, amount_cents: -11000, category_id: 'groceries', parent_category_id: null, is_shared: null, notes: null },
+        { position: 1, amount_cents: -4000, category_id: 'pharmacy', parent_category_id: null, is_shared: false, notes: null },
+      ],
+    }),
+    ctx
+  ),
+  toExportTransaction(
+    row({ id: 't2', account_id: 'acc-2', description: 'Salary & Bonus <ACME>', amount_cents: 500000, is_income: true, category_id: null }),
+    ctx
+  ),
+  toExportTransaction(row({ id: 't3', description: 'Woolworths', amount_cents: -2500 }), ctx),
+];
+
+describe('buildExportJson', () => {
+  it('wraps transactions with period and account metadata', () => {
+    const json = JSON.parse(
+      buildExportJson(exported, accounts, {
+        generatedAt: new Date('2026-08-02T00:00:00Z'),
+        dateFrom: '2026-07-01',
+        truncated: false,
+      })
+    );
+    expect(json.period).toEqual({ from: '2026-07-01', to: null });
+    expect(json.accounts).toHaveLength(3);
+    expect(json.transactions[0].splits).toHaveLength(2);
+    expect(json.transactions[0].share.share_percentage).toBe(60);
+  });
+});
+
+describe('buildOfx', () => {
+  const ofx = buildOfx(exported, accounts, new Date('2026-08-02T00:00:00Z'));
+
+  it('writes one statement per account with transactions', () => {
+    expect(ofx.match(/<STMTRS>/g)).toHaveLength(2);
+    expect(ofx).toContain('<ACCTTYPE>SAVINGS');
+    expect(ofx).not.toContain('<ACCTID>acc-3');
+  });
+
+  it('round-trips through the OFX importer', () => {
+    const spending = ofx.split('<STMTTRNRS>')[1];
+    const parsed = parseOfx(spending);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.balanceCents).toBe(123456);
+    expect(parsed.currencyCode).toBe('AUD');
+    expect(parsed.transactions.map((t) => [t.externalId, t.date, t.amountCents])).toEqual([
+      ['t1', '2026-08-01', -15000],
+      ['t3', '2026-08-01', -2500],
+    ]);
+    expect(parsed.transactions[0].memo).toBe('Split: Food & Dining › Groceries 110.00; Health › Pharmacy 40.00 | Tags: bulk');
+  });
+
+  it('escapes markup in descriptions', () => {
+    expect(ofx).toContain('<NAME>Salary &amp; Bonus &lt;ACME&gt;');
+  });
+});
+
+describe('buildExportWorkbook', () => {
+  const sheets = buildExportWorkbook(exported, accounts);
+
+  it('puts the category summary first, then accounts with transactions', () => {
+    expect(sheets.map((s) => s.name)).toEqual(['Summary', 'Spending', 'Bills']);
+  });
+
+  it('totals split lines by category', () => {
+    const summary = sheets[0].rows;
+    expect(summary[0]).toEqual(['Category', 'Subcategory', 'Spending', 'Income', 'Transactions']);
+    expect(summary).toContainEqual(['Food & Dining', 'Groceries', 135, 0, 2]);
+    expect(summary).toContainEqual(['Health', 'Pharmacy', 40, 0, 1]);
+    expect(summary).toContainEqual(['Uncategorized', '', 0, 5000, 1]);
+    expect(summary[summary.length - 1]).toEqual(['Total', '', 175, 5000, 3]);
+  });
+
+  it('expands split transactions into one row per line', () => {
+    const rows = sheets[1].rows.slice(1);
+    expect(rows.map((r) => [r[2], r[4], r[9], r[10], r[11]])).toEqual([
+      [-110, 'Groceries', 'Yes', 60, '1/2'],
+      [-40, 'Pharmacy', 'No', 60, '2/2'],
+      [-25, 'Groceries', '', null, ''],
+    ]);
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectImportFormat,
+  parseAmountToCents,
+  parseImportDate,
+  parseCsvRows,
+  getCsvHeaders,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  buildImportTransactionIds,
+  partitionNewTransactions,
+} from '../transaction-import';
+
+describe('detectImportFormat', () => {
+  it('uses the file extension first', () => {
+    expect(detectImportFormat('statement.OFX', '')).toBe('ofx');
+    expect(detectImportFormat('statement.qfx', '')).toBe('ofx');
+    expect(detectImportFormat('statement.qif', '')).toBe('qif');
+    expect(detectImportFormat('statement.csv', '<OFX>')).toBe('csv');
+  });
+
+  it('sniffs content when the extension is unknown', () => {
+    expect(detectImportFormat('export.txt', 'OFXHEADER:100\nDATA:OFXSGML')).toBe('ofx');
+    expect(detectImportFormat('export.txt', '!Type:Bank\nD01/02/2026')).toBe('qif');
+    expect(detectImportFormat('export.txt', 'Date,Amount,Description')).toBe('csv');
+  });
+});
+
+describe('parseAmountToCents', () => {
+  it.each([
+    ['12.34', 1234],
+    ['-12.34', -1234],
+    ['$1,234.50', 123450],
+    ['(45.00)', -4500],
+    ['45.00-', -4500],
+    ['+7', 700],
+    ['100.00 DR', -10000],
+    ['100.00 CR', 10000],
+    ['.5', 50],
+  ])('parses %s', (raw, expected) => {
+    expect(parseAmountToCents(raw)).toBe(expected);
+  });
+
+  it('returns null for non-numeric values', () => {
+    expect(parseAmountToCents('')).toBeNull();
+    expect(parseAmountToCents('abc')).toBeNull();
+    expect(parseAmountToCents('1.2.3')).toBeNull();
+  });
+});
+
+describe('parseImportDate', () => {
+  it('handles each field order', () => {
+    expect(parseImportDate('03/02/2026', 'DD/MM/YYYY')).toBe('2026-02-03');
+    expect(parseImportDate('03/02/2026', 'MM/DD/YYYY')).toBe('2026-03-02');
+    expect(parseImportDate('2026-02-03', 'YYYY-MM-DD')).toBe('2026-02-03');
+  });
+
+  it('expands 2-digit years and QIF apostrophe separators', () => {
+    expect(parseImportDate("3/02'26", 'DD/MM/YYYY')).toBe('2026-02-03');
+    expect(parseImportDate('3.2.26', 'DD/MM/YYYY')).toBe('2026-02-03');
+  });
+
+  it('ignores a trailing time component', () => {
+    expect(parseImportDate('2026-02-03T10:00:00', 'YYYY-MM-DD')).toBe('2026-02-03');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseImportDate('31/02/2026', 'DD/MM/YYYY')).toBeNull();
+    expect(parseImportDate('not a date', 'DD/MM/YYYY')).toBeNull();
+  });
+});
+
+describe('parseCsvRows', () => {
+  it('handles quoted commas, escaped quotes, CRLF and blank lines', () => {
+    const csv = '﻿Date,Description\r\n01/02/2026,"Smith, ""Jo"""\r\n\r\n02/02/2026,Cafe\n';
+    expect(parseCsvRows(csv)).toEqual([
+      ['Date', 'Description'],
+      ['01/02/2026', 'Smith, "Jo"'],
+      ['02/02/2026', 'Cafe'],
+    ]);
+  });
+
+  it('returns trimmed headers', () => {
+    expect(getCsvHeaders(' Date , Amount \n1,2')).toEqual(['Date', 'Amount']);
+  });
+});
+
+describe('parseCsv', () => {
+  it('parses a signed amount column', () => {
+    const csv = 'Date,Amount,Description,Notes\n03/02/2026,-12.50,WOOLWORTHS  1234,groceries\n04/02/2026,2000.00,SALARY,';
+    const result = parseCsv(csv, {
+      date: 'Date',
+      amount: 'Amount',
+      description: 'Description',
+      memo: 'Notes',
+      dateFormat: 'DD/MM/YYYY',
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions).toEqual([
+      { date: '2026-02-03', amountCents: -1250, description: 'WOOLWORTHS 1234', memo: 'groceries' },
+      { date: '2026-02-04', amountCents: 200000, description: 'SALARY', memo: null },
+    ]);
+  });
+
+  it('parses separate debit and credit columns', () => {
+    const csv = 'Date,Details,Debit,Credit\n2026-02-03,Coffee,4.50,\n2026-02-04,Refund,,10.00';
+    const result = parseCsv(csv, {
+      date: 'Date',
+      description: 'Details',
+      debit: 'Debit',
+      credit: 'Credit',
+      dateFormat: 'YYYY-MM-DD',
+    });
+
+    expect(result.transactions.map((t) => t.amountCents)).toEqual([-450, 1000]);
+  });
+
+  it('inverts amounts for banks that export purchases as positive', () => {
+    const csv = 'Date,Amount,Description\n03/02/2026,12.50,Fuel';
+    const result = parseCsv(csv, {
+      date: 'Date',
+      amount: 'Amount',
+      description: 'Description',
+      dateFormat: 'DD/MM/YYYY',
+      invertAmounts: true,
+    });
+
+    expect(result.transactions[0].amountCents).toBe(-1250);
+  });
+
+  it('skips bad rows and reports them', () => {
+    const csv = 'Date,Amount,Description\nbad,1.00,A\n03/02/2026,x,B\n03/02/2026,1.00,\n03/02/2026,1.00,C';
+    const result = parseCsv(csv, {
+      date: 'Date',
+      amount: 'Amount',
+      description: 'Description',
+      dateFormat: 'DD/MM/YYYY',
+    });
+
+    expect(result.transactions).toHaveLength(1);
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors[0]).toContain('Row 2');
+  });
+
+  it('fails fast when mapped columns are missing', () => {
+    const result = parseCsv('Date,Amount\n03/02/2026,1', {
+      date: 'Date',
+      amount: 'Amount',
+      description: 'Description',
+      dateFormat: 'DD/MM/YYYY',
+    });
+
+    expect(result.transactions).toEqual([]);
+    expect(result.errors[0]).toContain('Description');
+  });
+});
+
+describe('parseOfx', () => {
+  it('parses SGML statements without closing tags', () => {
+    const ofx = [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+      '<CURDEF>aud',
+      '<BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260203120000[+10:AEST]<TRNAMT>-12.50<FITID>ABC1<NAME>WOOLWORTHS<MEMO>Card 1234',
+      '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260204<TRNAMT>100<FITID>ABC2<MEMO>Transfer in',
+      '</BANKTRANLIST>',
+      '<LEDGERBAL><BALAMT>1234.56<DTASOF>20260204',
+      '</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+    ].join('\n');
+
+    const result = parseOfx(ofx);
+    expect(result.errors).toEqual([]);
+    expect(result.currencyCode).toBe('AUD');
+    expect(result.balanceCents).toBe(123456);
+    expect(result.transactions).toEqual([
+      { date: '2026-02-03', amountCents: -1250, description: 'WOOLWORTHS', externalId: 'ABC1', memo: 'Card 1234' },
+      { date: '2026-02-04', amountCents: 10000, description: 'Transfer in', externalId: 'ABC2', memo: null },
+    ]);
+  });
+
+  it('parses XML statements and decodes entities', () => {
+    const ofx = `<?xml version="1.0"?><OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+      <BANKTRANLIST>
+        <STMTTRN><DTPOSTED>20260110</DTPOSTED><TRNAMT>-5.00</TRNAMT><FITID>X9</FITID><NAME>Ben &amp; Jerry&apos;s</NAME></STMTTRN>
+      </BANKTRANLIST>
+    </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+    const result = parseOfx(ofx);
+    expect(result.transactions).toEqual([
+      { date: '2026-01-10', amountCents: -500, description: "Ben & Jerry's", externalId: 'X9', memo: null },
+    ]);
+    expect(result.balanceCents).toBeNull();
+  });
+});
+
+describe('parseQif', () => {
+  it('parses records using the supplied date order', () => {
+    const qif = '!Type:CCard\nD03/02\'26\nT-12.50\nPWoolworths\nMgroceries\n^\nD04/02/2026\nU100.00\nPRefund\n^\n';
+    const result = parseQif(qif, 'DD/MM/YYYY');
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions).toEqual([
+      { date: '2026-02-03', amountCents: -1250, description: 'Woolworths', memo: 'groceries' },
+      { date: '2026-02-04', amountCents: 10000, description: 'Refund', memo: null },
+    ]);
+  });
+
+  it('reports records with bad dates', () => {
+    const result = parseQif('!Type:Bank\nD31/31/2026\nT1\nPX\n^\n', 'DD/MM/YYYY');
+    expect(result.transactions).toEqual([]);
+    expect(result.errors[0]).toContain('invalid date');
+  });
+});
+
+describe('buildImportTransactionIds', () => {
+  it('prefers FITIDs and numbers repeated fingerprints', () => {
+    const coffee = { date: '2026-02-03', amountCents: -450, description: 'Cafe' };
+    const ids = buildImportTransactionIds([
+      { ...coffee, externalId: 'F1' },
+      coffee,
+      { ...coffee, description: 'CAFE' },
+    ]);
+
+    expect(ids).toEqual([
+      'import:fitid:F1',
+      'import:2026-02-03|-450|cafe#0',
+      'import:2026-02-03|-450|cafe#1',
+    ]);
+  });
+});
+
+describe('partitionNewTransactions', () => {
+  it('matches existing rows one-for-one', () => {
+    const coffee = { date: '2026-02-03', amountCents: -450, description: 'Cafe' };
+    const lunch = { date: '2026-02-03', amountCents: -1500, description: 'Lunch' };
+
+    const { fresh, duplicates } = partitionNewTransactions(
+      [coffee, { ...coffee }, lunch],
+      [{ ...coffee, description: ' cafe ' }]
+    );
+
+    expect(duplicates).toHaveLength(1);
+    expect(fresh).toEqual([coffee, lunch]);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { isTransactionOwner, transactionOwnerId } from "../transaction-owner";
+
+describe("transactionOwnerId", () => {
+  it("reads the account holder from the embed", () => {
+    expect(transactionOwnerId({ accounts: { user_id: "user-a" } })).toBe("user-a");
+  });
+
+  it("accepts the embed as a one-element array", () => {
+    expect(transactionOwnerId({ accounts: [{ user_id: "user-a" }] })).toBe("user-a");
+  });
+
+  it("returns null when the embed is missing", () => {
+    expect(transactionOwnerId({ accounts: null })).toBeNull();
+  });
+});
+
+describe("isTransactionOwner", () => {
+  it("is true only for the account holder", () => {
+    const row = { accounts: { user_id: "user-a" } };
+    expect(isTransactionOwner(row, "user-a")).toBe(true);
+    expect(isTransactionOwner(row, "user-b")).toBe(false);
+  });
+
+  it("is false when the embed is missing", () => {
+    expect(isTransactionOwner({ accounts: null }, "user-a")).toBe(false);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileRuleRegex,
+  checkRuleRegexSafety,
+  hasRuleConditions,
+  hasRuleActions,
+  ruleMatches,
+  evaluateRules,
+  type TransactionRule,
+  type RuleTransaction,
+} from '../transaction-rules';
+
+const baseTxn: RuleTransaction = {
+  description: 'BUNNINGS 123 ALEXANDRIA',
+  amount_cents: -4599,
+  account_id: 'acc-1',
+  card_number_suffix: '1234',
+  card_purchase_method: 'CONTACTLESS',
+  foreign_currency_code: null,
+};
+
+function rule(overrides: Partial<TransactionRule>): TransactionRule {
+  return {
+    id: 'rule',
+    name: 'Rule',
+    priority: 0,
+    is_active: true,
+    stop_processing: false,
+    conditions: {},
+    actions: {},
+    ...overrides,
+  };
+}
+
+describe('compileRuleRegex', () => {
+  it('compiles case-insensitively', () => {
+    expect(compileRuleRegex('^bunnings')?.test('BUNNINGS 123')).toBe(true);
+  });
+
+  it('returns null for invalid or over-long patterns', () => {
+    expect(compileRuleRegex('(unclosed')).toBeNull();
+    expect(compileRuleRegex('a'.repeat(201))).toBeNull();
+  });
+
+  it('refuses patterns that backtrack catastrophically', () => {
+    expect(compileRuleRegex('(a+)+$')).toBeNull();
+    expect(compileRuleRegex('^(a|ab)*c')).toBeNull();
+    expect(compileRuleRegex('(\\w+\\s?)*$')).toBeNull();
+    expect(compileRuleRegex('(x+x+){2,}y')).toBeNull();
+    expect(compileRuleRegex('(a)\\1')).toBeNull();
+    expect(compileRuleRegex('.*.*.*.*x')).toBeNull();
+  });
+
+  it('keeps ordinary patterns', () => {
+    expect(compileRuleRegex('^(COLES|WOOLWORTHS)')).not.toBeNull();
+    expect(compileRuleRegex('UBER\\s*(EATS)?')).not.toBeNull();
+    expect(compileRuleRegex('^[a-z]+ \\d{4,6}$')).not.toBeNull();
+    expect(compileRuleRegex('(?:ab){3}')).not.toBeNull();
+  });
+});
+
+describe('checkRuleRegexSafety', () => {
+  it('explains why a pattern is refused', () => {
+    expect(checkRuleRegexSafety('(a+)+$')).toMatch(/Repeated groups/);
+    expect(checkRuleRegexSafety('(a)\\1')).toMatch(/Backreferences/);
+    expect(checkRuleRegexSafety('^bunnings')).toBeNull();
+  });
+
+  it('refuses (a+)+$ before it can run', () => {
+    // Would take minutes against this input if it were compiled
+    const start = Date.now();
+    expect(ruleMatches({ descriptionRegex: '(a+)+$' }, { ...baseTxn, description: 'a'.repeat(40) + '!' })).toBe(false);
+    expect(Date.now() - start).toBeLessThan(100);
+  });
+});
+
+describe('hasRuleConditions / hasRuleActions', () => {
+  it('treats blank values as unset', () => {
+    expect(hasRuleConditions({})).toBe(false);
+    expect(hasRuleConditions({ descriptionContains: '  ', accountIds: [] })).toBe(false);
+    expect(hasRuleConditions({ amountMinCents: 0 })).toBe(true);
+  });
+
+  it('requires at least one effective action', () => {
+    expect(hasRuleActions({})).toBe(false);
+    expect(hasRuleActions({ addTags: [], note: ' ' })).toBe(false);
+    expect(hasRuleActions({ markInternalTransfer: true })).toBe(true);
+    expect(hasRuleActions({ taxCategory: 'donations' })).toBe(true);
+  });
+});
+
+describe('ruleMatches', () => {
+  it('never matches without conditions', () => {
+    expect(ruleMatches({}, baseTxn)).toBe(false);
+  });
+
+  it('matches description substrings case-insensitively', () => {
+    expect(ruleMatches({ descriptionContains: 'bunnings' }, baseTxn)).toBe(true);
+    expect(ruleMatches({ descriptionContains: 'coles' }, baseTxn)).toBe(false);
+  });
+
+  it('matches description patterns and rejects invalid ones', () => {
+    expect(ruleMatches({ descriptionRegex: '^BUNNINGS \\d+' }, baseTxn)).toBe(true);
+    expect(ruleMatches({ descriptionRegex: '(' }, baseTxn)).toBe(false);
+  });
+
+  it('compares amount bounds against the absolute amount', () => {
+    expect(ruleMatches({ amountMinCents: 4000, amountMaxCents: 5000 }, baseTxn)).toBe(true);
+    expect(ruleMatches({ amountMinCents: 4600 }, baseTxn)).toBe(false);
+    expect(ruleMatches({ amountMaxCents: 4599 }, baseTxn)).toBe(true);
+  });
+
+  it('filters by direction', () => {
+    expect(ruleMatches({ direction: 'out' }, baseTxn)).toBe(true);
+    expect(ruleMatches({ direction: 'in' }, baseTxn)).toBe(false);
+    expect(ruleMatches({ direction: 'in' }, { ...baseTxn, amount_cents: 100 })).toBe(true);
+  });
+
+  it('filters by account, card suffix and purchase method', () => {
+    expect(ruleMatches({ accountIds: ['acc-1', 'acc-2'] }, baseTxn)).toBe(true);
+    expect(ruleMatches({ accountIds: ['acc-2'] }, baseTxn)).toBe(false);
+    expect(ruleMatches({ cardSuffix: '1234' }, baseTxn)).toBe(true);
+    expect(ruleMatches({ cardSuffix: '9999' }, baseTxn)).toBe(false);
+    expect(ruleMatches({ cardPurchaseMethods: ['CONTACTLESS', 'CARD_PIN'] }, baseTxn)).toBe(true);
+    expect(ruleMatches({ cardPurchaseMethods: ['ECOMMERCE'] }, baseTxn)).toBe(false);
+  });
+
+  it('filters by foreign currency', () => {
+    const foreign = { ...baseTxn, foreign_currency_code: 'USD' };
+    expect(ruleMatches({ foreignCurrency: 'any' }, baseTxn)).toBe(false);
+    expect(ruleMatches({ foreignCurrency: 'any' }, foreign)).toBe(true);
+    expect(ruleMatches({ foreignCurrency: 'usd' }, foreign)).toBe(true);
+    expect(ruleMatches({ foreignCurrency: 'EUR' }, foreign)).toBe(false);
+  });
+
+  it('requires every condition to match', () => {
+    expect(ruleMatches({ descriptionContains: 'bunnings', direction: 'in' }, baseTxn)).toBe(false);
+  });
+});
+
+describe('evaluateRules', () => {
+  it('returns an empty outcome when nothing matches', () => {
+    const outcome = evaluateRules([rule({ conditions: { descriptionContains: 'coles' }, actions: { categoryId: 'groceries' } })], baseTxn);
+    expect(outcome).toEqual({ matchedRuleIds: [], tags: [], markInternalTransfer: false, notes: [] });
+  });
+
+  it('lets the highest-priority rule set the category and share split', () => {
+    const outcome = evaluateRules(
+      [
+        rule({ id: 'b', priority: 2, conditions: { direction: 'out' }, actions: { categoryId: 'other', share: { isShared: true, sharePercentage: 70 } } }),
+        rule({ id: 'a', priority: 1, conditions: { descriptionContains: 'bunnings' }, actions: { categoryId: 'home-maintenance-and-improvements', parentCategoryId: 'home', share: { isShared: true, sharePercentage: 50 } } }),
+      ],
+      baseTxn
+    );
+
+    expect(outcome.matchedRuleIds).toEqual(['a', 'b']);
+    expect(outcome.categoryId).toBe('home-maintenance-and-improvements');
+    expect(outcome.parentCategoryId).toBe('home');
+    expect(outcome.share).toEqual({ isShared: true, sharePercentage: 50 });
+  });
+
+  it('accumulates normalised tags and notes across rules', () => {
+    const outcome = evaluateRules(
+      [
+        rule({ id: 'a', priority: 0, conditions: { descriptionContains: 'bunnings' }, actions: { addTags: [' Renovation '], note: 'Deck project' } }),
+        rule({ id: 'b', priority: 1, conditions: { direction: 'out' }, actions: { addTags: ['renovation', 'tax'], markInternalTransfer: true } }),
+      ],
+      baseTxn
+    );
+
+    expect(outcome.tags).toEqual(['renovation', 'tax']);
+    expect(outcome.notes).toEqual(['Deck project']);
+    expect(outcome.markInternalTransfer).toBe(true);
+  });
+
+  it('takes the tax category from the first matching rule that sets one', () => {
+    const outcome = evaluateRules(
+      [
+        rule({ id: 'a', priority: 0, conditions: { descriptionContains: 'bunnings' }, actions: { addTags: ['tools'] } }),
+        rule({ id: 'b', priority: 1, conditions: { direction: 'out' }, actions: { taxCategory: 'work_related' } }),
+        rule({ id: 'c', priority: 2, conditions: { direction: 'out' }, actions: { taxCategory: 'other' } }),
+      ],
+      baseTxn
+    );
+
+    expect(outcome.matchedRuleIds).toEqual(['a', 'b', 'c']);
+    expect(outcome.taxCategory).toBe('work_related');
+  });
+
+  it('stops after a matching rule with stop_processing', () => {
+    const outcome = evaluateRules(
+      [
+        rule({ id: 'a', priority: 0, stop_processing: true, conditions: { descriptionContains: 'bunnings' }, actions: { addTags: ['home'] } }),
+        rule({ id: 'b', priority: 1, conditions: { direction: 'out' }, actions: { addTags: ['spend'] } }),
+      ],
+      baseTxn
+    );
+
+    expect(outcome.matchedRuleIds).toEqual(['a']);
+    expect(outcome.tags).toEqual(['home']);
+  });
+
+  it('skips inactive rules', () => {
+    const outcome = evaluateRules(
+      [rule({ is_active: false, conditions: { descriptionContains: 'bunnings' }, actions: { categoryId: 'x' } })],
+      baseTxn
+    );
+    expect(outcome.matchedRuleIds).toEqual([]);
+  });
+});
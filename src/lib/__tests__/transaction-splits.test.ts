@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateSplitLines,
+  readEmbeddedSplits,
+  toBudgetSplits,
+  expandSplitLines,
+  scopeToCategories,
+} from '../transaction-splits';
+
+describe('validateSplitLines', () => {
+  it('accepts lines that add up to the transaction', () => {
+    expect(validateSplitLines(-15000, [{ amount_cents: -9000 }, { amount_cents: -6000 }])).toBeNull();
+    expect(validateSplitLines(2000, [{ amount_cents: 1500 }, { amount_cents: 500 }])).toBeNull();
+  });
+
+  it('requires at least two lines', () => {
+    expect(validateSplitLines(-1000, [{ amount_cents: -1000 }])).toMatch(/at least two/);
+  });
+
+  it('rejects zero amounts and mixed signs', () => {
+    expect(validateSplitLines(-1000, [{ amount_cents: -1000 }, { amount_cents: 0 }])).toMatch(/needs an amount/);
+    expect(validateSplitLines(-1000, [{ amount_cents: -1500 }, { amount_cents: 500 }])).toMatch(/spending/);
+  });
+
+  it('reports how far over or under the lines are', () => {
+    expect(validateSplitLines(-10000, [{ amount_cents: -6000 }, { amount_cents: -3000 }]))
+      .toBe('Lines are under the transaction amount by $10.00');
+    expect(validateSplitLines(-10000, [{ amount_cents: -6000 }, { amount_cents: -4550 }]))
+      .toBe('Lines are over the transaction amount by $5.50');
+  });
+});
+
+describe('readEmbeddedSplits / toBudgetSplits', () => {
+  it('orders rows by position and tolerates missing embeds', () => {
+    expect(readEmbeddedSplits(null)).toEqual([]);
+    expect(readEmbeddedSplits([{ position: 1 }, { position: 0 }])).toEqual([{ position: 0 }, { position: 1 }]);
+  });
+
+  it('returns null for unsplit transactions', () => {
+    expect(toBudgetSplits([])).toBeNull();
+    expect(toBudgetSplits(undefined)).toBeNull();
+  });
+
+  it('maps rows to engine input', () => {
+    expect(
+      toBudgetSplits([
+        { position: 1, amount_cents: -400, category_id: 'pharmacy', is_shared: false },
+        { position: 0, amount_cents: -600, category_id: 'groceries' },
+      ])
+    ).toEqual([
+      { amount_cents: -600, category_id: 'groceries', is_shared: null },
+      { amount_cents: -400, category_id: 'pharmacy', is_shared: false },
+    ]);
+  });
+});
+
+describe('expandSplitLines', () => {
+  const txn = { id: 't1', amount_cents: -1000, category_id: 'groceries', parent_category_id: 'good-life' };
+
+  it('produces a single line for unsplit transactions', () => {
+    const lines = expandSplitLines(txn, []);
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ amount_cents: -1000, category_id: 'groceries', split: null });
+  });
+
+  it('produces one line per split', () => {
+    const lines = expandSplitLines(txn, [
+      { amount_cents: -700, category_id: 'groceries', parent_category_id: 'good-life', is_shared: true, notes: null },
+      { amount_cents: -300, category_id: 'pharmacy', parent_category_id: 'personal', is_shared: null, notes: 'Panadol' },
+    ]);
+    expect(lines.map((l) => [l.category_id, l.amount_cents, l.split])).toEqual([
+      ['groceries', -700, { index: 0, count: 2 }],
+      ['pharmacy', -300, { index: 1, count: 2 }],
+    ]);
+    expect(lines[1].transaction).toBe(txn);
+  });
+});
+
+describe('scopeToCategories', () => {
+  it('keeps matching unsplit transactions unchanged', () => {
+    const txns = [
+      { id: 'a', amount_cents: -500, category_id: 'groceries' },
+      { id: 'b', amount_cents: -800, category_id: 'fuel' },
+    ];
+    expect(scopeToCategories(txns, ['groceries'])).toEqual([txns[0]]);
+  });
+
+  it('narrows split transactions to their matching lines', () => {
+    const txns = [
+      {
+        id: 'a',
+        amount_cents: -15000,
+        category_id: 'fuel',
+        transaction_splits: [
+          { amount_cents: -9000, category_id: 'groceries' },
+          { amount_cents: -2000, category_id: 'groceries' },
+          { amount_cents: -4000, category_id: 'pharmacy' },
+        ],
+      },
+      {
+        id: 'b',
+        amount_cents: -3000,
+        category_id: 'groceries',
+        transaction_splits: [
+          { amount_cents: -1000, category_id: 'fuel' },
+          { amount_cents: -2000, category_id: 'pharmacy' },
+        ],
+      },
+    ];
+    const scoped = scopeToCategories(txns, ['groceries']);
+    expect(scoped).toHaveLength(1);
+    expect(scoped[0]).toMatchObject({ id: 'a', amount_cents: -11000, split_total_cents: -15000 });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, columnName, sanitizeSheetNames, buildXlsx } from '../xlsx-writer';
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('writes local headers, a central directory and an end record', () => {
+    const zip = createZip([{ path: 'a.txt', data: new TextEncoder().encode('hello') }]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(zip.length - 22 + 10, true)).toBe(1);
+    expect(decode(zip)).toContain('hello');
+  });
+
+  it('is deterministic', () => {
+    const files = [{ path: 'x.xml', data: new TextEncoder().encode('<x/>') }];
+    expect(createZip(files)).toEqual(createZip(files));
+  });
+});
+
+describe('columnName', () => {
+  it('converts indexes to spreadsheet letters', () => {
+    expect(columnName(0)).toBe('A');
+    expect(columnName(25)).toBe('Z');
+    expect(columnName(26)).toBe('AA');
+    expect(columnName(701)).toBe('ZZ');
+    expect(columnName(702)).toBe('AAA');
+  });
+});
+
+describe('sanitizeSheetNames', () => {
+  it('strips invalid characters, truncates and de-duplicates', () => {
+    expect(sanitizeSheetNames(['Spending', 'Bills/Rent', 'spending', '', 'A'.repeat(40)])).toEqual([
+      'Spending',
+      'Bills Rent',
+      'spending (2)',
+      'Sheet',
+      'A'.repeat(31),
+    ]);
+  });
+});
+
+describe('buildXlsx', () => {
+  it('writes inline strings, numeric cells and escaped sheet names', () => {
+    const xml = decode(
+      buildXlsx([{ name: 'Tom & Jerry', rows: [['Name', 'Amount'], ['Coles <Bondi>', -12.5], [null, 3]] }])
+    );
+    expect(xml).toContain('[Content_Types].xml');
+    expect(xml).toContain('<sheet name="Tom &amp; Jerry" sheetId="1" r:id="rId1"/>');
+    expect(xml).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(xml).toContain('Coles &lt;Bondi&gt;');
+    expect(xml).toContain('<c r="B2"><v>-12.5</v></c>');
+    expect(xml).toContain('<row r="3"><c r="B3"><v>3</v></c></row>');
+  });
+
+  it('produces a blank sheet for an empty workbook', () => {
+    expect(decode(buildXlsx([]))).toContain('<sheet name="Sheet1"');
+  });
+});
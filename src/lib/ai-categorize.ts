@@ -7,12 +7,9 @@
  */
 
 import { generateObject } from "ai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { z } from "zod";
 import { createServiceRoleClient } from "@/utils/supabase/service-role";
-import { getPlaintextToken } from "@/lib/token-encryption";
+import { createLanguageModel, resolveAiConfig } from "@/lib/ai-provider";
 import { sanitizeForAI } from "@/lib/sanitize-ai-input";
 
 interface AiCategorizeParams {
@@ -102,11 +99,12 @@ export async function aiCategorizeTransaction({
   // Step 2: Load user's AI settings
   const { data: profile } = await supabase
     .from("profiles")
-    .select("ai_provider, ai_api_key, ai_model")
+    .select("ai_provider, ai_api_key, ai_model, ai_base_url")
     .eq("id", userId)
     .single();
 
-  if (!profile?.ai_api_key) {
+  const aiConfig = resolveAiConfig(profile);
+  if (!aiConfig) {
     return null;
   }
 
@@ -125,20 +123,7 @@ export async function aiCategorizeTransaction({
     .join("\n");
 
   // Step 4: Init AI provider
-  const provider = profile.ai_provider || "google";
-  const apiKey = getPlaintextToken(profile.ai_api_key);
-  let model;
-
-  if (provider === "google") {
-    const client = createGoogleGenerativeAI({ apiKey });
-    model = client(profile.ai_model || "gemini-2.5-flash");
-  } else if (provider === "openai") {
-    const client = createOpenAI({ apiKey });
-    model = client.chat(profile.ai_model || "gpt-4.1-mini");
-  } else {
-    const client = createAnthropic({ apiKey });
-    model = client(profile.ai_model || "claude-sonnet-4-6");
-  }
+  const model = createLanguageModel(aiConfig);
 
   // Step 5: Call AI with structured output
   const amountDollars = (Math.abs(amountCents) / 100).toFixed(2);
@@ -0,0 +1,106 @@
+/**
+ * Saved Piggy chat threads.
+ *
+ * A thread stores the whole UI message list (as useChat renders it) in
+ * `ai_chat_threads.messages`. Once a chat has a thread the client only sends
+ * the newest message; the chat route loads the history from the row, so a
+ * conversation can outgrow the per-request message cap while only the most
+ * recent turns are replayed to the model.
+ */
+
+export const THREAD_TITLE_MAX_LENGTH = 120;
+
+/** Stored messages per thread — older turns are dropped on save */
+export const MAX_STORED_THREAD_MESSAGES = 400;
+
+/** Most recent messages replayed to the model for each new turn */
+export const MAX_MODEL_HISTORY_MESSAGES = 40;
+
+export const DEFAULT_THREAD_TITLE = "New chat";
+
+/** Columns returned by thread list endpoints (everything except messages) */
+export const THREAD_SUMMARY_COLUMNS =
+  "id, user_id, title, is_pinned, is_shared, last_message_at, created_at";
+
+export interface ChatThreadSummary {
+  id: string;
+  user_id: string;
+  title: string;
+  is_pinned: boolean;
+  is_shared: boolean;
+  last_message_at: string;
+  created_at: string;
+}
+
+/** Minimal shape of a stored UI message; parts are kept as-is */
+export interface StoredChatMessage {
+  id: string;
+  role: "user" | "assistant" | "system";
+  parts: { type: string; text?: string }[];
+}
+
+/** Join the text parts of a message, ignoring tool and reasoning parts */
+export function getMessageText(message: Pick<StoredChatMessage, "parts">): string {
+  return (message.parts || [])
+    .filter((p) => p.type === "text" && typeof p.text === "string")
+    .map((p) => p.text)
+    .join(" ");
+}
+
+/**
+ * Title a thread from the user's first question: whitespace collapsed and
+ * cut at a word boundary so it fits the list.
+ */
+export function deriveThreadTitle(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (!clean) return DEFAULT_THREAD_TITLE;
+  if (clean.length <= 60) return clean;
+
+  const cut = clean.slice(0, 60);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > 30 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, "")}…`;
+}
+
+/**
+ * Merge the newest client message into the stored history. A message whose
+ * id is already stored replaces it (a regenerate/edit), anything else is
+ * appended.
+ */
+export function appendThreadMessage<T extends { id: string }>(history: T[], message: T): T[] {
+  const index = history.findIndex((m) => m.id === message.id);
+  if (index === -1) return [...history, message];
+  return [...history.slice(0, index), message];
+}
+
+/** Trim a message list to what's stored, keeping the most recent turns */
+export function capThreadMessages<T>(messages: T[], max = MAX_STORED_THREAD_MESSAGES): T[] {
+  return messages.length > max ? messages.slice(messages.length - max) : messages;
+}
+
+/**
+ * The slice of a thread replayed to the model: the last `max` messages,
+ * starting on a user turn since some providers reject a leading assistant
+ * message.
+ */
+export function selectModelHistory<T extends { role: string }>(
+  messages: T[],
+  max = MAX_MODEL_HISTORY_MESSAGES
+): T[] {
+  let start = Math.max(0, messages.length - max);
+  while (start < messages.length - 1 && messages[start].role !== "user") start++;
+  return messages.slice(start);
+}
+
+/**
+ * Order threads for the sidebar: pinned first, then most recently active.
+ * The API already sorts this way; this keeps the client list stable after a
+ * local pin/rename without refetching.
+ */
+export function sortThreads<T extends Pick<ChatThreadSummary, "is_pinned" | "last_message_at">>(
+  threads: T[]
+): T[] {
+  return [...threads].sort((a, b) => {
+    if (a.is_pinned !== b.is_pinned) return a.is_pinned ? -1 : 1;
+    return b.last_message_at.localeCompare(a.last_message_at);
+  });
+}
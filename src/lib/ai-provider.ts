@@ -0,0 +1,263 @@
+/**
+ * AI provider setup shared by the chat, categorisation, expense detection
+ * and weekly-summary paths.
+ *
+ * Cloud providers (Google, OpenAI, Anthropic) need an API key. Self-hosted
+ * providers (any OpenAI-compatible server, or Ollama) need a base URL and a
+ * model instead; the key is optional. Both self-hosted options are driven
+ * through the OpenAI chat-completions client, so no extra SDK is needed.
+ *
+ * Self-hosted base URLs are user input fetched by the server, so they may
+ * only reach public addresses unless the server sets
+ * AI_ALLOW_PRIVATE_ENDPOINTS=true (for instances running next to their own
+ * Ollama or LAN model server). The check runs on the resolved addresses
+ * before every request, not just when the URL is saved.
+ */
+
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import type { wrapLanguageModel } from "ai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { getPlaintextToken } from "@/lib/token-encryption";
+
+export const AI_PROVIDERS = [
+  "google",
+  "openai",
+  "anthropic",
+  "openai-compatible",
+  "ollama",
+] as const;
+
+export type AiProvider = (typeof AI_PROVIDERS)[number];
+
+export const SELF_HOSTED_PROVIDERS: readonly AiProvider[] = ["openai-compatible", "ollama"];
+
+export const DEFAULT_AI_MODELS: Record<AiProvider, string> = {
+  google: "gemini-2.5-flash",
+  openai: "gpt-4.1-mini",
+  anthropic: "claude-sonnet-4-6",
+  // Self-hosted servers have no universal default — the user picks from
+  // whatever the endpoint lists
+  "openai-compatible": "",
+  ollama: "",
+};
+
+export const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434";
+
+/** Sent when a self-hosted server doesn't need a key; most ignore the header. */
+const PLACEHOLDER_API_KEY = "not-needed";
+
+const MODEL_LIST_TIMEOUT_MS = 5_000;
+
+/** Profile columns that hold a user's AI configuration */
+export interface AiSettingsRow {
+  ai_provider: string | null;
+  ai_api_key: string | null;
+  ai_model: string | null;
+  ai_base_url?: string | null;
+}
+
+/** A provider model instance, as accepted by generateText and wrapLanguageModel */
+export type AiLanguageModel = Parameters<typeof wrapLanguageModel>[0]["model"];
+
+export interface AiConfig {
+  provider: AiProvider;
+  apiKey: string | null;
+  model: string;
+  baseUrl: string | null;
+}
+
+export function isAiProvider(value: unknown): value is AiProvider {
+  return typeof value === "string" && (AI_PROVIDERS as readonly string[]).includes(value);
+}
+
+export function isSelfHostedProvider(provider: string | null | undefined): boolean {
+  return !!provider && (SELF_HOSTED_PROVIDERS as readonly string[]).includes(provider);
+}
+
+/**
+ * Validate and tidy a user-entered base URL: http(s) only, no embedded
+ * credentials, no query/fragment, trailing slashes removed. Returns null
+ * when the URL can't be used.
+ */
+export function normalizeBaseUrl(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  if (url.username || url.password || url.search || url.hash) return null;
+  return `${url.origin}${url.pathname}`.replace(/\/+$/, "");
+}
+
+/** Loopback, link-local, private, CGNAT and other non-routable ranges */
+const PRIVATE_NETWORKS = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(net, prefix, "ipv6");
+}
+
+/** Thrown when a self-hosted endpoint resolves to a blocked address */
+export class AiEndpointBlockedError extends Error {
+  constructor(host: string) {
+    super(
+      `${host} is on a private network. Set AI_ALLOW_PRIVATE_ENDPOINTS=true on the server to allow it.`
+    );
+    this.name = "AiEndpointBlockedError";
+  }
+}
+
+/** True when the server opted in to self-hosted endpoints on its own network */
+export function allowsPrivateAiEndpoints(): boolean {
+  return process.env.AI_ALLOW_PRIVATE_ENDPOINTS === "true";
+}
+
+/** Whether an IP literal is loopback, link-local, private or otherwise non-public */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  // IPv4-mapped IPv6 (::ffff:a.b.c.d) is matched against the IPv4 ranges
+  return PRIVATE_NETWORKS.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Refuse a self-hosted endpoint whose host resolves to any private address,
+ * unless AI_ALLOW_PRIVATE_ENDPOINTS is set. DNS failures are rethrown as-is.
+ */
+export async function assertAiEndpointAllowed(url: string): Promise<void> {
+  if (allowsPrivateAiEndpoints()) return;
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new AiEndpointBlockedError(host);
+  }
+}
+
+/**
+ * fetch for self-hosted endpoints: checks the target before each request and
+ * doesn't follow redirects, so a public URL can't bounce to a private one.
+ */
+const selfHostedFetch: typeof fetch = async (input, init) => {
+  const url = input instanceof Request ? input.url : input.toString();
+  await assertAiEndpointAllowed(url);
+  return fetch(input, { ...init, redirect: "manual" });
+};
+
+/** Ollama serves its own API at the root and the OpenAI one under /v1. */
+function ollamaRoot(baseUrl: string): string {
+  return baseUrl.replace(/\/v1$/, "");
+}
+
+/**
+ * Whether the row has enough to build a model, without decrypting the key.
+ * Cloud providers need a key; self-hosted ones need a base URL.
+ */
+export function isAiConfigured(row: Partial<AiSettingsRow> | null | undefined): boolean {
+  if (!row) return false;
+  if (isSelfHostedProvider(row.ai_provider)) return !!row.ai_base_url;
+  return !!row.ai_api_key;
+}
+
+/**
+ * Turn a profile row into a usable config, decrypting the stored key.
+ * Returns null when AI isn't set up (or a self-hosted provider has no model).
+ */
+export function resolveAiConfig(row: AiSettingsRow | null | undefined): AiConfig | null {
+  if (!row || !isAiConfigured(row)) return null;
+
+  const provider: AiProvider = isAiProvider(row.ai_provider) ? row.ai_provider : "google";
+  const apiKey = row.ai_api_key ? getPlaintextToken(row.ai_api_key) : null;
+  const model = row.ai_model || DEFAULT_AI_MODELS[provider];
+  if (!model) return null;
+
+  return {
+    provider,
+    apiKey,
+    model,
+    baseUrl: isSelfHostedProvider(provider) ? row.ai_base_url || null : null,
+  };
+}
+
+export function createLanguageModel(config: AiConfig): AiLanguageModel {
+  switch (config.provider) {
+    case "google":
+      return createGoogleGenerativeAI({ apiKey: config.apiKey ?? undefined })(config.model);
+    case "openai":
+      return createOpenAI({ apiKey: config.apiKey ?? undefined }).chat(config.model);
+    case "anthropic":
+      return createAnthropic({ apiKey: config.apiKey ?? undefined })(config.model);
+    case "ollama":
+      return createOpenAI({
+        name: "ollama",
+        baseURL: `${ollamaRoot(config.baseUrl || DEFAULT_OLLAMA_BASE_URL)}/v1`,
+        apiKey: config.apiKey || PLACEHOLDER_API_KEY,
+        fetch: selfHostedFetch,
+      }).chat(config.model);
+    case "openai-compatible":
+      return createOpenAI({
+        name: "openai-compatible",
+        baseURL: config.baseUrl ?? undefined,
+        apiKey: config.apiKey || PLACEHOLDER_API_KEY,
+        fetch: selfHostedFetch,
+      }).chat(config.model);
+  }
+}
+
+/**
+ * List the models a self-hosted endpoint serves: `/api/tags` for Ollama,
+ * `/models` for OpenAI-compatible servers. Throws on network or HTTP errors,
+ * and AiEndpointBlockedError for private addresses without the opt-in.
+ */
+export async function listSelfHostedModels(
+  provider: AiProvider,
+  baseUrl: string,
+  apiKey: string | null
+): Promise<string[]> {
+  const url =
+    provider === "ollama" ? `${ollamaRoot(baseUrl)}/api/tags` : `${baseUrl}/models`;
+  const res = await selfHostedFetch(url, {
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+    signal: AbortSignal.timeout(MODEL_LIST_TIMEOUT_MS),
+    cache: "no-store",
+  });
+  if (!res.ok) {
+    throw new Error(`Endpoint returned ${res.status}`);
+  }
+
+  const body = (await res.json()) as {
+    models?: { name?: string; model?: string }[];
+    data?: { id?: string }[];
+  };
+  const ids =
+    provider === "ollama"
+      ? (body.models || []).map((m) => m.name || m.model)
+      : (body.data || []).map((m) => m.id);
+
+  return [...new Set(ids.filter((id): id is string => !!id))].sort();
+}
@@ -4,6 +4,7 @@ import type { SupabaseClient } from "@supabase/supabase-js";
 import { escapeLikePattern, safeErrorMessage } from "@/lib/safe-error";
 import { advancePayDate } from "@/lib/advance-pay-date";
 import { getEffectiveAccountIds } from "@/lib/get-effective-account-ids";
+import { loadRolloverFromPrevious } from "@/lib/load-budget-rollover";
 import { classifySpending } from "@/lib/fire-spending-classifier";
 import { generateHealthMetrics, generatePriorityRecommendations } from "@/lib/plan-health-calculations";
 import type { HealthMetricInputs, RecommendationInputs, GoalSummary } from "@/lib/plan-health-calculations";
@@ -14,6 +15,8 @@ import {
   getBudgetPeriodRange,
   calculateBudgetSummary,
   getMonthKeyForPeriod,
+  normalizeCarryoverMode,
+  DEFAULT_BUDGET_TIMEZONE,
   type BudgetSummaryInput,
   type IncomeSourceInput,
   type AssignmentInput,
@@ -41,6 +44,7 @@ import {
   ALL_PARENT_CATEGORIES,
   getSubcategoriesForParents,
 } from "@/lib/budget-templates";
+import { SPLIT_EMBED_COLUMNS, expandSplitLines, readEmbeddedSplits, toBudgetSplits, type TransactionSplit } from "@/lib/transaction-splits";
 
 const EMOJI_KEYWORDS: [string[], string][] = [
   [["rent", "real estate", "mortgage", "housing", "apartment"], "🏠"],
@@ -142,7 +146,7 @@ export function createFinancialTools(
   const tools = {
     searchTransactions: tool({
       description:
-        "Search and filter the user's transactions. Use this to find specific purchases, payments, or transfers. Returns up to 50 results sorted by date (newest first). Always use this when the user asks about specific spending, merchants, or transaction history.",
+        "Search and filter the user's transactions. Use this to find specific purchases, payments, or transfers. Returns up to 50 results sorted by date (newest first). Split transactions list their category line items; when filtering by category, only the matching line amounts are returned. Always use this when the user asks about specific spending, merchants, or transaction history.",
       inputSchema: z.object({
         query: z
           .string()
@@ -197,13 +201,26 @@ export function createFinancialTools(
       }) => {
         let q = supabase
           .from("transactions")
-          .select("description, amount_cents, category_id, parent_category_id, settled_at, created_at, transaction_type, is_income")
+          .select(`id, description, amount_cents, category_id, parent_category_id, settled_at, created_at, transaction_type, is_income, transaction_splits(${SPLIT_EMBED_COLUMNS})`)
           .in("account_id", accountIds)
           .order("settled_at", { ascending: false })
           .limit(Math.min(limit, 50));
 
         if (query) q = q.ilike("description", `%${escapeLikePattern(query)}%`);
-        if (category) q = q.eq("category_id", category);
+        if (category) {
+          // Split transactions match on any of their line categories
+          const { data: splitRows } = /^[\w-]+$/.test(category)
+            ? await supabase
+                .from("transaction_splits")
+                .select("transaction_id")
+                .eq("category_id", category)
+                .limit(500)
+            : { data: null };
+          const splitIds = [...new Set((splitRows || []).map((s: { transaction_id: string }) => s.transaction_id))];
+          q = splitIds.length > 0
+            ? q.or(`category_id.eq.${category},id.in.(${splitIds.join(",")})`)
+            : q.eq("category_id", category);
+        }
         if (dateFrom) q = q.gte("settled_at", dateFrom);
         if (dateTo) q = q.lte("settled_at", `${dateTo}T23:59:59`);
         if (type === "spending") q = q.lt("amount_cents", 0);
@@ -220,18 +237,51 @@ export function createFinancialTools(
         const { data, error } = await q;
         if (error) return { error: safeErrorMessage(error, "Database operation failed") };
 
-        return {
-          count: data?.length || 0,
-          transactions: (data || []).map((t: Record<string, unknown>) => ({
+        const formatCents = (cents: number) => `$${(Math.abs(cents) / 100).toFixed(2)}`;
+        const transactions = (data || []).flatMap((t: Record<string, unknown>): Record<string, unknown>[] => {
+          const splits = readEmbeddedSplits(t.transaction_splits as TransactionSplit[] | null);
+          const lines = expandSplitLines(t as { amount_cents: number; category_id: string | null; parent_category_id: string | null }, splits);
+          const base = {
             description: t.description,
-            amount: `$${(Math.abs(t.amount_cents as number) / 100).toFixed(2)}`,
-            amountCents: t.amount_cents,
             isSpending: (t.amount_cents as number) < 0,
-            category: t.category_id,
-            parentCategory: t.parent_category_id,
             date: t.settled_at || t.created_at,
             type: t.transaction_type,
-          })),
+          };
+
+          // With a category filter, report only the matching lines of a split
+          if (category && splits.length > 0) {
+            return lines
+              .filter((l) => l.category_id === category)
+              .map((l) => ({
+                ...base,
+                amount: formatCents(l.amount_cents),
+                amountCents: l.amount_cents,
+                category: l.category_id,
+                parentCategory: l.parent_category_id,
+                splitOfTotal: formatCents(t.amount_cents as number),
+              }));
+          }
+
+          return [{
+            ...base,
+            amount: formatCents(t.amount_cents as number),
+            amountCents: t.amount_cents,
+            category: t.category_id,
+            parentCategory: t.parent_category_id,
+            ...(splits.length > 0 && {
+              splits: lines.map((l) => ({
+                amount: formatCents(l.amount_cents),
+                category: l.category_id,
+                parentCategory: l.parent_category_id,
+                ...(l.is_shared != null && { shared: l.is_shared }),
+              })),
+            }),
+          }];
+        });
+
+        return {
+          count: transactions.length,
+          transactions,
         };
       },
     }),
@@ -816,14 +866,14 @@ export function createFinancialTools(
 
     getBudgetStatus: tool({
       description:
-        "Get budget vs actual spending for a given period. Uses the budget engine for accurate calculations including expense-default fills, split-aware spending, and support for weekly/fortnightly/monthly period types. Shows each budgeted row with name, budgeted amount, actual spending, and remaining. Supports multi-budget and individual/shared views.",
+        "Get budget vs actual spending for a given period. Uses the budget engine for accurate calculations including expense-default fills, split-aware spending, and support for weekly/fortnightly/four-weekly/monthly period types, including periods aligned to a pay cycle. Shows each budgeted row with name, budgeted amount, actual spending, and remaining. Supports multi-budget and individual/shared views.",
       inputSchema: z.object({
         month: z
           .string()
           .optional()
           .describe("Month in YYYY-MM format (defaults to current month). Used as the period anchor date."),
         periodType: z
-          .enum(["weekly", "fortnightly", "monthly"])
+          .enum(["weekly", "fortnightly", "four-weekly", "monthly"])
           .optional()
           .describe("Period type override (default: auto-detected from budget settings)"),
         budgetView: z
@@ -848,11 +898,18 @@ export function createFinancialTools(
         let budgetMethodology = "custom";
         let totalBudget: number | null = null;
         let ownerUserId = userId || "";
+        let budgetRecord: {
+          carryover_mode?: string | null;
+          start_date?: string | null;
+          created_at?: string | null;
+          period_anchor_date?: string | null;
+          pay_cycle_source_id?: string | null;
+        } | null = null;
 
         if (!budgetId) {
           const { data: defaultBudget } = await supabase
             .from("user_budgets")
-            .select("id, budget_view, period_type, methodology, total_budget, created_by")
+            .select("id, budget_view, period_type, methodology, total_budget, created_by, carryover_mode, start_date, created_at, period_anchor_date, pay_cycle_source_id")
             .eq("partnership_id", partnershipId)
             .eq("is_default", true)
             .eq("is_active", true)
@@ -864,11 +921,12 @@ export function createFinancialTools(
             budgetMethodology = defaultBudget.methodology || "custom";
             totalBudget = defaultBudget.total_budget;
             ownerUserId = defaultBudget.created_by ?? userId ?? "";
+            budgetRecord = defaultBudget;
           }
         } else {
           const { data: budget } = await supabase
             .from("user_budgets")
-            .select("budget_view, period_type, methodology, total_budget, created_by")
+            .select("budget_view, period_type, methodology, total_budget, created_by, carryover_mode, start_date, created_at, period_anchor_date, pay_cycle_source_id")
             .eq("id", budgetId)
             .single();
           if (budget) {
@@ -877,14 +935,16 @@ export function createFinancialTools(
             budgetMethodology = budget.methodology || "custom";
             totalBudget = budget.total_budget;
             ownerUserId = budget.created_by ?? userId ?? "";
+            budgetRecord = budget;
           }
         }
         budgetView = budgetView || "shared";
 
         // Compute period range from month param (or current date)
         const anchorDate = month ? new Date(`${month}-15`) : new Date();
-        const periodRange = getBudgetPeriodRange(anchorDate, budgetPeriodType);
-        const monthKey = getMonthKeyForPeriod(anchorDate);
+        const periodAnchor = budgetRecord?.period_anchor_date ?? null;
+        const periodRange = getBudgetPeriodRange(anchorDate, budgetPeriodType, DEFAULT_BUDGET_TIMEZONE, periodAnchor);
+        const monthKey = getMonthKeyForPeriod(periodRange.start);
 
         // Get effective account IDs for the budget view
         const effectiveIds = userId
@@ -914,7 +974,7 @@ export function createFinancialTools(
           effectiveIds.length > 0
             ? supabase
                 .from("transactions")
-                .select("id, amount_cents, category_id, settled_at, expense_matches(expense_definition_id)")
+                .select("id, amount_cents, category_id, settled_at, expense_matches(expense_definition_id), transaction_splits(position, amount_cents, category_id, is_shared)")
                 .in("account_id", effectiveIds)
                 .gte("settled_at", periodRange.start.toISOString())
                 .lte("settled_at", periodRange.end.toISOString())
@@ -970,6 +1030,7 @@ export function createFinancialTools(
             created_at: t.settled_at as string,
             split_override_percentage: null,
             matched_expense_id: matchedExpenseId as string | null,
+            splits: toBudgetSplits(t.transaction_splits),
           };
         });
 
@@ -1011,15 +1072,16 @@ export function createFinancialTools(
         }));
 
         // Call the budget engine
-        const summary = calculateBudgetSummary({
+        const engineInput: BudgetSummaryInput = {
           periodType: budgetPeriodType,
           budgetView: budgetView as BudgetView,
-          carryoverMode: "none",
+          carryoverMode: normalizeCarryoverMode(budgetRecord?.carryover_mode),
           methodology: budgetMethodology,
           totalBudget,
           userId: userId || "",
           ownerUserId,
           periodRange,
+          periodAnchor,
           incomeSources,
           assignments,
           transactions,
@@ -1027,7 +1089,16 @@ export function createFinancialTools(
           splitSettings,
           categoryMappings,
           carryoverFromPrevious: 0,
-        });
+        };
+        if (budgetId && budgetRecord) {
+          engineInput.rolloverFromPrevious = await loadRolloverFromPrevious(
+            supabase,
+            { id: budgetId, budget_view: budgetView as BudgetView, ...budgetRecord },
+            effectiveIds,
+            engineInput
+          );
+        }
+        const summary = calculateBudgetSummary(engineInput);
 
         // Format rows for AI consumption
         let onTrackCount = 0;
@@ -1044,6 +1115,7 @@ export function createFinancialTools(
             budgeted: `$${(r.budgeted / 100).toFixed(2)}`,
             spent: `$${(r.spent / 100).toFixed(2)}`,
             remaining: `$${(r.available / 100).toFixed(2)}`,
+            ...(r.carryover ? { rolledOver: `$${(r.carryover / 100).toFixed(2)}` } : {}),
             percentUsed: r.budgeted > 0 ? `${((r.spent / r.budgeted) * 100).toFixed(1)}%` : "N/A",
             isOverBudget: isOver,
             isExpenseDefault: r.isExpenseDefault,
@@ -1220,13 +1292,15 @@ income_sources: id, user_id, partnership_id, name, source_type, amount_cents, fr
 
 budget_assignments: id, partnership_id, month (date, first of month), category_name, assigned_cents, assignment_type (category/goal/asset), subcategory_name, goal_id, asset_id, budget_view (individual/shared), budget_id, stored_period_type, rollover, notes, created_at
 
-budget_months: id, partnership_id, month (date), income_total_cents, assigned_total_cents, carryover_from_previous_cents, budget_id, notes
+budget_months: id, partnership_id, month (date), income_total_cents, assigned_total_cents, carryover_from_previous_cents, budget_id, notes, closed_at (null while open), spent_total_cents, leftover_action, leftover_cents
 
-user_budgets: id, partnership_id, name, emoji, budget_type (personal/household/custom), methodology, budget_view (individual/shared), period_type (weekly/fortnightly/monthly), is_active, is_default, carryover_mode (always 'none' - fresh each period), total_budget, start_date, end_date
+user_budgets: id, partnership_id, name, emoji, budget_type (personal/household/custom), methodology, budget_view (individual/shared), period_type (weekly/fortnightly/four-weekly/monthly), is_active, is_default, carryover_mode (none/rollover-unspent/rollover-with-debt/rollover-capped), total_budget, start_date, end_date, period_anchor_date, pay_cycle_source_id
 
 couple_split_settings: id, partnership_id, category_name, expense_definition_id, split_type (equal/custom/individual-owner/individual-partner), owner_percentage
 
-investments: id, partnership_id, asset_type (stock/etf/crypto/property/other), name, ticker_symbol, quantity, purchase_value_cents, current_value_cents, notes
+investments: id, partnership_id, asset_type (stock/etf/crypto/property/other), name, ticker_symbol, price_provider (auto/coingecko/yahoo/manual), quantity, purchase_value_cents, current_value_cents, notes
+
+investment_transactions: id, investment_id, partnership_id, transaction_type (buy/sell/dividend/drp/split), trade_date (date), quantity, amount_cents (AUD: cost, proceeds or dividend), fees_cents, split_ratio, parcel_allocations, notes
 
 goal_contributions: id, goal_id, amount_cents, balance_after_cents, source (manual/webhook_sync/budget_allocation/initial), created_at
 
@@ -1292,7 +1366,7 @@ IMPORTANT: For date ordering on transactions, use 'settled_at' or 'created_at' 
           "transactions", "accounts", "expense_definitions", "expense_matches",
           "savings_goals", "income_sources", "budget_assignments", "budget_months",
           "category_mappings", "categories", "couple_split_settings", "investments",
-          "investment_history",
+          "investment_history", "investment_transactions",
           "tags", "net_worth_snapshots", "budget_category_shares",
           "user_budgets", "goal_contributions", "target_allocations",
           "transaction_share_overrides", "annual_checkups", "watchlist_items",
@@ -1307,22 +1381,23 @@ IMPORTANT: For date ordering on transactions, use 'settled_at' or 'created_at' 
 
         const ALLOWED_COLUMNS: Record<string, Set<string>> = {
           transactions: new Set(["id", "account_id", "up_transaction_id", "description", "raw_text", "message", "amount_cents", "currency_code", "status", "category_id", "parent_category_id", "settled_at", "created_at", "foreign_amount_cents", "foreign_currency_code", "transfer_account_id", "is_categorizable", "transaction_type", "is_income", "income_type", "is_one_off_income", "is_internal_transfer", "internal_transfer_type", "performing_customer", "is_shared", "category_name", "parent_category_name", "merchant_name", "hold_info_amount_cents", "hold_info_foreign_amount_cents", "hold_info_foreign_currency_code", "round_up_amount_cents", "round_up_boost_cents", "cashback_amount_cents", "cashback_description", "card_purchase_method", "card_number_suffix", "linked_pay_schedule_id", "deep_link_url"]),
-          accounts: new Set(["id", "user_id", "up_account_id", "display_name", "account_type", "ownership_type", "balance_cents", "currency_code", "is_active", "last_synced_at", "created_at", "updated_at"]),
+          accounts: new Set(["id", "user_id", "up_account_id", "display_name", "account_type", "ownership_type", "balance_cents", "currency_code", "is_active", "last_synced_at", "created_at", "updated_at", "source", "institution"]),
           expense_definitions: new Set(["id", "partnership_id", "name", "category_name", "expected_amount_cents", "recurrence_type", "next_due_date", "auto_detected", "match_pattern", "is_active", "emoji", "notes", "created_by", "created_at", "updated_at", "linked_up_transaction_id", "merchant_name"]),
           expense_matches: new Set(["id", "expense_definition_id", "transaction_id", "match_confidence", "matched_at", "matched_by", "for_period"]),
           savings_goals: new Set(["id", "partnership_id", "name", "target_amount_cents", "current_amount_cents", "deadline", "linked_account_id", "icon", "color", "is_completed", "completed_at", "created_at", "updated_at"]),
           income_sources: new Set(["id", "user_id", "partnership_id", "name", "source_type", "one_off_type", "amount_cents", "frequency", "last_pay_date", "next_pay_date", "expected_date", "received_date", "is_received", "linked_transaction_id", "match_pattern", "notes", "is_active", "created_at", "updated_at", "linked_up_transaction_id", "is_manual_partner_income"]),
           budget_assignments: new Set(["id", "partnership_id", "month", "category_name", "assigned_cents", "notes", "created_by", "created_at", "updated_at", "assignment_type", "goal_id", "asset_id", "subcategory_name", "stored_period_type", "rollover", "budget_view", "budget_id"]),
-          budget_months: new Set(["id", "partnership_id", "month", "income_total_cents", "assigned_total_cents", "carryover_from_previous_cents", "notes", "created_at", "updated_at", "budget_id"]),
+          budget_months: new Set(["id", "partnership_id", "month", "income_total_cents", "assigned_total_cents", "carryover_from_previous_cents", "notes", "created_at", "updated_at", "budget_id", "closed_at", "spent_total_cents", "leftover_action", "leftover_cents"]),
           category_mappings: new Set(["id", "up_category_id", "new_parent_name", "new_child_name", "icon", "display_order", "created_at"]),
           categories: new Set(["id", "name", "parent_category_id", "created_at"]),
           couple_split_settings: new Set(["id", "partnership_id", "category_name", "expense_definition_id", "split_type", "owner_percentage", "notes", "created_at", "updated_at"]),
-          investments: new Set(["id", "partnership_id", "asset_type", "name", "ticker_symbol", "quantity", "purchase_value_cents", "current_value_cents", "currency_code", "notes", "created_at", "updated_at"]),
-          investment_history: new Set(["id", "investment_id", "value_cents", "recorded_at"]),
+          investments: new Set(["id", "partnership_id", "asset_type", "name", "ticker_symbol", "price_provider", "quantity", "purchase_value_cents", "current_value_cents", "currency_code", "native_value_cents", "native_purchase_value_cents", "purchase_date", "notes", "created_at", "updated_at"]),
+          investment_history: new Set(["id", "investment_id", "value_cents", "native_value_cents", "recorded_at"]),
+          investment_transactions: new Set(["id", "investment_id", "partnership_id", "transaction_type", "trade_date", "quantity", "amount_cents", "fees_cents", "native_amount_cents", "split_ratio", "parcel_allocations", "notes", "created_at"]),
           tags: new Set(["name", "created_at"]),
-          net_worth_snapshots: new Set(["id", "partnership_id", "snapshot_date", "total_balance_cents", "account_breakdown", "created_at", "investment_total_cents"]),
+          net_worth_snapshots: new Set(["id", "partnership_id", "snapshot_date", "total_balance_cents", "account_breakdown", "created_at", "investment_total_cents", "super_total_cents", "liability_total_cents"]),
           budget_category_shares: new Set(["id", "partnership_id", "category_name", "share_percentage", "is_shared", "created_at", "updated_at"]),
-          user_budgets: new Set(["id", "partnership_id", "name", "emoji", "budget_type", "methodology", "budget_view", "period_type", "is_active", "is_default", "color", "template_source", "category_filter", "created_by", "created_at", "updated_at", "total_budget", "start_date", "end_date", "carryover_mode", "slug"]),
+          user_budgets: new Set(["id", "partnership_id", "name", "emoji", "budget_type", "methodology", "budget_view", "period_type", "is_active", "is_default", "color", "template_source", "category_filter", "created_by", "created_at", "updated_at", "total_budget", "start_date", "end_date", "carryover_mode", "slug", "period_anchor_date", "pay_cycle_source_id"]),
           goal_contributions: new Set(["id", "goal_id", "amount_cents", "balance_after_cents", "source", "created_at"]),
           target_allocations: new Set(["id", "partnership_id", "asset_type", "target_percentage", "created_at", "updated_at"]),
           transaction_share_overrides: new Set(["id", "transaction_id", "partnership_id", "share_percentage", "is_shared", "notes", "created_at", "updated_at"]),
@@ -1373,7 +1448,7 @@ IMPORTANT: For date ordering on transactions, use 'settled_at' or 'created_at' 
           "expense_definitions", "expense_matches", "savings_goals", "budget_assignments",
           "budget_months", "couple_split_settings", "budget_category_shares",
           "transaction_share_overrides", "user_budgets", "target_allocations",
-          "investments", "net_worth_snapshots", "annual_checkups", "watchlist_items",
+          "investments", "investment_transactions", "net_worth_snapshots", "annual_checkups", "watchlist_items",
         ];
         const USER_SCOPED = ["income_sources"];
         const RLS_ONLY = ["goal_contributions", "investment_history"];
@@ -2247,7 +2322,7 @@ IMPORTANT: For date ordering on transactions, use 'settled_at' or 'created_at' 
           .optional()
           .describe("Budgeting method (default 'zero-based'). Options: 'zero-based', '50-30-20', 'envelope', 'pay-yourself-first'"),
         periodType: z
-          .enum(["weekly", "fortnightly", "monthly"])
+          .enum(["weekly", "fortnightly", "four-weekly", "monthly"])
           .optional()
           .describe("Budget period (default 'monthly')"),
         budgetView: z
@@ -2531,6 +2606,10 @@ IMPORTANT: For date ordering on transactions, use 'settled_at' or 'created_at' 
           action = "created";
         }
 
+        // Closed months are locked by a trigger on budget_assignments
+        if (error?.code === "55000") {
+          return { error: "That budget month is closed. Reopen it from the budget page to change assignments." };
+        }
         if (error) return { error: safeErrorMessage(error, "Database operation failed") };
 
         // Atomically update budget_months total via RPC
@@ -51,6 +51,8 @@ export interface AnalysisNetWorthSnapshot {
   snapshot_date: string;
   total_balance_cents: number;
   investment_total_cents: number | null;
+  super_total_cents: number | null;
+  liability_total_cents: number | null;
 }
 
 export interface AnalysisData {
@@ -145,7 +147,7 @@ export async function getAnalysisData(
       .eq("is_active", true),
     supabase
       .from("net_worth_snapshots")
-      .select("snapshot_date, total_balance_cents, investment_total_cents")
+      .select("snapshot_date, total_balance_cents, investment_total_cents, super_total_cents, liability_total_cents")
       .eq("partnership_id", partnershipId)
       .gte("snapshot_date", twoYearsAgo.toISOString().split("T")[0])
       .order("snapshot_date", { ascending: true }),
@@ -0,0 +1,93 @@
+/**
+ * Storage backends for transaction attachment files, chosen by the
+ * ATTACHMENT_STORAGE environment variable:
+ *
+ * - "supabase" (default): the private "transaction-attachments" Storage
+ *   bucket, accessed with the caller's session so the bucket's RLS policies
+ *   apply on top of the route's own checks.
+ * - "local": files on the app server's disk under ATTACHMENT_LOCAL_DIR
+ *   (default ./data/attachments). Meant for the Docker deploy; mount the
+ *   directory as a volume so receipts survive container rebuilds.
+ *
+ * Routes authorise every read and delete against transaction_attachments
+ * (which has RLS) before touching a store, so the local backend needs no
+ * access control of its own.
+ */
+
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const ATTACHMENT_BUCKET = "transaction-attachments";
+
+const DEFAULT_LOCAL_DIR = "./data/attachments";
+
+export interface AttachmentStore {
+  put(storagePath: string, bytes: Uint8Array, contentType: string): Promise<void>;
+  get(storagePath: string): Promise<Uint8Array>;
+  /** Best-effort: missing files are not an error */
+  remove(storagePaths: string[]): Promise<void>;
+}
+
+export class SupabaseAttachmentStore implements AttachmentStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async put(storagePath: string, bytes: Uint8Array, contentType: string): Promise<void> {
+    const { error } = await this.supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(storagePath, bytes, { contentType, upsert: false });
+    if (error) throw new Error(error.message);
+  }
+
+  async get(storagePath: string): Promise<Uint8Array> {
+    const { data, error } = await this.supabase.storage.from(ATTACHMENT_BUCKET).download(storagePath);
+    if (error || !data) throw new Error(error?.message ?? "Attachment not found");
+    return new Uint8Array(await data.arrayBuffer());
+  }
+
+  async remove(storagePaths: string[]): Promise<void> {
+    if (storagePaths.length === 0) return;
+    const { error } = await this.supabase.storage.from(ATTACHMENT_BUCKET).remove(storagePaths);
+    if (error) throw new Error(error.message);
+  }
+}
+
+export class LocalAttachmentStore implements AttachmentStore {
+  private root: string;
+
+  constructor(rootDir: string) {
+    this.root = path.resolve(rootDir);
+  }
+
+  /** Map a storage path into the root, refusing anything that escapes it */
+  private resolve(storagePath: string): string {
+    const full = path.resolve(this.root, storagePath);
+    if (!full.startsWith(this.root + path.sep)) {
+      throw new Error("Invalid attachment path");
+    }
+    return full;
+  }
+
+  async put(storagePath: string, bytes: Uint8Array): Promise<void> {
+    const full = this.resolve(storagePath);
+    await mkdir(path.dirname(full), { recursive: true });
+    // "wx" fails rather than overwrite, matching the bucket's upsert: false
+    await writeFile(full, bytes, { flag: "wx" });
+  }
+
+  async get(storagePath: string): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(this.resolve(storagePath)));
+  }
+
+  async remove(storagePaths: string[]): Promise<void> {
+    await Promise.all(storagePaths.map((p) => rm(this.resolve(p), { force: true })));
+  }
+}
+
+/** The store configured by ATTACHMENT_STORAGE, bound to the request's client */
+export function getAttachmentStore(supabase: SupabaseClient): AttachmentStore {
+  if (process.env.ATTACHMENT_STORAGE === "local") {
+    return new LocalAttachmentStore(process.env.ATTACHMENT_LOCAL_DIR || DEFAULT_LOCAL_DIR);
+  }
+  return new SupabaseAttachmentStore(supabase);
+}
@@ -1,16 +1,20 @@
 /**
  * Lightweight audit logger for critical operations.
  *
- * Outputs structured JSON to console.log. A future migration can
- * add an audit_logs table and persist these entries to the database.
+ * Outputs structured JSON to console.log and persists each entry to the
+ * audit_logs table so partners can review the history under
+ * Settings → Privacy & Security → Activity history.
  */
 
+import { createServiceRoleClient } from '@/utils/supabase/service-role';
+
 /**
  * Predefined audit actions for critical operations.
  */
 export const AuditAction = {
   EXPENSE_DELETED: 'EXPENSE_DELETED',
   BUDGET_RESET: 'BUDGET_RESET',
+  BUDGET_DELETED: 'BUDGET_DELETED',
   PARTNERSHIP_CHANGED: 'PARTNERSHIP_CHANGED',
   CATEGORY_OVERRIDE: 'CATEGORY_OVERRIDE',
   API_KEY_UPDATED: 'API_KEY_UPDATED',
@@ -20,22 +24,31 @@ export const AuditAction = {
   PARTNER_REMOVED: 'PARTNER_REMOVED',
   FINANCIAL_DATA_EXPORTED: 'FINANCIAL_DATA_EXPORTED',
   OTHER_SESSIONS_REVOKED: 'OTHER_SESSIONS_REVOKED',
+  BACKUP_RESTORED: 'BACKUP_RESTORED',
 } as const;
 
+export type AuditActionType = (typeof AuditAction)[keyof typeof AuditAction];
+
 interface AuditLogParams {
   userId: string;
   action: string;
   details?: Record<string, unknown>;
+  /** Partnership the action belongs to. Looked up from the user's membership when omitted. */
+  partnershipId?: string | null;
 }
 
 /**
- * Log a critical operation in structured JSON format.
+ * Log a critical operation in structured JSON format and persist it.
+ *
+ * Persistence is best-effort: a failed insert is reported via console.error
+ * but never fails the operation being audited.
  *
  * @param params.userId - The ID of the user performing the action
  * @param params.action - The action being performed (use AuditAction constants)
  * @param params.details - Optional additional context about the action
+ * @param params.partnershipId - Optional partnership scope for the entry
  */
-export function auditLog(params: AuditLogParams): void {
+export async function auditLog(params: AuditLogParams): Promise<void> {
   const entry = {
     level: 'audit' as const,
     timestamp: new Date().toISOString(),
@@ -45,4 +58,33 @@ export function auditLog(params: AuditLogParams): void {
   };
 
   console.log(JSON.stringify(entry));
+
+  try {
+    const supabase = createServiceRoleClient();
+
+    let partnershipId = params.partnershipId;
+    if (partnershipId === undefined) {
+      const { data: membership } = await supabase
+        .from('partnership_members')
+        .select('partnership_id')
+        .eq('user_id', params.userId)
+        .limit(1)
+        .maybeSingle();
+      partnershipId = membership?.partnership_id ?? null;
+    }
+
+    const { error } = await supabase.from('audit_logs').insert({
+      user_id: params.userId,
+      partnership_id: partnershipId,
+      action: params.action,
+      details: params.details ?? {},
+      created_at: entry.timestamp,
+    });
+
+    if (error) {
+      console.error('Failed to persist audit log:', error.message);
+    }
+  } catch (err) {
+    console.error('Failed to persist audit log:', err instanceof Error ? err.message : err);
+  }
 }
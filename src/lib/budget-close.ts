@@ -0,0 +1,308 @@
+/**
+ * Budget month close — the end-of-month review and the frozen record it
+ * leaves behind.
+ *
+ * Closing a month snapshots every period that starts in it (one for monthly
+ * budgets, two or more for fortnightly/weekly ones), flags expected expenses
+ * that never matched a transaction, and decides what happens to money left
+ * in envelopes. `close_budget_month()` stores the snapshot on budget_months
+ * and locks the month's assignments until it is reopened. While it's closed,
+ * the budget shows each period from the snapshot rather than live figures.
+ *
+ * Months rather than periods are closed because assignments are stored per
+ * month (see `getMonthKeyForPeriod`).
+ */
+
+import {
+  DEFAULT_BUDGET_TIMEZONE,
+  calculateClosingBalances,
+  countOccurrencesInPeriod,
+  envelopeTargets,
+  getPeriodsStartingInMonth,
+  type BudgetRow,
+  type BudgetSummary,
+  type CarryoverMode,
+  type ExpenseDefInput,
+  type PeriodType,
+  type TransactionInput,
+} from "@/lib/budget-engine";
+
+/**
+ * What happens to money left in envelopes when a month closes.
+ *
+ * - "carry_over": it stays in the envelopes and rolls into next month
+ *   through the budget's carryover mode.
+ * - "return_to_unassigned": it's added to next month's To Be Budgeted.
+ * - "sweep_to_goal": it's added to next month's To Be Budgeted and assigned
+ *   straight to a savings goal.
+ */
+export type LeftoverAction = "carry_over" | "return_to_unassigned" | "sweep_to_goal";
+
+export const LEFTOVER_ACTIONS: readonly LeftoverAction[] = [
+  "carry_over",
+  "return_to_unassigned",
+  "sweep_to_goal",
+];
+
+export const LEFTOVER_ACTION_LABELS: Record<LeftoverAction, string> = {
+  carry_over: "Carry over in envelopes",
+  return_to_unassigned: "Return to To Be Budgeted",
+  sweep_to_goal: "Sweep to a goal",
+};
+
+/** An envelope's final figures for the month */
+export interface SnapshotRow {
+  key: string;
+  type: BudgetRow["type"];
+  name: string;
+  parentCategory: string | null;
+  budgeted: number;
+  spent: number;
+  /** Balance at the end of the month */
+  available: number;
+  /** Balance rolled in at the start of the month */
+  carryover: number;
+}
+
+/** An expected expense with fewer matched payments than occurrences */
+export interface UnmatchedExpense {
+  id: string;
+  name: string;
+  /** Budget row the expense belongs to, when its category is known */
+  key: string | null;
+  expectedCount: number;
+  matchedCount: number;
+  /** Expected amount of the payments that never matched */
+  missingCents: number;
+}
+
+/** An envelope whose leftover is released from it */
+export interface ReleasedKey {
+  category_name: string;
+  subcategory_name: string;
+  /**
+   * The envelope's rollover before the close, restored on reopen. Null when
+   * it had no assignment row and the close inserted a $0 placeholder, which
+   * reopening deletes again.
+   */
+  previous_rollover: boolean | null;
+}
+
+/** A category assignment's rollover flag, as stored for the month */
+export interface AssignmentRollover {
+  category_name: string;
+  subcategory_name: string | null;
+  rollover: boolean | null;
+}
+
+/** One period's summary exactly as the budget showed it at close */
+export interface SnapshotPeriod {
+  label: string;
+  /** Period boundaries (ISO) */
+  start: string;
+  end: string;
+  summary: BudgetSummary;
+}
+
+export interface BudgetMonthSnapshot {
+  /** Month key (YYYY-MM-01) */
+  month: string;
+  periodType: PeriodType;
+  /** Start of the first period and end of the last (ISO) */
+  periodStart: string;
+  periodEnd: string;
+  periodLabels: string[];
+  income: number;
+  budgeted: number;
+  spent: number;
+  /** To Be Budgeted across the month's periods */
+  tbb: number;
+  rows: SnapshotRow[];
+  /**
+   * Each period's full summary, served in place of live figures while the
+   * month is closed. Missing from snapshots taken before it was stored.
+   */
+  periods?: SnapshotPeriod[];
+  unmatchedExpenses: UnmatchedExpense[];
+  leftover: {
+    action: LeftoverAction;
+    cents: number;
+    goalId: string | null;
+    goalName: string | null;
+    releasedKeys: ReleasedKey[];
+  };
+}
+
+/**
+ * Dates inside each budget period that starts in `monthKey`, oldest first.
+ * Periods that start in the previous month belong to that month's close,
+ * including pay-cycle periods that run into this one.
+ */
+export function periodDatesInMonth(
+  monthKey: string,
+  periodType: PeriodType,
+  timezone: string = DEFAULT_BUDGET_TIMEZONE,
+  anchor: string | null = null
+): Date[] {
+  const [year, month] = monthKey.split("-").map(Number);
+  return getPeriodsStartingInMonth(year, month - 1, periodType, timezone, anchor).map((r) => r.start);
+}
+
+/**
+ * Combine the month's period summaries into month totals. Budgeted and spent
+ * add up across periods; an envelope's available is where the last period
+ * left it and its carryover is what rolled into the first.
+ */
+export function combinePeriodSummaries(
+  periods: Pick<BudgetSummary, "income" | "budgeted" | "spent" | "tbb" | "rows">[]
+): Pick<BudgetMonthSnapshot, "income" | "budgeted" | "spent" | "tbb" | "rows"> {
+  const rows = new Map<string, SnapshotRow>();
+  let income = 0;
+  let budgeted = 0;
+  let spent = 0;
+  let tbb = 0;
+
+  for (const period of periods) {
+    income += period.income;
+    budgeted += period.budgeted;
+    spent += period.spent;
+    tbb += period.tbb;
+
+    for (const row of period.rows) {
+      const existing = rows.get(row.id);
+      if (existing) {
+        existing.budgeted += row.budgeted;
+        existing.spent += row.spent;
+        existing.available = row.available;
+        existing.name = row.name;
+      } else {
+        rows.set(row.id, {
+          key: row.id,
+          type: row.type,
+          name: row.name,
+          parentCategory: row.parentCategory ?? null,
+          budgeted: row.budgeted,
+          spent: row.spent,
+          available: row.available,
+          carryover: row.carryover ?? 0,
+        });
+      }
+    }
+  }
+
+  return { income, budgeted, spent, tbb, rows: [...rows.values()] };
+}
+
+/**
+ * The stored summary of the closed month's period starting at `start`, or
+ * null when the snapshot doesn't have it (taken before periods were stored,
+ * or the budget's period type has changed since).
+ */
+export function snapshotPeriodSummary(
+  snapshot: Pick<BudgetMonthSnapshot, "periods"> | null | undefined,
+  start: Date
+): BudgetSummary | null {
+  const iso = start.toISOString();
+  return snapshot?.periods?.find((p) => p.start === iso)?.summary ?? null;
+}
+
+/**
+ * Expected expenses due in the month that have fewer matched transactions
+ * than occurrences, largest shortfall first.
+ */
+export function findUnmatchedExpenses(
+  expenses: (ExpenseDefInput & { name: string })[],
+  transactions: Pick<TransactionInput, "matched_expense_id">[],
+  start: Date,
+  end: Date
+): UnmatchedExpense[] {
+  const matched = new Map<string, number>();
+  for (const t of transactions) {
+    if (t.matched_expense_id) {
+      matched.set(t.matched_expense_id, (matched.get(t.matched_expense_id) ?? 0) + 1);
+    }
+  }
+
+  const unmatched: UnmatchedExpense[] = [];
+  for (const exp of expenses) {
+    if (!exp.next_due_date) continue;
+    const expectedCount = countOccurrencesInPeriod(exp.next_due_date, exp.recurrence_type, start, end);
+    const matchedCount = matched.get(exp.id) ?? 0;
+    if (expectedCount <= matchedCount) continue;
+    unmatched.push({
+      id: exp.id,
+      name: exp.name,
+      key: exp.inferred_subcategory ? `${exp.category_name}::${exp.inferred_subcategory}` : null,
+      expectedCount,
+      matchedCount,
+      missingCents: (expectedCount - matchedCount) * exp.expected_amount_cents,
+    });
+  }
+
+  return unmatched.sort((a, b) => b.missingCents - a.missingCents || a.name.localeCompare(b.name));
+}
+
+/** Envelopes with money left at the end of the month (goals and assets keep theirs) */
+export function leftoverEnvelopes(rows: SnapshotRow[]): SnapshotRow[] {
+  return rows.filter((r) => r.type === "subcategory" && r.available > 0);
+}
+
+/** Why a leftover action can't be used, or null when it can */
+export function checkLeftoverAction(
+  action: LeftoverAction,
+  carryoverMode: CarryoverMode,
+  goalId: string | null | undefined
+): string | null {
+  if (action === "carry_over" && carryoverMode === "none") {
+    return "This budget starts every period fresh. Turn on rollover to carry leftovers over.";
+  }
+  if (action === "sweep_to_goal" && !goalId) {
+    return "Choose a goal to sweep leftovers into";
+  }
+  return null;
+}
+
+/**
+ * Envelopes whose rollover is turned off for the closed month so money
+ * handed back doesn't also roll forward. Not needed when nothing rolls.
+ * `assignments` are the month's category assignments, so each key records
+ * the rollover that reopening the month puts back.
+ */
+export function releasedKeys(
+  leftovers: SnapshotRow[],
+  action: LeftoverAction,
+  carryoverMode: CarryoverMode,
+  assignments: AssignmentRollover[]
+): ReleasedKey[] {
+  if (action === "carry_over" || carryoverMode === "none") return [];
+  const rollover = new Map(
+    assignments.map((a) => [`${a.category_name}::${a.subcategory_name ?? ""}`, a.rollover ?? true])
+  );
+  return leftovers.flatMap((r) => {
+    const [category_name, subcategory_name] = r.key.split("::");
+    if (!category_name || !subcategory_name) return [];
+    return [{ category_name, subcategory_name, previous_rollover: rollover.get(r.key) ?? null }];
+  });
+}
+
+/**
+ * Envelope balances that roll out of the closed month: where its last
+ * period leaves each envelope, less the ones whose leftover was released.
+ * Stored as budget_months.closing_balances so later months' rollover starts
+ * from here instead of replaying the budget's whole history.
+ */
+export function monthClosingBalances(
+  lastPeriod: Pick<BudgetSummary, "rows">,
+  carryoverMode: CarryoverMode,
+  assignments: AssignmentRollover[],
+  released: ReleasedKey[],
+  expenses: ExpenseDefInput[]
+): Record<string, number> {
+  const optedOut = [
+    ...assignments.map((a) => ({ ...a, assignment_type: "category" })),
+    ...released.map((k) => ({ ...k, assignment_type: "category", rollover: false })),
+  ];
+  return Object.fromEntries(
+    calculateClosingBalances(carryoverMode, lastPeriod, optedOut, envelopeTargets(expenses))
+  );
+}
@@ -10,12 +10,15 @@
 // - `calculateBudgetSummary` — main orchestrator that computes income, budgeted,
 //   spent, carryover, TBB, and builds the full row set for the UI.
 // - `getBudgetPeriodRange` / `getNextPeriodDate` / `getPreviousPeriodDate` —
-//   period boundary calculations (month-aligned weeks and fortnights).
+//   period boundary calculations (month-aligned weeks and fortnights, or
+//   periods anchored to a pay cycle).
 // - `calculateIncome` / `calculateBudgeted` / `calculateSpent` — individual
 //   aggregation functions, also usable standalone.
 // - `countOccurrencesInPeriod` — anchor-based recurrence projection.
 // - `convertToTargetPeriod` — frequency normalisation (weekly <-> monthly etc).
-// - `calculateCarryover` — previous-period surplus calculation.
+// - `calculateCarryover` / `calculateClosingBalances` /
+//   `calculateRolloverIntoPeriod` — per-envelope rollover of unspent (or
+//   overspent) amounts from one period to the next.
 // - `resolveSplitPercentage` — partner split resolution for shared budgets.
 
 // ─── Timezone-Aware Date Helpers ─────────────────────────────────────────────
@@ -111,8 +114,37 @@ export function midnightInTimezone(
 
 // ─── Core Enums / Type Aliases ───────────────────────────────────────────────
 
-export type PeriodType = "weekly" | "fortnightly" | "monthly";
-export type CarryoverMode = "none";
+export type PeriodType = "weekly" | "fortnightly" | "four-weekly" | "monthly";
+
+export const PERIOD_TYPES: readonly PeriodType[] = [
+  "weekly",
+  "fortnightly",
+  "four-weekly",
+  "monthly",
+];
+/**
+ * How an envelope's leftover balance moves into the next period.
+ *
+ * - "none": every period starts fresh.
+ * - "rollover-unspent": unspent money carries forward; overspending is
+ *   absorbed and the envelope restarts at zero.
+ * - "rollover-with-debt": both unspent money and overspending carry forward,
+ *   so an overspent envelope starts the next period in the red.
+ * - "rollover-capped": like "rollover-unspent", but the balance can never
+ *   grow beyond the envelope's target (see `calculateCarryover`).
+ */
+export type CarryoverMode =
+  | "none"
+  | "rollover-unspent"
+  | "rollover-with-debt"
+  | "rollover-capped";
+
+export const CARRYOVER_MODES: readonly CarryoverMode[] = [
+  "none",
+  "rollover-unspent",
+  "rollover-with-debt",
+  "rollover-capped",
+];
 export type BudgetView = "individual" | "shared";
 export type SplitType =
   | "equal"
@@ -147,6 +179,8 @@ export interface AssignmentInput {
   assignment_type: string;
   goal_id?: string | null;
   asset_id?: string | null;
+  /** budget_assignments.rollover — false stops this envelope carrying its balance forward. */
+  rollover?: boolean | null;
 }
 
 export interface ExpenseDefInput {
@@ -165,6 +199,16 @@ export interface SplitSettingInput {
   owner_percentage?: number;
 }
 
+export interface TransactionSplitInput {
+  amount_cents: number;
+  category_id: string | null;
+  /**
+   * true = shared (category split applies, 50/50 if none is configured),
+   * false = individual (counted in full), null = same as the parent transaction.
+   */
+  is_shared?: boolean | null;
+}
+
 export interface TransactionInput {
   id: string;
   amount_cents: number;
@@ -173,6 +217,8 @@ export interface TransactionInput {
   is_income?: boolean;
   split_override_percentage?: number | null;
   matched_expense_id?: string | null;
+  /** Line items replacing the transaction's single category when present */
+  splits?: TransactionSplitInput[] | null;
 }
 
 export interface CategoryMapping {
@@ -210,6 +256,8 @@ export interface BudgetRow {
   isExpenseDefault: boolean;
   isShared?: boolean;
   sharePercentage?: number;
+  /** Balance rolled in from the previous period (included in `available`). */
+  carryover?: number;
 }
 
 export interface MethodologySection {
@@ -225,6 +273,8 @@ export interface BudgetSummary {
   budgeted: number;
   spent: number;
   carryover: number;
+  /** Sum of all envelope balances rolled in from the previous period. */
+  rollover: number;
   tbb: number;
   rows: BudgetRow[];
   methodologySections?: MethodologySection[];
@@ -258,10 +308,134 @@ export interface BudgetSummaryInput {
   assetContributions?: Map<string, number>;
   /** Subcategory keys ("Parent::Child") from layout config that should always have rows */
   layoutSubcategoryKeys?: string[];
+  /** Row key → envelope balance carried in from the previous period (see `calculateRolloverIntoPeriod`) */
+  rolloverFromPrevious?: Map<string, number>;
+  /** Pay-cycle anchor (YYYY-MM-DD) the periods step from; null = month-aligned */
+  periodAnchor?: string | null;
 }
 
 // ─── Period Range Calculation ────────────────────────────────────────────────
 
+const DAY_MS = 86400000;
+
+/** Length in days of each fixed-length period type when anchored to a pay cycle */
+const PAY_CYCLE_DAYS: Partial<Record<PeriodType, number>> = {
+  weekly: 7,
+  fortnightly: 14,
+  "four-weekly": 28,
+};
+
+/**
+ * Anchor for four-weekly budgets without a pay date. Four-weekly periods
+ * can't be month-aligned, so they step from this Monday instead.
+ */
+export const DEFAULT_FOUR_WEEKLY_ANCHOR = "2024-01-01";
+
+interface CalendarDay {
+  year: number;
+  month: number; // 0-indexed
+  day: number;
+}
+
+/**
+ * Parse the anchor a budget's periods step from, or null when its periods
+ * are month-aligned. A monthly anchor on the 1st is just the calendar month.
+ */
+function resolvePayCycleAnchor(
+  periodType: PeriodType,
+  anchor: string | null | undefined
+): CalendarDay | null {
+  const match = anchor ? /^(\d{4})-(\d{2})-(\d{2})/.exec(anchor) : null;
+  if (!match) {
+    return periodType === "four-weekly"
+      ? resolvePayCycleAnchor(periodType, DEFAULT_FOUR_WEEKLY_ANCHOR)
+      : null;
+  }
+  const day = { year: Number(match[1]), month: Number(match[2]) - 1, day: Number(match[3]) };
+  if (periodType === "monthly" && day.day === 1) return null;
+  return day;
+}
+
+/**
+ * Whether a budget's periods follow a pay cycle rather than the calendar
+ * month. `anchor` is the budget's period_anchor_date.
+ */
+export function isPayCyclePeriod(periodType: PeriodType, anchor?: string | null): boolean {
+  return resolvePayCycleAnchor(periodType, anchor) !== null;
+}
+
+/** The income frequency whose pays start each period of a given type */
+const PAY_FREQUENCY_FOR_PERIOD: Record<PeriodType, string | null> = {
+  weekly: "weekly",
+  fortnightly: "fortnightly",
+  // No income source is paid four-weekly; those budgets take a pay date directly
+  "four-weekly": null,
+  monthly: "monthly",
+};
+
+/**
+ * Whether an income source paid at `frequency` can anchor a budget's
+ * periods. Every pay has to land on a period start, so the cycles must match.
+ */
+export function payFrequencyMatchesPeriod(
+  periodType: PeriodType,
+  frequency: string | null | undefined
+): boolean {
+  return !!frequency && PAY_FREQUENCY_FOR_PERIOD[periodType] === frequency;
+}
+
+/**
+ * The fixed anchor copied into a budget's period_anchor_date when an income
+ * source is linked. The source's next_pay_date moves every payday (and
+ * month-end dates drift as they're advanced), so periods never read it live.
+ */
+export function payCycleAnchorFromSource(
+  paySource: { next_pay_date?: string | null; last_pay_date?: string | null } | null | undefined
+): string | null {
+  return paySource?.next_pay_date ?? paySource?.last_pay_date ?? null;
+}
+
+function toDayNumber(d: CalendarDay): number {
+  return Math.floor(Date.UTC(d.year, d.month, d.day) / DAY_MS);
+}
+
+function fromDayNumber(n: number): CalendarDay {
+  const d = new Date(n * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate() };
+}
+
+/** The anchor's day in the given month, clamped for short months */
+function anchoredDayInMonth(year: number, month: number, anchorDay: number): CalendarDay {
+  const first = new Date(Date.UTC(year, month, 1));
+  const y = first.getUTCFullYear();
+  const m = first.getUTCMonth();
+  const daysInMonth = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return { year: y, month: m, day: Math.min(anchorDay, daysInMonth) };
+}
+
+/**
+ * First day of the pay-cycle period containing `day`, moved `offset`
+ * periods along (-1 = previous period, 1 = next).
+ */
+function payCyclePeriodStart(
+  day: CalendarDay,
+  periodType: PeriodType,
+  anchor: CalendarDay,
+  offset = 0
+): CalendarDay {
+  const length = PAY_CYCLE_DAYS[periodType];
+  if (length) {
+    const anchorNumber = toDayNumber(anchor);
+    const index = Math.floor((toDayNumber(day) - anchorNumber) / length) + offset;
+    return fromDayNumber(anchorNumber + index * length);
+  }
+
+  // Monthly: each period starts on the anchor's day of the month
+  const thisMonth = anchoredDayInMonth(day.year, day.month, anchor.day);
+  const startMonth = day.day >= thisMonth.day ? day.month : day.month - 1;
+  return anchoredDayInMonth(day.year, startMonth + offset, anchor.day);
+}
+
 /**
  * Given a date and period type, returns the start/end dates and a human-readable
  * label for that budget period.
@@ -274,14 +448,21 @@ export interface BudgetSummaryInput {
  * The returned start/end Dates are UTC instants suitable for database queries
  * (e.g. .gte("settled_at", start.toISOString())).
  *
+ * Without an anchor:
  * Weekly periods are month-aligned: 1-7, 8-14, 15-21, 22-end.
  * Fortnightly periods are month-aligned: 1-14, 15-end.
  * Monthly periods span the full calendar month.
+ *
+ * With a pay-cycle `anchor` (YYYY-MM-DD, the budget's period_anchor_date), weekly,
+ * fortnightly and four-weekly periods step from the anchor in 7, 14 or 28
+ * days, and monthly periods run from the anchor's day of the month (e.g. the
+ * 15th to the 14th). Four-weekly periods are always anchored.
  */
 export function getBudgetPeriodRange(
   date: Date,
   periodType: PeriodType,
-  timezone: string = DEFAULT_BUDGET_TIMEZONE
+  timezone: string = DEFAULT_BUDGET_TIMEZONE,
+  anchor: string | null = null
 ): PeriodRange {
   // Extract what date it is in the user's timezone
   const { year, month, day } = getDateComponentsInTimezone(date, timezone);
@@ -290,6 +471,27 @@ export function getBudgetPeriodRange(
   let end: Date;
   let label: string;
 
+  const payCycleAnchor = resolvePayCycleAnchor(periodType, anchor);
+  if (payCycleAnchor) {
+    const first = payCyclePeriodStart({ year, month, day }, periodType, payCycleAnchor);
+    const next = payCyclePeriodStart(first, periodType, payCycleAnchor, 1);
+    const last = fromDayNumber(toDayNumber(next) - 1);
+    start = midnightInTimezone(first.year, first.month, first.day, timezone);
+    end = new Date(midnightInTimezone(next.year, next.month, next.day, timezone).getTime() - 1);
+
+    const formatDay = (d: CalendarDay) =>
+      new Date(Date.UTC(d.year, d.month, d.day)).toLocaleDateString("en-AU", {
+        day: "numeric",
+        month: "short",
+        timeZone: "UTC",
+      });
+    label = periodType === "weekly"
+      ? `Week of ${formatDay(first)}`
+      : `${formatDay(first)} - ${formatDay(last)}`;
+
+    return { start, end, label };
+  }
+
   // Helper: days in month (pure arithmetic, no timezone needed)
   const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
 
@@ -376,6 +578,10 @@ export function convertToTargetPeriod(
     case "fortnightly":
       monthly = amountCents * 2;
       break;
+    // Four weeks is a month under the four-weeks-a-month convention above
+    case "four-weekly":
+      monthly = amountCents;
+      break;
     case "quarterly":
       monthly = amountCents / 3;
       break;
@@ -394,6 +600,8 @@ export function convertToTargetPeriod(
       return Math.round(monthly / 4);
     case "fortnightly":
       return Math.round(monthly / 2);
+    case "four-weekly":
+      return Math.round(monthly);
     case "quarterly":
       return Math.round(monthly * 3);
     case "yearly":
@@ -410,9 +618,10 @@ export function convertToTargetPeriod(
  * Anchor-based algorithm:
  * - Uses `next_due_date` as an anchor point to project occurrence dates onto
  *   a recurrence grid. The anchor does NOT need to fall within the period.
- * - For weekly/fortnightly: steps the anchor backward or forward in fixed
- *   intervals (7d / 14d) to find the first occurrence >= periodStart, then
- *   counts forward until periodEnd.
+ * - For weekly/fortnightly/four-weekly: steps the anchor backward or forward
+ *   in fixed intervals (7d / 14d / 28d) to find the first occurrence >=
+ *   periodStart, then counts forward until periodEnd. Works for any period
+ *   range, including pay-cycle periods that span two months.
  * - For monthly/quarterly/yearly: converts dates to absolute-month integers
  *   and uses modular arithmetic to snap to the recurrence grid, then checks
  *   each candidate date (clamping day-of-month for short months).
@@ -437,8 +646,10 @@ export function countOccurrencesInPeriod(
     return t >= startMs && t <= endMs ? 1 : 0;
   }
 
-  if (recurrenceType === "weekly" || recurrenceType === "fortnightly") {
-    const intervalMs = recurrenceType === "weekly" ? 7 * 86400000 : 14 * 86400000;
+  if (recurrenceType === "weekly" || recurrenceType === "fortnightly" || recurrenceType === "four-weekly") {
+    const intervalMs =
+      recurrenceType === "weekly" ? 7 * DAY_MS :
+      recurrenceType === "fortnightly" ? 14 * DAY_MS : 28 * DAY_MS;
 
     // Step anchor backward/forward to the first occurrence on or after periodStart
     let d = anchor.getTime();
@@ -633,9 +844,10 @@ export function resolveSplitPercentage(
  *
  * - Only negative (expense) transactions are counted; income is ignored.
  * - Transactions with an unknown category_id (no mapping) are skipped.
+ * - Split transactions are counted per line item, each under its own category.
  * - In "individual" view, amounts are adjusted by the user's split percentage.
- * - A per-transaction split_override_percentage takes priority over the
- *   category-level split setting.
+ *   A split line's is_shared flag wins; otherwise a per-transaction
+ *   split_override_percentage takes priority over the category-level setting.
  */
 export function calculateSpent(
   transactions: TransactionInput[],
@@ -654,32 +866,42 @@ export function calculateSpent(
 
   for (const txn of transactions) {
     if (txn.is_income || txn.amount_cents >= 0) continue;
-    if (!txn.category_id) continue;
 
-    const mapping = catLookup.get(txn.category_id);
-    if (!mapping) continue;
+    const lines: TransactionSplitInput[] = txn.splits?.length
+      ? txn.splits
+      : [{ amount_cents: txn.amount_cents, category_id: txn.category_id }];
 
-    let amount = Math.abs(txn.amount_cents);
+    for (const line of lines) {
+      if (line.amount_cents >= 0 || !line.category_id) continue;
 
-    if (budgetView === "individual") {
-      if (txn.split_override_percentage != null) {
-        amount = Math.round(amount * txn.split_override_percentage / 100);
-      } else {
-        // Try expense-level split first (by matched_expense_id), then category-level
-        const split =
-          (txn.matched_expense_id
-            ? splitSettings.find((s) => s.expense_definition_id === txn.matched_expense_id)
-            : undefined) ??
-          splitSettings.find((s) => s.category_name === mapping.parent);
-        if (split) {
-          const pct = resolveSplitPercentage(split, userId, ownerUserId);
+      const mapping = catLookup.get(line.category_id);
+      if (!mapping) continue;
+
+      let amount = Math.abs(line.amount_cents);
+
+      if (budgetView === "individual" && line.is_shared !== false) {
+        const categorySplit = splitSettings.find((s) => s.category_name === mapping.parent);
+        if (line.is_shared === true) {
+          const pct = resolveSplitPercentage(categorySplit ?? { split_type: "equal" }, userId, ownerUserId);
           amount = Math.round(amount * pct / 100);
+        } else if (txn.split_override_percentage != null) {
+          amount = Math.round(amount * txn.split_override_percentage / 100);
+        } else {
+          // Try expense-level split first (by matched_expense_id), then category-level
+          const split =
+            (txn.matched_expense_id
+              ? splitSettings.find((s) => s.expense_definition_id === txn.matched_expense_id)
+              : undefined) ?? categorySplit;
+          if (split) {
+            const pct = resolveSplitPercentage(split, userId, ownerUserId);
+            amount = Math.round(amount * pct / 100);
+          }
         }
       }
-    }
 
-    const key = `${mapping.parent}::${mapping.child}`;
-    spentMap.set(key, (spentMap.get(key) ?? 0) + amount);
+      const key = `${mapping.parent}::${mapping.child}`;
+      spentMap.set(key, (spentMap.get(key) ?? 0) + amount);
+    }
   }
 
   return spentMap;
@@ -767,7 +989,7 @@ export function calculateBudgetSummary(input: BudgetSummaryInput): BudgetSummary
 
   // 7. Build rows
   //
-  // Row-building pipeline — an 8-layer waterfall where each layer only creates
+  // Row-building pipeline — a 9-layer waterfall where each layer only creates
   // rows for keys not already claimed by a previous layer:
   //
   //   1. Assignment rows (subcategories) — manual amounts (assigned_cents > 0),
@@ -782,11 +1004,14 @@ export function calculateBudgetSummary(input: BudgetSummaryInput): BudgetSummary
   //      but no assignment at all.
   //   7. Unplanned spending rows — transactions in subcategories with no
   //      assignment or expense default (budgeted=0, spent > 0).
-  //   8. Layout placeholder rows — subcategories referenced in layout config
+  //   8. Rollover rows — envelopes with a balance carried in from the previous
+  //      period but no assignment or spending this period.
+  //   9. Layout placeholder rows — subcategories referenced in layout config
   //      but with no data at all (all zeros, ensures UI slots are filled).
   //
   // Layers 1-3 are processed together in the assignment loop.
-  // Layers 4-8 each have their own loop, guarded by `rowMap.has(key)`.
+  // Layers 4-9 each have their own loop, guarded by `rowMap.has(key)`.
+  // Once every row exists, rolled-in balances are added to `available`.
   const rowMap = new Map<string, BudgetRow>();
 
   // Track which subcategories have a positive manual assignment
@@ -991,6 +1216,25 @@ export function calculateBudgetSummary(input: BudgetSummaryInput): BudgetSummary
     });
   }
 
+  // Add rows for envelopes that only have a rolled-in balance this period
+  const rolloverFromPrevious = input.rolloverFromPrevious ?? new Map<string, number>();
+  for (const [key, balance] of rolloverFromPrevious) {
+    if (rowMap.has(key) || balance === 0) continue;
+    if (key.startsWith("goal::") || key.startsWith("asset::")) continue;
+    const [parent, child] = key.split("::");
+    if (!parent || !child) continue;
+    rowMap.set(key, {
+      id: key,
+      type: "subcategory",
+      name: child,
+      parentCategory: parent,
+      budgeted: 0,
+      spent: 0,
+      available: 0,
+      isExpenseDefault: false,
+    });
+  }
+
   // Add default rows for layout-referenced subcategories not yet in rowMap
   if (input.layoutSubcategoryKeys) {
     for (const key of input.layoutSubcategoryKeys) {
@@ -1011,6 +1255,18 @@ export function calculateBudgetSummary(input: BudgetSummaryInput): BudgetSummary
     }
   }
 
+  // Apply rolled-in balances. Only subcategory envelopes roll over — goal and
+  // asset rows already accumulate in the goal/holding balance itself.
+  let rollover = 0;
+  for (const row of rowMap.values()) {
+    if (row.type !== "subcategory") continue;
+    const balance = rolloverFromPrevious.get(row.id) ?? 0;
+    if (balance === 0) continue;
+    row.carryover = balance;
+    row.available += balance;
+    rollover += balance;
+  }
+
   const rows = Array.from(rowMap.values());
 
   // Build methodology sections if applicable
@@ -1045,6 +1301,7 @@ export function calculateBudgetSummary(input: BudgetSummaryInput): BudgetSummary
     budgeted,
     spent,
     carryover,
+    rollover,
     tbb,
     rows,
     methodologySections,
@@ -1053,20 +1310,140 @@ export function calculateBudgetSummary(input: BudgetSummaryInput): BudgetSummary
 
 // ─── Carryover Calculation ─────────────────────────────────────────────────
 
+/**
+ * Normalise a stored `user_budgets.carryover_mode` value. Unknown values
+ * (including the legacy 'spending-based' default) fall back to "none".
+ */
+export function normalizeCarryoverMode(value: string | null | undefined): CarryoverMode {
+  return CARRYOVER_MODES.includes(value as CarryoverMode)
+    ? (value as CarryoverMode)
+    : "none";
+}
+
 export interface CarryoverInput {
   mode: CarryoverMode;
-  prevIncome: number;
-  prevCarryover: number;
-  prevBudgeted: number;
-  prevSpent: number;
+  /** Amount assigned to the envelope in the closing period */
+  budgeted: number;
+  /** Amount spent from the envelope in the closing period */
+  spent: number;
+  /** Balance that was rolled INTO the closing period */
+  carriedIn: number;
+  /**
+   * Upper bound for "rollover-capped". Falls back to the closing period's
+   * budgeted amount when not provided.
+   */
+  target?: number;
 }
 
 /**
- * Calculate the carryover amount from the previous period into the current one.
- * Always returns 0 — every period starts fresh with no carryover.
+ * Calculate how much of an envelope's closing balance carries into the next
+ * period. The closing balance is `budgeted + carriedIn - spent`.
+ *
+ * - "none": always 0.
+ * - "rollover-unspent": the balance if positive, otherwise 0.
+ * - "rollover-with-debt": the balance as-is (negative = overspend debt).
+ * - "rollover-capped": the positive balance, capped at `target`.
  */
-export function calculateCarryover(_input: CarryoverInput): number {
-  return 0;
+export function calculateCarryover(input: CarryoverInput): number {
+  const balance = input.budgeted + input.carriedIn - input.spent;
+
+  switch (input.mode) {
+    case "rollover-unspent":
+      return Math.max(0, balance);
+    case "rollover-with-debt":
+      return balance;
+    case "rollover-capped": {
+      const cap = Math.max(0, input.target ?? input.budgeted);
+      return Math.min(Math.max(0, balance), cap);
+    }
+    case "none":
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Caps for "rollover-capped": row key → the largest bill an envelope's
+ * expected expenses are saving towards (e.g. car rego).
+ */
+export function envelopeTargets(expenses: ExpenseDefInput[]): Map<string, number> {
+  const targets = new Map<string, number>();
+  for (const exp of expenses) {
+    if (!exp.inferred_subcategory) continue;
+    const key = `${exp.category_name}::${exp.inferred_subcategory}`;
+    targets.set(key, Math.max(targets.get(key) ?? 0, exp.expected_amount_cents));
+  }
+  return targets;
+}
+
+/**
+ * The envelope balances that roll out of a period, given its summary (whose
+ * rows carry what rolled in) and the period's assignments.
+ *
+ * - Assignments with `rollover: false` reset their envelope to 0.
+ * - `targets` maps row key → cap for "rollover-capped"; rows without one are
+ *   capped at the period's budgeted amount.
+ */
+export function calculateClosingBalances(
+  mode: CarryoverMode,
+  summary: Pick<BudgetSummary, "rows">,
+  assignments: Pick<AssignmentInput, "category_name" | "subcategory_name" | "assignment_type" | "rollover">[],
+  targets?: Map<string, number>
+): Map<string, number> {
+  const balances = new Map<string, number>();
+  if (mode === "none") return balances;
+
+  const noRollover = new Set<string>();
+  for (const a of assignments) {
+    if (a.rollover === false && a.assignment_type === "category" && a.subcategory_name) {
+      noRollover.add(`${a.category_name}::${a.subcategory_name}`);
+    }
+  }
+
+  for (const row of summary.rows) {
+    if (row.type !== "subcategory" || noRollover.has(row.id)) continue;
+    const balance = calculateCarryover({
+      mode,
+      budgeted: row.budgeted,
+      spent: row.spent,
+      carriedIn: row.carryover ?? 0,
+      target: targets?.get(row.id),
+    });
+    if (balance !== 0) balances.set(row.id, balance);
+  }
+  return balances;
+}
+
+/**
+ * Fold a sequence of previous periods (oldest first) into the envelope
+ * balances that roll into the period immediately after the last one.
+ *
+ * Each entry is a full `BudgetSummaryInput` for that past period; the engine
+ * re-runs `calculateBudgetSummary` for it with the balances rolled in so far,
+ * then takes its `calculateClosingBalances`. `opening` is what rolled into
+ * the first of them, e.g. balances stored when an earlier month was closed.
+ *
+ * Returns Map<row key, balance> suitable for `rolloverFromPrevious`.
+ */
+export function calculateRolloverIntoPeriod(
+  mode: CarryoverMode,
+  history: BudgetSummaryInput[],
+  targets?: Map<string, number>,
+  opening?: Map<string, number>
+): Map<string, number> {
+  let carry = new Map<string, number>();
+  if (mode === "none") return carry;
+  if (opening) carry = new Map(opening);
+
+  for (const periodInput of history) {
+    const summary = calculateBudgetSummary({
+      ...periodInput,
+      rolloverFromPrevious: carry,
+    });
+    carry = calculateClosingBalances(mode, summary, periodInput.assignments, targets);
+  }
+
+  return carry;
 }
 
 // ─── Period Navigation ──────────────────────────────────────────────────────
@@ -1078,14 +1455,23 @@ export function calculateCarryover(_input: CarryoverInput): number {
  * Weekly periods are month-aligned: 1-7, 8-14, 15-21, 22-end.
  * Fortnightly periods are month-aligned: 1-14, 15-end.
  * Monthly periods advance to the 1st of the next month.
+ * With a pay-cycle `anchor`, periods advance along the pay cycle instead
+ * (see `getBudgetPeriodRange`).
  */
 export function getNextPeriodDate(
   date: Date,
   periodType: PeriodType,
-  timezone: string = DEFAULT_BUDGET_TIMEZONE
+  timezone: string = DEFAULT_BUDGET_TIMEZONE,
+  anchor: string | null = null
 ): Date {
   const { year, month, day } = getDateComponentsInTimezone(date, timezone);
 
+  const payCycleAnchor = resolvePayCycleAnchor(periodType, anchor);
+  if (payCycleAnchor) {
+    const next = payCyclePeriodStart({ year, month, day }, periodType, payCycleAnchor, 1);
+    return midnightInTimezone(next.year, next.month, next.day, timezone);
+  }
+
   if (periodType === "monthly") {
     return midnightInTimezone(year, month + 1, 1, timezone);
   }
@@ -1109,14 +1495,22 @@ export function getNextPeriodDate(
  * Weekly periods are month-aligned: 1-7, 8-14, 15-21, 22-end.
  * Fortnightly periods are month-aligned: 1-14, 15-end.
  * Monthly periods go back to the 1st of the previous month.
+ * With a pay-cycle `anchor`, periods go back along the pay cycle instead.
  */
 export function getPreviousPeriodDate(
   date: Date,
   periodType: PeriodType,
-  timezone: string = DEFAULT_BUDGET_TIMEZONE
+  timezone: string = DEFAULT_BUDGET_TIMEZONE,
+  anchor: string | null = null
 ): Date {
   const { year, month, day } = getDateComponentsInTimezone(date, timezone);
 
+  const payCycleAnchor = resolvePayCycleAnchor(periodType, anchor);
+  if (payCycleAnchor) {
+    const previous = payCyclePeriodStart({ year, month, day }, periodType, payCycleAnchor, -1);
+    return midnightInTimezone(previous.year, previous.month, previous.day, timezone);
+  }
+
   if (periodType === "monthly") {
     return midnightInTimezone(year, month - 1, 1, timezone);
   }
@@ -1140,6 +1534,9 @@ export function getPreviousPeriodDate(
  * When a timezone is provided, the month is determined by the date in that
  * timezone — not the UTC date. This ensures the month key matches the period
  * boundaries computed by getBudgetPeriodRange.
+ *
+ * Pass the period's start: pay-cycle periods can span two months and belong
+ * to the month they start in.
  */
 export function getMonthKeyForPeriod(
   date: Date,
@@ -1149,3 +1546,31 @@ export function getMonthKeyForPeriod(
   const m = String(month + 1).padStart(2, "0");
   return `${year}-${m}-01`;
 }
+
+/**
+ * Every budget period that starts in the given month (0-indexed), oldest
+ * first. These periods share the month's assignments (see
+ * getMonthKeyForPeriod).
+ */
+export function getPeriodsStartingInMonth(
+  year: number,
+  month: number,
+  periodType: PeriodType,
+  timezone: string = DEFAULT_BUDGET_TIMEZONE,
+  anchor: string | null = null
+): PeriodRange[] {
+  let cursor = midnightInTimezone(year, month, 1, timezone);
+  const monthKey = getMonthKeyForPeriod(cursor, timezone);
+  const ranges: PeriodRange[] = [];
+
+  // At most five weekly periods start in a month, plus one that started the
+  // month before
+  for (let i = 0; i < 7; i++) {
+    const range = getBudgetPeriodRange(cursor, periodType, timezone, anchor);
+    const key = getMonthKeyForPeriod(range.start, timezone);
+    if (key > monthKey) break;
+    if (key === monthKey) ranges.push(range);
+    cursor = getNextPeriodDate(cursor, periodType, timezone, anchor);
+  }
+  return ranges;
+}
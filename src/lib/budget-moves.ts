@@ -0,0 +1,195 @@
+/**
+ * Budget moves — moving assigned money between envelopes within a period.
+ *
+ * A move takes an amount off one envelope's assignment and adds it to
+ * another's, YNAB-style. Either side can be "unassigned" (To Be Budgeted):
+ * moving from it is assigning more, moving to it is handing money back.
+ * Envelopes are identified by the engine's row keys ("Parent::Child",
+ * "goal::uuid", "asset::uuid"); `null` stands for unassigned.
+ *
+ * Moves start from the assigned amount the budget showed, not the stored
+ * assignment, so envelopes still on an expense default move correctly.
+ * `move_budget_assignment()` refuses the move if the stored assignment has
+ * changed underneath it.
+ */
+
+import type { BudgetRow } from "@/lib/budget-engine";
+
+/** Most suggestions offered for covering one overspent envelope */
+export const MAX_COVER_SUGGESTIONS = 5;
+
+export type MoveTarget =
+  | { assignment_type: "category"; category_name: string; subcategory_name: string }
+  | { assignment_type: "goal"; goal_id: string }
+  | { assignment_type: "asset"; asset_id: string };
+
+/** The parts of an engine row a move needs */
+export type MoveRow = Pick<BudgetRow, "id" | "type" | "name" | "budgeted" | "available" | "isExpenseDefault">;
+
+/** One side of a move as sent to `move_budget_assignment()` */
+export interface MoveSide {
+  key: string;
+  label: string;
+  assignment_type: MoveTarget["assignment_type"];
+  category_name: string | null;
+  subcategory_name: string | null;
+  goal_id: string | null;
+  asset_id: string | null;
+  /** Assigned amount the budget showed before the move */
+  shown_cents: number;
+}
+
+/** A row from budget_moves */
+export interface BudgetMove {
+  id: string;
+  month: string;
+  /** Row key, or null for unassigned */
+  from_key: string | null;
+  from_label: string | null;
+  to_key: string | null;
+  to_label: string | null;
+  amount_cents: number;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CoverSuggestion {
+  /** Row to take the money from, or null for unassigned */
+  from: MoveRow | null;
+  label: string;
+  /** How much the source can give */
+  spareCents: number;
+  /** How much this suggestion moves */
+  amountCents: number;
+  /** Whether it clears the whole overspend */
+  coversAll: boolean;
+}
+
+export const UNASSIGNED_LABEL = "To Be Budgeted";
+
+/** Parse an engine row key into the assignment it refers to */
+export function targetFromRowKey(key: string): MoveTarget | null {
+  if (key.startsWith("goal::")) {
+    const goalId = key.slice("goal::".length);
+    return goalId ? { assignment_type: "goal", goal_id: goalId } : null;
+  }
+  if (key.startsWith("asset::")) {
+    const assetId = key.slice("asset::".length);
+    return assetId ? { assignment_type: "asset", asset_id: assetId } : null;
+  }
+  const [parent, child, ...rest] = key.split("::");
+  if (!parent || !child || rest.length > 0) return null;
+  return { assignment_type: "category", category_name: parent, subcategory_name: child };
+}
+
+/** Assigned money this period that hasn't been spent (never negative) */
+export function spareCents(row: Pick<MoveRow, "budgeted" | "available">): number {
+  return Math.max(0, Math.min(row.budgeted, row.available));
+}
+
+/**
+ * Check a move and work out the assigned amounts it leaves on each side.
+ * Returns an error message when the move isn't allowed.
+ */
+export function planMove(
+  from: MoveRow | null,
+  to: MoveRow | null,
+  amountCents: number
+): { fromBudgetedCents: number | null; toBudgetedCents: number | null } | { error: string } {
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    return { error: "Amount must be more than zero" };
+  }
+  if (!from && !to) {
+    return { error: "Choose where to move money from or to" };
+  }
+  if (from && to && from.id === to.id) {
+    return { error: "Choose two different envelopes" };
+  }
+  if (from && amountCents > from.budgeted) {
+    return { error: `Only ${formatCents(from.budgeted)} is assigned to ${from.name}` };
+  }
+  // A zero assignment means "use the expense default", so an expense
+  // default can't be emptied by a move
+  if (from && from.isExpenseDefault && amountCents === from.budgeted) {
+    return { error: `Leave something in ${from.name} — it would go back to its expected amount` };
+  }
+
+  return {
+    fromBudgetedCents: from ? from.budgeted - amountCents : null,
+    toBudgetedCents: to ? to.budgeted + amountCents : null,
+  };
+}
+
+/** Build one side of a move for `move_budget_assignment()` */
+export function toMoveSide(row: MoveRow): MoveSide | null {
+  const target = targetFromRowKey(row.id);
+  if (!target) return null;
+  return {
+    key: row.id,
+    label: row.name,
+    assignment_type: target.assignment_type,
+    category_name: target.assignment_type === "category" ? target.category_name : null,
+    subcategory_name: target.assignment_type === "category" ? target.subcategory_name : null,
+    goal_id: target.assignment_type === "goal" ? target.goal_id : null,
+    asset_id: target.assignment_type === "asset" ? target.asset_id : null,
+    shown_cents: row.budgeted,
+  };
+}
+
+/**
+ * Ways to cover an overspent envelope, best first. Sources are unassigned
+ * money and other envelopes with spare assigned money, ranked by how much
+ * they can give; each suggestion moves as much of the overspend as the
+ * source allows. Goal and asset envelopes are only used once nothing else
+ * has spare money.
+ */
+export function coverSuggestions(
+  rows: MoveRow[],
+  overspentKey: string,
+  toBeBudgetedCents: number,
+  limit: number = MAX_COVER_SUGGESTIONS
+): CoverSuggestion[] {
+  const target = rows.find((r) => r.id === overspentKey);
+  if (!target || target.available >= 0) return [];
+  const needed = -target.available;
+
+  const candidates: CoverSuggestion[] = [];
+  if (toBeBudgetedCents > 0) {
+    const amountCents = Math.min(needed, toBeBudgetedCents);
+    candidates.push({
+      from: null,
+      label: UNASSIGNED_LABEL,
+      spareCents: toBeBudgetedCents,
+      amountCents,
+      coversAll: amountCents === needed,
+    });
+  }
+  for (const row of rows) {
+    if (row.id === overspentKey) continue;
+    const spare = spareCents(row);
+    if (spare <= 0) continue;
+    const amountCents = Math.min(needed, spare);
+    if (!("fromBudgetedCents" in planMove(row, target, amountCents))) continue;
+    candidates.push({
+      from: row,
+      label: row.name,
+      spareCents: spare,
+      amountCents,
+      coversAll: amountCents === needed,
+    });
+  }
+
+  const isSavings = (s: CoverSuggestion) => s.from?.type === "goal" || s.from?.type === "asset";
+  return candidates
+    .sort((a, b) =>
+      Number(isSavings(a)) - Number(isSavings(b)) ||
+      b.spareCents - a.spareCents ||
+      a.label.localeCompare(b.label)
+    )
+    .slice(0, limit);
+}
+
+function formatCents(cents: number): string {
+  return new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(cents / 100);
+}
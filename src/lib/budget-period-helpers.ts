@@ -8,6 +8,8 @@
  * - Fortnightly periods are month-aligned (1-14, 15-end)
  * - This is intentionally different from expense-period-utils.ts, which uses
  *   local time with Monday-based ISO weeks
+ * - Pay-cycle periods (and four-weekly ones) aren't handled here; use
+ *   getBudgetPeriodRange from budget-engine.ts with the budget's anchor
  *
  * WHY: Budget periods need boundaries that match the user's wall-clock midnight,
  * not UTC midnight. An Australian user (UTC+10/11) would otherwise see budget
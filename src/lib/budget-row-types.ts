@@ -113,6 +113,7 @@ export interface SubcategoryBudgetRow extends BaseBudgetRow {
   parentCategory: string; // Name of parent category
   expenseBudgetedCents?: number; // Amount budgeted from recurring expenses
   isExpenseDefault?: boolean; // Auto-filled from recurring expenses
+  carryover?: number; // Balance rolled in from previous periods (negative = debt)
 }
 
 /**
@@ -0,0 +1,366 @@
+/**
+ * Cashflow calendar: lays upcoming pay days, bills and goal/investment
+ * contributions out day by day and projects each account's running balance.
+ *
+ * Pure functions — the calendar page loads rows and passes them in. Dates
+ * are "YYYY-MM-DD" strings throughout so projections don't drift with the
+ * server's timezone.
+ *
+ * Nothing in the data says which account a pay lands in or a bill comes out
+ * of, so money is routed by owner: pay and bills go through the owner's
+ * everyday (TRANSACTIONAL) account, and goal contributions move from there
+ * into the goal's linked saver when it has one.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CashflowEventKind = "income" | "bill" | "goal" | "investment";
+
+export interface CalendarAccount {
+  id: string;
+  display_name: string;
+  account_type: string;
+  balance_cents: number;
+  user_id: string;
+}
+
+export interface CalendarIncomeSource {
+  id: string;
+  name: string;
+  amount_cents: number;
+  frequency: string | null;
+  next_pay_date: string | null;
+  user_id: string;
+}
+
+export interface CalendarExpense {
+  id: string;
+  name: string;
+  emoji?: string | null;
+  expected_amount_cents: number;
+  recurrence_type: string;
+  next_due_date: string;
+  created_by: string | null;
+}
+
+export interface CalendarContribution {
+  /** goal_id or asset_id */
+  id: string;
+  kind: "goal" | "investment";
+  name: string;
+  amount_cents: number;
+  /** budget_assignments.month — first day of the month it was assigned in */
+  month: string;
+  /** Saver account the goal is linked to, if any */
+  linked_account_id?: string | null;
+}
+
+export interface CashflowEvent {
+  id: string;
+  date: string;
+  kind: CashflowEventKind;
+  name: string;
+  emoji?: string | null;
+  /** Positive for money in, negative for money out of `account_id` */
+  amount_cents: number;
+  account_id: string | null;
+  /** Where a goal contribution lands (internal transfer) */
+  to_account_id?: string | null;
+}
+
+export interface CashflowDay {
+  date: string;
+  events: CashflowEvent[];
+  /** Closing balance per account id after the day's events */
+  balances: Record<string, number>;
+  totalCents: number;
+  negativeAccountIds: string[];
+}
+
+export interface CashflowCalendar {
+  startDate: string;
+  endDate: string;
+  accounts: CalendarAccount[];
+  days: CashflowDay[];
+  /** Lowest closing balance reached by each account, with the date */
+  lowPoints: Record<string, { date: string; balanceCents: number }>;
+  negativeDayCount: number;
+}
+
+/** Safety cap on repeats generated for a single schedule */
+const MAX_OCCURRENCES = 400;
+
+// ============================================================================
+// Date helpers
+// ============================================================================
+
+function toUtcDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function fromUtcDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function addDays(date: string, days: number): string {
+  const d = toUtcDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return fromUtcDate(d);
+}
+
+/** Add months keeping the anchor day, clamped to the month's last day (31st -> 30th). */
+export function addMonthsClamped(date: string, months: number): string {
+  const d = toUtcDate(date);
+  const day = d.getUTCDate();
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return fromUtcDate(target);
+}
+
+/**
+ * The nth repeat of a schedule from its anchor date, or null for frequencies
+ * that don't repeat. Always computed from the anchor so monthly dates don't
+ * drift after a short month.
+ */
+export function nthOccurrence(
+  anchor: string,
+  frequency: string | null,
+  n: number
+): string | null {
+  if (n === 0) return anchor;
+  switch (frequency) {
+    case "weekly":
+      return addDays(anchor, 7 * n);
+    case "fortnightly":
+      return addDays(anchor, 14 * n);
+    case "monthly":
+      return addMonthsClamped(anchor, n);
+    case "bi-monthly":
+      return addMonthsClamped(anchor, 2 * n);
+    case "quarterly":
+      return addMonthsClamped(anchor, 3 * n);
+    case "yearly":
+      return addMonthsClamped(anchor, 12 * n);
+    default:
+      return null;
+  }
+}
+
+/** All occurrences of a schedule that fall within [from, to]. */
+export function occurrencesBetween(
+  anchor: string,
+  frequency: string | null,
+  from: string,
+  to: string
+): string[] {
+  const dates: string[] = [];
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const date = nthOccurrence(anchor, frequency, n);
+    if (date === null || date > to) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+// ============================================================================
+// Account routing
+// ============================================================================
+
+/**
+ * The everyday account money for a given user moves through: their own
+ * TRANSACTIONAL account, else any TRANSACTIONAL account, else the first one.
+ */
+export function everydayAccountFor(
+  accounts: CalendarAccount[],
+  userId: string | null
+): string | null {
+  const transactional = accounts.filter((a) => a.account_type === "TRANSACTIONAL");
+  return (
+    transactional.find((a) => a.user_id === userId)?.id ??
+    transactional[0]?.id ??
+    accounts[0]?.id ??
+    null
+  );
+}
+
+// ============================================================================
+// Event projection
+// ============================================================================
+
+export function projectIncomeEvents(
+  sources: CalendarIncomeSource[],
+  accounts: CalendarAccount[],
+  from: string,
+  to: string
+): CashflowEvent[] {
+  return sources.flatMap((source) => {
+    if (!source.next_pay_date || source.amount_cents <= 0) return [];
+    const accountId = everydayAccountFor(accounts, source.user_id);
+    return occurrencesBetween(source.next_pay_date, source.frequency, from, to).map(
+      (date) => ({
+        id: `income:${source.id}:${date}`,
+        date,
+        kind: "income" as const,
+        name: source.name,
+        amount_cents: source.amount_cents,
+        account_id: accountId,
+      })
+    );
+  });
+}
+
+/**
+ * Bills due in the window. An overdue bill (next_due_date before `from`)
+ * hasn't been matched to a payment yet, so it lands on the first day.
+ */
+export function projectBillEvents(
+  expenses: CalendarExpense[],
+  accounts: CalendarAccount[],
+  from: string,
+  to: string
+): CashflowEvent[] {
+  return expenses.flatMap((expense) => {
+    if (expense.expected_amount_cents <= 0) return [];
+    const accountId = everydayAccountFor(accounts, expense.created_by);
+    const frequency = expense.recurrence_type === "one-time" ? null : expense.recurrence_type;
+    const dates =
+      expense.next_due_date < from
+        ? [from, ...occurrencesBetween(expense.next_due_date, frequency, addDays(from, 1), to)]
+        : occurrencesBetween(expense.next_due_date, frequency, from, to);
+
+    return dates.map((date) => ({
+      id: `bill:${expense.id}:${date}`,
+      date,
+      kind: "bill" as const,
+      name: expense.name,
+      emoji: expense.emoji,
+      amount_cents: -expense.expected_amount_cents,
+      account_id: accountId,
+    }));
+  });
+}
+
+/**
+ * Goal and investment contributions assigned in the budget. Each is placed
+ * on the first upcoming pay day in its month (money goes out once it has
+ * come in), or on the first of the month when no pay lands in it.
+ * Contributions that would fall before `from` are treated as already made.
+ */
+export function projectContributionEvents(
+  contributions: CalendarContribution[],
+  payDates: string[],
+  accounts: CalendarAccount[],
+  defaultUserId: string | null,
+  from: string,
+  to: string
+): CashflowEvent[] {
+  const sortedPayDates = [...payDates].sort();
+  const fromAccount = everydayAccountFor(accounts, defaultUserId);
+
+  return contributions.flatMap((c) => {
+    if (c.amount_cents <= 0) return [];
+    const monthEnd = addMonthsClamped(c.month, 1);
+    const payDay = sortedPayDates.find((d) => d >= c.month && d < monthEnd && d >= from);
+    const date = payDay ?? c.month;
+    if (date < from || date > to) return [];
+
+    const toAccount =
+      c.linked_account_id && accounts.some((a) => a.id === c.linked_account_id)
+        ? c.linked_account_id
+        : null;
+
+    return [
+      {
+        id: `${c.kind}:${c.id}:${c.month}`,
+        date,
+        kind: c.kind,
+        name: c.name,
+        amount_cents: -c.amount_cents,
+        account_id: fromAccount,
+        to_account_id: toAccount,
+      },
+    ];
+  });
+}
+
+// ============================================================================
+// Calendar
+// ============================================================================
+
+const KIND_ORDER: Record<CashflowEventKind, number> = {
+  income: 0,
+  bill: 1,
+  goal: 2,
+  investment: 3,
+};
+
+/**
+ * Walk every day from `startDate` to `endDate`, applying events to running
+ * per-account balances. Income is applied before outgoings on the same day.
+ */
+export function buildCashflowCalendar(
+  accounts: CalendarAccount[],
+  events: CashflowEvent[],
+  startDate: string,
+  endDate: string
+): CashflowCalendar {
+  const balances: Record<string, number> = {};
+  for (const account of accounts) balances[account.id] = account.balance_cents;
+
+  const byDate = new Map<string, CashflowEvent[]>();
+  for (const event of events) {
+    if (event.date < startDate || event.date > endDate) continue;
+    const list = byDate.get(event.date) ?? [];
+    list.push(event);
+    byDate.set(event.date, list);
+  }
+
+  const lowPoints: CashflowCalendar["lowPoints"] = {};
+  for (const account of accounts) {
+    lowPoints[account.id] = { date: startDate, balanceCents: account.balance_cents };
+  }
+
+  const days: CashflowDay[] = [];
+  let negativeDayCount = 0;
+
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const dayEvents = (byDate.get(date) ?? []).sort(
+      (a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.name.localeCompare(b.name)
+    );
+
+    for (const event of dayEvents) {
+      if (event.account_id && event.account_id in balances) {
+        balances[event.account_id] += event.amount_cents;
+      }
+      if (event.to_account_id && event.to_account_id in balances) {
+        balances[event.to_account_id] -= event.amount_cents;
+      }
+    }
+
+    const negativeAccountIds = accounts
+      .filter((a) => balances[a.id] < 0)
+      .map((a) => a.id);
+    if (negativeAccountIds.length > 0) negativeDayCount++;
+
+    for (const account of accounts) {
+      if (balances[account.id] < lowPoints[account.id].balanceCents) {
+        lowPoints[account.id] = { date, balanceCents: balances[account.id] };
+      }
+    }
+
+    days.push({
+      date,
+      events: dayEvents,
+      balances: { ...balances },
+      totalCents: Object.values(balances).reduce((sum, b) => sum + b, 0),
+      negativeAccountIds,
+    });
+  }
+
+  return { startDate, endDate, accounts, days, lowPoints, negativeDayCount };
+}
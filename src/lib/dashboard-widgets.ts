@@ -0,0 +1,568 @@
+// ============================================================================
+// Dashboard Widgets
+// Pure functions for the customisable home dashboard: the widget catalogue,
+// time periods, grid layout and the data each widget shows. Widget settings
+// are stored per user in user_dashboard_charts. No database access — all
+// data passed in as arguments.
+// ============================================================================
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DASHBOARD_WIDGET_TYPES = [
+  "category-trend",
+  "merchant-top",
+  "budget-burndown",
+  "net-worth",
+  "goal-progress",
+  "upcoming-bills",
+] as const;
+
+export type DashboardWidgetType = (typeof DASHBOARD_WIDGET_TYPES)[number];
+
+export const WIDGET_TIME_PERIODS = [
+  "this-month",
+  "last-month",
+  "3-months",
+  "6-months",
+  "12-months",
+  "next-7-days",
+  "next-14-days",
+  "next-30-days",
+] as const;
+
+export type WidgetTimePeriod = (typeof WIDGET_TIME_PERIODS)[number];
+
+export const WIDGET_TIME_PERIOD_LABELS: Record<WidgetTimePeriod, string> = {
+  "this-month": "This month",
+  "last-month": "Last month",
+  "3-months": "Last 3 months",
+  "6-months": "Last 6 months",
+  "12-months": "Last 12 months",
+  "next-7-days": "Next 7 days",
+  "next-14-days": "Next 14 days",
+  "next-30-days": "Next 30 days",
+};
+
+interface WidgetDefinition {
+  label: string;
+  description: string;
+  /** Periods the widget can show; the first is the default */
+  periods: WidgetTimePeriod[];
+  /** Whether the widget can be narrowed to some categories */
+  categoryFilter: boolean;
+}
+
+export const DASHBOARD_WIDGETS: Record<DashboardWidgetType, WidgetDefinition> = {
+  "category-trend": {
+    label: "Spending trend",
+    description: "Spending over time, for everything or chosen categories",
+    periods: ["this-month", "last-month", "3-months", "6-months", "12-months"],
+    categoryFilter: true,
+  },
+  "merchant-top": {
+    label: "Top merchants",
+    description: "Where the most money went",
+    periods: ["this-month", "last-month", "3-months", "6-months", "12-months"],
+    categoryFilter: true,
+  },
+  "budget-burndown": {
+    label: "Budget burn-down",
+    description: "Budget left through the month against an even pace",
+    periods: ["this-month", "last-month"],
+    categoryFilter: true,
+  },
+  "net-worth": {
+    label: "Net worth",
+    description: "Accounts, investments and super less debts",
+    periods: ["6-months", "3-months", "12-months"],
+    categoryFilter: false,
+  },
+  "goal-progress": {
+    label: "Goal progress",
+    description: "Savings goals and what went into them",
+    periods: ["this-month", "3-months", "6-months", "12-months"],
+    categoryFilter: false,
+  },
+  "upcoming-bills": {
+    label: "Upcoming bills",
+    description: "Recurring expenses coming due, and any overdue",
+    periods: ["next-14-days", "next-7-days", "next-30-days"],
+    categoryFilter: false,
+  },
+};
+
+/** The dashboard grid is 12 columns wide; widgets take a third to all of it */
+export const DASHBOARD_GRID_COLUMNS = 12;
+export const WIDGET_WIDTHS = [4, 6, 8, 12] as const;
+export const WIDGET_HEIGHTS = [2, 3, 4] as const;
+export const MAX_DASHBOARD_WIDGETS = 12;
+
+/** A row of user_dashboard_charts */
+export interface DashboardWidget {
+  id: string;
+  chart_type: string;
+  title: string;
+  category_filter: string[] | null;
+  time_period: string;
+  display_order: number;
+  grid_width: number | null;
+  grid_height: number | null;
+  grid_x: number | null;
+  grid_y: number | null;
+}
+
+export interface WidgetSize {
+  id: string;
+  grid_width: number;
+  grid_height: number;
+}
+
+export interface WidgetPlacement extends WidgetSize {
+  display_order: number;
+  grid_x: number;
+  grid_y: number;
+}
+
+export interface WidgetPeriodRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  bucket: "day" | "month";
+}
+
+// ── Source data (loaded by the home page) ──
+
+export interface WidgetTransaction {
+  description: string;
+  amount_cents: number;
+  category_id: string | null;
+  created_at: string;
+  is_income: boolean | null;
+}
+
+export interface WidgetBudgetAssignment {
+  month: string; // YYYY-MM-01
+  category_name: string;
+  assigned_cents: number;
+}
+
+export interface WidgetNetWorthSnapshot {
+  snapshot_date: string;
+  total_balance_cents: number;
+  investment_total_cents?: number | null;
+  super_total_cents?: number | null;
+  liability_total_cents?: number | null;
+}
+
+export interface WidgetGoal {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  current_amount_cents: number;
+  target_amount_cents: number;
+}
+
+export interface WidgetGoalContribution {
+  goal_id: string;
+  amount_cents: number;
+  created_at: string;
+}
+
+export interface WidgetBill {
+  id: string;
+  name: string;
+  emoji: string | null;
+  amount: number;
+  dueDate: string;
+  isPaid: boolean;
+}
+
+export interface WidgetSources {
+  transactions: WidgetTransaction[];
+  /** UP category ID -> parent category name, for matching budget assignments */
+  categoryParents: Map<string, string>;
+  budgetAssignments: WidgetBudgetAssignment[];
+  netWorthSnapshots: WidgetNetWorthSnapshot[];
+  goals: WidgetGoal[];
+  goalContributions: WidgetGoalContribution[];
+  bills: WidgetBill[];
+}
+
+// ── Widget data (rendered by the dashboard) ──
+
+export type WidgetData =
+  | { type: "category-trend"; points: { label: string; amountCents: number }[]; totalCents: number }
+  | { type: "merchant-top"; merchants: { name: string; amountCents: number; count: number }[]; totalCents: number }
+  | {
+      type: "budget-burndown";
+      budgetCents: number;
+      spentCents: number;
+      points: { label: string; remainingCents: number | null; idealCents: number }[];
+    }
+  | { type: "net-worth"; points: { label: string; valueCents: number }[]; changeCents: number }
+  | {
+      type: "goal-progress";
+      goals: { id: string; name: string; icon: string; color: string; currentCents: number; targetCents: number; savedInPeriodCents: number }[];
+    }
+  | {
+      type: "upcoming-bills";
+      bills: { id: string; name: string; emoji: string | null; amountCents: number; dueDate: string; isPaid: boolean; overdue: boolean }[];
+      dueCents: number;
+    }
+  | { type: "unsupported" };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export function isDashboardWidgetType(value: string): value is DashboardWidgetType {
+  return (DASHBOARD_WIDGET_TYPES as readonly string[]).includes(value);
+}
+
+/** The widget's period, or its default when the stored one doesn't apply to it */
+export function widgetPeriod(type: DashboardWidgetType, period: string): WidgetTimePeriod {
+  const periods = DASHBOARD_WIDGETS[type].periods;
+  return periods.find((p) => p === period) ?? periods[0];
+}
+
+/** How many rows a list widget shows at each height */
+export function widgetListLength(gridHeight: number | null): number {
+  const height = gridHeight ?? 3;
+  return height <= 2 ? 3 : height === 3 ? 5 : 8;
+}
+
+/** Local calendar date as YYYY-MM-DD */
+function dateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function monthKey(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+/** Transactions that are spending: money out that isn't marked as income */
+function isSpending(tx: WidgetTransaction): boolean {
+  return tx.amount_cents < 0 && !tx.is_income;
+}
+
+function inRange(date: string, range: WidgetPeriodRange): boolean {
+  return date >= range.start && date <= range.end;
+}
+
+function matchesFilter(tx: WidgetTransaction, filter: Set<string>): boolean {
+  return filter.size === 0 || (tx.category_id !== null && filter.has(tx.category_id));
+}
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+export function resolveWidgetPeriod(period: WidgetTimePeriod, now: Date): WidgetPeriodRange {
+  const y = now.getFullYear();
+  const m = now.getMonth();
+  const today = dateKey(now);
+
+  switch (period) {
+    case "this-month":
+      return { start: dateKey(new Date(y, m, 1)), end: dateKey(new Date(y, m + 1, 0)), bucket: "day" };
+    case "last-month":
+      return { start: dateKey(new Date(y, m - 1, 1)), end: dateKey(new Date(y, m, 0)), bucket: "day" };
+    case "3-months":
+    case "6-months":
+    case "12-months": {
+      const months = parseInt(period, 10);
+      return { start: dateKey(new Date(y, m - months + 1, 1)), end: dateKey(new Date(y, m + 1, 0)), bucket: "month" };
+    }
+    case "next-7-days":
+    case "next-14-days":
+    case "next-30-days": {
+      const days = parseInt(period.replace("next-", ""), 10);
+      return { start: today, end: dateKey(new Date(y, m, now.getDate() + days)), bucket: "day" };
+    }
+  }
+}
+
+/** Day or month buckets across a range, stopping at today */
+function buckets(range: WidgetPeriodRange, now: Date): { key: string; label: string }[] {
+  const last = range.end < dateKey(now) ? range.end : dateKey(now);
+  const result: { key: string; label: string }[] = [];
+  const [sy, sm, sd] = range.start.split("-").map(Number);
+
+  if (range.bucket === "month") {
+    for (let d = new Date(sy, sm - 1, 1); dateKey(d) <= last; d = new Date(d.getFullYear(), d.getMonth() + 1, 1)) {
+      result.push({ key: dateKey(d), label: MONTH_NAMES[d.getMonth()] });
+    }
+  } else {
+    for (let d = new Date(sy, sm - 1, sd); dateKey(d) <= last; d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)) {
+      result.push({ key: dateKey(d), label: String(d.getDate()) });
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+function snap(value: number | null, allowed: readonly number[], fallback: number): number {
+  if (value === null || !Number.isFinite(value)) return fallback;
+  return allowed.reduce((best, option) => (Math.abs(option - value) < Math.abs(best - value) ? option : best));
+}
+
+/** Width and height snapped to the sizes the grid offers */
+export function normalizeWidgetSize(width: number | null, height: number | null): { grid_width: number; grid_height: number } {
+  return { grid_width: snap(width, WIDGET_WIDTHS, 6), grid_height: snap(height, WIDGET_HEIGHTS, 3) };
+}
+
+/**
+ * Place widgets left to right, top to bottom, in the order given. A widget
+ * that doesn't fit on the current row starts a new row below the tallest
+ * widget on it.
+ */
+export function packWidgets(widgets: WidgetSize[], columns = DASHBOARD_GRID_COLUMNS): WidgetPlacement[] {
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+
+  return widgets.map((widget, index) => {
+    const width = Math.min(widget.grid_width, columns);
+    if (x + width > columns) {
+      y += rowHeight;
+      x = 0;
+      rowHeight = 0;
+    }
+    const placement = { ...widget, grid_width: width, display_order: index, grid_x: x, grid_y: y };
+    x += width;
+    rowHeight = Math.max(rowHeight, widget.grid_height);
+    return placement;
+  });
+}
+
+/** Stored widgets in display order */
+export function sortWidgets<T extends Pick<DashboardWidget, "display_order" | "grid_x" | "grid_y">>(widgets: T[]): T[] {
+  return widgets
+    .slice()
+    .sort((a, b) => a.display_order - b.display_order || (a.grid_y ?? 0) - (b.grid_y ?? 0) || (a.grid_x ?? 0) - (b.grid_x ?? 0));
+}
+
+/** Move a widget to another widget's position, shifting the rest along */
+export function moveWidget<T extends { id: string }>(widgets: T[], fromId: string, toId: string): T[] {
+  const from = widgets.findIndex((w) => w.id === fromId);
+  const to = widgets.findIndex((w) => w.id === toId);
+  if (from === -1 || to === -1 || from === to) return widgets;
+  const next = widgets.slice();
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+// ============================================================================
+// Widget data
+// ============================================================================
+
+function buildCategoryTrend(sources: WidgetSources, filter: Set<string>, range: WidgetPeriodRange, now: Date): WidgetData {
+  const points = buckets(range, now).map((b) => ({ ...b, amountCents: 0 }));
+  const index = new Map(points.map((p, i) => [p.key, i]));
+
+  for (const tx of sources.transactions) {
+    if (!isSpending(tx) || !matchesFilter(tx, filter)) continue;
+    const date = dateKey(new Date(tx.created_at));
+    if (!inRange(date, range)) continue;
+    const i = index.get(range.bucket === "month" ? monthKey(date) : date);
+    if (i !== undefined) points[i].amountCents += Math.abs(tx.amount_cents);
+  }
+
+  return {
+    type: "category-trend",
+    points: points.map(({ label, amountCents }) => ({ label, amountCents })),
+    totalCents: points.reduce((sum, p) => sum + p.amountCents, 0),
+  };
+}
+
+function buildMerchantTop(sources: WidgetSources, filter: Set<string>, range: WidgetPeriodRange, limit: number): WidgetData {
+  const merchants = new Map<string, { name: string; amountCents: number; count: number }>();
+  let totalCents = 0;
+
+  for (const tx of sources.transactions) {
+    if (!isSpending(tx) || !matchesFilter(tx, filter)) continue;
+    if (!inRange(dateKey(new Date(tx.created_at)), range)) continue;
+    const name = tx.description.trim() || "Unknown";
+    const key = name.toLowerCase();
+    const entry = merchants.get(key) ?? { name, amountCents: 0, count: 0 };
+    entry.amountCents += Math.abs(tx.amount_cents);
+    entry.count++;
+    merchants.set(key, entry);
+    totalCents += Math.abs(tx.amount_cents);
+  }
+
+  return {
+    type: "merchant-top",
+    merchants: [...merchants.values()].sort((a, b) => b.amountCents - a.amountCents).slice(0, limit),
+    totalCents,
+  };
+}
+
+function buildBudgetBurndown(sources: WidgetSources, filter: Set<string>, range: WidgetPeriodRange, now: Date): WidgetData {
+  const month = monthKey(range.start);
+  const filteredParents = new Set([...filter].map((id) => sources.categoryParents.get(id)).filter(Boolean));
+  const budgetCents = sources.budgetAssignments
+    .filter((a) => a.month === month && (filter.size === 0 || filteredParents.has(a.category_name)))
+    .reduce((sum, a) => sum + a.assigned_cents, 0);
+
+  const spentByDay = new Map<string, number>();
+  for (const tx of sources.transactions) {
+    if (!isSpending(tx) || !matchesFilter(tx, filter)) continue;
+    const date = dateKey(new Date(tx.created_at));
+    if (!inRange(date, range)) continue;
+    spentByDay.set(date, (spentByDay.get(date) ?? 0) + Math.abs(tx.amount_cents));
+  }
+
+  const today = dateKey(now);
+  const days = Number(range.end.slice(8, 10));
+  const points: { label: string; remainingCents: number | null; idealCents: number }[] = [];
+  let spentCents = 0;
+  for (let day = 1; day <= days; day++) {
+    const date = `${range.start.slice(0, 8)}${String(day).padStart(2, "0")}`;
+    spentCents += spentByDay.get(date) ?? 0;
+    points.push({
+      label: String(day),
+      remainingCents: date <= today ? budgetCents - spentCents : null,
+      idealCents: Math.round(budgetCents * (1 - day / days)),
+    });
+  }
+
+  return { type: "budget-burndown", budgetCents, spentCents, points };
+}
+
+function buildNetWorth(sources: WidgetSources, range: WidgetPeriodRange): WidgetData {
+  const points = sources.netWorthSnapshots
+    .filter((s) => inRange(s.snapshot_date, range))
+    .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+    .map((s) => {
+      const [y, m, d] = s.snapshot_date.split("-").map(Number);
+      return {
+        label: `${d} ${MONTH_NAMES[m - 1]}${y !== Number(range.end.slice(0, 4)) ? ` ${String(y).slice(2)}` : ""}`,
+        valueCents:
+          s.total_balance_cents +
+          (s.investment_total_cents ?? 0) +
+          (s.super_total_cents ?? 0) -
+          (s.liability_total_cents ?? 0),
+      };
+    });
+
+  return {
+    type: "net-worth",
+    points,
+    changeCents: points.length >= 2 ? points[points.length - 1].valueCents - points[0].valueCents : 0,
+  };
+}
+
+function buildGoalProgress(sources: WidgetSources, range: WidgetPeriodRange, limit: number): WidgetData {
+  const saved = new Map<string, number>();
+  for (const c of sources.goalContributions) {
+    if (!inRange(dateKey(new Date(c.created_at)), range)) continue;
+    saved.set(c.goal_id, (saved.get(c.goal_id) ?? 0) + c.amount_cents);
+  }
+
+  return {
+    type: "goal-progress",
+    goals: sources.goals.slice(0, limit).map((g) => ({
+      id: g.id,
+      name: g.name,
+      icon: g.icon,
+      color: g.color,
+      currentCents: g.current_amount_cents,
+      targetCents: g.target_amount_cents,
+      savedInPeriodCents: saved.get(g.id) ?? 0,
+    })),
+  };
+}
+
+function buildUpcomingBills(sources: WidgetSources, range: WidgetPeriodRange, limit: number): WidgetData {
+  const bills = sources.bills
+    .map((b) => ({ ...b, dueDate: b.dueDate.slice(0, 10) }))
+    .filter((b) => (b.dueDate < range.start ? !b.isPaid : b.dueDate <= range.end))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    .map((b) => ({
+      id: b.id,
+      name: b.name,
+      emoji: b.emoji,
+      amountCents: b.amount,
+      dueDate: b.dueDate,
+      isPaid: b.isPaid,
+      overdue: !b.isPaid && b.dueDate < range.start,
+    }));
+
+  return {
+    type: "upcoming-bills",
+    bills: bills.slice(0, limit),
+    dueCents: bills.filter((b) => !b.isPaid).reduce((sum, b) => sum + b.amountCents, 0),
+  };
+}
+
+/** What a widget shows, from its settings and the dashboard's source data */
+export function buildWidgetData(widget: DashboardWidget, sources: WidgetSources, now: Date): WidgetData {
+  if (!isDashboardWidgetType(widget.chart_type)) return { type: "unsupported" };
+
+  const type = widget.chart_type;
+  const range = resolveWidgetPeriod(widgetPeriod(type, widget.time_period), now);
+  const filter = new Set(DASHBOARD_WIDGETS[type].categoryFilter ? widget.category_filter ?? [] : []);
+  const limit = widgetListLength(widget.grid_height);
+
+  switch (type) {
+    case "category-trend":
+      return buildCategoryTrend(sources, filter, range, now);
+    case "merchant-top":
+      return buildMerchantTop(sources, filter, range, limit);
+    case "budget-burndown":
+      return buildBudgetBurndown(sources, filter, range, now);
+    case "net-worth":
+      return buildNetWorth(sources, range);
+    case "goal-progress":
+      return buildGoalProgress(sources, range, limit);
+    case "upcoming-bills":
+      return buildUpcomingBills(sources, range, limit);
+  }
+}
+
+/**
+ * The earliest date any of the widgets needs data from, per source, so the
+ * page only loads what's on screen. Null when no widget uses the source.
+ */
+export function widgetDataStart(
+  widgets: DashboardWidget[],
+  now: Date
+): { transactions: string | null; netWorth: string | null; goalContributions: string | null; budgetMonths: string[] } {
+  let transactions: string | null = null;
+  let netWorth: string | null = null;
+  let goalContributions: string | null = null;
+  const budgetMonths = new Set<string>();
+  const earliest = (current: string | null, date: string) => (current === null || date < current ? date : current);
+
+  for (const widget of widgets) {
+    if (!isDashboardWidgetType(widget.chart_type)) continue;
+    const range = resolveWidgetPeriod(widgetPeriod(widget.chart_type, widget.time_period), now);
+    switch (widget.chart_type) {
+      case "category-trend":
+      case "merchant-top":
+        transactions = earliest(transactions, range.start);
+        break;
+      case "budget-burndown":
+        transactions = earliest(transactions, range.start);
+        budgetMonths.add(monthKey(range.start));
+        break;
+      case "net-worth":
+        netWorth = earliest(netWorth, range.start);
+        break;
+      case "goal-progress":
+        goalContributions = earliest(goalContributions, range.start);
+        break;
+    }
+  }
+
+  return { transactions, netWorth, goalContributions, budgetMonths: [...budgetMonths].sort() };
+}
@@ -0,0 +1,904 @@
+/**
+ * Portable backup bundles — everything a household has set up in PiggyBack,
+ * in a versioned JSON file that can be restored into another instance.
+ *
+ * Row IDs don't survive a move (the restoring user, partnership, Up Bank
+ * accounts and synced transactions all get new UUIDs), so a bundle records
+ * the portable identity of every account and transaction it references
+ * (up_account_id / up_transaction_id) and restore remaps every reference.
+ * Manual accounts and their imported transactions are carried in full; Up
+ * Bank transactions are expected to be re-synced before restoring so notes,
+ * tags, overrides and splits can find them again.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const BACKUP_FORMAT = "piggyback-backup";
+export const BACKUP_VERSION = 1;
+
+type Row = Record<string, unknown>;
+
+/** Reference targets that aren't rows in the bundle's own tables */
+type ExternalRef = "@user" | "@account" | "@transaction";
+
+export type BackupTableName =
+  | "user_budgets"
+  | "budgets"
+  | "savings_goals"
+  | "investments"
+  | "debts"
+  | "super_accounts"
+  | "super_balance_history"
+  | "super_contributions"
+  | "plan_scenarios"
+  | "expense_definitions"
+  | "budget_assignments"
+  | "budget_months"
+  | "budget_moves"
+  | "budget_category_shares"
+  | "budget_item_preferences"
+  | "budget_layout_presets"
+  | "goal_contributions"
+  | "investment_history"
+  | "investment_contributions"
+  | "investment_transactions"
+  | "investment_prices"
+  | "target_allocations"
+  | "watchlist_items"
+  | "income_sources"
+  | "couple_split_settings"
+  | "expense_matches"
+  | "milestones"
+  | "annual_checkups"
+  | "methodology_customizations"
+  | "category_pin_states"
+  | "net_worth_snapshots"
+  | "user_dashboard_charts"
+  | "transaction_rules"
+  | "merchant_category_rules"
+  | "transaction_notes"
+  | "transaction_tags"
+  | "transaction_category_overrides"
+  | "transaction_share_overrides"
+  | "transaction_splits";
+
+export interface BackupTableSpec {
+  table: BackupTableName;
+  /**
+   * Which rows belong in the backup: the partnership's, the user's within
+   * the partnership ("member"), the user's own, rows of the user's own
+   * transactions, or children of an already-exported table.
+   */
+  scope:
+    | "partnership"
+    | "member"
+    | "user"
+    | "transaction"
+    | { parent: BackupTableName; column: string };
+  /** Columns holding IDs that must be remapped on restore */
+  refs?: Record<string, BackupTableName | ExternalRef>;
+  /** Refs that must resolve, or the row is skipped (others become null) */
+  required?: string[];
+  /** JSON columns that embed row IDs (e.g. "goal-<uuid>" layout items) */
+  jsonColumns?: string[];
+  /** Natural key to upsert on; the row keeps whatever ID it already has */
+  upsertOn?: string;
+}
+
+/**
+ * Tables in restore order: parents before the rows that reference them.
+ * Transaction splits are restored separately through
+ * replace_transaction_splits so the amounts are re-validated.
+ */
+export const BACKUP_TABLES: BackupTableSpec[] = [
+  {
+    table: "income_sources",
+    scope: "user",
+    refs: { user_id: "@user", linked_transaction_id: "@transaction" },
+    required: ["user_id"],
+  },
+  { table: "user_budgets", scope: "partnership", refs: { created_by: "@user", pay_cycle_source_id: "income_sources" } },
+  { table: "budgets", scope: "partnership", upsertOn: "partnership_id,category_id" },
+  { table: "savings_goals", scope: "partnership", refs: { linked_account_id: "@account" } },
+  { table: "investments", scope: "partnership" },
+  { table: "debts", scope: "partnership", refs: { linked_account_id: "@account" } },
+  { table: "super_accounts", scope: "member", refs: { user_id: "@user" }, required: ["user_id"] },
+  {
+    table: "super_balance_history",
+    scope: { parent: "super_accounts", column: "super_account_id" },
+    refs: { super_account_id: "super_accounts" },
+    required: ["super_account_id"],
+    upsertOn: "super_account_id,recorded_on",
+  },
+  {
+    table: "super_contributions",
+    scope: { parent: "super_accounts", column: "super_account_id" },
+    refs: { super_account_id: "super_accounts" },
+    required: ["super_account_id"],
+  },
+  { table: "plan_scenarios", scope: "partnership", refs: { created_by: "@user" } },
+  { table: "expense_definitions", scope: "partnership", refs: { created_by: "@user" } },
+  {
+    table: "budget_assignments",
+    scope: "partnership",
+    refs: { goal_id: "savings_goals", asset_id: "investments", budget_id: "user_budgets", created_by: "@user" },
+    required: ["goal_id", "asset_id", "budget_id"],
+  },
+  {
+    table: "budget_months",
+    scope: "partnership",
+    refs: { budget_id: "user_budgets", leftover_goal_id: "savings_goals", closed_by: "@user" },
+    required: ["budget_id"],
+  },
+  {
+    table: "budget_moves",
+    scope: "partnership",
+    refs: { budget_id: "user_budgets", created_by: "@user" },
+    required: ["budget_id"],
+  },
+  { table: "budget_category_shares", scope: "partnership", upsertOn: "partnership_id,category_name" },
+  {
+    table: "budget_item_preferences",
+    scope: "member",
+    refs: { user_id: "@user", goal_id: "savings_goals", asset_id: "investments", budget_id: "user_budgets" },
+    required: ["user_id", "goal_id", "asset_id", "budget_id"],
+  },
+  {
+    table: "budget_layout_presets",
+    scope: "member",
+    refs: { user_id: "@user", budget_id: "user_budgets", template_author_id: "@user" },
+    required: ["user_id", "budget_id"],
+    jsonColumns: ["layout_config"],
+  },
+  {
+    table: "goal_contributions",
+    scope: { parent: "savings_goals", column: "goal_id" },
+    refs: { goal_id: "savings_goals" },
+    required: ["goal_id"],
+  },
+  {
+    table: "investment_history",
+    scope: { parent: "investments", column: "investment_id" },
+    refs: { investment_id: "investments" },
+    required: ["investment_id"],
+  },
+  {
+    table: "investment_contributions",
+    scope: "partnership",
+    refs: { investment_id: "investments" },
+    required: ["investment_id"],
+  },
+  {
+    table: "investment_transactions",
+    scope: "partnership",
+    refs: { investment_id: "investments", created_by: "@user" },
+    required: ["investment_id"],
+    jsonColumns: ["parcel_allocations"],
+  },
+  {
+    table: "investment_prices",
+    scope: "partnership",
+    refs: { investment_id: "investments" },
+    required: ["investment_id"],
+    upsertOn: "investment_id,price_date",
+  },
+  { table: "target_allocations", scope: "partnership", upsertOn: "partnership_id,asset_type" },
+  { table: "watchlist_items", scope: "partnership" },
+  {
+    table: "couple_split_settings",
+    scope: "partnership",
+    refs: { expense_definition_id: "expense_definitions" },
+    required: ["expense_definition_id"],
+  },
+  {
+    table: "expense_matches",
+    scope: { parent: "expense_definitions", column: "expense_definition_id" },
+    refs: { expense_definition_id: "expense_definitions", transaction_id: "@transaction", matched_by: "@user" },
+    required: ["expense_definition_id", "transaction_id"],
+    upsertOn: "transaction_id",
+  },
+  { table: "milestones", scope: "partnership", refs: { linked_goal_id: "savings_goals", created_by: "@user" } },
+  {
+    table: "annual_checkups",
+    scope: "partnership",
+    refs: { created_by: "@user" },
+    upsertOn: "partnership_id,financial_year",
+  },
+  {
+    table: "methodology_customizations",
+    scope: "member",
+    refs: { user_id: "@user" },
+    required: ["user_id"],
+    upsertOn: "partnership_id,user_id,methodology_name",
+  },
+  {
+    table: "category_pin_states",
+    scope: "member",
+    refs: { user_id: "@user" },
+    required: ["user_id"],
+    upsertOn: "partnership_id,user_id,methodology_name",
+  },
+  { table: "net_worth_snapshots", scope: "partnership", upsertOn: "partnership_id,snapshot_date" },
+  { table: "user_dashboard_charts", scope: "user", refs: { user_id: "@user" }, required: ["user_id"] },
+  { table: "transaction_rules", scope: "user", refs: { user_id: "@user" }, required: ["user_id"] },
+  {
+    table: "merchant_category_rules",
+    scope: "user",
+    refs: { user_id: "@user" },
+    required: ["user_id"],
+    upsertOn: "user_id,merchant_description",
+  },
+  {
+    table: "transaction_notes",
+    scope: "transaction",
+    refs: { transaction_id: "@transaction", user_id: "@user" },
+    required: ["transaction_id", "user_id"],
+  },
+  {
+    table: "transaction_tags",
+    scope: "transaction",
+    refs: { transaction_id: "@transaction" },
+    required: ["transaction_id"],
+    upsertOn: "transaction_id,tag_name",
+  },
+  {
+    table: "transaction_category_overrides",
+    scope: "transaction",
+    refs: { transaction_id: "@transaction", changed_by: "@user" },
+    required: ["transaction_id"],
+    upsertOn: "transaction_id",
+  },
+  {
+    table: "transaction_share_overrides",
+    scope: "partnership",
+    refs: { transaction_id: "@transaction", created_by_user_id: "@user" },
+    required: ["transaction_id"],
+    upsertOn: "transaction_id,partnership_id",
+  },
+  {
+    table: "transaction_splits",
+    scope: "transaction",
+    refs: { transaction_id: "@transaction" },
+    required: ["transaction_id"],
+  },
+];
+
+/** FIRE settings and preferences carried over from profiles (never API keys) */
+export const BACKUP_PROFILE_COLUMNS = [
+  "theme_preference",
+  "budget_view_preference",
+  "budget_period_preference",
+  "budget_methodology",
+  "date_of_birth",
+  "target_retirement_age",
+  "super_balance_cents",
+  "super_contribution_rate",
+  "expected_return_rate",
+  "outside_super_return_rate",
+  "income_growth_rate",
+  "spending_growth_rate",
+  "fire_variant",
+  "annual_expense_override_cents",
+  "fire_onboarded",
+  "notification_preferences",
+] as const;
+
+export const BACKUP_PARTNERSHIP_COLUMNS = [
+  "name",
+  "budget_setup_completed_at",
+  "manual_partner_name",
+  "manual_partner_dob",
+  "manual_partner_target_retirement_age",
+  "manual_partner_super_balance_cents",
+  "manual_partner_super_contribution_rate",
+] as const;
+
+export interface BackupTransactionRef {
+  up_account_id: string;
+  up_transaction_id: string;
+}
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  source: { user_id: string; partnership_id: string };
+  profile: Row | null;
+  partnership: Row | null;
+  /** Account ID → up_account_id for every account the bundle references */
+  accounts: Record<string, string>;
+  /** Transaction ID → portable identity for every transaction referenced */
+  transactions: Record<string, BackupTransactionRef>;
+  manual_accounts: Row[];
+  manual_transactions: Row[];
+  tables: Partial<Record<BackupTableName, Row[]>>;
+}
+
+export interface RestoreSummary {
+  restored: Record<string, number>;
+  /** Rows dropped because something they pointed at couldn't be found */
+  skipped: Record<string, number>;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+const isRecord = (value: unknown): value is Row =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Check a parsed file is a bundle this version can restore. Returns an error
+ * message, or null when the bundle is usable.
+ */
+export function validateBackupBundle(value: unknown): string | null {
+  if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+    return "This file isn't a PiggyBack backup";
+  }
+  if (typeof value.version !== "number" || value.version > BACKUP_VERSION) {
+    return `This backup was made by a newer version of PiggyBack (format v${String(value.version)})`;
+  }
+  if (!isRecord(value.source) || typeof value.source.user_id !== "string") {
+    return "Backup is missing its source details";
+  }
+  if (!isRecord(value.tables) || !isRecord(value.accounts) || !isRecord(value.transactions)) {
+    return "Backup is incomplete";
+  }
+  for (const [table, rows] of Object.entries(value.tables)) {
+    if (!Array.isArray(rows) || !rows.every(isRecord)) return `Backup table ${table} is malformed`;
+  }
+  if (!Array.isArray(value.manual_accounts) || !Array.isArray(value.manual_transactions)) {
+    return "Backup is incomplete";
+  }
+  return null;
+}
+
+/** Row counts per table, for showing what a bundle contains before restoring */
+export function summarizeBackupBundle(bundle: BackupBundle): Record<string, number> {
+  const counts: Record<string, number> = {};
+  if (bundle.manual_accounts.length > 0) counts.manual_accounts = bundle.manual_accounts.length;
+  if (bundle.manual_transactions.length > 0) counts.manual_transactions = bundle.manual_transactions.length;
+  for (const spec of BACKUP_TABLES) {
+    const count = bundle.tables[spec.table]?.length ?? 0;
+    if (count > 0) counts[spec.table] = count;
+  }
+  return counts;
+}
+
+// ─── Remapping ────────────────────────────────────────────────────────────────
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+export interface RemapContext {
+  sourceUserId: string;
+  userId: string;
+  partnershipId: string;
+  /** Old row ID → new row ID, per table, filled as rows are remapped */
+  idMaps: Map<BackupTableName, Map<string, string>>;
+  /** Old account ID → new account ID */
+  accountIds: Map<string, string>;
+  /** Old transaction ID → new transaction ID */
+  transactionIds: Map<string, string>;
+  newId: () => string;
+}
+
+function resolveRef(target: BackupTableName | ExternalRef, value: string, ctx: RemapContext): string | null {
+  if (target === "@user") return value === ctx.sourceUserId ? ctx.userId : null;
+  if (target === "@account") return ctx.accountIds.get(value) ?? null;
+  if (target === "@transaction") return ctx.transactionIds.get(value) ?? null;
+  return ctx.idMaps.get(target)?.get(value) ?? null;
+}
+
+/** Swap any old row IDs inside a JSON value for their new IDs */
+export function remapEmbeddedIds(value: unknown, ctx: RemapContext): unknown {
+  if (value === null || value === undefined) return value;
+  const json = JSON.stringify(value).replace(UUID_PATTERN, (id) => {
+    for (const map of ctx.idMaps.values()) {
+      const mapped = map.get(id);
+      if (mapped) return mapped;
+    }
+    return id;
+  });
+  return JSON.parse(json);
+}
+
+/**
+ * Rewrite one backed-up row for the restoring user: new partnership, new IDs
+ * for everything it references, and a fresh ID of its own (registered so
+ * later tables can point at it). Returns null when a required reference
+ * can't be resolved.
+ */
+export function remapBackupRow(spec: BackupTableSpec, row: Row, ctx: RemapContext): Row | null {
+  const out: Row = { ...row };
+
+  for (const [column, target] of Object.entries(spec.refs ?? {})) {
+    const value = out[column];
+    if (value === null || value === undefined) continue;
+    const mapped = resolveRef(target, String(value), ctx);
+    if (mapped === null && spec.required?.includes(column)) return null;
+    out[column] = mapped;
+  }
+
+  if (out.partnership_id !== null && out.partnership_id !== undefined) {
+    out.partnership_id = ctx.partnershipId;
+  }
+
+  for (const column of spec.jsonColumns ?? []) {
+    out[column] = remapEmbeddedIds(out[column], ctx);
+  }
+
+  if (spec.upsertOn) {
+    delete out.id;
+  } else if (typeof row.id === "string") {
+    const id = ctx.newId();
+    let map = ctx.idMaps.get(spec.table);
+    if (!map) {
+      map = new Map();
+      ctx.idMaps.set(spec.table, map);
+    }
+    map.set(row.id, id);
+    out.id = id;
+  }
+
+  return out;
+}
+
+/** Portable key for matching a transaction across instances */
+export const transactionKey = (ref: BackupTransactionRef) => `${ref.up_account_id}::${ref.up_transaction_id}`;
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+const PAGE_SIZE = 1000;
+const CHUNK = 500;
+
+/** Load every row a query returns, a page at a time */
+async function fetchAll(
+  build: (from: number, to: number) => PromiseLike<{ data: Row[] | null; error: { message: string } | null }>
+): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function chunks<T>(items: T[]): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK) out.push(items.slice(i, i + CHUNK));
+  return out;
+}
+
+async function exportTable(
+  supabase: SupabaseClient,
+  spec: BackupTableSpec,
+  scope: { userId: string; partnershipId: string; accountIds: string[] },
+  tables: BackupBundle["tables"]
+): Promise<Row[]> {
+  const { table } = spec;
+
+  if (typeof spec.scope === "object") {
+    const { column } = spec.scope;
+    const parentIds = (tables[spec.scope.parent] ?? []).map((r) => String(r.id));
+    const rows: Row[] = [];
+    for (const ids of chunks(parentIds)) {
+      rows.push(...(await fetchAll((from, to) =>
+        supabase.from(table).select("*").in(column, ids).order("id").range(from, to)
+      )));
+    }
+    return rows;
+  }
+
+  if (spec.scope === "transaction") {
+    if (scope.accountIds.length === 0) return [];
+    const rows = await fetchAll((from, to) => {
+      let query = supabase
+        .from(table)
+        .select("*, transactions!inner(account_id)")
+        .in("transactions.account_id", scope.accountIds);
+      // Partners can read each other's notes; only carry this user's
+      if (table === "transaction_notes") query = query.eq("user_id", scope.userId);
+      return query.order("id").range(from, to);
+    });
+    return rows.map(({ transactions: _embed, ...row }) => row);
+  }
+
+  return fetchAll((from, to) => {
+    let query = supabase.from(table).select("*");
+    if (spec.scope === "partnership" || spec.scope === "member") {
+      query = query.eq("partnership_id", scope.partnershipId);
+    }
+    if (spec.scope === "user" || spec.scope === "member") {
+      query = query.eq("user_id", scope.userId);
+    }
+    return query.order("id").range(from, to);
+  });
+}
+
+/**
+ * Collect a household's configuration into a backup bundle. Throws if any
+ * table can't be read, so a partial backup is never produced.
+ */
+export async function createBackupBundle(
+  supabase: SupabaseClient,
+  userId: string,
+  partnershipId: string
+): Promise<BackupBundle> {
+  const [{ data: profile }, { data: partnership }, { data: visibleAccounts, error: accountsError }] = await Promise.all([
+    supabase.from("profiles").select(BACKUP_PROFILE_COLUMNS.join(", ")).eq("id", userId).maybeSingle(),
+    supabase.from("partnerships").select(BACKUP_PARTNERSHIP_COLUMNS.join(", ")).eq("id", partnershipId).maybeSingle(),
+    // RLS returns the user's accounts plus any their partner shares
+    supabase.from("accounts").select("id, user_id, up_account_id"),
+  ]);
+  if (accountsError) throw new Error(accountsError.message);
+
+  const accounts: Record<string, string> = {};
+  for (const a of visibleAccounts ?? []) accounts[a.id] = a.up_account_id;
+  const ownAccountIds = (visibleAccounts ?? []).filter((a) => a.user_id === userId).map((a) => a.id);
+
+  const manualAccounts = await fetchAll((from, to) =>
+    supabase.from("accounts").select("*").eq("user_id", userId).eq("source", "manual").order("id").range(from, to)
+  );
+  const manualTransactions: Row[] = [];
+  for (const ids of chunks(manualAccounts.map((a) => String(a.id)))) {
+    manualTransactions.push(...(await fetchAll((from, to) =>
+      supabase.from("transactions").select("*").in("account_id", ids).order("id").range(from, to)
+    )));
+  }
+
+  const tables: BackupBundle["tables"] = {};
+  const scope = { userId, partnershipId, accountIds: ownAccountIds };
+  for (const spec of BACKUP_TABLES) {
+    tables[spec.table] = await exportTable(supabase, spec, scope, tables);
+  }
+
+  // Record the portable identity of every transaction something points at
+  const referenced = new Set<string>();
+  for (const spec of BACKUP_TABLES) {
+    for (const [column, target] of Object.entries(spec.refs ?? {})) {
+      if (target !== "@transaction") continue;
+      for (const row of tables[spec.table] ?? []) {
+        if (typeof row[column] === "string") referenced.add(row[column] as string);
+      }
+    }
+  }
+  const transactions: Record<string, BackupTransactionRef> = {};
+  for (const ids of chunks(Array.from(referenced))) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, up_transaction_id, accounts(up_account_id)")
+      .in("id", ids);
+    if (error) throw new Error(error.message);
+    for (const t of (data ?? []) as { id: string; up_transaction_id: string; accounts: unknown }[]) {
+      const account = (Array.isArray(t.accounts) ? t.accounts[0] : t.accounts) as { up_account_id: string } | null;
+      if (account) transactions[t.id] = { up_account_id: account.up_account_id, up_transaction_id: t.up_transaction_id };
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    source: { user_id: userId, partnership_id: partnershipId },
+    profile: (profile as Row | null) ?? null,
+    partnership: (partnership as Row | null) ?? null,
+    accounts,
+    transactions,
+    manual_accounts: manualAccounts,
+    manual_transactions: manualTransactions,
+    tables,
+  };
+}
+
+// ─── Restore ──────────────────────────────────────────────────────────────────
+
+/** Tables checked to decide whether the destination already has a setup */
+const SETUP_TABLES: BackupTableName[] = [
+  "user_budgets",
+  "budget_assignments",
+  "savings_goals",
+  "expense_definitions",
+  "investments",
+  "transaction_rules",
+];
+
+/** Whether restoring would mix the backup with existing budgets, goals or rules */
+export async function hasExistingSetup(
+  supabase: SupabaseClient,
+  userId: string,
+  partnershipId: string
+): Promise<boolean> {
+  const counts = await Promise.all(
+    SETUP_TABLES.map((table) => {
+      const spec = BACKUP_TABLES.find((s) => s.table === table)!;
+      const query = supabase.from(table).select("id", { count: "exact", head: true });
+      return spec.scope === "user" ? query.eq("user_id", userId) : query.eq("partnership_id", partnershipId);
+    })
+  );
+  return counts.some(({ count }) => (count ?? 0) > 0);
+}
+
+/** A table a replace restore empties, scoped to the restoring household */
+export interface RestoreClear {
+  table: BackupTableName;
+  scope: "partnership" | "member" | "user";
+}
+
+/** One table's rows, written by restore_backup_bundle in plan order */
+export interface RestoreStep {
+  table: BackupTableName | "accounts" | "transactions";
+  rows: Row[];
+  /** Natural key to upsert on; the row is inserted when nothing matches */
+  on_conflict?: string;
+  /** Leave matching rows as they are instead of updating them */
+  ignore_duplicates?: boolean;
+}
+
+/**
+ * Everything a restore writes, fully remapped before the database is
+ * touched. restore_backup_bundle applies it in one transaction: the clear,
+ * every step, the category overrides and the splits all land or none do.
+ */
+export interface RestorePlan {
+  /** Emptied first, children before parents; empty unless replacing */
+  clear: RestoreClear[];
+  profile: Row | null;
+  partnership: Row | null;
+  /** Tag names transaction_tags need to exist */
+  tags: string[];
+  steps: RestoreStep[];
+  /** The category each restored override puts back on its transaction */
+  category_overrides: { transaction_id: string; category_id: unknown; parent_category_id: unknown }[];
+  /** Line items, re-validated against the destination transaction's amount */
+  splits: { transaction_id: string; splits: Row[] }[];
+}
+
+/**
+ * Tables a replace restore empties. Child rows (contributions, history,
+ * matches) go with their parents via ON DELETE CASCADE; transaction
+ * annotations are upserted on restore rather than cleared.
+ */
+export function setupTablesToClear(): RestoreClear[] {
+  const clear: RestoreClear[] = [];
+  for (const spec of [...BACKUP_TABLES].reverse()) {
+    if (typeof spec.scope === "object" || spec.scope === "transaction") continue;
+    if (spec.table === "transaction_share_overrides") continue;
+    clear.push({ table: spec.table, scope: spec.scope });
+  }
+  return clear;
+}
+
+function countSkipped(skipped: Record<string, number>, table: string, count: number) {
+  if (count > 0) skipped[table] = (skipped[table] ?? 0) + count;
+}
+
+/** Look up the new IDs of backed-up transactions by their portable identity */
+async function resolveTransactions(
+  supabase: SupabaseClient,
+  refs: Record<string, BackupTransactionRef>
+): Promise<Map<string, string>> {
+  const oldIdByKey = new Map<string, string>();
+  for (const [oldId, ref] of Object.entries(refs)) oldIdByKey.set(transactionKey(ref), oldId);
+
+  const resolved = new Map<string, string>();
+  const upIds = Array.from(new Set(Object.values(refs).map((r) => r.up_transaction_id)));
+  for (const ids of chunks(upIds)) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, up_transaction_id, accounts!inner(up_account_id)")
+      .in("up_transaction_id", ids);
+    if (error) throw new Error(`transactions: ${error.message}`);
+    for (const t of (data ?? []) as { id: string; up_transaction_id: string; accounts: unknown }[]) {
+      const account = (Array.isArray(t.accounts) ? t.accounts[0] : t.accounts) as { up_account_id: string } | null;
+      if (!account) continue;
+      const oldId = oldIdByKey.get(transactionKey({ up_account_id: account.up_account_id, up_transaction_id: t.up_transaction_id }));
+      if (oldId) resolved.set(oldId, t.id);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Work out everything restoring a bundle would write, without writing
+ * anything. Reads the destination's accounts, transactions and notes so
+ * references can be remapped; a failed read throws rather than producing a
+ * plan built on partial lookups.
+ */
+export async function planBackupRestore(
+  supabase: SupabaseClient,
+  bundle: BackupBundle,
+  target: { userId: string; partnershipId: string; replace?: boolean },
+  newId: () => string = () => crypto.randomUUID()
+): Promise<{ plan: RestorePlan; skipped: Record<string, number> }> {
+  const skipped: Record<string, number> = {};
+  const plan: RestorePlan = {
+    clear: target.replace ? setupTablesToClear() : [],
+    profile: pickColumns(bundle.profile, BACKUP_PROFILE_COLUMNS),
+    partnership: pickColumns(bundle.partnership, BACKUP_PARTNERSHIP_COLUMNS),
+    tags: [],
+    steps: [],
+    category_overrides: [],
+    splits: [],
+  };
+
+  // 1. Accounts: RLS returns the user's own plus any their partner shares
+  const { data: destinationAccounts, error: accountsError } = await supabase
+    .from("accounts")
+    .select("id, user_id, up_account_id");
+  if (accountsError) throw new Error(`accounts: ${accountsError.message}`);
+  const accountIdByUpId = new Map((destinationAccounts ?? []).map((a) => [a.up_account_id as string, a.id as string]));
+  const ownAccountIdByUpId = new Map(
+    (destinationAccounts ?? []).filter((a) => a.user_id === target.userId).map((a) => [a.up_account_id as string, a.id as string])
+  );
+
+  // Manual accounts keep the ID they already have here (matched on up_account_id)
+  if (bundle.manual_accounts.length > 0) {
+    const rows = bundle.manual_accounts.map(({ id: _id, ...a }) => {
+      const id = ownAccountIdByUpId.get(String(a.up_account_id)) ?? newId();
+      accountIdByUpId.set(String(a.up_account_id), id);
+      return { ...a, id, user_id: target.userId };
+    });
+    plan.steps.push({ table: "accounts", rows, on_conflict: "user_id,up_account_id" });
+  }
+
+  const accountIds = new Map<string, string>();
+  for (const [oldId, upAccountId] of Object.entries(bundle.accounts)) {
+    const newAccountId = accountIdByUpId.get(upAccountId);
+    if (newAccountId) accountIds.set(oldId, newAccountId);
+  }
+
+  // 2. Transactions: find the ones already here, then add the imported ones that aren't
+  const refs: Record<string, BackupTransactionRef> = { ...bundle.transactions };
+  for (const t of bundle.manual_transactions) {
+    const upAccountId = bundle.accounts[String(t.account_id)];
+    if (typeof t.id === "string" && upAccountId) {
+      refs[t.id] = { up_account_id: upAccountId, up_transaction_id: String(t.up_transaction_id) };
+    }
+  }
+  const transactionIds = await resolveTransactions(supabase, refs);
+
+  if (bundle.manual_transactions.length > 0) {
+    const rows: Row[] = [];
+    let missingAccount = 0;
+    for (const { id: oldId, ...t } of bundle.manual_transactions) {
+      const accountId = accountIds.get(String(t.account_id));
+      if (!accountId) {
+        missingAccount++;
+        continue;
+      }
+      if (transactionIds.has(String(oldId))) continue;
+      const id = newId();
+      transactionIds.set(String(oldId), id);
+      const transferAccountId = t.transfer_account_id ? accountIds.get(String(t.transfer_account_id)) ?? null : null;
+      rows.push({ ...t, id, account_id: accountId, transfer_account_id: transferAccountId });
+    }
+    countSkipped(skipped, "transactions", missingAccount);
+    if (rows.length > 0) plan.steps.push({ table: "transactions", rows });
+  }
+
+  const ctx: RemapContext = {
+    sourceUserId: bundle.source.user_id,
+    userId: target.userId,
+    partnershipId: target.partnershipId,
+    idMaps: new Map(),
+    accountIds,
+    transactionIds,
+    newId,
+  };
+
+  // 3. Tag names must exist before transaction_tags can reference them
+  plan.tags = Array.from(new Set((bundle.tables.transaction_tags ?? []).map((t) => String(t.tag_name))));
+
+  // 4. Everything else, parents first
+  for (const spec of BACKUP_TABLES) {
+    const source = bundle.tables[spec.table] ?? [];
+    if (source.length === 0 || spec.table === "transaction_splits") continue;
+
+    let rows: Row[] = [];
+    for (const row of spec.table === "investment_transactions" ? inTradeOrder(source) : source) {
+      const mapped = remapBackupRow(spec, row, ctx);
+      if (mapped) rows.push(mapped);
+    }
+    countSkipped(skipped, spec.table, source.length - rows.length);
+
+    if (spec.table === "transaction_notes") rows = await withoutExistingNotes(supabase, rows);
+    if (rows.length === 0) continue;
+    plan.steps.push({
+      table: spec.table,
+      rows,
+      on_conflict: spec.upsertOn,
+      ignore_duplicates: spec.table === "transaction_tags" || undefined,
+    });
+
+    // Overrides only record the change; the transaction carries the category
+    if (spec.table === "transaction_category_overrides") {
+      plan.category_overrides = rows.map((o) => ({
+        transaction_id: String(o.transaction_id),
+        category_id: o.override_category_id,
+        parent_category_id: o.override_parent_category_id,
+      }));
+    }
+  }
+
+  // 5. Splits, grouped per transaction in their original order
+  const byTransaction = new Map<string, Row[]>();
+  for (const row of bundle.tables.transaction_splits ?? []) {
+    const list = byTransaction.get(String(row.transaction_id));
+    if (list) list.push(row);
+    else byTransaction.set(String(row.transaction_id), [row]);
+  }
+  for (const [oldId, lines] of byTransaction) {
+    const transactionId = transactionIds.get(oldId);
+    if (!transactionId) {
+      countSkipped(skipped, "transaction_splits", lines.length);
+      continue;
+    }
+    plan.splits.push({
+      transaction_id: transactionId,
+      splits: [...lines]
+        .sort((a, b) => Number(a.position ?? 0) - Number(b.position ?? 0))
+        .map((l) => ({
+          amount_cents: l.amount_cents,
+          category_id: l.category_id,
+          parent_category_id: l.parent_category_id,
+          is_shared: l.is_shared,
+          notes: l.notes,
+        })),
+    });
+  }
+
+  return { plan, skipped };
+}
+
+/**
+ * Load a bundle into the current user's partnership, replacing its existing
+ * setup when `target.replace` is set. The whole remap is planned first
+ * (planBackupRestore), then restore_backup_bundle clears and writes it in a
+ * single transaction. Throws if anything fails, in which case the
+ * destination is left exactly as it was.
+ */
+export async function restoreBackupBundle(
+  supabase: SupabaseClient,
+  bundle: BackupBundle,
+  target: { userId: string; partnershipId: string; replace?: boolean },
+  newId: () => string = () => crypto.randomUUID()
+): Promise<RestoreSummary> {
+  const { plan, skipped } = await planBackupRestore(supabase, bundle, target, newId);
+
+  const { data, error } = await supabase.rpc("restore_backup_bundle", {
+    p_partnership_id: target.partnershipId,
+    p_plan: plan,
+  });
+  if (error) throw new Error(`restore_backup_bundle: ${error.message}`);
+
+  return { restored: (data as Record<string, number> | null) ?? {}, skipped };
+}
+
+/** Buys before the sells that name them as parcels, so their new IDs are known */
+function inTradeOrder(rows: Row[]): Row[] {
+  const key = (row: Row) => `${row.trade_date}:${row.transaction_type === "sell" ? 1 : 0}`;
+  return [...rows].sort((a, b) => key(a).localeCompare(key(b)));
+}
+
+function pickColumns(source: Row | null, columns: readonly string[]): Row | null {
+  if (!source) return null;
+  const out: Row = {};
+  for (const column of columns) {
+    if (column in source) out[column] = source[column];
+  }
+  return Object.keys(out).length > 0 ? out : null;
+}
+
+/** Drop notes the destination already has, so a second restore doesn't duplicate them */
+async function withoutExistingNotes(supabase: SupabaseClient, rows: Row[]): Promise<Row[]> {
+  const existing = new Set<string>();
+  const transactionIds = Array.from(new Set(rows.map((r) => String(r.transaction_id))));
+  for (const ids of chunks(transactionIds)) {
+    const { data, error } = await supabase
+      .from("transaction_notes")
+      .select("transaction_id, user_id, note")
+      .in("transaction_id", ids);
+    if (error) throw new Error(`transaction_notes: ${error.message}`);
+    for (const n of data ?? []) existing.add(`${n.transaction_id}::${n.user_id}::${n.note}`);
+  }
+  return rows.filter((r) => !existing.has(`${r.transaction_id}::${r.user_id}::${r.note}`));
+}
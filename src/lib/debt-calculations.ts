@@ -0,0 +1,261 @@
+// ============================================================================
+// Debt Calculations
+// Pure functions for the liabilities list and the avalanche/snowball payoff
+// planner. No database access — all data passed in as arguments.
+// ============================================================================
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DEBT_TYPES = [
+  "mortgage",
+  "car_loan",
+  "hecs_help",
+  "credit_card",
+  "bnpl",
+  "personal_loan",
+  "other",
+] as const;
+
+export type DebtType = (typeof DEBT_TYPES)[number];
+
+export const DEBT_TYPE_LABELS: Record<DebtType, string> = {
+  mortgage: "Mortgage",
+  car_loan: "Car loan",
+  hecs_help: "HECS/HELP",
+  credit_card: "Credit card",
+  bnpl: "Buy now, pay later",
+  personal_loan: "Personal loan",
+  other: "Other",
+};
+
+export const REPAYMENT_FREQUENCIES = ["weekly", "fortnightly", "monthly"] as const;
+
+export type RepaymentFrequency = (typeof REPAYMENT_FREQUENCIES)[number];
+
+/** A row from the debts table, as selected by the plan page and actions */
+export interface DebtRecord {
+  id: string;
+  name: string;
+  debt_type: DebtType;
+  balance_cents: number;
+  interest_rate: number;
+  minimum_repayment_cents: number;
+  repayment_frequency: RepaymentFrequency;
+  linked_account_id: string | null;
+  notes?: string | null;
+}
+
+/** A debt normalised for the payoff simulation: monthly repayment, % rate */
+export interface PayoffDebt {
+  id: string;
+  name: string;
+  balanceCents: number;
+  annualRatePercent: number;
+  monthlyRepaymentCents: number;
+}
+
+export type PayoffStrategy = "avalanche" | "snowball";
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  /** Months until every debt is cleared, or null if it never happens */
+  months: number | null;
+  totalInterestCents: number;
+  totalPaidCents: number;
+  payoffOrder: { id: string; name: string; month: number }[];
+  /** Combined balance at the end of each month, starting with month 0 */
+  balanceByMonth: number[];
+}
+
+export interface PayoffComparison {
+  avalanche: PayoffPlan;
+  snowball: PayoffPlan;
+  /** Interest avalanche saves over snowball (never negative) */
+  interestSavedCents: number;
+  /** Months avalanche saves over snowball, when both finish */
+  monthsSaved: number | null;
+}
+
+/** 50 years — anything longer is treated as never paid off */
+export const MAX_PAYOFF_MONTHS = 600;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Convert a repayment at the given frequency to its monthly equivalent. */
+export function toMonthlyRepaymentCents(
+  amountCents: number,
+  frequency: RepaymentFrequency
+): number {
+  switch (frequency) {
+    case "weekly":
+      return Math.round((amountCents * 52) / 12);
+    case "fortnightly":
+      return Math.round((amountCents * 26) / 12);
+    default:
+      return amountCents;
+  }
+}
+
+/**
+ * Debt balance that should be recorded as a liability in net worth.
+ * Debts linked to a synced account are skipped: that account's negative
+ * balance is already in the bank total.
+ */
+export function calculateLiabilityTotal(
+  debts: Pick<DebtRecord, "balance_cents" | "linked_account_id">[]
+): number {
+  return debts
+    .filter((d) => !d.linked_account_id)
+    .reduce((sum, d) => sum + Math.max(0, d.balance_cents || 0), 0);
+}
+
+/** Normalise debt rows for the payoff planner, dropping cleared debts. */
+export function toPayoffDebts(debts: DebtRecord[]): PayoffDebt[] {
+  return debts
+    .filter((d) => d.balance_cents > 0)
+    .map((d) => ({
+      id: d.id,
+      name: d.name,
+      balanceCents: d.balance_cents,
+      annualRatePercent: Number(d.interest_rate) || 0,
+      monthlyRepaymentCents: toMonthlyRepaymentCents(
+        d.minimum_repayment_cents,
+        d.repayment_frequency
+      ),
+    }));
+}
+
+function orderForStrategy<T extends Pick<PayoffDebt, "balanceCents" | "annualRatePercent">>(
+  debts: T[],
+  strategy: PayoffStrategy
+): T[] {
+  return [...debts].sort((a, b) =>
+    strategy === "avalanche"
+      ? b.annualRatePercent - a.annualRatePercent || a.balanceCents - b.balanceCents
+      : a.balanceCents - b.balanceCents || b.annualRatePercent - a.annualRatePercent
+  );
+}
+
+// ============================================================================
+// Payoff Simulation
+// ============================================================================
+
+/**
+ * Simulate paying off every debt month by month.
+ *
+ * Each month interest is added, every open debt gets its minimum repayment,
+ * and whatever is left of the budget (the extra amount plus the minimums of
+ * debts already cleared) goes to the focus debt: the highest rate for
+ * avalanche, the smallest balance for snowball.
+ */
+export function simulatePayoff(
+  debts: PayoffDebt[],
+  strategy: PayoffStrategy,
+  extraMonthlyCents: number = 0
+): PayoffPlan {
+  const open = debts
+    .filter((d) => d.balanceCents > 0)
+    .map((d) => ({ ...d }));
+  const monthlyBudget =
+    open.reduce((sum, d) => sum + d.monthlyRepaymentCents, 0) +
+    Math.max(0, extraMonthlyCents);
+
+  const payoffOrder: PayoffPlan["payoffOrder"] = [];
+  const balanceByMonth = [open.reduce((sum, d) => sum + d.balanceCents, 0)];
+  let totalInterestCents = 0;
+  let totalPaidCents = 0;
+  let month = 0;
+
+  while (open.some((d) => d.balanceCents > 0) && month < MAX_PAYOFF_MONTHS) {
+    month++;
+    let budget = monthlyBudget;
+
+    for (const debt of open) {
+      if (debt.balanceCents <= 0) continue;
+      const interest = Math.round(
+        (debt.balanceCents * debt.annualRatePercent) / 100 / 12
+      );
+      debt.balanceCents += interest;
+      totalInterestCents += interest;
+    }
+
+    for (const debt of open) {
+      if (debt.balanceCents <= 0) continue;
+      const payment = Math.min(debt.monthlyRepaymentCents, debt.balanceCents, budget);
+      debt.balanceCents -= payment;
+      budget -= payment;
+      totalPaidCents += payment;
+    }
+
+    for (const debt of orderForStrategy(
+      open.filter((d) => d.balanceCents > 0),
+      strategy
+    )) {
+      if (budget <= 0) break;
+      const payment = Math.min(debt.balanceCents, budget);
+      debt.balanceCents -= payment;
+      budget -= payment;
+      totalPaidCents += payment;
+    }
+
+    for (const debt of open) {
+      if (debt.balanceCents <= 0 && !payoffOrder.some((p) => p.id === debt.id)) {
+        payoffOrder.push({ id: debt.id, name: debt.name, month });
+      }
+    }
+    balanceByMonth.push(open.reduce((sum, d) => sum + d.balanceCents, 0));
+  }
+
+  const cleared = open.every((d) => d.balanceCents <= 0);
+  return {
+    strategy,
+    months: cleared ? month : null,
+    totalInterestCents,
+    totalPaidCents,
+    payoffOrder,
+    balanceByMonth,
+  };
+}
+
+/** Run both strategies with the same budget and compare them. */
+export function comparePayoffStrategies(
+  debts: PayoffDebt[],
+  extraMonthlyCents: number = 0
+): PayoffComparison {
+  const avalanche = simulatePayoff(debts, "avalanche", extraMonthlyCents);
+  const snowball = simulatePayoff(debts, "snowball", extraMonthlyCents);
+
+  return {
+    avalanche,
+    snowball,
+    interestSavedCents: Math.max(
+      0,
+      snowball.totalInterestCents - avalanche.totalInterestCents
+    ),
+    monthsSaved:
+      avalanche.months !== null && snowball.months !== null
+        ? snowball.months - avalanche.months
+        : null,
+  };
+}
+
+/**
+ * Debts whose rate beats the expected investment return. Paying these down
+ * is a guaranteed return higher than investing, so the FIRE gameplan puts
+ * them first. Sorted highest rate first.
+ */
+export function findHighInterestDebts(
+  debts: PayoffDebt[],
+  expectedReturnPercent: number
+): PayoffDebt[] {
+  return orderForStrategy(
+    debts.filter(
+      (d) => d.balanceCents > 0 && d.annualRatePercent > expectedReturnPercent
+    ),
+    "avalanche"
+  );
+}
@@ -23,6 +23,13 @@ export const FIRE_MULTIPLIER = 1 / SAFE_WITHDRAWAL_RATE; // 25
 /** Fat FIRE multiplier over regular spending */
 export const FAT_FIRE_MULTIPLIER = 1.25;
 
+/** Monte Carlo defaults: roughly a growth-heavy diversified portfolio */
+export const DEFAULT_MONTE_CARLO_ASSUMPTIONS: MonteCarloAssumptions = {
+  returnVolatility: 15,
+  inflationVolatility: 1,
+  simulations: 1000,
+};
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -32,6 +39,7 @@ export interface FireProfile {
   targetRetirementAge: number | null; // null = "as soon as possible"
   superBalanceCents: number;
   superContributionRate: number; // percentage, e.g. 11.5
+  voluntarySuperContributionCents?: number; // annual salary sacrifice + personal contributions
   expectedReturnRate: number; // percentage, e.g. 7.0 — used for super bucket
   outsideSuperReturnRate: number | null; // when null, falls back to expectedReturnRate
   incomeGrowthRate: number; // annual %, e.g. 3.0
@@ -127,6 +135,47 @@ export interface IncomeMilestone {
   yearsSaved: number | null;
 }
 
+/**
+ * Changes to one year of a projection, in today's dollars — used by the
+ * scenario planner for temporary or delayed income and spending changes and
+ * for lump sums, and by life milestones for their costs.
+ */
+export interface ProjectionAdjustment {
+  yearOffset: number; // 0 = the coming year
+  incomeCents?: number;
+  spendingCents?: number;
+  outsideSuperCents?: number; // added to (or taken from) investments at the start of the year
+}
+
+export interface MonteCarloAssumptions {
+  returnVolatility: number; // annual standard deviation of returns, %, e.g. 15
+  inflationRate?: number; // mean %, defaults to the profile's spendingGrowthRate
+  inflationVolatility: number; // annual standard deviation of inflation, %
+  simulations?: number; // defaults to 1,000
+  seed?: number; // same seed, same runs
+  targetAge?: number; // success means FIRE by this age; defaults to the target retirement age
+}
+
+export interface MonteCarloBand {
+  age: number;
+  year: number;
+  p10Cents: number;
+  p50Cents: number;
+  p90Cents: number;
+  fireTargetCents: number; // median FIRE number, which grows with inflation
+}
+
+export interface MonteCarloResult {
+  simulations: number;
+  targetAge: number;
+  successProbability: number; // % of runs reaching FIRE by targetAge
+  /** Age by which 10% / 50% / 90% of runs reach FIRE; null when fewer runs ever do */
+  fireAgeP10: number | null;
+  fireAgeP50: number | null;
+  fireAgeP90: number | null;
+  bands: MonteCarloBand[];
+}
+
 // ============================================================================
 // Core Functions
 // ============================================================================
@@ -237,11 +286,14 @@ export function calculateCoastFire(
  *
  * Outside-super grows by: discretionary savings (income - spending - SG) + investment returns
  * Super grows by: employer contributions (SG%) + investment returns
+ *
+ * `adjustments` apply year-specific changes on top (see ProjectionAdjustment).
  */
 export function projectFireDate(
   profile: FireProfile,
   spending: SpendingData,
-  investments: InvestmentData
+  investments: InvestmentData,
+  adjustments: ProjectionAdjustment[] = []
 ): FireResult {
   const now = new Date();
   const currentAge = calculateAge(profile.dateOfBirth, now);
@@ -266,7 +318,8 @@ export function projectFireDate(
       investments,
       annualExpenses,
       fireNumber,
-      variant
+      variant,
+      adjustments
     );
 
     const totalCurrent = investments.outsideSuperCents + investments.superBalanceCents;
@@ -305,7 +358,8 @@ export function projectFireDate(
     spending,
     investments,
     annualExpenses,
-    fireNumber
+    fireNumber,
+    adjustments
   );
 
   const yearsToFire = selected.projectedAge !== null
@@ -328,14 +382,16 @@ export function projectFireDate(
 }
 
 /**
- * Calculate the impact of additional monthly savings on FIRE date
+ * Calculate the impact of additional monthly savings on FIRE date.
+ * Pass the same `adjustments` the original result was projected with.
  */
 export function calculateSavingsImpact(
   result: FireResult,
   extraMonthlyCents: number,
   profile: FireProfile,
   spending: SpendingData,
-  investments: InvestmentData
+  investments: InvestmentData,
+  adjustments: ProjectionAdjustment[] = []
 ): SavingsImpactResult {
   if (extraMonthlyCents <= 0) {
     return {
@@ -357,7 +413,7 @@ export function calculateSavingsImpact(
       : 0,
   };
 
-  const newResult = projectFireDate(profile, modifiedSpending, investments);
+  const newResult = projectFireDate(profile, modifiedSpending, investments, adjustments);
 
   const yearsSaved =
     result.projectedFireAge !== null && newResult.projectedFireAge !== null
@@ -383,7 +439,8 @@ export function calculateIncomeImpact(
   extraMonthlyIncomeCents: number,
   profile: FireProfile,
   spending: SpendingData,
-  investments: InvestmentData
+  investments: InvestmentData,
+  adjustments: ProjectionAdjustment[] = []
 ): IncomeImpactResult {
   if (extraMonthlyIncomeCents <= 0) {
     return {
@@ -404,7 +461,7 @@ export function calculateIncomeImpact(
       : 0,
   };
 
-  const newResult = projectFireDate(profile, modifiedSpending, investments);
+  const newResult = projectFireDate(profile, modifiedSpending, investments, adjustments);
 
   const extraAnnualIncome = extraMonthlyIncomeCents * 12;
   const extraSuperContribution = Math.round(
@@ -596,10 +653,181 @@ export function generateRecommendations(
   return recommendations;
 }
 
+// ============================================================================
+// Monte Carlo Simulation
+// ============================================================================
+
+/**
+ * Run the FIRE projection many times with random yearly returns and
+ * inflation instead of fixed rates.
+ *
+ * Each year draws one market shock shared by both buckets (super and
+ * outside super move together) around their expected returns, and an
+ * inflation rate that grows spending and the FIRE number. Income growth and
+ * contributions follow the deterministic projection, so with zero
+ * volatility every run matches `projectFireDate`. Runs are seeded, so the
+ * same inputs always give the same result.
+ */
+export function simulateFireMonteCarlo(
+  currentAge: number,
+  profile: FireProfile,
+  spending: SpendingData,
+  investments: InvestmentData,
+  fireNumberCents: number,
+  assumptions: MonteCarloAssumptions = DEFAULT_MONTE_CARLO_ASSUMPTIONS,
+  adjustments: ProjectionAdjustment[] = []
+): MonteCarloResult {
+  const simulations = Math.max(1, Math.round(assumptions.simulations ?? 1000));
+  const targetAge =
+    assumptions.targetAge ?? profile.targetRetirementAge ?? AGE_PENSION_AGE;
+  const superReturnRate = profile.expectedReturnRate / 100;
+  const outsideReturnRate = (profile.outsideSuperReturnRate ?? profile.expectedReturnRate) / 100;
+  const returnVolatility = assumptions.returnVolatility / 100;
+  const inflationRate = (assumptions.inflationRate ?? profile.spendingGrowthRate ?? 0) / 100;
+  const inflationVolatility = assumptions.inflationVolatility / 100;
+  const incomeGrowthRate = (profile.incomeGrowthRate || 0) / 100;
+  const random = createRandom(assumptions.seed ?? 1);
+
+  const maxAge = 100;
+  const bandMaxAge = Math.min(80, currentAge + 50);
+  const bandYears = Math.max(0, bandMaxAge - currentAge) + 1;
+  const totalsByYear: number[][] = Array.from({ length: bandYears }, () => []);
+  const targetsByYear: number[][] = Array.from({ length: bandYears }, () => []);
+  const fireAges: number[] = [];
+
+  for (let run = 0; run < simulations; run++) {
+    let outsideSuper = investments.outsideSuperCents;
+    let superBalance = investments.superBalanceCents;
+    let currentAnnualIncome = spending.monthlyIncomeCents * 12;
+    let currentAnnualSpending = spending.monthlyTotalSpendCents * 12;
+    let currentFireTarget = fireNumberCents;
+    let fireAge = Infinity;
+
+    for (let age = currentAge; age <= maxAge; age++) {
+      const adjustment = adjustmentFor(adjustments, age - currentAge);
+      outsideSuper = Math.max(0, outsideSuper + adjustment.outsideSuperCents);
+      const total = outsideSuper + superBalance;
+      if (age <= bandMaxAge) {
+        totalsByYear[age - currentAge].push(total);
+        targetsByYear[age - currentAge].push(currentFireTarget);
+      }
+      if (fireAge === Infinity && total >= currentFireTarget) fireAge = age;
+      if (fireAge !== Infinity && age >= bandMaxAge) break;
+
+      const yearIncome = Math.max(0, currentAnnualIncome + adjustment.incomeCents);
+      const annualSuperContribution = Math.round(
+        (yearIncome * profile.superContributionRate) / 100
+      );
+      const voluntarySuperContribution = profile.voluntarySuperContributionCents ?? 0;
+      const annualSavings = yearIncome - (currentAnnualSpending + adjustment.spendingCents);
+      const outsideSuperSavings =
+        Math.max(0, annualSavings) - annualSuperContribution - voluntarySuperContribution;
+
+      // A year can lose money but never more than everything
+      const shock = returnVolatility * normalRandom(random);
+      const outsideReturn = Math.max(-0.99, outsideReturnRate + shock);
+      const superReturn = Math.max(-0.99, superReturnRate + shock);
+      const inflation = inflationRate + inflationVolatility * normalRandom(random);
+
+      outsideSuper = Math.round(outsideSuper * (1 + outsideReturn) + Math.max(0, outsideSuperSavings));
+      superBalance = Math.round(
+        superBalance * (1 + superReturn) + annualSuperContribution + voluntarySuperContribution
+      );
+
+      if (incomeGrowthRate > 0) {
+        currentAnnualIncome = Math.round(currentAnnualIncome * (1 + incomeGrowthRate));
+      }
+      if (inflation !== 0) {
+        currentAnnualSpending = Math.round(currentAnnualSpending * (1 + inflation));
+        currentFireTarget = Math.round(currentFireTarget * (1 + inflation));
+      }
+    }
+
+    fireAges.push(fireAge);
+  }
+
+  fireAges.sort((a, b) => a - b);
+  const ageAt = (p: number) => {
+    const age = percentile(fireAges, p);
+    return Number.isFinite(age) ? age : null;
+  };
+  const fireAgeP90 = ageAt(0.9);
+
+  // Stop the bands once most runs have reached FIRE (and past the target age)
+  const bandEndAge = Math.min(bandMaxAge, Math.max(targetAge, fireAgeP90 ?? bandMaxAge));
+  const currentYear = new Date().getFullYear();
+  const bands: MonteCarloBand[] = [];
+  for (let age = currentAge; age <= bandEndAge; age++) {
+    const totals = totalsByYear[age - currentAge].sort((a, b) => a - b);
+    const targets = targetsByYear[age - currentAge].sort((a, b) => a - b);
+    if (totals.length === 0) break;
+    bands.push({
+      age,
+      year: currentYear + (age - currentAge),
+      p10Cents: percentile(totals, 0.1),
+      p50Cents: percentile(totals, 0.5),
+      p90Cents: percentile(totals, 0.9),
+      fireTargetCents: percentile(targets, 0.5),
+    });
+  }
+
+  const successes = fireAges.filter((age) => age <= targetAge).length;
+
+  return {
+    simulations,
+    targetAge,
+    successProbability: (successes / simulations) * 100,
+    fireAgeP10: ageAt(0.1),
+    fireAgeP50: ageAt(0.5),
+    fireAgeP90,
+    bands,
+  };
+}
+
 // ============================================================================
 // Internal Helpers
 // ============================================================================
 
+/** Combined adjustments for one projection year (zero when there are none) */
+function adjustmentFor(
+  adjustments: ProjectionAdjustment[],
+  yearOffset: number
+): Required<Omit<ProjectionAdjustment, "yearOffset">> {
+  const total = { incomeCents: 0, spendingCents: 0, outsideSuperCents: 0 };
+  for (const a of adjustments) {
+    if (a.yearOffset !== yearOffset) continue;
+    total.incomeCents += a.incomeCents ?? 0;
+    total.spendingCents += a.spendingCents ?? 0;
+    total.outsideSuperCents += a.outsideSuperCents ?? 0;
+  }
+  return total;
+}
+
+/** Seeded uniform [0, 1) generator (mulberry32) */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box–Muller) */
+function normalRandom(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Nearest-rank percentile of an ascending array */
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+}
+
 function runProjection(
   currentAge: number,
   profile: FireProfile,
@@ -607,7 +835,8 @@ function runProjection(
   investments: InvestmentData,
   annualExpensesCents: number,
   fireNumberCents: number,
-  variant: "lean" | "regular" | "fat" | "coast"
+  variant: "lean" | "regular" | "fat" | "coast",
+  adjustments: ProjectionAdjustment[] = []
 ): { fireDate: Date | null; fireAge: number | null } {
   const superReturnRate = profile.expectedReturnRate / 100;
   const outsideReturnRate = (profile.outsideSuperReturnRate ?? profile.expectedReturnRate) / 100;
@@ -623,6 +852,8 @@ function runProjection(
   const maxAge = 100;
 
   for (let age = currentAge; age <= maxAge; age++) {
+    const adjustment = adjustmentFor(adjustments, age - currentAge);
+    outsideSuper = Math.max(0, outsideSuper + adjustment.outsideSuperCents);
     const total = outsideSuper + superBalance;
 
     // For coast FIRE, check if current investments will grow to FIRE number
@@ -657,15 +888,22 @@ function runProjection(
     // by both including it in the outside-super savings AND adding it to
     // the super bucket.  Only the super bucket receives the SG amount;
     // outside-super receives the remaining discretionary savings.
+    const yearIncome = Math.max(0, currentAnnualIncome + adjustment.incomeCents);
     const annualSuperContribution = Math.round(
-      (currentAnnualIncome * profile.superContributionRate) / 100
+      (yearIncome * profile.superContributionRate) / 100
     );
-    const annualSavings = currentAnnualIncome - currentAnnualSpending;
-    const outsideSuperSavings = Math.max(0, annualSavings) - annualSuperContribution;
+    // Salary sacrifice and personal contributions come out of the household's
+    // own savings, so they move money between buckets rather than add to it.
+    const voluntarySuperContribution = profile.voluntarySuperContributionCents ?? 0;
+    const annualSavings = yearIncome - (currentAnnualSpending + adjustment.spendingCents);
+    const outsideSuperSavings =
+      Math.max(0, annualSavings) - annualSuperContribution - voluntarySuperContribution;
 
     // Grow investments (separate rates per bucket)
     outsideSuper = Math.round(outsideSuper * (1 + outsideReturnRate) + Math.max(0, outsideSuperSavings));
-    superBalance = Math.round(superBalance * (1 + superReturnRate) + annualSuperContribution);
+    superBalance = Math.round(
+      superBalance * (1 + superReturnRate) + annualSuperContribution + voluntarySuperContribution
+    );
 
     // Grow income and spending for next year
     if (incomeGrowthRate > 0) {
@@ -687,7 +925,8 @@ export function generateProjectionData(
   spending: SpendingData,
   investments: InvestmentData,
   annualExpensesCents: number,
-  fireNumberCents: number
+  fireNumberCents: number,
+  adjustments: ProjectionAdjustment[] = []
 ): ProjectionYear[] {
   const superReturnRate = profile.expectedReturnRate / 100;
   const outsideReturnRate = (profile.outsideSuperReturnRate ?? profile.expectedReturnRate) / 100;
@@ -706,6 +945,8 @@ export function generateProjectionData(
   const maxAge = Math.min(80, currentAge + 50);
 
   for (let age = currentAge; age <= maxAge; age++) {
+    const adjustment = adjustmentFor(adjustments, age - currentAge);
+    outsideSuper = Math.max(0, outsideSuper + adjustment.outsideSuperCents);
     data.push({
       age,
       year: currentYear + (age - currentAge),
@@ -720,14 +961,19 @@ export function generateProjectionData(
       break;
     }
 
+    const yearIncome = Math.max(0, currentAnnualIncome + adjustment.incomeCents);
     const annualSuperContribution = Math.round(
-      (currentAnnualIncome * profile.superContributionRate) / 100
+      (yearIncome * profile.superContributionRate) / 100
     );
-    const annualSavings = currentAnnualIncome - currentAnnualSpending;
-    const outsideSuperSavings = Math.max(0, annualSavings) - annualSuperContribution;
+    const voluntarySuperContribution = profile.voluntarySuperContributionCents ?? 0;
+    const annualSavings = yearIncome - (currentAnnualSpending + adjustment.spendingCents);
+    const outsideSuperSavings =
+      Math.max(0, annualSavings) - annualSuperContribution - voluntarySuperContribution;
 
     outsideSuper = Math.round(outsideSuper * (1 + outsideReturnRate) + Math.max(0, outsideSuperSavings));
-    superBalance = Math.round(superBalance * (1 + superReturnRate) + annualSuperContribution);
+    superBalance = Math.round(
+      superBalance * (1 + superReturnRate) + annualSuperContribution + voluntarySuperContribution
+    );
 
     // Grow income and spending for next year
     if (incomeGrowthRate > 0) {
@@ -14,7 +14,13 @@ import {
   type FireProfile,
   type SpendingData,
   type InvestmentData,
+  type ProjectionAdjustment,
 } from "./fire-calculations";
+import {
+  findHighInterestDebts,
+  simulatePayoff,
+  type PayoffDebt,
+} from "./debt-calculations";
 
 // ============================================================================
 // Types
@@ -35,7 +41,7 @@ export interface FireGameplan {
 }
 
 export interface GameplanAction {
-  type: "save-invest" | "earn-more" | "cut-spending" | "switch-variant";
+  type: "pay-off-debt" | "save-invest" | "earn-more" | "cut-spending" | "switch-variant";
   priority: "primary" | "secondary" | "alternative";
   headline: string;
   detail: string;
@@ -85,12 +91,18 @@ export interface EtfSuggestion {
 // Main Orchestrator
 // ============================================================================
 
+/**
+ * `adjustments` are the year-by-year changes (e.g. life milestones) that
+ * `fireResult` was projected with, so the suggested actions account for them.
+ */
 export function generateFireGameplan(
   fireResult: FireResult,
   fireProfile: FireProfile,
   spending: SpendingData,
   investments: InvestmentData,
-  currentAge: number
+  currentAge: number,
+  debts: PayoffDebt[] = [],
+  adjustments: ProjectionAdjustment[] = []
 ): FireGameplan {
   const targetAge = fireProfile.targetRetirementAge;
   const projectedAge = fireResult.projectedFireAge;
@@ -115,14 +127,18 @@ export function generateFireGameplan(
   const targetLabel = formatCentsCompact(fireResult.fireNumberCents) + " target";
 
   // Generate all sections
-  const actions = generateActions(
-    fireResult,
-    fireProfile,
-    spending,
-    investments,
-    currentAge,
-    status
-  );
+  const actions = [
+    ...generateDebtActions(debts, fireProfile),
+    ...generateActions(
+      fireResult,
+      fireProfile,
+      spending,
+      investments,
+      currentAge,
+      status,
+      adjustments
+    ),
+  ];
 
   const milestones = computeMilestones(fireResult, investments, fireProfile.fireVariant);
   const coastFire = computeCoastFire(fireResult, fireProfile, investments, currentAge);
@@ -130,7 +146,8 @@ export function generateFireGameplan(
     fireProfile,
     spending,
     investments,
-    currentAge
+    currentAge,
+    adjustments
   );
 
   // Savings rate +10% impact
@@ -164,13 +181,55 @@ export function generateFireGameplan(
 // Action Generation
 // ============================================================================
 
+/**
+ * Debts charging more than the portfolio is expected to earn come first:
+ * every dollar repaid there beats a dollar invested. The payoff timeline
+ * uses the avalanche order with current minimum repayments.
+ */
+function generateDebtActions(
+  debts: PayoffDebt[],
+  fireProfile: FireProfile
+): GameplanAction[] {
+  const expectedReturn =
+    fireProfile.outsideSuperReturnRate ?? fireProfile.expectedReturnRate;
+  const highInterest = findHighInterestDebts(debts, expectedReturn);
+  if (highInterest.length === 0) return [];
+
+  const plan = simulatePayoff(highInterest, "avalanche");
+  const totalCents = highInterest.reduce((sum, d) => sum + d.balanceCents, 0);
+  const monthlyCents = highInterest.reduce(
+    (sum, d) => sum + d.monthlyRepaymentCents,
+    0
+  );
+  const first = highInterest[0];
+
+  return [
+    {
+      type: "pay-off-debt",
+      priority: "primary",
+      headline:
+        highInterest.length === 1
+          ? `Clear ${first.name} before investing more`
+          : `Clear ${formatCentsShort(totalCents)} of high-interest debt first`,
+      detail:
+        plan.months !== null
+          ? `At ${first.annualRatePercent}% it costs more than investing earns — paid off in ${plan.months} months at ${formatCentsShort(monthlyCents)}/mo`
+          : `At ${first.annualRatePercent}% it costs more than investing earns — current repayments don't cover the interest`,
+      amountPerMonthCents: monthlyCents,
+      impactYears: null,
+      resultAge: null,
+    },
+  ];
+}
+
 function generateActions(
   fireResult: FireResult,
   fireProfile: FireProfile,
   spending: SpendingData,
   investments: InvestmentData,
   currentAge: number,
-  status: "on-track" | "gap" | "impossible"
+  status: "on-track" | "gap" | "impossible",
+  adjustments: ProjectionAdjustment[]
 ): GameplanAction[] {
   const actions: GameplanAction[] = [];
   const monthlySavingsCents = Math.max(
@@ -205,7 +264,8 @@ function generateActions(
     fireProfile,
     spending,
     investments,
-    effectiveTargetAge
+    effectiveTargetAge,
+    adjustments
   );
 
   if (incomeResult.extraMonthlyCents > 0) {
@@ -247,7 +307,8 @@ function generateActions(
     fireProfile,
     spending,
     investments,
-    effectiveTargetAge
+    effectiveTargetAge,
+    adjustments
   );
 
   if (savingsResult.extraMonthlyCents > 0) {
@@ -314,7 +375,8 @@ export function findRequiredExtraIncome(
   profile: FireProfile,
   spending: SpendingData,
   investments: InvestmentData,
-  targetAge: number
+  targetAge: number,
+  adjustments: ProjectionAdjustment[] = []
 ): { extraMonthlyCents: number; resultAge: number | null } {
   // Already on track?
   if (
@@ -336,7 +398,8 @@ export function findRequiredExtraIncome(
       mid,
       profile,
       spending,
-      investments
+      investments,
+      adjustments
     );
 
     if (impact.newFireAge !== null && impact.newFireAge <= targetAge) {
@@ -357,7 +420,8 @@ export function findRequiredExtraIncome(
       high,
       profile,
       spending,
-      investments
+      investments,
+      adjustments
     );
     return {
       extraMonthlyCents: high,
@@ -377,7 +441,8 @@ export function findRequiredExtraSavings(
   profile: FireProfile,
   spending: SpendingData,
   investments: InvestmentData,
-  targetAge: number
+  targetAge: number,
+  adjustments: ProjectionAdjustment[] = []
 ): { extraMonthlyCents: number; resultAge: number | null } {
   if (
     fireResult.projectedFireAge !== null &&
@@ -405,7 +470,8 @@ export function findRequiredExtraSavings(
       mid,
       profile,
       spending,
-      investments
+      investments,
+      adjustments
     );
 
     if (impact.newFireAge !== null && impact.newFireAge <= targetAge) {
@@ -425,7 +491,8 @@ export function findRequiredExtraSavings(
       discretionaryCents,
       profile,
       spending,
-      investments
+      investments,
+      adjustments
     );
     return {
       extraMonthlyCents: discretionaryCents,
@@ -521,7 +588,8 @@ export function computeSavingsRateCurve(
   profile: FireProfile,
   spending: SpendingData,
   investments: InvestmentData,
-  currentAge: number
+  currentAge: number,
+  adjustments: ProjectionAdjustment[] = []
 ): SavingsRatePoint[] {
   const currentRate = Math.round(spending.savingsRatePercent / 10) * 10;
   const points: SavingsRatePoint[] = [];
@@ -548,7 +616,7 @@ export function computeSavingsRateCurve(
       savingsRatePercent: rate,
     };
 
-    const result = projectFireDate(profile, modifiedSpending, investments);
+    const result = projectFireDate(profile, modifiedSpending, investments, adjustments);
     const yearsToFire =
       result.projectedFireAge !== null
         ? result.projectedFireAge - currentAge
@@ -0,0 +1,158 @@
+/**
+ * Stored daily FX rates (fx_rates).
+ *
+ * Rates are shared reference data: any signed-in user can read them, but
+ * only the service role writes, so saves here go through the service role
+ * client. Saving is best-effort — a failed write is logged and the caller
+ * carries on with the rate it already has.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/utils/supabase/service-role";
+import { fetchExchangeRateHistoryToAud, fetchExchangeRateToAud } from "@/lib/price-apis";
+import { BASE_CURRENCY, isForeignCurrency, type FxRate } from "@/lib/fx-rates";
+
+/** How far back to fill a currency that has no stored rates yet */
+const BACKFILL_DAYS = 365;
+/** How far back a rate can be and still count for a date (long weekends, holidays) */
+const MAX_RATE_AGE_DAYS = 7;
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/** Upsert rates, keyed by currency and date */
+export async function saveFxRates(rates: FxRate[], source = "yahoo"): Promise<void> {
+  if (rates.length === 0) return;
+  try {
+    const { error } = await createServiceRoleClient()
+      .from("fx_rates")
+      .upsert(
+        rates.map((r) => ({
+          currency_code: r.currency_code.toUpperCase(),
+          rate_date: r.rate_date,
+          aud_rate: r.aud_rate,
+          source,
+        })),
+        { onConflict: "currency_code,rate_date" }
+      );
+    if (error) console.error("Failed to save FX rates:", error.message);
+  } catch (error) {
+    console.error("Failed to save FX rates:", error);
+  }
+}
+
+const FX_RATE_PAGE_SIZE = 1000;
+
+/**
+ * Load stored rates for the given currencies from `fromDate` onwards, plus a
+ * week before it so the first day has a previous close to fall back on.
+ * Paged, since a long range or several currencies can pass the API row cap.
+ */
+export async function loadFxRates(
+  supabase: SupabaseClient,
+  currencyCodes: string[],
+  fromDate: string
+): Promise<FxRate[]> {
+  const codes = [...new Set(currencyCodes.filter(isForeignCurrency).map((c) => c.toUpperCase()))];
+  if (codes.length === 0) return [];
+
+  const rates: FxRate[] = [];
+  for (let offset = 0; ; offset += FX_RATE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("fx_rates")
+      .select("currency_code, rate_date, aud_rate")
+      .in("currency_code", codes)
+      .gte("rate_date", shiftDate(fromDate, -MAX_RATE_AGE_DAYS))
+      .order("rate_date", { ascending: true })
+      .order("currency_code", { ascending: true })
+      .range(offset, offset + FX_RATE_PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load FX rates: ${error.message}`);
+    rates.push(...(data ?? []).map((r) => ({ ...r, aud_rate: Number(r.aud_rate) })));
+    if (!data || data.length < FX_RATE_PAGE_SIZE) break;
+  }
+
+  return rates;
+}
+
+/**
+ * AUD per 1 unit of `currencyCode` on `date` (YYYY-MM-DD). Uses the stored
+ * rate when there is one, otherwise fetches and stores it. Returns null when
+ * no rate can be found.
+ */
+export async function getFxRateOn(
+  supabase: SupabaseClient,
+  currencyCode: string,
+  date: string
+): Promise<number | null> {
+  const code = currencyCode.toUpperCase();
+  if (code === BASE_CURRENCY) return 1;
+
+  const { data: stored } = await supabase
+    .from("fx_rates")
+    .select("aud_rate")
+    .eq("currency_code", code)
+    .lte("rate_date", date)
+    .gte("rate_date", shiftDate(date, -MAX_RATE_AGE_DAYS))
+    .order("rate_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (stored) return Number(stored.aud_rate);
+
+  const history = await fetchExchangeRateHistoryToAud(code, shiftDate(date, -MAX_RATE_AGE_DAYS), date);
+  if (history.length > 0) {
+    await saveFxRates(history.map((p) => ({ currency_code: code, rate_date: p.date, aud_rate: p.rate })));
+    return history[history.length - 1].rate;
+  }
+
+  // Today's close may not be out yet; fall back to the live rate
+  const today = new Date().toISOString().split("T")[0];
+  if (date >= today) {
+    const live = await fetchExchangeRateToAud(code);
+    if (live) {
+      await saveFxRates([{ currency_code: code, rate_date: today, aud_rate: live }]);
+      return live;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fill in daily rates for each currency from its latest stored date (or a
+ * year back) to `today`. Used by the FX rates cron job.
+ */
+export async function syncFxRates(
+  currencyCodes: string[],
+  today: string
+): Promise<{ currencyCode: string; saved: number }[]> {
+  const supabase = createServiceRoleClient();
+  const codes = [...new Set(currencyCodes.filter(isForeignCurrency).map((c) => c.toUpperCase()))];
+  const results: { currencyCode: string; saved: number }[] = [];
+
+  for (const code of codes) {
+    const { data: latest } = await supabase
+      .from("fx_rates")
+      .select("rate_date")
+      .eq("currency_code", code)
+      .order("rate_date", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const fromDate = latest ? shiftDate(latest.rate_date, 1) : shiftDate(today, -BACKFILL_DAYS);
+    if (fromDate > today) {
+      results.push({ currencyCode: code, saved: 0 });
+      continue;
+    }
+
+    const history = await fetchExchangeRateHistoryToAud(code, fromDate, today);
+    await saveFxRates(history.map((p) => ({ currency_code: code, rate_date: p.date, aud_rate: p.rate })));
+    results.push({ currencyCode: code, saved: history.length });
+  }
+
+  return results;
+}
@@ -0,0 +1,206 @@
+// ============================================================================
+// FX Rates
+// Pure functions for foreign-currency holdings and accounts: looking up the
+// stored daily rate for a date, converting native amounts to AUD, and
+// splitting a holding's gain into market movement and currency movement.
+// No database access — all data passed in as arguments.
+// ============================================================================
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const BASE_CURRENCY = "AUD";
+
+/** Currencies offered when adding a holding (any 3-letter code is accepted) */
+export const COMMON_CURRENCIES = ["AUD", "USD", "EUR", "GBP", "NZD", "JPY", "CAD", "SGD", "HKD", "CHF"] as const;
+
+/** A row from fx_rates: AUD per 1 unit of currency_code on rate_date */
+export interface FxRate {
+  currency_code: string;
+  rate_date: string; // YYYY-MM-DD
+  aud_rate: number;
+}
+
+/** Rate for a currency on a date, or null when none is stored on or before it */
+export type FxRateLookup = (currencyCode: string, date: string) => number | null;
+
+/** An investment as selected for the FX breakdown */
+export interface FxHolding {
+  id: string;
+  name: string;
+  currency_code: string;
+  current_value_cents: number;
+  purchase_value_cents: number | null;
+  native_value_cents: number | null;
+  native_purchase_value_cents: number | null;
+}
+
+export interface HoldingFxGain {
+  id: string;
+  name: string;
+  currencyCode: string;
+  valueCents: number;
+  nativeValueCents: number | null;
+  /** AUD per unit today, implied by the stored AUD and native values */
+  currentRate: number | null;
+  /** AUD per unit when bought, implied by the AUD and native cost base */
+  purchaseRate: number | null;
+  /** Price movement in the holding's currency, valued at today's rate */
+  marketGainCents: number | null;
+  /** Effect of the exchange rate moving since purchase */
+  fxGainCents: number | null;
+}
+
+export interface CurrencyExposure {
+  currencyCode: string;
+  holdingCount: number;
+  valueCents: number;
+  nativeValueCents: number;
+  marketGainCents: number;
+  fxGainCents: number;
+}
+
+export interface FxBreakdown {
+  holdings: HoldingFxGain[];
+  byCurrency: CurrencyExposure[];
+  totalMarketGainCents: number;
+  totalFxGainCents: number;
+}
+
+// ============================================================================
+// Lookup & Conversion
+// ============================================================================
+
+export function isForeignCurrency(currencyCode: string | null | undefined): boolean {
+  return !!currencyCode && currencyCode.toUpperCase() !== BASE_CURRENCY;
+}
+
+/**
+ * Build a lookup over stored daily rates. Uses the latest rate on or before
+ * the date, so weekends and holidays take the previous close. AUD is always 1.
+ */
+export function createFxLookup(rates: FxRate[]): FxRateLookup {
+  const byCurrency = new Map<string, FxRate[]>();
+  for (const rate of rates) {
+    const code = rate.currency_code.toUpperCase();
+    if (!byCurrency.has(code)) byCurrency.set(code, []);
+    byCurrency.get(code)!.push(rate);
+  }
+  for (const [, list] of byCurrency) {
+    list.sort((a, b) => a.rate_date.localeCompare(b.rate_date));
+  }
+
+  return (currencyCode, date) => {
+    const code = currencyCode.toUpperCase();
+    if (code === BASE_CURRENCY) return 1;
+    const list = byCurrency.get(code);
+    if (!list || list.length === 0 || list[0].rate_date > date) return null;
+
+    // Binary search for the last rate_date <= date
+    let lo = 0;
+    let hi = list.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (list[mid].rate_date <= date) lo = mid;
+      else hi = mid - 1;
+    }
+    return Number(list[lo].aud_rate);
+  };
+}
+
+/** Convert a native-currency amount to AUD cents */
+export function toAudCents(nativeCents: number, audRate: number): number {
+  return Math.round(nativeCents * audRate);
+}
+
+/**
+ * Sum account balances in AUD, converting foreign-currency accounts at the
+ * rate for `date`. A balance with no stored rate is counted as-is.
+ */
+export function sumBalancesInAud(
+  accounts: { balance_cents: number | null; currency_code?: string | null }[],
+  lookup: FxRateLookup,
+  date: string
+): number {
+  return accounts.reduce((sum, account) => {
+    const balance = account.balance_cents || 0;
+    if (!isForeignCurrency(account.currency_code)) return sum + balance;
+    const rate = lookup(account.currency_code!, date);
+    return sum + (rate === null ? balance : toAudCents(balance, rate));
+  }, 0);
+}
+
+// ============================================================================
+// Gain Breakdown
+// ============================================================================
+
+/**
+ * Split each foreign holding's gain into market and currency movement:
+ *
+ *   market = (native value - native cost) × today's rate
+ *   fx     = native cost × (today's rate - purchase rate)
+ *
+ * which add up to AUD value - AUD cost. Holdings without a native cost base
+ * are listed with null gains and left out of the totals.
+ */
+export function calculateFxBreakdown(holdings: FxHolding[]): FxBreakdown {
+  const result: HoldingFxGain[] = [];
+  const byCurrency = new Map<string, CurrencyExposure>();
+
+  for (const h of holdings) {
+    if (!isForeignCurrency(h.currency_code)) continue;
+    const currencyCode = h.currency_code.toUpperCase();
+
+    const currentRate = h.native_value_cents && h.native_value_cents > 0
+      ? h.current_value_cents / h.native_value_cents
+      : null;
+    const purchaseRate =
+      h.native_purchase_value_cents && h.native_purchase_value_cents > 0 && h.purchase_value_cents
+        ? h.purchase_value_cents / h.native_purchase_value_cents
+        : null;
+
+    let marketGainCents: number | null = null;
+    let fxGainCents: number | null = null;
+    if (currentRate !== null && purchaseRate !== null) {
+      const costAtTodaysRate = toAudCents(h.native_purchase_value_cents!, currentRate);
+      marketGainCents = h.current_value_cents - costAtTodaysRate;
+      fxGainCents = costAtTodaysRate - h.purchase_value_cents!;
+    }
+
+    result.push({
+      id: h.id,
+      name: h.name,
+      currencyCode,
+      valueCents: h.current_value_cents,
+      nativeValueCents: h.native_value_cents,
+      currentRate,
+      purchaseRate,
+      marketGainCents,
+      fxGainCents,
+    });
+
+    const exposure = byCurrency.get(currencyCode) ?? {
+      currencyCode,
+      holdingCount: 0,
+      valueCents: 0,
+      nativeValueCents: 0,
+      marketGainCents: 0,
+      fxGainCents: 0,
+    };
+    exposure.holdingCount++;
+    exposure.valueCents += h.current_value_cents;
+    exposure.nativeValueCents += h.native_value_cents ?? 0;
+    exposure.marketGainCents += marketGainCents ?? 0;
+    exposure.fxGainCents += fxGainCents ?? 0;
+    byCurrency.set(currencyCode, exposure);
+  }
+
+  const currencies = Array.from(byCurrency.values()).sort((a, b) => b.valueCents - a.valueCents);
+  return {
+    holdings: result,
+    byCurrency: currencies,
+    totalMarketGainCents: currencies.reduce((s, c) => s + c.marketGainCents, 0),
+    totalFxGainCents: currencies.reduce((s, c) => s + c.fxGainCents, 0),
+  };
+}
@@ -0,0 +1,493 @@
+// ============================================================================
+// Investment Ledger
+// Pure functions for a holding's buy/sell/dividend/DRP/split ledger: the
+// open parcels it leaves (quantity, cost base, average cost), realised gains
+// matched first in, first out or against named parcels, the 12-month CGT
+// discount, and the capital gains summary for each financial year. No
+// database access — all data passed in as arguments.
+//
+// Amounts are AUD at the trade date. This is record keeping, not tax
+// advice: it doesn't know about cost base adjustments such as AMIT or
+// return of capital.
+// ============================================================================
+
+import { superFinancialYear } from "@/lib/super-calculations";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const INVESTMENT_TRANSACTION_TYPES = ["buy", "sell", "dividend", "drp", "split"] as const;
+
+export type InvestmentTransactionType = (typeof INVESTMENT_TRANSACTION_TYPES)[number];
+
+export const INVESTMENT_TRANSACTION_TYPE_LABELS: Record<InvestmentTransactionType, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  dividend: "Dividend",
+  drp: "Dividend reinvestment",
+  split: "Split",
+};
+
+/** Share of the CGT discount individuals get on assets held over 12 months */
+export const CGT_DISCOUNT_RATE = 0.5;
+
+/** Units of one parcel a sell was matched against */
+export interface ParcelAllocation {
+  parcel_id: string;
+  quantity: number;
+}
+
+/** A row from investment_transactions */
+export interface InvestmentTransactionRecord {
+  id: string;
+  investment_id: string;
+  transaction_type: InvestmentTransactionType;
+  /** YYYY-MM-DD */
+  trade_date: string;
+  /** Units bought, sold or reinvested; null for dividends and splits */
+  quantity: number | null;
+  /** Cost (buy, DRP), proceeds (sell) or cash paid (dividend), in AUD */
+  amount_cents: number;
+  fees_cents: number;
+  /** amount_cents in the holding's currency, for foreign holdings */
+  native_amount_cents?: number | null;
+  /** New units per old unit */
+  split_ratio?: number | null;
+  /** Parcels a sell came from; null or empty means first in, first out */
+  parcel_allocations?: ParcelAllocation[] | null;
+  notes?: string | null;
+  created_at?: string;
+}
+
+/** Units still held from one buy or DRP */
+export interface Parcel {
+  /** The buy or DRP transaction's id */
+  id: string;
+  acquiredOn: string;
+  quantity: number;
+  /** Remaining cost base including brokerage, AUD */
+  costBaseCents: number;
+  /** Remaining cost base in the holding's currency, null for AUD or when unknown */
+  nativeCostCents: number | null;
+}
+
+/** The gain on the units of one parcel sold by one sell */
+export interface RealisedGain {
+  sellId: string;
+  investmentId: string;
+  parcelId: string;
+  acquiredOn: string;
+  soldOn: string;
+  quantity: number;
+  /** Share of the sale proceeds after brokerage */
+  proceedsCents: number;
+  costBaseCents: number;
+  gainCents: number;
+  /** Held for at least 12 months, not counting the days bought and sold */
+  discountEligible: boolean;
+  financialYear: number;
+}
+
+export interface DividendIncome {
+  transactionId: string;
+  investmentId: string;
+  paidOn: string;
+  amountCents: number;
+  reinvested: boolean;
+  financialYear: number;
+}
+
+export interface HoldingLedger {
+  quantity: number;
+  costBaseCents: number;
+  nativeCostBaseCents: number | null;
+  /** Cost base per unit, null when nothing is held */
+  averageCostCents: number | null;
+  parcels: Parcel[];
+  realised: RealisedGain[];
+  realisedGainCents: number;
+  dividends: DividendIncome[];
+  firstAcquiredOn: string | null;
+  /** Entries the ledger couldn't apply, e.g. selling more units than held */
+  problems: string[];
+}
+
+export interface ParcelValuation extends Parcel {
+  valueCents: number;
+  gainCents: number;
+  discountEligible: boolean;
+  /** First day a sale would get the CGT discount */
+  discountEligibleFrom: string;
+}
+
+export interface UnrealisedGains {
+  parcels: ParcelValuation[];
+  gainCents: number;
+  /** Gains (net of losses) on parcels that would get the discount if sold today */
+  discountEligibleGainCents: number;
+  otherGainCents: number;
+}
+
+export interface CgtYearSummary {
+  financialYear: number;
+  disposals: RealisedGain[];
+  proceedsCents: number;
+  costBaseCents: number;
+  /** Gross gains on parcels held over 12 months */
+  discountableGainsCents: number;
+  /** Gross gains on parcels held 12 months or less */
+  otherGainsCents: number;
+  /** This year's capital losses, as a positive amount */
+  lossesCents: number;
+  /** Losses carried in from earlier years that were used this year */
+  priorLossesAppliedCents: number;
+  discountCents: number;
+  /** The figure for the tax return (item 18) */
+  netCapitalGainCents: number;
+  /** Unused losses carried to next year */
+  lossesCarriedForwardCents: number;
+  dividendsCents: number;
+}
+
+/** Tolerance for fractional units (crypto, DRP) */
+const UNIT_EPSILON = 1e-9;
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+/** First day a sale gets the CGT discount: the day after the first anniversary */
+export function discountEligibleFrom(acquiredOn: string): string {
+  const [y, m, d] = acquiredOn.split("-").map(Number);
+  return new Date(Date.UTC(y + 1, m - 1, d + 1)).toISOString().split("T")[0];
+}
+
+export function isDiscountEligible(acquiredOn: string, disposedOn: string): boolean {
+  return disposedOn >= discountEligibleFrom(acquiredOn);
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+function sortTransactions(transactions: InvestmentTransactionRecord[]): InvestmentTransactionRecord[] {
+  return transactions
+    .map((tx, index) => ({ tx, index }))
+    .sort(
+      (a, b) =>
+        a.tx.trade_date.localeCompare(b.tx.trade_date) ||
+        (a.tx.created_at ?? "").localeCompare(b.tx.created_at ?? "") ||
+        a.index - b.index
+    )
+    .map(({ tx }) => tx);
+}
+
+/** Native cost of a buy, with brokerage converted at the buy's own rate */
+function nativeCost(tx: InvestmentTransactionRecord): number | null {
+  if (tx.native_amount_cents === null || tx.native_amount_cents === undefined) return null;
+  const nativeFees = tx.amount_cents > 0
+    ? Math.round((tx.fees_cents * tx.native_amount_cents) / tx.amount_cents)
+    : 0;
+  return tx.native_amount_cents + nativeFees;
+}
+
+/** Take units from a parcel, returning the cost base that goes with them */
+function takeFromParcel(parcel: Parcel, units: number): { costBaseCents: number; nativeCostCents: number | null } {
+  if (units >= parcel.quantity - UNIT_EPSILON) {
+    const taken = { costBaseCents: parcel.costBaseCents, nativeCostCents: parcel.nativeCostCents };
+    parcel.quantity = 0;
+    parcel.costBaseCents = 0;
+    parcel.nativeCostCents = parcel.nativeCostCents === null ? null : 0;
+    return taken;
+  }
+  const share = units / parcel.quantity;
+  const costBaseCents = Math.round(parcel.costBaseCents * share);
+  const nativeCostCents = parcel.nativeCostCents === null ? null : Math.round(parcel.nativeCostCents * share);
+  parcel.quantity -= units;
+  parcel.costBaseCents -= costBaseCents;
+  if (nativeCostCents !== null) parcel.nativeCostCents! -= nativeCostCents;
+  return { costBaseCents, nativeCostCents };
+}
+
+/**
+ * Work out which parcels a sell comes from: the named parcels when it has
+ * allocations, otherwise the oldest first. Returns a problem message when
+ * the units aren't there.
+ */
+function matchSell(
+  tx: InvestmentTransactionRecord,
+  parcels: Parcel[]
+): { matches: { parcel: Parcel; units: number }[] } | { problem: string } {
+  const units = tx.quantity ?? 0;
+  const allocations = tx.parcel_allocations ?? [];
+
+  if (allocations.length > 0) {
+    const allocated = allocations.reduce((s, a) => s + a.quantity, 0);
+    if (Math.abs(allocated - units) > UNIT_EPSILON) {
+      return { problem: `Sell on ${tx.trade_date}: parcels add up to ${allocated} units, not ${units}` };
+    }
+    const byParcel = new Map<string, number>();
+    for (const a of allocations) byParcel.set(a.parcel_id, (byParcel.get(a.parcel_id) ?? 0) + a.quantity);
+
+    const matches: { parcel: Parcel; units: number }[] = [];
+    for (const [parcelId, taken] of byParcel) {
+      const parcel = parcels.find((p) => p.id === parcelId);
+      if (!parcel || parcel.quantity < taken - UNIT_EPSILON) {
+        return { problem: `Sell on ${tx.trade_date}: a chosen parcel doesn't have ${taken} units left` };
+      }
+      matches.push({ parcel, units: taken });
+    }
+    return { matches };
+  }
+
+  const held = parcels.reduce((s, p) => s + p.quantity, 0);
+  if (units > held + UNIT_EPSILON) {
+    return { problem: `Sell on ${tx.trade_date}: ${units} units is more than the ${roundUnits(held)} held` };
+  }
+  const matches: { parcel: Parcel; units: number }[] = [];
+  let remaining = units;
+  for (const parcel of parcels) {
+    if (remaining <= UNIT_EPSILON) break;
+    const take = Math.min(parcel.quantity, remaining);
+    matches.push({ parcel, units: take });
+    remaining -= take;
+  }
+  return { matches };
+}
+
+/**
+ * Replay a holding's transactions in date order. Buys and DRPs open parcels,
+ * sells close them (first in, first out unless parcels are named), splits
+ * multiply the units in every open parcel without changing its cost base,
+ * and dividends are collected as income. Entries that can't be applied are
+ * skipped and reported in `problems`.
+ */
+export function buildLedger(transactions: InvestmentTransactionRecord[]): HoldingLedger {
+  const parcels: Parcel[] = [];
+  const realised: RealisedGain[] = [];
+  const dividends: DividendIncome[] = [];
+  const problems: string[] = [];
+  let firstAcquiredOn: string | null = null;
+
+  for (const tx of sortTransactions(transactions)) {
+    switch (tx.transaction_type) {
+      case "buy":
+      case "drp": {
+        parcels.push({
+          id: tx.id,
+          acquiredOn: tx.trade_date,
+          quantity: tx.quantity ?? 0,
+          costBaseCents: tx.amount_cents + tx.fees_cents,
+          nativeCostCents: nativeCost(tx),
+        });
+        firstAcquiredOn ??= tx.trade_date;
+        if (tx.transaction_type === "drp") {
+          dividends.push({
+            transactionId: tx.id,
+            investmentId: tx.investment_id,
+            paidOn: tx.trade_date,
+            amountCents: tx.amount_cents,
+            reinvested: true,
+            financialYear: superFinancialYear(tx.trade_date),
+          });
+        }
+        break;
+      }
+
+      case "sell": {
+        const matched = matchSell(tx, parcels);
+        if ("problem" in matched) {
+          problems.push(matched.problem);
+          break;
+        }
+        const units = tx.quantity ?? 0;
+        const netProceeds = tx.amount_cents - tx.fees_cents;
+        let proceedsLeft = netProceeds;
+        matched.matches.forEach(({ parcel, units: taken }, i) => {
+          const isLast = i === matched.matches.length - 1;
+          const proceedsCents = isLast ? proceedsLeft : Math.round((netProceeds * taken) / units);
+          proceedsLeft -= proceedsCents;
+          const { costBaseCents } = takeFromParcel(parcel, taken);
+          realised.push({
+            sellId: tx.id,
+            investmentId: tx.investment_id,
+            parcelId: parcel.id,
+            acquiredOn: parcel.acquiredOn,
+            soldOn: tx.trade_date,
+            quantity: taken,
+            proceedsCents,
+            costBaseCents,
+            gainCents: proceedsCents - costBaseCents,
+            discountEligible: isDiscountEligible(parcel.acquiredOn, tx.trade_date),
+            financialYear: superFinancialYear(tx.trade_date),
+          });
+        });
+        for (let i = parcels.length - 1; i >= 0; i--) {
+          if (parcels[i].quantity <= UNIT_EPSILON) parcels.splice(i, 1);
+        }
+        break;
+      }
+
+      case "split": {
+        const ratio = tx.split_ratio ?? 1;
+        for (const parcel of parcels) parcel.quantity *= ratio;
+        break;
+      }
+
+      case "dividend": {
+        dividends.push({
+          transactionId: tx.id,
+          investmentId: tx.investment_id,
+          paidOn: tx.trade_date,
+          amountCents: tx.amount_cents,
+          reinvested: false,
+          financialYear: superFinancialYear(tx.trade_date),
+        });
+        break;
+      }
+    }
+  }
+
+  const quantity = roundUnits(parcels.reduce((s, p) => s + p.quantity, 0));
+  const costBaseCents = parcels.reduce((s, p) => s + p.costBaseCents, 0);
+  const nativeCostBaseCents =
+    parcels.length > 0 && parcels.every((p) => p.nativeCostCents !== null)
+      ? parcels.reduce((s, p) => s + p.nativeCostCents!, 0)
+      : null;
+
+  return {
+    quantity,
+    costBaseCents,
+    nativeCostBaseCents,
+    averageCostCents: quantity > 0 ? Math.round(costBaseCents / quantity) : null,
+    parcels,
+    realised,
+    realisedGainCents: realised.reduce((s, r) => s + r.gainCents, 0),
+    dividends,
+    firstAcquiredOn,
+    problems,
+  };
+}
+
+/** Units held at the end of `date`, for valuing a holding on a past day */
+export function unitsHeldOn(transactions: InvestmentTransactionRecord[], date: string): number {
+  return buildLedger(transactions.filter((tx) => tx.trade_date <= date)).quantity;
+}
+
+/** Drop floating-point noise from unit counts (e.g. 2.9999999999 after a split) */
+function roundUnits(units: number): number {
+  return Math.round(units * 1e8) / 1e8;
+}
+
+/**
+ * Value each open parcel at today's market value, shared by units, and
+ * split the unrealised gain by whether a sale today would get the discount.
+ */
+export function calculateUnrealisedGains(
+  ledger: HoldingLedger,
+  marketValueCents: number,
+  asOf: string
+): UnrealisedGains {
+  const totalUnits = ledger.parcels.reduce((s, p) => s + p.quantity, 0);
+  let valueLeft = marketValueCents;
+
+  const parcels = ledger.parcels.map((parcel, i): ParcelValuation => {
+    const isLast = i === ledger.parcels.length - 1;
+    const valueCents = isLast
+      ? valueLeft
+      : totalUnits > 0 ? Math.round((marketValueCents * parcel.quantity) / totalUnits) : 0;
+    valueLeft -= valueCents;
+    return {
+      ...parcel,
+      valueCents,
+      gainCents: valueCents - parcel.costBaseCents,
+      discountEligible: isDiscountEligible(parcel.acquiredOn, asOf),
+      discountEligibleFrom: discountEligibleFrom(parcel.acquiredOn),
+    };
+  });
+
+  const discountEligibleGainCents = parcels
+    .filter((p) => p.discountEligible)
+    .reduce((s, p) => s + p.gainCents, 0);
+  const gainCents = parcels.reduce((s, p) => s + p.gainCents, 0);
+
+  return {
+    parcels,
+    gainCents,
+    discountEligibleGainCents,
+    otherGainCents: gainCents - discountEligibleGainCents,
+  };
+}
+
+// ============================================================================
+// Capital Gains Summary
+// ============================================================================
+
+/**
+ * Capital gains for each financial year with a disposal or dividend, oldest
+ * first, following the ATO method: this year's losses and then losses
+ * carried forward are applied to non-discountable gains first, the 50%
+ * discount applies to what's left of gains on assets held over 12 months,
+ * and any unused losses carry into the next year.
+ */
+export function summarizeCapitalGains(
+  realised: RealisedGain[],
+  dividends: DividendIncome[] = [],
+  openingLossesCents = 0
+): CgtYearSummary[] {
+  const years = new Set<number>([
+    ...realised.map((r) => r.financialYear),
+    ...dividends.map((d) => d.financialYear),
+  ]);
+
+  let carriedLosses = openingLossesCents;
+  const summaries: CgtYearSummary[] = [];
+
+  for (const financialYear of Array.from(years).sort((a, b) => a - b)) {
+    const disposals = realised
+      .filter((r) => r.financialYear === financialYear)
+      .sort((a, b) => a.soldOn.localeCompare(b.soldOn));
+
+    const discountableGainsCents = disposals
+      .filter((r) => r.gainCents > 0 && r.discountEligible)
+      .reduce((s, r) => s + r.gainCents, 0);
+    const otherGainsCents = disposals
+      .filter((r) => r.gainCents > 0 && !r.discountEligible)
+      .reduce((s, r) => s + r.gainCents, 0);
+    const lossesCents = disposals
+      .filter((r) => r.gainCents < 0)
+      .reduce((s, r) => s - r.gainCents, 0);
+
+    let lossesAvailable = lossesCents + carriedLosses;
+    const offsetOther = Math.min(otherGainsCents, lossesAvailable);
+    lossesAvailable -= offsetOther;
+    const offsetDiscountable = Math.min(discountableGainsCents, lossesAvailable);
+    lossesAvailable -= offsetDiscountable;
+
+    const remainingDiscountable = discountableGainsCents - offsetDiscountable;
+    const discountCents = Math.round(remainingDiscountable * CGT_DISCOUNT_RATE);
+    const lossesUsed = offsetOther + offsetDiscountable;
+
+    summaries.push({
+      financialYear,
+      disposals,
+      proceedsCents: disposals.reduce((s, r) => s + r.proceedsCents, 0),
+      costBaseCents: disposals.reduce((s, r) => s + r.costBaseCents, 0),
+      discountableGainsCents,
+      otherGainsCents,
+      lossesCents,
+      priorLossesAppliedCents: Math.max(0, lossesUsed - lossesCents),
+      discountCents,
+      netCapitalGainCents: otherGainsCents - offsetOther + remainingDiscountable - discountCents,
+      lossesCarriedForwardCents: lossesAvailable,
+      dividendsCents: dividends
+        .filter((d) => d.financialYear === financialYear)
+        .reduce((s, d) => s + d.amountCents, 0),
+    });
+
+    carriedLosses = lossesAvailable;
+  }
+
+  return summaries;
+}
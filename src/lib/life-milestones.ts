@@ -0,0 +1,290 @@
+// ============================================================================
+// Life Milestones
+// Pure functions for planned life events (a wedding, a baby, a renovation):
+// a one-off cost on a date, an ongoing change to monthly spending from then
+// on, and an optional savings goal that pays for the one-off cost. Turns them
+// into FIRE projection inputs and goal timeline events. No database access —
+// all data passed in as arguments.
+// ============================================================================
+
+import type { ProjectionAdjustment, SpendingData } from "@/lib/fire-calculations";
+import type { MilestoneForTimeline } from "@/lib/plan-health-calculations";
+import { toProjectionAdjustments, type ExpenseChange } from "@/lib/scenario-planner";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChecklistItem {
+  item: string;
+  done: boolean;
+}
+
+/** A row from milestones */
+export interface LifeMilestone {
+  id: string;
+  title: string;
+  description: string | null;
+  /** YYYY-MM-DD */
+  target_date: string;
+  /** One-off cost on the date */
+  estimated_cost_cents: number;
+  /** Change to monthly spending from the date; negative for a saving */
+  estimated_monthly_impact_cents: number;
+  /** How long the monthly impact lasts; null = ongoing */
+  impact_months: number | null;
+  linked_goal_id: string | null;
+  icon: string;
+  color: string;
+  is_completed: boolean;
+  completed_at: string | null;
+  preparation_checklist: ChecklistItem[];
+  sort_order: number;
+}
+
+/** The savings goal a milestone can be linked to */
+export interface MilestoneGoal {
+  id: string;
+  name: string;
+  current_amount_cents: number;
+  target_amount_cents: number;
+  /** YYYY-MM-DD */
+  deadline: string | null;
+  is_completed: boolean;
+}
+
+export interface MilestonePreset {
+  key: string;
+  label: string;
+  icon: string;
+  color: string;
+  estimated_cost_cents: number;
+  estimated_monthly_impact_cents: number;
+  impact_months: number | null;
+  checklist: string[];
+}
+
+export interface MilestoneFunding {
+  /** Covered by the linked goal's target */
+  fromGoalCents: number;
+  /** Saved in the linked goal so far */
+  savedCents: number;
+  /** Not covered by the goal — comes out of general savings */
+  outOfPocketCents: number;
+}
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+/** Typical Australian costs, as starting points the user edits */
+export const MILESTONE_PRESETS: MilestonePreset[] = [
+  {
+    key: "wedding",
+    label: "Wedding",
+    icon: "heart",
+    color: "var(--pastel-coral)",
+    estimated_cost_cents: 3_500_000,
+    estimated_monthly_impact_cents: 0,
+    impact_months: null,
+    checklist: ["Set a budget", "Book the venue", "Book a celebrant", "Send invitations"],
+  },
+  {
+    key: "baby",
+    label: "Baby",
+    icon: "baby",
+    color: "var(--pastel-yellow)",
+    estimated_cost_cents: 500_000,
+    estimated_monthly_impact_cents: 120_000,
+    impact_months: 216,
+    checklist: [
+      "Check parental leave pay",
+      "Review private health cover",
+      "Compare childcare costs",
+      "Update wills and insurance",
+    ],
+  },
+  {
+    key: "renovation",
+    label: "Renovation",
+    icon: "home",
+    color: "var(--pastel-mint)",
+    estimated_cost_cents: 5_000_000,
+    estimated_monthly_impact_cents: 0,
+    impact_months: null,
+    checklist: ["Get three quotes", "Check council approvals", "Set a contingency"],
+  },
+  {
+    key: "house",
+    label: "Buy a home",
+    icon: "building2",
+    color: "var(--pastel-blue)",
+    estimated_cost_cents: 10_000_000,
+    estimated_monthly_impact_cents: 0,
+    impact_months: null,
+    checklist: ["Get loan pre-approval", "Check first home buyer grants", "Budget for stamp duty"],
+  },
+  {
+    key: "car",
+    label: "New car",
+    icon: "car",
+    color: "var(--pastel-lavender)",
+    estimated_cost_cents: 3_000_000,
+    estimated_monthly_impact_cents: 20_000,
+    impact_months: null,
+    checklist: ["Compare running costs", "Arrange insurance", "Sell or trade in the old car"],
+  },
+  {
+    key: "travel",
+    label: "Big trip",
+    icon: "plane",
+    color: "var(--pastel-blue)",
+    estimated_cost_cents: 1_500_000,
+    estimated_monthly_impact_cents: 0,
+    impact_months: null,
+    checklist: ["Book flights", "Arrange travel insurance", "Plan leave from work"],
+  },
+  {
+    key: "study",
+    label: "Study",
+    icon: "graduation-cap",
+    color: "var(--pastel-lavender)",
+    estimated_cost_cents: 1_000_000,
+    estimated_monthly_impact_cents: 0,
+    impact_months: null,
+    checklist: ["Check HECS-HELP or FEE-HELP", "Plan study hours around work"],
+  },
+];
+
+// ============================================================================
+// Timing
+// ============================================================================
+
+/** Whole months from the start of this month to the milestone's month */
+export function monthsUntil(date: string, now: Date = new Date()): number {
+  const [year, month] = date.split("-").map(Number);
+  return (year - now.getFullYear()) * 12 + (month - 1 - now.getMonth());
+}
+
+/** Milestones still ahead (this month or later), soonest first */
+export function upcomingMilestones<T extends Pick<LifeMilestone, "target_date" | "is_completed" | "sort_order">>(
+  milestones: T[],
+  now: Date = new Date()
+): T[] {
+  return milestones
+    .filter((m) => !m.is_completed && monthsUntil(m.target_date, now) >= 0)
+    .sort((a, b) => a.target_date.localeCompare(b.target_date) || a.sort_order - b.sort_order);
+}
+
+// ============================================================================
+// Funding
+// ============================================================================
+
+/**
+ * How much of the one-off cost the linked goal pays for. The goal covers up
+ * to its target; anything beyond that comes out of general savings.
+ */
+export function milestoneFunding(
+  milestone: Pick<LifeMilestone, "estimated_cost_cents">,
+  goal: MilestoneGoal | null | undefined
+): MilestoneFunding {
+  const cost = Math.max(0, milestone.estimated_cost_cents);
+  const fromGoalCents = goal ? Math.min(cost, Math.max(0, goal.target_amount_cents)) : 0;
+  return {
+    fromGoalCents,
+    savedCents: goal ? Math.min(fromGoalCents, Math.max(0, goal.current_amount_cents)) : 0,
+    outOfPocketCents: cost - fromGoalCents,
+  };
+}
+
+function goalFor(milestone: LifeMilestone, goals: MilestoneGoal[]): MilestoneGoal | undefined {
+  return milestone.linked_goal_id ? goals.find((g) => g.id === milestone.linked_goal_id) : undefined;
+}
+
+// ============================================================================
+// FIRE Projection
+// ============================================================================
+
+/** Monthly impacts as scenario spending changes, timed from this month */
+export function milestoneExpenseChanges(
+  milestones: LifeMilestone[],
+  now: Date = new Date()
+): ExpenseChange[] {
+  return upcomingMilestones(milestones, now)
+    .filter((m) => m.estimated_monthly_impact_cents !== 0)
+    .map((m) => ({
+      type: "expense",
+      label: m.title,
+      monthly_cents: m.estimated_monthly_impact_cents,
+      starts_in_months: monthsUntil(m.target_date, now),
+      months: m.impact_months,
+    }));
+}
+
+/**
+ * FIRE inputs with upcoming milestones included. Monthly impacts that never
+ * end change spending (and so the FIRE number); delayed or temporary ones
+ * become yearly adjustments, the same way the scenario planner handles them.
+ *
+ * One-off costs come out of investments in the year they fall. Money already
+ * sitting in a linked goal isn't part of the FIRE portfolio, so that much is
+ * left out — future goal contributions are, so the rest is taken.
+ */
+export function milestoneFireInputs(
+  milestones: LifeMilestone[],
+  goals: MilestoneGoal[],
+  spending: SpendingData,
+  now: Date = new Date()
+): { spending: SpendingData; adjustments: ProjectionAdjustment[] } {
+  const changes = milestoneExpenseChanges(milestones, now);
+  const ongoingCents = changes
+    .filter((c) => c.months === null)
+    .reduce((sum, c) => sum + c.monthly_cents, 0);
+  const monthlyTotalSpendCents = Math.max(0, spending.monthlyTotalSpendCents + ongoingCents);
+
+  const adjustments = toProjectionAdjustments(changes, spending.monthlyIncomeCents);
+  for (const m of upcomingMilestones(milestones, now)) {
+    const funding = milestoneFunding(m, goalFor(m, goals));
+    const spentCents = Math.max(0, m.estimated_cost_cents) - funding.savedCents;
+    if (spentCents <= 0) continue;
+    adjustments.push({
+      yearOffset: Math.floor(monthsUntil(m.target_date, now) / 12),
+      outsideSuperCents: -spentCents,
+    });
+  }
+
+  return {
+    spending: {
+      ...spending,
+      monthlyTotalSpendCents,
+      savingsRatePercent: spending.monthlyIncomeCents > 0
+        ? Math.max(0, ((spending.monthlyIncomeCents - monthlyTotalSpendCents) / spending.monthlyIncomeCents) * 100)
+        : 0,
+    },
+    adjustments,
+  };
+}
+
+// ============================================================================
+// Goal Timeline
+// ============================================================================
+
+/**
+ * Upcoming milestones as events for `analyzeGoalInteractions`. Only the part
+ * of the cost a linked goal doesn't cover is counted, since the goal's own
+ * deadline already accounts for the rest.
+ */
+export function toTimelineMilestones(
+  milestones: LifeMilestone[],
+  goals: MilestoneGoal[],
+  now: Date = new Date()
+): MilestoneForTimeline[] {
+  return upcomingMilestones(milestones, now).map((m) => ({
+    id: m.id,
+    name: m.title,
+    date: m.target_date,
+    costCents: milestoneFunding(m, goalFor(m, goals)).outOfPocketCents,
+    monthlyImpactCents: m.estimated_monthly_impact_cents,
+    impactMonths: m.impact_months,
+  }));
+}
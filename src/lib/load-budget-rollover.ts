@@ -0,0 +1,223 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_BUDGET_TIMEZONE,
+  getBudgetPeriodRange,
+  getPreviousPeriodDate,
+  getMonthKeyForPeriod,
+  calculateRolloverIntoPeriod,
+  envelopeTargets,
+  normalizeCarryoverMode,
+  type BudgetSummaryInput,
+  type AssignmentInput,
+  type TransactionInput,
+  type PeriodRange,
+} from "@/lib/budget-engine";
+import { toBudgetSplits } from "@/lib/transaction-splits";
+
+/** Rows fetched per request when loading history */
+const PAGE_SIZE = 1000;
+
+interface RolloverBudget {
+  id: string;
+  carryover_mode?: string | null;
+  budget_view: "individual" | "shared";
+  start_date?: string | null;
+  created_at?: string | null;
+}
+
+interface RolloverTransactionRow {
+  id: string;
+  amount_cents: number;
+  category_id: string | null;
+  settled_at: string;
+  // Embedded 1-to-1 relation: PostgREST returns an object or an array
+  expense_matches:
+    | { expense_definition_id: string | null }
+    | { expense_definition_id: string | null }[]
+    | null;
+  transaction_splits: unknown;
+}
+
+interface RolloverAssignmentRow extends AssignmentInput {
+  month: string;
+}
+
+/** Load every row a query returns, a page at a time */
+async function fetchAllPages<T>(
+  build: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<{ data: T[]; error: unknown }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build(from, from + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+/**
+ * Load the envelope balances that roll into `input.periodRange` for a budget.
+ *
+ * Starts from the balances stored when the latest earlier month was closed
+ * (budget_months.closing_balances), or from the budget's start_date /
+ * created_at when no month has been closed, and replays every period since
+ * through the budget engine using that period's assignments and spending.
+ * Income, goals and assets are irrelevant to envelope balances and are left
+ * out of the replayed inputs.
+ *
+ * Returns an empty map when the budget's carryover mode is "none".
+ */
+export async function loadRolloverFromPrevious(
+  supabase: SupabaseClient,
+  budget: RolloverBudget,
+  accountIds: string[],
+  input: BudgetSummaryInput
+): Promise<Map<string, number>> {
+  const mode = normalizeCarryoverMode(budget.carryover_mode);
+  if (mode === "none") return new Map();
+
+  const currentMonthKey = getMonthKeyForPeriod(input.periodRange.start);
+  const { data: closedMonth, error: closedError } = await supabase
+    .from("budget_months")
+    .select("month, closing_balances")
+    .eq("budget_id", budget.id)
+    .lt("month", currentMonthKey)
+    .not("closing_balances", "is", null)
+    .order("month", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (closedError) {
+    console.error("Rollover history query error:", closedError);
+    return new Map();
+  }
+
+  const opening = new Map<string, number>(
+    Object.entries((closedMonth?.closing_balances ?? {}) as Record<string, number>)
+  );
+  const closedThrough: string | null = closedMonth?.month ?? null;
+
+  const earliest = budget.start_date ?? budget.created_at;
+  const earliestMs = earliest ? new Date(earliest).getTime() : NaN;
+  // A budget with no start date and no closed month has no history to replay
+  if (Number.isNaN(earliestMs) && !closedThrough) return opening;
+
+  // Walk backwards from the current period to the closed month (or the
+  // budget's start), then reverse to oldest-first
+  const ranges: PeriodRange[] = [];
+  let cursor = input.periodRange.start;
+  for (;;) {
+    const anchor = input.periodAnchor ?? null;
+    const range = getBudgetPeriodRange(
+      getPreviousPeriodDate(cursor, input.periodType, DEFAULT_BUDGET_TIMEZONE, anchor),
+      input.periodType,
+      DEFAULT_BUDGET_TIMEZONE,
+      anchor
+    );
+    if (closedThrough && getMonthKeyForPeriod(range.start) <= closedThrough) break;
+    if (!Number.isNaN(earliestMs) && range.end.getTime() < earliestMs) break;
+    ranges.push(range);
+    cursor = range.start;
+  }
+  if (ranges.length === 0) return opening;
+  ranges.reverse();
+
+  const firstMonthKey = getMonthKeyForPeriod(ranges[0].start);
+  const lastMonthKey = getMonthKeyForPeriod(ranges[ranges.length - 1].start);
+
+  const [assignmentResult, transactionResult] = await Promise.all([
+    fetchAllPages<RolloverAssignmentRow>((from, to) =>
+      supabase
+        .from("budget_assignments")
+        .select(
+          "id, month, category_name, subcategory_name, assigned_cents, assignment_type, goal_id, asset_id, rollover"
+        )
+        .eq("budget_id", budget.id)
+        .eq("budget_view", budget.budget_view)
+        .gte("month", firstMonthKey)
+        .lte("month", lastMonthKey)
+        .order("id")
+        .range(from, to)
+    ),
+    accountIds.length > 0
+      ? fetchAllPages<RolloverTransactionRow>((from, to) =>
+          supabase
+            .from("transactions")
+            .select("id, amount_cents, category_id, settled_at, expense_matches(expense_definition_id), transaction_splits(position, amount_cents, category_id, is_shared)")
+            .in("account_id", accountIds)
+            .gte("settled_at", ranges[0].start.toISOString())
+            .lte("settled_at", ranges[ranges.length - 1].end.toISOString())
+            .lt("amount_cents", 0)
+            .eq("is_internal_transfer", false)
+            .neq("status", "DELETED")
+            .order("id")
+            .range(from, to)
+        )
+      : Promise.resolve({ data: [] as RolloverTransactionRow[], error: null }),
+  ]);
+
+  if (assignmentResult.error || transactionResult.error) {
+    console.error(
+      "Rollover history query error:",
+      assignmentResult.error ?? transactionResult.error
+    );
+    return new Map();
+  }
+
+  const assignmentsByMonth = new Map<string, AssignmentInput[]>();
+  for (const a of assignmentResult.data) {
+    const list = assignmentsByMonth.get(a.month) ?? [];
+    list.push({
+      category_name: a.category_name,
+      subcategory_name: a.subcategory_name,
+      assigned_cents: a.assigned_cents,
+      assignment_type: a.assignment_type,
+      goal_id: a.goal_id,
+      asset_id: a.asset_id,
+      rollover: a.rollover,
+    });
+    assignmentsByMonth.set(a.month, list);
+  }
+
+  const transactions: TransactionInput[] = transactionResult.data.map((t) => {
+    const raw = t.expense_matches;
+    const matchedExpenseId = raw
+      ? (Array.isArray(raw) ? raw[0]?.expense_definition_id : raw.expense_definition_id) ?? null
+      : null;
+    return {
+      id: t.id,
+      amount_cents: t.amount_cents,
+      category_id: t.category_id,
+      created_at: t.settled_at,
+      split_override_percentage: null,
+      matched_expense_id: matchedExpenseId,
+      splits: toBudgetSplits(t.transaction_splits),
+    };
+  });
+
+  const history: BudgetSummaryInput[] = ranges.map((range) => {
+    const startMs = range.start.getTime();
+    const endMs = range.end.getTime();
+    return {
+      ...input,
+      periodRange: range,
+      assignments: assignmentsByMonth.get(getMonthKeyForPeriod(range.start)) ?? [],
+      transactions: transactions.filter((t) => {
+        const ms = new Date(t.created_at).getTime();
+        return ms >= startMs && ms <= endMs;
+      }),
+      incomeSources: [],
+      carryoverFromPrevious: 0,
+      layoutSections: undefined,
+      layoutSubcategoryKeys: undefined,
+      goals: undefined,
+      assets: undefined,
+      goalContributions: undefined,
+      assetContributions: undefined,
+      rolloverFromPrevious: undefined,
+    };
+  });
+
+  // Sinking funds cap at the largest bill they're saving towards
+  return calculateRolloverIntoPeriod(mode, history, envelopeTargets(input.expenseDefinitions), opening);
+}
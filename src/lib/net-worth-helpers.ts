@@ -1,8 +1,63 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { calculateLiabilityTotal } from "@/lib/debt-calculations";
+import { calculateSuperTotal } from "@/lib/super-calculations";
 
 /**
- * Upsert today's net_worth_snapshot with the current investment total.
- * Called after investment price updates to keep net worth current.
+ * Sum the partnership's tracked debts for net_worth_snapshots.liability_total_cents.
+ * Debts linked to a synced account are excluded (already in the bank total).
+ */
+export async function sumPartnershipLiabilities(
+  supabase: SupabaseClient,
+  partnershipId: string
+): Promise<number> {
+  const { data: debts } = await supabase
+    .from("debts")
+    .select("balance_cents, linked_account_id")
+    .eq("partnership_id", partnershipId);
+
+  return calculateLiabilityTotal(debts || []);
+}
+
+/**
+ * Copy a synced account's balance onto the debts linked to it, so they follow
+ * the bank between edits. Called wherever account balances are written
+ * (webhook and sync); debts store the amount owed as a positive number.
+ */
+export async function syncLinkedDebtBalances(
+  supabase: SupabaseClient,
+  accountIds: string[],
+  accountBalanceCents: number
+): Promise<void> {
+  if (accountIds.length === 0) return;
+  const balanceCents = Math.abs(accountBalanceCents);
+
+  const { error } = await supabase
+    .from("debts")
+    .update({ balance_cents: balanceCents, updated_at: new Date().toISOString() })
+    .in("linked_account_id", accountIds)
+    .neq("balance_cents", balanceCents);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Sum both partners' super accounts for net_worth_snapshots.super_total_cents.
+ */
+export async function sumPartnershipSuper(
+  supabase: SupabaseClient,
+  partnershipId: string
+): Promise<number> {
+  const { data: accounts } = await supabase
+    .from("super_accounts")
+    .select("balance_cents")
+    .eq("partnership_id", partnershipId);
+
+  return calculateSuperTotal(accounts || []);
+}
+
+/**
+ * Upsert today's net_worth_snapshot with the current investment, super and
+ * liability totals. Called after investment price updates, super and debt
+ * changes to keep net worth current.
  */
 export async function upsertInvestmentNetWorth(
   supabase: SupabaseClient,
@@ -18,6 +73,10 @@ export async function upsertInvestmentNetWorth(
     (sum, inv) => sum + (inv.current_value_cents || 0),
     0
   );
+  const [liabilityTotal, superTotal] = await Promise.all([
+    sumPartnershipLiabilities(supabase, partnershipId),
+    sumPartnershipSuper(supabase, partnershipId),
+  ]);
 
   const today = new Date().toISOString().split("T")[0];
 
@@ -30,10 +89,14 @@ export async function upsertInvestmentNetWorth(
     .maybeSingle();
 
   if (existing) {
-    // Snapshot exists — only update investment total
+    // Snapshot exists — only update investment, super and liability totals
     await supabase
       .from("net_worth_snapshots")
-      .update({ investment_total_cents: investmentTotal })
+      .update({
+        investment_total_cents: investmentTotal,
+        super_total_cents: superTotal,
+        liability_total_cents: liabilityTotal,
+      })
       .eq("id", existing.id);
   } else {
     // No snapshot yet — carry forward bank balance from most recent snapshot.
@@ -54,6 +117,8 @@ export async function upsertInvestmentNetWorth(
         total_balance_cents: recent?.total_balance_cents || 0,
         account_breakdown: recent?.account_breakdown || [],
         investment_total_cents: investmentTotal,
+        super_total_cents: superTotal,
+        liability_total_cents: liabilityTotal,
       },
       { onConflict: "partnership_id,snapshot_date" }
     );
@@ -0,0 +1,189 @@
+/**
+ * Minimal PDF writer for text reports.
+ *
+ * Lays out rows of positioned text on A4 pages using the built-in Helvetica
+ * fonts, so no fonts need embedding and every PDF viewer can open the result.
+ * Text is WinAnsi-encoded: accented Latin letters, dashes, curly quotes and
+ * "›" survive, anything else becomes "?". Content streams are uncompressed,
+ * which keeps this free of dependencies.
+ */
+
+export interface PdfText {
+  text: string;
+  /** Distance from the page's left edge in points (right edge when align is "right") */
+  x: number;
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right";
+  /** 0 = black, 1 = white */
+  gray?: number;
+}
+
+export interface PdfRow {
+  cells: PdfText[];
+  /** Extra space above the row, in points */
+  spaceBefore?: number;
+  /** Start a new page before this row unless already at the top of one */
+  pageBreakBefore?: boolean;
+}
+
+export interface PdfOptions {
+  title?: string;
+  /** Small grey text at the bottom of every page, e.g. "Page 1 of 3" */
+  footer?: (page: number, pageCount: number) => string;
+}
+
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+export const PDF_MARGIN = 48;
+
+const DEFAULT_SIZE = 10;
+const LINE_HEIGHT = 1.4;
+const FOOTER_SIZE = 8;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Non-Latin-1 characters that WinAnsiEncoding places in 0x80–0x9F */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92,
+  "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+  "‹": 0x8b, "›": 0x9b,
+};
+
+/** Map text to WinAnsi byte values, replacing unsupported characters with "?" */
+export function toWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code === 0x09) bytes.push(0x20);
+    else if (code >= 0x20 && code <= 0x7e) bytes.push(code);
+    else if (code >= 0xa0 && code <= 0xff) bytes.push(code);
+    else if (WIN_ANSI_EXTRAS[ch] !== undefined) bytes.push(WIN_ANSI_EXTRAS[ch]);
+    else if (code >= 0x20) bytes.push(0x3f);
+  }
+  return bytes;
+}
+
+/**
+ * Approximate rendered width in points. Exact for ASCII in regular weight;
+ * bold and non-ASCII characters are estimated.
+ */
+export function textWidth(text: string, size = DEFAULT_SIZE, bold = false): number {
+  let units = 0;
+  for (const b of toWinAnsi(text)) {
+    units += b >= 32 && b <= 126 ? HELVETICA_WIDTHS[b - 32] : 556;
+  }
+  return (units * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+/** Shorten text with "…" so it fits within maxWidth points */
+export function fitText(text: string, maxWidth: number, size = DEFAULT_SIZE, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && textWidth(text.slice(0, end) + "…", size, bold) > maxWidth) end--;
+  return end > 0 ? text.slice(0, end).trimEnd() + "…" : "";
+}
+
+/** A PDF literal string: parentheses and backslashes escaped, other non-printables as octal */
+function pdfString(text: string): string {
+  let out = "(";
+  for (const b of toWinAnsi(text)) {
+    if (b === 0x28 || b === 0x29 || b === 0x5c) out += "\\" + String.fromCharCode(b);
+    else if (b < 0x20 || b > 0x7e) out += "\\" + b.toString(8).padStart(3, "0");
+    else out += String.fromCharCode(b);
+  }
+  return out + ")";
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+function textOp(cell: PdfText, y: number): string {
+  const size = cell.size ?? DEFAULT_SIZE;
+  const x = cell.align === "right" ? cell.x - textWidth(cell.text, size, cell.bold) : cell.x;
+  return `${num(cell.gray ?? 0)} g BT /${cell.bold ? "F2" : "F1"} ${num(size)} Tf ${num(x)} ${num(y)} Td ${pdfString(cell.text)} Tj ET`;
+}
+
+/** Place rows top to bottom, starting new pages as each fills up */
+function paginate(rows: PdfRow[], hasFooter: boolean): string[][] {
+  const top = PDF_PAGE_HEIGHT - PDF_MARGIN;
+  const bottom = PDF_MARGIN + (hasFooter ? FOOTER_SIZE * 2.5 : 0);
+  const pages: string[][] = [[]];
+  let y = top;
+
+  for (const row of rows) {
+    const size = Math.max(DEFAULT_SIZE, ...row.cells.map((c) => c.size ?? DEFAULT_SIZE));
+    const height = size * LINE_HEIGHT;
+    const atTop = y === top;
+    let baseline = y - (atTop ? 0 : row.spaceBefore ?? 0) - size;
+
+    if ((row.pageBreakBefore && !atTop) || baseline < bottom) {
+      pages.push([]);
+      y = top;
+      baseline = y - size;
+    }
+
+    const ops = pages[pages.length - 1];
+    for (const cell of row.cells) {
+      if (cell.text) ops.push(textOp(cell, baseline));
+    }
+    y = baseline - (height - size);
+  }
+  return pages;
+}
+
+/**
+ * Build a PDF from rows of text. An empty list produces a single blank page.
+ */
+export function buildPdf(rows: PdfRow[], options: PdfOptions = {}): Uint8Array {
+  const pages = paginate(rows, !!options.footer);
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+
+  // Fixed objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info; pages follow
+  const firstPageId = 6;
+  pages.forEach((ops, i) => {
+    const pageId = firstPageId + i * 2;
+    const footer = options.footer?.(i + 1, pages.length);
+    if (footer) {
+      ops.push(textOp({ text: footer, x: PDF_PAGE_WIDTH / 2 - textWidth(footer, FOOTER_SIZE) / 2, size: FOOTER_SIZE, gray: 0.45 }, PDF_MARGIN));
+    }
+    const content = ops.join("\n");
+    pageIds.push(pageId);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PDF_PAGE_WIDTH)} ${num(PDF_PAGE_HEIGHT)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Producer (PiggyBack)${options.title ? ` /Title ${pdfString(options.title)}` : ""} >>`;
+
+  // Every character is a single byte (0-255), so string length = byte offset
+  let out = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+  return bytes;
+}
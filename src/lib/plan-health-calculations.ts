@@ -34,16 +34,20 @@ export interface PriorityRecommendation {
 }
 
 export interface GoalInteraction {
+  /** Goal id, or the milestone id when source is "milestone" */
   goalId: string;
   goalName: string;
   warningMessage: string;
   emergencyFundMonthsAfter: number;
+  source: "goal" | "milestone";
 }
 
 export interface NetWorthSnapshot {
   snapshot_date: string;
   total_balance_cents: number;
   investment_total_cents?: number | null;
+  super_total_cents?: number | null;
+  liability_total_cents?: number | null;
 }
 
 export interface GoalSummary {
@@ -60,6 +64,19 @@ export interface GoalForTimeline {
   is_completed: boolean;
 }
 
+/** A life milestone on the goal timeline (see life-milestones.ts) */
+export interface MilestoneForTimeline {
+  id: string;
+  name: string;
+  date: string;
+  /** One-off cost paid from general savings */
+  costCents: number;
+  /** Change to monthly spending from the date */
+  monthlyImpactCents: number;
+  /** null = ongoing */
+  impactMonths: number | null;
+}
+
 export interface HealthMetricInputs {
   netWorthSnapshots: NetWorthSnapshot[];
   monthlyIncomeCents: number;
@@ -73,6 +90,8 @@ export interface HealthMetricInputs {
   totalExpenseDefinitions: number;
   matchedExpenseCount: number;
   homeLoanBalanceCents: number;
+  /** Tracked debts not already counted through a HOME_LOAN account */
+  otherDebtCents?: number;
   annualIncomeCents: number;
 }
 
@@ -134,11 +153,11 @@ export function calculateNetWorthTrend(
       new Date(a.snapshot_date).getTime() - new Date(b.snapshot_date).getTime()
   );
   const latest = sorted[sorted.length - 1];
-  const latestValue = latest.total_balance_cents + (latest.investment_total_cents || 0);
+  const latestValue = latest.total_balance_cents + (latest.investment_total_cents || 0) + (latest.super_total_cents || 0) - (latest.liability_total_cents || 0);
 
   // Compare to earliest snapshot in the window
   const earliest = sorted[0];
-  const earliestValue = earliest.total_balance_cents + (earliest.investment_total_cents || 0);
+  const earliestValue = earliest.total_balance_cents + (earliest.investment_total_cents || 0) + (earliest.super_total_cents || 0) - (earliest.liability_total_cents || 0);
   const delta = latestValue - earliestValue;
 
   // Determine trend from recent movement
@@ -423,11 +442,11 @@ export function calculateBillsPaymentMetric(
 }
 
 export function calculateDebtToIncomeMetric(
-  homeLoanBalanceCents: number,
+  totalDebtCents: number,
   annualIncomeCents: number
 ): HealthMetric | null {
   // Only show if user has debt
-  if (homeLoanBalanceCents <= 0) return null;
+  if (totalDebtCents <= 0) return null;
 
   if (annualIncomeCents <= 0) {
     return {
@@ -442,7 +461,7 @@ export function calculateDebtToIncomeMetric(
     };
   }
 
-  const ratio = homeLoanBalanceCents / annualIncomeCents;
+  const ratio = totalDebtCents / annualIncomeCents;
   const ratioRounded = Math.round(ratio * 10) / 10;
 
   let status: MetricStatus;
@@ -509,7 +528,7 @@ export function generateHealthMetrics(data: HealthMetricInputs): HealthMetric[]
   );
 
   const debtMetric = calculateDebtToIncomeMetric(
-    data.homeLoanBalanceCents,
+    data.homeLoanBalanceCents + (data.otherDebtCents || 0),
     data.annualIncomeCents
   );
   if (debtMetric) {
@@ -693,60 +712,96 @@ export function generatePriorityRecommendations(
 // Goal Interaction Analysis
 // ============================================================================
 
+const MS_PER_MONTH = 1000 * 60 * 60 * 24 * 30.44;
+
+/** Extra monthly spending from a milestone between two times, in cents */
+function milestoneImpactBetween(
+  milestone: MilestoneForTimeline,
+  from: number,
+  to: number
+): number {
+  const start = new Date(milestone.date).getTime();
+  const end = milestone.impactMonths === null
+    ? Infinity
+    : start + milestone.impactMonths * MS_PER_MONTH;
+  const overlap = Math.min(to, end) - Math.max(from, start);
+  return overlap > 0 ? milestone.monthlyImpactCents * (overlap / MS_PER_MONTH) : 0;
+}
+
+/**
+ * Walk forward through goal deadlines and life milestones in date order,
+ * adding savings between each one and paying for it from liquid savings.
+ * Warns when an event would leave less than three months of essentials.
+ * A milestone's monthly impact comes off the savings rate from its date.
+ */
 export function analyzeGoalInteractions(
   goals: GoalForTimeline[],
   liquidBalanceCents: number,
   monthlyEssentialsCents: number,
-  monthlySavingsRateCents: number
+  monthlySavingsRateCents: number,
+  milestones: MilestoneForTimeline[] = []
 ): GoalInteraction[] {
   if (monthlyEssentialsCents <= 0) return [];
 
   const interactions: GoalInteraction[] = [];
   const now = new Date();
 
-  // Sort by deadline
-  const sorted = [...goals]
-    .filter((g) => !g.is_completed && g.target_amount_cents > 0)
-    .sort(
-      (a, b) =>
-        new Date(a.deadline).getTime() - new Date(b.deadline).getTime()
-    );
+  const events = [
+    ...goals
+      .filter((g) => !g.is_completed && g.target_amount_cents > 0)
+      .map((g) => ({
+        id: g.id,
+        name: g.name,
+        date: new Date(g.deadline),
+        costCents: g.target_amount_cents,
+        source: "goal" as const,
+      })),
+    ...milestones.map((m) => ({
+      id: m.id,
+      name: m.name,
+      date: new Date(m.date),
+      costCents: m.costCents,
+      source: "milestone" as const,
+    })),
+  ]
+    .filter((e) => e.date > now)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
 
   let runningBalance = liquidBalanceCents;
-
-  for (const goal of sorted) {
-    const targetDate = new Date(goal.deadline);
-    if (targetDate <= now) continue;
-
-    // Estimate savings accumulated before this goal's deadline
-    const monthsUntil = Math.max(
-      0,
-      (targetDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24 * 30.44)
-    );
-    const accumulatedSavings = Math.round(
-      monthlySavingsRateCents * monthsUntil
+  let cursor = now.getTime();
+
+  for (const event of events) {
+    // Savings accumulated since the previous event, less milestone costs
+    const eventTime = event.date.getTime();
+    const months = (eventTime - cursor) / MS_PER_MONTH;
+    const milestoneCosts = milestones.reduce(
+      (sum, m) => sum + milestoneImpactBetween(m, cursor, eventTime),
+      0
     );
-    const balanceBeforeGoal = runningBalance + accumulatedSavings;
-    const balanceAfterGoal =
-      balanceBeforeGoal - goal.target_amount_cents;
+    runningBalance += Math.round(monthlySavingsRateCents * months - milestoneCosts);
+    cursor = eventTime;
+
+    if (event.costCents <= 0) continue;
 
-    const emergencyFundMonthsAfter =
-      balanceAfterGoal / monthlyEssentialsCents;
+    const balanceAfter = runningBalance - event.costCents;
+    const emergencyFundMonthsAfter = balanceAfter / monthlyEssentialsCents;
+    const before = event.source === "goal" ? "this goal" : "this milestone";
 
     if (emergencyFundMonthsAfter < 3) {
       interactions.push({
-        goalId: goal.id,
-        goalName: goal.name,
+        goalId: event.id,
+        goalName: event.name,
         warningMessage:
           emergencyFundMonthsAfter <= 0
-            ? `"${goal.name}" would deplete your savings entirely. Consider saving more before this goal.`
-            : `"${goal.name}" may reduce your emergency fund to ${emergencyFundMonthsAfter.toFixed(1)} months. Rebuild before your next goal.`,
+            ? `"${event.name}" would deplete your savings entirely. Consider saving more before ${before}.`
+            : `"${event.name}" may reduce your emergency fund to ${emergencyFundMonthsAfter.toFixed(1)} months. Rebuild before your next goal.`,
         emergencyFundMonthsAfter: Math.max(0, emergencyFundMonthsAfter),
+        source: event.source,
       });
     }
 
-    // Update running balance for next goal in sequence
-    runningBalance = balanceAfterGoal;
+    // Carry the balance forward to the next event in sequence
+    runningBalance = balanceAfter;
   }
 
   return interactions;
@@ -6,12 +6,15 @@ export interface PortfolioInvestment {
   current_value_cents: number;
   purchase_value_cents: number | null;
   created_at: string;
+  currency_code?: string;
+  native_value_cents?: number | null;
 }
 
 export interface HistoryRecord {
   investment_id: string;
   value_cents: number;
   recorded_at: string;
+  native_value_cents?: number | null;
 }
 
 export interface PortfolioDataPoint {
@@ -49,12 +52,17 @@ export interface RebalanceDelta {
  *
  * For each date that has at least one history record, we forward-fill
  * the latest known value for every other investment and sum them.
+ *
+ * With `fxRateOn`, foreign-currency investments that have a native value
+ * are converted at each date's own rate instead of carrying forward the AUD
+ * value from when it was recorded.
  */
 export function aggregatePortfolioHistory(
   investments: PortfolioInvestment[],
   history: HistoryRecord[],
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  fxRateOn?: (currencyCode: string, date: string) => number | null
 ): PortfolioDataPoint[] {
   if (investments.length === 0) return [];
 
@@ -63,7 +71,7 @@ export function aggregatePortfolioHistory(
   const endStr = toDateStr(endDate);
 
   // Build per-investment timeline: investmentId -> sorted [{date, valueCents}]
-  const perInvestment = new Map<string, { date: string; valueCents: number }[]>();
+  const perInvestment = new Map<string, { date: string; valueCents: number; nativeCents: number | null }[]>();
   for (const inv of investments) {
     perInvestment.set(inv.id, []);
   }
@@ -73,7 +81,7 @@ export function aggregatePortfolioHistory(
     if (dateStr < startStr || dateStr > endStr) continue;
     const arr = perInvestment.get(h.investment_id);
     if (arr) {
-      arr.push({ date: dateStr, valueCents: h.value_cents });
+      arr.push({ date: dateStr, valueCents: h.value_cents, nativeCents: h.native_value_cents ?? null });
     }
   }
 
@@ -107,30 +115,22 @@ export function aggregatePortfolioHistory(
 
   // For each date, forward-fill latest known value per investment
   const result: PortfolioDataPoint[] = [];
-  const lastKnown = new Map<string, number>();
+  const lastKnown = new Map<string, KnownValue>();
 
   // Initialize lastKnown with the most recent value before startDate for each investment
+  const latestPreStart = new Map<string, HistoryRecord>();
   for (const h of history) {
     const dateStr = toDateStr(new Date(h.recorded_at));
-    if (dateStr < startStr) {
-      const existing = lastKnown.get(h.investment_id);
-      // Keep the most recent pre-start value
-      if (existing === undefined) {
-        lastKnown.set(h.investment_id, h.value_cents);
-      } else {
-        // history might not be sorted, so compare dates
-        const existingEntries = history.filter(
-          (x) => x.investment_id === h.investment_id && toDateStr(new Date(x.recorded_at)) < startStr
-        );
-        const latest = existingEntries.sort(
-          (a, b) => new Date(b.recorded_at).getTime() - new Date(a.recorded_at).getTime()
-        )[0];
-        if (latest) {
-          lastKnown.set(h.investment_id, latest.value_cents);
-        }
-      }
+    if (dateStr >= startStr) continue;
+    const existing = latestPreStart.get(h.investment_id);
+    // history might not be sorted, so compare dates
+    if (!existing || new Date(h.recorded_at).getTime() > new Date(existing.recorded_at).getTime()) {
+      latestPreStart.set(h.investment_id, h);
     }
   }
+  for (const [invId, h] of latestPreStart) {
+    lastKnown.set(invId, { valueCents: h.value_cents, nativeCents: h.native_value_cents ?? null });
+  }
 
   // Also set initial values for investments with no pre-start history
   for (const inv of investments) {
@@ -138,7 +138,10 @@ export function aggregatePortfolioHistory(
       const invCreated = toDateStr(new Date(inv.created_at));
       if (invCreated <= startStr) {
         // Investment existed before start but no history — use current value as fallback
-        lastKnown.set(inv.id, inv.current_value_cents);
+        lastKnown.set(inv.id, {
+          valueCents: inv.current_value_cents,
+          nativeCents: inv.native_value_cents ?? null,
+        });
       }
     }
   }
@@ -149,7 +152,8 @@ export function aggregatePortfolioHistory(
       const entriesForDate = arr.filter((e) => e.date === date);
       if (entriesForDate.length > 0) {
         // Use the latest entry for this date
-        lastKnown.set(invId, entriesForDate[entriesForDate.length - 1].valueCents);
+        const latest = entriesForDate[entriesForDate.length - 1];
+        lastKnown.set(invId, { valueCents: latest.valueCents, nativeCents: latest.nativeCents });
       }
     }
 
@@ -158,7 +162,8 @@ export function aggregatePortfolioHistory(
     for (const inv of investments) {
       const invCreated = toDateStr(new Date(inv.created_at));
       if (invCreated <= date) {
-        total += lastKnown.get(inv.id) || 0;
+        const known = lastKnown.get(inv.id);
+        if (known) total += valueOnDate(inv, known, date, fxRateOn);
       }
     }
 
@@ -168,6 +173,25 @@ export function aggregatePortfolioHistory(
   return result;
 }
 
+interface KnownValue {
+  valueCents: number;
+  nativeCents: number | null;
+}
+
+/** AUD value of a forward-filled entry, converted at the date's rate when possible */
+function valueOnDate(
+  inv: PortfolioInvestment,
+  known: KnownValue,
+  date: string,
+  fxRateOn?: (currencyCode: string, date: string) => number | null
+): number {
+  if (!fxRateOn || known.nativeCents === null || !inv.currency_code || inv.currency_code === "AUD") {
+    return known.valueCents;
+  }
+  const rate = fxRateOn(inv.currency_code, date);
+  return rate === null ? known.valueCents : Math.round(known.nativeCents * rate);
+}
+
 /**
  * Calculate performance metrics for the portfolio.
  */
@@ -11,6 +11,16 @@ export interface PriceResult {
   changePercent?: number;
   lastUpdated: string;
   source: 'coingecko' | 'yahoo' | 'manual';
+  /** Quote currency and price before conversion to AUD (set when they differ) */
+  nativeCurrency?: string;
+  nativePrice?: number;
+  /** AUD per 1 unit of nativeCurrency used for the conversion */
+  fxRate?: number;
+}
+
+export interface ExchangeRatePoint {
+  date: string; // YYYY-MM-DD
+  rate: number; // AUD per 1 unit
 }
 
 /**
@@ -156,6 +166,54 @@ export async function fetchExchangeRateToAud(fromCurrency: string): Promise<numb
   }
 }
 
+/**
+ * Fetch daily closing exchange rates from a currency to AUD between two
+ * dates (inclusive, YYYY-MM-DD). Days without a close (weekends, holidays)
+ * are omitted. Returns an empty array on failure.
+ */
+export async function fetchExchangeRateHistoryToAud(
+  fromCurrency: string,
+  fromDate: string,
+  toDate: string
+): Promise<ExchangeRatePoint[]> {
+  if (fromCurrency.toUpperCase() === 'AUD') return [];
+  try {
+    const symbol = `${fromCurrency.toUpperCase()}AUD=X`;
+    const period1 = Math.floor(new Date(`${fromDate}T00:00:00Z`).getTime() / 1000);
+    const period2 = Math.floor(new Date(`${toDate}T23:59:59Z`).getTime() / 1000);
+    const response = await fetch(
+      `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?period1=${period1}&period2=${period2}&interval=1d`,
+      {
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'PiggyBack/1.0',
+        },
+        next: { revalidate: 3600 },
+      }
+    );
+    if (!response.ok) return [];
+    const data = await response.json();
+    const result = data?.chart?.result?.[0];
+    const timestamps: number[] = result?.timestamp || [];
+    const closes: (number | null)[] = result?.indicators?.quote?.[0]?.close || [];
+    const gmtOffset: number = result?.meta?.gmtoffset || 0;
+
+    const points = new Map<string, number>();
+    timestamps.forEach((ts, i) => {
+      const close = closes[i];
+      if (!close || close <= 0) return;
+      const date = new Date((ts + gmtOffset) * 1000).toISOString().split('T')[0];
+      if (date < fromDate || date > toDate) return;
+      points.set(date, close);
+    });
+
+    return Array.from(points, ([date, rate]) => ({ date, rate }));
+  } catch (error) {
+    console.error(`Exchange rate history fetch error (${fromCurrency}→AUD):`, error);
+    return [];
+  }
+}
+
 /**
  * Fetch stock/ETF price from Yahoo Finance v8 chart API (FREE - no key needed).
  * Primary source for stocks/ETFs. Excellent ASX coverage including Vanguard ETFs.
@@ -184,14 +242,17 @@ export async function fetchYahooFinancePrice(symbol: string): Promise<PriceResul
 
       if (!meta?.regularMarketPrice) continue;
 
-      let price = meta.regularMarketPrice;
+      const nativePrice = meta.regularMarketPrice;
+      let price = nativePrice;
       let previousClose = meta.previousClose || meta.chartPreviousClose || price;
       const rawCurrency = meta.currency || 'AUD';
+      let fxRate = 1;
 
       // Convert to AUD if the price is in a different currency
       if (rawCurrency !== 'AUD') {
         const rate = await fetchExchangeRateToAud(rawCurrency);
         if (rate) {
+          fxRate = rate;
           price = price * rate;
           previousClose = previousClose * rate;
         } else {
@@ -210,6 +271,7 @@ export async function fetchYahooFinancePrice(symbol: string): Promise<PriceResul
         changePercent,
         lastUpdated: new Date().toISOString(),
         source: 'yahoo',
+        ...(rawCurrency !== 'AUD' && { nativeCurrency: rawCurrency, nativePrice, fxRate }),
       };
     }
 
@@ -228,13 +290,21 @@ export async function fetchStockPrice(symbol: string): Promise<PriceResult | nul
 }
 
 /**
- * Fetch price for any investment based on asset type and ticker
+ * Fetch price for any investment based on asset type and ticker.
+ * `valueCents` is in AUD; `nativeValueCents` is in the quote currency
+ * (`currencyCode`), which is AUD for ASX listings and crypto.
  */
 export async function fetchInvestmentPrice(
   assetType: string,
   ticker?: string | null,
   quantity?: number | null,
-): Promise<{ valueCents: number; priceData: PriceResult } | null> {
+): Promise<{
+  valueCents: number;
+  priceData: PriceResult;
+  currencyCode: string;
+  nativeValueCents: number;
+  fxRate: number;
+} | null> {
   if (!ticker) {
     return null;
   }
@@ -255,9 +325,14 @@ export async function fetchInvestmentPrice(
   // Calculate total value
   const totalValue = quantity ? priceData.price * quantity : priceData.price;
   const valueCents = Math.round(totalValue * 100);
+  const nativePrice = priceData.nativePrice ?? priceData.price;
+  const nativeValueCents = Math.round((quantity ? nativePrice * quantity : nativePrice) * 100);
 
   return {
     valueCents,
     priceData,
+    currencyCode: priceData.nativeCurrency ?? 'AUD',
+    nativeValueCents,
+    fxRate: priceData.fxRate ?? 1,
   };
 }
@@ -0,0 +1,208 @@
+// ============================================================================
+// Price Files
+// Pure parsing for imported price feeds: CSV or JSON files of daily unit
+// prices by ticker, matched to holdings so their history can be backfilled.
+// No database access — all data passed in as arguments.
+//
+// CSV needs a header row with ticker (or symbol/code), date and price (or
+// close) columns, plus an optional currency column. JSON is an array of
+// { ticker, date, price, currency? } objects, or { prices: [...] }.
+// Dates are YYYY-MM-DD or DD/MM/YYYY.
+// ============================================================================
+
+import { parseCsvRows, parseImportDate } from "@/lib/transaction-import";
+
+export type PriceFileFormat = "csv" | "json";
+
+export interface PriceFilePoint {
+  /** Normalised ticker (see normalizeTicker) */
+  ticker: string;
+  date: string; // YYYY-MM-DD
+  /** Price per unit in `currencyCode`, or the holding's currency when null */
+  price: number;
+  currencyCode: string | null;
+}
+
+export interface PriceFileParseResult {
+  prices: PriceFilePoint[];
+  /** Human-readable problems with individual rows (the rows are skipped) */
+  errors: string[];
+}
+
+export interface PriceFileHolding {
+  id: string;
+  ticker_symbol: string | null;
+}
+
+const TICKER_COLUMNS = ["ticker", "symbol", "code"];
+const DATE_COLUMNS = ["date", "price_date"];
+const PRICE_COLUMNS = ["price", "close", "unit_price"];
+const CURRENCY_COLUMNS = ["currency", "currency_code"];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Uppercase, trimmed and without the ASX suffix, so "vas.ax" matches "VAS" */
+export function normalizeTicker(ticker: string): string {
+  return ticker.trim().toUpperCase().replace(/\.AX$/, "");
+}
+
+export function detectPriceFileFormat(fileName: string, content: string): PriceFileFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "json") return "json";
+  if (ext === "csv") return "csv";
+  const head = content.trimStart();
+  return head.startsWith("[") || head.startsWith("{") ? "json" : "csv";
+}
+
+function parsePriceDate(raw: string): string | null {
+  const value = raw.trim();
+  return parseImportDate(value, /^\d{4}-/.test(value) ? "YYYY-MM-DD" : "DD/MM/YYYY");
+}
+
+function parsePrice(raw: unknown): number | null {
+  const value = typeof raw === "number" ? raw : Number(String(raw ?? "").replace(/[$,\s]/g, ""));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function parseCurrency(raw: unknown): string | null | undefined {
+  const value = String(raw ?? "").trim().toUpperCase();
+  if (!value) return null;
+  return /^[A-Z]{3}$/.test(value) ? value : undefined;
+}
+
+/**
+ * Validate one row. Later rows for the same ticker and date replace earlier
+ * ones, so a corrected price can simply be appended.
+ */
+function addPoint(
+  points: Map<string, PriceFilePoint>,
+  errors: string[],
+  label: string,
+  raw: { ticker: unknown; date: unknown; price: unknown; currency: unknown }
+) {
+  const ticker = normalizeTicker(String(raw.ticker ?? ""));
+  if (!ticker) {
+    errors.push(`${label}: missing ticker`);
+    return;
+  }
+  const date = parsePriceDate(String(raw.date ?? ""));
+  if (!date) {
+    errors.push(`${label}: invalid date "${String(raw.date ?? "")}"`);
+    return;
+  }
+  const price = parsePrice(raw.price);
+  if (price === null) {
+    errors.push(`${label}: invalid price "${String(raw.price ?? "")}"`);
+    return;
+  }
+  const currencyCode = parseCurrency(raw.currency);
+  if (currencyCode === undefined) {
+    errors.push(`${label}: invalid currency "${String(raw.currency)}"`);
+    return;
+  }
+  points.set(`${ticker}::${date}`, { ticker, date, price, currencyCode });
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parseCsvPrices(content: string): PriceFileParseResult {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return { prices: [], errors: ["File is empty"] };
+
+  const headers = rows[0].map((h) => h.trim().toLowerCase().replace(/\s+/g, "_"));
+  const find = (names: string[]) => headers.findIndex((h) => names.includes(h));
+  const tickerIdx = find(TICKER_COLUMNS);
+  const dateIdx = find(DATE_COLUMNS);
+  const priceIdx = find(PRICE_COLUMNS);
+  const currencyIdx = find(CURRENCY_COLUMNS);
+
+  if (tickerIdx === -1 || dateIdx === -1 || priceIdx === -1) {
+    return { prices: [], errors: ["The header row needs ticker, date and price columns"] };
+  }
+
+  const points = new Map<string, PriceFilePoint>();
+  const errors: string[] = [];
+  for (let r = 1; r < rows.length; r++) {
+    const row = rows[r];
+    addPoint(points, errors, `Row ${r + 1}`, {
+      ticker: row[tickerIdx],
+      date: row[dateIdx],
+      price: row[priceIdx],
+      currency: currencyIdx === -1 ? null : row[currencyIdx],
+    });
+  }
+  return { prices: [...points.values()], errors };
+}
+
+function parseJsonPrices(content: string): PriceFileParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { prices: [], errors: ["File isn't valid JSON"] };
+  }
+
+  const entries = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { prices?: unknown })?.prices)
+      ? (data as { prices: unknown[] }).prices
+      : null;
+  if (!entries) {
+    return { prices: [], errors: ["Expected an array of prices, or an object with a \"prices\" array"] };
+  }
+
+  const points = new Map<string, PriceFilePoint>();
+  const errors: string[] = [];
+  entries.forEach((entry, i) => {
+    const e = (entry ?? {}) as Record<string, unknown>;
+    addPoint(points, errors, `Entry ${i + 1}`, {
+      ticker: e.ticker ?? e.symbol ?? e.code,
+      date: e.date ?? e.price_date,
+      price: e.price ?? e.close ?? e.unit_price,
+      currency: e.currency ?? e.currency_code,
+    });
+  });
+  return { prices: [...points.values()], errors };
+}
+
+export function parsePriceFile(content: string, format: PriceFileFormat): PriceFileParseResult {
+  return format === "json" ? parseJsonPrices(content) : parseCsvPrices(content);
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Group prices by the holdings whose ticker they match (oldest first). Every
+ * holding with the ticker gets the prices; tickers nobody holds are listed.
+ */
+export function matchPricesToHoldings(
+  prices: PriceFilePoint[],
+  holdings: PriceFileHolding[]
+): { byHolding: Map<string, PriceFilePoint[]>; unmatched: string[] } {
+  const holdingsByTicker = new Map<string, string[]>();
+  for (const h of holdings) {
+    if (!h.ticker_symbol) continue;
+    const ticker = normalizeTicker(h.ticker_symbol);
+    holdingsByTicker.set(ticker, [...(holdingsByTicker.get(ticker) ?? []), h.id]);
+  }
+
+  const byHolding = new Map<string, PriceFilePoint[]>();
+  const unmatched = new Set<string>();
+  for (const point of prices) {
+    const ids = holdingsByTicker.get(point.ticker);
+    if (!ids) {
+      unmatched.add(point.ticker);
+      continue;
+    }
+    for (const id of ids) byHolding.set(id, [...(byHolding.get(id) ?? []), point]);
+  }
+
+  for (const points of byHolding.values()) points.sort((a, b) => a.date.localeCompare(b.date));
+  return { byHolding, unmatched: [...unmatched].sort() };
+}
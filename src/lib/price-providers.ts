@@ -0,0 +1,93 @@
+/**
+ * Where holdings get their prices, chosen per holding by
+ * investments.price_provider:
+ *
+ * - "coingecko": crypto quotes from CoinGecko
+ * - "yahoo": stock/ETF quotes from Yahoo Finance
+ * - "manual": no network calls. Prices come from imported price files and
+ *   prices entered by hand, kept in investment_prices.
+ * - "auto" (default): CoinGecko for crypto, Yahoo Finance for stocks and
+ *   ETFs, manual for everything else.
+ *
+ * PRICE_PROVIDERS=offline treats every holding as manual, for self-hosted
+ * instances with no outbound access. The price store (price-store.ts) caches
+ * what live providers return and reports the last stored price when they
+ * can't be reached.
+ */
+
+import { fetchMultipleCryptoPrices, fetchStockPrice, type PriceResult } from "@/lib/price-apis";
+
+export const PRICE_PROVIDER_CHOICES = ["auto", "coingecko", "yahoo", "manual"] as const;
+export type PriceProviderChoice = (typeof PRICE_PROVIDER_CHOICES)[number];
+
+export const PRICE_PROVIDER_LABELS: Record<PriceProviderChoice, string> = {
+  auto: "Automatic",
+  coingecko: "CoinGecko",
+  yahoo: "Yahoo Finance",
+  manual: "Price file or manual",
+};
+
+export type PriceProviderId = Exclude<PriceProviderChoice, "auto">;
+export type LivePriceProviderId = Exclude<PriceProviderId, "manual">;
+
+/** A live quote older than this is fetched again rather than reused */
+export const PRICE_CACHE_MINUTES = 15;
+
+export interface PriceProvider {
+  id: LivePriceProviderId;
+  label: string;
+  /** Quotes keyed by uppercase ticker; tickers it can't price are left out */
+  fetchPrices(tickers: string[]): Promise<Map<string, PriceResult>>;
+}
+
+export class CoinGeckoPriceProvider implements PriceProvider {
+  readonly id = "coingecko";
+  readonly label = PRICE_PROVIDER_LABELS.coingecko;
+
+  fetchPrices(tickers: string[]): Promise<Map<string, PriceResult>> {
+    // One call for every coin
+    return fetchMultipleCryptoPrices(tickers);
+  }
+}
+
+export class YahooPriceProvider implements PriceProvider {
+  readonly id = "yahoo";
+  readonly label = PRICE_PROVIDER_LABELS.yahoo;
+
+  async fetchPrices(tickers: string[]): Promise<Map<string, PriceResult>> {
+    const results = new Map<string, PriceResult>();
+    for (const ticker of new Set(tickers.map((t) => t.toUpperCase()))) {
+      const price = await fetchStockPrice(ticker);
+      if (price) results.set(ticker, price);
+    }
+    return results;
+  }
+}
+
+export function getPriceProvider(id: LivePriceProviderId): PriceProvider {
+  return id === "coingecko" ? new CoinGeckoPriceProvider() : new YahooPriceProvider();
+}
+
+/** True when PRICE_PROVIDERS=offline: no holding is priced over the network */
+export function isOfflinePricing(): boolean {
+  return process.env.PRICE_PROVIDERS === "offline";
+}
+
+/** The provider that prices a holding, after resolving "auto" and offline mode */
+export function resolvePriceProvider(
+  assetType: string,
+  choice: string | null | undefined,
+  offline = isOfflinePricing()
+): PriceProviderId {
+  if (offline || choice === "manual") return "manual";
+  if (choice === "coingecko" || choice === "yahoo") return choice;
+  if (assetType === "crypto") return "coingecko";
+  if (assetType === "stock" || assetType === "etf") return "yahoo";
+  return "manual";
+}
+
+/** Whether a stored live quote is recent enough to reuse instead of fetching */
+export function isFreshQuote(fetchedAt: string, now: Date, maxAgeMinutes = PRICE_CACHE_MINUTES): boolean {
+  const age = now.getTime() - new Date(fetchedAt).getTime();
+  return age >= 0 && age < maxAgeMinutes * 60_000;
+}
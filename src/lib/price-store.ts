@@ -0,0 +1,351 @@
+/**
+ * Stored unit prices (investment_prices) and the two ways holdings get
+ * priced from them:
+ *
+ * - quoteHoldings() asks each holding's live provider for a price, reusing a
+ *   quote saved in the last few minutes and saving new ones. When a provider
+ *   can't price a holding it says so, naming the last stored price, rather
+ *   than failing quietly.
+ * - applyPricePoints() saves imported or hand-entered prices, backfills
+ *   investment_history for days that have no entry yet and moves the current
+ *   value when the newest price is at least as recent as the history.
+ *
+ * Prices are per unit in the holding's currency.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PriceResult } from "@/lib/price-apis";
+import { BASE_CURRENCY, createFxLookup, isForeignCurrency, toAudCents } from "@/lib/fx-rates";
+import { getFxRateOn, loadFxRates } from "@/lib/fx-rate-store";
+import { unitsHeldOn, type InvestmentTransactionRecord } from "@/lib/investment-ledger";
+import { upsertInvestmentNetWorth } from "@/lib/net-worth-helpers";
+import {
+  getPriceProvider,
+  isFreshQuote,
+  resolvePriceProvider,
+  type LivePriceProviderId,
+} from "@/lib/price-providers";
+
+export type StoredPriceSource = LivePriceProviderId | "file" | "manual";
+
+export interface StoredPrice {
+  investment_id: string;
+  price_date: string;
+  price: number;
+  currency_code: string;
+  source: StoredPriceSource;
+  fetched_at: string;
+}
+
+/** A holding as selected for a live price refresh */
+export interface QuotableHolding {
+  id: string;
+  partnership_id: string;
+  asset_type: string;
+  ticker_symbol: string | null;
+  price_provider: string | null;
+  quantity: number | null;
+}
+
+/** A holding as selected for applying stored prices */
+export interface PricedHolding {
+  id: string;
+  partnership_id: string;
+  currency_code: string;
+  quantity: number | null;
+}
+
+export interface HoldingQuote {
+  /** AUD value of the whole holding */
+  valueCents: number;
+  /** Value in the quote currency */
+  nativeValueCents: number;
+  currencyCode: string;
+  /** AUD per 1 unit of currencyCode */
+  fxRate: number;
+  priceData: PriceResult;
+}
+
+export type HoldingQuoteResult = { quote: HoldingQuote } | { error: string };
+
+export interface PricePoint {
+  date: string; // YYYY-MM-DD
+  price: number;
+}
+
+export interface ApplyPricesResult {
+  historyAdded: number;
+  valueUpdated: boolean;
+  errors: string[];
+}
+
+const WRITE_BATCH_SIZE = 500;
+
+function todayDateStr(now: Date): string {
+  return now.toISOString().split("T")[0];
+}
+
+/** Whole-holding value at a unit price; unit-less holdings are priced whole */
+function holdingValueCents(price: number, units: number | null): number {
+  return Math.round(price * (units || 1) * 100);
+}
+
+/** The newest stored price for a holding */
+export async function loadLatestPrice(supabase: SupabaseClient, investmentId: string): Promise<StoredPrice | null> {
+  const { data } = await supabase
+    .from("investment_prices")
+    .select("investment_id, price_date, price, currency_code, source, fetched_at")
+    .eq("investment_id", investmentId)
+    .order("price_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data ? { ...data, price: Number(data.price) } : null;
+}
+
+/** Upsert prices, one per holding per day. Best-effort: failures are logged */
+export async function saveInvestmentPrices(
+  supabase: SupabaseClient,
+  rows: (Omit<StoredPrice, "fetched_at"> & { partnership_id: string })[]
+): Promise<void> {
+  if (rows.length === 0) return;
+  const fetchedAt = new Date().toISOString();
+  for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("investment_prices")
+      .upsert(
+        rows.slice(i, i + WRITE_BATCH_SIZE).map((r) => ({ ...r, fetched_at: fetchedAt })),
+        { onConflict: "investment_id,price_date" }
+      );
+    if (error) console.error("Failed to save investment prices:", error.message);
+  }
+}
+
+function quoteFromPrice(price: PriceResult, quantity: number | null): HoldingQuote {
+  const nativePrice = price.nativePrice ?? price.price;
+  return {
+    valueCents: holdingValueCents(price.price, quantity),
+    nativeValueCents: holdingValueCents(nativePrice, quantity),
+    currencyCode: price.nativeCurrency ?? BASE_CURRENCY,
+    fxRate: price.fxRate ?? 1,
+    priceData: price,
+  };
+}
+
+/** Rebuild a quote from a stored live price, or null if its currency can't be converted */
+async function quoteFromStored(
+  supabase: SupabaseClient,
+  stored: StoredPrice,
+  quantity: number | null
+): Promise<HoldingQuote | null> {
+  const foreign = isForeignCurrency(stored.currency_code);
+  const fxRate = foreign ? await getFxRateOn(supabase, stored.currency_code, stored.price_date) : 1;
+  if (fxRate === null) return null;
+
+  return quoteFromPrice(
+    {
+      price: stored.price * fxRate,
+      currency: BASE_CURRENCY,
+      lastUpdated: stored.fetched_at,
+      source: stored.source === "coingecko" ? "coingecko" : "yahoo",
+      ...(foreign && { nativeCurrency: stored.currency_code, nativePrice: stored.price, fxRate }),
+    },
+    quantity
+  );
+}
+
+/**
+ * Price holdings from their live providers, one batch per provider. Manual
+ * holdings and holdings without a ticker get an error explaining why.
+ */
+export async function quoteHoldings(
+  supabase: SupabaseClient,
+  holdings: QuotableHolding[],
+  now = new Date()
+): Promise<Map<string, HoldingQuoteResult>> {
+  const results = new Map<string, HoldingQuoteResult>();
+  const today = todayDateStr(now);
+  const pending = new Map<LivePriceProviderId, { holding: QuotableHolding; latest: StoredPrice | null }[]>();
+
+  for (const holding of holdings) {
+    const providerId = resolvePriceProvider(holding.asset_type, holding.price_provider);
+    if (providerId === "manual") {
+      results.set(holding.id, { error: "Priced from price files. Import a file or record a price instead." });
+      continue;
+    }
+    if (!holding.ticker_symbol) {
+      results.set(holding.id, { error: "No ticker symbol set - cannot fetch price" });
+      continue;
+    }
+
+    const latest = await loadLatestPrice(supabase, holding.id);
+    if (latest && latest.price_date === today && latest.source === providerId && isFreshQuote(latest.fetched_at, now)) {
+      const cached = await quoteFromStored(supabase, latest, holding.quantity);
+      if (cached) {
+        results.set(holding.id, { quote: cached });
+        continue;
+      }
+    }
+    pending.set(providerId, [...(pending.get(providerId) ?? []), { holding, latest }]);
+  }
+
+  for (const [providerId, entries] of pending) {
+    const provider = getPriceProvider(providerId);
+    let prices = new Map<string, PriceResult>();
+    try {
+      prices = await provider.fetchPrices(entries.map((e) => e.holding.ticker_symbol!));
+    } catch (error) {
+      console.error(`${provider.label} price fetch failed:`, error);
+    }
+
+    const toSave: Parameters<typeof saveInvestmentPrices>[1] = [];
+    for (const { holding, latest } of entries) {
+      const price = prices.get(holding.ticker_symbol!.toUpperCase());
+      if (!price) {
+        results.set(holding.id, {
+          error: latest
+            ? `No price from ${provider.label}; still on the ${latest.price_date} price`
+            : `No price from ${provider.label}. Check the ticker symbol and try again.`,
+        });
+        continue;
+      }
+
+      const quote = quoteFromPrice(price, holding.quantity);
+      results.set(holding.id, { quote });
+      toSave.push({
+        investment_id: holding.id,
+        partnership_id: holding.partnership_id,
+        price_date: today,
+        price: price.nativePrice ?? price.price,
+        currency_code: quote.currencyCode,
+        source: provider.id,
+      });
+    }
+    await saveInvestmentPrices(supabase, toSave);
+  }
+
+  return results;
+}
+
+/**
+ * Save imported or hand-entered prices for one holding and bring its history
+ * and value up to date. Past days are valued at the units held that day when
+ * the holding has a transaction ledger, otherwise at its current quantity.
+ */
+export async function applyPricePoints(
+  supabase: SupabaseClient,
+  holding: PricedHolding,
+  points: PricePoint[],
+  source: "file" | "manual"
+): Promise<ApplyPricesResult> {
+  const result: ApplyPricesResult = { historyAdded: 0, valueUpdated: false, errors: [] };
+  if (points.length === 0) return result;
+
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  const firstDate = sorted[0].date;
+  const newest = sorted[sorted.length - 1];
+  const currencyCode = holding.currency_code.toUpperCase();
+  const foreign = isForeignCurrency(currencyCode);
+
+  await saveInvestmentPrices(
+    supabase,
+    sorted.map((p) => ({
+      investment_id: holding.id,
+      partnership_id: holding.partnership_id,
+      price_date: p.date,
+      price: p.price,
+      currency_code: currencyCode,
+      source,
+    }))
+  );
+
+  const [{ data: transactions }, { data: history }, { data: latestHistory }, rates] = await Promise.all([
+    supabase
+      .from("investment_transactions")
+      .select("id, investment_id, transaction_type, trade_date, quantity, amount_cents, fees_cents, native_amount_cents, split_ratio, parcel_allocations, created_at")
+      .eq("investment_id", holding.id),
+    supabase
+      .from("investment_history")
+      .select("recorded_at")
+      .eq("investment_id", holding.id)
+      .gte("recorded_at", `${firstDate}T00:00:00.000Z`),
+    supabase
+      .from("investment_history")
+      .select("recorded_at")
+      .eq("investment_id", holding.id)
+      .order("recorded_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    foreign ? loadFxRates(supabase, [currencyCode], firstDate) : Promise.resolve([]),
+  ]);
+
+  const ledger: InvestmentTransactionRecord[] = (transactions || []).map((tx) => ({
+    ...tx,
+    quantity: tx.quantity === null ? null : Number(tx.quantity),
+    split_ratio: tx.split_ratio === null ? null : Number(tx.split_ratio),
+  }));
+  const recordedDates = new Set((history || []).map((h) => String(h.recorded_at).split("T")[0]));
+  const fxRateOn = createFxLookup(rates);
+
+  // 1. Backfill days with no history yet
+  const rows: { investment_id: string; value_cents: number; native_value_cents: number | null; recorded_at: string }[] = [];
+  for (const point of sorted) {
+    if (recordedDates.has(point.date)) continue;
+    const units = ledger.length > 0 ? unitsHeldOn(ledger, point.date) : holding.quantity;
+    if (ledger.length > 0 && !units) continue;
+
+    const nativeCents = holdingValueCents(point.price, units);
+    const rate = foreign ? fxRateOn(currencyCode, point.date) : 1;
+    if (rate === null) {
+      result.errors.push(`No ${currencyCode} exchange rate for ${point.date}`);
+      continue;
+    }
+    rows.push({
+      investment_id: holding.id,
+      value_cents: toAudCents(nativeCents, rate),
+      native_value_cents: foreign ? nativeCents : null,
+      recorded_at: `${point.date}T00:00:00.000Z`,
+    });
+    recordedDates.add(point.date);
+  }
+
+  for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+    const batch = rows.slice(i, i + WRITE_BATCH_SIZE);
+    const { error } = await supabase.from("investment_history").insert(batch);
+    if (error) result.errors.push(`Failed to save ${batch.length} history entries`);
+    else result.historyAdded += batch.length;
+  }
+
+  // 2. Move the current value when nothing newer has been recorded
+  const latestDate = latestHistory ? String(latestHistory.recorded_at).split("T")[0] : null;
+  if (latestDate === null || newest.date >= latestDate) {
+    const nativeCents = holdingValueCents(newest.price, holding.quantity);
+    const rate = foreign ? fxRateOn(currencyCode, newest.date) ?? (await getFxRateOn(supabase, currencyCode, newest.date)) : 1;
+    if (rate === null) {
+      result.errors.push(`No ${currencyCode} exchange rate for ${newest.date}`);
+      return result;
+    }
+
+    const valueCents = toAudCents(nativeCents, rate);
+    await supabase
+      .from("investments")
+      .update({
+        current_value_cents: valueCents,
+        native_value_cents: foreign ? nativeCents : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", holding.id);
+
+    if (!rows.some((r) => r.recorded_at.startsWith(newest.date))) {
+      await supabase.from("investment_history").insert({
+        investment_id: holding.id,
+        value_cents: valueCents,
+        native_value_cents: foreign ? nativeCents : null,
+      });
+    }
+    await upsertInvestmentNetWorth(supabase, holding.partnership_id);
+    result.valueUpdated = true;
+  }
+
+  return result;
+}
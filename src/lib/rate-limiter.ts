@@ -1,15 +1,19 @@
 /**
- * Simple in-memory rate limiter using a sliding window approach.
+ * Fixed-window rate limiter with a pluggable storage backend.
  *
- * Tracks per-key request counts with automatic window reset.
+ * Tracks per-key request counts with automatic window reset. Counts live in a
+ * RateLimitStore chosen by the RATE_LIMIT_STORE environment variable:
  *
- * LIMITATION: This uses an in-memory Map that resets on serverless cold starts.
- * This means rate limits are NOT durable across function invocations — an attacker
- * who waits for (or triggers) a cold start can bypass rate limits entirely.
- * For production hardening, replace with a Redis/Upstash-backed implementation
- * (e.g. @upstash/ratelimit) that persists state across invocations.
+ * - "memory" (default): an in-memory Map per limiter. Resets on serverless cold
+ *   starts and is not shared between instances, so limits are best-effort only.
+ * - "database": the public.rate_limits table via the rate_limit_hit() RPC.
+ *   Counts are shared by every instance and survive restarts. If the database
+ *   is unreachable the limiter falls back to its in-memory store rather than
+ *   failing the request.
  */
 
+import { createServiceRoleClient } from "@/utils/supabase/service-role";
+
 interface RateLimitEntry {
   count: number;
   resetAt: number;
@@ -20,6 +24,10 @@ interface RateLimitConfig {
   maxRequests: number;
   /** Window duration in milliseconds */
   windowMs: number;
+  /** Namespace for this limiter's keys in a shared store */
+  name?: string;
+  /** Storage backend. Defaults to the store selected by RATE_LIMIT_STORE. */
+  store?: RateLimitStore;
 }
 
 interface RateLimitResult {
@@ -31,30 +39,32 @@ interface RateLimitResult {
   retryAfterMs?: number;
 }
 
+/**
+ * Storage backend for rate limit counters.
+ */
+export interface RateLimitStore {
+  /**
+   * Record a hit against `key` and return the window's count (including this
+   * hit) and reset time in epoch milliseconds. A new window of `windowMs`
+   * starts when there is no entry or the previous window has expired.
+   */
+  hit(key: string, windowMs: number): Promise<RateLimitEntry>;
+}
+
 /** Interval between automatic cleanup sweeps (5 minutes) */
 const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
 
-export class RateLimiter {
+/**
+ * Per-process store. Periodically cleans up expired entries to prevent
+ * unbounded memory growth.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
   private entries: Map<string, RateLimitEntry> = new Map();
-  private maxRequests: number;
-  private windowMs: number;
   private lastCleanup: number = Date.now();
 
-  constructor(config: RateLimitConfig) {
-    this.maxRequests = config.maxRequests;
-    this.windowMs = config.windowMs;
-  }
-
-  /**
-   * Check if a request for the given key is allowed.
-   * If allowed, increments the counter and returns the result.
-   *
-   * Periodically cleans up expired entries to prevent memory leaks.
-   */
-  check(key: string): RateLimitResult {
+  async hit(key: string, windowMs: number): Promise<RateLimitEntry> {
     const now = Date.now();
 
-    // Periodically clean up expired entries to prevent unbounded memory growth
     if (now - this.lastCleanup > CLEANUP_INTERVAL_MS) {
       this.cleanup();
       this.lastCleanup = now;
@@ -64,19 +74,105 @@ export class RateLimiter {
 
     // If no entry or window has expired, start a new window
     if (!entry || now >= entry.resetAt) {
-      this.entries.set(key, {
-        count: 1,
-        resetAt: now + this.windowMs,
-      });
-      return {
-        allowed: true,
-        remaining: this.maxRequests - 1,
-      };
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.entries.set(key, fresh);
+      return { ...fresh };
     }
 
-    // Window is still active
-    if (entry.count < this.maxRequests) {
-      entry.count++;
+    entry.count++;
+    return { ...entry };
+  }
+
+  /**
+   * Clean up expired entries to prevent memory leaks.
+   * Called automatically during hit() every CLEANUP_INTERVAL_MS.
+   */
+  cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now >= entry.resetAt) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Postgres-backed store shared across instances. Requires the
+ * rate_limits migration and SUPABASE_SERVICE_ROLE_KEY.
+ */
+export class DatabaseRateLimitStore implements RateLimitStore {
+  private lastCleanup = 0;
+
+  async hit(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .rpc("rate_limit_hit", { p_key: key, p_window_ms: windowMs })
+      .single<{ hit_count: number; reset_at: string }>();
+
+    if (error || !data) {
+      throw new Error(error?.message ?? "rate_limit_hit returned no row");
+    }
+
+    // Expired windows are harmless but accumulate; sweep them occasionally
+    const now = Date.now();
+    if (now - this.lastCleanup > CLEANUP_INTERVAL_MS) {
+      this.lastCleanup = now;
+      const { error: cleanupError } = await supabase.rpc("rate_limit_cleanup");
+      if (cleanupError) {
+        console.error("Rate limit cleanup failed:", cleanupError.message);
+      }
+    }
+
+    return { count: data.hit_count, resetAt: new Date(data.reset_at).getTime() };
+  }
+}
+
+let sharedDatabaseStore: DatabaseRateLimitStore | null = null;
+
+/**
+ * Resolve the store configured by RATE_LIMIT_STORE. Returns null for the
+ * default in-memory backend, which each limiter owns itself.
+ */
+function getConfiguredStore(): RateLimitStore | null {
+  if (process.env.RATE_LIMIT_STORE !== "database") return null;
+  if (!sharedDatabaseStore) sharedDatabaseStore = new DatabaseRateLimitStore();
+  return sharedDatabaseStore;
+}
+
+export class RateLimiter {
+  private memoryStore = new MemoryRateLimitStore();
+  private store?: RateLimitStore;
+  private maxRequests: number;
+  private windowMs: number;
+  private name: string;
+
+  constructor(config: RateLimitConfig) {
+    this.maxRequests = config.maxRequests;
+    this.windowMs = config.windowMs;
+    this.name = config.name ?? "default";
+    this.store = config.store;
+  }
+
+  /**
+   * Check if a request for the given key is allowed.
+   * Every call counts as a hit against the current window.
+   */
+  async check(key: string): Promise<RateLimitResult> {
+    const store = this.store ?? getConfiguredStore() ?? this.memoryStore;
+
+    let entry: RateLimitEntry;
+    try {
+      entry = await store.hit(`${this.name}:${key}`, this.windowMs);
+    } catch (err) {
+      console.error(
+        "Rate limit store unavailable, using in-memory fallback:",
+        err instanceof Error ? err.message : err
+      );
+      entry = await this.memoryStore.hit(`${this.name}:${key}`, this.windowMs);
+    }
+
+    if (entry.count <= this.maxRequests) {
       return {
         allowed: true,
         remaining: this.maxRequests - entry.count,
@@ -87,21 +183,15 @@ export class RateLimiter {
     return {
       allowed: false,
       remaining: 0,
-      retryAfterMs: entry.resetAt - now,
+      retryAfterMs: Math.max(0, entry.resetAt - Date.now()),
     };
   }
 
   /**
-   * Clean up expired entries to prevent memory leaks.
-   * Called automatically during check() every CLEANUP_INTERVAL_MS.
+   * Clean up expired in-memory entries. Called automatically during check().
    */
   cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.entries) {
-      if (now >= entry.resetAt) {
-        this.entries.delete(key);
-      }
-    }
+    this.memoryStore.cleanup();
   }
 }
 
@@ -129,6 +219,7 @@ export function rateLimitKey(userId: string, ip: string): string {
 
 // General API rate limiter for state-changing endpoints without specific limiters
 export const generalApiLimiter = new RateLimiter({
+  name: "general-api",
   maxRequests: 30,
   windowMs: 60 * 1000, // 30 req/min
 });
@@ -136,48 +227,63 @@ export const generalApiLimiter = new RateLimiter({
 // Pre-configured limiters for specific endpoints
 // Chat endpoint: 10 requests per minute
 export const chatLimiter = new RateLimiter({
+  name: "chat",
   maxRequests: 10,
   windowMs: 60_000, // 1 minute
 });
 
 // Auto-detect endpoint: 5 requests per hour
 export const autoDetectLimiter = new RateLimiter({
+  name: "auto-detect",
   maxRequests: 5,
   windowMs: 3_600_000, // 1 hour
 });
 
 // AI settings endpoint: 5 updates per hour per user
 export const aiSettingsLimiter = new RateLimiter({
+  name: "ai-settings",
   maxRequests: 5,
   windowMs: 3_600_000, // 1 hour
 });
 
 // Sync endpoint: 2 syncs per 5 minutes
 export const syncLimiter = new RateLimiter({
+  name: "sync",
   maxRequests: 2,
   windowMs: 5 * 60_000, // 5 minutes
 });
 
 // Batch operations (rematch-all, backfill-all, recalculate-periods): 3 per minute
 export const batchOperationLimiter = new RateLimiter({
+  name: "batch",
   maxRequests: 3,
   windowMs: 60_000, // 1 minute
 });
 
 // Export endpoint: 5 per minute
 export const exportLimiter = new RateLimiter({
+  name: "export",
   maxRequests: 5,
   windowMs: 60_000, // 1 minute
 });
 
+// Statement import endpoint: 10 files per 10 minutes
+export const importLimiter = new RateLimiter({
+  name: "import",
+  maxRequests: 10,
+  windowMs: 10 * 60_000, // 10 minutes
+});
+
 // General read limiter for expensive GET endpoints (budget summary, AI context, transactions)
 export const generalReadLimiter = new RateLimiter({
+  name: "general-read",
   maxRequests: 60,
   windowMs: 60_000, // 60 req/min
 });
 
 // Webhook endpoint: IP-based, 120 per minute (Up Bank may send bursts)
 export const webhookLimiter = new RateLimiter({
+  name: "webhook",
   maxRequests: 120,
   windowMs: 60_000, // 1 minute
 });
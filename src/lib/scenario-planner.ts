@@ -0,0 +1,381 @@
+// ============================================================================
+// Scenario Planner
+// Pure functions for "what if" scenarios: a copy of the current plan with
+// several changes at once (new job, a baby, going part-time, a house deposit,
+// selling an investment), evaluated for FIRE date, goal completion dates and
+// monthly budget surplus. No database access — all data passed in as
+// arguments.
+// ============================================================================
+
+import {
+  projectFireDate,
+  type FireProfile,
+  type InvestmentData,
+  type ProjectionAdjustment,
+  type SpendingData,
+} from "@/lib/fire-calculations";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const SCENARIO_CHANGE_TYPES = [
+  "income",
+  "work_hours",
+  "expense",
+  "goal",
+  "sell_investment",
+] as const;
+
+export type ScenarioChangeType = (typeof SCENARIO_CHANGE_TYPES)[number];
+
+export const SCENARIO_CHANGE_TYPE_LABELS: Record<ScenarioChangeType, string> = {
+  income: "Income change",
+  work_hours: "Work hours",
+  expense: "Spending change",
+  goal: "New savings goal",
+  sell_investment: "Sell an investment",
+};
+
+/** When a monthly change applies: from `starts_in_months`, for `months` (null = ongoing) */
+interface ScenarioTiming {
+  starts_in_months: number;
+  months: number | null;
+}
+
+/** Monthly income up or down, e.g. a new job or parental leave */
+export interface IncomeChange extends ScenarioTiming {
+  type: "income";
+  label: string;
+  monthly_cents: number;
+}
+
+/** Work a percentage of current hours, scaling the affected income */
+export interface WorkHoursChange extends ScenarioTiming {
+  type: "work_hours";
+  label: string;
+  /** e.g. 80 for four days a week */
+  percent: number;
+  /** Monthly income the change applies to; null = all household income */
+  monthly_income_cents: number | null;
+}
+
+/** Monthly spending up or down, e.g. the cost of a baby or childcare */
+export interface ExpenseChange extends ScenarioTiming {
+  type: "expense";
+  label: string;
+  monthly_cents: number;
+}
+
+/** A new savings goal, funded from surplus alongside existing goals */
+export interface GoalChange {
+  type: "goal";
+  label: string;
+  target_cents: number;
+  /** YYYY-MM-DD */
+  deadline: string | null;
+}
+
+/** Sell part of the investment portfolio; the proceeds go towards goals */
+export interface SellInvestmentChange {
+  type: "sell_investment";
+  label: string;
+  amount_cents: number;
+}
+
+export type ScenarioChange =
+  | IncomeChange
+  | WorkHoursChange
+  | ExpenseChange
+  | GoalChange
+  | SellInvestmentChange;
+
+/** A row from plan_scenarios */
+export interface PlanScenario {
+  id: string;
+  name: string;
+  notes: string | null;
+  changes: ScenarioChange[];
+  created_at: string;
+}
+
+export interface ScenarioGoal {
+  id: string;
+  name: string;
+  current_amount_cents: number;
+  target_amount_cents: number;
+  /** YYYY-MM-DD */
+  deadline: string | null;
+}
+
+/** The current plan every scenario starts from */
+export interface ScenarioBase {
+  monthlyIncomeCents: number;
+  monthlySpendCents: number;
+  goals: ScenarioGoal[];
+  /** FIRE inputs, when FIRE has been set up */
+  fire: {
+    profile: FireProfile;
+    spending: SpendingData;
+    investments: InvestmentData;
+    /** Changes already in the plan, e.g. life milestones */
+    adjustments?: ProjectionAdjustment[];
+  } | null;
+}
+
+export interface GoalOutcome {
+  /** Existing goal id, or null for a goal added by the scenario */
+  id: string | null;
+  name: string;
+  deadline: string | null;
+  /** First of the month the goal is fully funded; null if never within 50 years */
+  completionDate: Date | null;
+  /** Funded by its deadline; null when there's no deadline */
+  onTime: boolean | null;
+}
+
+export interface ScenarioOutcome {
+  fireAge: number | null;
+  fireDate: Date | null;
+  fireNumberCents: number | null;
+  /** Income minus spending in the first month */
+  monthlySurplusCents: number;
+  /** Income minus spending once temporary changes have ended */
+  ongoingSurplusCents: number;
+  goals: GoalOutcome[];
+}
+
+// ============================================================================
+// Monthly Cashflow
+// ============================================================================
+
+/** Goal funding is simulated for up to 50 years */
+const MAX_MONTHS = 600;
+
+function isActive(change: ScenarioTiming, month: number): boolean {
+  if (month < change.starts_in_months) return false;
+  return change.months === null || month < change.starts_in_months + change.months;
+}
+
+/** Monthly income change from a work-hours change */
+function workHoursDeltaCents(change: WorkHoursChange, baseIncomeCents: number): number {
+  const affected = change.monthly_income_cents ?? baseIncomeCents;
+  return Math.round(affected * (change.percent / 100 - 1));
+}
+
+/**
+ * Income and spending changes for a month from now (0 = this month). Pass
+ * `Infinity` for the ongoing position once temporary changes have ended.
+ */
+export function monthlyDeltas(
+  changes: ScenarioChange[],
+  baseIncomeCents: number,
+  month: number
+): { incomeCents: number; spendingCents: number } {
+  let incomeCents = 0;
+  let spendingCents = 0;
+  for (const change of changes) {
+    if (change.type === "income") {
+      if (isActive(change, month)) incomeCents += change.monthly_cents;
+    } else if (change.type === "work_hours") {
+      if (isActive(change, month)) incomeCents += workHoursDeltaCents(change, baseIncomeCents);
+    } else if (change.type === "expense") {
+      if (isActive(change, month)) spendingCents += change.monthly_cents;
+    }
+  }
+  return { incomeCents, spendingCents };
+}
+
+/**
+ * Yearly projection adjustments for changes that aren't the same every
+ * month: anything delayed or temporary. Ongoing changes go into the FIRE
+ * inputs directly (so they also grow and move the FIRE number); this covers
+ * the difference between each year and that ongoing position.
+ */
+export function toProjectionAdjustments(
+  changes: ScenarioChange[],
+  baseIncomeCents: number
+): ProjectionAdjustment[] {
+  const ongoing = monthlyDeltas(changes, baseIncomeCents, Infinity);
+  const lastMonth = changes.reduce((max, c) => {
+    if (c.type !== "income" && c.type !== "work_hours" && c.type !== "expense") return max;
+    return Math.max(max, c.starts_in_months + (c.months ?? 0));
+  }, 0);
+
+  const adjustments: ProjectionAdjustment[] = [];
+  for (let year = 0; year * 12 < lastMonth; year++) {
+    let incomeCents = 0;
+    let spendingCents = 0;
+    for (let month = year * 12; month < year * 12 + 12; month++) {
+      const delta = monthlyDeltas(changes, baseIncomeCents, month);
+      incomeCents += delta.incomeCents - ongoing.incomeCents;
+      spendingCents += delta.spendingCents - ongoing.spendingCents;
+    }
+    if (incomeCents !== 0 || spendingCents !== 0) {
+      adjustments.push({ yearOffset: year, incomeCents, spendingCents });
+    }
+  }
+  return adjustments;
+}
+
+// ============================================================================
+// Goals
+// ============================================================================
+
+interface FundedGoal extends GoalOutcome {
+  remainingCents: number;
+  /** Saved from surplus rather than sale proceeds (scenario goals only) */
+  fromSurplusCents: number;
+  completionMonth: number | null;
+}
+
+/**
+ * Fund goals one at a time in deadline order (goals without a deadline
+ * last) from each month's surplus, after any sale proceeds. A month with a
+ * deficit adds nothing but doesn't draw goals down.
+ */
+function fundGoals(
+  base: ScenarioBase,
+  changes: ScenarioChange[],
+  now: Date
+): FundedGoal[] {
+  const goals: FundedGoal[] = [
+    ...base.goals.map((g) => ({
+      id: g.id,
+      name: g.name,
+      deadline: g.deadline,
+      remainingCents: Math.max(0, g.target_amount_cents - g.current_amount_cents),
+    })),
+    ...changes
+      .filter((c): c is GoalChange => c.type === "goal")
+      .map((c) => ({
+        id: null,
+        name: c.label,
+        deadline: c.deadline,
+        remainingCents: c.target_cents,
+      })),
+  ]
+    .map((g) => ({ ...g, fromSurplusCents: 0, completionMonth: null, completionDate: null, onTime: null }))
+    .sort((a, b) => {
+      if (a.deadline === b.deadline) return 0;
+      if (a.deadline === null) return 1;
+      if (b.deadline === null) return -1;
+      return a.deadline.localeCompare(b.deadline);
+    });
+
+  const fund = (amountCents: number, month: number, fromSurplus: boolean) => {
+    let left = amountCents;
+    for (const goal of goals) {
+      if (left <= 0) break;
+      if (goal.completionMonth !== null) continue;
+      const take = Math.min(goal.remainingCents, left);
+      goal.remainingCents -= take;
+      if (fromSurplus && goal.id === null) goal.fromSurplusCents += take;
+      left -= take;
+      if (goal.remainingCents === 0) goal.completionMonth = month;
+    }
+  };
+
+  // Already-funded goals are done now
+  for (const goal of goals) {
+    if (goal.remainingCents === 0) goal.completionMonth = 0;
+  }
+
+  const proceeds = changes
+    .filter((c): c is SellInvestmentChange => c.type === "sell_investment")
+    .reduce((sum, c) => sum + c.amount_cents, 0);
+  fund(proceeds, 0, false);
+
+  for (let month = 0; month < MAX_MONTHS; month++) {
+    if (goals.every((g) => g.completionMonth !== null)) break;
+    const delta = monthlyDeltas(changes, base.monthlyIncomeCents, month);
+    const surplus =
+      base.monthlyIncomeCents + delta.incomeCents - (base.monthlySpendCents + delta.spendingCents);
+    if (surplus > 0) fund(surplus, month, true);
+  }
+
+  for (const goal of goals) {
+    if (goal.completionMonth === null) continue;
+    goal.completionDate = new Date(now.getFullYear(), now.getMonth() + goal.completionMonth, 1);
+    goal.onTime = goal.deadline === null
+      ? null
+      : goal.completionDate <= new Date(`${goal.deadline}T00:00:00`);
+  }
+
+  return goals;
+}
+
+// ============================================================================
+// Core
+// ============================================================================
+
+/**
+ * Evaluate a scenario against the current plan. An empty change list gives
+ * the current plan itself, so scenarios compare like for like.
+ *
+ * For FIRE, ongoing income and spending changes replace the current figures;
+ * delayed or temporary ones become yearly adjustments. Selling an investment
+ * takes it out of the portfolio, and money saved from surplus for a new
+ * scenario goal is treated as spent once the goal is reached.
+ */
+export function evaluateScenario(
+  base: ScenarioBase,
+  changes: ScenarioChange[],
+  now: Date = new Date()
+): ScenarioOutcome {
+  const first = monthlyDeltas(changes, base.monthlyIncomeCents, 0);
+  const ongoing = monthlyDeltas(changes, base.monthlyIncomeCents, Infinity);
+  const funded = fundGoals(base, changes, now);
+
+  let fireAge: number | null = null;
+  let fireDate: Date | null = null;
+  let fireNumberCents: number | null = null;
+
+  if (base.fire) {
+    const { profile, spending, investments } = base.fire;
+    const scenarioSpending: SpendingData = {
+      ...spending,
+      monthlyIncomeCents: Math.max(0, spending.monthlyIncomeCents + ongoing.incomeCents),
+      monthlyTotalSpendCents: Math.max(0, spending.monthlyTotalSpendCents + ongoing.spendingCents),
+    };
+    const adjustments = [
+      ...(base.fire.adjustments ?? []),
+      ...toProjectionAdjustments(changes, base.monthlyIncomeCents),
+    ];
+
+    const soldCents = changes
+      .filter((c): c is SellInvestmentChange => c.type === "sell_investment")
+      .reduce((sum, c) => sum + c.amount_cents, 0);
+    if (soldCents > 0) adjustments.push({ yearOffset: 0, outsideSuperCents: -soldCents });
+
+    for (const goal of funded) {
+      if (goal.id !== null || goal.completionMonth === null || goal.fromSurplusCents === 0) continue;
+      adjustments.push({
+        yearOffset: Math.floor(goal.completionMonth / 12) + 1,
+        outsideSuperCents: -goal.fromSurplusCents,
+      });
+    }
+
+    const result = projectFireDate(profile, scenarioSpending, investments, adjustments);
+    fireAge = result.projectedFireAge;
+    fireDate = result.projectedFireDate;
+    fireNumberCents = result.fireNumberCents;
+  }
+
+  return {
+    fireAge,
+    fireDate,
+    fireNumberCents,
+    monthlySurplusCents:
+      base.monthlyIncomeCents + first.incomeCents - (base.monthlySpendCents + first.spendingCents),
+    ongoingSurplusCents:
+      base.monthlyIncomeCents + ongoing.incomeCents - (base.monthlySpendCents + ongoing.spendingCents),
+    goals: funded.map((g) => ({
+      id: g.id,
+      name: g.name,
+      deadline: g.deadline,
+      completionDate: g.completionDate,
+      onTime: g.onTime,
+    })),
+  };
+}
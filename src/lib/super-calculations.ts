@@ -0,0 +1,343 @@
+// ============================================================================
+// Super Calculations
+// Pure functions for super accounts: contribution totals, the concessional
+// and non-concessional caps, carry-forward of unused concessional cap, and
+// the figures the FIRE projection and net worth take from super. No
+// database access — all data passed in as arguments.
+// ============================================================================
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const SUPER_CONTRIBUTION_TYPES = [
+  "employer",
+  "salary_sacrifice",
+  "personal_deductible",
+  "personal",
+] as const;
+
+export type SuperContributionType = (typeof SUPER_CONTRIBUTION_TYPES)[number];
+
+export const SUPER_CONTRIBUTION_TYPE_LABELS: Record<SuperContributionType, string> = {
+  employer: "Employer (SG)",
+  salary_sacrifice: "Salary sacrifice",
+  personal_deductible: "Personal (claiming a deduction)",
+  personal: "Personal (after tax)",
+};
+
+/** Employer, salary sacrifice and claimed personal contributions count towards the concessional cap */
+export const CONCESSIONAL_TYPES: readonly SuperContributionType[] = [
+  "employer",
+  "salary_sacrifice",
+  "personal_deductible",
+];
+
+/** A row from super_accounts, as selected by the plan page and actions */
+export interface SuperAccountRecord {
+  id: string;
+  user_id: string;
+  fund_name: string;
+  balance_cents: number;
+  /** Date the balance was last recorded, YYYY-MM-DD */
+  balance_date: string;
+  notes?: string | null;
+}
+
+export interface SuperContributionRecord {
+  id: string;
+  super_account_id: string;
+  /** YYYY-MM-DD */
+  contribution_date: string;
+  amount_cents: number;
+  contribution_type: SuperContributionType;
+  notes?: string | null;
+}
+
+export interface SuperBalancePoint {
+  super_account_id: string;
+  /** YYYY-MM-DD */
+  recorded_on: string;
+  balance_cents: number;
+}
+
+export interface ContributionSummary {
+  concessionalCents: number;
+  nonConcessionalCents: number;
+  byType: Record<SuperContributionType, number>;
+}
+
+export interface ConcessionalCapStatus {
+  financialYear: number;
+  capCents: number;
+  usedCents: number;
+  /** Unused cap from the previous five years still available to carry forward */
+  carryForwardCents: number;
+  /** Total super balance was under $500k on the 30 June before this year */
+  carryForwardEligible: boolean;
+  /** capCents plus carryForwardCents when eligible */
+  availableCents: number;
+  remainingCents: number;
+  /** Contributions above the available cap (taxed at the marginal rate) */
+  excessCents: number;
+  /** Unused amounts by the year they came from, oldest first */
+  unusedByYear: { financialYear: number; unusedCents: number }[];
+}
+
+// ============================================================================
+// Caps
+// ============================================================================
+
+/** Total super balance at or above which unused cap can't be carried forward */
+export const CARRY_FORWARD_BALANCE_LIMIT_CENTS = 500_000_00;
+
+/** Unused cap first accrued in 2018–19 and lasts five years */
+const CARRY_FORWARD_FIRST_YEAR = 2019;
+const CARRY_FORWARD_YEARS = 5;
+
+/** Concessional cap for a financial year (named by the year it ends) */
+export function concessionalCapCents(financialYear: number): number {
+  if (financialYear >= 2025) return 30_000_00;
+  if (financialYear >= 2022) return 27_500_00;
+  return 25_000_00;
+}
+
+/** Non-concessional cap for a financial year */
+export function nonConcessionalCapCents(financialYear: number): number {
+  if (financialYear >= 2025) return 120_000_00;
+  if (financialYear >= 2022) return 110_000_00;
+  return 100_000_00;
+}
+
+/** Financial year a YYYY-MM-DD date falls in, named by the year it ends */
+export function superFinancialYear(date: string): number {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  return month >= 7 ? year + 1 : year;
+}
+
+export function isConcessional(type: SuperContributionType): boolean {
+  return CONCESSIONAL_TYPES.includes(type);
+}
+
+// ============================================================================
+// Contributions
+// ============================================================================
+
+/** Totals for one financial year */
+export function summarizeContributions(
+  contributions: Pick<SuperContributionRecord, "contribution_date" | "amount_cents" | "contribution_type">[],
+  financialYear: number
+): ContributionSummary {
+  const byType = Object.fromEntries(SUPER_CONTRIBUTION_TYPES.map((t) => [t, 0])) as Record<SuperContributionType, number>;
+  for (const c of contributions) {
+    if (superFinancialYear(c.contribution_date) !== financialYear) continue;
+    byType[c.contribution_type] += c.amount_cents;
+  }
+  const concessionalCents = CONCESSIONAL_TYPES.reduce((sum, t) => sum + byType[t], 0);
+  return {
+    concessionalCents,
+    nonConcessionalCents: byType.personal,
+    byType,
+  };
+}
+
+/** Concessional contributions per financial year */
+export function concessionalByYear(
+  contributions: Pick<SuperContributionRecord, "contribution_date" | "amount_cents" | "contribution_type">[]
+): Map<number, number> {
+  const totals = new Map<number, number>();
+  for (const c of contributions) {
+    if (!isConcessional(c.contribution_type)) continue;
+    const fy = superFinancialYear(c.contribution_date);
+    totals.set(fy, (totals.get(fy) ?? 0) + c.amount_cents);
+  }
+  return totals;
+}
+
+/**
+ * Salary sacrifice and personal contributions over the twelve months to
+ * `asOf`, used as the yearly top-up on top of SG in FIRE projections.
+ */
+export function trailingVoluntaryContributionsCents(
+  contributions: Pick<SuperContributionRecord, "contribution_date" | "amount_cents" | "contribution_type">[],
+  asOf: Date
+): number {
+  const to = asOf.toISOString().slice(0, 10);
+  const fromDate = new Date(asOf);
+  fromDate.setFullYear(fromDate.getFullYear() - 1);
+  const from = fromDate.toISOString().slice(0, 10);
+  return contributions
+    .filter((c) => c.contribution_type !== "employer" && c.contribution_date > from && c.contribution_date <= to)
+    .reduce((sum, c) => sum + c.amount_cents, 0);
+}
+
+// ============================================================================
+// Balances
+// ============================================================================
+
+/**
+ * Combined balance across accounts on a date, using each account's latest
+ * recorded balance on or before it. Null when no account has a balance
+ * that early.
+ */
+export function totalBalanceAsAt(history: SuperBalancePoint[], date: string): number | null {
+  const latest = new Map<string, SuperBalancePoint>();
+  for (const point of history) {
+    if (point.recorded_on > date) continue;
+    const current = latest.get(point.super_account_id);
+    if (!current || point.recorded_on > current.recorded_on) latest.set(point.super_account_id, point);
+  }
+  if (latest.size === 0) return null;
+  let total = 0;
+  for (const point of latest.values()) total += point.balance_cents;
+  return total;
+}
+
+// ============================================================================
+// Concessional Cap with Carry-Forward
+// ============================================================================
+
+/**
+ * Concessional cap status for one person and financial year.
+ *
+ * Unused cap from up to five earlier years (2018–19 onwards) can be used
+ * once total super is under $500k on the previous 30 June; the oldest unused
+ * amounts are used first. Years before the first recorded contribution are
+ * treated as unknown rather than fully unused, so carry-forward only shows
+ * once past contributions have been entered.
+ *
+ * @param balanceAsAt - total super balance on a YYYY-MM-DD date, or null if unknown (treated as eligible)
+ */
+export function calculateConcessionalCap(
+  financialYear: number,
+  concessional: Map<number, number>,
+  balanceAsAt: (date: string) => number | null
+): ConcessionalCapStatus {
+  const eligible = (fy: number) => {
+    const balance = balanceAsAt(`${fy - 1}-06-30`);
+    return balance === null || balance < CARRY_FORWARD_BALANCE_LIMIT_CENTS;
+  };
+
+  const recordedYears = [...concessional.keys()].filter((fy) => fy < financialYear);
+  const firstYear = recordedYears.length > 0
+    ? Math.max(CARRY_FORWARD_FIRST_YEAR, Math.min(...recordedYears))
+    : financialYear;
+
+  let unused: { financialYear: number; unusedCents: number }[] = [];
+  for (let fy = firstYear; fy < financialYear; fy++) {
+    unused = unused.filter((u) => u.financialYear >= fy - CARRY_FORWARD_YEARS);
+    const cap = concessionalCapCents(fy);
+    const used = concessional.get(fy) ?? 0;
+    if (used <= cap) {
+      unused.push({ financialYear: fy, unusedCents: cap - used });
+    } else if (eligible(fy)) {
+      let excess = used - cap;
+      for (const u of unused) {
+        const take = Math.min(u.unusedCents, excess);
+        u.unusedCents -= take;
+        excess -= take;
+        if (excess === 0) break;
+      }
+    }
+  }
+  unused = unused.filter((u) => u.unusedCents > 0 && u.financialYear >= financialYear - CARRY_FORWARD_YEARS);
+
+  const capCents = concessionalCapCents(financialYear);
+  const usedCents = concessional.get(financialYear) ?? 0;
+  const carryForwardCents = unused.reduce((sum, u) => sum + u.unusedCents, 0);
+  const carryForwardEligible = eligible(financialYear);
+  const availableCents = capCents + (carryForwardEligible ? carryForwardCents : 0);
+
+  return {
+    financialYear,
+    capCents,
+    usedCents,
+    carryForwardCents,
+    carryForwardEligible,
+    availableCents,
+    remainingCents: Math.max(0, availableCents - usedCents),
+    excessCents: Math.max(0, usedCents - availableCents),
+    unusedByYear: unused,
+  };
+}
+
+/** Sum of account balances, for net worth and the FIRE super bucket */
+export function calculateSuperTotal(accounts: Pick<SuperAccountRecord, "balance_cents">[]): number {
+  return accounts.reduce((sum, a) => sum + (a.balance_cents || 0), 0);
+}
+
+/**
+ * Concessional cap room left this year after employer SG still to come.
+ * Once employer contributions are being entered, only SG for the rest of
+ * the year is expected; until then the whole year's SG is.
+ */
+export function projectedConcessionalRoomCents(
+  status: ConcessionalCapStatus,
+  employerThisYearCents: number,
+  annualSgCents: number,
+  asOf: Date
+): number {
+  const fyStart = Date.UTC(status.financialYear - 1, 6, 1);
+  const fyEnd = Date.UTC(status.financialYear, 6, 1);
+  const yearLeft = Math.min(1, Math.max(0, (fyEnd - asOf.getTime()) / (fyEnd - fyStart)));
+  const employerToCome = employerThisYearCents > 0
+    ? Math.round(annualSgCents * yearLeft)
+    : annualSgCents;
+  return Math.max(0, status.availableCents - status.usedCents - employerToCome);
+}
+
+// ============================================================================
+// Per-Person Summary
+// ============================================================================
+
+export interface SuperOwnerSummary {
+  userId: string;
+  accounts: SuperAccountRecord[];
+  balanceCents: number;
+  /** This and last financial year's contributions, newest first */
+  recentContributions: SuperContributionRecord[];
+  history: SuperBalancePoint[];
+  capStatus: ConcessionalCapStatus;
+  thisYear: ContributionSummary;
+  nonConcessionalCapCents: number;
+  voluntaryLast12MonthsCents: number;
+}
+
+/**
+ * Everything the plan page needs about one person's super. Caps are
+ * personal, so history and contributions are limited to their own funds.
+ */
+export function summarizeSuperOwner(
+  userId: string,
+  financialYear: number,
+  asOf: Date,
+  allAccounts: SuperAccountRecord[],
+  allHistory: SuperBalancePoint[],
+  allContributions: SuperContributionRecord[]
+): SuperOwnerSummary {
+  const accounts = allAccounts.filter((a) => a.user_id === userId);
+  const accountIds = new Set(accounts.map((a) => a.id));
+  const history = allHistory.filter((h) => accountIds.has(h.super_account_id));
+  const contributions = allContributions
+    .filter((c) => accountIds.has(c.super_account_id))
+    .sort((a, b) => b.contribution_date.localeCompare(a.contribution_date));
+
+  return {
+    userId,
+    accounts,
+    balanceCents: calculateSuperTotal(accounts),
+    recentContributions: contributions.filter(
+      (c) => superFinancialYear(c.contribution_date) >= financialYear - 1
+    ),
+    history,
+    capStatus: calculateConcessionalCap(
+      financialYear,
+      concessionalByYear(contributions),
+      (date) => totalBalanceAsAt(history, date)
+    ),
+    thisYear: summarizeContributions(contributions, financialYear),
+    nonConcessionalCapCents: nonConcessionalCapCents(financialYear),
+    voluntaryLast12MonthsCents: trailingVoluntaryContributionsCents(contributions, asOf),
+  };
+}
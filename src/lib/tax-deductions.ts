@@ -0,0 +1,363 @@
+/**
+ * Tax-deductible expenses and the end-of-financial-year (EOFY) report.
+ *
+ * Each partner marks their own transactions with an ATO deduction category,
+ * optionally claiming only part of the amount (e.g. 60% work use of a
+ * phone). The report covers one Australian financial year, 1 July to
+ * 30 June, labelled by the year it ends in (2026 = FY2025–26), and groups
+ * items by the deduction label they belong under on the tax return.
+ *
+ * This is record keeping, not tax advice: PiggyBack doesn't check whether
+ * an item is actually claimable.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { localDate } from "@/lib/transaction-export";
+import { buildPdf, fitText, PDF_MARGIN, PDF_PAGE_WIDTH, type PdfRow } from "@/lib/pdf-writer";
+
+export const TAX_CATEGORIES = [
+  "work_related",
+  "home_office",
+  "self_education",
+  "donations",
+  "tax_affairs",
+  "other",
+] as const;
+
+export type TaxCategory = (typeof TAX_CATEGORIES)[number];
+
+export const TAX_CATEGORY_INFO: Record<TaxCategory, { label: string; atoCode: string }> = {
+  work_related: { label: "Work-related expenses", atoCode: "D1–D5" },
+  home_office: { label: "Working from home", atoCode: "D5" },
+  self_education: { label: "Work-related self-education", atoCode: "D4" },
+  donations: { label: "Gifts and donations", atoCode: "D9" },
+  tax_affairs: { label: "Cost of managing tax affairs", atoCode: "D10" },
+  other: { label: "Other deductions", atoCode: "D15" },
+};
+
+export function isTaxCategory(value: unknown): value is TaxCategory {
+  return typeof value === "string" && (TAX_CATEGORIES as readonly string[]).includes(value);
+}
+
+// ============================================================================
+// Financial years
+// ============================================================================
+
+/** The financial year a date falls in, named by the year it ends (July 2025 → 2026) */
+export function financialYearOf(date: Date): number {
+  return date.getMonth() >= 6 ? date.getFullYear() + 1 : date.getFullYear();
+}
+
+/** First and last calendar day (YYYY-MM-DD) of a financial year */
+export function financialYearBounds(fy: number): { start: string; end: string } {
+  return { start: `${fy - 1}-07-01`, end: `${fy}-06-30` };
+}
+
+/** "FY2025–26" */
+export function formatFinancialYear(fy: number): string {
+  return `FY${fy - 1}–${String(fy % 100).padStart(2, "0")}`;
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/** Columns selected from transactions for the report */
+export const DEDUCTION_COLUMNS =
+  "id, account_id, description, amount_cents, created_at, tax_category, tax_deductible_percent, transaction_attachments(file_name, kind)";
+
+export interface DeductionTransactionRow {
+  id: string;
+  account_id: string;
+  description: string;
+  amount_cents: number;
+  created_at: string;
+  tax_category: string | null;
+  tax_deductible_percent: number | null;
+  transaction_attachments?: { file_name: string; kind: string }[] | null;
+}
+
+export interface DeductionItem {
+  id: string;
+  /** Local calendar date, YYYY-MM-DD */
+  date: string;
+  description: string;
+  account_name: string;
+  amount_cents: number;
+  category: TaxCategory;
+  percent: number;
+  /** Positive for purchases; refunds of a deductible purchase reduce the total */
+  deductible_cents: number;
+  receipts: string[];
+}
+
+export interface DeductionGroup {
+  category: TaxCategory;
+  label: string;
+  atoCode: string;
+  total_cents: number;
+  items: DeductionItem[];
+}
+
+export interface DeductionReport {
+  financial_year: number;
+  total_cents: number;
+  count: number;
+  /** Purchases with no attached file */
+  missing_receipts: number;
+  groups: DeductionGroup[];
+}
+
+/** The claimable share of a transaction, in positive cents for spending */
+export function deductibleCents(amountCents: number, percent: number): number {
+  const clamped = Math.max(0, Math.min(100, percent));
+  return Math.round((-amountCents * clamped) / 100);
+}
+
+/** Map a transaction row to a report item, or null if it isn't marked deductible */
+export function toDeductionItem(
+  row: DeductionTransactionRow,
+  accountNames: Map<string, string>
+): DeductionItem | null {
+  if (!isTaxCategory(row.tax_category)) return null;
+  const percent = row.tax_deductible_percent ?? 100;
+  return {
+    id: row.id,
+    date: localDate(row.created_at),
+    description: row.description,
+    account_name: accountNames.get(row.account_id) ?? "",
+    amount_cents: row.amount_cents,
+    category: row.tax_category,
+    percent,
+    deductible_cents: deductibleCents(row.amount_cents, percent),
+    receipts: (row.transaction_attachments ?? []).map((a) => a.file_name),
+  };
+}
+
+/**
+ * Group items by category in ATO label order, oldest first within each.
+ * Items outside the financial year are dropped.
+ */
+export function buildDeductionReport(fy: number, items: DeductionItem[]): DeductionReport {
+  const { start, end } = financialYearBounds(fy);
+  const inYear = items.filter((i) => i.date >= start && i.date <= end);
+
+  const groups: DeductionGroup[] = [];
+  for (const category of TAX_CATEGORIES) {
+    const groupItems = inYear
+      .filter((i) => i.category === category)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.description.localeCompare(b.description));
+    if (groupItems.length === 0) continue;
+    groups.push({
+      category,
+      ...TAX_CATEGORY_INFO[category],
+      total_cents: groupItems.reduce((sum, i) => sum + i.deductible_cents, 0),
+      items: groupItems,
+    });
+  }
+
+  return {
+    financial_year: fy,
+    total_cents: groups.reduce((sum, g) => sum + g.total_cents, 0),
+    count: inYear.length,
+    missing_receipts: inYear.filter((i) => i.amount_cents < 0 && i.receipts.length === 0).length,
+    groups,
+  };
+}
+
+const DEDUCTION_PAGE_SIZE = 1000;
+
+/**
+ * Load the deductible transactions on the given accounts for a financial
+ * year. Callers pass only the user's own accounts, since each partner
+ * claims their own deductions. Throws if any page fails to load, so a
+ * report is never built from a partial year.
+ */
+export async function loadDeductionItems(
+  supabase: SupabaseClient,
+  accounts: { id: string; display_name: string }[],
+  fy: number
+): Promise<DeductionItem[]> {
+  if (accounts.length === 0) return [];
+  const { start, end } = financialYearBounds(fy);
+  const accountNames = new Map(accounts.map((a) => [a.id, a.display_name]));
+
+  // Pad by a day either side for timezone; buildDeductionReport trims to local dates
+  const from = new Date(`${start}T00:00:00Z`);
+  from.setUTCDate(from.getUTCDate() - 1);
+  const to = new Date(`${end}T00:00:00Z`);
+  to.setUTCDate(to.getUTCDate() + 2);
+
+  const rows: DeductionTransactionRow[] = [];
+  for (let offset = 0; ; offset += DEDUCTION_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select(DEDUCTION_COLUMNS)
+      .in("account_id", [...accountNames.keys()])
+      .not("tax_category", "is", null)
+      .gte("created_at", from.toISOString())
+      .lt("created_at", to.toISOString())
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + DEDUCTION_PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load deductible transactions: ${error.message}`);
+    rows.push(...((data ?? []) as DeductionTransactionRow[]));
+    if (!data || data.length < DEDUCTION_PAGE_SIZE) break;
+  }
+
+  return rows
+    .map((row) => toDeductionItem(row, accountNames))
+    .filter((item): item is DeductionItem => item !== null);
+}
+
+// ============================================================================
+// CSV and PDF
+// ============================================================================
+
+const dollars = (cents: number) => (cents / 100).toFixed(2);
+
+const formatAud = (cents: number) =>
+  new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(cents / 100);
+
+/** Quote a text cell, neutralising spreadsheet formulas */
+function csvText(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function buildDeductionsCsv(report: DeductionReport): string {
+  const header = "ATO Label,Category,Date,Description,Account,Amount,Deductible %,Deductible Amount,Receipts";
+  const rows = report.groups.flatMap((group) =>
+    group.items.map((item) =>
+      [
+        csvText(group.atoCode),
+        csvText(group.label),
+        item.date,
+        csvText(item.description),
+        csvText(item.account_name),
+        dollars(item.amount_cents),
+        item.percent,
+        dollars(item.deductible_cents),
+        csvText(item.receipts.join("; ")),
+      ].join(",")
+    )
+  );
+  return [header, ...rows].join("\n") + "\n";
+}
+
+const displayDate = (isoDate: string) => {
+  const [y, m, d] = isoDate.split("-");
+  return `${d}/${m}/${y}`;
+};
+
+/** Printable EOFY report: a summary by ATO label, then every item with its receipts */
+export function buildDeductionsPdf(
+  report: DeductionReport,
+  context: { preparedFor: string; generatedAt: Date }
+): Uint8Array {
+  const left = PDF_MARGIN;
+  const right = PDF_PAGE_WIDTH - PDF_MARGIN;
+  const { start, end } = financialYearBounds(report.financial_year);
+  const rows: PdfRow[] = [];
+
+  rows.push({ cells: [{ text: `Tax deductions ${formatFinancialYear(report.financial_year)}`, x: left, size: 18, bold: true }] });
+  rows.push({
+    cells: [{
+      text: `${context.preparedFor} · ${displayDate(start)} to ${displayDate(end)} · generated ${displayDate(localDate(context.generatedAt.toISOString()))}`,
+      x: left,
+      size: 9,
+      gray: 0.4,
+    }],
+  });
+
+  rows.push({
+    spaceBefore: 14,
+    cells: [
+      { text: "Label", x: left, size: 9, bold: true },
+      { text: "Category", x: left + 60, size: 9, bold: true },
+      { text: "Items", x: right - 110, size: 9, bold: true, align: "right" },
+      { text: "Deductible", x: right, size: 9, bold: true, align: "right" },
+    ],
+  });
+  for (const group of report.groups) {
+    rows.push({
+      cells: [
+        { text: group.atoCode, x: left },
+        { text: group.label, x: left + 60 },
+        { text: String(group.items.length), x: right - 110, align: "right" },
+        { text: formatAud(group.total_cents), x: right, align: "right" },
+      ],
+    });
+  }
+  rows.push({
+    spaceBefore: 4,
+    cells: [
+      { text: "Total", x: left, bold: true },
+      { text: String(report.count), x: right - 110, bold: true, align: "right" },
+      { text: formatAud(report.total_cents), x: right, bold: true, align: "right" },
+    ],
+  });
+  if (report.count === 0) {
+    rows.push({ spaceBefore: 8, cells: [{ text: "No transactions were marked as tax deductible this financial year.", x: left, gray: 0.4 }] });
+  } else if (report.missing_receipts > 0) {
+    rows.push({
+      spaceBefore: 8,
+      cells: [{ text: `${report.missing_receipts} purchase${report.missing_receipts === 1 ? " has" : "s have"} no receipt attached.`, x: left, size: 9, gray: 0.4 }],
+    });
+  }
+
+  const descriptionWidth = right - 110 - (left + 62) - 70;
+  for (const group of report.groups) {
+    rows.push({
+      spaceBefore: 18,
+      cells: [
+        { text: `${group.atoCode}  ${group.label}`, x: left, size: 12, bold: true },
+        { text: formatAud(group.total_cents), x: right, size: 12, bold: true, align: "right" },
+      ],
+    });
+    rows.push({
+      spaceBefore: 2,
+      cells: [
+        { text: "Date", x: left, size: 8, bold: true, gray: 0.4 },
+        { text: "Description", x: left + 62, size: 8, bold: true, gray: 0.4 },
+        { text: "Amount", x: right - 110, size: 8, bold: true, gray: 0.4, align: "right" },
+        { text: "Claim", x: right - 70, size: 8, bold: true, gray: 0.4, align: "right" },
+        { text: "Deductible", x: right, size: 8, bold: true, gray: 0.4, align: "right" },
+      ],
+    });
+    for (const item of group.items) {
+      rows.push({
+        spaceBefore: 3,
+        cells: [
+          { text: displayDate(item.date), x: left, size: 9 },
+          { text: fitText(item.description, descriptionWidth, 9), x: left + 62, size: 9 },
+          { text: formatAud(-item.amount_cents), x: right - 110, size: 9, align: "right" },
+          { text: `${item.percent}%`, x: right - 70, size: 9, align: "right" },
+          { text: formatAud(item.deductible_cents), x: right, size: 9, align: "right" },
+        ],
+      });
+      const receiptLine = item.receipts.length > 0
+        ? `Receipts: ${item.receipts.join(", ")}`
+        : item.amount_cents < 0 ? "No receipt attached" : "";
+      if (receiptLine) {
+        rows.push({
+          cells: [{ text: fitText(receiptLine, right - (left + 62), 8), x: left + 62, size: 8, gray: 0.45 }],
+        });
+      }
+    }
+  }
+
+  rows.push({
+    spaceBefore: 24,
+    cells: [{ text: "A summary of transactions marked as deductible in PiggyBack.", x: left, size: 8, gray: 0.45 }],
+  });
+  rows.push({
+    cells: [{ text: "It is not tax advice; check each item against the ATO's rules.", x: left, size: 8, gray: 0.45 }],
+  });
+
+  return buildPdf(rows, {
+    title: `Tax deductions ${formatFinancialYear(report.financial_year)}`,
+    footer: (page, pageCount) => `${formatFinancialYear(report.financial_year)} deductions · page ${page} of ${pageCount}`,
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * Receipts and other documents attached to transactions.
+ *
+ * Uploads are typed from their leading bytes rather than the browser's
+ * declared MIME type, so a renamed HTML or script file can't be stored and
+ * later served back under an image or PDF content type.
+ */
+
+export const ATTACHMENT_KINDS = ["receipt", "warranty", "other"] as const;
+
+export type AttachmentKind = (typeof ATTACHMENT_KINDS)[number];
+
+export const ATTACHMENT_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "application/pdf",
+] as const;
+
+export type AttachmentContentType = (typeof ATTACHMENT_CONTENT_TYPES)[number];
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+const EXTENSIONS: Record<AttachmentContentType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "application/pdf": "pdf",
+};
+
+/** transaction_attachments columns returned to clients (storage_path stays server-side) */
+export const ATTACHMENT_COLUMNS =
+  "id, transaction_id, uploaded_by, kind, file_name, content_type, size_bytes, created_at";
+
+export interface TransactionAttachment {
+  id: string;
+  transaction_id: string;
+  uploaded_by: string;
+  kind: AttachmentKind;
+  file_name: string;
+  content_type: AttachmentContentType;
+  size_bytes: number;
+  created_at: string;
+}
+
+export function isAttachmentKind(value: unknown): value is AttachmentKind {
+  return typeof value === "string" && (ATTACHMENT_KINDS as readonly string[]).includes(value);
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every((b, i) => bytes[offset + i] === b);
+}
+
+function asciiAt(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * Identify an allowed file type from its magic bytes. Returns null for
+ * anything that isn't a JPEG, PNG, WebP, HEIC/HEIF image or PDF.
+ */
+export function detectAttachmentType(bytes: Uint8Array): AttachmentContentType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (asciiAt(bytes, 0, 4) === "RIFF" && asciiAt(bytes, 8, 4) === "WEBP") return "image/webp";
+  if (asciiAt(bytes, 0, 5) === "%PDF-") return "application/pdf";
+  // ISO-BMFF: size(4) "ftyp" brand(4). iPhone photos use heic/heix/mif1.
+  if (asciiAt(bytes, 4, 4) === "ftyp") {
+    const brand = asciiAt(bytes, 8, 4);
+    if (["heic", "heix", "hevc", "heim", "heis", "mif1", "msf1"].includes(brand)) return "image/heic";
+  }
+  return null;
+}
+
+export function isImageAttachment(contentType: string): boolean {
+  return contentType.startsWith("image/");
+}
+
+/**
+ * Keep an uploaded file's name readable but safe to echo back in a
+ * Content-Disposition header: no path, no control characters or quotes,
+ * at most 255 characters.
+ */
+export function sanitizeFileName(name: string, contentType: AttachmentContentType): string {
+  const base = name.split(/[\\/]/).pop() || "";
+  const clean = base
+    .replace(/[\u0000-\u001f\u007f"]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 255);
+  return clean || `attachment.${EXTENSIONS[contentType]}`;
+}
+
+/** Object key shared by every storage backend */
+export function buildAttachmentPath(
+  userId: string,
+  transactionId: string,
+  attachmentId: string,
+  contentType: AttachmentContentType
+): string {
+  return `${userId}/${transactionId}/${attachmentId}.${EXTENSIONS[contentType]}`;
+}
+
+/**
+ * An attachment row's object key, rebuilt from its ids rather than read from
+ * storage_path, so a row can only ever point at its own uploader's file.
+ */
+export function attachmentPathFor(
+  row: Pick<TransactionAttachment, "id" | "transaction_id" | "uploaded_by" | "content_type">
+): string {
+  return buildAttachmentPath(row.uploaded_by, row.transaction_id, row.id, row.content_type);
+}
+
+/** RFC 6266 Content-Disposition with an ASCII fallback and UTF-8 filename* */
+export function contentDisposition(fileName: string, download: boolean): string {
+  const ascii = fileName.replace(/[^\x20-\x7e]/g, "_");
+  return `${download ? "attachment" : "inline"}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
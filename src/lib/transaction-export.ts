@@ -0,0 +1,359 @@
+/**
+ * Transaction export builders for the richer formats: JSON with full
+ * metadata, OFX for accounting tools and an XLSX workbook.
+ *
+ * The route loads rows and maps them to ExportTransaction with
+ * toExportTransaction(); everything here after that point is pure.
+ */
+
+import {
+  DEFAULT_BUDGET_TIMEZONE,
+  getDateComponentsInTimezone,
+} from "@/lib/budget-engine";
+import { readEmbeddedSplits, type TransactionSplit } from "@/lib/transaction-splits";
+import type { XlsxCell, XlsxSheet } from "@/lib/xlsx-writer";
+
+export const EXPORT_FORMATS = ["csv", "markdown", "json", "ofx", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Formats that carry tags, notes, overrides, splits and share settings */
+export const FULL_METADATA_FORMATS: readonly ExportFormat[] = ["json", "ofx", "xlsx"];
+
+export interface ExportAccount {
+  id: string;
+  display_name: string;
+  account_type: string | null;
+  balance_cents: number | null;
+}
+
+export interface ExportCategory {
+  parent: string;
+  child: string;
+}
+
+export interface ExportSplitLine {
+  amount_cents: number;
+  category: ExportCategory;
+  is_shared: boolean | null;
+  notes: string | null;
+}
+
+export interface ExportTransaction {
+  id: string;
+  account_id: string;
+  account_name: string;
+  /** Settled time, or created time for pending transactions (ISO 8601) */
+  date: string;
+  description: string;
+  amount_cents: number;
+  status: string;
+  type: "Income" | "Transfer" | "Expense";
+  category: ExportCategory;
+  tags: string[];
+  notes: string[];
+  category_override: {
+    original_category: ExportCategory;
+    changed_at: string | null;
+    notes: string | null;
+  } | null;
+  share: { is_shared: boolean; share_percentage: number } | null;
+  splits: ExportSplitLine[];
+}
+
+/** Raw transaction row with the embeds the export route selects */
+export interface ExportTransactionRow {
+  id: string;
+  account_id: string;
+  description: string;
+  amount_cents: number;
+  created_at: string;
+  settled_at: string | null;
+  status: string;
+  category_id: string | null;
+  parent_category_id: string | null;
+  is_income: boolean | null;
+  is_internal_transfer: boolean | null;
+  transaction_tags?: { tag_name: string }[] | null;
+  transaction_notes?: { note: string; is_partner_visible: boolean | null; user_id: string }[] | null;
+  transaction_category_overrides?:
+    | { original_category_id: string | null; original_parent_category_id: string | null; changed_at: string | null; notes: string | null }
+    | { original_category_id: string | null; original_parent_category_id: string | null; changed_at: string | null; notes: string | null }[]
+    | null;
+  transaction_splits?: Pick<TransactionSplit, "position" | "amount_cents" | "category_id" | "parent_category_id" | "is_shared" | "notes">[] | null;
+}
+
+export interface ExportContext {
+  userId: string;
+  accountNames: Map<string, string>;
+  /** Share overrides keyed by transaction ID */
+  shareOverrides: Map<string, { is_shared: boolean; share_percentage: number }>;
+  getCategory: (categoryId: string | null, parentId: string | null) => ExportCategory;
+}
+
+export function toExportTransaction(row: ExportTransactionRow, ctx: ExportContext): ExportTransaction {
+  // Overrides are 1-to-1, so PostgREST may return an object rather than an array
+  const overrideRaw = row.transaction_category_overrides;
+  const override = Array.isArray(overrideRaw) ? overrideRaw[0] : overrideRaw;
+
+  return {
+    id: row.id,
+    account_id: row.account_id,
+    account_name: ctx.accountNames.get(row.account_id) ?? "Account",
+    date: row.settled_at || row.created_at,
+    description: row.description,
+    amount_cents: row.amount_cents,
+    status: row.status,
+    type: row.is_income ? "Income" : row.is_internal_transfer ? "Transfer" : "Expense",
+    category: ctx.getCategory(row.category_id, row.parent_category_id),
+    tags: (row.transaction_tags ?? []).map((t) => t.tag_name).sort(),
+    // Partners' private notes stay private
+    notes: (row.transaction_notes ?? [])
+      .filter((n) => n.user_id === ctx.userId || n.is_partner_visible !== false)
+      .map((n) => n.note),
+    category_override: override
+      ? {
+          original_category: ctx.getCategory(override.original_category_id, override.original_parent_category_id),
+          changed_at: override.changed_at,
+          notes: override.notes,
+        }
+      : null,
+    share: ctx.shareOverrides.get(row.id) ?? null,
+    splits: readEmbeddedSplits(row.transaction_splits).map((s) => ({
+      amount_cents: s.amount_cents,
+      category: ctx.getCategory(s.category_id, s.parent_category_id),
+      is_shared: s.is_shared ?? null,
+      notes: s.notes ?? null,
+    })),
+  };
+}
+
+/** Local (Australian) calendar date of an ISO timestamp as YYYY-MM-DD */
+export function localDate(iso: string): string {
+  const { year, month, day } = getDateComponentsInTimezone(new Date(iso), DEFAULT_BUDGET_TIMEZONE);
+  return `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+const formatCategory = (c: ExportCategory) => (c.child ? `${c.parent} › ${c.child}` : c.parent);
+const dollars = (cents: number) => Math.round(cents) / 100;
+
+// ─── JSON ─────────────────────────────────────────────────────────────────────
+
+export function buildExportJson(
+  transactions: ExportTransaction[],
+  accounts: ExportAccount[],
+  meta: { generatedAt: Date; dateFrom?: string; dateTo?: string; truncated: boolean }
+): string {
+  return JSON.stringify(
+    {
+      generated_at: meta.generatedAt.toISOString(),
+      period: { from: meta.dateFrom ?? null, to: meta.dateTo ?? null },
+      truncated: meta.truncated,
+      currency: "AUD",
+      accounts: accounts.map((a) => ({ id: a.id, name: a.display_name, type: a.account_type })),
+      transactions,
+    },
+    null,
+    2
+  );
+}
+
+// ─── OFX ──────────────────────────────────────────────────────────────────────
+
+function escapeOfx(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/[\r\n]+/g, " ");
+}
+
+function ofxDate(iso: string): string {
+  return localDate(iso).replace(/-/g, "");
+}
+
+function ofxAccountType(accountType: string | null): string {
+  if (accountType === "SAVER") return "SAVINGS";
+  if (accountType === "HOME_LOAN") return "CREDITLINE";
+  return "CHECKING";
+}
+
+/** Category, split lines, tags and notes folded into the OFX memo */
+export function ofxMemo(t: ExportTransaction): string {
+  const parts = [
+    t.splits.length > 0
+      ? `Split: ${t.splits.map((s) => `${formatCategory(s.category)} ${(Math.abs(s.amount_cents) / 100).toFixed(2)}`).join("; ")}`
+      : formatCategory(t.category),
+  ];
+  if (t.tags.length > 0) parts.push(`Tags: ${t.tags.join(", ")}`);
+  if (t.notes.length > 0) parts.push(`Notes: ${t.notes.join(" / ")}`);
+  return parts.join(" | ").slice(0, 255);
+}
+
+/**
+ * OFX 1.0.2 (SGML) bank statement with one statement per account. FITID is
+ * the PiggyBack transaction ID, so re-importing the file won't duplicate rows.
+ */
+export function buildOfx(
+  transactions: ExportTransaction[],
+  accounts: ExportAccount[],
+  generatedAt: Date
+): string {
+  const now = generatedAt.toISOString();
+  const byAccount = new Map<string, ExportTransaction[]>();
+  for (const t of transactions) {
+    const list = byAccount.get(t.account_id);
+    if (list) list.push(t);
+    else byAccount.set(t.account_id, [t]);
+  }
+
+  const statements = accounts
+    .filter((a) => byAccount.has(a.id))
+    .map((account, i) => {
+      const txns = byAccount.get(account.id)!;
+      const dates = txns.map((t) => ofxDate(t.date)).sort();
+      const entries = txns.map((t) =>
+        [
+          "<STMTTRN>",
+          `<TRNTYPE>${t.amount_cents < 0 ? "DEBIT" : "CREDIT"}`,
+          `<DTPOSTED>${ofxDate(t.date)}`,
+          `<TRNAMT>${(t.amount_cents / 100).toFixed(2)}`,
+          `<FITID>${t.id}`,
+          `<NAME>${escapeOfx(t.description.slice(0, 32))}`,
+          `<MEMO>${escapeOfx(ofxMemo(t))}`,
+          "</STMTTRN>",
+        ].join("\n")
+      );
+
+      return [
+        "<STMTTRNRS>",
+        `<TRNUID>${i + 1}`,
+        "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+        "<STMTRS>",
+        "<CURDEF>AUD",
+        "<BANKACCTFROM>",
+        "<BANKID>PIGGYBACK",
+        `<ACCTID>${account.id}`,
+        `<ACCTTYPE>${ofxAccountType(account.account_type)}`,
+        "</BANKACCTFROM>",
+        "<BANKTRANLIST>",
+        `<DTSTART>${dates[0]}`,
+        `<DTEND>${dates[dates.length - 1]}`,
+        ...entries,
+        "</BANKTRANLIST>",
+        "<LEDGERBAL>",
+        `<BALAMT>${((account.balance_cents ?? 0) / 100).toFixed(2)}`,
+        `<DTASOF>${ofxDate(now)}`,
+        "</LEDGERBAL>",
+        "</STMTRS>",
+        "</STMTTRNRS>",
+      ].join("\n");
+    });
+
+  return [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:UTF-8",
+    "CHARSET:NONE",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${ofxDate(now)}`,
+    "<LANGUAGE>ENG",
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1>",
+    ...statements,
+    "</BANKMSGSRSV1>",
+    "</OFX>",
+    "",
+  ].join("\n");
+}
+
+// ─── XLSX ─────────────────────────────────────────────────────────────────────
+
+const ACCOUNT_SHEET_HEADER: XlsxCell[] = [
+  "Date", "Description", "Amount", "Category", "Subcategory", "Status", "Type",
+  "Tags", "Notes", "Shared", "Share %", "Split", "Recategorised From",
+];
+
+function accountRows(t: ExportTransaction): XlsxCell[][] {
+  const shared = t.share ? (t.share.is_shared ? "Yes" : "No") : "";
+  const common = (amountCents: number, category: ExportCategory, split: string, lineShared: string): XlsxCell[] => [
+    localDate(t.date),
+    t.description,
+    dollars(amountCents),
+    category.parent,
+    category.child,
+    t.status,
+    t.type,
+    t.tags.join(", "),
+    t.notes.join(" / "),
+    lineShared,
+    t.share?.share_percentage ?? null,
+    split,
+    t.category_override ? formatCategory(t.category_override.original_category) : "",
+  ];
+
+  if (t.splits.length === 0) return [common(t.amount_cents, t.category, "", shared)];
+
+  return t.splits.map((s, i) =>
+    common(
+      s.amount_cents,
+      s.category,
+      `${i + 1}/${t.splits.length}`,
+      s.is_shared === null ? shared : s.is_shared ? "Yes" : "No"
+    )
+  );
+}
+
+/**
+ * Workbook sheets: a category summary first, then one sheet per account.
+ * Split transactions contribute one row (and one summary entry) per line.
+ */
+export function buildExportWorkbook(
+  transactions: ExportTransaction[],
+  accounts: ExportAccount[]
+): XlsxSheet[] {
+  const totals = new Map<string, { category: ExportCategory; spending: number; income: number; count: number }>();
+  for (const t of transactions) {
+    if (t.type === "Transfer") continue;
+    const lines = t.splits.length > 0
+      ? t.splits.map((s) => ({ amount: s.amount_cents, category: s.category }))
+      : [{ amount: t.amount_cents, category: t.category }];
+    for (const line of lines) {
+      const key = `${line.category.parent}::${line.category.child}`;
+      const entry = totals.get(key) ?? { category: line.category, spending: 0, income: 0, count: 0 };
+      if (line.amount < 0) entry.spending += Math.abs(line.amount);
+      else entry.income += line.amount;
+      entry.count += 1;
+      totals.set(key, entry);
+    }
+  }
+
+  const summaryRows: XlsxCell[][] = [["Category", "Subcategory", "Spending", "Income", "Transactions"]];
+  const sorted = Array.from(totals.values()).sort((a, b) => b.spending - a.spending || b.income - a.income);
+  for (const entry of sorted) {
+    summaryRows.push([entry.category.parent, entry.category.child, dollars(entry.spending), dollars(entry.income), entry.count]);
+  }
+  summaryRows.push([
+    "Total",
+    "",
+    dollars(sorted.reduce((s, e) => s + e.spending, 0)),
+    dollars(sorted.reduce((s, e) => s + e.income, 0)),
+    transactions.filter((t) => t.type !== "Transfer").length,
+  ]);
+
+  const accountSheets = accounts
+    .map((account) => {
+      const rows = transactions
+        .filter((t) => t.account_id === account.id)
+        .flatMap(accountRows);
+      return { name: account.display_name, rows: [ACCOUNT_SHEET_HEADER, ...rows] };
+    })
+    .filter((sheet) => sheet.rows.length > 1);
+
+  return [{ name: "Summary", rows: summaryRows }, ...accountSheets];
+}
@@ -0,0 +1,457 @@
+/**
+ * Statement file parsers for importing transactions from banks other than Up.
+ *
+ * Supports CSV (with a user-supplied column mapping), OFX/QFX (SGML and XML
+ * flavours) and QIF. All parsers are pure and produce the same
+ * ParsedImportTransaction shape so the import route can dedupe, categorise
+ * and store rows without caring where they came from.
+ *
+ * Amounts follow the Up convention: negative = money out, positive = money in.
+ */
+
+export type ImportFormat = "csv" | "ofx" | "qif";
+
+export const IMPORT_DATE_FORMATS = ["DD/MM/YYYY", "MM/DD/YYYY", "YYYY-MM-DD"] as const;
+export type ImportDateFormat = (typeof IMPORT_DATE_FORMATS)[number];
+
+export interface ParsedImportTransaction {
+  /** Calendar date of the transaction (YYYY-MM-DD) */
+  date: string;
+  amountCents: number;
+  description: string;
+  /** Bank-provided unique transaction ID (OFX FITID), when available */
+  externalId?: string | null;
+  memo?: string | null;
+}
+
+export interface ImportParseResult {
+  transactions: ParsedImportTransaction[];
+  /** Human-readable problems with individual rows (the rows are skipped) */
+  errors: string[];
+  /** Closing balance reported by the file (OFX LEDGERBAL only) */
+  balanceCents?: number | null;
+  /** Statement currency reported by the file (OFX CURDEF only) */
+  currencyCode?: string | null;
+}
+
+/**
+ * Maps CSV header names to transaction fields. Either `amount` (signed) or
+ * `debit`/`credit` (unsigned, one per row) must be provided.
+ */
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  memo?: string;
+  dateFormat: ImportDateFormat;
+  /** Flip signs for banks (mostly credit cards) that export purchases as positive */
+  invertAmounts?: boolean;
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+/**
+ * Guess the format from the file name, falling back to sniffing the content.
+ */
+export function detectImportFormat(fileName: string, content: string): ImportFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "ofx" || ext === "qfx") return "ofx";
+  if (ext === "qif") return "qif";
+  if (ext === "csv") return "csv";
+
+  const head = content.slice(0, 500).trimStart().toUpperCase();
+  if (head.startsWith("OFXHEADER") || head.includes("<OFX>")) return "ofx";
+  if (head.startsWith("!TYPE") || head.startsWith("!ACCOUNT")) return "qif";
+  return "csv";
+}
+
+/**
+ * Parse a money string into integer cents. Accepts currency symbols,
+ * thousands separators, leading/trailing minus, parentheses for negatives
+ * and trailing CR/DR markers. Returns null when the value isn't a number.
+ */
+export function parseAmountToCents(raw: string): number | null {
+  let value = raw.trim();
+  if (!value) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  const marker = value.match(/\s*(CR|DR)$/i);
+  if (marker) {
+    if (marker[1].toUpperCase() === "DR") negative = !negative;
+    value = value.slice(0, -marker[0].length);
+  }
+
+  value = value.replace(/[$€£¥\s,]|AUD|USD|NZD/gi, "");
+  if (value.startsWith("-")) {
+    negative = !negative;
+    value = value.slice(1);
+  } else if (value.endsWith("-")) {
+    negative = !negative;
+    value = value.slice(0, -1);
+  } else if (value.startsWith("+")) {
+    value = value.slice(1);
+  }
+
+  if (!/^\d*\.?\d+$/.test(value)) return null;
+  const cents = Math.round(Number(value) * 100);
+  return negative ? -cents : cents;
+}
+
+/**
+ * Parse a date string into YYYY-MM-DD using the given field order.
+ * Separators may be "/", "-", "." or QIF's "'" before a 2-digit year;
+ * 2-digit years are treated as 20xx. Returns null for invalid dates.
+ */
+export function parseImportDate(raw: string, format: ImportDateFormat): string | null {
+  const value = raw.trim().replace(/'/g, "/").split(/[ T]/)[0];
+  const parts = value.split(/[/.-]/).map((p) => p.trim());
+  if (parts.length !== 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+
+  let [year, month, day] = [0, 0, 0];
+  if (format === "YYYY-MM-DD") {
+    [year, month, day] = parts.map(Number);
+  } else if (format === "DD/MM/YYYY") {
+    [day, month, year] = parts.map(Number);
+  } else {
+    [month, day, year] = parts.map(Number);
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function cleanDescription(value: string | null | undefined): string {
+  return (value ?? "").replace(/\s+/g, " ").trim();
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells containing commas,
+ * escaped quotes ("") and newlines, CRLF line endings and a UTF-8 BOM.
+ * Blank lines are dropped.
+ */
+export function parseCsvRows(content: string): string[][] {
+  const text = content.replace(/^﻿/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      if (row.some((c) => c.trim() !== "")) rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.some((c) => c.trim() !== "")) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Return the header row of a CSV file, for building a column mapping.
+ */
+export function getCsvHeaders(content: string): string[] {
+  const [header] = parseCsvRows(content);
+  return (header ?? []).map((h) => h.trim());
+}
+
+/**
+ * Parse a CSV statement using the given column mapping. The first row must
+ * be a header row.
+ */
+export function parseCsv(content: string, mapping: CsvColumnMapping): ImportParseResult {
+  const rows = parseCsvRows(content);
+  const errors: string[] = [];
+  if (rows.length === 0) return { transactions: [], errors: ["File is empty"] };
+
+  const headers = rows[0].map((h) => h.trim());
+  const indexOf = (name?: string) => (name ? headers.indexOf(name) : -1);
+
+  const dateIdx = indexOf(mapping.date);
+  const descIdx = indexOf(mapping.description);
+  const amountIdx = indexOf(mapping.amount);
+  const debitIdx = indexOf(mapping.debit);
+  const creditIdx = indexOf(mapping.credit);
+  const memoIdx = indexOf(mapping.memo);
+
+  if (dateIdx === -1) return { transactions: [], errors: [`Column "${mapping.date}" not found`] };
+  if (descIdx === -1) return { transactions: [], errors: [`Column "${mapping.description}" not found`] };
+  if (amountIdx === -1 && debitIdx === -1 && creditIdx === -1) {
+    return { transactions: [], errors: ["Map either an amount column or debit/credit columns"] };
+  }
+
+  const transactions: ParsedImportTransaction[] = [];
+
+  for (let r = 1; r < rows.length; r++) {
+    const row = rows[r];
+    const rowLabel = `Row ${r + 1}`;
+
+    const date = parseImportDate(row[dateIdx] ?? "", mapping.dateFormat);
+    if (!date) {
+      errors.push(`${rowLabel}: invalid date "${row[dateIdx] ?? ""}"`);
+      continue;
+    }
+
+    let amountCents: number | null = null;
+    if (amountIdx !== -1) {
+      amountCents = parseAmountToCents(row[amountIdx] ?? "");
+    } else {
+      const debit = debitIdx !== -1 ? parseAmountToCents(row[debitIdx] ?? "") : null;
+      const credit = creditIdx !== -1 ? parseAmountToCents(row[creditIdx] ?? "") : null;
+      if (debit) amountCents = -Math.abs(debit);
+      else if (credit) amountCents = Math.abs(credit);
+      else if (debit === 0 || credit === 0) amountCents = 0;
+    }
+    if (amountCents === null) {
+      errors.push(`${rowLabel}: missing or invalid amount`);
+      continue;
+    }
+    if (mapping.invertAmounts) amountCents = -amountCents;
+
+    const description = cleanDescription(row[descIdx]);
+    if (!description) {
+      errors.push(`${rowLabel}: missing description`);
+      continue;
+    }
+
+    transactions.push({
+      date,
+      amountCents,
+      description,
+      memo: memoIdx !== -1 ? cleanDescription(row[memoIdx]) || null : null,
+    });
+  }
+
+  return { transactions, errors };
+}
+
+// ============================================================================
+// OFX
+// ============================================================================
+
+function decodeOfxEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Read a leaf element value; works for both SGML (unclosed) and XML tags. */
+function ofxField(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? decodeOfxEntities(match[1].trim()) : null;
+}
+
+/** OFX dates look like 20260131, 20260131120000 or 20260131120000.000[+10:AEST]. */
+function parseOfxDate(raw: string | null): string | null {
+  const match = raw?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return parseImportDate(`${match[1]}-${match[2]}-${match[3]}`, "YYYY-MM-DD");
+}
+
+/**
+ * Parse an OFX or QFX statement (bank or credit card).
+ */
+export function parseOfx(content: string): ImportParseResult {
+  const errors: string[] = [];
+  const transactions: ParsedImportTransaction[] = [];
+
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+  blocks.forEach((rawBlock, i) => {
+    // SGML files may omit closing tags; stop at the first closing tag we see
+    const block = rawBlock.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0];
+    const label = `Transaction ${i + 1}`;
+
+    const date = parseOfxDate(ofxField(block, "DTPOSTED"));
+    if (!date) {
+      errors.push(`${label}: invalid DTPOSTED`);
+      return;
+    }
+    const amountCents = parseAmountToCents(ofxField(block, "TRNAMT") ?? "");
+    if (amountCents === null) {
+      errors.push(`${label}: invalid TRNAMT`);
+      return;
+    }
+
+    const name = cleanDescription(ofxField(block, "NAME") ?? ofxField(block, "PAYEE"));
+    const memo = cleanDescription(ofxField(block, "MEMO"));
+    const description = name || memo;
+    if (!description) {
+      errors.push(`${label}: missing NAME/MEMO`);
+      return;
+    }
+
+    transactions.push({
+      date,
+      amountCents,
+      description,
+      externalId: ofxField(block, "FITID") || null,
+      memo: memo && memo !== description ? memo : null,
+    });
+  });
+
+  const ledger = content.match(/<LEDGERBAL>([\s\S]*?)(?:<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|<\/CCSTMTRS>|$)/i);
+  const balanceRaw = ledger ? ofxField(ledger[1], "BALAMT") : null;
+
+  return {
+    transactions,
+    errors,
+    balanceCents: balanceRaw ? parseAmountToCents(balanceRaw) : null,
+    currencyCode: ofxField(content, "CURDEF")?.toUpperCase() ?? null,
+  };
+}
+
+// ============================================================================
+// QIF
+// ============================================================================
+
+/**
+ * Parse a QIF statement. QIF has no standard date order, so the caller
+ * supplies one (Australian banks use DD/MM/YYYY).
+ */
+export function parseQif(content: string, dateFormat: ImportDateFormat): ImportParseResult {
+  const errors: string[] = [];
+  const transactions: ParsedImportTransaction[] = [];
+
+  const records = content.replace(/^﻿/, "").split(/^\^\s*$/m);
+  records.forEach((record, i) => {
+    const fields: Record<string, string> = {};
+    for (const line of record.split(/\r?\n/)) {
+      if (!line || line.startsWith("!")) continue;
+      const code = line[0];
+      // Keep the first occurrence; split lines (S/E/$) repeat codes
+      if (!(code in fields)) fields[code] = line.slice(1).trim();
+    }
+    if (Object.keys(fields).length === 0) return;
+
+    const label = `Record ${i + 1}`;
+    const date = fields.D ? parseImportDate(fields.D, dateFormat) : null;
+    if (!date) {
+      errors.push(`${label}: invalid date "${fields.D ?? ""}"`);
+      return;
+    }
+    const amountCents = parseAmountToCents(fields.T ?? fields.U ?? "");
+    if (amountCents === null) {
+      errors.push(`${label}: invalid amount`);
+      return;
+    }
+    const payee = cleanDescription(fields.P);
+    const memo = cleanDescription(fields.M);
+    const description = payee || memo;
+    if (!description) {
+      errors.push(`${label}: missing payee`);
+      return;
+    }
+
+    transactions.push({
+      date,
+      amountCents,
+      description,
+      memo: memo && memo !== description ? memo : null,
+    });
+  });
+
+  return { transactions, errors };
+}
+
+// ============================================================================
+// Deduplication
+// ============================================================================
+
+/**
+ * Key used to recognise the same transaction across imports and formats.
+ */
+export function importFingerprint(t: { date: string; amountCents: number; description: string }): string {
+  return `${t.date}|${t.amountCents}|${t.description.toLowerCase().replace(/\s+/g, " ").trim()}`;
+}
+
+/**
+ * Build a stable up_transaction_id for each parsed transaction. OFX rows use
+ * the bank's FITID; everything else uses the fingerprint plus an occurrence
+ * counter so two identical coffees on the same day both survive.
+ */
+export function buildImportTransactionIds(transactions: ParsedImportTransaction[]): string[] {
+  const seen = new Map<string, number>();
+  return transactions.map((t) => {
+    if (t.externalId) return `import:fitid:${t.externalId}`;
+    const key = importFingerprint(t);
+    const n = seen.get(key) ?? 0;
+    seen.set(key, n + 1);
+    return `import:${key}#${n}`;
+  });
+}
+
+/**
+ * Drop incoming transactions that already exist on the account. Matching is
+ * by fingerprint with multiset semantics: two existing identical rows absorb
+ * at most two identical incoming rows.
+ */
+export function partitionNewTransactions<T extends ParsedImportTransaction>(
+  incoming: T[],
+  existing: { date: string; amountCents: number; description: string }[]
+): { fresh: T[]; duplicates: T[] } {
+  const remaining = new Map<string, number>();
+  for (const e of existing) {
+    const key = importFingerprint(e);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  const fresh: T[] = [];
+  const duplicates: T[] = [];
+  for (const t of incoming) {
+    const key = importFingerprint(t);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      duplicates.push(t);
+    } else {
+      fresh.push(t);
+    }
+  }
+  return { fresh, duplicates };
+}
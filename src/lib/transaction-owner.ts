@@ -0,0 +1,25 @@
+/**
+ * Reading who owns a transaction from an `accounts!inner(user_id)` embed.
+ *
+ * Partners can see each other's transactions through RLS, but only the
+ * account holder may change them. Routes select the owning account alongside
+ * the row and compare its user_id with the signed-in user.
+ */
+
+/** A transaction row selected with `accounts!inner(user_id)` */
+export interface AccountOwnerRow {
+  // PostgREST returns a single object for the many-to-one FK, but the
+  // untyped client's select parser types every embed as an array
+  accounts: { user_id: string } | { user_id: string }[] | null;
+}
+
+/** User id of the account holder, or null when the embed is missing */
+export function transactionOwnerId(row: AccountOwnerRow): string | null {
+  const account = Array.isArray(row.accounts) ? row.accounts[0] : row.accounts;
+  return account?.user_id ?? null;
+}
+
+/** Whether `userId` holds the account the transaction belongs to */
+export function isTransactionOwner(row: AccountOwnerRow, userId: string): boolean {
+  return transactionOwnerId(row) === userId;
+}
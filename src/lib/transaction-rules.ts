@@ -0,0 +1,520 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TaxCategory } from "@/lib/tax-deductions";
+
+/**
+ * User-defined transaction rules.
+ *
+ * A rule matches when every condition it sets is true for a transaction, and
+ * then applies its actions. Rules are evaluated in priority order (lowest
+ * first). For single-value actions (category, share split, tax category) the
+ * first matching rule wins; tags, notes and the internal-transfer flag
+ * accumulate across all matching rules. A rule with `stop_processing` ends evaluation once it
+ * matches.
+ *
+ * Category precedence when rules run alongside other sources:
+ * inferred category < transaction rule < exact merchant rule < manual override.
+ */
+
+export const CARD_PURCHASE_METHODS = [
+  "BAR_CODE",
+  "OCR",
+  "CARD_PIN",
+  "CARD_DETAILS",
+  "CARD_ON_FILE",
+  "ECOMMERCE",
+  "MAGNETIC_STRIPE",
+  "CONTACTLESS",
+] as const;
+
+export type CardPurchaseMethod = (typeof CARD_PURCHASE_METHODS)[number];
+
+/** Max pattern length accepted for descriptionRegex */
+export const MAX_RULE_REGEX_LENGTH = 200;
+
+export interface RuleConditions {
+  /** Case-insensitive substring of the description */
+  descriptionContains?: string;
+  /** Case-insensitive regular expression tested against the description */
+  descriptionRegex?: string;
+  /** Inclusive bounds on the absolute amount */
+  amountMinCents?: number;
+  amountMaxCents?: number;
+  /** "out" = spending (negative), "in" = money received (positive) */
+  direction?: "in" | "out";
+  accountIds?: string[];
+  cardSuffix?: string;
+  cardPurchaseMethods?: CardPurchaseMethod[];
+  /** "any" matches every foreign-currency transaction, otherwise an ISO code */
+  foreignCurrency?: string;
+}
+
+export interface RuleShareAction {
+  isShared: boolean;
+  /** Owner's share of the transaction, 0-100 */
+  sharePercentage: number;
+}
+
+export interface RuleActions {
+  categoryId?: string;
+  /** Resolved from the categories table when the rule is saved */
+  parentCategoryId?: string | null;
+  addTags?: string[];
+  share?: RuleShareAction;
+  markInternalTransfer?: boolean;
+  note?: string;
+  /** ATO deduction category; never replaces one already set on the transaction */
+  taxCategory?: TaxCategory;
+}
+
+export interface TransactionRule {
+  id: string;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  stop_processing: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+/** The transaction fields rules can match on */
+export interface RuleTransaction {
+  description: string;
+  amount_cents: number;
+  account_id: string;
+  card_number_suffix?: string | null;
+  card_purchase_method?: string | null;
+  foreign_currency_code?: string | null;
+}
+
+export interface RuleOutcome {
+  /** IDs of every rule that matched, in evaluation order */
+  matchedRuleIds: string[];
+  categoryId?: string;
+  parentCategoryId?: string | null;
+  tags: string[];
+  share?: RuleShareAction;
+  markInternalTransfer: boolean;
+  notes: string[];
+  taxCategory?: TaxCategory;
+}
+
+/** Most unbounded quantifiers (*, +, {n,}) a descriptionRegex may use */
+export const MAX_RULE_REGEX_UNBOUNDED = 3;
+
+interface RegexGroupScan {
+  /** Contains a quantifier or alternation, so repeating it backtracks */
+  ambiguous: boolean;
+}
+
+/**
+ * Why a pattern could backtrack catastrophically, or null when it can't.
+ *
+ * Rule regexes run synchronously in the webhook and the bulk apply route,
+ * so patterns that can take exponential time are refused: a repeated group
+ * containing a quantifier or alternation (`(a+)+`, `(a|ab)*`) and
+ * backreferences. The number of unbounded quantifiers is capped to keep
+ * polynomial backtracking (`.*.*.*.*x`) small.
+ */
+export function checkRuleRegexSafety(pattern: string): string | null {
+  const stack: RegexGroupScan[] = [{ ambiguous: false }];
+  // The group just closed, when the next token could quantify it
+  let lastGroup: RegexGroupScan | null = null;
+  let unbounded = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    const current = stack[stack.length - 1];
+
+    if (ch === "\\") {
+      const next = pattern[i + 1] ?? "";
+      if (/[1-9k]/.test(next)) return "Backreferences aren't supported";
+      i++;
+      lastGroup = null;
+      continue;
+    }
+    if (ch === "[") {
+      // Skip the character class; it's a single atom
+      i++;
+      if (pattern[i] === "^") i++;
+      if (pattern[i] === "]") i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        if (pattern[i] === "\\") i++;
+        i++;
+      }
+      lastGroup = null;
+      continue;
+    }
+    if (ch === "(") {
+      stack.push({ ambiguous: false });
+      // Skip (?: (?= (?! (?<= (?<! and (?<name>
+      if (pattern[i + 1] === "?") {
+        const prefix = /^\(\?(?::|=|!|<=|<!|<[A-Za-z_][A-Za-z0-9_]*>)/.exec(pattern.slice(i));
+        if (prefix) i += prefix[0].length - 1;
+      }
+      lastGroup = null;
+      continue;
+    }
+    if (ch === ")") {
+      if (stack.length === 1) return null; // unbalanced; new RegExp rejects it
+      const group = stack.pop()!;
+      if (group.ambiguous) stack[stack.length - 1].ambiguous = true;
+      lastGroup = group;
+      continue;
+    }
+    if (ch === "|") {
+      current.ambiguous = true;
+      lastGroup = null;
+      continue;
+    }
+
+    let repeats = false;
+    let isQuantifier = true;
+    if (ch === "*" || ch === "+") {
+      repeats = true;
+      unbounded++;
+    } else if (ch === "?") {
+      repeats = false;
+    } else if (ch === "{") {
+      const bounds = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+      if (bounds) {
+        const min = Number(bounds[1]);
+        const max = bounds[2] ? (bounds[3] ? Number(bounds[3]) : Infinity) : min;
+        repeats = max > 1;
+        if (max === Infinity) unbounded++;
+        i += bounds[0].length - 1;
+      } else {
+        isQuantifier = false;
+      }
+    } else {
+      isQuantifier = false;
+    }
+
+    if (isQuantifier) {
+      if (repeats && lastGroup?.ambiguous) {
+        return "Repeated groups can't contain quantifiers or alternatives";
+      }
+      current.ambiguous = true;
+      // Lazy or possessive-looking suffix
+      if (pattern[i + 1] === "?") i++;
+      lastGroup = null;
+      continue;
+    }
+    lastGroup = null;
+  }
+
+  if (unbounded > MAX_RULE_REGEX_UNBOUNDED) {
+    return `Use at most ${MAX_RULE_REGEX_UNBOUNDED} open-ended repeats (*, +)`;
+  }
+  return null;
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile a user-supplied pattern case-insensitively.
+ * Returns null for invalid, over-long or unsafe patterns (see
+ * `checkRuleRegexSafety`), so rules saved before the check never run them.
+ */
+export function compileRuleRegex(pattern: string): RegExp | null {
+  if (regexCache.has(pattern)) return regexCache.get(pattern)!;
+
+  let compiled: RegExp | null = null;
+  if (pattern.length <= MAX_RULE_REGEX_LENGTH && !checkRuleRegexSafety(pattern)) {
+    try {
+      compiled = new RegExp(pattern, "i");
+    } catch {
+      compiled = null;
+    }
+  }
+  if (regexCache.size > 500) regexCache.clear();
+  regexCache.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * True when at least one condition is set. Rules without conditions would
+ * match every transaction, so they are rejected on save.
+ */
+export function hasRuleConditions(conditions: RuleConditions): boolean {
+  return (
+    !!conditions.descriptionContains?.trim() ||
+    !!conditions.descriptionRegex?.trim() ||
+    conditions.amountMinCents != null ||
+    conditions.amountMaxCents != null ||
+    !!conditions.direction ||
+    (conditions.accountIds?.length ?? 0) > 0 ||
+    !!conditions.cardSuffix?.trim() ||
+    (conditions.cardPurchaseMethods?.length ?? 0) > 0 ||
+    !!conditions.foreignCurrency?.trim()
+  );
+}
+
+/**
+ * True when the actions would change something.
+ */
+export function hasRuleActions(actions: RuleActions): boolean {
+  return (
+    !!actions.categoryId ||
+    (actions.addTags?.length ?? 0) > 0 ||
+    !!actions.share ||
+    !!actions.markInternalTransfer ||
+    !!actions.note?.trim() ||
+    !!actions.taxCategory
+  );
+}
+
+/**
+ * Test every condition on a rule against a transaction.
+ */
+export function ruleMatches(conditions: RuleConditions, txn: RuleTransaction): boolean {
+  if (!hasRuleConditions(conditions)) return false;
+
+  const description = txn.description ?? "";
+
+  const contains = conditions.descriptionContains?.trim();
+  if (contains && !description.toLowerCase().includes(contains.toLowerCase())) {
+    return false;
+  }
+
+  const pattern = conditions.descriptionRegex?.trim();
+  if (pattern) {
+    const regex = compileRuleRegex(pattern);
+    if (!regex || !regex.test(description)) return false;
+  }
+
+  const absAmount = Math.abs(txn.amount_cents);
+  if (conditions.amountMinCents != null && absAmount < conditions.amountMinCents) return false;
+  if (conditions.amountMaxCents != null && absAmount > conditions.amountMaxCents) return false;
+
+  if (conditions.direction === "out" && txn.amount_cents >= 0) return false;
+  if (conditions.direction === "in" && txn.amount_cents <= 0) return false;
+
+  if (conditions.accountIds?.length && !conditions.accountIds.includes(txn.account_id)) {
+    return false;
+  }
+
+  const suffix = conditions.cardSuffix?.trim();
+  if (suffix && txn.card_number_suffix !== suffix) return false;
+
+  if (
+    conditions.cardPurchaseMethods?.length &&
+    !conditions.cardPurchaseMethods.includes(txn.card_purchase_method as CardPurchaseMethod)
+  ) {
+    return false;
+  }
+
+  const foreign = conditions.foreignCurrency?.trim().toUpperCase();
+  if (foreign) {
+    const code = txn.foreign_currency_code?.toUpperCase();
+    if (!code) return false;
+    if (foreign !== "ANY" && code !== foreign) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Run active rules against a transaction and merge their actions.
+ * `rules` may be in any order; they are sorted by priority here.
+ */
+export function evaluateRules(rules: TransactionRule[], txn: RuleTransaction): RuleOutcome {
+  const outcome: RuleOutcome = {
+    matchedRuleIds: [],
+    tags: [],
+    markInternalTransfer: false,
+    notes: [],
+  };
+
+  const ordered = rules
+    .filter((r) => r.is_active)
+    .sort((a, b) => a.priority - b.priority);
+
+  for (const rule of ordered) {
+    if (!ruleMatches(rule.conditions, txn)) continue;
+    outcome.matchedRuleIds.push(rule.id);
+
+    const { actions } = rule;
+    if (actions.categoryId && outcome.categoryId === undefined) {
+      outcome.categoryId = actions.categoryId;
+      outcome.parentCategoryId = actions.parentCategoryId ?? null;
+    }
+    for (const tag of actions.addTags ?? []) {
+      const normalized = normalizeRuleTag(tag);
+      if (normalized && !outcome.tags.includes(normalized)) outcome.tags.push(normalized);
+    }
+    if (actions.share && !outcome.share) outcome.share = actions.share;
+    if (actions.markInternalTransfer) outcome.markInternalTransfer = true;
+    if (actions.taxCategory && !outcome.taxCategory) outcome.taxCategory = actions.taxCategory;
+    const note = actions.note?.trim();
+    if (note && !outcome.notes.includes(note)) outcome.notes.push(note);
+
+    if (rule.stop_processing) break;
+  }
+
+  return outcome;
+}
+
+/** Tags are stored trimmed and lowercased, matching the tags API. */
+export function normalizeRuleTag(tag: string): string {
+  return tag.trim().toLowerCase().slice(0, 50);
+}
+
+/**
+ * Load a user's active rules in priority order. Failures are logged and
+ * treated as "no rules" so a bad rules query never blocks transaction sync.
+ */
+export async function loadTransactionRules(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<TransactionRule[]> {
+  try {
+    const { data, error } = await supabase
+      .from("transaction_rules")
+      .select("id, name, priority, is_active, stop_processing, conditions, actions")
+      .eq("user_id", userId)
+      .eq("is_active", true)
+      .order("priority", { ascending: true });
+
+    if (error) {
+      console.error("Failed to load transaction rules:", error);
+      return [];
+    }
+    return (data ?? []) as TransactionRule[];
+  } catch (error) {
+    console.error("Failed to load transaction rules:", error);
+    return [];
+  }
+}
+
+const SIDE_EFFECT_CHUNK_SIZE = 500;
+
+/**
+ * Persist the non-category actions (tags, notes, share overrides, internal
+ * transfer flag, tax category) for a batch of rule outcomes. Category
+ * changes are written by the caller alongside the transaction itself. Idempotent: re-running on
+ * the same transactions doesn't duplicate tags, notes or overrides.
+ *
+ * Returns the number of transactions that had at least one side effect.
+ */
+export async function applyRuleSideEffects(
+  supabase: SupabaseClient,
+  context: { userId: string; partnershipId: string | null },
+  results: { transactionId: string; outcome: RuleOutcome }[]
+): Promise<number> {
+  const tagRows: { transaction_id: string; tag_name: string }[] = [];
+  const shareRows: {
+    transaction_id: string;
+    partnership_id: string;
+    is_shared: boolean;
+    share_percentage: number;
+    updated_at: string;
+  }[] = [];
+  const internalTransferIds: string[] = [];
+  const taxCategoryIds = new Map<TaxCategory, string[]>();
+  const noteRows: { transaction_id: string; user_id: string; note: string }[] = [];
+  const touched = new Set<string>();
+  const now = new Date().toISOString();
+
+  for (const { transactionId, outcome } of results) {
+    for (const tag of outcome.tags) {
+      tagRows.push({ transaction_id: transactionId, tag_name: tag });
+      touched.add(transactionId);
+    }
+    if (outcome.share && context.partnershipId) {
+      shareRows.push({
+        transaction_id: transactionId,
+        partnership_id: context.partnershipId,
+        is_shared: outcome.share.isShared,
+        share_percentage: outcome.share.sharePercentage,
+        updated_at: now,
+      });
+      touched.add(transactionId);
+    }
+    if (outcome.markInternalTransfer) {
+      internalTransferIds.push(transactionId);
+      touched.add(transactionId);
+    }
+    if (outcome.taxCategory) {
+      const ids = taxCategoryIds.get(outcome.taxCategory);
+      if (ids) ids.push(transactionId);
+      else taxCategoryIds.set(outcome.taxCategory, [transactionId]);
+    }
+    for (const note of outcome.notes) {
+      noteRows.push({ transaction_id: transactionId, user_id: context.userId, note });
+    }
+  }
+
+  if (tagRows.length > 0) {
+    const tagNames = [...new Set(tagRows.map((r) => r.tag_name))];
+    await supabase
+      .from("tags")
+      .upsert(tagNames.map((name) => ({ name })), { onConflict: "name", ignoreDuplicates: true });
+
+    for (let i = 0; i < tagRows.length; i += SIDE_EFFECT_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from("transaction_tags")
+        .upsert(tagRows.slice(i, i + SIDE_EFFECT_CHUNK_SIZE), {
+          onConflict: "transaction_id,tag_name",
+          ignoreDuplicates: true,
+        });
+      if (error) console.error("Failed to apply rule tags:", error);
+    }
+  }
+
+  for (let i = 0; i < shareRows.length; i += SIDE_EFFECT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from("transaction_share_overrides")
+      .upsert(shareRows.slice(i, i + SIDE_EFFECT_CHUNK_SIZE), {
+        onConflict: "transaction_id,partnership_id",
+      });
+    if (error) console.error("Failed to apply rule share overrides:", error);
+  }
+
+  for (let i = 0; i < internalTransferIds.length; i += SIDE_EFFECT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from("transactions")
+      .update({ is_internal_transfer: true, internal_transfer_type: "rule" })
+      .in("id", internalTransferIds.slice(i, i + SIDE_EFFECT_CHUNK_SIZE));
+    if (error) console.error("Failed to mark rule transfers:", error);
+  }
+
+  // Only fill in transactions with no tax category yet, so manual choices stick
+  for (const [taxCategory, ids] of taxCategoryIds) {
+    for (let i = 0; i < ids.length; i += SIDE_EFFECT_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from("transactions")
+        .update({ tax_category: taxCategory })
+        .in("id", ids.slice(i, i + SIDE_EFFECT_CHUNK_SIZE))
+        .is("tax_category", null)
+        .select("id");
+      if (error) {
+        console.error("Failed to apply rule tax categories:", error);
+      } else {
+        (data ?? []).forEach((row) => touched.add(row.id));
+      }
+    }
+  }
+
+  // Notes have no unique key, so skip ones this user already left
+  for (let i = 0; i < noteRows.length; i += SIDE_EFFECT_CHUNK_SIZE) {
+    const chunk = noteRows.slice(i, i + SIDE_EFFECT_CHUNK_SIZE);
+    const { data: existing } = await supabase
+      .from("transaction_notes")
+      .select("transaction_id, note")
+      .eq("user_id", context.userId)
+      .in("transaction_id", [...new Set(chunk.map((r) => r.transaction_id))]);
+
+    const existingKeys = new Set((existing ?? []).map((n) => `${n.transaction_id}|${n.note}`));
+    const fresh = chunk.filter((r) => !existingKeys.has(`${r.transaction_id}|${r.note}`));
+    if (fresh.length === 0) continue;
+
+    const { error } = await supabase.from("transaction_notes").insert(fresh);
+    if (error) {
+      console.error("Failed to apply rule notes:", error);
+    } else {
+      fresh.forEach((r) => touched.add(r.transaction_id));
+    }
+  }
+
+  return touched.size;
+}
@@ -0,0 +1,239 @@
+/**
+ * Transaction splits — dividing one transaction into category line items.
+ *
+ * A split transaction keeps its own category_id (used as the fallback and for
+ * merchant history), but budgets, activity, exports and AI tools read the
+ * line items from `transaction_splits` instead. Line amounts carry the same
+ * sign as the transaction and must add up to its amount_cents exactly.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TransactionSplitInput } from "@/lib/budget-engine";
+
+/** Most line items a single transaction can be split into */
+export const MAX_SPLIT_LINES = 20;
+
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  position: number;
+  amount_cents: number;
+  category_id: string | null;
+  parent_category_id: string | null;
+  /** true = shared, false = individual, null = same as the transaction */
+  is_shared: boolean | null;
+  notes: string | null;
+}
+
+export interface SplitLineInput {
+  amount_cents: number;
+  category_id: string | null;
+  is_shared?: boolean | null;
+  notes?: string | null;
+}
+
+/** Columns to embed on a transactions query: `transaction_splits(${SPLIT_EMBED_COLUMNS})` */
+export const SPLIT_EMBED_COLUMNS =
+  "position, amount_cents, category_id, parent_category_id, is_shared, notes";
+
+/**
+ * Check that a set of line items is a valid split of a transaction.
+ * Returns an error message, or null when valid.
+ */
+export function validateSplitLines(
+  totalCents: number,
+  lines: Pick<SplitLineInput, "amount_cents">[]
+): string | null {
+  if (lines.length < 2) return "A split needs at least two lines";
+  if (lines.length > MAX_SPLIT_LINES) return `A split can have at most ${MAX_SPLIT_LINES} lines`;
+
+  const sign = Math.sign(totalCents);
+  for (const line of lines) {
+    if (!Number.isInteger(line.amount_cents) || line.amount_cents === 0) {
+      return "Every line needs an amount";
+    }
+    if (Math.sign(line.amount_cents) !== sign) {
+      return sign < 0
+        ? "Lines of a purchase must all be spending"
+        : "Lines of a deposit must all be income";
+    }
+  }
+
+  const sum = lines.reduce((s, l) => s + l.amount_cents, 0);
+  if (sum !== totalCents) {
+    const diff = Math.abs(totalCents - sum);
+    const direction = Math.abs(sum) > Math.abs(totalCents) ? "over" : "under";
+    return `Lines are ${direction} the transaction amount by $${(diff / 100).toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * Normalise an embedded `transaction_splits` relation into ordered split rows.
+ * PostgREST returns an array for this one-to-many embed, but a missing table
+ * or column selection can leave it null/undefined.
+ */
+export function readEmbeddedSplits<T extends { position?: number | null }>(
+  raw: T[] | T | null | undefined
+): T[] {
+  if (!raw) return [];
+  const rows = Array.isArray(raw) ? raw : [raw];
+  return [...rows].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+}
+
+/**
+ * Map an embedded `transaction_splits` relation to budget engine input.
+ * Returns null for unsplit transactions so callers can spread it directly.
+ */
+export function toBudgetSplits(
+  raw: unknown
+): TransactionSplitInput[] | null {
+  const rows = readEmbeddedSplits(
+    raw as { position?: number | null; amount_cents: number; category_id: string | null; is_shared?: boolean | null }[] | null
+  );
+  if (rows.length === 0) return null;
+  return rows.map((r) => ({
+    amount_cents: r.amount_cents,
+    category_id: r.category_id,
+    is_shared: r.is_shared ?? null,
+  }));
+}
+
+export interface SplitLine<T> {
+  /** The original transaction */
+  transaction: T;
+  amount_cents: number;
+  category_id: string | null;
+  parent_category_id: string | null;
+  is_shared: boolean | null;
+  notes: string | null;
+  /** 0-based line index and total line count; null for unsplit transactions */
+  split: { index: number; count: number } | null;
+}
+
+/**
+ * Expand a transaction into one entry per category line item. Unsplit
+ * transactions produce a single line carrying their own category.
+ */
+export function expandSplitLines<
+  T extends { amount_cents: number; category_id: string | null; parent_category_id?: string | null }
+>(
+  transaction: T,
+  splits: Pick<TransactionSplit, "amount_cents" | "category_id" | "parent_category_id" | "is_shared" | "notes">[] | null | undefined
+): SplitLine<T>[] {
+  if (!splits || splits.length === 0) {
+    return [{
+      transaction,
+      amount_cents: transaction.amount_cents,
+      category_id: transaction.category_id,
+      parent_category_id: transaction.parent_category_id ?? null,
+      is_shared: null,
+      notes: null,
+      split: null,
+    }];
+  }
+
+  return splits.map((s, index) => ({
+    transaction,
+    amount_cents: s.amount_cents,
+    category_id: s.category_id,
+    parent_category_id: s.parent_category_id,
+    is_shared: s.is_shared ?? null,
+    notes: s.notes ?? null,
+    split: { index, count: splits.length },
+  }));
+}
+
+/**
+ * Load line items for a set of transactions, grouped by transaction ID and
+ * ordered by position. Transactions without splits are absent from the map.
+ */
+export async function loadTransactionSplits(
+  supabase: SupabaseClient,
+  transactionIds: string[]
+): Promise<Map<string, TransactionSplit[]>> {
+  const byTransaction = new Map<string, TransactionSplit[]>();
+  const CHUNK = 500;
+
+  for (let i = 0; i < transactionIds.length; i += CHUNK) {
+    const { data, error } = await supabase
+      .from("transaction_splits")
+      .select("id, transaction_id, position, amount_cents, category_id, parent_category_id, is_shared, notes")
+      .in("transaction_id", transactionIds.slice(i, i + CHUNK))
+      .order("position", { ascending: true });
+    if (error) {
+      console.error("Failed to load transaction splits:", error.message);
+      continue;
+    }
+    for (const row of (data ?? []) as TransactionSplit[]) {
+      const list = byTransaction.get(row.transaction_id);
+      if (list) list.push(row);
+      else byTransaction.set(row.transaction_id, [row]);
+    }
+  }
+
+  return byTransaction;
+}
+
+/**
+ * IDs of transactions with at least one line item in the given categories.
+ * Used by category views to pick up split transactions whose own
+ * category_id is something else.
+ */
+export async function findSplitTransactionIds(
+  supabase: SupabaseClient,
+  categoryIds: string[],
+  limit = 1000
+): Promise<string[]> {
+  if (categoryIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("transaction_splits")
+    .select("transaction_id")
+    .in("category_id", categoryIds)
+    .limit(limit);
+  if (error) {
+    console.error("Failed to look up split transactions:", error.message);
+    return [];
+  }
+  return [...new Set((data ?? []).map((r: { transaction_id: string }) => r.transaction_id))];
+}
+
+/**
+ * Narrow transactions to the parts that fall in a set of categories.
+ *
+ * Unsplit transactions are kept when their own category matches. Split
+ * transactions are kept when any line matches, with amount_cents replaced by
+ * the sum of the matching lines and the full amount kept in split_total_cents.
+ */
+export function scopeToCategories<
+  T extends {
+    amount_cents: number;
+    category_id: string | null;
+    transaction_splits?: Pick<TransactionSplit, "amount_cents" | "category_id">[] | null;
+  }
+>(
+  transactions: T[],
+  categoryIds: Iterable<string>
+): (T & { split_total_cents?: number })[] {
+  const wanted = new Set(categoryIds);
+  const scoped: (T & { split_total_cents?: number })[] = [];
+
+  for (const txn of transactions) {
+    const splits = txn.transaction_splits;
+    if (!splits || splits.length === 0) {
+      if (txn.category_id && wanted.has(txn.category_id)) scoped.push(txn);
+      continue;
+    }
+
+    const matching = splits.filter((s) => s.category_id && wanted.has(s.category_id));
+    if (matching.length === 0) continue;
+    scoped.push({
+      ...txn,
+      amount_cents: matching.reduce((sum, s) => sum + s.amount_cents, 0),
+      split_total_cents: txn.amount_cents,
+    });
+  }
+
+  return scoped;
+}
@@ -132,7 +132,7 @@ export async function updateSession(request: NextRequest) {
   }
 
   // Protected routes - redirect to login if not authenticated
-  const protectedPaths = ["/home", "/settings", "/goals", "/plan", "/activity", "/budget", "/invest", "/onboarding", "/analysis", "/notifications", "/dev"];
+  const protectedPaths = ["/home", "/settings", "/goals", "/plan", "/activity", "/budget", "/calendar", "/invest", "/onboarding", "/analysis", "/notifications", "/dev"];
   const isProtectedPath = protectedPaths.some((path) =>
     request.nextUrl.pathname.startsWith(path)
   );
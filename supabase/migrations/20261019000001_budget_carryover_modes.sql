@@ -0,0 +1,24 @@
+-- Envelope carryover modes for user_budgets.
+-- Replaces the unused 'spending-based' mode with per-envelope rollover
+-- options understood by the budget engine:
+--   none                 every envelope starts fresh each period
+--   rollover-unspent     positive balances roll forward, overspend is forgiven
+--   rollover-with-debt   positive and negative balances roll forward
+--   rollover-capped      positive balances roll forward up to the target
+--
+-- Existing 'spending-based' budgets never had rollover applied, so they are
+-- migrated to 'none' to keep their numbers unchanged.
+
+ALTER TABLE public.user_budgets
+  DROP CONSTRAINT IF EXISTS user_budgets_carryover_mode_valid;
+
+UPDATE public.user_budgets
+  SET carryover_mode = 'none'
+  WHERE carryover_mode NOT IN ('none', 'rollover-unspent', 'rollover-with-debt', 'rollover-capped');
+
+ALTER TABLE public.user_budgets
+  ALTER COLUMN carryover_mode SET DEFAULT 'none'::text;
+
+ALTER TABLE public.user_budgets
+  ADD CONSTRAINT user_budgets_carryover_mode_valid
+  CHECK (carryover_mode IN ('none', 'rollover-unspent', 'rollover-with-debt', 'rollover-capped'));
@@ -0,0 +1,34 @@
+-- Persistent audit trail for critical operations.
+-- Entries are written server-side by auditLog() (src/lib/audit-logger.ts)
+-- using the service role, so there are no INSERT/UPDATE/DELETE policies:
+-- the log is append-only from the client's point of view.
+--
+-- user_id deliberately has no foreign key so ACCOUNT_DELETED entries
+-- outlive the profile they describe. Entries are scoped to the partnership
+-- so both partners can see who changed shared data.
+
+CREATE TABLE public.audit_logs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  partnership_id uuid,
+  action text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_pkey PRIMARY KEY (id);
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_partnership_id_fkey FOREIGN KEY (partnership_id) REFERENCES public.partnerships(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_audit_logs_partnership_created ON public.audit_logs USING btree (partnership_id, created_at DESC);
+CREATE INDEX idx_audit_logs_user_created ON public.audit_logs USING btree (user_id, created_at DESC);
+
+ALTER TABLE public.audit_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view partnership audit logs" ON public.audit_logs
+  FOR SELECT TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR partnership_id IN (
+      SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+    )
+  );
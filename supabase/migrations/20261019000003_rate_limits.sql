@@ -0,0 +1,47 @@
+-- Durable rate limit counters shared by every app instance.
+-- Used by DatabaseRateLimitStore (src/lib/rate-limiter.ts) when
+-- RATE_LIMIT_STORE=database. Only the service role touches this table:
+-- RLS is enabled with no policies and the functions are not granted to
+-- anon/authenticated.
+
+CREATE TABLE public.rate_limits (
+  key text NOT NULL,
+  count integer NOT NULL DEFAULT 0,
+  reset_at timestamp with time zone NOT NULL
+);
+
+ALTER TABLE public.rate_limits ADD CONSTRAINT rate_limits_pkey PRIMARY KEY (key);
+CREATE INDEX idx_rate_limits_reset_at ON public.rate_limits USING btree (reset_at);
+
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Atomically count a hit against `p_key`, starting a fresh window when the
+-- previous one has expired. Returns the count and window reset time.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(p_key text, p_window_ms integer)
+ RETURNS TABLE(hit_count integer, reset_at timestamp with time zone)
+ LANGUAGE sql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  INSERT INTO public.rate_limits AS rl (key, count, reset_at)
+  VALUES (p_key, 1, clock_timestamp() + make_interval(secs => p_window_ms / 1000.0))
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE WHEN rl.reset_at <= clock_timestamp() THEN 1 ELSE rl.count + 1 END,
+    reset_at = CASE WHEN rl.reset_at <= clock_timestamp() THEN EXCLUDED.reset_at ELSE rl.reset_at END
+  RETURNING rl.count, rl.reset_at;
+$function$;
+
+-- Remove expired windows so the table stays small.
+CREATE OR REPLACE FUNCTION public.rate_limit_cleanup()
+ RETURNS void
+ LANGUAGE sql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  DELETE FROM public.rate_limits WHERE reset_at <= clock_timestamp();
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.rate_limit_hit(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.rate_limit_cleanup() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rate_limit_hit(text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.rate_limit_cleanup() TO service_role;
@@ -0,0 +1,22 @@
+-- Manual accounts for statements imported from other banks (CSV/OFX/QIF).
+-- Imported accounts live alongside Up Bank accounts in public.accounts so
+-- budgets, the activity feed and AI tools pick them up without changes.
+--
+-- source distinguishes Up-synced accounts from imported ones. Manual
+-- accounts use a synthetic up_account_id ('manual:<uuid>') and imported
+-- transactions a synthetic up_transaction_id ('import:...') so the existing
+-- unique constraints double as the import dedupe key.
+
+ALTER TABLE public.accounts
+  ADD COLUMN source text NOT NULL DEFAULT 'up_bank'::text,
+  ADD COLUMN institution text;
+
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_source_valid CHECK (source IN ('up_bank', 'manual'));
+
+ALTER TABLE public.accounts
+  DROP CONSTRAINT IF EXISTS accounts_account_type_valid;
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_account_type_valid CHECK (account_type IN ('TRANSACTIONAL', 'SAVER', 'HOME_LOAN', 'CREDIT_CARD'));
+
+CREATE INDEX idx_accounts_manual ON public.accounts USING btree (user_id) WHERE (source = 'manual'::text);
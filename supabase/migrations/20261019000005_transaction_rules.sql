@@ -0,0 +1,49 @@
+-- User-defined transaction rules.
+-- Each rule has a set of conditions (all must match) and a set of actions
+-- applied to matching transactions. Rules run in priority order (lowest
+-- first) in the Up Bank webhook and in the "re-apply to history" batch.
+-- Evaluation lives in src/lib/transaction-rules.ts.
+--
+-- conditions: { descriptionContains?, descriptionRegex?, amountMinCents?,
+--   amountMaxCents?, direction?, accountIds?, cardSuffix?,
+--   cardPurchaseMethods?, foreignCurrency? }
+-- actions: { categoryId?, addTags?, share?: { isShared, sharePercentage },
+--   markInternalTransfer?, note? }
+--
+-- Rules are per user, matching merchant_category_rules.
+
+CREATE TABLE public.transaction_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  stop_processing boolean NOT NULL DEFAULT false,
+  conditions jsonb NOT NULL DEFAULT '{}'::jsonb,
+  actions jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.transaction_rules ADD CONSTRAINT transaction_rules_pkey PRIMARY KEY (id);
+ALTER TABLE public.transaction_rules ADD CONSTRAINT transaction_rules_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.transaction_rules ADD CONSTRAINT transaction_rules_name_valid CHECK (char_length(name) BETWEEN 1 AND 100);
+
+CREATE INDEX idx_transaction_rules_user_priority ON public.transaction_rules USING btree (user_id, priority);
+
+ALTER TABLE public.transaction_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can create their own transaction rules" ON public.transaction_rules
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can delete their own transaction rules" ON public.transaction_rules
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Users can update their own transaction rules" ON public.transaction_rules
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Users can view their own transaction rules" ON public.transaction_rules
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE TRIGGER set_updated_at_transaction_rules BEFORE UPDATE ON public.transaction_rules FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
@@ -0,0 +1,127 @@
+-- Split transactions: one transaction divided into line items, each with
+-- its own amount, category and optional shared/individual flag.
+--
+-- When a transaction has rows here, budgets, the activity feed, exports and
+-- AI tools use the line items instead of the transaction's single
+-- category_id. Line amounts carry the same sign as the transaction and must
+-- sum to its amount_cents; replace_transaction_splits() enforces this.
+--
+-- is_shared: true = shared with partner (category split, or 50/50),
+-- false = individual, NULL = same as the parent transaction.
+
+CREATE TABLE public.transaction_splits (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  amount_cents bigint NOT NULL,
+  category_id text,
+  parent_category_id text,
+  is_shared boolean,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.transaction_splits ADD CONSTRAINT transaction_splits_pkey PRIMARY KEY (id);
+ALTER TABLE public.transaction_splits ADD CONSTRAINT transaction_splits_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.transactions(id) ON DELETE CASCADE;
+ALTER TABLE public.transaction_splits ADD CONSTRAINT transaction_splits_category_id_fkey FOREIGN KEY (category_id) REFERENCES public.categories(id) ON DELETE SET NULL;
+ALTER TABLE public.transaction_splits ADD CONSTRAINT transaction_splits_parent_category_id_fkey FOREIGN KEY (parent_category_id) REFERENCES public.categories(id) ON DELETE SET NULL;
+ALTER TABLE public.transaction_splits ADD CONSTRAINT transaction_splits_amount_cents_valid CHECK (amount_cents <> 0);
+
+CREATE INDEX idx_transaction_splits_transaction_id ON public.transaction_splits USING btree (transaction_id, position);
+CREATE INDEX idx_transaction_splits_category_id ON public.transaction_splits USING btree (category_id);
+
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert own transaction splits" ON public.transaction_splits
+  FOR INSERT TO authenticated
+  WITH CHECK (transaction_id IN (
+    SELECT t.id FROM transactions t
+    JOIN accounts a ON a.id = t.account_id
+    WHERE a.user_id = auth.uid()
+  ));
+CREATE POLICY "Users can update own transaction splits" ON public.transaction_splits
+  FOR UPDATE TO authenticated
+  USING (transaction_id IN (
+    SELECT t.id FROM transactions t
+    JOIN accounts a ON a.id = t.account_id
+    WHERE a.user_id = auth.uid()
+  ));
+CREATE POLICY "Users can delete own transaction splits" ON public.transaction_splits
+  FOR DELETE TO authenticated
+  USING (transaction_id IN (
+    SELECT t.id FROM transactions t
+    JOIN accounts a ON a.id = t.account_id
+    WHERE a.user_id = auth.uid()
+  ));
+CREATE POLICY "Partners can view transaction splits" ON public.transaction_splits
+  FOR SELECT TO authenticated
+  USING (transaction_id IN (
+    SELECT t.id FROM transactions t
+    JOIN accounts a ON a.id = t.account_id
+    WHERE a.user_id IN (
+      SELECT pm.user_id FROM partnership_members pm
+      WHERE pm.partnership_id IN (
+        SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+      )
+    )
+  ));
+
+CREATE TRIGGER set_updated_at_transaction_splits BEFORE UPDATE ON public.transaction_splits FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- Atomically replace a transaction's line items. Runs as the caller so RLS
+-- still limits it to the caller's own transactions. Pass an empty array to
+-- remove the split. Raises if the lines don't sum to the transaction amount.
+CREATE OR REPLACE FUNCTION public.replace_transaction_splits(
+  p_transaction_id uuid,
+  p_splits jsonb
+)
+RETURNS SETOF public.transaction_splits
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_amount bigint;
+  v_total bigint;
+BEGIN
+  SELECT amount_cents INTO v_amount
+  FROM public.transactions
+  WHERE id = p_transaction_id;
+
+  IF v_amount IS NULL THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM public.transaction_splits WHERE transaction_id = p_transaction_id;
+
+  IF jsonb_array_length(p_splits) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM((s->>'amount_cents')::bigint), 0) INTO v_total
+  FROM jsonb_array_elements(p_splits) AS s;
+
+  IF v_total <> v_amount THEN
+    RAISE EXCEPTION 'Split amounts (%) must add up to the transaction amount (%)', v_total, v_amount
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.transaction_splits (
+    transaction_id, position, amount_cents, category_id, parent_category_id, is_shared, notes
+  )
+  SELECT
+    p_transaction_id,
+    (s.ordinality - 1)::integer,
+    (s.value->>'amount_cents')::bigint,
+    NULLIF(s.value->>'category_id', ''),
+    NULLIF(s.value->>'parent_category_id', ''),
+    (s.value->>'is_shared')::boolean,
+    NULLIF(s.value->>'notes', '')
+  FROM jsonb_array_elements(p_splits) WITH ORDINALITY AS s(value, ordinality)
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replace_transaction_splits(uuid, jsonb) TO authenticated;
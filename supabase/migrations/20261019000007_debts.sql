@@ -0,0 +1,63 @@
+-- Debts and loans: mortgages, car loans, HECS/HELP, credit cards, BNPL and
+-- anything else owed, tracked per partnership with balance, interest rate
+-- and minimum repayment for the payoff planner.
+--
+-- A debt can be linked to a synced account (e.g. an Up home loan). Linked
+-- debts take their balance from the account, and because that account is
+-- already part of total_balance_cents they are left out of
+-- net_worth_snapshots.liability_total_cents so nothing is counted twice.
+
+CREATE TABLE public.debts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  partnership_id uuid NOT NULL,
+  name text NOT NULL,
+  debt_type text NOT NULL,
+  balance_cents bigint NOT NULL DEFAULT 0,
+  interest_rate numeric(6,3) NOT NULL DEFAULT 0,
+  minimum_repayment_cents bigint NOT NULL DEFAULT 0,
+  repayment_frequency text NOT NULL DEFAULT 'monthly',
+  linked_account_id uuid,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.debts ADD CONSTRAINT debts_pkey PRIMARY KEY (id);
+ALTER TABLE public.debts ADD CONSTRAINT debts_partnership_id_fkey FOREIGN KEY (partnership_id) REFERENCES public.partnerships(id) ON DELETE CASCADE;
+ALTER TABLE public.debts ADD CONSTRAINT debts_linked_account_id_fkey FOREIGN KEY (linked_account_id) REFERENCES public.accounts(id) ON DELETE SET NULL;
+ALTER TABLE public.debts ADD CONSTRAINT debts_debt_type_valid CHECK (debt_type IN ('mortgage', 'car_loan', 'hecs_help', 'credit_card', 'bnpl', 'personal_loan', 'other'));
+ALTER TABLE public.debts ADD CONSTRAINT debts_repayment_frequency_valid CHECK (repayment_frequency IN ('weekly', 'fortnightly', 'monthly'));
+ALTER TABLE public.debts ADD CONSTRAINT debts_balance_non_negative CHECK (balance_cents >= 0);
+ALTER TABLE public.debts ADD CONSTRAINT debts_minimum_repayment_non_negative CHECK (minimum_repayment_cents >= 0);
+ALTER TABLE public.debts ADD CONSTRAINT debts_interest_rate_range CHECK (interest_rate >= 0 AND interest_rate <= 100);
+ALTER TABLE public.debts ADD CONSTRAINT debts_name_length CHECK (char_length(name) <= 200);
+
+CREATE INDEX idx_debts_partnership_id ON public.debts USING btree (partnership_id);
+
+ALTER TABLE public.debts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can create partnership debts" ON public.debts
+  FOR INSERT TO authenticated
+  WITH CHECK (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can delete partnership debts" ON public.debts
+  FOR DELETE TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can update partnership debts" ON public.debts
+  FOR UPDATE TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can view partnership debts" ON public.debts
+  FOR SELECT TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+
+CREATE TRIGGER set_updated_at_debts BEFORE UPDATE ON public.debts FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- Net worth = total_balance_cents + investment_total_cents - liability_total_cents
+ALTER TABLE public.net_worth_snapshots ADD COLUMN liability_total_cents bigint NOT NULL DEFAULT 0;
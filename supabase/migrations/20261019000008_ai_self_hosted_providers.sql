@@ -0,0 +1,13 @@
+-- Self-hosted AI providers
+-- Adds the base URL used by the "openai-compatible" and "ollama" providers,
+-- which run against a server on the user's own network instead of a cloud API.
+-- For these providers ai_api_key is optional.
+
+ALTER TABLE public.profiles ADD COLUMN ai_base_url text;
+
+COMMENT ON COLUMN public.profiles.ai_base_url IS 'Base URL for self-hosted AI providers (openai-compatible, ollama); null for cloud providers';
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_ai_provider_valid CHECK (ai_provider IS NULL OR ai_provider IN ('google', 'openai', 'anthropic', 'openai-compatible', 'ollama'));
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_ai_base_url_valid CHECK (ai_base_url IS NULL OR (ai_base_url ~ '^https?://' AND length(ai_base_url) <= 500));
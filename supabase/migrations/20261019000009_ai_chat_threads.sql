@@ -0,0 +1,53 @@
+-- Saved AI chat threads. Each thread belongs to the user who started it and
+-- stores the full UI message list (text and tool parts) as JSON, so it can be
+-- reopened exactly as it was shown.
+--
+-- A thread is private until its owner shares it into their partnership;
+-- partners can then read it but only the owner can continue, rename, pin or
+-- delete it.
+
+CREATE TABLE public.ai_chat_threads (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  partnership_id uuid,
+  title text NOT NULL,
+  messages jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_pinned boolean NOT NULL DEFAULT false,
+  is_shared boolean NOT NULL DEFAULT false,
+  last_message_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.ai_chat_threads ADD CONSTRAINT ai_chat_threads_pkey PRIMARY KEY (id);
+ALTER TABLE public.ai_chat_threads ADD CONSTRAINT ai_chat_threads_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.ai_chat_threads ADD CONSTRAINT ai_chat_threads_partnership_id_fkey FOREIGN KEY (partnership_id) REFERENCES public.partnerships(id) ON DELETE SET NULL;
+ALTER TABLE public.ai_chat_threads ADD CONSTRAINT ai_chat_threads_title_length CHECK (char_length(title) BETWEEN 1 AND 120);
+ALTER TABLE public.ai_chat_threads ADD CONSTRAINT ai_chat_threads_messages_valid CHECK (jsonb_typeof(messages) = 'array');
+-- Sharing needs a partnership to share into
+ALTER TABLE public.ai_chat_threads ADD CONSTRAINT ai_chat_threads_shared_valid CHECK (NOT is_shared OR partnership_id IS NOT NULL);
+
+CREATE INDEX idx_ai_chat_threads_user_id ON public.ai_chat_threads USING btree (user_id, last_message_at DESC);
+CREATE INDEX idx_ai_chat_threads_shared ON public.ai_chat_threads USING btree (partnership_id) WHERE is_shared;
+
+ALTER TABLE public.ai_chat_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can create own chat threads" ON public.ai_chat_threads
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can update own chat threads" ON public.ai_chat_threads
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Users can delete own chat threads" ON public.ai_chat_threads
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Users can view own or shared chat threads" ON public.ai_chat_threads
+  FOR SELECT TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR (is_shared AND partnership_id IN (
+      SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+    ))
+  );
+
+CREATE TRIGGER set_updated_at_ai_chat_threads BEFORE UPDATE ON public.ai_chat_threads FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
@@ -0,0 +1,128 @@
+-- Transaction attachments: receipts, warranty documents and other files
+-- (JPEG/PNG/WebP/HEIC images or PDFs) kept against a transaction.
+--
+-- This table holds the metadata; the bytes live wherever ATTACHMENT_STORAGE
+-- points: the private "transaction-attachments" Supabase Storage bucket
+-- (default) or a directory on the app server for Docker deploys. Either way
+-- storage_path is "<uploader user id>/<transaction id>/<attachment id>.<ext>".
+--
+-- Like splits, attachments are managed by the owner of the transaction's
+-- account and visible to their partner.
+
+CREATE TABLE public.transaction_attachments (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL,
+  uploaded_by uuid NOT NULL,
+  kind text NOT NULL DEFAULT 'receipt',
+  file_name text NOT NULL,
+  content_type text NOT NULL,
+  size_bytes integer NOT NULL,
+  storage_path text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.transaction_attachments ADD CONSTRAINT transaction_attachments_pkey PRIMARY KEY (id);
+ALTER TABLE public.transaction_attachments ADD CONSTRAINT transaction_attachments_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.transactions(id) ON DELETE CASCADE;
+ALTER TABLE public.transaction_attachments ADD CONSTRAINT transaction_attachments_uploaded_by_fkey FOREIGN KEY (uploaded_by) REFERENCES public.profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.transaction_attachments ADD CONSTRAINT transaction_attachments_storage_path_key UNIQUE (storage_path);
+ALTER TABLE public.transaction_attachments ADD CONSTRAINT transaction_attachments_kind_valid CHECK (kind IN ('receipt', 'warranty', 'other'));
+ALTER TABLE public.transaction_attachments ADD CONSTRAINT transaction_attachments_content_type_valid CHECK (content_type IN ('image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'));
+ALTER TABLE public.transaction_attachments ADD CONSTRAINT transaction_attachments_size_valid CHECK (size_bytes > 0 AND size_bytes <= 10485760);
+ALTER TABLE public.transaction_attachments ADD CONSTRAINT transaction_attachments_file_name_length CHECK (char_length(file_name) BETWEEN 1 AND 255);
+
+CREATE INDEX idx_transaction_attachments_transaction_id ON public.transaction_attachments USING btree (transaction_id, created_at);
+
+ALTER TABLE public.transaction_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert own transaction attachments" ON public.transaction_attachments
+  FOR INSERT TO authenticated
+  WITH CHECK (uploaded_by = auth.uid() AND transaction_id IN (
+    SELECT t.id FROM transactions t
+    JOIN accounts a ON a.id = t.account_id
+    WHERE a.user_id = auth.uid()
+  ));
+CREATE POLICY "Users can delete own transaction attachments" ON public.transaction_attachments
+  FOR DELETE TO authenticated
+  USING (transaction_id IN (
+    SELECT t.id FROM transactions t
+    JOIN accounts a ON a.id = t.account_id
+    WHERE a.user_id = auth.uid()
+  ));
+CREATE POLICY "Partners can view transaction attachments" ON public.transaction_attachments
+  FOR SELECT TO authenticated
+  USING (transaction_id IN (
+    SELECT t.id FROM transactions t
+    JOIN accounts a ON a.id = t.account_id
+    WHERE a.user_id IN (
+      SELECT pm.user_id FROM partnership_members pm
+      WHERE pm.partnership_id IN (
+        SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+      )
+    )
+  ));
+
+-- Denormalised count so the activity feed can filter "has receipt" and show
+-- a paperclip without joining attachments on every page
+ALTER TABLE public.transactions ADD COLUMN attachment_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_transactions_has_attachments ON public.transactions USING btree (account_id, created_at DESC) WHERE attachment_count > 0;
+
+CREATE OR REPLACE FUNCTION public.sync_transaction_attachment_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_transaction_id uuid := COALESCE(NEW.transaction_id, OLD.transaction_id);
+BEGIN
+  UPDATE public.transactions
+  SET attachment_count = (
+    SELECT count(*) FROM public.transaction_attachments WHERE transaction_id = v_transaction_id
+  )
+  WHERE id = v_transaction_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_transaction_attachment_count
+  AFTER INSERT OR DELETE ON public.transaction_attachments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_transaction_attachment_count();
+
+-- Private bucket for the default Supabase Storage backend. Objects are read
+-- and written through the app's API routes using the caller's session, so
+-- these policies mirror the table's: uploaders own their folder, partners
+-- can read it.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'transaction-attachments',
+  'transaction-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own transaction attachments" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'transaction-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+CREATE POLICY "Users can delete own transaction attachments" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'transaction-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+CREATE POLICY "Partners can read transaction attachments" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'transaction-attachments'
+    AND (storage.foldername(name))[1] IN (
+      SELECT pm.user_id::text FROM partnership_members pm
+      WHERE pm.partnership_id IN (
+        SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+      )
+    )
+  );
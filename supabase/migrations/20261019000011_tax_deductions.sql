@@ -0,0 +1,18 @@
+-- Tax-deductible expenses: each transaction can carry an ATO deduction
+-- category and the share of it being claimed, set by hand from the
+-- transaction detail view or by a transaction rule's taxCategory action.
+--
+-- Categories map to individual tax return labels (see
+-- src/lib/tax-deductions.ts). Both partners do their own returns, so the
+-- EOFY report only covers the caller's own accounts; the existing
+-- transactions RLS already limits updates to the account owner.
+
+ALTER TABLE public.transactions ADD COLUMN tax_category text;
+ALTER TABLE public.transactions ADD COLUMN tax_deductible_percent smallint NOT NULL DEFAULT 100;
+
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_tax_category_valid CHECK (
+  tax_category IS NULL OR tax_category IN ('work_related', 'home_office', 'self_education', 'donations', 'tax_affairs', 'other')
+);
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_tax_deductible_percent_valid CHECK (tax_deductible_percent BETWEEN 1 AND 100);
+
+CREATE INDEX idx_transactions_tax_category ON public.transactions USING btree (account_id, created_at) WHERE tax_category IS NOT NULL;
@@ -0,0 +1,125 @@
+-- Superannuation accounts: each partner's super funds with balance history
+-- and individual contributions, replacing the single
+-- profiles.super_balance_cents figure as the source for FIRE projections,
+-- concessional cap tracking (including carry-forward of unused cap) and
+-- net worth.
+--
+-- Both partners can see each other's super, but only the owner can change
+-- it: caps and contributions are personal. profiles.super_balance_cents is
+-- kept in step with the owner's accounts by the app so existing readers of
+-- that column keep working.
+
+CREATE TABLE public.super_accounts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  partnership_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  fund_name text NOT NULL,
+  balance_cents bigint NOT NULL DEFAULT 0,
+  balance_date date NOT NULL DEFAULT CURRENT_DATE,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.super_accounts ADD CONSTRAINT super_accounts_pkey PRIMARY KEY (id);
+ALTER TABLE public.super_accounts ADD CONSTRAINT super_accounts_partnership_id_fkey FOREIGN KEY (partnership_id) REFERENCES public.partnerships(id) ON DELETE CASCADE;
+ALTER TABLE public.super_accounts ADD CONSTRAINT super_accounts_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.super_accounts ADD CONSTRAINT super_accounts_balance_non_negative CHECK (balance_cents >= 0);
+ALTER TABLE public.super_accounts ADD CONSTRAINT super_accounts_fund_name_length CHECK (char_length(fund_name) BETWEEN 1 AND 100);
+
+CREATE INDEX idx_super_accounts_partnership_id ON public.super_accounts USING btree (partnership_id);
+CREATE INDEX idx_super_accounts_user_id ON public.super_accounts USING btree (user_id);
+
+-- One balance per account per day; the latest dated entry is the account's balance
+CREATE TABLE public.super_balance_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  super_account_id uuid NOT NULL,
+  recorded_on date NOT NULL,
+  balance_cents bigint NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.super_balance_history ADD CONSTRAINT super_balance_history_pkey PRIMARY KEY (id);
+ALTER TABLE public.super_balance_history ADD CONSTRAINT super_balance_history_super_account_id_fkey FOREIGN KEY (super_account_id) REFERENCES public.super_accounts(id) ON DELETE CASCADE;
+ALTER TABLE public.super_balance_history ADD CONSTRAINT super_balance_history_account_date_key UNIQUE (super_account_id, recorded_on);
+ALTER TABLE public.super_balance_history ADD CONSTRAINT super_balance_history_balance_non_negative CHECK (balance_cents >= 0);
+
+CREATE TABLE public.super_contributions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  super_account_id uuid NOT NULL,
+  contribution_date date NOT NULL,
+  amount_cents bigint NOT NULL,
+  contribution_type text NOT NULL,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.super_contributions ADD CONSTRAINT super_contributions_pkey PRIMARY KEY (id);
+ALTER TABLE public.super_contributions ADD CONSTRAINT super_contributions_super_account_id_fkey FOREIGN KEY (super_account_id) REFERENCES public.super_accounts(id) ON DELETE CASCADE;
+ALTER TABLE public.super_contributions ADD CONSTRAINT super_contributions_amount_positive CHECK (amount_cents > 0);
+ALTER TABLE public.super_contributions ADD CONSTRAINT super_contributions_type_valid CHECK (contribution_type IN ('employer', 'salary_sacrifice', 'personal_deductible', 'personal'));
+ALTER TABLE public.super_contributions ADD CONSTRAINT super_contributions_notes_length CHECK (notes IS NULL OR char_length(notes) <= 500);
+
+CREATE INDEX idx_super_contributions_account_date ON public.super_contributions USING btree (super_account_id, contribution_date DESC);
+
+ALTER TABLE public.super_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.super_balance_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.super_contributions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view partnership super accounts" ON public.super_accounts
+  FOR SELECT TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Users can create their own super accounts" ON public.super_accounts
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid() AND partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Users can update their own super accounts" ON public.super_accounts
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can delete their own super accounts" ON public.super_accounts
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Members can view partnership super balances" ON public.super_balance_history
+  FOR SELECT TO authenticated
+  USING (super_account_id IN (
+    SELECT id FROM super_accounts WHERE partnership_id IN (
+      SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+    )
+  ));
+CREATE POLICY "Users can manage their own super balances" ON public.super_balance_history
+  FOR ALL TO authenticated
+  USING (super_account_id IN (SELECT id FROM super_accounts WHERE user_id = auth.uid()))
+  WITH CHECK (super_account_id IN (SELECT id FROM super_accounts WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can view partnership super contributions" ON public.super_contributions
+  FOR SELECT TO authenticated
+  USING (super_account_id IN (
+    SELECT id FROM super_accounts WHERE partnership_id IN (
+      SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+    )
+  ));
+CREATE POLICY "Users can manage their own super contributions" ON public.super_contributions
+  FOR ALL TO authenticated
+  USING (super_account_id IN (SELECT id FROM super_accounts WHERE user_id = auth.uid()))
+  WITH CHECK (super_account_id IN (SELECT id FROM super_accounts WHERE user_id = auth.uid()));
+
+CREATE TRIGGER set_updated_at_super_accounts BEFORE UPDATE ON public.super_accounts FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- Net worth = total_balance_cents + investment_total_cents + super_total_cents - liability_total_cents
+ALTER TABLE public.net_worth_snapshots ADD COLUMN super_total_cents bigint NOT NULL DEFAULT 0;
+
+-- Carry existing profile balances over as each user's first super account
+INSERT INTO public.super_accounts (partnership_id, user_id, fund_name, balance_cents, balance_date)
+SELECT DISTINCT ON (p.id) pm.partnership_id, p.id, 'Super', p.super_balance_cents, CURRENT_DATE
+FROM public.profiles p
+JOIN public.partnership_members pm ON pm.user_id = p.id
+WHERE p.super_balance_cents > 0
+ORDER BY p.id, pm.joined_at;
+
+INSERT INTO public.super_balance_history (super_account_id, recorded_on, balance_cents)
+SELECT id, balance_date, balance_cents FROM public.super_accounts;
@@ -0,0 +1,52 @@
+-- Saved what-if scenarios for the plan page: a name plus a list of changes
+-- to the current plan (income, work hours, spending, new goals, investment
+-- sales). Scenarios store only the changes; the current plan they apply to
+-- is worked out fresh each time, so they stay comparable as real data moves.
+--
+-- changes is a JSON array validated by the app (see ScenarioChange in
+-- src/lib/scenario-planner.ts). Scenarios are shared by both partners.
+
+CREATE TABLE public.plan_scenarios (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  partnership_id uuid NOT NULL,
+  created_by uuid,
+  name text NOT NULL,
+  notes text,
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.plan_scenarios ADD CONSTRAINT plan_scenarios_pkey PRIMARY KEY (id);
+ALTER TABLE public.plan_scenarios ADD CONSTRAINT plan_scenarios_partnership_id_fkey FOREIGN KEY (partnership_id) REFERENCES public.partnerships(id) ON DELETE CASCADE;
+ALTER TABLE public.plan_scenarios ADD CONSTRAINT plan_scenarios_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.plan_scenarios ADD CONSTRAINT plan_scenarios_name_length CHECK (char_length(name) BETWEEN 1 AND 100);
+ALTER TABLE public.plan_scenarios ADD CONSTRAINT plan_scenarios_notes_length CHECK (notes IS NULL OR char_length(notes) <= 1000);
+ALTER TABLE public.plan_scenarios ADD CONSTRAINT plan_scenarios_changes_array CHECK (jsonb_typeof(changes) = 'array');
+
+CREATE INDEX idx_plan_scenarios_partnership_id ON public.plan_scenarios USING btree (partnership_id);
+
+ALTER TABLE public.plan_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can create partnership scenarios" ON public.plan_scenarios
+  FOR INSERT TO authenticated
+  WITH CHECK (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can delete partnership scenarios" ON public.plan_scenarios
+  FOR DELETE TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can update partnership scenarios" ON public.plan_scenarios
+  FOR UPDATE TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can view partnership scenarios" ON public.plan_scenarios
+  FOR SELECT TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+
+CREATE TRIGGER set_updated_at_plan_scenarios BEFORE UPDATE ON public.plan_scenarios FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
@@ -0,0 +1,37 @@
+-- Multi-currency holdings and accounts with stored daily FX rates.
+--
+-- fx_rates holds one closing rate per currency per day (AUD per 1 unit),
+-- filled by the FX rates cron job and on demand when a foreign holding is
+-- priced. It's shared reference data: signed-in users can read it, only the
+-- service role writes.
+--
+-- Foreign investments keep their value and cost base in their own currency
+-- (native_*) next to the AUD figures everything else sums, and
+-- investment_history records the native value too, so the portfolio chart
+-- can convert each day at that day's rate (see src/lib/fx-rates.ts).
+-- Native columns are NULL for AUD holdings.
+
+CREATE TABLE public.fx_rates (
+  currency_code text NOT NULL,
+  rate_date date NOT NULL,
+  aud_rate numeric NOT NULL,
+  source text NOT NULL DEFAULT 'yahoo'::text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.fx_rates ADD CONSTRAINT fx_rates_pkey PRIMARY KEY (currency_code, rate_date);
+ALTER TABLE public.fx_rates ADD CONSTRAINT fx_rates_currency_code_format CHECK (currency_code ~ '^[A-Z]{3}$');
+ALTER TABLE public.fx_rates ADD CONSTRAINT fx_rates_aud_rate_positive CHECK (aud_rate > 0);
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view FX rates" ON public.fx_rates
+  FOR SELECT TO authenticated
+  USING (true);
+
+ALTER TABLE public.investments ADD COLUMN native_value_cents bigint;
+ALTER TABLE public.investments ADD COLUMN native_purchase_value_cents bigint;
+ALTER TABLE public.investments ADD COLUMN purchase_date date;
+ALTER TABLE public.investments ADD CONSTRAINT investments_currency_code_format CHECK (currency_code ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.investment_history ADD COLUMN native_value_cents bigint;
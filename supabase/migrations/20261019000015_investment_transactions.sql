@@ -0,0 +1,75 @@
+-- Per-holding transaction ledger: buys, sells, cash dividends, dividend
+-- reinvestments (DRP) and unit splits. Once a holding has ledger entries,
+-- its quantity and cost base (investments.quantity, purchase_value_cents,
+-- native_purchase_value_cents) are derived from them by the app, along with
+-- realised gains and CGT figures (see src/lib/investment-ledger.ts).
+--
+-- Amounts are AUD at the trade date, which is what the ATO wants for cost
+-- base and capital proceeds. For a foreign holding native_amount_cents keeps
+-- the amount in the holding's currency so the native cost base can be
+-- derived too.
+--
+-- amount_cents is the cost for a buy or DRP, the proceeds for a sell and the
+-- cash paid for a dividend; brokerage goes in fees_cents. A sell's
+-- parcel_allocations names the buy/DRP parcels it sold from
+-- ([{ "parcel_id": uuid, "quantity": number }]); NULL means first in, first
+-- out. split_ratio is new units per old unit (2 for a 2-for-1 split).
+
+CREATE TABLE public.investment_transactions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  investment_id uuid NOT NULL,
+  partnership_id uuid NOT NULL,
+  created_by uuid,
+  transaction_type text NOT NULL,
+  trade_date date NOT NULL,
+  quantity numeric,
+  amount_cents bigint NOT NULL DEFAULT 0,
+  fees_cents bigint NOT NULL DEFAULT 0,
+  native_amount_cents bigint,
+  split_ratio numeric,
+  parcel_allocations jsonb,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_pkey PRIMARY KEY (id);
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_investment_id_fkey FOREIGN KEY (investment_id) REFERENCES public.investments(id) ON DELETE CASCADE;
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_partnership_id_fkey FOREIGN KEY (partnership_id) REFERENCES public.partnerships(id) ON DELETE CASCADE;
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_type_valid CHECK (transaction_type IN ('buy', 'sell', 'dividend', 'drp', 'split'));
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_quantity_valid CHECK (
+  CASE WHEN transaction_type IN ('buy', 'sell', 'drp') THEN quantity IS NOT NULL AND quantity > 0
+       ELSE quantity IS NULL END
+);
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_split_ratio_valid CHECK (
+  CASE WHEN transaction_type = 'split' THEN split_ratio IS NOT NULL AND split_ratio > 0
+       ELSE split_ratio IS NULL END
+);
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_amounts_non_negative CHECK (amount_cents >= 0 AND fees_cents >= 0 AND (native_amount_cents IS NULL OR native_amount_cents >= 0));
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_parcels_array CHECK (
+  parcel_allocations IS NULL OR (transaction_type = 'sell' AND jsonb_typeof(parcel_allocations) = 'array')
+);
+ALTER TABLE public.investment_transactions ADD CONSTRAINT investment_transactions_notes_length CHECK (notes IS NULL OR char_length(notes) <= 500);
+
+CREATE INDEX idx_investment_transactions_investment_date ON public.investment_transactions USING btree (investment_id, trade_date);
+CREATE INDEX idx_investment_transactions_partnership_id ON public.investment_transactions USING btree (partnership_id);
+
+ALTER TABLE public.investment_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can create partnership investment transactions" ON public.investment_transactions
+  FOR INSERT TO authenticated
+  WITH CHECK (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ) AND investment_id IN (
+    SELECT id FROM investments WHERE partnership_id = investment_transactions.partnership_id
+  ));
+CREATE POLICY "Members can delete partnership investment transactions" ON public.investment_transactions
+  FOR DELETE TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can view partnership investment transactions" ON public.investment_transactions
+  FOR SELECT TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
@@ -0,0 +1,65 @@
+-- Pluggable price providers and stored prices.
+--
+-- investments.price_provider picks where a holding's price comes from:
+-- 'auto' (CoinGecko for crypto, Yahoo Finance for stocks and ETFs), one of
+-- those explicitly, or 'manual' for holdings priced only from imported price
+-- files and prices entered by hand (no network calls).
+--
+-- investment_prices keeps one unit price per holding per day, in the
+-- holding's currency. Live quotes are saved here too, so a refresh soon
+-- after another reuses the stored quote and a refresh with no network falls
+-- back to the last known price. Imported and manual prices also backfill
+-- investment_history (see src/lib/price-store.ts).
+
+ALTER TABLE public.investments ADD COLUMN price_provider text NOT NULL DEFAULT 'auto'::text;
+ALTER TABLE public.investments ADD CONSTRAINT investments_price_provider_valid CHECK (price_provider IN ('auto', 'coingecko', 'yahoo', 'manual'));
+
+CREATE TABLE public.investment_prices (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  investment_id uuid NOT NULL,
+  partnership_id uuid NOT NULL,
+  price_date date NOT NULL,
+  price numeric NOT NULL,
+  currency_code text NOT NULL DEFAULT 'AUD'::text,
+  source text NOT NULL,
+  fetched_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.investment_prices ADD CONSTRAINT investment_prices_pkey PRIMARY KEY (id);
+ALTER TABLE public.investment_prices ADD CONSTRAINT investment_prices_investment_id_fkey FOREIGN KEY (investment_id) REFERENCES public.investments(id) ON DELETE CASCADE;
+ALTER TABLE public.investment_prices ADD CONSTRAINT investment_prices_partnership_id_fkey FOREIGN KEY (partnership_id) REFERENCES public.partnerships(id) ON DELETE CASCADE;
+ALTER TABLE public.investment_prices ADD CONSTRAINT investment_prices_investment_date_key UNIQUE (investment_id, price_date);
+ALTER TABLE public.investment_prices ADD CONSTRAINT investment_prices_price_positive CHECK (price > 0);
+ALTER TABLE public.investment_prices ADD CONSTRAINT investment_prices_currency_code_format CHECK (currency_code ~ '^[A-Z]{3}$');
+ALTER TABLE public.investment_prices ADD CONSTRAINT investment_prices_source_valid CHECK (source IN ('coingecko', 'yahoo', 'file', 'manual'));
+
+CREATE INDEX idx_investment_prices_partnership_id ON public.investment_prices USING btree (partnership_id);
+
+ALTER TABLE public.investment_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can create partnership investment prices" ON public.investment_prices
+  FOR INSERT TO authenticated
+  WITH CHECK (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ) AND investment_id IN (
+    SELECT id FROM investments WHERE partnership_id = investment_prices.partnership_id
+  ));
+CREATE POLICY "Members can update partnership investment prices" ON public.investment_prices
+  FOR UPDATE TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ))
+  WITH CHECK (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can delete partnership investment prices" ON public.investment_prices
+  FOR DELETE TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can view partnership investment prices" ON public.investment_prices
+  FOR SELECT TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
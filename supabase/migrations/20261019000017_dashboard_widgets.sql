@@ -0,0 +1,27 @@
+-- Customisable dashboard widgets.
+--
+-- user_dashboard_charts has been in the schema since the start but nothing
+-- read it. The home dashboard now renders each row as a widget on a
+-- 12-column grid (see src/lib/dashboard-widgets.ts), so pin down the values
+-- the app understands. Rows from before, like the demo seed's 'donut' chart,
+-- become spending trend widgets.
+
+UPDATE public.user_dashboard_charts
+SET chart_type = 'category-trend'
+WHERE chart_type NOT IN ('category-trend', 'merchant-top', 'budget-burndown', 'net-worth', 'goal-progress', 'upcoming-bills');
+
+UPDATE public.user_dashboard_charts
+SET time_period = 'this-month'
+WHERE time_period NOT IN ('this-month', 'last-month', '3-months', '6-months', '12-months', 'next-7-days', 'next-14-days', 'next-30-days');
+
+UPDATE public.user_dashboard_charts
+SET grid_width = LEAST(GREATEST(COALESCE(grid_width, 6), 1), 12),
+    grid_height = LEAST(GREATEST(COALESCE(grid_height, 3), 1), 6),
+    grid_x = GREATEST(COALESCE(grid_x, 0), 0),
+    grid_y = GREATEST(COALESCE(grid_y, 0), 0);
+
+ALTER TABLE public.user_dashboard_charts ADD CONSTRAINT user_dashboard_charts_chart_type_valid CHECK (chart_type IN ('category-trend', 'merchant-top', 'budget-burndown', 'net-worth', 'goal-progress', 'upcoming-bills'));
+ALTER TABLE public.user_dashboard_charts ADD CONSTRAINT user_dashboard_charts_time_period_valid CHECK (time_period IN ('this-month', 'last-month', '3-months', '6-months', '12-months', 'next-7-days', 'next-14-days', 'next-30-days'));
+ALTER TABLE public.user_dashboard_charts ADD CONSTRAINT user_dashboard_charts_grid_width_range CHECK (grid_width BETWEEN 1 AND 12);
+ALTER TABLE public.user_dashboard_charts ADD CONSTRAINT user_dashboard_charts_grid_height_range CHECK (grid_height BETWEEN 1 AND 6);
+ALTER TABLE public.user_dashboard_charts ADD CONSTRAINT user_dashboard_charts_grid_position_valid CHECK (grid_x >= 0 AND grid_y >= 0);
@@ -0,0 +1,20 @@
+-- Life milestones linked to savings goals.
+--
+-- A milestone (a wedding, a baby, a renovation) has a one-off cost on its
+-- target date and a change to monthly spending from then on. impact_months
+-- says how long that monthly change lasts (NULL = ongoing), e.g. 216 for
+-- eighteen years of raising a child.
+--
+-- linked_goal_id points at the savings goal paying for the one-off cost. The
+-- plan counts only the part of the cost the goal doesn't cover against
+-- general savings (see src/lib/life-milestones.ts). Deleting the goal keeps
+-- the milestone and clears the link.
+
+ALTER TABLE public.milestones ADD COLUMN linked_goal_id uuid;
+ALTER TABLE public.milestones ADD COLUMN impact_months integer;
+
+ALTER TABLE public.milestones ADD CONSTRAINT milestones_linked_goal_id_fkey FOREIGN KEY (linked_goal_id) REFERENCES public.savings_goals(id) ON DELETE SET NULL;
+ALTER TABLE public.milestones ADD CONSTRAINT milestones_impact_months_positive CHECK (impact_months IS NULL OR impact_months > 0);
+ALTER TABLE public.milestones ADD CONSTRAINT milestones_estimated_cost_non_negative CHECK (estimated_cost_cents >= 0);
+
+CREATE INDEX idx_milestones_linked_goal_id ON public.milestones USING btree (linked_goal_id);
@@ -0,0 +1,166 @@
+-- Budget moves: money moved between envelopes within a budget period, e.g.
+-- covering an overspent category from one with money to spare.
+--
+-- A move lowers one budget_assignments row and raises another in a single
+-- transaction through move_budget_assignment(), and records who made it and
+-- why here. Envelopes are recorded by the budget engine's row key
+-- ("Parent::Child", "goal::uuid", "asset::uuid"); NULL means unassigned
+-- (To Be Budgeted). Labels keep the history readable after renames.
+
+CREATE TABLE public.budget_moves (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  partnership_id uuid NOT NULL,
+  budget_id uuid,
+  budget_view text NOT NULL DEFAULT 'shared'::text,
+  month date NOT NULL,
+  from_key text,
+  from_label text,
+  to_key text,
+  to_label text,
+  amount_cents bigint NOT NULL,
+  note text,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.budget_moves ADD CONSTRAINT budget_moves_pkey PRIMARY KEY (id);
+ALTER TABLE public.budget_moves ADD CONSTRAINT budget_moves_partnership_id_fkey FOREIGN KEY (partnership_id) REFERENCES public.partnerships(id) ON DELETE CASCADE;
+ALTER TABLE public.budget_moves ADD CONSTRAINT budget_moves_budget_id_fkey FOREIGN KEY (budget_id) REFERENCES public.user_budgets(id) ON DELETE CASCADE;
+ALTER TABLE public.budget_moves ADD CONSTRAINT budget_moves_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.budget_moves ADD CONSTRAINT budget_moves_amount_positive CHECK (amount_cents > 0);
+ALTER TABLE public.budget_moves ADD CONSTRAINT budget_moves_has_side CHECK (from_key IS NOT NULL OR to_key IS NOT NULL);
+ALTER TABLE public.budget_moves ADD CONSTRAINT budget_moves_budget_view_valid CHECK (budget_view IN ('individual', 'shared'));
+ALTER TABLE public.budget_moves ADD CONSTRAINT budget_moves_note_length CHECK (note IS NULL OR char_length(note) <= 500);
+
+CREATE INDEX idx_budget_moves_budget_month ON public.budget_moves USING btree (partnership_id, budget_id, month);
+
+ALTER TABLE public.budget_moves ENABLE ROW LEVEL SECURITY;
+
+-- Moves are history: members can add and read them, not edit them
+CREATE POLICY "Members can create partnership budget moves" ON public.budget_moves
+  FOR INSERT TO authenticated
+  WITH CHECK (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+CREATE POLICY "Members can view partnership budget moves" ON public.budget_moves
+  FOR SELECT TO authenticated
+  USING (partnership_id IN (
+    SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+  ));
+
+-- Move money between two envelopes and record it. Each side is NULL for
+-- unassigned, or a jsonb object with the assignment's identity
+-- (assignment_type, category_name, subcategory_name, goal_id, asset_id), the
+-- row key and label, and shown_cents: the assigned amount the app showed.
+-- The new assignment is shown_cents -/+ the amount; if the stored assignment
+-- is set and no longer matches what was shown, someone else changed it and
+-- the move is refused. Runs as the caller so RLS still applies.
+CREATE OR REPLACE FUNCTION public.move_budget_assignment(
+  p_partnership_id uuid,
+  p_budget_id uuid,
+  p_budget_view text,
+  p_month date,
+  p_from jsonb,
+  p_to jsonb,
+  p_amount_cents bigint,
+  p_note text
+)
+RETURNS public.budget_moves
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_side jsonb;
+  v_delta bigint;
+  v_id uuid;
+  v_current bigint;
+  v_new bigint;
+  v_move public.budget_moves;
+BEGIN
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Amount must be more than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_from IS NULL AND p_to IS NULL THEN
+    RAISE EXCEPTION 'A move needs a source or a destination' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_side, v_delta IN
+    SELECT s.side, s.delta
+    FROM (VALUES (p_from, -p_amount_cents), (p_to, p_amount_cents)) AS s(side, delta)
+    WHERE s.side IS NOT NULL
+  LOOP
+    v_id := NULL;
+    v_current := NULL;
+
+    SELECT a.id, a.assigned_cents INTO v_id, v_current
+    FROM public.budget_assignments a
+    WHERE a.partnership_id = p_partnership_id
+      AND a.month = p_month
+      AND a.budget_view = p_budget_view
+      AND a.assignment_type = v_side->>'assignment_type'
+      AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+      AND COALESCE(a.category_name, '') = COALESCE(v_side->>'category_name', '')
+      AND COALESCE(a.subcategory_name, '') = COALESCE(v_side->>'subcategory_name', '')
+      AND COALESCE(a.goal_id::text, '') = COALESCE(v_side->>'goal_id', '')
+      AND COALESCE(a.asset_id::text, '') = COALESCE(v_side->>'asset_id', '')
+    FOR UPDATE;
+
+    IF v_id IS NOT NULL AND v_current <> 0 AND v_current <> (v_side->>'shown_cents')::bigint THEN
+      RAISE EXCEPTION 'Assignment changed since the budget was loaded' USING ERRCODE = '40001';
+    END IF;
+
+    v_new := (v_side->>'shown_cents')::bigint + v_delta;
+    IF v_new < 0 THEN
+      RAISE EXCEPTION 'Cannot move more than is assigned' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_id IS NULL THEN
+      INSERT INTO public.budget_assignments (
+        partnership_id, budget_id, budget_view, month, assignment_type,
+        category_name, subcategory_name, goal_id, asset_id, assigned_cents, created_by
+      ) VALUES (
+        p_partnership_id,
+        p_budget_id,
+        p_budget_view,
+        p_month,
+        v_side->>'assignment_type',
+        COALESCE(v_side->>'category_name', ''),
+        NULLIF(v_side->>'subcategory_name', ''),
+        (v_side->>'goal_id')::uuid,
+        (v_side->>'asset_id')::uuid,
+        v_new,
+        auth.uid()
+      );
+    ELSE
+      UPDATE public.budget_assignments
+      SET assigned_cents = v_new,
+          updated_at = timezone('utc'::text, now())
+      WHERE id = v_id;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.budget_moves (
+    partnership_id, budget_id, budget_view, month,
+    from_key, from_label, to_key, to_label, amount_cents, note, created_by
+  ) VALUES (
+    p_partnership_id,
+    p_budget_id,
+    p_budget_view,
+    p_month,
+    p_from->>'key',
+    p_from->>'label',
+    p_to->>'key',
+    p_to->>'label',
+    p_amount_cents,
+    NULLIF(p_note, ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_move;
+
+  RETURN v_move;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.move_budget_assignment(uuid, uuid, text, date, jsonb, jsonb, bigint, text) TO authenticated;
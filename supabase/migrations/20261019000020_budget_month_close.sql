@@ -0,0 +1,315 @@
+-- Closing a budget month: a frozen record of how the month ended, and a lock
+-- on its assignments.
+--
+-- budget_months gains the close itself (who and when), a jsonb snapshot of
+-- the final assigned / spent / available per envelope and the expected
+-- expenses that never matched a transaction (see src/lib/budget-close.ts),
+-- and what was done with the envelopes' leftover money:
+--
+--   carry_over             leftovers stay in their envelopes and roll into
+--                          the next month through the budget's carryover mode
+--   return_to_unassigned   leftovers are added to next month's
+--                          carryover_from_previous_cents (To Be Budgeted)
+--   sweep_to_goal          as return_to_unassigned, then assigned to a goal
+--                          in the next month
+--
+-- Released envelopes have rollover turned off for the closed month so the
+-- same money doesn't also roll forward.
+
+ALTER TABLE public.budget_months
+  ADD COLUMN closed_at timestamp with time zone,
+  ADD COLUMN closed_by uuid,
+  ADD COLUMN spent_total_cents bigint NOT NULL DEFAULT 0,
+  ADD COLUMN leftover_action text,
+  ADD COLUMN leftover_cents bigint NOT NULL DEFAULT 0,
+  ADD COLUMN leftover_goal_id uuid,
+  ADD COLUMN snapshot jsonb;
+
+ALTER TABLE public.budget_months ADD CONSTRAINT budget_months_closed_by_fkey FOREIGN KEY (closed_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.budget_months ADD CONSTRAINT budget_months_leftover_goal_id_fkey FOREIGN KEY (leftover_goal_id) REFERENCES public.savings_goals(id) ON DELETE SET NULL;
+ALTER TABLE public.budget_months ADD CONSTRAINT budget_months_leftover_action_valid
+  CHECK (leftover_action IS NULL OR leftover_action IN ('carry_over', 'return_to_unassigned', 'sweep_to_goal'));
+ALTER TABLE public.budget_months ADD CONSTRAINT budget_months_leftover_non_negative CHECK (leftover_cents >= 0);
+
+-- Closed months are locked: assignments can't be added, changed or removed
+-- until the month is reopened. Covers every writer (assign, move money,
+-- templates, AI tools) in one place.
+CREATE OR REPLACE FUNCTION public.enforce_budget_month_open()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_row public.budget_assignments;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.budget_months m
+    WHERE m.partnership_id = v_row.partnership_id
+      AND m.month = v_row.month
+      AND COALESCE(m.budget_id::text, '') = COALESCE(v_row.budget_id::text, '')
+      AND m.closed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'This budget month is closed' USING ERRCODE = '55000';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_budget_month_open
+  BEFORE INSERT OR UPDATE OR DELETE ON public.budget_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_budget_month_open();
+
+-- Close a month: apply the leftover action, then store the snapshot and lock
+-- it. p_release_keys is a jsonb array of {category_name, subcategory_name}
+-- envelopes whose rollover is turned off. Raises 55000 if the month (or the
+-- next month, when leftovers move into it) is already closed.
+CREATE OR REPLACE FUNCTION public.close_budget_month(
+  p_partnership_id uuid,
+  p_budget_id uuid,
+  p_budget_view text,
+  p_month date,
+  p_snapshot jsonb,
+  p_income_total_cents bigint,
+  p_assigned_total_cents bigint,
+  p_spent_total_cents bigint,
+  p_leftover_action text,
+  p_leftover_cents bigint,
+  p_leftover_goal_id uuid,
+  p_release_keys jsonb
+)
+RETURNS public.budget_months
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_next_month date := (p_month + interval '1 month')::date;
+  v_month public.budget_months;
+  v_next public.budget_months;
+  v_key jsonb;
+  v_goal_assignment_id uuid;
+BEGIN
+  IF p_leftover_cents IS NULL OR p_leftover_cents < 0 THEN
+    RAISE EXCEPTION 'Leftover can''t be negative' USING ERRCODE = '22023';
+  END IF;
+  IF p_leftover_action = 'sweep_to_goal' AND p_leftover_goal_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a goal to sweep leftovers into' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_month
+  FROM public.budget_months m
+  WHERE m.partnership_id = p_partnership_id
+    AND m.month = p_month
+    AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+  FOR UPDATE;
+
+  IF v_month.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This budget month is already closed' USING ERRCODE = '55000';
+  END IF;
+
+  IF p_leftover_action IN ('return_to_unassigned', 'sweep_to_goal') AND p_leftover_cents > 0 THEN
+    -- Stop the released envelopes rolling their balance forward
+    FOR v_key IN SELECT * FROM jsonb_array_elements(COALESCE(p_release_keys, '[]'::jsonb))
+    LOOP
+      UPDATE public.budget_assignments a
+      SET rollover = false,
+          updated_at = timezone('utc'::text, now())
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = p_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'category'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.category_name = v_key->>'category_name'
+        AND a.subcategory_name = v_key->>'subcategory_name';
+
+      IF NOT FOUND THEN
+        -- 0 keeps an expense-default envelope on its default amount
+        INSERT INTO public.budget_assignments (
+          partnership_id, budget_id, budget_view, month, assignment_type,
+          category_name, subcategory_name, assigned_cents, rollover, created_by
+        ) VALUES (
+          p_partnership_id, p_budget_id, p_budget_view, p_month, 'category',
+          v_key->>'category_name', v_key->>'subcategory_name', 0, false, auth.uid()
+        );
+      END IF;
+    END LOOP;
+
+    -- Hand the leftovers to next month's To Be Budgeted
+    SELECT * INTO v_next
+    FROM public.budget_months m
+    WHERE m.partnership_id = p_partnership_id
+      AND m.month = v_next_month
+      AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+    FOR UPDATE;
+
+    IF v_next.closed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'The next budget month is already closed' USING ERRCODE = '55000';
+    END IF;
+
+    IF v_next.id IS NULL THEN
+      INSERT INTO public.budget_months (partnership_id, budget_id, month, carryover_from_previous_cents)
+      VALUES (p_partnership_id, p_budget_id, v_next_month, p_leftover_cents);
+    ELSE
+      UPDATE public.budget_months
+      SET carryover_from_previous_cents = carryover_from_previous_cents + p_leftover_cents,
+          updated_at = timezone('utc'::text, now())
+      WHERE id = v_next.id;
+    END IF;
+
+    -- ...and assign them straight to the goal
+    IF p_leftover_action = 'sweep_to_goal' THEN
+      SELECT a.id INTO v_goal_assignment_id
+      FROM public.budget_assignments a
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = v_next_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'goal'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.goal_id = p_leftover_goal_id
+      FOR UPDATE;
+
+      IF v_goal_assignment_id IS NULL THEN
+        INSERT INTO public.budget_assignments (
+          partnership_id, budget_id, budget_view, month, assignment_type,
+          category_name, goal_id, assigned_cents, created_by
+        ) VALUES (
+          p_partnership_id, p_budget_id, p_budget_view, v_next_month, 'goal',
+          '', p_leftover_goal_id, p_leftover_cents, auth.uid()
+        );
+      ELSE
+        UPDATE public.budget_assignments
+        SET assigned_cents = assigned_cents + p_leftover_cents,
+            updated_at = timezone('utc'::text, now())
+        WHERE id = v_goal_assignment_id;
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_month.id IS NULL THEN
+    INSERT INTO public.budget_months (partnership_id, budget_id, month)
+    VALUES (p_partnership_id, p_budget_id, p_month)
+    RETURNING * INTO v_month;
+  END IF;
+
+  UPDATE public.budget_months
+  SET income_total_cents = p_income_total_cents,
+      assigned_total_cents = p_assigned_total_cents,
+      spent_total_cents = p_spent_total_cents,
+      snapshot = p_snapshot,
+      leftover_action = p_leftover_action,
+      leftover_cents = p_leftover_cents,
+      leftover_goal_id = p_leftover_goal_id,
+      closed_at = timezone('utc'::text, now()),
+      closed_by = auth.uid(),
+      updated_at = timezone('utc'::text, now())
+  WHERE id = v_month.id
+  RETURNING * INTO v_month;
+
+  RETURN v_month;
+END;
+$$;
+
+-- Reopen a closed month: undo the leftover action and unlock it. The snapshot
+-- is discarded; closing again takes a fresh one. Raises 55000 if the next
+-- month is closed, since its To Be Budgeted would change underneath it.
+CREATE OR REPLACE FUNCTION public.reopen_budget_month(
+  p_partnership_id uuid,
+  p_budget_id uuid,
+  p_budget_view text,
+  p_month date
+)
+RETURNS public.budget_months
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_next_month date := (p_month + interval '1 month')::date;
+  v_month public.budget_months;
+  v_key jsonb;
+BEGIN
+  SELECT * INTO v_month
+  FROM public.budget_months m
+  WHERE m.partnership_id = p_partnership_id
+    AND m.month = p_month
+    AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+  FOR UPDATE;
+
+  IF v_month.closed_at IS NULL THEN
+    RAISE EXCEPTION 'This budget month isn''t closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_month.leftover_action IN ('return_to_unassigned', 'sweep_to_goal') AND v_month.leftover_cents > 0 THEN
+    IF EXISTS (
+      SELECT 1 FROM public.budget_months m
+      WHERE m.partnership_id = p_partnership_id
+        AND m.month = v_next_month
+        AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND m.closed_at IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Reopen the next budget month first' USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE public.budget_months m
+    SET carryover_from_previous_cents = GREATEST(0, m.carryover_from_previous_cents - v_month.leftover_cents),
+        updated_at = timezone('utc'::text, now())
+    WHERE m.partnership_id = p_partnership_id
+      AND m.month = v_next_month
+      AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '');
+
+    IF v_month.leftover_action = 'sweep_to_goal' AND v_month.leftover_goal_id IS NOT NULL THEN
+      UPDATE public.budget_assignments a
+      SET assigned_cents = GREATEST(0, a.assigned_cents - v_month.leftover_cents),
+          updated_at = timezone('utc'::text, now())
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = v_next_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'goal'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.goal_id = v_month.leftover_goal_id;
+    END IF;
+  END IF;
+
+  -- Unlock first so the released envelopes can roll forward again
+  UPDATE public.budget_months
+  SET closed_at = NULL,
+      closed_by = NULL,
+      snapshot = NULL,
+      leftover_action = NULL,
+      leftover_cents = 0,
+      leftover_goal_id = NULL,
+      updated_at = timezone('utc'::text, now())
+  WHERE id = v_month.id;
+
+  FOR v_key IN SELECT * FROM jsonb_array_elements(COALESCE(v_month.snapshot->'leftover'->'releasedKeys', '[]'::jsonb))
+  LOOP
+    UPDATE public.budget_assignments a
+    SET rollover = true,
+        updated_at = timezone('utc'::text, now())
+    WHERE a.partnership_id = p_partnership_id
+      AND a.month = p_month
+      AND a.budget_view = p_budget_view
+      AND a.assignment_type = 'category'
+      AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+      AND a.category_name = v_key->>'category_name'
+      AND a.subcategory_name = v_key->>'subcategory_name';
+  END LOOP;
+
+  SELECT * INTO v_month FROM public.budget_months WHERE id = v_month.id;
+  RETURN v_month;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_budget_month(uuid, uuid, text, date, jsonb, bigint, bigint, bigint, text, bigint, uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reopen_budget_month(uuid, uuid, text, date) TO authenticated;
@@ -0,0 +1,42 @@
+-- Pay-cycle budget periods for user_budgets.
+--
+-- Weekly and fortnightly periods have been month-aligned (1-7, 8-14, ... and
+-- 1-14, 15-end), so a fortnightly pay never lines up with them. A budget can
+-- now anchor its periods to a pay date instead:
+--   pay_cycle_source_id  an income source whose pay date drives the periods
+--   period_anchor_date   a fixed anchor, used when there is no pay source
+-- Weekly, fortnightly and four-weekly periods step from the anchor in 7, 14
+-- or 28 days; monthly periods start on the anchor's day of the month. With
+-- no anchor, budgets keep their month-aligned periods.
+--
+-- Four-weekly periods are new and always anchored (see
+-- getBudgetPeriodRange in src/lib/budget-engine.ts).
+
+ALTER TABLE public.user_budgets
+  ADD COLUMN period_anchor_date date,
+  ADD COLUMN pay_cycle_source_id uuid;
+
+ALTER TABLE public.user_budgets
+  ADD CONSTRAINT user_budgets_pay_cycle_source_id_fkey
+  FOREIGN KEY (pay_cycle_source_id) REFERENCES public.income_sources(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_user_budgets_pay_cycle_source
+  ON public.user_budgets (pay_cycle_source_id)
+  WHERE pay_cycle_source_id IS NOT NULL;
+
+ALTER TABLE public.user_budgets
+  DROP CONSTRAINT IF EXISTS user_budgets_period_type_valid;
+
+ALTER TABLE public.user_budgets
+  ADD CONSTRAINT user_budgets_period_type_valid
+  CHECK (period_type IN ('weekly', 'fortnightly', 'four-weekly', 'monthly'));
+
+ALTER TABLE public.budget_assignments
+  DROP CONSTRAINT IF EXISTS budget_assignments_stored_period_type_valid;
+
+ALTER TABLE public.budget_assignments
+  ADD CONSTRAINT budget_assignments_stored_period_type_valid
+  CHECK (stored_period_type IS NULL OR stored_period_type IN ('weekly', 'fortnightly', 'four-weekly', 'monthly'));
+
+COMMENT ON COLUMN public.user_budgets.period_anchor_date IS 'Pay-cycle anchor for budget periods when pay_cycle_source_id is not set; NULL keeps month-aligned periods';
+COMMENT ON COLUMN public.user_budgets.pay_cycle_source_id IS 'Income source whose pay date anchors the budget periods';
@@ -0,0 +1,110 @@
+-- Reopening a closed month puts released envelopes back the way they were.
+--
+-- The close route now records each released envelope's rollover in
+-- p_release_keys (and so in the snapshot) as previous_rollover. A null
+-- previous_rollover means the envelope had no assignment row and the close
+-- inserted a $0 placeholder; reopening deletes it again instead of leaving a
+-- row that pins the envelope to $0. Snapshots taken before this migration
+-- have no previous_rollover and keep the old behaviour (rollover back on).
+
+CREATE OR REPLACE FUNCTION public.reopen_budget_month(
+  p_partnership_id uuid,
+  p_budget_id uuid,
+  p_budget_view text,
+  p_month date
+)
+RETURNS public.budget_months
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_next_month date := (p_month + interval '1 month')::date;
+  v_month public.budget_months;
+  v_key jsonb;
+BEGIN
+  SELECT * INTO v_month
+  FROM public.budget_months m
+  WHERE m.partnership_id = p_partnership_id
+    AND m.month = p_month
+    AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+  FOR UPDATE;
+
+  IF v_month.closed_at IS NULL THEN
+    RAISE EXCEPTION 'This budget month isn''t closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_month.leftover_action IN ('return_to_unassigned', 'sweep_to_goal') AND v_month.leftover_cents > 0 THEN
+    IF EXISTS (
+      SELECT 1 FROM public.budget_months m
+      WHERE m.partnership_id = p_partnership_id
+        AND m.month = v_next_month
+        AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND m.closed_at IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Reopen the next budget month first' USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE public.budget_months m
+    SET carryover_from_previous_cents = GREATEST(0, m.carryover_from_previous_cents - v_month.leftover_cents),
+        updated_at = timezone('utc'::text, now())
+    WHERE m.partnership_id = p_partnership_id
+      AND m.month = v_next_month
+      AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '');
+
+    IF v_month.leftover_action = 'sweep_to_goal' AND v_month.leftover_goal_id IS NOT NULL THEN
+      UPDATE public.budget_assignments a
+      SET assigned_cents = GREATEST(0, a.assigned_cents - v_month.leftover_cents),
+          updated_at = timezone('utc'::text, now())
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = v_next_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'goal'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.goal_id = v_month.leftover_goal_id;
+    END IF;
+  END IF;
+
+  -- Unlock first so the released envelopes can be changed again
+  UPDATE public.budget_months
+  SET closed_at = NULL,
+      closed_by = NULL,
+      snapshot = NULL,
+      leftover_action = NULL,
+      leftover_cents = 0,
+      leftover_goal_id = NULL,
+      updated_at = timezone('utc'::text, now())
+  WHERE id = v_month.id;
+
+  FOR v_key IN SELECT * FROM jsonb_array_elements(COALESCE(v_month.snapshot->'leftover'->'releasedKeys', '[]'::jsonb))
+  LOOP
+    IF jsonb_typeof(v_key->'previous_rollover') = 'null' THEN
+      -- The close inserted this row; the month was locked since, so it is
+      -- still the $0 placeholder
+      DELETE FROM public.budget_assignments a
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = p_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'category'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.category_name = v_key->>'category_name'
+        AND a.subcategory_name = v_key->>'subcategory_name'
+        AND a.assigned_cents = 0;
+    ELSE
+      UPDATE public.budget_assignments a
+      SET rollover = COALESCE((v_key->>'previous_rollover')::boolean, true),
+          updated_at = timezone('utc'::text, now())
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = p_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'category'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.category_name = v_key->>'category_name'
+        AND a.subcategory_name = v_key->>'subcategory_name';
+    END IF;
+  END LOOP;
+
+  SELECT * INTO v_month FROM public.budget_months WHERE id = v_month.id;
+  RETURN v_month;
+END;
+$$;
@@ -0,0 +1,26 @@
+-- Pay-cycle periods read a fixed anchor only.
+--
+-- Budgets linked to an income source used its next_pay_date as their anchor,
+-- which moves every payday. A source paid on a different cycle than the
+-- budget's periods (monthly pay on fortnightly periods, say) shifted the
+-- period boundaries each time, and month-end pay dates drift as they are
+-- advanced. Linking a source now copies its pay date into
+-- period_anchor_date, and only a source whose frequency matches the period
+-- type can be linked (see src/app/actions/budgets.ts).
+--
+-- Existing links get the anchor they were using, and links whose frequency
+-- doesn't match are dropped, keeping that anchor as a plain start date.
+
+UPDATE public.user_budgets b
+SET period_anchor_date = COALESCE(s.next_pay_date, s.last_pay_date, b.period_anchor_date),
+    pay_cycle_source_id = CASE
+      WHEN (b.period_type, s.frequency) IN (
+        ('weekly', 'weekly'), ('fortnightly', 'fortnightly'), ('monthly', 'monthly')
+      ) THEN b.pay_cycle_source_id
+      ELSE NULL
+    END
+FROM public.income_sources s
+WHERE s.id = b.pay_cycle_source_id;
+
+COMMENT ON COLUMN public.user_budgets.period_anchor_date IS 'Pay-cycle anchor for budget periods, copied from the pay source when one is linked; NULL keeps month-aligned periods';
+COMMENT ON COLUMN public.user_budgets.pay_cycle_source_id IS 'Income source the period anchor was taken from; its frequency matches period_type';
@@ -0,0 +1,20 @@
+-- Pin transaction_attachments.storage_path to the row's own ids.
+--
+-- The insert policy checked uploaded_by and the transaction but not
+-- storage_path, so a row could point at another user's file (or, with the
+-- local store, a path that normalises into their folder) and be served back
+-- through the download route. storage_path now has to be exactly
+-- "<uploaded_by>/<transaction_id>/<id>.<ext>" for the row's content type,
+-- matching buildAttachmentPath() in src/lib/transaction-attachments.ts. The
+-- API routes also rebuild the path from the ids rather than trusting it.
+
+ALTER TABLE public.transaction_attachments ADD CONSTRAINT transaction_attachments_storage_path_valid CHECK (
+  storage_path = uploaded_by::text || '/' || transaction_id::text || '/' || id::text || '.' ||
+    CASE content_type
+      WHEN 'image/jpeg' THEN 'jpg'
+      WHEN 'image/png' THEN 'png'
+      WHEN 'image/webp' THEN 'webp'
+      WHEN 'image/heic' THEN 'heic'
+      WHEN 'application/pdf' THEN 'pdf'
+    END
+);
@@ -0,0 +1,209 @@
+-- Restore a backup bundle in a single transaction.
+--
+-- The restore route used to clear the household's setup and then write the
+-- bundle table by table through PostgREST, carrying on past failed batches.
+-- One bad batch left the original data deleted and the backup half restored.
+-- planBackupRestore() in src/lib/data-backup.ts now remaps the whole bundle
+-- up front, and this function applies the plan: the clear, every table's
+-- rows, the category overrides and the splits either all commit or, on the
+-- first error, all roll back.
+--
+-- Runs as the caller so RLS limits it to what the user could write directly.
+-- Tables are restricted to the ones a bundle carries, and the clear is
+-- scoped to p_partnership_id and auth.uid() here rather than by the plan.
+--
+-- p_plan:
+--   clear               [{ table, scope: partnership | member | user }]
+--   profile             columns for the caller's profiles row, or null
+--   partnership         columns for the partnerships row, or null
+--   tags                tag names to create if missing
+--   steps               [{ table, rows, on_conflict?, ignore_duplicates? }]
+--   category_overrides  [{ transaction_id, category_id, parent_category_id }]
+--   splits              [{ transaction_id, splits }] (see replace_transaction_splits)
+--
+-- Returns the number of rows written per table.
+
+CREATE OR REPLACE FUNCTION public.restore_backup_bundle(
+  p_partnership_id uuid,
+  p_plan jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tables text[] := ARRAY[
+    'accounts', 'transactions',
+    'income_sources', 'user_budgets', 'budgets', 'savings_goals', 'investments', 'debts',
+    'super_accounts', 'super_balance_history', 'super_contributions', 'plan_scenarios',
+    'expense_definitions', 'budget_assignments', 'budget_months', 'budget_moves',
+    'budget_category_shares', 'budget_item_preferences', 'budget_layout_presets',
+    'goal_contributions', 'investment_history', 'investment_contributions',
+    'investment_transactions', 'investment_prices', 'target_allocations', 'watchlist_items',
+    'couple_split_settings', 'expense_matches', 'milestones', 'annual_checkups',
+    'methodology_customizations', 'category_pin_states', 'net_worth_snapshots',
+    'user_dashboard_charts', 'transaction_rules', 'merchant_category_rules',
+    'transaction_notes', 'transaction_tags', 'transaction_category_overrides',
+    'transaction_share_overrides'
+  ];
+  v_restored jsonb := '{}'::jsonb;
+  v_item jsonb;
+  v_table text;
+  v_keys text[];
+  v_columns text;
+  v_updates text;
+  v_conflict text;
+  v_count integer;
+  v_splits integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.partnership_members pm
+    WHERE pm.partnership_id = p_partnership_id AND pm.user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this partnership' USING ERRCODE = '42501';
+  END IF;
+
+  -- 1. Replace mode: empty the household's setup, children before parents
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'clear', '[]'::jsonb)) LOOP
+    v_table := v_item->>'table';
+    IF v_table IS NULL OR NOT v_table = ANY (v_tables) THEN
+      RAISE EXCEPTION 'Backups can''t restore %', v_table USING ERRCODE = '22023';
+    END IF;
+
+    CASE v_item->>'scope'
+      WHEN 'partnership' THEN
+        EXECUTE format('DELETE FROM public.%I WHERE partnership_id = $1', v_table) USING p_partnership_id;
+      WHEN 'member' THEN
+        EXECUTE format('DELETE FROM public.%I WHERE partnership_id = $1 AND user_id = $2', v_table)
+          USING p_partnership_id, v_user_id;
+      WHEN 'user' THEN
+        EXECUTE format('DELETE FROM public.%I WHERE user_id = $1', v_table) USING v_user_id;
+      ELSE
+        RAISE EXCEPTION 'Unknown clear scope %', v_item->>'scope' USING ERRCODE = '22023';
+    END CASE;
+  END LOOP;
+
+  -- 2. Profile and partnership settings (only columns the tables have)
+  IF jsonb_typeof(p_plan->'profile') = 'object' THEN
+    SELECT string_agg(format('%1$I = r.%1$I', a.attname), ', ')
+    INTO v_updates
+    FROM pg_catalog.pg_attribute a
+    WHERE a.attrelid = 'public.profiles'::regclass
+      AND a.attnum > 0 AND NOT a.attisdropped AND a.attname <> 'id'
+      AND p_plan->'profile' ? a.attname::text;
+
+    IF v_updates IS NOT NULL THEN
+      EXECUTE format(
+        'UPDATE public.profiles p SET %s FROM jsonb_populate_record(NULL::public.profiles, $1) r WHERE p.id = $2',
+        v_updates
+      ) USING p_plan->'profile', v_user_id;
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(p_plan->'partnership') = 'object' THEN
+    SELECT string_agg(format('%1$I = r.%1$I', a.attname), ', ')
+    INTO v_updates
+    FROM pg_catalog.pg_attribute a
+    WHERE a.attrelid = 'public.partnerships'::regclass
+      AND a.attnum > 0 AND NOT a.attisdropped AND a.attname <> 'id'
+      AND p_plan->'partnership' ? a.attname::text;
+
+    IF v_updates IS NOT NULL THEN
+      EXECUTE format(
+        'UPDATE public.partnerships p SET %s FROM jsonb_populate_record(NULL::public.partnerships, $1) r WHERE p.id = $2',
+        v_updates
+      ) USING p_plan->'partnership', p_partnership_id;
+    END IF;
+  END IF;
+
+  -- 3. Tag names transaction_tags point at
+  INSERT INTO public.tags (name)
+  SELECT DISTINCT t.name
+  FROM jsonb_array_elements_text(COALESCE(p_plan->'tags', '[]'::jsonb)) AS t(name)
+  ON CONFLICT (name) DO NOTHING;
+
+  -- 4. Each table's rows, in plan order. Only columns both the rows and the
+  -- table have are written, so bundles from older versions still restore;
+  -- upserts never rewrite a matched row's id.
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'steps', '[]'::jsonb)) LOOP
+    v_table := v_item->>'table';
+    IF v_table IS NULL OR NOT v_table = ANY (v_tables) THEN
+      RAISE EXCEPTION 'Backups can''t restore %', v_table USING ERRCODE = '22023';
+    END IF;
+    IF COALESCE(jsonb_array_length(v_item->'rows'), 0) = 0 THEN
+      CONTINUE;
+    END IF;
+
+    v_keys := CASE
+      WHEN v_item->>'on_conflict' IS NULL THEN NULL
+      ELSE regexp_split_to_array(trim(v_item->>'on_conflict'), '\s*,\s*')
+    END;
+
+    SELECT
+      string_agg(quote_ident(a.attname), ', ' ORDER BY a.attnum),
+      string_agg(format('%1$I = EXCLUDED.%1$I', a.attname), ', ' ORDER BY a.attnum)
+        FILTER (WHERE a.attname <> 'id' AND NOT a.attname::text = ANY (COALESCE(v_keys, '{}'::text[])))
+    INTO v_columns, v_updates
+    FROM pg_catalog.pg_attribute a
+    WHERE a.attrelid = format('public.%I', v_table)::regclass
+      AND a.attnum > 0 AND NOT a.attisdropped
+      AND a.attgenerated = '' AND a.attidentity <> 'a'
+      AND EXISTS (SELECT 1 FROM jsonb_array_elements(v_item->'rows') AS r WHERE r.value ? a.attname::text);
+
+    IF v_columns IS NULL THEN
+      RAISE EXCEPTION 'Backup rows for % have no known columns', v_table USING ERRCODE = '22023';
+    END IF;
+
+    v_conflict := '';
+    IF v_keys IS NOT NULL THEN
+      v_conflict := format(
+        ' ON CONFLICT (%s) DO %s',
+        (SELECT string_agg(quote_ident(k), ', ') FROM unnest(v_keys) AS k),
+        CASE
+          WHEN COALESCE((v_item->>'ignore_duplicates')::boolean, false) OR v_updates IS NULL THEN 'NOTHING'
+          ELSE 'UPDATE SET ' || v_updates
+        END
+      );
+    END IF;
+
+    EXECUTE format(
+      'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::public.%I, $1)%s',
+      v_table, v_columns, v_columns, v_table, v_conflict
+    ) USING v_item->'rows';
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    v_restored := v_restored || jsonb_build_object(
+      v_table, COALESCE((v_restored->>v_table)::integer, 0) + v_count
+    );
+  END LOOP;
+
+  -- 5. Overrides only record the change; the transaction carries the category
+  UPDATE public.transactions t
+  SET category_id = o.category_id,
+      parent_category_id = o.parent_category_id
+  FROM jsonb_to_recordset(COALESCE(p_plan->'category_overrides', '[]'::jsonb))
+    AS o(transaction_id uuid, category_id text, parent_category_id text)
+  WHERE t.id = o.transaction_id;
+
+  -- 6. Splits, re-validated against the destination transaction's amount
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'splits', '[]'::jsonb)) LOOP
+    SELECT count(*) INTO v_count
+    FROM public.replace_transaction_splits((v_item->>'transaction_id')::uuid, v_item->'splits');
+    v_splits := v_splits + v_count;
+  END LOOP;
+
+  IF v_splits > 0 THEN
+    v_restored := v_restored || jsonb_build_object('transaction_splits', v_splits);
+  END IF;
+
+  RETURN v_restored;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_backup_bundle(uuid, jsonb) TO authenticated;
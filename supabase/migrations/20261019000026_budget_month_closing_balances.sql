@@ -0,0 +1,266 @@
+-- Store the envelope balances each closed month hands on to the next.
+--
+-- Rollover used to be rebuilt by replaying the last twelve periods, so any
+-- balance older than that was dropped and long-running sinking funds stopped
+-- growing. Closing a month now records closing_balances: row key
+-- ("Category::Subcategory") to the cents that roll into the next month,
+-- after the leftover action. The rollover loader starts from the latest
+-- closed month's balances and replays only the periods since (see
+-- src/lib/load-budget-rollover.ts). Reopening the month clears them.
+
+ALTER TABLE public.budget_months ADD COLUMN closing_balances jsonb;
+
+DROP FUNCTION public.close_budget_month(uuid, uuid, text, date, jsonb, bigint, bigint, bigint, text, bigint, uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION public.close_budget_month(
+  p_partnership_id uuid,
+  p_budget_id uuid,
+  p_budget_view text,
+  p_month date,
+  p_snapshot jsonb,
+  p_income_total_cents bigint,
+  p_assigned_total_cents bigint,
+  p_spent_total_cents bigint,
+  p_leftover_action text,
+  p_leftover_cents bigint,
+  p_leftover_goal_id uuid,
+  p_release_keys jsonb,
+  p_closing_balances jsonb
+)
+RETURNS public.budget_months
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_next_month date := (p_month + interval '1 month')::date;
+  v_month public.budget_months;
+  v_next public.budget_months;
+  v_key jsonb;
+  v_goal_assignment_id uuid;
+BEGIN
+  IF p_leftover_cents IS NULL OR p_leftover_cents < 0 THEN
+    RAISE EXCEPTION 'Leftover can''t be negative' USING ERRCODE = '22023';
+  END IF;
+  IF p_leftover_action = 'sweep_to_goal' AND p_leftover_goal_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a goal to sweep leftovers into' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_month
+  FROM public.budget_months m
+  WHERE m.partnership_id = p_partnership_id
+    AND m.month = p_month
+    AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+  FOR UPDATE;
+
+  IF v_month.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This budget month is already closed' USING ERRCODE = '55000';
+  END IF;
+
+  IF p_leftover_action IN ('return_to_unassigned', 'sweep_to_goal') AND p_leftover_cents > 0 THEN
+    -- Stop the released envelopes rolling their balance forward
+    FOR v_key IN SELECT * FROM jsonb_array_elements(COALESCE(p_release_keys, '[]'::jsonb))
+    LOOP
+      UPDATE public.budget_assignments a
+      SET rollover = false,
+          updated_at = timezone('utc'::text, now())
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = p_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'category'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.category_name = v_key->>'category_name'
+        AND a.subcategory_name = v_key->>'subcategory_name';
+
+      IF NOT FOUND THEN
+        -- 0 keeps an expense-default envelope on its default amount
+        INSERT INTO public.budget_assignments (
+          partnership_id, budget_id, budget_view, month, assignment_type,
+          category_name, subcategory_name, assigned_cents, rollover, created_by
+        ) VALUES (
+          p_partnership_id, p_budget_id, p_budget_view, p_month, 'category',
+          v_key->>'category_name', v_key->>'subcategory_name', 0, false, auth.uid()
+        );
+      END IF;
+    END LOOP;
+
+    -- Hand the leftovers to next month's To Be Budgeted
+    SELECT * INTO v_next
+    FROM public.budget_months m
+    WHERE m.partnership_id = p_partnership_id
+      AND m.month = v_next_month
+      AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+    FOR UPDATE;
+
+    IF v_next.closed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'The next budget month is already closed' USING ERRCODE = '55000';
+    END IF;
+
+    IF v_next.id IS NULL THEN
+      INSERT INTO public.budget_months (partnership_id, budget_id, month, carryover_from_previous_cents)
+      VALUES (p_partnership_id, p_budget_id, v_next_month, p_leftover_cents);
+    ELSE
+      UPDATE public.budget_months
+      SET carryover_from_previous_cents = carryover_from_previous_cents + p_leftover_cents,
+          updated_at = timezone('utc'::text, now())
+      WHERE id = v_next.id;
+    END IF;
+
+    -- ...and assign them straight to the goal
+    IF p_leftover_action = 'sweep_to_goal' THEN
+      SELECT a.id INTO v_goal_assignment_id
+      FROM public.budget_assignments a
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = v_next_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'goal'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.goal_id = p_leftover_goal_id
+      FOR UPDATE;
+
+      IF v_goal_assignment_id IS NULL THEN
+        INSERT INTO public.budget_assignments (
+          partnership_id, budget_id, budget_view, month, assignment_type,
+          category_name, goal_id, assigned_cents, created_by
+        ) VALUES (
+          p_partnership_id, p_budget_id, p_budget_view, v_next_month, 'goal',
+          '', p_leftover_goal_id, p_leftover_cents, auth.uid()
+        );
+      ELSE
+        UPDATE public.budget_assignments
+        SET assigned_cents = assigned_cents + p_leftover_cents,
+            updated_at = timezone('utc'::text, now())
+        WHERE id = v_goal_assignment_id;
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_month.id IS NULL THEN
+    INSERT INTO public.budget_months (partnership_id, budget_id, month)
+    VALUES (p_partnership_id, p_budget_id, p_month)
+    RETURNING * INTO v_month;
+  END IF;
+
+  UPDATE public.budget_months
+  SET income_total_cents = p_income_total_cents,
+      assigned_total_cents = p_assigned_total_cents,
+      spent_total_cents = p_spent_total_cents,
+      snapshot = p_snapshot,
+      closing_balances = COALESCE(p_closing_balances, '{}'::jsonb),
+      leftover_action = p_leftover_action,
+      leftover_cents = p_leftover_cents,
+      leftover_goal_id = p_leftover_goal_id,
+      closed_at = timezone('utc'::text, now()),
+      closed_by = auth.uid(),
+      updated_at = timezone('utc'::text, now())
+  WHERE id = v_month.id
+  RETURNING * INTO v_month;
+
+  RETURN v_month;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_budget_month(
+  p_partnership_id uuid,
+  p_budget_id uuid,
+  p_budget_view text,
+  p_month date
+)
+RETURNS public.budget_months
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_next_month date := (p_month + interval '1 month')::date;
+  v_month public.budget_months;
+  v_key jsonb;
+BEGIN
+  SELECT * INTO v_month
+  FROM public.budget_months m
+  WHERE m.partnership_id = p_partnership_id
+    AND m.month = p_month
+    AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+  FOR UPDATE;
+
+  IF v_month.closed_at IS NULL THEN
+    RAISE EXCEPTION 'This budget month isn''t closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_month.leftover_action IN ('return_to_unassigned', 'sweep_to_goal') AND v_month.leftover_cents > 0 THEN
+    IF EXISTS (
+      SELECT 1 FROM public.budget_months m
+      WHERE m.partnership_id = p_partnership_id
+        AND m.month = v_next_month
+        AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND m.closed_at IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Reopen the next budget month first' USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE public.budget_months m
+    SET carryover_from_previous_cents = GREATEST(0, m.carryover_from_previous_cents - v_month.leftover_cents),
+        updated_at = timezone('utc'::text, now())
+    WHERE m.partnership_id = p_partnership_id
+      AND m.month = v_next_month
+      AND COALESCE(m.budget_id::text, '') = COALESCE(p_budget_id::text, '');
+
+    IF v_month.leftover_action = 'sweep_to_goal' AND v_month.leftover_goal_id IS NOT NULL THEN
+      UPDATE public.budget_assignments a
+      SET assigned_cents = GREATEST(0, a.assigned_cents - v_month.leftover_cents),
+          updated_at = timezone('utc'::text, now())
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = v_next_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'goal'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.goal_id = v_month.leftover_goal_id;
+    END IF;
+  END IF;
+
+  -- Unlock first so the released envelopes can be changed again
+  UPDATE public.budget_months
+  SET closed_at = NULL,
+      closed_by = NULL,
+      snapshot = NULL,
+      closing_balances = NULL,
+      leftover_action = NULL,
+      leftover_cents = 0,
+      leftover_goal_id = NULL,
+      updated_at = timezone('utc'::text, now())
+  WHERE id = v_month.id;
+
+  FOR v_key IN SELECT * FROM jsonb_array_elements(COALESCE(v_month.snapshot->'leftover'->'releasedKeys', '[]'::jsonb))
+  LOOP
+    IF jsonb_typeof(v_key->'previous_rollover') = 'null' THEN
+      -- The close inserted this row; the month was locked since, so it is
+      -- still the $0 placeholder
+      DELETE FROM public.budget_assignments a
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = p_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'category'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.category_name = v_key->>'category_name'
+        AND a.subcategory_name = v_key->>'subcategory_name'
+        AND a.assigned_cents = 0;
+    ELSE
+      UPDATE public.budget_assignments a
+      SET rollover = COALESCE((v_key->>'previous_rollover')::boolean, true),
+          updated_at = timezone('utc'::text, now())
+      WHERE a.partnership_id = p_partnership_id
+        AND a.month = p_month
+        AND a.budget_view = p_budget_view
+        AND a.assignment_type = 'category'
+        AND COALESCE(a.budget_id::text, '') = COALESCE(p_budget_id::text, '')
+        AND a.category_name = v_key->>'category_name'
+        AND a.subcategory_name = v_key->>'subcategory_name';
+    END IF;
+  END LOOP;
+
+  SELECT * INTO v_month FROM public.budget_months WHERE id = v_month.id;
+  RETURN v_month;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_budget_month(uuid, uuid, text, date, jsonb, bigint, bigint, bigint, text, bigint, uuid, jsonb, jsonb) TO authenticated;
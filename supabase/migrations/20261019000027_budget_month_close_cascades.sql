@@ -0,0 +1,46 @@
+-- Let foreign-key cascades through the closed-month lock.
+--
+-- budget_assignments rows reference goals, investments, budgets and the
+-- partnership with ON DELETE CASCADE. The lock rejected those cascaded
+-- deletes too, so once a month holding such an assignment was closed (a
+-- sweep-to-goal close writes one itself) the goal, investment, budget or
+-- partnership could no longer be deleted. Cascades run from the referential
+-- integrity trigger on the parent table, so a delete reaching this trigger
+-- at depth > 1 is one the user never asked for directly; only writes made
+-- against budget_assignments itself stay locked.
+
+CREATE OR REPLACE FUNCTION public.enforce_budget_month_open()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_row public.budget_assignments;
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.budget_months m
+    WHERE m.partnership_id = v_row.partnership_id
+      AND m.month = v_row.month
+      AND COALESCE(m.budget_id::text, '') = COALESCE(v_row.budget_id::text, '')
+      AND m.closed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'This budget month is closed' USING ERRCODE = '55000';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
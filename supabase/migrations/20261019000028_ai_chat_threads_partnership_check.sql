@@ -0,0 +1,51 @@
+-- Keep shared chat threads inside the owner's own partnership.
+--
+-- The insert and update policies only checked the owner, so a thread could
+-- be written with is_shared and any partnership_id and show up for a
+-- stranger's partnership. Both now require the partnership to be one the
+-- user belongs to, as debts, scenarios and super accounts do.
+--
+-- The select policy checks the viewer's membership, not the owner's, so a
+-- thread stayed readable by an ex-partner after its owner left. Leaving a
+-- partnership now unshares the owner's threads in it.
+
+DROP POLICY "Users can create own chat threads" ON public.ai_chat_threads;
+DROP POLICY "Users can update own chat threads" ON public.ai_chat_threads;
+
+CREATE POLICY "Users can create own chat threads" ON public.ai_chat_threads
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (partnership_id IS NULL OR partnership_id IN (
+      SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+    ))
+  );
+CREATE POLICY "Users can update own chat threads" ON public.ai_chat_threads
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (partnership_id IS NULL OR partnership_id IN (
+      SELECT partnership_id FROM partnership_members WHERE user_id = auth.uid()
+    ))
+  );
+
+CREATE OR REPLACE FUNCTION public.unshare_ai_chat_threads_on_leave()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.ai_chat_threads
+  SET is_shared = false
+  WHERE user_id = OLD.user_id
+    AND partnership_id = OLD.partnership_id
+    AND is_shared;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER unshare_ai_chat_threads_on_leave
+  AFTER DELETE ON public.partnership_members
+  FOR EACH ROW EXECUTE FUNCTION public.unshare_ai_chat_threads_on_leave();